@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest'
+import { getOutputName, parseArgs } from './args'
+
+describe('parseArgs', () => {
+  it('returns null for help', () => {
+    expect(parseArgs([])).toBeNull()
+    expect(parseArgs(['--help'])).toBeNull()
+    expect(parseArgs(['export', 'a.tslgraph', '-h'])).toBeNull()
+  })
+
+  it('reads export options with defaults', () => {
+    expect(parseArgs(['export', 'a.tslgraph'])).toMatchObject({
+      command: 'export',
+      inputs: ['a.tslgraph'],
+      kind: 'tsl',
+      format: 'js',
+      binary: false,
+      outDir: null,
+    })
+    expect(
+      parseArgs(['export', 'a.tslgraph', 'b.tslgraph', '-k', 'app', '-f', 'ts', '-o', 'out']),
+    ).toMatchObject({
+      inputs: ['a.tslgraph', 'b.tslgraph'],
+      kind: 'app',
+      format: 'ts',
+      outDir: 'out',
+    })
+  })
+
+  it('reads thumbnail options', () => {
+    expect(
+      parseArgs(['thumbnail', 'a.tslgraph', '--size', '64', '--surface', 'plane', '--time', '1.5']),
+    ).toMatchObject({ command: 'thumbnail', size: 64, surface: 'plane', time: 1.5 })
+  })
+
+  it.each([
+    [['build', 'a.tslgraph'], 'Unknown command "build"'],
+    [['export'], 'No graph files given'],
+    [
+      ['export', 'a.tslgraph', '--kind', 'obj'],
+      'Invalid --kind "obj" (expected tsl, material, app, gltf)',
+    ],
+    [['export', 'a.tslgraph', '--format'], 'Missing value for --format'],
+    [['export', 'a.tslgraph', '--verbose'], 'Unknown option "--verbose"'],
+    [
+      ['export', 'a.tslgraph', '-k', 'gltf', '-b'],
+      '--out is required when exporting several graphs or binary glTF',
+    ],
+    [
+      ['thumbnail', 'a.tslgraph', '--size', '0'],
+      'Invalid --size (expected an integer between 1 and 4096)',
+    ],
+  ])('rejects %j', (argv, message) => {
+    expect(() => parseArgs(argv)).toThrow(message)
+  })
+})
+
+describe('getOutputName', () => {
+  it('names outputs after the input graph', () => {
+    const name = (argv: string[]) => getOutputName('graphs/wave.tslgraph', parseArgs(argv)!)
+    expect(name(['export', 'x', '-f', 'ts', '-k', 'material'])).toBe('wave.material.ts')
+    expect(name(['export', 'x', '-k', 'gltf', '-b', '-o', 'out'])).toBe('wave.glb')
+    expect(name(['thumbnail', 'x'])).toBe('wave.png')
+  })
+})
@@ -0,0 +1,142 @@
+import { basename, extname } from 'node:path'
+import type { CompileFormat } from '../src/compileGraph'
+import type { GraphSurface } from '../src/graphEvaluator'
+
+export type ExportKind = 'tsl' | 'material' | 'app' | 'gltf'
+
+export type CliArgs = {
+  command: 'export' | 'lint' | 'thumbnail'
+  inputs: string[]
+  kind: ExportKind
+  format: CompileFormat
+  binary: boolean
+  outDir: string | null
+  strict: boolean
+  size: number
+  surface: GraphSurface
+  time: number
+}
+
+const EXPORT_KINDS: ExportKind[] = ['tsl', 'material', 'app', 'gltf']
+const COMMANDS: CliArgs['command'][] = ['export', 'lint', 'thumbnail']
+
+export const USAGE = `Usage: tsl-node-editor export <graph.tslgraph...> [options]
+       tsl-node-editor lint <graph.tslgraph...> [--strict]
+       tsl-node-editor thumbnail <graph.tslgraph...> [--size <px>] [--surface <surface>]
+
+Options:
+  -k, --kind <kind>      tsl | material | app | gltf (default: tsl)
+  -f, --format <format>  js | ts (default: js)
+  -b, --binary           write .glb instead of .gltf for --kind gltf
+  -o, --out <dir>        output directory (default: stdout for a single graph)
+  -s, --strict           lint: exit with an error on warnings too
+      --size <px>        thumbnail: image width and height (default: 128)
+      --surface <type>   thumbnail: plane | sphere (default: sphere)
+      --time <seconds>   thumbnail: value of the time node (default: 0)
+  -h, --help             show this help
+`
+
+export const fail = (message: string): never => {
+  throw new Error(message)
+}
+
+export const parseArgs = (argv: string[]): CliArgs | null => {
+  const [command, ...rest] = argv
+  if (!command || command === '-h' || command === '--help') return null
+  if (!COMMANDS.includes(command as CliArgs['command'])) fail(`Unknown command "${command}"`)
+  const args: CliArgs = {
+    command: command as CliArgs['command'],
+    inputs: [],
+    kind: 'tsl',
+    format: 'js',
+    binary: false,
+    outDir: null,
+    strict: false,
+    size: 128,
+    surface: 'sphere',
+    time: 0,
+  }
+  for (let i = 0; i < rest.length; i += 1) {
+    const arg = rest[i]
+    const next = () => rest[++i] ?? fail(`Missing value for ${arg}`)
+    switch (arg) {
+      case '-h':
+      case '--help':
+        return null
+      case '-k':
+      case '--kind': {
+        const kind = next()
+        if (!EXPORT_KINDS.includes(kind as ExportKind)) {
+          fail(`Invalid --kind "${kind}" (expected ${EXPORT_KINDS.join(', ')})`)
+        }
+        args.kind = kind as ExportKind
+        break
+      }
+      case '-f':
+      case '--format': {
+        const format = next()
+        if (format !== 'js' && format !== 'ts') {
+          fail(`Invalid --format "${format}" (expected js, ts)`)
+        }
+        args.format = format as CompileFormat
+        break
+      }
+      case '-b':
+      case '--binary':
+        args.binary = true
+        break
+      case '-o':
+      case '--out':
+        args.outDir = next()
+        break
+      case '-s':
+      case '--strict':
+        args.strict = true
+        break
+      case '--size': {
+        const size = Number(next())
+        if (!Number.isInteger(size) || size < 1 || size > 4096) {
+          fail('Invalid --size (expected an integer between 1 and 4096)')
+        }
+        args.size = size
+        break
+      }
+      case '--surface': {
+        const surface = next()
+        if (surface !== 'plane' && surface !== 'sphere') {
+          fail(`Invalid --surface "${surface}" (expected plane, sphere)`)
+        }
+        args.surface = surface as GraphSurface
+        break
+      }
+      case '--time': {
+        const time = Number(next())
+        if (!Number.isFinite(time)) fail('Invalid --time (expected a number)')
+        args.time = time
+        break
+      }
+      default:
+        if (arg.startsWith('-')) fail(`Unknown option "${arg}"`)
+        args.inputs.push(arg)
+    }
+  }
+  if (!args.inputs.length) fail('No graph files given')
+  if (
+    args.command === 'export' &&
+    !args.outDir &&
+    (args.inputs.length > 1 || (args.kind === 'gltf' && args.binary))
+  ) {
+    fail('--out is required when exporting several graphs or binary glTF')
+  }
+  if (args.command === 'thumbnail' && !args.outDir && args.inputs.length > 1) {
+    fail('--out is required when rendering several thumbnails')
+  }
+  return args
+}
+
+export const getOutputName = (input: string, args: CliArgs) => {
+  const name = basename(input, extname(input))
+  if (args.command === 'thumbnail') return `${name}.png`
+  if (args.kind === 'gltf') return `${name}.${args.binary ? 'glb' : 'gltf'}`
+  return `${name}.${args.kind}.${args.format}`
+}
@@ -0,0 +1,46 @@
+import { crc32, inflateSync } from 'node:zlib'
+import { describe, expect, it } from 'vitest'
+import { encodePng } from './png'
+
+const readChunks = (png: Uint8Array) => {
+  const buffer = Buffer.from(png)
+  const chunks: Array<{ type: string; data: Buffer; crc: number }> = []
+  for (let offset = 8; offset < buffer.length; ) {
+    const length = buffer.readUInt32BE(offset)
+    const type = buffer.toString('ascii', offset + 4, offset + 8)
+    const data = buffer.subarray(offset + 8, offset + 8 + length)
+    chunks.push({ type, data, crc: buffer.readUInt32BE(offset + 8 + length) })
+    offset += length + 12
+  }
+  return chunks
+}
+
+describe('encodePng', () => {
+  const image = {
+    width: 2,
+    height: 2,
+    data: new Uint8ClampedArray([255, 0, 0, 255, 0, 255, 0, 255, 0, 0, 255, 255, 1, 2, 3, 4]),
+  }
+
+  it('writes the signature and checksummed IHDR, IDAT and IEND chunks', () => {
+    const png = encodePng(image)
+    expect(Array.from(png.subarray(0, 8))).toEqual([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])
+    const chunks = readChunks(png)
+    expect(chunks.map((chunk) => chunk.type)).toEqual(['IHDR', 'IDAT', 'IEND'])
+    chunks.forEach((chunk) => {
+      expect(chunk.crc).toBe(crc32(Buffer.concat([Buffer.from(chunk.type), chunk.data])))
+    })
+    const [header] = chunks
+    expect(header.data.readUInt32BE(0)).toBe(2)
+    expect(header.data.readUInt32BE(4)).toBe(2)
+    expect(Array.from(header.data.subarray(8))).toEqual([8, 6, 0, 0, 0])
+  })
+
+  it('stores RGBA rows without filtering', () => {
+    const rows = inflateSync(readChunks(encodePng(image))[1].data)
+    expect(Array.from(rows)).toEqual([
+      0, 255, 0, 0, 255, 0, 255, 0, 255,
+      0, 0, 0, 255, 255, 1, 2, 3, 4,
+    ])
+  })
+})
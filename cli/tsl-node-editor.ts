@@ -0,0 +1,169 @@
+import { mkdir, readFile, writeFile } from 'node:fs/promises'
+import { join } from 'node:path'
+import type { BufferGeometry } from 'three'
+import type { GraphIRSource } from '../src/graphIR'
+import { compileGraph } from '../src/compileGraph'
+import { buildGraphObject, exportMeshesToGltf } from '../src/gltfExport'
+import { sanitizeConnections, type GraphNode } from '../src/graph'
+import {
+  decodeGraphBlob,
+  getNodeBlobKey,
+  getNodeBlobStore,
+  type GraphDocument,
+  type GraphFileBlob,
+} from '../src/graphFile'
+import { evaluateGraph } from '../src/graphEvaluator'
+import { lintGraph } from '../src/graphLint'
+import { migrateGraph } from '../src/graphMigration'
+import { getMeshFileFormat, parseMeshFile } from '../src/meshFile'
+import { formatGraphProblem, hasGraphErrors, readGraphFile } from '../src/graphValidation'
+import { USAGE, fail, getOutputName, parseArgs, type CliArgs } from './args'
+import { encodePng } from './png'
+
+// Mirrors how the editor loads a slot, so old graphs compile the same way in both.
+const migrateGraphDocument = (document: GraphDocument): GraphIRSource => {
+  const { nodes, connections } = migrateGraph(
+    document.nodes,
+    sanitizeConnections(document.connections, document.nodes),
+    document.graphSchemaVersion,
+  )
+  return { nodes, connections, functions: document.functions }
+}
+
+type GraphInput = {
+  source: GraphIRSource
+  blobs: GraphFileBlob[]
+}
+
+const readGraphInput = (input: string, text: string): GraphInput => {
+  const { document, problems } = readGraphFile(text)
+  problems.forEach((problem) => {
+    process.stderr.write(`${input}: ${formatGraphProblem(problem)}\n`)
+  })
+  if (!document) return fail(`${input}: invalid graph`)
+  return { source: migrateGraphDocument(document), blobs: document.blobs ?? [] }
+}
+
+const findNodeBlob = (blobs: GraphFileBlob[], node: GraphNode) => {
+  const store = getNodeBlobStore(node)
+  const key = getNodeBlobKey(node)
+  return blobs.find((blob) => blob.store === store && blob.id === key)
+}
+
+// Node has no image decoder or glTF loader, so bundles that embed those are refused rather than
+// rendered without them. Code exports bind textures at runtime, so only glTF materials, whose
+// factors are read when compiling, stop them there.
+const getUnsupportedNodes = ({ source, blobs }: GraphInput, args: CliArgs) =>
+  source.nodes.filter((node) => {
+    if (node.type === 'meshFile' || !findNodeBlob(blobs, node)) return false
+    return args.command === 'thumbnail' || args.kind === 'gltf' || node.type === 'gltfMaterial'
+  })
+
+const loadMeshFiles = async ({ source, blobs }: GraphInput) => {
+  const geometries = new Map<string, BufferGeometry>()
+  for (const node of source.nodes) {
+    const blob = node.type === 'meshFile' ? findNodeBlob(blobs, node) : undefined
+    const format = getMeshFileFormat(node.assetName ?? blob?.name)
+    if (!blob || !format) continue
+    geometries.set(node.id, parseMeshFile(await decodeGraphBlob(blob).arrayBuffer(), format))
+  }
+  return geometries
+}
+
+const lintGraphFile = (input: string, text: string, args: CliArgs) => {
+  const { document, problems } = readGraphFile(text)
+  const lintProblems = document ? lintGraph(migrateGraphDocument(document)) : []
+  const allProblems = [...problems, ...lintProblems]
+  allProblems.forEach((problem) => {
+    process.stdout.write(`${input}: ${formatGraphProblem(problem)}\n`)
+  })
+  return args.strict ? allProblems.length === 0 : !hasGraphErrors(allProblems)
+}
+
+const installFileReader = () => {
+  if (typeof globalThis.FileReader !== 'undefined') return
+  class NodeFileReader {
+    result: string | ArrayBuffer | null = null
+    onloadend: (() => void) | null = null
+    readAsArrayBuffer(blob: Blob) {
+      void blob.arrayBuffer().then((buffer) => {
+        this.result = buffer
+        this.onloadend?.()
+      })
+    }
+    readAsDataURL(blob: Blob) {
+      void blob.arrayBuffer().then((buffer) => {
+        const type = blob.type || 'application/octet-stream'
+        this.result = `data:${type};base64,${Buffer.from(buffer).toString('base64')}`
+        this.onloadend?.()
+      })
+    }
+  }
+  globalThis.FileReader = NodeFileReader as unknown as typeof FileReader
+}
+
+const exportGraph = async (graph: GraphInput, args: CliArgs) => {
+  if (args.kind !== 'gltf') {
+    return compileGraph(graph.source, { target: args.kind, format: args.format })
+  }
+  installFileReader()
+  const meshFiles = await loadMeshFiles(graph)
+  const object = buildGraphObject(graph.source, {}, (geometry) =>
+    geometry.type === 'meshFile' ? (meshFiles.get(geometry.node.id) ?? null) : null,
+  )
+  const result = await exportMeshesToGltf([object], { binary: args.binary })
+  return result instanceof ArrayBuffer ? new Uint8Array(result) : JSON.stringify(result, null, 2)
+}
+
+const renderThumbnail = (source: GraphIRSource, args: CliArgs) =>
+  encodePng(
+    evaluateGraph(source, {
+      width: args.size,
+      height: args.size,
+      surface: args.surface,
+      time: args.time,
+    }),
+  )
+
+const main = async () => {
+  const args = parseArgs(process.argv.slice(2))
+  if (!args) {
+    process.stdout.write(USAGE)
+    return
+  }
+  if (args.command === 'lint') {
+    for (const input of args.inputs) {
+      if (!lintGraphFile(input, await readFile(input, 'utf8'), args)) process.exitCode = 1
+    }
+    return
+  }
+  if (args.outDir) await mkdir(args.outDir, { recursive: true })
+  for (const input of args.inputs) {
+    const graph = readGraphInput(input, await readFile(input, 'utf8'))
+    if (!graph.source.nodes.some((node) => node.type === 'output')) {
+      fail(`${input}: graph has no output node`)
+    }
+    const unsupported = getUnsupportedNodes(graph, args)
+    if (unsupported.length) {
+      const names = unsupported.map((node) => `"${node.label}" (${node.type})`).join(', ')
+      fail(`${input}: embedded images and glTF assets are not supported by this command: ${names}`)
+    }
+    const output =
+      args.command === 'thumbnail'
+        ? renderThumbnail(graph.source, args)
+        : await exportGraph(graph, args)
+    if (!args.outDir) {
+      process.stdout.write(typeof output === 'string' ? `${output}\n` : output)
+      continue
+    }
+    const target = join(args.outDir, getOutputName(input, args))
+    await writeFile(target, output)
+    process.stderr.write(`${input} -> ${target}\n`)
+  }
+}
+
+main().catch((error) => {
+  const message = error instanceof Error ? error.message : String(error)
+  process.stderr.write(`tsl-node-editor: ${message}\n`)
+  process.exitCode = 1
+})
@@ -1,216 +1,207 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
 import './App.css'
+import { BoxGeometry, Color, Group, Mesh, PerspectiveCamera, Scene } from 'three/webgpu'
 import {
-  AmbientLight,
-  BoxGeometry,
-  Color,
-  DirectionalLight,
-  Mesh,
-  PerspectiveCamera,
-  PlaneGeometry,
-  Scene,
-  SphereGeometry,
-  TorusGeometry,
-  CylinderGeometry,
-} from 'three/webgpu'
-import {
+  AnimationMixer,
   BufferGeometry,
   Material,
   Mesh as ThreeMesh,
-  NoToneMapping,
+  Object3D,
   SRGBColorSpace,
   Texture,
   TextureLoader,
-  Vector2,
+  type AnimationAction,
+  type AnimationClip,
 } from 'three'
-import {
-  MeshBasicNodeMaterial,
-  MeshPhysicalNodeMaterial,
-  MeshStandardNodeMaterial,
-  WebGPURenderer,
-} from 'three/webgpu'
+import { MeshStandardNodeMaterial, WebGPURenderer, type NodeMaterial } from 'three/webgpu'
 import WebGPU from 'three/addons/capabilities/WebGPU.js'
 import { GLTFLoader } from 'three/addons/loaders/GLTFLoader.js'
-import { GLTFExporter } from 'three/addons/exporters/GLTFExporter.js'
-import { THREEMaterialsTSLExporterPlugin } from '@takahirox/gltf-three-materials-tsl-exporter'
-import { createDefaultNodeSerializer } from './tslGltfExporter'
 import { KTX2Loader } from 'three/addons/loaders/KTX2Loader.js'
 import {
-  acesFilmicToneMapping,
-  abs,
-  acos,
-  agxToneMapping,
-  asin,
-  atan,
-  atan2,
-  ceil,
-  clamp,
-  cos,
-  color,
-  cineonToneMapping,
-  cross,
-  checker,
-  equal,
-  distance,
-  degrees,
-  dot,
-  dFdx,
-  dFdy,
-  exp,
-  exp2,
-  faceforward,
-  float,
-  floor,
-  fract,
-  fwidth,
-  greaterThan,
-  greaterThanEqual,
-  grayscale,
-  length,
-  lessThan,
-  lessThanEqual,
-  linearToneMapping,
-  log,
-  log2,
-  luminance,
-  max,
-  mat2,
-  mat3,
-  mat4,
-  min,
-  mix,
-  modelWorldMatrix,
-  modelViewMatrix,
-  mx_fractal_noise_float,
-  mx_fractal_noise_vec2,
-  mx_fractal_noise_vec3,
-  mx_fractal_noise_vec4,
-  mx_noise_float,
-  mx_noise_vec3,
-  mx_noise_vec4,
-  mx_worley_noise_float,
-  mx_worley_noise_vec2,
-  mx_worley_noise_vec3,
-  mod,
-  negate,
-  neutralToneMapping,
-  modelNormalMatrix,
-  notEqual,
-  normalize,
-  oneMinus,
-  posterize,
-  pow2,
-  pow3,
-  pow4,
-  remap,
-  remapClamp,
-  pow,
-  normalLocal,
-  tangentLocal,
-  bitangentLocal,
-  positionLocal,
-  radians,
-  reinhardToneMapping,
-  reflect,
-  refract,
-  rotateUV,
-  round,
-  saturate,
-  sRGBTransferEOTF,
-  sRGBTransferOETF,
-  saturation,
-  select,
-  sign,
-  sin,
-  spherizeUV,
-  spritesheetUV,
-  smoothstep,
-  smoothstepElement,
-  sqrt,
-  step,
-  stepElement,
-  tan,
-  texture,
-  transpose,
-  triNoise3D,
-  trunc,
+  ATTRIBUTE_NODE_TYPES,
+  DEFAULT_COLOR,
+  GLTF_MATERIAL_TEXTURE_KEYS,
+  buildConnectionMap,
+  buildNodeMap,
+  combineTypes,
+  expandFunctions,
+  functionCallsFunction,
+  getAttributeNodeName,
+  getAttributeNodeType,
+  getAttributeTypeForItemSize,
+  getCameraUpdateValue,
+  getDefaultNumberUpdateSource,
+  getGltfMaterialTextureId,
+  getGltfTextureId,
+  getMaterialIndex,
+  getMaterialKindFromOutput,
+  getMeshIndex,
+  getNumberUpdateMode,
+  getNumberUpdateSource,
+  getObjectUpdateValue,
+  getTextureIndex,
+  getVectorKind,
+  isAssignableType,
+  isVectorKind,
+  numberUpdateModes,
+  numberUpdateSources,
+  parseNumber,
+  resolveVectorOutputKind,
+  sanitizeConnections,
+  type AttributeNodeType,
+  type FunctionDefinition,
+  type FunctionPin,
+  type GltfAssetEntry,
+  type GltfMaterial,
+  type GraphConnection,
+  type GraphGroup,
+  type GraphNode,
+  type UniformUpdateMode,
+  type UniformUpdateSource,
+} from './graph'
+import { buildGraphIR } from './graphIR'
+import { migrateGraph } from './graphMigration'
+import {
+  applyTslMaterial,
+  applyTslSoloMaterial,
+  createTslNodeEmitter,
+  emitTslCode,
+  getSoloMaterialKind,
+  toPreviewColorNode,
+} from './graphEmitters'
+import {
+  buildAppExport,
+  buildCreateAppLines,
+  buildMaterialExport,
+  compileGraph,
+  getExportTextureIds,
+} from './compileGraph'
+import {
+  GRAPH_BUNDLE_EXTENSION,
+  GRAPH_FILE_EXTENSION,
+  createGraphDocument,
+  decodeGraphBlob,
+  encodeGraphBlobs,
+  getNodeBlobKey,
+  getNodeBlobStore,
+  graphSchemaVersion,
+  stripNodeBlobs,
+  type GraphBlobPayload,
+  type GraphBlobStore,
+} from './graphFile'
+import { BASE_PALETTE, type PaletteItem } from './palette'
+import {
+  hasGraphErrors,
+  readGraphFile,
+  validateGraphDocument,
+  type GraphProblem,
+} from './graphValidation'
+import {
+  NODE_MATERIAL_CLASSES,
+  createNodeMaterial,
+  createPrimitiveGeometry,
+  exportMeshesToGltf,
+} from './gltfExport'
+import {
+  createPreviewObject,
+  disposePreviewObject,
+  getPreviewPrimitive,
+  type PreviewObject,
+} from './previewObjects'
+import { INPUT_TYPES, createTypeInference, getPinTypeIssues } from './graphTypes'
+import { inspectGraphPin, type PinInspection } from './graphInspect'
+import {
+  getGeneratedShader,
+  getShaderStats,
+  isShaderOutputKind,
+  type ShaderOutputKind,
+  type ShaderStats,
+} from './shaderSource'
+import { profileGraph, type GraphProfile } from './graphProfile'
+import {
+  GLTF_SCENE_MESH_INDEX,
+  createGltfScenePreview,
+  getGltfAnimationClip,
+  getGltfSceneMaterials,
+  isGltfSceneNode,
+  resolveGltfSceneMaterial,
+  type GltfSceneMaterialMode,
+  type GltfSceneMaterials,
+  type GltfScenePreview,
+} from './gltfScene'
+import {
+  MESH_FILE_ACCEPT,
+  getMeshFileFormat,
+  getMeshFileOutputs,
+  loadMeshFile,
+  parseMeshFile,
+  type MeshFileEntry,
+  type MeshFileFormat,
+} from './meshFile'
+import {
+  PRIMITIVE_SHAPES,
+  getPrimitiveShape,
+  sanitizePrimitiveParams,
+  type PrimitiveGeometry,
+} from './geometryPrimitives'
+import {
+  LIGHT_CLASSES,
+  LIGHT_RIG_LABELS,
+  TONE_MAPPING_LABELS,
+  createPreviewLight,
+  getPreviewLights,
+  parsePreviewEnvironment,
+  type LightRig,
+  type PreviewBackground,
+  type PreviewEnvironment,
+  type PreviewLight,
+  type PreviewLightType,
+  type PreviewToneMapping,
+} from './previewEnvironment'
+import {
+  applyPreviewEnvironment,
+  isEnvironmentFile,
+  loadEnvironmentMap,
+  type EnvironmentMap,
+} from './previewScene'
+import { lintGraph } from './graphLint'
+import {
+  LIBRARY_PALETTE_PREFIX,
+  detachLibraryFunction,
+  getLinkedFunctionId,
+  getLocalFunctionCalls,
+  linkLibraryFunction,
+  publishLibraryFunction,
+  syncFunctionNodePins,
+  syncLinkedFunctions,
+  type LibraryFunction,
+} from './functionLibrary'
+import {
+  GRAPH_TEMPLATES,
+  GRAPH_TEMPLATE_CATEGORIES,
+  createTemplateFunctionClipboard,
+  createTemplateGroupClipboard,
+  instantiateGraphTemplate,
+} from './graphTemplates'
+import {
+  copyGraphSelection,
+  parseGraphClipboard,
+  pasteGraphClipboard,
+  type GraphClipboard,
+} from './graphClipboard'
+import { evaluateGraph, evaluateGraphNode, type GraphImage } from './graphEvaluator'
+import type { GraphIRSource } from './graphIR'
+import {
+  NODE_PREVIEW_INTERVAL,
+  NODE_PREVIEW_SIZE,
+  createNodePreviewRenderer,
+  hasNodePreview,
+  type NodePreviewRenderer,
+} from './nodePreview'
+import {
   uniform,
-  uniformTexture,
-  inverse,
-  uv,
-  vec2,
-  vec3,
-  vec4,
-  cameraViewMatrix,
-  cameraProjectionMatrix,
 } from 'three/tsl'
 
-type GraphNode = {
-  id: string
-  type: string
-  label: string
-  x: number
-  y: number
-  inputs: string[]
-  outputs: string[]
-  value?: number | string
-  slider?: boolean
-  textureKey?: string
-  textureName?: string
-  assetKey?: string
-  assetName?: string
-  meshIndex?: string
-  materialIndex?: string
-  textureIndex?: string
-  updateMode?: UniformUpdateMode
-  updateSource?: UniformUpdateSource
-  functionId?: string
-}
-
-type UniformUpdateMode = 'manual' | 'frame' | 'render' | 'object'
-type UniformUpdateSource =
-  | 'value'
-  | 'time'
-  | 'objectPositionX'
-  | 'objectPositionY'
-  | 'objectPositionZ'
-  | 'objectRotationX'
-  | 'objectRotationY'
-  | 'objectRotationZ'
-  | 'objectScaleX'
-  | 'objectScaleY'
-  | 'objectScaleZ'
-  | 'cameraPositionX'
-  | 'cameraPositionY'
-  | 'cameraPositionZ'
-
-type GraphConnection = {
-  id: string
-  from: { nodeId: string; pin: string }
-  to: { nodeId: string; pin: string }
-}
-
-type GraphGroup = {
-  id: string
-  label: string
-  nodeIds: string[]
-  collapsed?: boolean
-}
-
-type FunctionPin = {
-  name: string
-  nodeId: string
-}
-
-type FunctionDefinition = {
-  id: string
-  name: string
-  nodes: GraphNode[]
-  connections: GraphConnection[]
-  inputs: FunctionPin[]
-  outputs: FunctionPin[]
-}
-
 type UniformEntry = {
   uniform: ReturnType<typeof uniform>
   mode: UniformUpdateMode
@@ -218,28 +209,6 @@ type UniformEntry = {
   kind: 'number' | 'color'
 }
 
-type NodeMap = Map<string, GraphNode>
-type ConnectionMap = Map<string, GraphConnection>
-type OutputPin = 'baseColor' | 'roughness' | 'metalness'
-type ExprKind = 'color' | 'number' | 'vec2' | 'vec3' | 'vec4' | 'mat2' | 'mat3' | 'mat4'
-type ExprResult = { expr: string; kind: ExprKind }
-type TslNodeValue =
-  | ReturnType<typeof color>
-  | ReturnType<typeof float>
-  | ReturnType<typeof vec2>
-  | ReturnType<typeof vec3>
-  | ReturnType<typeof vec4>
-  | ReturnType<typeof mat2>
-  | ReturnType<typeof mat3>
-  | ReturnType<typeof mat4>
-type TslNodeResult = { node: TslNodeValue; kind: ExprKind }
-type PaletteItem = {
-  type: string
-  label: string
-  inputs: string[]
-  outputs: string[]
-  defaultValue?: string
-}
 type ExampleGraph = {
   nodes: GraphNode[]
   connections: GraphConnection[]
@@ -247,275 +216,24 @@ type ExampleGraph = {
   functions?: Record<string, FunctionDefinition>
   ui?: { paletteOpen?: Record<string, boolean> }
 }
-type GltfTextureInfo = {
-  texture?: Texture | null
-  scale?: Vector2
-  strength?: number
-}
-type GltfPbrMetallicRoughness = {
-  baseColorFactor?: number[]
-  baseColorTexture?: GltfTextureInfo
-  metallicFactor?: number
-  roughnessFactor?: number
-  metallicRoughnessTexture?: GltfTextureInfo
-}
-type GltfMaterial = Material & {
-  [key: string]: unknown
-  color?: Color
-  map?: Texture | null
-  roughness?: number
-  roughnessMap?: Texture | null
-  metalness?: number
-  metalnessMap?: Texture | null
-  emissive?: Color
-  emissiveMap?: Texture | null
-  emissiveIntensity?: number
-  normalMap?: Texture | null
-  normalScale?: Vector2
-  aoMap?: Texture | null
-  aoMapIntensity?: number
-  envMap?: Texture | null
-  envMapIntensity?: number
-  opacity?: number
-  alphaTest?: number
-  alphaHash?: boolean
-  name?: string
-  pbrMetallicRoughness?: GltfPbrMetallicRoughness
-  emissiveFactor?: number[]
-  emissiveTexture?: GltfTextureInfo
-  emissiveStrength?: number
-  normalTexture?: GltfTextureInfo
-  occlusionTexture?: GltfTextureInfo
-  clearcoatFactor?: number
-  clearcoatTexture?: GltfTextureInfo
-  clearcoatRoughnessFactor?: number
-  clearcoatRoughnessTexture?: GltfTextureInfo
-  clearcoatNormalTexture?: GltfTextureInfo
-  sheenColorFactor?: number[]
-  sheenColorTexture?: GltfTextureInfo
-  sheenRoughnessFactor?: number
-  sheenRoughnessTexture?: GltfTextureInfo
-  iridescenceFactor?: number
-  iridescenceTexture?: GltfTextureInfo
-  iridescenceIOR?: number
-  iridescenceThicknessRange?: [number, number]
-  iridescenceThicknessTexture?: GltfTextureInfo
-  ior?: number
-  transmissionFactor?: number
-  transmissionTexture?: GltfTextureInfo
-  thicknessFactor?: number
-  thicknessTexture?: GltfTextureInfo
-  attenuationColor?: number[]
-  attenuationDistance?: number
-  specularColorFactor?: number[]
-  specularColorTexture?: GltfTextureInfo
-  specularFactor?: number
-  specularTexture?: GltfTextureInfo
-}
-
-type GltfAssetEntry = {
-  src: string
-  geometries: BufferGeometry[]
-  materials: Material[]
-  meshNames: string[]
-  textures: Texture[]
-}
-
-const buildNodeMap = (nodes: GraphNode[]): NodeMap =>
-  new Map(nodes.map((node) => [node.id, node]))
-const buildConnectionMap = (connections: GraphConnection[]): ConnectionMap =>
-  new Map(
-    connections.map((connection) => [
-      `${connection.to.nodeId}:${connection.to.pin}`,
-      connection,
-    ]),
-  )
-
-const sanitizeConnections = (
-  connections: GraphConnection[],
-  nodes: GraphNode[],
-): GraphConnection[] => {
-  const nodeIds = new Set(nodes.map((node) => node.id))
-  const seenTargets = new Set<string>()
-  const next: GraphConnection[] = []
-  connections.forEach((connection) => {
-    if (!nodeIds.has(connection.from.nodeId) || !nodeIds.has(connection.to.nodeId)) {
-      return
-    }
-    const key = `${connection.to.nodeId}:${connection.to.pin}`
-    if (seenTargets.has(key)) return
-    seenTargets.add(key)
-    next.push(connection)
-  })
-  return next
-}
-
-const expandFunctions = (
-  nodes: GraphNode[],
-  connections: GraphConnection[],
-  functions: Record<string, FunctionDefinition>,
-) => {
-  const functionNodes = nodes.filter((node) => node.type === 'function' && node.functionId)
-  if (!functionNodes.length) {
-    return { nodes, connections }
-  }
-
-  const expandedNodes = nodes.filter((node) => node.type !== 'function')
-  const expandedConnections = connections.filter(
-    (connection) =>
-      !functionNodes.some(
-        (node) =>
-          node.id === connection.from.nodeId || node.id === connection.to.nodeId,
-      ),
-  )
-
-  functionNodes.forEach((fnNode) => {
-    const def = fnNode.functionId ? functions[fnNode.functionId] : null
-    if (!def) return
-    const prefix = `fn-${fnNode.id}-`
-    const idMap = new Map(def.nodes.map((node) => [node.id, `${prefix}${node.id}`]))
-    const inputMap = new Map(
-      def.inputs.map((pin) => [pin.name, idMap.get(pin.nodeId) ?? '']),
-    )
-    const outputMap = new Map(
-      def.outputs.map((pin) => [pin.name, idMap.get(pin.nodeId) ?? '']),
-    )
-    def.nodes.forEach((node) => {
-      const id = idMap.get(node.id)
-      if (!id) return
-      expandedNodes.push({ ...node, id })
-    })
-    def.connections.forEach((connection) => {
-      const fromId = idMap.get(connection.from.nodeId)
-      const toId = idMap.get(connection.to.nodeId)
-      if (!fromId || !toId) return
-      expandedConnections.push({
-        ...connection,
-        id: `${prefix}${connection.id}`,
-        from: { ...connection.from, nodeId: fromId },
-        to: { ...connection.to, nodeId: toId },
-      })
-    })
-
-    connections.forEach((connection) => {
-      if (connection.to.nodeId === fnNode.id) {
-        const targetId = inputMap.get(connection.to.pin)
-        if (!targetId) return
-        expandedConnections.push({
-          id: `${prefix}in-${connection.id}`,
-          from: connection.from,
-          to: { nodeId: targetId, pin: 'value' },
-        })
-      }
-      if (connection.from.nodeId === fnNode.id) {
-        const sourceId = outputMap.get(connection.from.pin)
-        if (!sourceId) return
-        expandedConnections.push({
-          id: `${prefix}out-${connection.id}`,
-          from: { nodeId: sourceId, pin: 'value' },
-          to: connection.to,
-        })
-      }
-    })
-  })
-
-  return { nodes: expandedNodes, connections: expandedConnections }
-}
-
-const DEFAULT_COLOR = '#4fb3c8'
-const FALLBACK_COLOR = 0x111316
-const FALLBACK_COLOR_HEX = '#111316'
-
-const getOutputConnection = (
-  connectionMap: ConnectionMap,
-  outputNode: GraphNode | undefined,
-  pin: OutputPin,
-) => (outputNode ? connectionMap.get(`${outputNode.id}:${pin}`) ?? null : null)
-
-const ATTRIBUTE_NODE_EXPR: Record<string, ExprResult> = {
-  position: { expr: 'positionLocal', kind: 'vec3' },
-  normal: { expr: 'normalLocal', kind: 'vec3' },
-  tangent: { expr: 'tangentLocal', kind: 'vec3' },
-  bitangent: { expr: 'bitangentLocal', kind: 'vec3' },
-  uv: { expr: 'uv()', kind: 'vec2' },
-  uv2: { expr: 'uv(1)', kind: 'vec2' },
-}
-
-const ATTRIBUTE_NODE_KIND: Record<string, 'vec2' | 'vec3'> = {
-  position: 'vec3',
-  normal: 'vec3',
-  tangent: 'vec3',
-  bitangent: 'vec3',
-  uv: 'vec2',
-  uv2: 'vec2',
-}
-
-const getAttributeExpr = (nodeType: string): ExprResult | null =>
-  ATTRIBUTE_NODE_EXPR[nodeType] ?? null
-const getAttributeKind = (nodeType: string): 'vec2' | 'vec3' | null =>
-  ATTRIBUTE_NODE_KIND[nodeType] ?? null
-const getAttributeNodeValue = (nodeType: string): TslNodeResult | null => {
-  switch (nodeType) {
-    case 'position':
-      return { node: positionLocal, kind: 'vec3' }
-    case 'normal':
-      return { node: normalLocal, kind: 'vec3' }
-    case 'tangent':
-      return { node: tangentLocal, kind: 'vec3' }
-    case 'bitangent':
-      return { node: bitangentLocal, kind: 'vec3' }
-    case 'uv':
-      return { node: uv(), kind: 'vec2' }
-    case 'uv2':
-      return { node: uv(1), kind: 'vec2' }
-    default:
-      return null
-  }
-}
-
-const parseMeshIndex = (value: string | undefined, max: number) => {
-  if (max <= 0) return 0
-  if (!value) return 0
-  const parsed = Number(value.trim())
-  if (!Number.isInteger(parsed) || parsed < 0 || parsed >= max) return 0
-  return parsed
-}
-
-const getMeshIndex = (node: GraphNode, max: number) =>
-  parseMeshIndex(node.meshIndex, max)
-
-const parseMaterialIndex = (value: string | undefined, max: number) => {
-  if (max <= 0) return 0
-  if (!value) return 0
-  const parsed = Number(value.trim())
-  if (!Number.isInteger(parsed) || parsed < 0 || parsed >= max) return 0
-  return parsed
-}
-
-const getMaterialIndex = (node: GraphNode, max: number) =>
-  parseMaterialIndex(node.materialIndex, max)
-
-const parseTextureIndex = (value: string | undefined, max: number) => {
-  if (max <= 0) return 0
-  if (!value) return 0
-  const parsed = Number(value.trim())
-  if (!Number.isInteger(parsed) || parsed < 0 || parsed >= max) return 0
-  return parsed
-}
-
-const getTextureIndex = (node: GraphNode, max: number) =>
-  parseTextureIndex(node.textureIndex, max)
-
 const isKtx2Texture = (node: GraphNode) => {
   const name = (node.textureName ?? '').toLowerCase()
   const value = typeof node.value === 'string' ? node.value.toLowerCase() : ''
   return name.endsWith('.ktx2') || value.includes('.ktx2')
 }
 
-const getGltfMaterialTextureId = (nodeId: string, key: string) =>
-  `gltf-material-${nodeId}-${key}`
-
-const getGltfTextureId = (nodeId: string) => `gltf-texture-${nodeId}`
+const createGraphThumbnail = (source: GraphIRSource) => {
+  try {
+    const image = evaluateGraph(source, { width: 48, height: 48, surface: 'sphere' })
+    const canvas = document.createElement('canvas')
+    canvas.width = image.width
+    canvas.height = image.height
+    canvas.getContext('2d')?.putImageData(new ImageData(image.data, image.width), 0, 0)
+    return canvas.toDataURL('image/png')
+  } catch {
+    return null
+  }
+}
 
 function App() {
   const viewportRef = useRef<HTMLDivElement | null>(null)
@@ -523,11 +241,14 @@ function App() {
   const [status, setStatus] = useState('Initializing...')
   const [showCode, setShowCode] = useState(false)
   const [showNodes, setShowNodes] = useState(true)
+  const [soloNodeId, setSoloNodeId] = useState<string | null>(null)
+  const [soloRemap, setSoloRemap] = useState(false)
   const [tslPanelMode, setTslPanelMode] = useState<'code' | 'viewer'>('code')
   const [tslOutputKind, setTslOutputKind] = useState<
-    'tsl' | 'material' | 'app' | 'gltf'
+    'tsl' | 'material' | 'app' | 'gltf' | ShaderOutputKind
   >('tsl')
   const [gltfOutputText, setGltfOutputText] = useState('')
+  const [shaderOutputText, setShaderOutputText] = useState('')
   const [viewerReadyTick, setViewerReadyTick] = useState(0)
   const [exportFormat, setExportFormat] = useState<'js' | 'ts'>('js')
   const [toast, setToast] = useState<string | null>(null)
@@ -535,7 +256,14 @@ function App() {
   const [nodes, setNodes] = useState<GraphNode[]>([])
   const [groups, setGroups] = useState<GraphGroup[]>([])
   const [functions, setFunctions] = useState<Record<string, FunctionDefinition>>({})
-  const [activeFunctionId, setActiveFunctionId] = useState<string | null>(null)
+  const [functionPath, setFunctionPath] = useState<string[]>([])
+  const activeFunctionId = functionPath[functionPath.length - 1] ?? null
+  const setActiveFunctionId = useCallback(
+    (functionId: string | null) => setFunctionPath(functionId ? [functionId] : []),
+    [],
+  )
+  const [functionLibrary, setFunctionLibrary] = useState<Record<string, LibraryFunction>>({})
+  const functionLibraryRef = useRef<Record<string, LibraryFunction>>({})
   const dragRef = useRef<{
     ids: string[]
     offsets: Record<string, { x: number; y: number }>
@@ -598,8 +326,15 @@ function App() {
   >({})
   const [view, setView] = useState({ x: 0, y: 0, zoom: 1 })
   const [typeWarnings, setTypeWarnings] = useState<Record<string, string>>({})
+  const [pinInspect, setPinInspect] = useState<{
+    key: string
+    x: number
+    y: number
+    inspection: PinInspection
+  } | null>(null)
   const [textureVersion, setTextureVersion] = useState(0)
   const [gltfVersion, setGltfVersion] = useState(0)
+  const [meshFileVersion, setMeshFileVersion] = useState(0)
   const nodesRef = useRef(nodes)
   const connectionsRef = useRef(connections)
   const setEditorNodesRef = useRef<(updater: React.SetStateAction<GraphNode[]>) => void>(
@@ -613,20 +348,19 @@ function App() {
   const panRef = useRef<{ startX: number; startY: number; originX: number; originY: number } | null>(null)
   const timeUniformRef = useRef(uniform(0))
   const rendererRef = useRef<WebGPURenderer | null>(null)
+  const cameraRef = useRef<PerspectiveCamera | null>(null)
   const ktx2LoaderRef = useRef<KTX2Loader | null>(null)
   const [ktx2Ready, setKtx2Ready] = useState(false)
-  const meshesRef = useRef<Mesh[]>([])
+  const meshesRef = useRef<PreviewObject[]>([])
   const geometriesRef = useRef<BufferGeometry[]>([])
+  const gltfSceneRootRef = useRef<Object3D | null>(null)
+  const meshFileMapRef = useRef<Record<string, MeshFileEntry>>({})
   const sceneRef = useRef<Scene | null>(null)
-  const materialRef = useRef<
-    MeshStandardNodeMaterial | MeshPhysicalNodeMaterial | MeshBasicNodeMaterial | null
-  >(
-    null,
-  )
+  const materialRef = useRef<NodeMaterial | null>(null)
   const nodeUniformsRef = useRef<Record<string, UniformEntry>>({})
-  const fallbackColorUniformRef = useRef<ReturnType<typeof uniform> | null>(null)
   const graphSignatureRef = useRef<string>('')
   const textureSignatureRef = useRef<string>('')
+  const soloSignatureRef = useRef<string>('')
   const textureMapRef = useRef<Record<string, { src: string; texture: Texture }>>(
     {},
   )
@@ -636,19 +370,65 @@ function App() {
   const objectUrlRef = useRef<Record<string, string>>({})
   const [storageSlot, setStorageSlot] = useState('default')
   const [storageSlots, setStorageSlots] = useState<string[]>(['default'])
+  const [storageThumbnails, setStorageThumbnails] = useState<Record<string, string>>({})
   const [newSlotName, setNewSlotName] = useState('')
+  const [templateId, setTemplateId] = useState('')
+  const [templateValues, setTemplateValues] = useState<Record<string, string>>({})
+  const [loadProblems, setLoadProblems] = useState<{
+    title: string
+    problems: GraphProblem[]
+  } | null>(null)
+  const [showProblems, setShowProblems] = useState(false)
+  const [showProfiler, setShowProfiler] = useState(false)
+  const [graphProfile, setGraphProfile] = useState<GraphProfile | null>(null)
+  const [shaderStats, setShaderStats] = useState<ShaderStats | null>(null)
+  const [compileTimes, setCompileTimes] = useState<number[]>([])
+  const graphProfileBuildRef = useRef<() => GraphProfile | null>(() => null)
+  const [showPreviewSettings, setShowPreviewSettings] = useState(false)
+  const [environmentMap, setEnvironmentMap] = useState<EnvironmentMap | null>(null)
+  const lightGroupRef = useRef<Group | null>(null)
+  const environmentTextureRef = useRef<Texture | null>(null)
+  const animationMixerRef = useRef<AnimationMixer | null>(null)
+  const animationActionRef = useRef<AnimationAction | null>(null)
+  const animationPlayingRef = useRef(true)
+  const animationScrubRef = useRef<HTMLInputElement | null>(null)
+  const [animationPlaying, setAnimationPlaying] = useState(true)
+  const [animationInfo, setAnimationInfo] = useState<{ name: string; duration: number } | null>(
+    null,
+  )
+  const [geometryAttributes, setGeometryAttributes] = useState<
+    Array<{ name: string; itemSize: number }>
+  >([])
+  const [problemsDock, setProblemsDock] = useState<'bottom' | 'right'>('bottom')
   const historyBySlotRef = useRef<Record<string, HistoryState>>({})
   const historySlotRef = useRef(storageSlot)
   const historyRecordingEnabled = true // Temporary toggle for drag hitch profiling
 
   const lastSlotStorageKey = 'tsl-node-editor:last-slot'
+  const nodePreviewStorageKey = 'tsl-node-editor:node-previews'
+  const previewEnvironmentStorageKey = 'tsl-node-editor:preview-environment'
+  const [previewEnvironment, setPreviewEnvironment] = useState(() =>
+    parsePreviewEnvironment(localStorage.getItem(previewEnvironmentStorageKey)),
+  )
+  const [showNodePreviews, setShowNodePreviews] = useState(
+    () => localStorage.getItem(nodePreviewStorageKey) !== 'off',
+  )
+  const [nodePreviewReady, setNodePreviewReady] = useState(false)
+  const nodePreviewRef = useRef<NodePreviewRenderer | null>(null)
+  const nodePreviewImagesRef = useRef<Map<string, GraphImage>>(new Map())
+  const nodePreviewBuildRef = useRef<() => void>(() => undefined)
   const autoSaveTimerRef = useRef<number | null>(null)
   const isHydratingRef = useRef(false)
   const pendingExampleLayoutRef = useRef(false)
   const nodeSizeRef = useRef<Record<string, { width: number; height: number }>>({})
+  const canvasPointerRef = useRef<{ clientX: number; clientY: number } | null>(null)
+  const clipboardHandlersRef = useRef<{
+    hasSelection: boolean
+    copy: (cut: boolean) => Promise<void>
+    paste: (clipboard: GraphClipboard) => void
+  }>({ hasSelection: false, copy: async () => {}, paste: () => {} })
   const dbName = 'tsl-node-editor'
-  const graphSchemaVersion = 2
-  const dbVersion = 2
+  const dbVersion = 3
 
   const applyViewportTransform = useCallback((next: { x: number; y: number; zoom: number }) => {
     const transform = `translate(${next.x}px, ${next.y}px) scale(${next.zoom})`
@@ -660,1074 +440,213 @@ function App() {
     }
   }, [])
 
-  const basePalette = useMemo<PaletteItem[]>(
-    () => [
-      {
-        type: 'number',
-        label: 'Number',
-        inputs: [],
-        outputs: ['value'],
-        defaultValue: '1',
-      },
-      {
-        type: 'time',
-        label: 'Time',
-        inputs: [],
-        outputs: ['value'],
-      },
+  const functionPalette = useMemo<PaletteItem[]>(() => {
+    const linkedIds = new Set(Object.values(functions).map((fn) => fn.library?.id))
+    return [
+      ...Object.values(functions).map((fn) => ({
+        type: `function:${fn.id}`,
+        label: fn.library ? `${fn.name} (v${fn.library.version})` : fn.name,
+        inputs: fn.inputs.map((pin) => pin.name),
+        outputs: fn.outputs.map((pin) => pin.name),
+      })),
+      ...Object.values(functionLibrary)
+        .filter((entry) => !linkedIds.has(entry.id))
+        .map((entry) => ({
+          type: `${LIBRARY_PALETTE_PREFIX}${entry.id}`,
+          label: `${entry.name} (library v${entry.version})`,
+          inputs: entry.definition.inputs.map((pin) => pin.name),
+          outputs: entry.definition.outputs.map((pin) => pin.name),
+        })),
+    ]
+  }, [functions, functionLibrary])
+
+  const palette = useMemo(
+    () => [...BASE_PALETTE, ...functionPalette],
+    [functionPalette],
+  )
+
+  const isFunctionEditing = activeFunctionId !== null
+  const activeFunction = activeFunctionId ? functions[activeFunctionId] : null
+  const editorNodes = activeFunction?.nodes ?? nodes
+  const editorConnections = activeFunction?.connections ?? connections
+  const editorGroups = isFunctionEditing ? [] : groups
+  const soloNode = soloNodeId ? (nodes.find((node) => node.id === soloNodeId) ?? null) : null
+  const soloSignature = soloNode ? `${soloNode.id}:${soloNode.outputs[0]}:${soloRemap}` : ''
+
+
+  const paletteGroups = useMemo(() => {
+    const functionTypes = functionPalette.map((item) => item.type)
+    return [
+      { id: 'inputs', label: 'Inputs', types: ['number', 'time', 'color', 'texture', 'gltfTexture'] },
       {
-        type: 'color',
+        id: 'color',
         label: 'Color',
-        inputs: [],
-        outputs: ['color'],
-        defaultValue: DEFAULT_COLOR,
-      },
-      {
-        type: 'texture',
-        label: 'Texture',
-        inputs: [],
-        outputs: ['color'],
-        defaultValue: '',
+        types: [
+          'luminance',
+          'grayscale',
+          'saturation',
+          'posterize',
+          'sRGBTransferEOTF',
+          'sRGBTransferOETF',
+          'linearToneMapping',
+          'reinhardToneMapping',
+          'cineonToneMapping',
+          'acesFilmicToneMapping',
+          'agxToneMapping',
+          'neutralToneMapping',
+        ],
       },
       {
-        type: 'luminance',
-        label: 'Luminance',
-        inputs: ['value'],
-        outputs: ['value'],
+        id: 'geometry',
+        label: 'Geometry',
+        types: [
+          'position',
+          'normal',
+          'tangent',
+          'bitangent',
+          'uv',
+          'uv2',
+          'attribute',
+          'varyingSet',
+          'varyingGet',
+          'geometryPrimitive',
+          'gltf',
+          'meshFile',
+        ],
       },
       {
-        type: 'grayscale',
-        label: 'Grayscale',
-        inputs: ['value'],
-        outputs: ['value'],
+        id: 'math',
+        label: 'Math',
+        types: [
+          'add',
+          'multiply',
+          'normalize',
+          'dot',
+          'cross',
+          'checker',
+          'dFdx',
+          'dFdy',
+          'distance',
+          'reflect',
+          'refract',
+          'faceforward',
+          'fwidth',
+          'triNoise3D',
+          'length',
+          'smoothstep',
+          'pow',
+          'sine',
+          'cosine',
+          'tan',
+          'asin',
+          'acos',
+          'atan',
+          'atan2',
+          'radians',
+          'degrees',
+          'abs',
+          'clamp',
+          'min',
+          'max',
+          'step',
+          'fract',
+          'floor',
+          'ceil',
+          'round',
+          'trunc',
+          'sqrt',
+          'mod',
+          'exp',
+          'exp2',
+          'log',
+          'log2',
+          'pow2',
+          'pow3',
+          'pow4',
+          'sign',
+          'saturate',
+          'remap',
+          'remapClamp',
+          'oneMinus',
+          'negate',
+          'mix',
+          'ifElse',
+          'smoothstepElement',
+          'stepElement',
+          'lessThan',
+          'lessThanEqual',
+          'greaterThan',
+          'greaterThanEqual',
+          'equal',
+          'notEqual',
+          'and',
+          'or',
+          'not',
+        ],
       },
       {
-        type: 'saturation',
-        label: 'Saturation',
-        inputs: ['value', 'amount'],
-        outputs: ['value'],
+        id: 'noise',
+        label: 'Noise',
+        types: [
+          'checker',
+          'triNoise3D',
+          'mxNoiseFloat',
+          'mxNoiseVec3',
+          'mxNoiseVec4',
+          'mxFractalNoiseFloat',
+          'mxFractalNoiseVec2',
+          'mxFractalNoiseVec3',
+          'mxFractalNoiseVec4',
+          'mxWorleyNoiseFloat',
+          'mxWorleyNoiseVec2',
+          'mxWorleyNoiseVec3',
+          'rotateUV',
+          'scaleUV',
+          'offsetUV',
+          'spherizeUV',
+          'spritesheetUV',
+        ],
       },
       {
-        type: 'posterize',
-        label: 'Posterize',
-        inputs: ['value', 'steps'],
-        outputs: ['value'],
-      },
-      {
-        type: 'sRGBTransferEOTF',
-        label: 'sRGB EOTF',
-        inputs: ['value'],
-        outputs: ['value'],
-      },
-      {
-        type: 'sRGBTransferOETF',
-        label: 'sRGB OETF',
-        inputs: ['value'],
-        outputs: ['value'],
-      },
-      {
-        type: 'linearToneMapping',
-        label: 'Linear Tone Mapping',
-        inputs: ['value'],
-        outputs: ['value'],
-      },
-      {
-        type: 'reinhardToneMapping',
-        label: 'Reinhard Tone Mapping',
-        inputs: ['value'],
-        outputs: ['value'],
-      },
-      {
-        type: 'cineonToneMapping',
-        label: 'Cineon Tone Mapping',
-        inputs: ['value'],
-        outputs: ['value'],
-      },
-      {
-        type: 'acesFilmicToneMapping',
-        label: 'ACES Filmic Tone Mapping',
-        inputs: ['value'],
-        outputs: ['value'],
-      },
-      {
-        type: 'agxToneMapping',
-        label: 'AgX Tone Mapping',
-        inputs: ['value'],
-        outputs: ['value'],
-      },
-      {
-        type: 'neutralToneMapping',
-        label: 'Neutral Tone Mapping',
-        inputs: ['value'],
-        outputs: ['value'],
-      },
-      {
-        type: 'position',
-        label: 'Position',
-        inputs: [],
-        outputs: ['value'],
-      },
-      {
-        type: 'normal',
-        label: 'Normal',
-        inputs: [],
-        outputs: ['value'],
-      },
-      {
-        type: 'tangent',
-        label: 'Tangent',
-        inputs: [],
-        outputs: ['value'],
-      },
-      {
-        type: 'bitangent',
-        label: 'Bitangent',
-        inputs: [],
-        outputs: ['value'],
-      },
-      {
-        type: 'uv',
-        label: 'UV',
-        inputs: [],
-        outputs: ['value'],
-      },
-      {
-        type: 'uv2',
-        label: 'UV2',
-        inputs: [],
-        outputs: ['value'],
-      },
-      {
-        type: 'gltf',
-        label: 'GLTF Geometry',
-        inputs: [],
-        outputs: ['geometry'],
-        defaultValue: '',
-      },
-      {
-        type: 'gltfMaterial',
-        label: 'GLTF Material',
-        inputs: [],
-        outputs: [
-          'baseColor',
-          'baseColorTexture',
-          'roughness',
-          'metalness',
-          'roughnessMap',
-          'metalnessMap',
-          'emissive',
-          'emissiveMap',
-          'emissiveIntensity',
-          'normalMap',
-          'normalScale',
-          'aoMap',
-          'aoMapIntensity',
-          'envMap',
-          'envMapIntensity',
-          'opacity',
-          'alphaTest',
-          'alphaHash',
+        id: 'vector',
+        label: 'Vector',
+        types: [
+          'vec2',
+          'mat2',
+          'splitVec2',
+          'vec3',
+          'mat3',
+          'scale',
+          'rotate',
+          'splitVec3',
+          'vec4',
+          'mat4',
+          'modelMatrix',
+          'viewMatrix',
+          'projectionMatrix',
+          'modelViewMatrix',
+          'normalMatrix',
+          'splitVec4',
+          'transpose',
+          'inverse',
         ],
-        defaultValue: '',
-      },
-      {
-        type: 'gltfTexture',
-        label: 'GLTF Texture',
-        inputs: [],
-        outputs: ['value'],
-        defaultValue: '',
-      },
-      { type: 'add', label: 'Add', inputs: ['a', 'b'], outputs: ['value'] },
-      {
-        type: 'multiply',
-        label: 'Multiply',
-        inputs: ['a', 'b'],
-        outputs: ['value'],
-      },
-      {
-        type: 'normalize',
-        label: 'Normalize',
-        inputs: ['value'],
-        outputs: ['value'],
-      },
-      {
-        type: 'dot',
-        label: 'Dot',
-        inputs: ['a', 'b'],
-        outputs: ['value'],
-      },
-      {
-        type: 'cross',
-        label: 'Cross',
-        inputs: ['a', 'b'],
-        outputs: ['value'],
-      },
-      {
-        type: 'checker',
-        label: 'Checker',
-        inputs: ['coord'],
-        outputs: ['value'],
-      },
-      {
-        type: 'distance',
-        label: 'Distance',
-        inputs: ['a', 'b'],
-        outputs: ['value'],
-      },
-      {
-        type: 'dFdx',
-        label: 'dFdx',
-        inputs: ['value'],
-        outputs: ['value'],
-      },
-      {
-        type: 'dFdy',
-        label: 'dFdy',
-        inputs: ['value'],
-        outputs: ['value'],
-      },
-      {
-        type: 'fwidth',
-        label: 'Fwidth',
-        inputs: ['value'],
-        outputs: ['value'],
-      },
-      {
-        type: 'triNoise3D',
-        label: 'TriNoise3D',
-        inputs: ['position', 'speed', 'time'],
-        outputs: ['value'],
-      },
-      {
-        type: 'mxNoiseFloat',
-        label: 'MX Noise Float',
-        inputs: ['texcoord', 'amplitude', 'pivot'],
-        outputs: ['value'],
-      },
-      {
-        type: 'mxNoiseVec3',
-        label: 'MX Noise Vec3',
-        inputs: ['texcoord', 'amplitude', 'pivot'],
-        outputs: ['value'],
-      },
-      {
-        type: 'mxNoiseVec4',
-        label: 'MX Noise Vec4',
-        inputs: ['texcoord', 'amplitude', 'pivot'],
-        outputs: ['value'],
-      },
-      {
-        type: 'mxFractalNoiseFloat',
-        label: 'MX Fractal Noise Float',
-        inputs: ['position', 'octaves', 'lacunarity', 'diminish', 'amplitude'],
-        outputs: ['value'],
-      },
-      {
-        type: 'mxFractalNoiseVec2',
-        label: 'MX Fractal Noise Vec2',
-        inputs: ['position', 'octaves', 'lacunarity', 'diminish', 'amplitude'],
-        outputs: ['value'],
-      },
-      {
-        type: 'mxFractalNoiseVec3',
-        label: 'MX Fractal Noise Vec3',
-        inputs: ['position', 'octaves', 'lacunarity', 'diminish', 'amplitude'],
-        outputs: ['value'],
-      },
-      {
-        type: 'mxFractalNoiseVec4',
-        label: 'MX Fractal Noise Vec4',
-        inputs: ['position', 'octaves', 'lacunarity', 'diminish', 'amplitude'],
-        outputs: ['value'],
-      },
-      {
-        type: 'mxWorleyNoiseFloat',
-        label: 'MX Worley Noise Float',
-        inputs: ['texcoord', 'jitter'],
-        outputs: ['value'],
-      },
-      {
-        type: 'mxWorleyNoiseVec2',
-        label: 'MX Worley Noise Vec2',
-        inputs: ['texcoord', 'jitter'],
-        outputs: ['value'],
-      },
-      {
-        type: 'mxWorleyNoiseVec3',
-        label: 'MX Worley Noise Vec3',
-        inputs: ['texcoord', 'jitter'],
-        outputs: ['value'],
-      },
-      {
-        type: 'rotateUV',
-        label: 'Rotate UV',
-        inputs: ['uv', 'rotation', 'center'],
-        outputs: ['value'],
-      },
-      {
-        type: 'scaleUV',
-        label: 'Scale UV',
-        inputs: ['uv', 'scale'],
-        outputs: ['value'],
-      },
-      {
-        type: 'offsetUV',
-        label: 'Offset UV',
-        inputs: ['uv', 'offset'],
-        outputs: ['value'],
-      },
-      {
-        type: 'spherizeUV',
-        label: 'Spherize UV',
-        inputs: ['uv', 'strength', 'center'],
-        outputs: ['value'],
-      },
-      {
-        type: 'spritesheetUV',
-        label: 'Spritesheet UV',
-        inputs: ['size', 'uv', 'time'],
-        outputs: ['value'],
-      },
-      {
-        type: 'reflect',
-        label: 'Reflect',
-        inputs: ['incident', 'normal'],
-        outputs: ['value'],
-      },
-      {
-        type: 'refract',
-        label: 'Refract',
-        inputs: ['incident', 'normal', 'eta'],
-        outputs: ['value'],
-      },
-      {
-        type: 'faceforward',
-        label: 'FaceForward',
-        inputs: ['n', 'i', 'nref'],
-        outputs: ['value'],
-      },
-      {
-        type: 'length',
-        label: 'Length',
-        inputs: ['value'],
-        outputs: ['value'],
-      },
-      {
-        type: 'smoothstep',
-        label: 'Smoothstep',
-        inputs: ['edge0', 'edge1', 'x'],
-        outputs: ['value'],
-      },
-      {
-        type: 'pow',
-        label: 'Pow',
-        inputs: ['base', 'exp'],
-        outputs: ['value'],
-      },
-      {
-        type: 'sine',
-        label: 'Sine',
-        inputs: ['value'],
-        outputs: ['value'],
-      },
-      {
-        type: 'vec3',
-        label: 'Vec3',
-        inputs: ['x', 'y', 'z'],
-        outputs: ['value'],
-      },
-      {
-        type: 'mat3',
-        label: 'Mat3',
-        inputs: ['c0', 'c1', 'c2'],
-        outputs: ['value'],
-      },
-      {
-        type: 'scale',
-        label: 'Scale',
-        inputs: ['value', 'scale'],
-        outputs: ['value'],
-      },
-      {
-        type: 'rotate',
-        label: 'Rotate',
-        inputs: ['value', 'rotation'],
-        outputs: ['value'],
-      },
-      {
-        type: 'splitVec3',
-        label: 'Split Vec3',
-        inputs: ['value'],
-        outputs: ['x', 'y', 'z'],
-      },
-      {
-        type: 'vec2',
-        label: 'Vec2',
-        inputs: ['x', 'y'],
-        outputs: ['value'],
-      },
-      {
-        type: 'mat2',
-        label: 'Mat2',
-        inputs: ['c0', 'c1'],
-        outputs: ['value'],
-      },
-      {
-        type: 'splitVec2',
-        label: 'Split Vec2',
-        inputs: ['value'],
-        outputs: ['x', 'y'],
-      },
-      {
-        type: 'vec4',
-        label: 'Vec4',
-        inputs: ['x', 'y', 'z', 'w'],
-        outputs: ['value'],
-      },
-      {
-        type: 'mat4',
-        label: 'Mat4',
-        inputs: ['c0', 'c1', 'c2', 'c3'],
-        outputs: ['value'],
-      },
-      {
-        type: 'modelMatrix',
-        label: 'Model Matrix',
-        inputs: [],
-        outputs: ['value'],
-      },
-      {
-        type: 'viewMatrix',
-        label: 'View Matrix',
-        inputs: [],
-        outputs: ['value'],
-      },
-      {
-        type: 'projectionMatrix',
-        label: 'Projection Matrix',
-        inputs: [],
-        outputs: ['value'],
-      },
-      {
-        type: 'modelViewMatrix',
-        label: 'ModelView Matrix',
-        inputs: [],
-        outputs: ['value'],
-      },
-      {
-        type: 'normalMatrix',
-        label: 'Normal Matrix',
-        inputs: [],
-        outputs: ['value'],
-      },
-      {
-        type: 'splitVec4',
-        label: 'Split Vec4',
-        inputs: ['value'],
-        outputs: ['x', 'y', 'z', 'w'],
-      },
-      {
-        type: 'transpose',
-        label: 'Transpose',
-        inputs: ['value'],
-        outputs: ['value'],
-      },
-      {
-        type: 'inverse',
-        label: 'Inverse',
-        inputs: ['value'],
-        outputs: ['value'],
-      },
-      {
-        type: 'cosine',
-        label: 'Cosine',
-        inputs: ['value'],
-        outputs: ['value'],
-      },
-      {
-        type: 'tan',
-        label: 'Tan',
-        inputs: ['value'],
-        outputs: ['value'],
-      },
-      {
-        type: 'asin',
-        label: 'Asin',
-        inputs: ['value'],
-        outputs: ['value'],
-      },
-      {
-        type: 'acos',
-        label: 'Acos',
-        inputs: ['value'],
-        outputs: ['value'],
-      },
-      {
-        type: 'atan',
-        label: 'Atan',
-        inputs: ['value'],
-        outputs: ['value'],
-      },
-      {
-        type: 'atan2',
-        label: 'Atan2',
-        inputs: ['y', 'x'],
-        outputs: ['value'],
-      },
-      {
-        type: 'radians',
-        label: 'Radians',
-        inputs: ['value'],
-        outputs: ['value'],
-      },
-      {
-        type: 'degrees',
-        label: 'Degrees',
-        inputs: ['value'],
-        outputs: ['value'],
-      },
-      {
-        type: 'abs',
-        label: 'Abs',
-        inputs: ['value'],
-        outputs: ['value'],
-      },
-      {
-        type: 'clamp',
-        label: 'Clamp',
-        inputs: ['value', 'min', 'max'],
-        outputs: ['value'],
-      },
-      {
-        type: 'min',
-        label: 'Min',
-        inputs: ['a', 'b'],
-        outputs: ['value'],
-      },
-      {
-        type: 'max',
-        label: 'Max',
-        inputs: ['a', 'b'],
-        outputs: ['value'],
-      },
-      {
-        type: 'step',
-        label: 'Step',
-        inputs: ['edge', 'x'],
-        outputs: ['value'],
-      },
-      {
-        type: 'fract',
-        label: 'Fract',
-        inputs: ['value'],
-        outputs: ['value'],
-      },
-      {
-        type: 'floor',
-        label: 'Floor',
-        inputs: ['value'],
-        outputs: ['value'],
-      },
-      {
-        type: 'ceil',
-        label: 'Ceil',
-        inputs: ['value'],
-        outputs: ['value'],
-      },
-      {
-        type: 'round',
-        label: 'Round',
-        inputs: ['value'],
-        outputs: ['value'],
-      },
-      {
-        type: 'trunc',
-        label: 'Trunc',
-        inputs: ['value'],
-        outputs: ['value'],
-      },
-      {
-        type: 'sqrt',
-        label: 'Sqrt',
-        inputs: ['value'],
-        outputs: ['value'],
-      },
-      {
-        type: 'mod',
-        label: 'Mod',
-        inputs: ['a', 'b'],
-        outputs: ['value'],
-      },
-      {
-        type: 'exp',
-        label: 'Exp',
-        inputs: ['value'],
-        outputs: ['value'],
-      },
-      {
-        type: 'exp2',
-        label: 'Exp2',
-        inputs: ['value'],
-        outputs: ['value'],
-      },
-      {
-        type: 'log',
-        label: 'Log',
-        inputs: ['value'],
-        outputs: ['value'],
-      },
-      {
-        type: 'log2',
-        label: 'Log2',
-        inputs: ['value'],
-        outputs: ['value'],
-      },
-      {
-        type: 'pow2',
-        label: 'Pow2',
-        inputs: ['value'],
-        outputs: ['value'],
-      },
-      {
-        type: 'pow3',
-        label: 'Pow3',
-        inputs: ['value'],
-        outputs: ['value'],
-      },
-      {
-        type: 'pow4',
-        label: 'Pow4',
-        inputs: ['value'],
-        outputs: ['value'],
-      },
-      {
-        type: 'sign',
-        label: 'Sign',
-        inputs: ['value'],
-        outputs: ['value'],
-      },
-      {
-        type: 'saturate',
-        label: 'Saturate',
-        inputs: ['value'],
-        outputs: ['value'],
-      },
-      {
-        type: 'remap',
-        label: 'Remap',
-        inputs: ['value', 'inLow', 'inHigh', 'outLow', 'outHigh'],
-        outputs: ['value'],
-      },
-      {
-        type: 'remapClamp',
-        label: 'Remap Clamp',
-        inputs: ['value', 'inLow', 'inHigh', 'outLow', 'outHigh'],
-        outputs: ['value'],
-      },
-      {
-        type: 'oneMinus',
-        label: 'OneMinus',
-        inputs: ['value'],
-        outputs: ['value'],
-      },
-      {
-        type: 'negate',
-        label: 'Negate',
-        inputs: ['value'],
-        outputs: ['value'],
-      },
-      {
-        type: 'mix',
-        label: 'Mix',
-        inputs: ['a', 'b', 't'],
-        outputs: ['value'],
-      },
-      {
-        type: 'ifElse',
-        label: 'If Else',
-        inputs: ['cond', 'a', 'b', 'threshold'],
-        outputs: ['value'],
-      },
-      {
-        type: 'smoothstepElement',
-        label: 'Smoothstep Element',
-        inputs: ['x', 'low', 'high'],
-        outputs: ['value'],
-      },
-      {
-        type: 'stepElement',
-        label: 'Step Element',
-        inputs: ['x', 'edge'],
-        outputs: ['value'],
-      },
-      {
-        type: 'lessThan',
-        label: 'Less Than',
-        inputs: ['a', 'b'],
-        outputs: ['value'],
-      },
-      {
-        type: 'lessThanEqual',
-        label: 'Less Than Equal',
-        inputs: ['a', 'b'],
-        outputs: ['value'],
-      },
-      {
-        type: 'greaterThan',
-        label: 'Greater Than',
-        inputs: ['a', 'b'],
-        outputs: ['value'],
-      },
-      {
-        type: 'greaterThanEqual',
-        label: 'Greater Than Equal',
-        inputs: ['a', 'b'],
-        outputs: ['value'],
-      },
-      {
-        type: 'equal',
-        label: 'Equal',
-        inputs: ['a', 'b'],
-        outputs: ['value'],
-      },
-      {
-        type: 'notEqual',
-        label: 'Not Equal',
-        inputs: ['a', 'b'],
-        outputs: ['value'],
-      },
-      {
-        type: 'and',
-        label: 'And',
-        inputs: ['a', 'b'],
-        outputs: ['value'],
-      },
-      {
-        type: 'or',
-        label: 'Or',
-        inputs: ['a', 'b'],
-        outputs: ['value'],
-      },
-      {
-        type: 'not',
-        label: 'Not',
-        inputs: ['value'],
-        outputs: ['value'],
-      },
-      {
-        type: 'geometryPrimitive',
-        label: 'PrimitiveGeometry',
-        inputs: [],
-        outputs: ['geometry'],
-        defaultValue: 'box',
-      },
-      {
-        type: 'geometryOutput',
-        label: 'Geometry Output',
-        inputs: ['geometry'],
-        outputs: [],
-      },
-      {
-        type: 'vertexOutput',
-        label: 'Vertex Output',
-        inputs: ['position'],
-        outputs: [],
       },
       {
-        type: 'material',
-        label: 'StandardMaterial',
-        inputs: [
-          'baseColor',
-          'baseColorTexture',
-          'roughness',
-          'roughnessMap',
-          'metalness',
-          'metalnessMap',
-          'emissive',
-          'emissiveMap',
-          'emissiveIntensity',
-          'normalMap',
-          'normalScale',
-          'aoMap',
-          'aoMapIntensity',
-          'envMap',
-          'envMapIntensity',
-          'opacity',
-          'alphaTest',
-          'alphaHash',
+        id: 'material',
+        label: 'Material',
+        types: [
+          'material',
+          'physicalMaterial',
+          'basicMaterial',
+          'toonMaterial',
+          'lambertMaterial',
+          'phongMaterial',
+          'pointsMaterial',
+          'lineMaterial',
+          'lineDashedMaterial',
+          'spriteMaterial',
+          'gltfMaterial',
         ],
-        outputs: ['baseColor', 'roughness', 'metalness'],
-      },
-      {
-        type: 'physicalMaterial',
-        label: 'PhysicalMaterial',
-        inputs: [
-          'baseColor',
-          'baseColorTexture',
-          'roughness',
-          'roughnessMap',
-          'metalness',
-          'metalnessMap',
-          'emissive',
-          'emissiveMap',
-          'emissiveIntensity',
-          'normalMap',
-          'normalScale',
-          'clearcoat',
-          'clearcoatRoughness',
-          'clearcoatNormal',
-          'aoMap',
-          'aoMapIntensity',
-          'envMap',
-          'envMapIntensity',
-          'opacity',
-          'alphaTest',
-          'alphaHash',
-        ],
-        outputs: ['baseColor', 'roughness', 'metalness'],
-      },
-      {
-        type: 'basicMaterial',
-        label: 'BasicMaterial',
-        inputs: [
-          'baseColor',
-          'baseColorTexture',
-          'opacity',
-          'alphaTest',
-          'alphaHash',
-          'map',
-          'alphaMap',
-          'aoMap',
-          'envMap',
-          'envMapIntensity',
-          'reflectivity',
-        ],
-        outputs: ['baseColor'],
-      },
-      {
-        type: 'output',
-        label: 'Fragment Output',
-        inputs: ['baseColor', 'roughness', 'metalness'],
-        outputs: [],
-      },
-    ],
-    [],
-  )
-
-  const functionPalette = useMemo<PaletteItem[]>(
-    () =>
-      Object.values(functions).map((fn) => ({
-        type: `function:${fn.id}`,
-        label: fn.name,
-        inputs: fn.inputs.map((pin) => pin.name),
-        outputs: fn.outputs.map((pin) => pin.name),
-      })),
-    [functions],
-  )
-
-  const palette = useMemo(
-    () => [...basePalette, ...functionPalette],
-    [basePalette, functionPalette],
-  )
-
-  const isFunctionEditing = activeFunctionId !== null
-  const activeFunction = activeFunctionId ? functions[activeFunctionId] : null
-  const editorNodes = activeFunction?.nodes ?? nodes
-  const editorConnections = activeFunction?.connections ?? connections
-  const editorGroups = isFunctionEditing ? [] : groups
-
-  const getMaterialKindFromOutput = (
-    outputNode: GraphNode | undefined,
-    nodeMap: NodeMap,
-    connectionMap: ConnectionMap,
-  ) => {
-    if (!outputNode) return 'standard' as const
-    const baseColorConn = connectionMap.get(`${outputNode.id}:baseColor`)
-    if (!baseColorConn) return 'standard' as const
-    const source = nodeMap.get(baseColorConn.from.nodeId)
-    if (source?.type === 'basicMaterial') return 'basic' as const
-    if (source?.type === 'physicalMaterial') return 'physical' as const
-    return 'standard' as const
-  }
-
-  const getMaterialNodesFromOutput = (
-    outputNode: GraphNode | undefined,
-    nodeMap: NodeMap,
-    connectionMap: ConnectionMap,
-  ) => {
-    if (!outputNode) {
-      return {
-        standardMaterialNode: null as GraphNode | null,
-        physicalMaterialNode: null as GraphNode | null,
-        basicMaterialNode: null as GraphNode | null,
-      }
-    }
-    const baseColorConn = connectionMap.get(`${outputNode.id}:baseColor`)
-    const source = baseColorConn ? nodeMap.get(baseColorConn.from.nodeId) : null
-    return {
-      standardMaterialNode: source?.type === 'material' ? source : null,
-      physicalMaterialNode: source?.type === 'physicalMaterial' ? source : null,
-      basicMaterialNode: source?.type === 'basicMaterial' ? source : null,
-    }
-  }
-
-  const paletteGroups = useMemo(() => {
-    const functionTypes = Object.keys(functions).map((id) => `function:${id}`)
-    return [
-      { id: 'inputs', label: 'Inputs', types: ['number', 'time', 'color', 'texture', 'gltfTexture'] },
-      {
-        id: 'color',
-        label: 'Color',
-        types: [
-          'luminance',
-          'grayscale',
-          'saturation',
-          'posterize',
-          'sRGBTransferEOTF',
-          'sRGBTransferOETF',
-          'linearToneMapping',
-          'reinhardToneMapping',
-          'cineonToneMapping',
-          'acesFilmicToneMapping',
-          'agxToneMapping',
-          'neutralToneMapping',
-        ],
-      },
-      {
-        id: 'geometry',
-        label: 'Geometry',
-        types: [
-          'position',
-          'normal',
-          'tangent',
-          'bitangent',
-          'uv',
-          'uv2',
-          'geometryPrimitive',
-          'gltf',
-        ],
-      },
-      {
-        id: 'math',
-        label: 'Math',
-        types: [
-          'add',
-          'multiply',
-          'normalize',
-          'dot',
-          'cross',
-          'checker',
-          'dFdx',
-          'dFdy',
-          'distance',
-          'reflect',
-          'refract',
-          'faceforward',
-          'fwidth',
-          'triNoise3D',
-          'length',
-          'smoothstep',
-          'pow',
-          'sine',
-          'cosine',
-          'tan',
-          'asin',
-          'acos',
-          'atan',
-          'atan2',
-          'radians',
-          'degrees',
-          'abs',
-          'clamp',
-          'min',
-          'max',
-          'step',
-          'fract',
-          'floor',
-          'ceil',
-          'round',
-          'trunc',
-          'sqrt',
-          'mod',
-          'exp',
-          'exp2',
-          'log',
-          'log2',
-          'pow2',
-          'pow3',
-          'pow4',
-          'sign',
-          'saturate',
-          'remap',
-          'remapClamp',
-          'oneMinus',
-          'negate',
-          'mix',
-          'ifElse',
-          'smoothstepElement',
-          'stepElement',
-          'lessThan',
-          'lessThanEqual',
-          'greaterThan',
-          'greaterThanEqual',
-          'equal',
-          'notEqual',
-          'and',
-          'or',
-          'not',
-        ],
-      },
-      {
-        id: 'noise',
-        label: 'Noise',
-        types: [
-          'checker',
-          'triNoise3D',
-          'mxNoiseFloat',
-          'mxNoiseVec3',
-          'mxNoiseVec4',
-          'mxFractalNoiseFloat',
-          'mxFractalNoiseVec2',
-          'mxFractalNoiseVec3',
-          'mxFractalNoiseVec4',
-          'mxWorleyNoiseFloat',
-          'mxWorleyNoiseVec2',
-          'mxWorleyNoiseVec3',
-          'rotateUV',
-          'scaleUV',
-          'offsetUV',
-          'spherizeUV',
-          'spritesheetUV',
-        ],
-      },
-      {
-        id: 'vector',
-        label: 'Vector',
-        types: [
-          'vec2',
-          'mat2',
-          'splitVec2',
-          'vec3',
-          'mat3',
-          'scale',
-          'rotate',
-          'splitVec3',
-          'vec4',
-          'mat4',
-          'modelMatrix',
-          'viewMatrix',
-          'projectionMatrix',
-          'modelViewMatrix',
-          'normalMatrix',
-          'splitVec4',
-          'transpose',
-          'inverse',
-        ],
-      },
-      {
-        id: 'material',
-        label: 'Material',
-        types: ['material', 'physicalMaterial', 'basicMaterial', 'gltfMaterial'],
       },
       {
         id: 'outputs',
@@ -1738,7 +657,7 @@ function App() {
         ? [{ id: 'functions', label: 'Functions', types: functionTypes }]
         : []),
     ]
-  }, [functions])
+  }, [functionPalette])
 
   const paletteByType = useMemo(
     () => new Map(palette.map((item) => [item.type, item])),
@@ -1836,7 +755,7 @@ function App() {
 
   useEffect(() => {
     if (activeFunctionId && !functions[activeFunctionId]) {
-      setActiveFunctionId(null)
+      setFunctionPath([])
     }
   }, [activeFunctionId, functions])
 
@@ -2629,353 +1548,6 @@ function App() {
     [paletteDefaults],
   )
 
-  const migrateGraph = (
-    currentNodes: GraphNode[],
-    currentConnections: GraphConnection[],
-    version: number,
-  ): { nodes: GraphNode[]; connections: GraphConnection[]; version: number } => {
-    let nextNodes = currentNodes
-    let nextConnections = currentConnections
-    let nextVersion = version
-
-    if (nextVersion < 2) {
-      const nodeMap = buildNodeMap(nextNodes)
-      const byTo = buildConnectionMap(nextConnections)
-      const byFrom = new Map<string, GraphConnection[]>()
-      nextConnections.forEach((connection) => {
-        const list = byFrom.get(connection.from.nodeId)
-        if (list) {
-          list.push(connection)
-        } else {
-          byFrom.set(connection.from.nodeId, [connection])
-        }
-      })
-      const newConnections = [...nextConnections]
-
-      const ensureConnection = (
-        id: string,
-        from: { nodeId: string; pin: string },
-        to: { nodeId: string; pin: string },
-      ) => {
-        const targetKey = `${to.nodeId}:${to.pin}`
-        if (byTo.has(targetKey)) return
-        const connection = { id, from, to }
-        newConnections.push(connection)
-        byTo.set(targetKey, connection)
-        const list = byFrom.get(from.nodeId)
-        if (list) {
-          list.push(connection)
-        } else {
-          byFrom.set(from.nodeId, [connection])
-        }
-      }
-
-      const positionNode = nodeMap.get('position-example') ?? nextNodes.find((n) => n.type === 'position')
-      const lengthNode = nodeMap.get('length-example') ?? nextNodes.find((n) => n.type === 'length')
-      const freqNumber =
-        nodeMap.get('pos-freq-example') ??
-        nextNodes.find((n) => n.type === 'number' && Math.abs(parseNumber(n.value) - 6) < 1e-4)
-
-      const findSmoothstepChain = () => {
-        const smoothstep = nextNodes.find((node) => node.type === 'smoothstep')
-        if (!smoothstep) return null
-        const xConn = byTo.get(`${smoothstep.id}:x`)
-        const sine = xConn ? nodeMap.get(xConn.from.nodeId) : null
-        if (!sine || sine.type !== 'sine') return null
-        const addConn = byTo.get(`${sine.id}:value`)
-        const add = addConn ? nodeMap.get(addConn.from.nodeId) : null
-        if (!add || add.type !== 'add') return null
-        return { smoothstep, sine, add }
-      }
-
-      const chain = findSmoothstepChain()
-      const addNode = chain?.add ?? null
-      const isFreqMultiply = (node: GraphNode) => {
-        if (node.type !== 'multiply' || !freqNumber) return false
-        const connA = byTo.get(`${node.id}:a`)
-        const connB = byTo.get(`${node.id}:b`)
-        return (
-          connA?.from.nodeId === freqNumber.id || connB?.from.nodeId === freqNumber.id
-        )
-      }
-
-      let freqMultiply: GraphNode | null = null
-      if (addNode) {
-        const connA = byTo.get(`${addNode.id}:a`)
-        const connB = byTo.get(`${addNode.id}:b`)
-        const nodeA = connA ? nodeMap.get(connA.from.nodeId) : null
-        const nodeB = connB ? nodeMap.get(connB.from.nodeId) : null
-        if (nodeA && isFreqMultiply(nodeA)) freqMultiply = nodeA
-        if (!freqMultiply && nodeB && isFreqMultiply(nodeB)) freqMultiply = nodeB
-      }
-      if (!freqMultiply) {
-        freqMultiply = nextNodes.find((node) => isFreqMultiply(node)) ?? null
-      }
-
-      if (positionNode && lengthNode) {
-        ensureConnection(
-          'migrate-pos-length',
-          { nodeId: positionNode.id, pin: 'value' },
-          { nodeId: lengthNode.id, pin: 'value' },
-        )
-      }
-      if (lengthNode && freqMultiply && freqNumber) {
-        const connA = byTo.get(`${freqMultiply.id}:a`)
-        const connB = byTo.get(`${freqMultiply.id}:b`)
-        const hasLength =
-          connA?.from.nodeId === lengthNode.id || connB?.from.nodeId === lengthNode.id
-        const hasFreq =
-          connA?.from.nodeId === freqNumber.id || connB?.from.nodeId === freqNumber.id
-        if (!hasLength) {
-          if (!connA) {
-            ensureConnection(
-              'migrate-length-freq-a',
-              { nodeId: lengthNode.id, pin: 'value' },
-              { nodeId: freqMultiply.id, pin: 'a' },
-            )
-          } else if (!connB) {
-            ensureConnection(
-              'migrate-length-freq-b',
-              { nodeId: lengthNode.id, pin: 'value' },
-              { nodeId: freqMultiply.id, pin: 'b' },
-            )
-          }
-        }
-        if (!hasFreq) {
-          const connA2 = byTo.get(`${freqMultiply.id}:a`)
-          const connB2 = byTo.get(`${freqMultiply.id}:b`)
-          if (!connA2) {
-            ensureConnection(
-              'migrate-freq-a',
-              { nodeId: freqNumber.id, pin: 'value' },
-              { nodeId: freqMultiply.id, pin: 'a' },
-            )
-          } else if (!connB2) {
-            ensureConnection(
-              'migrate-freq-b',
-              { nodeId: freqNumber.id, pin: 'value' },
-              { nodeId: freqMultiply.id, pin: 'b' },
-            )
-          }
-        }
-      }
-
-      nextConnections = newConnections
-
-      nextVersion = 2
-    }
-
-    return { nodes: nextNodes, connections: nextConnections, version: nextVersion }
-  }
-
-  const inputTypes = useMemo<Record<string, Record<string, string>>>(
-    () => ({
-      add: { a: 'any', b: 'any' },
-      multiply: { a: 'any', b: 'any' },
-      normalize: { value: 'vector' },
-      dot: { a: 'vector', b: 'vector' },
-      cross: { a: 'vector3', b: 'vector3' },
-      checker: { coord: 'vec2' },
-      distance: { a: 'any', b: 'any' },
-      dFdx: { value: 'any' },
-      dFdy: { value: 'any' },
-      reflect: { incident: 'vector3', normal: 'vector3' },
-      refract: { incident: 'vector3', normal: 'vector3', eta: 'number' },
-      faceforward: { n: 'vector3', i: 'vector3', nref: 'vector3' },
-      fwidth: { value: 'any' },
-      triNoise3D: { position: 'vec3', speed: 'number', time: 'number' },
-      mxNoiseFloat: { texcoord: 'vector', amplitude: 'number', pivot: 'number' },
-      mxNoiseVec3: { texcoord: 'vector', amplitude: 'number', pivot: 'number' },
-      mxNoiseVec4: { texcoord: 'vector', amplitude: 'number', pivot: 'number' },
-      mxFractalNoiseFloat: {
-        position: 'vector',
-        octaves: 'number',
-        lacunarity: 'number',
-        diminish: 'number',
-        amplitude: 'number',
-      },
-      mxFractalNoiseVec2: {
-        position: 'vector',
-        octaves: 'number',
-        lacunarity: 'number',
-        diminish: 'number',
-        amplitude: 'number',
-      },
-      mxFractalNoiseVec3: {
-        position: 'vector',
-        octaves: 'number',
-        lacunarity: 'number',
-        diminish: 'number',
-        amplitude: 'number',
-      },
-      mxFractalNoiseVec4: {
-        position: 'vector',
-        octaves: 'number',
-        lacunarity: 'number',
-        diminish: 'number',
-        amplitude: 'number',
-      },
-      mxWorleyNoiseFloat: { texcoord: 'vector', jitter: 'number' },
-      mxWorleyNoiseVec2: { texcoord: 'vector', jitter: 'number' },
-      mxWorleyNoiseVec3: { texcoord: 'vector', jitter: 'number' },
-      rotateUV: { uv: 'vec2', rotation: 'number', center: 'vec2' },
-      scaleUV: { uv: 'vec2', scale: 'vec2' },
-      offsetUV: { uv: 'vec2', offset: 'vec2' },
-      spherizeUV: { uv: 'vec2', strength: 'number', center: 'vec2' },
-      spritesheetUV: { size: 'vec2', uv: 'vec2', time: 'number' },
-      luminance: { value: 'vector3' },
-      grayscale: { value: 'vector3' },
-      saturation: { value: 'vector3', amount: 'number' },
-      posterize: { value: 'vector3', steps: 'number' },
-      sRGBTransferEOTF: { value: 'vector3' },
-      sRGBTransferOETF: { value: 'vector3' },
-      linearToneMapping: { value: 'vector3' },
-      reinhardToneMapping: { value: 'vector3' },
-      cineonToneMapping: { value: 'vector3' },
-      acesFilmicToneMapping: { value: 'vector3' },
-      agxToneMapping: { value: 'vector3' },
-      neutralToneMapping: { value: 'vector3' },
-      length: { value: 'vector' },
-      smoothstep: { edge0: 'any', edge1: 'any', x: 'any' },
-      pow: { base: 'any', exp: 'any' },
-      sine: { value: 'number' },
-      vec2: { x: 'number', y: 'number' },
-      vec3: { x: 'number', y: 'number', z: 'number' },
-      scale: { value: 'vec3', scale: 'vec3' },
-      rotate: { value: 'vec3', rotation: 'vec3' },
-      vec4: { x: 'number', y: 'number', z: 'number', w: 'number' },
-      mat2: { c0: 'vec2', c1: 'vec2' },
-      mat3: { c0: 'vec3', c1: 'vec3', c2: 'vec3' },
-      mat4: { c0: 'vec4', c1: 'vec4', c2: 'vec4', c3: 'vec4' },
-      transpose: { value: 'matrix' },
-      inverse: { value: 'matrix' },
-      splitVec2: { value: 'vec2' },
-      splitVec3: { value: 'vec3' },
-      splitVec4: { value: 'vec4' },
-      cosine: { value: 'number' },
-      tan: { value: 'any' },
-      asin: { value: 'any' },
-      acos: { value: 'any' },
-      atan: { value: 'any' },
-      atan2: { y: 'any', x: 'any' },
-      radians: { value: 'any' },
-      degrees: { value: 'any' },
-      abs: { value: 'number' },
-      clamp: { value: 'number', min: 'number', max: 'number' },
-      min: { a: 'any', b: 'any' },
-      max: { a: 'any', b: 'any' },
-      step: { edge: 'any', x: 'any' },
-      fract: { value: 'any' },
-      floor: { value: 'any' },
-      ceil: { value: 'any' },
-      round: { value: 'any' },
-      trunc: { value: 'any' },
-      sqrt: { value: 'any' },
-      mod: { a: 'any', b: 'any' },
-      exp: { value: 'any' },
-      exp2: { value: 'any' },
-      log: { value: 'any' },
-      log2: { value: 'any' },
-      pow2: { value: 'any' },
-      pow3: { value: 'any' },
-      pow4: { value: 'any' },
-      sign: { value: 'any' },
-      saturate: { value: 'any' },
-      remap: {
-        value: 'any',
-        inLow: 'any',
-        inHigh: 'any',
-        outLow: 'any',
-        outHigh: 'any',
-      },
-      remapClamp: {
-        value: 'any',
-        inLow: 'any',
-        inHigh: 'any',
-        outLow: 'any',
-        outHigh: 'any',
-      },
-      oneMinus: { value: 'any' },
-      negate: { value: 'any' },
-      mix: { a: 'any', b: 'any', t: 'number' },
-      ifElse: { cond: 'any', a: 'any', b: 'any', threshold: 'number' },
-      smoothstepElement: { x: 'any', low: 'any', high: 'any' },
-      stepElement: { x: 'any', edge: 'any' },
-      lessThan: { a: 'any', b: 'any' },
-      lessThanEqual: { a: 'any', b: 'any' },
-      greaterThan: { a: 'any', b: 'any' },
-      greaterThanEqual: { a: 'any', b: 'any' },
-      equal: { a: 'any', b: 'any' },
-      notEqual: { a: 'any', b: 'any' },
-      and: { a: 'any', b: 'any' },
-      or: { a: 'any', b: 'any' },
-      not: { value: 'any' },
-      geometryOutput: { geometry: 'geometry' },
-      gltf: {},
-      material: {
-        baseColor: 'color',
-        baseColorTexture: 'color',
-        roughnessMap: 'color',
-        metalnessMap: 'color',
-        emissive: 'color',
-        emissiveMap: 'color',
-        emissiveIntensity: 'number',
-        roughness: 'number',
-        metalness: 'number',
-        normalMap: 'color',
-        normalScale: 'vec2',
-        aoMap: 'color',
-        aoMapIntensity: 'number',
-        envMap: 'color',
-        envMapIntensity: 'number',
-        opacity: 'number',
-        alphaTest: 'number',
-        alphaHash: 'number',
-      },
-      physicalMaterial: {
-        baseColor: 'color',
-        baseColorTexture: 'color',
-        roughnessMap: 'color',
-        metalnessMap: 'color',
-        emissive: 'color',
-        emissiveMap: 'color',
-        emissiveIntensity: 'number',
-        roughness: 'number',
-        metalness: 'number',
-        normalMap: 'color',
-        normalScale: 'vec2',
-        aoMap: 'color',
-        aoMapIntensity: 'number',
-        envMap: 'color',
-        envMapIntensity: 'number',
-        opacity: 'number',
-        alphaTest: 'number',
-        alphaHash: 'number',
-        clearcoat: 'number',
-        clearcoatRoughness: 'number',
-        clearcoatNormal: 'color',
-      },
-      basicMaterial: {
-        baseColor: 'color',
-        baseColorTexture: 'color',
-        opacity: 'number',
-        alphaTest: 'number',
-        alphaHash: 'number',
-        map: 'color',
-        alphaMap: 'color',
-        aoMap: 'color',
-        envMap: 'color',
-        envMapIntensity: 'number',
-        reflectivity: 'number',
-      },
-      output: { baseColor: 'color', roughness: 'number', metalness: 'number' },
-      vertexOutput: { position: 'vec3' },
-      functionInput: { value: 'any' },
-      functionOutput: { value: 'any' },
-    }),
-    [],
-  )
-
   const materialInputGroups = useMemo<
     Record<string, { label: string; pins: string[] }[]>
   >(
@@ -3004,6 +1576,24 @@ function App() {
           label: 'Clearcoat',
           pins: ['clearcoat', 'clearcoatRoughness', 'clearcoatNormal'],
         },
+        { label: 'Sheen', pins: ['sheen', 'sheenColor', 'sheenRoughness'] },
+        {
+          label: 'Iridescence',
+          pins: ['iridescence', 'iridescenceIOR', 'iridescenceThickness'],
+        },
+        {
+          label: 'Transmission',
+          pins: [
+            'transmission',
+            'thickness',
+            'attenuationColor',
+            'attenuationDistance',
+            'ior',
+            'dispersion',
+          ],
+        },
+        { label: 'Specular', pins: ['specularIntensity', 'specularColor'] },
+        { label: 'Anisotropy', pins: ['anisotropy'] },
         { label: 'Occlusion', pins: ['aoMap', 'aoMapIntensity'] },
         { label: 'Environment', pins: ['envMap', 'envMapIntensity'] },
         { label: 'Transparency', pins: ['opacity', 'alphaTest', 'alphaHash'] },
@@ -3014,512 +1604,132 @@ function App() {
         { label: 'Maps', pins: ['map', 'alphaMap', 'aoMap'] },
         { label: 'Environment', pins: ['envMap', 'envMapIntensity', 'reflectivity'] },
       ],
-    }),
-    [],
-  )
-
- 
-  const inferType = (
-    nodeId: string,
-    outputPin: string | undefined,
-    nodeMap: NodeMap,
-    connectionMap: ConnectionMap,
-    stack: Set<string>,
-  ): 
-    | 'number'
-    | 'color'
-    | 'vec2'
-    | 'vec3'
-    | 'vec4'
-    | 'mat2'
-    | 'mat3'
-    | 'mat4'
-    | 'geometry'
-    | 'unknown' => {
-    if (stack.has(nodeId)) return 'unknown'
-    stack.add(nodeId)
-    const node = nodeMap.get(nodeId)
-    if (!node) return 'unknown'
-    if (node.type === 'number') return 'number'
-    if (node.type === 'color' || node.type === 'texture' || node.type === 'gltfTexture') {
-      return 'color'
-    }
-    if (node.type === 'function') {
-      const def = node.functionId ? functions[node.functionId] : null
-      if (!def) return 'unknown'
-      const targetPin = outputPin ?? def.outputs[0]?.name
-      if (!targetPin) return 'unknown'
-      const output = def.outputs.find((pin) => pin.name === targetPin)
-      if (!output) return 'unknown'
-      const internalNodeMap = buildNodeMap(def.nodes)
-      const internalConnectionMap = buildConnectionMap(def.connections)
-      return inferType(
-        output.nodeId,
-        'value',
-        internalNodeMap,
-        internalConnectionMap,
-        new Set(),
-      )
-    }
-    const attributeKind = getAttributeKind(node.type)
-    if (attributeKind) return attributeKind
-    if (node.type === 'time') return 'number'
-    if (node.type === 'sine') return 'number'
-    if (node.type === 'normalize') {
-      const input = connectionMap.get(`${node.id}:value`)
-      const inputType = input
-        ? inferType(input.from.nodeId, input.from.pin, nodeMap, connectionMap, stack)
-        : 'unknown'
-      return isVectorKind(inputType) ? inputType : 'unknown'
-    }
-    if (node.type === 'length') {
-      const input = connectionMap.get(`${node.id}:value`)
-      const inputType = input
-        ? inferType(input.from.nodeId, input.from.pin, nodeMap, connectionMap, stack)
-        : 'unknown'
-      return isVectorKind(inputType) ? 'number' : 'unknown'
-    }
-    if (node.type === 'dot') {
-      const inputA = connectionMap.get(`${node.id}:a`)
-      const inputB = connectionMap.get(`${node.id}:b`)
-      const typeA = inputA
-        ? inferType(inputA.from.nodeId, inputA.from.pin, nodeMap, connectionMap, stack)
-        : 'unknown'
-      const typeB = inputB
-        ? inferType(inputB.from.nodeId, inputB.from.pin, nodeMap, connectionMap, stack)
-        : 'unknown'
-      const vecA = getVectorKind(typeA)
-      const vecB = getVectorKind(typeB)
-      if (!vecA || !vecB) return 'unknown'
-      if (vecA !== vecB) return 'unknown'
-      return 'number'
-    }
-    if (node.type === 'cross') {
-      const inputA = connectionMap.get(`${node.id}:a`)
-      const inputB = connectionMap.get(`${node.id}:b`)
-      const typeA = inputA
-        ? inferType(inputA.from.nodeId, inputA.from.pin, nodeMap, connectionMap, stack)
-        : 'unknown'
-      const typeB = inputB
-        ? inferType(inputB.from.nodeId, inputB.from.pin, nodeMap, connectionMap, stack)
-        : 'unknown'
-      const vecA = getVectorKind(typeA)
-      const vecB = getVectorKind(typeB)
-      if (vecA !== 'vec3' || vecB !== 'vec3') return 'unknown'
-      return typeA === 'color' || typeB === 'color' ? 'color' : 'vec3'
-    }
-    if (node.type === 'smoothstep') {
-      const edge0Input = connectionMap.get(`${node.id}:edge0`)
-      const edge1Input = connectionMap.get(`${node.id}:edge1`)
-      const xInput = connectionMap.get(`${node.id}:x`)
-      const type0 = edge0Input
-        ? inferType(edge0Input.from.nodeId, edge0Input.from.pin, nodeMap, connectionMap, stack)
-        : 'number'
-      const type1 = edge1Input
-        ? inferType(edge1Input.from.nodeId, edge1Input.from.pin, nodeMap, connectionMap, stack)
-        : 'number'
-      const typeX = xInput
-        ? inferType(xInput.from.nodeId, xInput.from.pin, nodeMap, connectionMap, stack)
-        : 'number'
-      return resolveVectorOutputKind([type0, type1, typeX])
-    }
-    if (node.type === 'pow') {
-      const baseInput = connectionMap.get(`${node.id}:base`)
-      const expInput = connectionMap.get(`${node.id}:exp`)
-      const baseType = baseInput
-        ? inferType(baseInput.from.nodeId, baseInput.from.pin, nodeMap, connectionMap, stack)
-        : 'number'
-      const expType = expInput
-        ? inferType(expInput.from.nodeId, expInput.from.pin, nodeMap, connectionMap, stack)
-        : 'number'
-      return resolveVectorOutputKind([baseType, expType])
-    }
-    if (node.type === 'vec2') return 'vec2'
-    if (node.type === 'vec3') return 'vec3'
-    if (node.type === 'mat2') return 'mat2'
-    if (node.type === 'mat3') return 'mat3'
-    if (node.type === 'mat4') return 'mat4'
-    if (node.type === 'modelMatrix') return 'mat4'
-    if (node.type === 'viewMatrix') return 'mat4'
-    if (node.type === 'projectionMatrix') return 'mat4'
-    if (node.type === 'modelViewMatrix') return 'mat4'
-    if (node.type === 'normalMatrix') return 'mat3'
-    if (node.type === 'scale') {
-      const input = connectionMap.get(`${node.id}:value`)
-      const inputType = input
-        ? inferType(input.from.nodeId, input.from.pin, nodeMap, connectionMap, stack)
-        : 'unknown'
-      if (inputType === 'vec3' || inputType === 'number') return 'vec3'
-      return 'unknown'
-    }
-    if (node.type === 'rotate') {
-      const input = connectionMap.get(`${node.id}:value`)
-      const inputType = input
-        ? inferType(input.from.nodeId, input.from.pin, nodeMap, connectionMap, stack)
-        : 'unknown'
-      if (inputType === 'vec3' || inputType === 'number') return 'vec3'
-      return 'unknown'
-    }
-    if (node.type === 'vec4') return 'vec4'
-    if (node.type === 'splitVec2') {
-      if (outputPin === 'x' || outputPin === 'y') {
-        return 'number'
-      }
-      return 'unknown'
-    }
-    if (node.type === 'splitVec3') {
-      if (outputPin === 'x' || outputPin === 'y' || outputPin === 'z') {
-        return 'number'
-      }
-      return 'unknown'
-    }
-    if (node.type === 'splitVec4') {
-      if (outputPin === 'x' || outputPin === 'y' || outputPin === 'z' || outputPin === 'w') {
-        return 'number'
-      }
-      return 'unknown'
-    }
-    if (node.type === 'cosine') return 'number'
-    if (node.type === 'checker') return 'number'
-    if (node.type === 'distance') return 'number'
-    if (node.type === 'dFdx' || node.type === 'dFdy' || node.type === 'fwidth') {
-      const input = connectionMap.get(`${node.id}:value`)
-      const inputType = input
-        ? inferType(input.from.nodeId, input.from.pin, nodeMap, connectionMap, stack)
-        : 'number'
-      if (inputType === 'number' || isVectorKind(inputType)) return inputType
-      return 'unknown'
-    }
-    if (node.type === 'mxNoiseFloat') return 'number'
-    if (node.type === 'mxNoiseVec3') return 'vec3'
-    if (node.type === 'mxNoiseVec4') return 'vec4'
-    if (node.type === 'mxFractalNoiseFloat') return 'number'
-    if (node.type === 'mxFractalNoiseVec2') return 'vec2'
-    if (node.type === 'mxFractalNoiseVec3') return 'vec3'
-    if (node.type === 'mxFractalNoiseVec4') return 'vec4'
-    if (node.type === 'mxWorleyNoiseFloat') return 'number'
-    if (node.type === 'mxWorleyNoiseVec2') return 'vec2'
-    if (node.type === 'mxWorleyNoiseVec3') return 'vec3'
-    if (node.type === 'rotateUV') return 'vec2'
-    if (node.type === 'scaleUV') return 'vec2'
-    if (node.type === 'offsetUV') return 'vec2'
-    if (node.type === 'spherizeUV') return 'vec2'
-    if (node.type === 'spritesheetUV') return 'vec2'
-    if (node.type === 'reflect' || node.type === 'refract' || node.type === 'faceforward') {
-      const getType = (pin: string) => {
-        const input = connectionMap.get(`${node.id}:${pin}`)
-        return input
-          ? inferType(input.from.nodeId, input.from.pin, nodeMap, connectionMap, stack)
-          : 'unknown'
-      }
-      const types =
-        node.type === 'reflect'
-          ? [getType('incident'), getType('normal')]
-          : node.type === 'refract'
-            ? [getType('incident'), getType('normal')]
-            : [getType('n'), getType('i'), getType('nref')]
-      if (types.some((type) => type === 'unknown')) return 'unknown'
-      if (types.some((type) => type !== 'vec3' && type !== 'color')) return 'unknown'
-      return types.some((type) => type === 'color') ? 'color' : 'vec3'
-    }
-    if (node.type === 'triNoise3D') return 'number'
-    if (node.type === 'tan') {
-      const input = connectionMap.get(`${node.id}:value`)
-      const inputType = input
-        ? inferType(input.from.nodeId, input.from.pin, nodeMap, connectionMap, stack)
-        : 'number'
-      if (inputType === 'number' || isVectorKind(inputType)) return inputType
-      return 'unknown'
-    }
-    if (node.type === 'asin' || node.type === 'acos' || node.type === 'atan') {
-      const input = connectionMap.get(`${node.id}:value`)
-      const inputType = input
-        ? inferType(input.from.nodeId, input.from.pin, nodeMap, connectionMap, stack)
-        : 'number'
-      if (inputType === 'number' || isVectorKind(inputType)) return inputType
-      return 'unknown'
-    }
-    if (
-      node.type === 'sqrt' ||
-      node.type === 'exp2' ||
-      node.type === 'log2' ||
-      node.type === 'pow2' ||
-      node.type === 'pow3' ||
-      node.type === 'pow4' ||
-      node.type === 'saturate'
-    ) {
-      const input = connectionMap.get(`${node.id}:value`)
-      const inputType = input
-        ? inferType(input.from.nodeId, input.from.pin, nodeMap, connectionMap, stack)
-        : 'number'
-      if (inputType === 'number' || isVectorKind(inputType)) return inputType
-      return 'unknown'
-    }
-    if (node.type === 'remap' || node.type === 'remapClamp') {
-      const input = connectionMap.get(`${node.id}:value`)
-      const inputType = input
-        ? inferType(input.from.nodeId, input.from.pin, nodeMap, connectionMap, stack)
-        : 'number'
-      if (inputType === 'number' || isVectorKind(inputType)) return inputType
-      return 'unknown'
-    }
-    if (node.type === 'smoothstepElement') {
-      const lowInput = connectionMap.get(`${node.id}:low`)
-      const highInput = connectionMap.get(`${node.id}:high`)
-      const xInput = connectionMap.get(`${node.id}:x`)
-      const lowType = lowInput
-        ? inferType(lowInput.from.nodeId, lowInput.from.pin, nodeMap, connectionMap, stack)
-        : 'number'
-      const highType = highInput
-        ? inferType(highInput.from.nodeId, highInput.from.pin, nodeMap, connectionMap, stack)
-        : 'number'
-      const xType = xInput
-        ? inferType(xInput.from.nodeId, xInput.from.pin, nodeMap, connectionMap, stack)
-        : 'number'
-      return resolveVectorOutputKind([lowType, highType, xType])
-    }
-    if (node.type === 'stepElement') {
-      const edgeInput = connectionMap.get(`${node.id}:edge`)
-      const xInput = connectionMap.get(`${node.id}:x`)
-      const edgeType = edgeInput
-        ? inferType(edgeInput.from.nodeId, edgeInput.from.pin, nodeMap, connectionMap, stack)
-        : 'number'
-      const xType = xInput
-        ? inferType(xInput.from.nodeId, xInput.from.pin, nodeMap, connectionMap, stack)
-        : 'number'
-      return resolveVectorOutputKind([edgeType, xType])
-    }
-    if (node.type === 'transpose' || node.type === 'inverse') {
-      const input = connectionMap.get(`${node.id}:value`)
-      const inputType = input
-        ? inferType(input.from.nodeId, input.from.pin, nodeMap, connectionMap, stack)
-        : 'unknown'
-      if (isMatrixKind(inputType)) return inputType
-      return 'unknown'
-    }
-    if (
-      node.type === 'lessThan' ||
-      node.type === 'lessThanEqual' ||
-      node.type === 'greaterThan' ||
-      node.type === 'greaterThanEqual' ||
-      node.type === 'equal' ||
-      node.type === 'notEqual' ||
-      node.type === 'and' ||
-      node.type === 'or'
-    ) {
-      const inputA = connectionMap.get(`${node.id}:a`)
-      const inputB = connectionMap.get(`${node.id}:b`)
-      const typeA = inputA
-        ? inferType(inputA.from.nodeId, inputA.from.pin, nodeMap, connectionMap, stack)
-        : 'number'
-      const typeB = inputB
-        ? inferType(inputB.from.nodeId, inputB.from.pin, nodeMap, connectionMap, stack)
-        : 'number'
-      return resolveVectorOutputKind([typeA, typeB])
-    }
-    if (node.type === 'not') {
-      const input = connectionMap.get(`${node.id}:value`)
-      const inputType = input
-        ? inferType(input.from.nodeId, input.from.pin, nodeMap, connectionMap, stack)
-        : 'number'
-      if (inputType === 'number' || isVectorKind(inputType)) return inputType
-      return 'unknown'
-    }
-    if (node.type === 'atan2') {
-      const yInput = connectionMap.get(`${node.id}:y`)
-      const xInput = connectionMap.get(`${node.id}:x`)
-      const yType = yInput
-        ? inferType(yInput.from.nodeId, yInput.from.pin, nodeMap, connectionMap, stack)
-        : 'number'
-      const xType = xInput
-        ? inferType(xInput.from.nodeId, xInput.from.pin, nodeMap, connectionMap, stack)
-        : 'number'
-      return resolveVectorOutputKind([yType, xType])
-    }
-    if (node.type === 'radians' || node.type === 'degrees') {
-      const input = connectionMap.get(`${node.id}:value`)
-      const inputType = input
-        ? inferType(input.from.nodeId, input.from.pin, nodeMap, connectionMap, stack)
-        : 'number'
-      if (inputType === 'number' || isVectorKind(inputType)) return inputType
-      return 'unknown'
-    }
-    if (node.type === 'abs') return 'number'
-    if (node.type === 'clamp') return 'number'
-    if (node.type === 'min' || node.type === 'max' || node.type === 'mod') {
-      const inputA = connectionMap.get(`${node.id}:a`)
-      const inputB = connectionMap.get(`${node.id}:b`)
-      const typeA = inputA
-        ? inferType(inputA.from.nodeId, inputA.from.pin, nodeMap, connectionMap, stack)
-        : 'number'
-      const typeB = inputB
-        ? inferType(inputB.from.nodeId, inputB.from.pin, nodeMap, connectionMap, stack)
-        : 'number'
-      if (typeA === 'number') return typeB
-      if (typeB === 'number') return typeA
-      if (typeA === typeB) return typeA
-      return 'unknown'
-    }
-    if (node.type === 'step') {
-      const edgeInput = connectionMap.get(`${node.id}:edge`)
-      const xInput = connectionMap.get(`${node.id}:x`)
-      const edgeType = edgeInput
-        ? inferType(edgeInput.from.nodeId, edgeInput.from.pin, nodeMap, connectionMap, stack)
-        : 'number'
-      const xType = xInput
-        ? inferType(xInput.from.nodeId, xInput.from.pin, nodeMap, connectionMap, stack)
-        : 'number'
-      return resolveVectorOutputKind([edgeType, xType])
-    }
-    if (
-      node.type === 'fract' ||
-      node.type === 'floor' ||
-      node.type === 'ceil' ||
-      node.type === 'round' ||
-      node.type === 'trunc' ||
-      node.type === 'exp' ||
-      node.type === 'log' ||
-      node.type === 'sign' ||
-      node.type === 'oneMinus' ||
-      node.type === 'negate'
-    ) {
-      const input = connectionMap.get(`${node.id}:value`)
-      const inputType = input
-        ? inferType(input.from.nodeId, input.from.pin, nodeMap, connectionMap, stack)
-        : 'number'
-      if (inputType === 'number' || isVectorKind(inputType)) return inputType
-      return 'unknown'
-    }
-    if (node.type === 'mix') {
-      const inputA = connectionMap.get(`${node.id}:a`)
-      const inputB = connectionMap.get(`${node.id}:b`)
-      const typeA = inputA
-        ? inferType(inputA.from.nodeId, inputA.from.pin, nodeMap, connectionMap, stack)
-        : 'number'
-      const typeB = inputB
-        ? inferType(inputB.from.nodeId, inputB.from.pin, nodeMap, connectionMap, stack)
-        : 'number'
-      if (typeA === 'number') return typeB
-      if (typeB === 'number') return typeA
-      if (typeA === typeB) return typeA
-      return 'unknown'
-    }
-    if (node.type === 'ifElse') {
-      const inputA = connectionMap.get(`${node.id}:a`)
-      const inputB = connectionMap.get(`${node.id}:b`)
-      const typeA = inputA
-        ? inferType(inputA.from.nodeId, inputA.from.pin, nodeMap, connectionMap, stack)
-        : 'number'
-      const typeB = inputB
-        ? inferType(inputB.from.nodeId, inputB.from.pin, nodeMap, connectionMap, stack)
-        : 'number'
-      if (typeA === 'number') return typeB
-      if (typeB === 'number') return typeA
-      if (typeA === typeB) return typeA
-      return 'unknown'
-    }
-    if (node.type === 'luminance') {
-      const input = connectionMap.get(`${node.id}:value`)
-      const inputType = input
-        ? inferType(input.from.nodeId, input.from.pin, nodeMap, connectionMap, stack)
-        : 'color'
-      if (inputType === 'color' || inputType === 'vec3') return 'number'
-      return 'unknown'
-    }
-    if (
-      node.type === 'grayscale' ||
-      node.type === 'saturation' ||
-      node.type === 'posterize' ||
-      node.type === 'sRGBTransferEOTF' ||
-      node.type === 'sRGBTransferOETF' ||
-      node.type === 'linearToneMapping' ||
-      node.type === 'reinhardToneMapping' ||
-      node.type === 'cineonToneMapping' ||
-      node.type === 'acesFilmicToneMapping' ||
-      node.type === 'agxToneMapping' ||
-      node.type === 'neutralToneMapping'
-    ) {
-      const input = connectionMap.get(`${node.id}:value`)
-      const inputType = input
-        ? inferType(input.from.nodeId, input.from.pin, nodeMap, connectionMap, stack)
-        : 'color'
-      if (inputType === 'color') return 'color'
-      if (inputType === 'vec3') return 'vec3'
-      return 'unknown'
-    }
-    if (node.type === 'geometryPrimitive') return 'geometry'
-    if (node.type === 'gltf') return 'geometry'
-    if (node.type === 'add' || node.type === 'multiply') {
-      const inputA = connectionMap.get(`${node.id}:a`)
-      const inputB = connectionMap.get(`${node.id}:b`)
-      const typeA = inputA
-        ? inferType(inputA.from.nodeId, inputA.from.pin, nodeMap, connectionMap, stack)
-        : 'number'
-      const typeB = inputB
-        ? inferType(inputB.from.nodeId, inputB.from.pin, nodeMap, connectionMap, stack)
-        : 'number'
-      if (typeA === 'number') return typeB
-      if (typeB === 'number') return typeA
-      if (typeA === typeB) return typeA
-      return 'unknown'
-    }
-    if (node.type === 'material' || node.type === 'physicalMaterial') {
-      if (outputPin === 'roughness' || outputPin === 'metalness') {
-        return 'number'
-      }
-      return 'color'
-    }
-    if (node.type === 'gltfMaterial') {
-      if (outputPin === 'normalScale') return 'vec2'
-      if (
-        outputPin === 'roughness' ||
-        outputPin === 'metalness' ||
-        outputPin === 'emissiveIntensity' ||
-        outputPin === 'aoMapIntensity' ||
-        outputPin === 'envMapIntensity' ||
-        outputPin === 'opacity' ||
-        outputPin === 'alphaTest' ||
-        outputPin === 'alphaHash'
-      ) {
-        return 'number'
-      }
-      return 'color'
-    }
-    if (node.type === 'basicMaterial') {
-      return 'color'
+      toonMaterial: [
+        { label: 'Base', pins: ['baseColor', 'baseColorTexture', 'gradientMap'] },
+        { label: 'Emission', pins: ['emissive', 'emissiveMap', 'emissiveIntensity'] },
+        { label: 'Normal', pins: ['normalMap', 'normalScale'] },
+        { label: 'Occlusion', pins: ['aoMap', 'aoMapIntensity'] },
+        { label: 'Transparency', pins: ['opacity', 'alphaTest', 'alphaHash'] },
+      ],
+      lambertMaterial: [
+        { label: 'Base', pins: ['baseColor', 'baseColorTexture'] },
+        { label: 'Emission', pins: ['emissive', 'emissiveMap', 'emissiveIntensity'] },
+        { label: 'Normal', pins: ['normalMap', 'normalScale'] },
+        { label: 'Occlusion', pins: ['aoMap', 'aoMapIntensity'] },
+        { label: 'Environment', pins: ['envMap', 'reflectivity'] },
+        { label: 'Transparency', pins: ['opacity', 'alphaTest', 'alphaHash'] },
+      ],
+      phongMaterial: [
+        { label: 'Base', pins: ['baseColor', 'baseColorTexture'] },
+        { label: 'Specular', pins: ['shininess', 'specular', 'specularMap'] },
+        { label: 'Emission', pins: ['emissive', 'emissiveMap', 'emissiveIntensity'] },
+        { label: 'Normal', pins: ['normalMap', 'normalScale'] },
+        { label: 'Occlusion', pins: ['aoMap', 'aoMapIntensity'] },
+        { label: 'Environment', pins: ['envMap', 'reflectivity'] },
+        { label: 'Transparency', pins: ['opacity', 'alphaTest', 'alphaHash'] },
+      ],
+      pointsMaterial: [
+        { label: 'Base', pins: ['baseColor', 'baseColorTexture'] },
+        { label: 'Size', pins: ['size', 'sizeAttenuation'] },
+        { label: 'Transparency', pins: ['opacity', 'alphaTest'] },
+      ],
+      lineMaterial: [
+        { label: 'Base', pins: ['baseColor', 'baseColorTexture'] },
+        { label: 'Transparency', pins: ['opacity', 'alphaTest'] },
+      ],
+      lineDashedMaterial: [
+        { label: 'Base', pins: ['baseColor', 'baseColorTexture'] },
+        { label: 'Dashes', pins: ['dashSize', 'gapSize', 'dashScale', 'dashOffset'] },
+        { label: 'Transparency', pins: ['opacity', 'alphaTest'] },
+      ],
+      spriteMaterial: [
+        { label: 'Base', pins: ['baseColor', 'baseColorTexture'] },
+        { label: 'Transform', pins: ['rotation', 'scale', 'sizeAttenuation'] },
+        { label: 'Transparency', pins: ['opacity', 'alphaTest'] },
+      ],
+    }),
+    [],
+  )
+
+  const inferType = useMemo(() => createTypeInference(functions), [functions])
+
+  const graphLintProblems = useMemo(
+    () => lintGraph({ nodes, connections, functions }),
+    [nodes, connections, functions],
+  )
+  const graphLintErrorCount = graphLintProblems.filter(
+    (problem) => problem.severity === 'error',
+  ).length
+
+  const focusGraphProblem = (problem: GraphProblem) => {
+    if (!problem.nodeId) return
+    const scopeNodes = problem.functionId ? functions[problem.functionId]?.nodes : nodes
+    const node = scopeNodes?.find((item) => item.id === problem.nodeId)
+    if (!node) return
+    setActiveFunctionId(problem.functionId ?? null)
+    setSelectedNodeIds([node.id])
+    const container = viewportRef.current
+    if (!container) return
+    const rect = container.getBoundingClientRect()
+    const viewState = viewRef.current
+    const width = nodeSizeRef.current[node.id]?.width ?? 200
+    const height = estimateNodeHeight(node)
+    const nextView = {
+      ...viewState,
+      x: rect.width / 2 - (node.x + width / 2) * viewState.zoom,
+      y: rect.height / 2 - (node.y + height / 2) * viewState.zoom,
+    }
+    viewRef.current = nextView
+    applyViewportTransform(nextView)
+    setView(nextView)
+  }
+
+  const addFunctionNode = (def: FunctionDefinition) => {
+    if (activeFunctionId && functionCallsFunction(functions, activeFunctionId, def.id)) {
+      setToast('A function cannot call itself')
+      return
     }
-    if (node.type === 'output') return 'color'
-    if (node.type === 'vertexOutput') return 'vec3'
-    if (node.type === 'functionInput' || node.type === 'functionOutput') {
-      const input = connectionMap.get(`${node.id}:value`)
-      if (!input) return 'unknown'
-      return inferType(input.from.nodeId, input.from.pin, nodeMap, connectionMap, stack)
+    setEditorNodes((prev) => [
+      ...prev,
+      {
+        id: `function-${Date.now()}-${prev.length}`,
+        type: 'function',
+        functionId: def.id,
+        label: def.name,
+        x: 40 + prev.length * 18,
+        y: 80 + prev.length * 18,
+        inputs: def.inputs.map((pin) => pin.name),
+        outputs: def.outputs.map((pin) => pin.name),
+      },
+    ])
+  }
+
+  const importLibraryFunction = (entry: LibraryFunction) => {
+    const functionId = getLinkedFunctionId(entry, functions)
+    const def = functions[functionId] ?? { ...linkLibraryFunction(entry), id: functionId }
+    if (!functions[functionId]) {
+      setFunctions((prev) => ({ ...prev, [functionId]: def }))
     }
-    if (node.type === 'geometryOutput') return 'geometry'
-    return 'unknown'
+    addFunctionNode(def)
   }
 
   const addNode = (type: string, label: string) => {
     if (type.startsWith('function:')) {
-      const functionId = type.slice('function:'.length)
-      const def = functions[functionId]
+      const def = functions[type.slice('function:'.length)]
       if (!def) {
         setToast('Function not found')
         return
       }
-      setEditorNodes((prev) => [
-        ...prev,
-        {
-          id: `function-${Date.now()}-${prev.length}`,
-          type: 'function',
-          functionId,
-          label: def.name,
-          x: 40 + prev.length * 18,
-          y: 80 + prev.length * 18,
-          inputs: def.inputs.map((pin) => pin.name),
-          outputs: def.outputs.map((pin) => pin.name),
-        },
-      ])
+      addFunctionNode(def)
+      return
+    }
+    if (type.startsWith(LIBRARY_PALETTE_PREFIX)) {
+      const entry = functionLibrary[type.slice(LIBRARY_PALETTE_PREFIX.length)]
+      if (!entry) {
+        setToast('Library function not found')
+        return
+      }
+      importLibraryFunction(entry)
       return
     }
     const template = palette.find((item) => item.type === type)
@@ -3566,6 +1776,9 @@ function App() {
         if (!db.objectStoreNames.contains('assets')) {
           db.createObjectStore('assets', { keyPath: 'id' })
         }
+        if (!db.objectStoreNames.contains('functionLibrary')) {
+          db.createObjectStore('functionLibrary', { keyPath: 'id' })
+        }
       }
       request.onsuccess = () => resolve(request.result)
       request.onerror = () => reject(request.error)
@@ -3618,18 +1831,29 @@ function App() {
       const db = await openDB()
       const tx = db.transaction(['graphs'], 'readonly')
       const graphs = tx.objectStore('graphs')
-      const keys = await new Promise<IDBValidKey[]>((resolve, reject) => {
-        const req = graphs.getAllKeys()
-        req.onsuccess = () => resolve(req.result ?? [])
-        req.onerror = () => reject(req.error)
-      })
+      const records = await new Promise<Array<{ id?: unknown; thumbnail?: unknown }>>(
+        (resolve, reject) => {
+          const req = graphs.getAll()
+          req.onsuccess = () => resolve(req.result ?? [])
+          req.onerror = () => reject(req.error)
+        },
+      )
       const slots = Array.from(
         new Set(
-          keys
-            .map((key) => (typeof key === 'string' ? key : ''))
+          records
+            .map((record) => (typeof record.id === 'string' ? record.id : ''))
             .filter(Boolean),
         ),
       ).sort((a, b) => a.localeCompare(b))
+      setStorageThumbnails(
+        Object.fromEntries(
+          records.flatMap((record) =>
+            typeof record.id === 'string' && typeof record.thumbnail === 'string'
+              ? [[record.id, record.thumbnail]]
+              : [],
+          ),
+        ),
+      )
       if (!slots.includes('default')) slots.unshift('default')
       if (storageSlot && !slots.includes(storageSlot)) slots.unshift(storageSlot)
       setStorageSlots(slots)
@@ -3660,7 +1884,12 @@ function App() {
       const tx = db.transaction(['graphs'], 'readwrite')
       const graphs = tx.objectStore('graphs')
       await new Promise((resolve, reject) => {
-        const putReq = graphs.put({ id: slotKey, ...record, version: graphSchemaVersion })
+        const putReq = graphs.put({
+          id: slotKey,
+          ...record,
+          thumbnail: createGraphThumbnail(record),
+          version: graphSchemaVersion,
+        })
         putReq.onsuccess = () => resolve(null)
         putReq.onerror = () => reject(putReq.error)
       })
@@ -3679,56 +1908,113 @@ function App() {
     }
   }
 
+  const refreshFunctionLibrary = async () => {
+    try {
+      const db = await openDB()
+      const tx = db.transaction(['functionLibrary'], 'readonly')
+      const entries = await new Promise<LibraryFunction[]>((resolve, reject) => {
+        const req = tx.objectStore('functionLibrary').getAll()
+        req.onsuccess = () => resolve(req.result ?? [])
+        req.onerror = () => reject(req.error)
+      })
+      const next = Object.fromEntries(entries.map((entry) => [entry.id, entry]))
+      functionLibraryRef.current = next
+      setFunctionLibrary(next)
+    } catch {
+      setToast('Function library unavailable')
+    }
+  }
+
+  const updateFunctionLibrary = async (change: { put?: LibraryFunction; delete?: string }) => {
+    const db = await openDB()
+    const tx = db.transaction(['functionLibrary'], 'readwrite')
+    const store = tx.objectStore('functionLibrary')
+    if (change.put) store.put(change.put)
+    if (change.delete) store.delete(change.delete)
+    await new Promise((resolve, reject) => {
+      tx.oncomplete = () => resolve(null)
+      tx.onerror = () => reject(tx.error)
+    })
+    await refreshFunctionLibrary()
+  }
+
+  const publishFunction = async (functionId: string) => {
+    const def = functions[functionId]
+    if (!def) return
+    const localCalls = getLocalFunctionCalls(def, functions)
+    if (localCalls.length) {
+      setToast(`Cannot publish "${def.name}": it calls local functions (${localCalls.join(', ')})`)
+      return
+    }
+    const entry = publishLibraryFunction(def, functionLibrary)
+    try {
+      await updateFunctionLibrary({ put: entry })
+      setFunctions((prev) =>
+        prev[functionId]
+          ? {
+              ...prev,
+              [functionId]: {
+                ...prev[functionId],
+                library: { id: entry.id, version: entry.version },
+              },
+            }
+          : prev,
+      )
+      setToast(`Published "${entry.name}" v${entry.version}`)
+    } catch {
+      setToast('Publish failed')
+    }
+  }
+
+  const deleteLibraryFunction = async (entry: LibraryFunction) => {
+    if (!window.confirm(`Delete "${entry.name}" from the function library?`)) return
+    try {
+      await updateFunctionLibrary({ delete: entry.id })
+      setToast(`Deleted "${entry.name}" from the library`)
+    } catch {
+      setToast('Delete failed')
+    }
+  }
+
+  const detachFunction = (functionId: string) => {
+    setFunctions((prev) =>
+      prev[functionId]
+        ? { ...prev, [functionId]: detachLibraryFunction(prev[functionId]) }
+        : prev,
+    )
+  }
+
+  const collectGraphBlobs = async (sourceNodes: GraphNode[]) => {
+    const payloads: GraphBlobPayload[] = []
+    for (const node of sourceNodes) {
+      const store = getNodeBlobStore(node)
+      const src = typeof node.value === 'string' ? node.value : ''
+      if (!store || !src) continue
+      const blob = await fetch(src).then((res) => res.blob())
+      const name = (store === 'textures' ? node.textureName : node.assetName) ?? ''
+      payloads.push({ id: node.id, store, blob, name })
+    }
+    return payloads
+  }
+
   const saveGraphWithSlot = async (
     slotKey: string,
     options?: { silent?: boolean },
   ) => {
     try {
-      const texturePayloads: Array<{ id: string; blob: Blob; name: string }> = []
-      const assetPayloads: Array<{ id: string; blob: Blob; name: string }> = []
-      for (const node of nodes) {
-        if (node.type !== 'texture') continue
-        const src = typeof node.value === 'string' ? node.value : ''
-        if (!src) continue
-        const blob = await fetch(src).then((res) => res.blob())
-        texturePayloads.push({ id: node.id, blob, name: node.textureName ?? '' })
-      }
-      for (const node of nodes) {
-        if (node.type !== 'gltf' && node.type !== 'gltfMaterial' && node.type !== 'gltfTexture') {
-          continue
-        }
-        const src = typeof node.value === 'string' ? node.value : ''
-        if (!src) continue
-        const blob = await fetch(src).then((res) => res.blob())
-        assetPayloads.push({ id: node.id, blob, name: node.assetName ?? '' })
-      }
+      const blobPayloads = await collectGraphBlobs(nodes)
 
       const payload = {
         id: slotKey,
         version: graphSchemaVersion,
-        nodes: nodes.map((node) => {
-          if (node.type === 'texture') {
-            return {
-              ...node,
-              value: '',
-              textureKey: node.id,
-            }
-          }
-          if (node.type === 'gltf' || node.type === 'gltfMaterial' || node.type === 'gltfTexture') {
-            return {
-              ...node,
-              value: '',
-              assetKey: node.id,
-            }
-          }
-          return node
-        }),
+        nodes: stripNodeBlobs(nodes),
         connections,
         groups,
         functions,
         ui: {
           paletteOpen,
         },
+        thumbnail: createGraphThumbnail({ nodes, connections, functions }),
       }
 
       const db = await openDB()
@@ -3740,19 +2026,9 @@ function App() {
       await clearSlotEntries(textures, slotKey)
       await clearSlotEntries(assets, slotKey)
 
-      for (const entry of texturePayloads) {
+      for (const { store, ...entry } of blobPayloads) {
         await new Promise((resolve, reject) => {
-          const putReq = textures.put({
-            ...entry,
-            id: buildSlotKey(slotKey, entry.id),
-          })
-          putReq.onsuccess = () => resolve(null)
-          putReq.onerror = () => reject(putReq.error)
-        })
-      }
-      for (const entry of assetPayloads) {
-        await new Promise((resolve, reject) => {
-          const putReq = assets.put({
+          const putReq = (store === 'textures' ? textures : assets).put({
             ...entry,
             id: buildSlotKey(slotKey, entry.id),
           })
@@ -3818,6 +2094,63 @@ function App() {
     }
   }
 
+  const applyGraphRecord = async (
+    record: {
+      nodes: GraphNode[]
+      connections: GraphConnection[]
+      groups: GraphGroup[]
+      functions: Record<string, FunctionDefinition>
+      ui: { paletteOpen?: Record<string, boolean> }
+      version: number
+    },
+    getBlob: (
+      store: GraphBlobStore,
+      key: string,
+    ) => Promise<{ blob?: Blob; name?: string } | null>,
+  ) => {
+    Object.values(objectUrlRef.current).forEach((url) => URL.revokeObjectURL(url))
+    objectUrlRef.current = {}
+
+    const hydratedNodes = await Promise.all(
+      record.nodes.map(async (node) => {
+        const store = getNodeBlobStore(node)
+        if (!store) return node
+        const entry = await getBlob(store, getNodeBlobKey(node))
+        const blob = entry?.blob ?? null
+        if (!blob) return { ...node, value: '' }
+        const url = URL.createObjectURL(blob)
+        objectUrlRef.current[node.id] = url
+        return store === 'textures'
+          ? {
+              ...node,
+              value: url,
+              textureName: entry?.name || node.textureName || 'Loaded texture',
+            }
+          : {
+              ...node,
+              value: url,
+              assetName: entry?.name || node.assetName || 'Loaded model',
+            }
+      }),
+    )
+    const sanitizedConnections = sanitizeConnections(record.connections, hydratedNodes)
+    const migrated = migrateGraph(hydratedNodes, sanitizedConnections, record.version)
+    const synced = syncFunctionNodePins(
+      migrated.nodes,
+      migrated.connections,
+      syncLinkedFunctions(record.functions, functionLibraryRef.current),
+    )
+    setNodes(synced.nodes)
+    setConnections(synced.connections)
+    setGroups(record.groups)
+    setFunctions(synced.functions)
+    setPaletteOpen({ ...paletteDefaults, ...(record.ui.paletteOpen ?? {}) })
+    setSelectedNodeIds([])
+    setTimeout(() => {
+      isHydratingRef.current = false
+    }, 0)
+  }
+
   const loadGraphWithSlot = async (
     slotKey: string,
     options?: { silent?: boolean },
@@ -3871,63 +2204,32 @@ function App() {
         return
       }
 
-      Object.values(objectUrlRef.current).forEach((url) => URL.revokeObjectURL(url))
-      objectUrlRef.current = {}
+      const problems = validateGraphDocument(record)
+      setLoadProblems(problems.length ? { title: `Slot "${slotKey}"`, problems } : null)
+      if (hasGraphErrors(problems)) {
+        if (!options?.silent) {
+          setToast(`Load failed: slot "${slotKey}" is invalid`)
+        }
+        isHydratingRef.current = false
+        return
+      }
 
-      const hydratedNodes = await Promise.all(
-        record.nodes.map(async (node) => {
-          if (node.type === 'texture') {
-            const key = node.textureKey ?? node.id
-            const record = await getSlotRecord<{ blob?: Blob; name?: string }>(
-              textures,
-              slotKey,
-              key,
-            )
-            const blob = record?.blob ?? null
-            if (!blob) return { ...node, value: '' }
-            const url = URL.createObjectURL(blob)
-            objectUrlRef.current[node.id] = url
-            return {
-              ...node,
-              value: url,
-              textureName: record?.name || node.textureName || 'Loaded texture',
-            }
-          }
-          if (node.type === 'gltf' || node.type === 'gltfMaterial' || node.type === 'gltfTexture') {
-            const key = node.assetKey ?? node.id
-            const record = await getSlotRecord<{ blob?: Blob; name?: string }>(
-              assets,
-              slotKey,
-              key,
-            )
-            const blob = record?.blob ?? null
-            if (!blob) return { ...node, value: '' }
-            const url = URL.createObjectURL(blob)
-            objectUrlRef.current[node.id] = url
-            return {
-              ...node,
-              value: url,
-              assetName: record?.name || node.assetName || 'Loaded model',
-            }
-          }
-          return node
-        }),
-      )
-      const sanitizedConnections = sanitizeConnections(record.connections, hydratedNodes)
-      const migrated = migrateGraph(
-        hydratedNodes,
-        sanitizedConnections,
-        record.version ?? 0,
+      await applyGraphRecord(
+        {
+          nodes: record.nodes,
+          connections: record.connections,
+          groups: record.groups ?? [],
+          functions: record.functions ?? {},
+          ui: record.ui ?? {},
+          version: record.version ?? 0,
+        },
+        (store, key) =>
+          getSlotRecord<{ blob?: Blob; name?: string }>(
+            store === 'textures' ? textures : assets,
+            slotKey,
+            key,
+          ),
       )
-      setNodes(migrated.nodes)
-      setConnections(migrated.connections)
-      setGroups(record.groups ?? [])
-      setFunctions(record.functions ?? {})
-      setPaletteOpen({ ...paletteDefaults, ...(record.ui?.paletteOpen ?? {}) })
-      setSelectedNodeIds([])
-      setTimeout(() => {
-        isHydratingRef.current = false
-      }, 0)
       if (!options?.silent) {
         setToast(`Loaded slot "${slotKey}"`)
       }
@@ -3940,6 +2242,101 @@ function App() {
     }
   }
 
+  const exportGraphFile = async (bundle: boolean) => {
+    try {
+      const blobs = bundle ? await encodeGraphBlobs(await collectGraphBlobs(nodes)) : undefined
+      const graphDocument = createGraphDocument({
+        nodes,
+        connections,
+        groups,
+        functions,
+        ui: { paletteOpen },
+        blobs,
+      })
+      const blob = new Blob([JSON.stringify(graphDocument, null, 2)], {
+        type: 'application/json',
+      })
+      const url = URL.createObjectURL(blob)
+      const link = document.createElement('a')
+      link.href = url
+      link.download = `${normalizeSlot(storageSlot)}${
+        bundle ? GRAPH_BUNDLE_EXTENSION : GRAPH_FILE_EXTENSION
+      }`
+      link.click()
+      URL.revokeObjectURL(url)
+      setToast(bundle ? 'Graph bundle exported' : 'Graph exported')
+    } catch {
+      setToast('Graph export failed')
+    }
+  }
+
+  const importGraphFile = async (file: File) => {
+    try {
+      const { document: graphDocument, problems } = readGraphFile(await file.text())
+      setLoadProblems(problems.length ? { title: `File "${file.name}"`, problems } : null)
+      if (!graphDocument) {
+        setToast(`Import failed: "${file.name}" is invalid`)
+        return
+      }
+      const blobs = new Map(
+        (graphDocument.blobs ?? []).map((entry) => [`${entry.store}:${entry.id}`, entry]),
+      )
+      setActiveFunctionId(null)
+      await applyGraphRecord(
+        { ...graphDocument, version: graphDocument.graphSchemaVersion },
+        async (store, key) => {
+          const entry = blobs.get(`${store}:${key}`)
+          return entry ? { blob: decodeGraphBlob(entry), name: entry.name } : null
+        },
+      )
+      setToast(`Imported "${file.name}"`)
+    } catch (error) {
+      setToast(error instanceof Error ? `Import failed: ${error.message}` : 'Import failed')
+    }
+  }
+
+  const loadEnvironmentFile = async (file: File) => {
+    const renderer = rendererRef.current
+    if (!renderer) {
+      setToast('Renderer is not ready')
+      return
+    }
+    if (!isEnvironmentFile(file.name)) {
+      setToast('Environment maps must be .hdr or .exr files')
+      return
+    }
+    try {
+      setEnvironmentMap(await loadEnvironmentMap(file, renderer))
+      setToast(`Loaded environment "${file.name}"`)
+    } catch (error) {
+      setToast(
+        error instanceof Error
+          ? `Environment load failed: ${error.message}`
+          : 'Environment load failed',
+      )
+    }
+  }
+
+  const updateGltfSceneMaterials = (nodeId: string, patch: Partial<GltfSceneMaterials>) =>
+    setEditorNodes((prev) =>
+      prev.map((item) =>
+        item.id === nodeId
+          ? { ...item, sceneMaterials: { ...getGltfSceneMaterials(item), ...patch } }
+          : item,
+      ),
+    )
+
+  const updatePreviewEnvironment = (patch: Partial<PreviewEnvironment>) =>
+    setPreviewEnvironment((prev) => ({ ...prev, ...patch }))
+
+  const updatePreviewLight = (index: number, patch: Partial<PreviewLight>) =>
+    setPreviewEnvironment((prev) => ({
+      ...prev,
+      lights: prev.lights.map((light, lightIndex) =>
+        lightIndex === index ? { ...light, ...patch } : light,
+      ),
+    }))
+
   useEffect(() => {
     const lastSlot = localStorage.getItem(lastSlotStorageKey)
     if (!lastSlot) return
@@ -3951,6 +2348,10 @@ function App() {
     localStorage.setItem(lastSlotStorageKey, storageSlot)
   }, [storageSlot, lastSlotStorageKey])
 
+  useEffect(() => {
+    localStorage.setItem(previewEnvironmentStorageKey, JSON.stringify(previewEnvironment))
+  }, [previewEnvironment, previewEnvironmentStorageKey])
+
   useEffect(() => {
     if (!storageSlot) return
     const previous = historySlotRef.current
@@ -3972,9 +2373,20 @@ function App() {
 
   useEffect(() => {
     if (!storageSlot) return
-    void loadGraphWithSlot(normalizeSlot(storageSlot), { silent: true })
+    void refreshFunctionLibrary().then(() =>
+      loadGraphWithSlot(normalizeSlot(storageSlot), { silent: true }),
+    )
   }, [storageSlot])
 
+  useEffect(() => {
+    const linked = syncLinkedFunctions(functions, functionLibrary)
+    if (linked === functions) return
+    const synced = syncFunctionNodePins(nodes, connections, linked)
+    setFunctions(synced.functions)
+    if (synced.nodes !== nodes) setNodes(synced.nodes)
+    if (synced.connections !== connections) setConnections(synced.connections)
+  }, [functionLibrary, functions, nodes, connections])
+
   useEffect(() => {
     if (isHydratingRef.current || isDraggingNodesRef.current) return
     if (autoSaveTimerRef.current) {
@@ -4308,10639 +2720,1085 @@ function App() {
     if (!selectedNodeIds.length) return
     setGroups((prev) =>
       prev.filter((group) => !group.nodeIds.some((id) => selectedNodeIds.includes(id))),
-    )
-  }
-
-  const removeFunctionsForNodeIds = (ids: string[]) => {
-    if (!ids.length) return
-    setFunctions((prev) => {
-      const next = { ...prev }
-      ids.forEach((id) => {
-        const node = nodes.find((item) => item.id === id)
-        if (node?.type === 'function' && node.functionId) {
-          delete next[node.functionId]
-        }
-      })
-      return next
-    })
-  }
-
-  const applyFunctionDefinitionChange = useCallback(
-    (
-      functionId: string,
-      nextDef: FunctionDefinition,
-      change?: { kind: 'input' | 'output'; renameMap?: Record<string, string>; removed?: Set<string> },
-    ) => {
-      setFunctions((prev) => {
-        if (!prev[functionId]) return prev
-        return { ...prev, [functionId]: nextDef }
-      })
-      const functionNodeIds = new Set(
-        nodes.filter(
-          (node) => node.type === 'function' && node.functionId === functionId,
-        ).map((node) => node.id),
-      )
-      setNodes((prev) =>
-        prev.map((node) =>
-          node.type === 'function' && node.functionId === functionId
-            ? {
-                ...node,
-                inputs: nextDef.inputs.map((pin) => pin.name),
-                outputs: nextDef.outputs.map((pin) => pin.name),
-              }
-            : node,
-        ),
-      )
-      if (!change || (!change.renameMap && !change.removed)) return
-      setConnections((prev) =>
-        prev.flatMap((connection) => {
-          if (change.kind === 'input' && functionNodeIds.has(connection.to.nodeId)) {
-            if (change.removed?.has(connection.to.pin)) return []
-            const renamed = change.renameMap?.[connection.to.pin]
-            if (renamed) {
-              return [
-                {
-                  ...connection,
-                  to: { ...connection.to, pin: renamed },
-                },
-              ]
-            }
-          }
-          if (change.kind === 'output' && functionNodeIds.has(connection.from.nodeId)) {
-            if (change.removed?.has(connection.from.pin)) return []
-            const renamed = change.renameMap?.[connection.from.pin]
-            if (renamed) {
-              return [
-                {
-                  ...connection,
-                  from: { ...connection.from, pin: renamed },
-                },
-              ]
-            }
-          }
-          return [connection]
-        }),
-      )
-    },
-    [nodes, setConnections, setFunctions, setNodes],
-  )
-
-  const renameFunctionPin = useCallback(
-    (kind: 'input' | 'output', index: number, nextName: string) => {
-      if (!activeFunctionId || !activeFunction) return false
-      const trimmed = nextName.trim()
-      if (!trimmed) {
-        setToast('Pin name cannot be empty')
-        return false
-      }
-      const pins = kind === 'input' ? activeFunction.inputs : activeFunction.outputs
-      const current = pins[index]
-      if (!current) return false
-      if (current.name === trimmed) return true
-      if (pins.some((pin, idx) => pin.name === trimmed && idx !== index)) {
-        setToast('Pin name already exists')
-        return false
-      }
-      const renameMap = { [current.name]: trimmed }
-      const nextPins = pins.map((pin, idx) =>
-        idx === index ? { ...pin, name: trimmed } : pin,
-      )
-      const nextNodes = activeFunction.nodes.map((node) =>
-        node.id === current.nodeId ? { ...node, label: trimmed } : node,
-      )
-      const nextDef: FunctionDefinition = {
-        ...activeFunction,
-        nodes: nextNodes,
-        inputs: kind === 'input' ? nextPins : activeFunction.inputs,
-        outputs: kind === 'output' ? nextPins : activeFunction.outputs,
-      }
-      applyFunctionDefinitionChange(activeFunctionId, nextDef, {
-        kind,
-        renameMap,
-      })
-      return true
-    },
-    [activeFunction, activeFunctionId, applyFunctionDefinitionChange],
-  )
-
-  const moveFunctionPin = useCallback(
-    (kind: 'input' | 'output', index: number, direction: -1 | 1) => {
-      if (!activeFunctionId || !activeFunction) return
-      const pins = kind === 'input' ? activeFunction.inputs : activeFunction.outputs
-      const nextIndex = index + direction
-      if (nextIndex < 0 || nextIndex >= pins.length) return
-      const nextPins = [...pins]
-      const [moved] = nextPins.splice(index, 1)
-      nextPins.splice(nextIndex, 0, moved)
-      const nextDef: FunctionDefinition = {
-        ...activeFunction,
-        inputs: kind === 'input' ? nextPins : activeFunction.inputs,
-        outputs: kind === 'output' ? nextPins : activeFunction.outputs,
-      }
-      applyFunctionDefinitionChange(activeFunctionId, nextDef)
-    },
-    [activeFunction, activeFunctionId, applyFunctionDefinitionChange],
-  )
-
-  const removeFunctionPin = useCallback(
-    (kind: 'input' | 'output', index: number) => {
-      if (!activeFunctionId || !activeFunction) return
-      const pins = kind === 'input' ? activeFunction.inputs : activeFunction.outputs
-      const target = pins[index]
-      if (!target) return
-      const removed = new Set([target.name])
-      const nextPins = pins.filter((_, idx) => idx !== index)
-      const nextNodes = activeFunction.nodes.filter((node) => node.id !== target.nodeId)
-      const nextConnections = activeFunction.connections.filter(
-        (connection) =>
-          connection.from.nodeId !== target.nodeId &&
-          connection.to.nodeId !== target.nodeId,
-      )
-      const nextDef: FunctionDefinition = {
-        ...activeFunction,
-        nodes: nextNodes,
-        connections: nextConnections,
-        inputs: kind === 'input' ? nextPins : activeFunction.inputs,
-        outputs: kind === 'output' ? nextPins : activeFunction.outputs,
-      }
-      applyFunctionDefinitionChange(activeFunctionId, nextDef, { kind, removed })
-    },
-    [activeFunction, activeFunctionId, applyFunctionDefinitionChange],
-  )
-
-  const isNodeInCollapsedGroup = (nodeId: string) =>
-    editorGroups.some((group) => group.collapsed && group.nodeIds.includes(nodeId))
-
-  useEffect(() => {
-    if (isFunctionEditing) {
-      setGroupBounds((prev) => (Object.keys(prev).length ? {} : prev))
-      return
-    }
-    const container = viewportRef.current
-    if (!container) return
-    const rafId = window.requestAnimationFrame(() => {
-      const rect = container.getBoundingClientRect()
-      const viewState = viewRef.current
-      const next: Record<string, { x: number; y: number }> = {}
-      let sizeMap = nodeSizeRef.current
-      const pins = container.querySelectorAll<HTMLElement>('[data-pin-key]')
-      pins.forEach((pin) => {
-        const pinRect = pin.getBoundingClientRect()
-        const key = pin.dataset.pinKey
-        if (!key) return
-        const screenX = pinRect.left - rect.left + pinRect.width / 2
-        const screenY = pinRect.top - rect.top + pinRect.height / 2
-        next[key] = {
-          x: (screenX - viewState.x) / viewState.zoom,
-          y: (screenY - viewState.y) / viewState.zoom,
-        }
-      })
-      const needsNodeSizeMeasure =
-        Object.keys(sizeMap).length !== editorNodes.length ||
-        editorNodes.some((node) => !sizeMap[node.id])
-      if (needsNodeSizeMeasure) {
-        const nextSizeMap: Record<string, { width: number; height: number }> = {}
-        const cards = container.querySelectorAll<HTMLElement>('.node-card[data-node-id]')
-        cards.forEach((card) => {
-          const id = card.dataset.nodeId
-          if (!id) return
-          const rect = card.getBoundingClientRect()
-          const width = card.offsetWidth || rect.width
-          const height = card.offsetHeight || rect.height
-          nextSizeMap[id] = {
-            width,
-            height,
-          }
-        })
-        sizeMap = nextSizeMap
-        nodeSizeRef.current = nextSizeMap
-      }
-      setPinPositions(next)
-      if (!isFunctionEditing && pendingExampleLayoutRef.current) {
-        pendingExampleLayoutRef.current = false
-        setEditorNodes((prev) => spreadNodesByColumn(prev))
-      }
-      if (!groups.length) {
-        setGroupBounds((prev) => (Object.keys(prev).length ? {} : prev))
-        return
-      }
-      const nodeMap = new Map(nodes.map((node) => [node.id, node]))
-      const fallbackSize = { width: 200, height: 160 }
-      const padding = 16
-      const nextBounds: Record<
-        string,
-        { x: number; y: number; width: number; height: number }
-      > = {}
-      groups.forEach((group) => {
-        const members = group.nodeIds
-          .map((id) => {
-            const node = nodeMap.get(id)
-            if (!node) return null
-            const size = sizeMap[id] ?? fallbackSize
-            return { x: node.x, y: node.y, width: size.width, height: size.height }
-          })
-          .filter(
-            (member): member is { x: number; y: number; width: number; height: number } =>
-              Boolean(member),
-          )
-        if (!members.length) return
-        let minX = Infinity
-        let minY = Infinity
-        let maxX = -Infinity
-        let maxY = -Infinity
-        members.forEach((member) => {
-          minX = Math.min(minX, member.x)
-          minY = Math.min(minY, member.y)
-          maxX = Math.max(maxX, member.x + member.width)
-          maxY = Math.max(maxY, member.y + member.height)
-        })
-        nextBounds[group.id] = {
-          x: minX - padding,
-          y: minY - padding,
-          width: maxX - minX + padding * 2,
-          height: maxY - minY + padding * 2,
-        }
-      })
-      setGroupBounds(nextBounds)
-    })
-    return () => window.cancelAnimationFrame(rafId)
-  }, [
-    nodes,
-    connections,
-    groups,
-    isFunctionEditing,
-    spreadNodesByColumn,
-  ])
-
-  const nodeIdSignature = useMemo(
-    () => nodes.map((node) => node.id).join('|'),
-    [nodes],
-  )
-
-  const uniformInputSignature = useMemo(
-    () =>
-      JSON.stringify(
-        nodes
-          .filter((node) => node.type === 'number' || node.type === 'color')
-          .map((node) => ({
-            id: node.id,
-            type: node.type,
-            value: node.value ?? '',
-          })),
-      ),
-    [nodes],
-  )
-
-  const textureSourceSignature = useMemo(
-    () =>
-      JSON.stringify(
-        nodes
-          .filter((node) => node.type === 'texture')
-          .map((node) => ({
-            id: node.id,
-            src: typeof node.value === 'string' ? node.value : '',
-          })),
-      ),
-    [nodes],
-  )
-
-  const gltfSourceSignature = useMemo(
-    () =>
-      JSON.stringify(
-        nodes
-          .filter(
-            (node) =>
-              node.type === 'gltf' ||
-              node.type === 'gltfMaterial' ||
-              node.type === 'gltfTexture',
-          )
-          .map((node) => ({
-            id: node.id,
-            type: node.type,
-            src: typeof node.value === 'string' ? node.value : '',
-          })),
-      ),
-    [nodes],
-  )
-
-  useEffect(() => {
-    nodesRef.current = editorNodes
-    connectionsRef.current = editorConnections
-  }, [editorNodes, editorConnections])
-
-  useEffect(() => {
-    const nodeIds = new Set(nodes.map((node) => node.id))
-    setGroups((prev) => {
-      const next = prev
-        .map((group) => ({
-          ...group,
-          nodeIds: group.nodeIds.filter((id) => nodeIds.has(id)),
-        }))
-        .filter((group) => group.nodeIds.length > 0)
-      const same =
-        next.length === prev.length &&
-        next.every((group, index) => {
-          const current = prev[index]
-          if (!current) return false
-          if (
-            group.id !== current.id ||
-            group.label !== current.label ||
-            Boolean(group.collapsed) !== Boolean(current.collapsed)
-          ) {
-            return false
-          }
-          if (group.nodeIds.length !== current.nodeIds.length) return false
-          return group.nodeIds.every((id, idx) => id === current.nodeIds[idx])
-        })
-      return same ? prev : next
-    })
-  }, [nodeIdSignature])
-
-  useEffect(() => {
-    viewRef.current = view
-  }, [view])
-
-  useEffect(() => {
-    const needsMigration = nodes.some(
-      (node) =>
-      (node.type === 'material' && node.inputs.length < 18) ||
-      (node.type === 'material' && node.inputs.includes('color')) ||
-      (node.type === 'material' && node.label !== 'StandardMaterial') ||
-      (node.type === 'output' && node.inputs.includes('color')) ||
-      (node.type === 'physicalMaterial' && node.inputs.length < 21) ||
-      (node.type === 'basicMaterial' && node.inputs.length < 11),
-    )
-    if (!needsMigration) return
-    setNodes((prev) =>
-      prev.map((node) => {
-        if (node.type === 'material') {
-          return {
-            ...node,
-            label: 'StandardMaterial',
-            inputs: [
-              'baseColor',
-              'baseColorTexture',
-              'roughness',
-              'roughnessMap',
-              'metalness',
-              'metalnessMap',
-              'emissive',
-              'emissiveMap',
-              'emissiveIntensity',
-              'normalMap',
-              'normalScale',
-              'aoMap',
-              'aoMapIntensity',
-              'envMap',
-              'envMapIntensity',
-              'opacity',
-              'alphaTest',
-              'alphaHash',
-            ],
-          }
-        }
-        if (node.type === 'physicalMaterial') {
-          return {
-            ...node,
-            inputs: [
-              'baseColor',
-              'baseColorTexture',
-              'roughness',
-              'roughnessMap',
-              'metalness',
-              'metalnessMap',
-              'emissive',
-              'emissiveMap',
-              'emissiveIntensity',
-              'normalMap',
-              'normalScale',
-              'clearcoat',
-              'clearcoatRoughness',
-              'clearcoatNormal',
-              'aoMap',
-              'aoMapIntensity',
-              'envMap',
-              'envMapIntensity',
-              'opacity',
-              'alphaTest',
-              'alphaHash',
-            ],
-          }
-        }
-        if (node.type === 'output' && node.inputs.includes('color')) {
-          return { ...node, inputs: ['baseColor', 'roughness', 'metalness'] }
-        }
-        if (node.type === 'output' && node.label === 'Output') {
-          return { ...node, label: 'Fragment Output' }
-        }
-        if (node.type === 'vertexOutput' && node.inputs.includes('offset')) {
-          return { ...node, inputs: ['position'] }
-        }
-        if (node.type === 'basicMaterial') {
-          return {
-            ...node,
-            inputs: [
-              'baseColor',
-              'baseColorTexture',
-              'opacity',
-              'alphaTest',
-              'alphaHash',
-              'map',
-              'alphaMap',
-              'aoMap',
-              'envMap',
-              'envMapIntensity',
-              'reflectivity',
-            ],
-          }
-        }
-        return node
-      }),
-    )
-    setConnections((prev) =>
-      prev.map((connection) =>
-        connection.to.pin === 'color'
-          ? { ...connection, to: { ...connection.to, pin: 'baseColor' } }
-          : connection.to.pin === 'offset'
-            ? { ...connection, to: { ...connection.to, pin: 'position' } }
-            : connection,
-      ),
-    )
-  }, [nodes])
-
-  useEffect(() => {
-    if (!toast) return
-    const timer = window.setTimeout(() => {
-      setToast(null)
-    }, 1800)
-    return () => window.clearTimeout(timer)
-  }, [toast])
-
-  const undo = useCallback(() => {
-    const history = historyRef.current
-    if (!history.last || history.past.length === 0) return
-    if (historyTimerRef.current) {
-      window.clearTimeout(historyTimerRef.current)
-      historyTimerRef.current = null
-    }
-    historyPendingRef.current = null
-    const previous = history.past.pop()
-    if (!previous) return
-    history.future.push(history.last)
-    history.last = previous
-    history.lastSig = JSON.stringify(previous)
-    historySkipRef.current = true
-    setNodes(previous.nodes)
-    setConnections(previous.connections)
-    setGroups(previous.groups)
-    setFunctions(previous.functions)
-    setHistoryTick((prev) => prev + 1)
-  }, [])
-
-  const redo = useCallback(() => {
-    const history = historyRef.current
-    if (!history.last || history.future.length === 0) return
-    if (historyTimerRef.current) {
-      window.clearTimeout(historyTimerRef.current)
-      historyTimerRef.current = null
-    }
-    historyPendingRef.current = null
-    const next = history.future.pop()
-    if (!next) return
-    history.past.push(history.last)
-    history.last = next
-    history.lastSig = JSON.stringify(next)
-    historySkipRef.current = true
-    setNodes(next.nodes)
-    setConnections(next.connections)
-    setGroups(next.groups)
-    setFunctions(next.functions)
-    setHistoryTick((prev) => prev + 1)
-  }, [])
-
-  useEffect(() => {
-    if (!historyRecordingEnabled) return
-    if (isDraggingNodesRef.current) return
-    const snapshot = { nodes, connections, groups, functions }
-    const signature = JSON.stringify(snapshot)
-    const history = historyRef.current
-    if (historySkipRef.current) {
-      historySkipRef.current = false
-      history.last = snapshot
-      history.lastSig = signature
-      historyPendingRef.current = null
-      return
-    }
-    if (!history.lastSig) {
-      history.last = snapshot
-      history.lastSig = signature
-      return
-    }
-    if (history.lastSig === signature) return
-    historyPendingRef.current = snapshot
-    if (historyTimerRef.current) {
-      window.clearTimeout(historyTimerRef.current)
-    }
-    historyTimerRef.current = window.setTimeout(() => {
-      const pending = historyPendingRef.current
-      if (!pending) return
-      const pendingSig = JSON.stringify(pending)
-      const history = historyRef.current
-      if (history.lastSig === pendingSig) return
-      if (history.last) {
-        history.past.push(history.last)
-      }
-      if (history.past.length > 100) {
-        history.past.shift()
-      }
-      history.future = []
-      history.last = pending
-      history.lastSig = pendingSig
-      historyPendingRef.current = null
-      setHistoryTick((prev) => prev + 1)
-    }, 200)
-    return () => {
-      if (historyTimerRef.current) {
-        window.clearTimeout(historyTimerRef.current)
-        historyTimerRef.current = null
-      }
-    }
-  }, [nodes, connections, groups, functions, historyRecordingEnabled])
-
-  useEffect(() => {
-  const handleKeyDown = (event: KeyboardEvent) => {
-      const target = event.target as HTMLElement | null
-      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA')) {
-        return
-      }
-      const key = event.key.toLowerCase()
-      const isMod = event.metaKey || event.ctrlKey
-      if (isMod && key === 'z' && !event.shiftKey) {
-        event.preventDefault()
-        undo()
-        return
-      }
-      if ((isMod && key === 'y') || (isMod && event.shiftKey && key === 'z')) {
-        event.preventDefault()
-        redo()
-        return
-      }
-      if (!selectedNodeIds.length) return
-      if (event.key === 'Backspace' || event.key === 'Delete') {
-        event.preventDefault()
-        if (!isFunctionEditing) {
-          removeFunctionsForNodeIds(selectedNodeIds)
-        }
-        setEditorNodes((prev) => prev.filter((node) => !selectedNodeIds.includes(node.id)))
-        setEditorConnections((prev) =>
-          prev.filter(
-            (connection) =>
-              !selectedNodeIds.includes(connection.from.nodeId) &&
-              !selectedNodeIds.includes(connection.to.nodeId),
-          ),
-        )
-        if (!isFunctionEditing) {
-          setGroups((prev) =>
-            prev
-              .map((group) => ({
-                ...group,
-                nodeIds: group.nodeIds.filter((id) => !selectedNodeIds.includes(id)),
-              }))
-              .filter((group) => group.nodeIds.length > 0),
-          )
-        }
-        setSelectedNodeIds([])
-      }
-    }
-
-    window.addEventListener('keydown', handleKeyDown)
-    return () => window.removeEventListener('keydown', handleKeyDown)
-  }, [redo, selectedNodeIds, undo, isFunctionEditing, setEditorConnections, setEditorNodes])
-
-  const parseNumber = (value: number | string | undefined) => {
-    if (typeof value === 'number') return value
-    if (typeof value === 'string') {
-      const trimmed = value.trim()
-      if (!trimmed) return 0
-      const parsed = Number(trimmed)
-      return Number.isFinite(parsed) ? parsed : 0
-    }
-    return 0
-  }
-
-  const numberUpdateModes: { value: UniformUpdateMode; label: string }[] = [
-    { value: 'manual', label: 'Manual' },
-    { value: 'frame', label: 'Frame' },
-    { value: 'object', label: 'Object' },
-    { value: 'render', label: 'Render' },
-  ]
-
-  const numberUpdateSources: Record<
-    UniformUpdateMode,
-    { value: UniformUpdateSource; label: string }[]
-  > = {
-    manual: [{ value: 'value', label: 'Value' }],
-    frame: [{ value: 'time', label: 'Time (seconds)' }],
-    object: [
-      { value: 'objectPositionX', label: 'Object Position X' },
-      { value: 'objectPositionY', label: 'Object Position Y' },
-      { value: 'objectPositionZ', label: 'Object Position Z' },
-      { value: 'objectRotationX', label: 'Object Rotation X' },
-      { value: 'objectRotationY', label: 'Object Rotation Y' },
-      { value: 'objectRotationZ', label: 'Object Rotation Z' },
-      { value: 'objectScaleX', label: 'Object Scale X' },
-      { value: 'objectScaleY', label: 'Object Scale Y' },
-      { value: 'objectScaleZ', label: 'Object Scale Z' },
-    ],
-    render: [
-      { value: 'cameraPositionX', label: 'Camera Position X' },
-      { value: 'cameraPositionY', label: 'Camera Position Y' },
-      { value: 'cameraPositionZ', label: 'Camera Position Z' },
-    ],
-  }
-
-  const getNumberUpdateMode = (node: GraphNode): UniformUpdateMode => {
-    const mode = node.updateMode
-    return numberUpdateModes.some((entry) => entry.value === mode)
-      ? (mode as UniformUpdateMode)
-      : 'manual'
-  }
-
-  const getDefaultNumberUpdateSource = (mode: UniformUpdateMode): UniformUpdateSource =>
-    numberUpdateSources[mode]?.[0]?.value ?? 'value'
-
-  const getNumberUpdateSource = (
-    node: GraphNode,
-    mode: UniformUpdateMode,
-  ): UniformUpdateSource => {
-    const source = node.updateSource
-    const options = numberUpdateSources[mode] ?? numberUpdateSources.manual
-    return options.some((entry) => entry.value === source)
-      ? (source as UniformUpdateSource)
-      : getDefaultNumberUpdateSource(mode)
-  }
-
-  const getObjectUpdateValue = (
-    object:
-      | {
-          position?: { x: number; y: number; z: number }
-          rotation?: { x: number; y: number; z: number }
-          scale?: { x: number; y: number; z: number }
-        }
-      | null
-      | undefined,
-    source: UniformUpdateSource,
-  ) => {
-    if (!object) return 0
-    switch (source) {
-      case 'objectPositionX':
-        return object.position?.x ?? 0
-      case 'objectPositionY':
-        return object.position?.y ?? 0
-      case 'objectPositionZ':
-        return object.position?.z ?? 0
-      case 'objectRotationX':
-        return object.rotation?.x ?? 0
-      case 'objectRotationY':
-        return object.rotation?.y ?? 0
-      case 'objectRotationZ':
-        return object.rotation?.z ?? 0
-      case 'objectScaleX':
-        return object.scale?.x ?? 0
-      case 'objectScaleY':
-        return object.scale?.y ?? 0
-      case 'objectScaleZ':
-        return object.scale?.z ?? 0
-      default:
-        return 0
-    }
-  }
-
-  const getCameraUpdateValue = (
-    camera:
-      | {
-          position?: { x: number; y: number; z: number }
-        }
-      | null
-      | undefined,
-    source: UniformUpdateSource,
-  ) => {
-    if (!camera) return 0
-    switch (source) {
-      case 'cameraPositionX':
-        return camera.position?.x ?? 0
-      case 'cameraPositionY':
-        return camera.position?.y ?? 0
-      case 'cameraPositionZ':
-        return camera.position?.z ?? 0
-      default:
-        return 0
-    }
-  }
-
-  const getObjectUpdateExpr = (source: UniformUpdateSource) => {
-    switch (source) {
-      case 'objectPositionX':
-        return 'object.position.x'
-      case 'objectPositionY':
-        return 'object.position.y'
-      case 'objectPositionZ':
-        return 'object.position.z'
-      case 'objectRotationX':
-        return 'object.rotation.x'
-      case 'objectRotationY':
-        return 'object.rotation.y'
-      case 'objectRotationZ':
-        return 'object.rotation.z'
-      case 'objectScaleX':
-        return 'object.scale.x'
-      case 'objectScaleY':
-        return 'object.scale.y'
-      case 'objectScaleZ':
-        return 'object.scale.z'
-      default:
-        return '0'
-    }
-  }
-
-  const getCameraUpdateExpr = (source: UniformUpdateSource) => {
-    switch (source) {
-      case 'cameraPositionX':
-        return 'camera.position.x'
-      case 'cameraPositionY':
-        return 'camera.position.y'
-      case 'cameraPositionZ':
-        return 'camera.position.z'
-      default:
-        return '0'
-    }
-  }
-
-  const appendNumberUniformUpdate = (
-    decls: string[],
-    uniformName: string,
-    node: GraphNode,
-  ) => {
-    const mode = getNumberUpdateMode(node)
-    if (mode === 'manual') return
-    const source = getNumberUpdateSource(node, mode)
-    if (mode === 'frame') {
-      decls.push(`${uniformName}.onFrameUpdate(() => performance.now() / 1000);`)
-      return
-    }
-    if (mode === 'object') {
-      const expr = getObjectUpdateExpr(source)
-      decls.push(
-        `${uniformName}.onObjectUpdate(({ object }) => (object ? ${expr} : 0));`,
-      )
-      return
-    }
-    if (mode === 'render') {
-      const expr = getCameraUpdateExpr(source)
-      decls.push(
-        `${uniformName}.onRenderUpdate(({ camera }) => (camera ? ${expr} : 0));`,
-      )
-    }
-  }
-
-  type ValueKind =
-    | 'number'
-    | 'color'
-    | 'vec2'
-    | 'vec3'
-    | 'vec4'
-    | 'mat2'
-    | 'mat3'
-    | 'mat4'
-    | 'unknown'
-
-  const isVectorKind = (kind: string) =>
-    kind === 'color' || kind === 'vec2' || kind === 'vec3' || kind === 'vec4'
-
-  const isMatrixKind = (kind: string) =>
-    kind === 'mat2' || kind === 'mat3' || kind === 'mat4'
-
-  const getVectorKind = (kind: string): 'vec2' | 'vec3' | 'vec4' | null => {
-    if (kind === 'vec2') return 'vec2'
-    if (kind === 'vec3' || kind === 'color') return 'vec3'
-    if (kind === 'vec4') return 'vec4'
-    return null
-  }
-
-  const resolveVectorOutputKind = (kinds: string[]): ValueKind => {
-    if (kinds.some((kind) => isMatrixKind(kind))) return 'unknown'
-    let vectorKind: 'vec2' | 'vec3' | 'vec4' | null = null
-    let hasColor = false
-    let hasNonColorVec3 = false
-    for (const rawKind of kinds) {
-      const kind = normalizeKind(rawKind)
-      if (kind === 'color') {
-        hasColor = true
-      } else if (kind === 'vec3') {
-        hasNonColorVec3 = true
-      }
-      const mapped = getVectorKind(kind)
-      if (!mapped) continue
-      if (!vectorKind) {
-        vectorKind = mapped
-      } else if (vectorKind !== mapped) {
-        return 'unknown'
-      }
-    }
-    if (hasColor && hasNonColorVec3) return 'unknown'
-    if (!vectorKind) return 'number'
-    if (hasColor && vectorKind === 'vec3') return 'color'
-    return vectorKind
-  }
-
-  const isAssignableType = (actual: string, expected: string) => {
-    if (expected === 'any') return true
-    if (expected === 'vector') return isVectorKind(actual)
-    if (expected === 'vector3') return actual === 'vec3' || actual === 'color'
-    if (expected === 'matrix') return isMatrixKind(actual)
-    if (expected === 'mat2' && actual === 'mat2') return true
-    if (expected === 'mat3' && actual === 'mat3') return true
-    if (expected === 'mat4' && actual === 'mat4') return true
-    if (actual === 'unknown') return true
-    if (actual === expected) return true
-    if (
-      actual === 'number' &&
-      (expected === 'color' ||
-        expected === 'vec2' ||
-        expected === 'vec3' ||
-        expected === 'vec4')
-    ) {
-      return true
-    }
-    return false
-  }
-
-  const normalizeKind = (value: string): ValueKind => {
-    if (
-      value === 'number' ||
-      value === 'color' ||
-      value === 'vec2' ||
-      value === 'vec3' ||
-      value === 'vec4' ||
-      value === 'mat2' ||
-      value === 'mat3' ||
-      value === 'mat4' ||
-      value === 'unknown'
-    ) {
-      return value
-    }
-    return 'unknown'
-  }
-
-  const combineTypes = (left: string, right: string): ValueKind => {
-    const leftKind = normalizeKind(left)
-    const rightKind = normalizeKind(right)
-    if (isMatrixKind(leftKind) || isMatrixKind(rightKind)) return 'unknown'
-    if (leftKind === 'unknown' || rightKind === 'unknown') return 'unknown'
-    if (leftKind === 'number') return rightKind
-    if (rightKind === 'number') return leftKind
-    if (leftKind === rightKind) return leftKind
-    return 'unknown'
-  }
-
-  const graphSignature = useMemo(() => {
-    const nodeShape = nodes.map((node) => ({
-      id: node.id,
-      type: node.type,
-      inputs: node.inputs,
-      outputs: node.outputs,
-      meshIndex: node.type === 'gltf' ? node.meshIndex ?? '' : undefined,
-      materialIndex: node.type === 'gltfMaterial' ? node.materialIndex ?? '' : undefined,
-      textureIndex: node.type === 'gltfTexture' ? node.textureIndex ?? '' : undefined,
-      functionId: node.type === 'function' ? node.functionId ?? '' : undefined,
-    }))
-    const linkShape = connections.map((connection) => ({
-      from: connection.from,
-      to: connection.to,
-    }))
-    const functionShape = Object.values(functions).map((fn) => ({
-      id: fn.id,
-      name: fn.name,
-      nodes: fn.nodes.map((node) => ({
-        id: node.id,
-        type: node.type,
-        inputs: node.inputs,
-        outputs: node.outputs,
-      })),
-      connections: fn.connections.map((connection) => ({
-        from: connection.from,
-        to: connection.to,
-      })),
-      inputs: fn.inputs,
-      outputs: fn.outputs,
-    }))
-    return JSON.stringify({ nodeShape, linkShape, gltfVersion, functionShape })
-  }, [nodes, connections, gltfVersion, functions])
-
-  const graphComputeSignature = useMemo(() => {
-    const normalizedNodes = nodes.map((node) => {
-      const { x: _x, y: _y, ...rest } = node
-      return rest
-    })
-    const normalizedFunctions = Object.values(functions).map((fn) => ({
-      ...fn,
-      nodes: fn.nodes.map((node) => {
-        const { x: _x, y: _y, ...rest } = node
-        return rest
-      }),
-    }))
-    return JSON.stringify({
-      nodes: normalizedNodes,
-      connections,
-      functions: normalizedFunctions,
-      gltfVersion,
-      textureVersion,
-    })
-  }, [nodes, connections, functions, gltfVersion, textureVersion])
-
-  const geometrySignature = useMemo(() => {
-    const expanded = expandFunctions(nodes, connections, functions)
-    const geometryNodes = expanded.nodes
-      .filter(
-        (node) =>
-          node.type === 'geometryPrimitive' ||
-          node.type === 'geometryOutput' ||
-          node.type === 'gltf' ||
-          node.type === 'gltfMaterial' ||
-          node.type === 'gltfTexture',
-      )
-      .map((node) => ({
-        id: node.id,
-        type: node.type,
-        value: node.value ?? '',
-        meshIndex: node.meshIndex ?? '',
-        materialIndex: node.materialIndex ?? '',
-        textureIndex: node.textureIndex ?? '',
-      }))
-    const geometryLinks = expanded.connections.filter(
-      (connection) => connection.to.pin === 'geometry',
-    )
-    return JSON.stringify({ geometryNodes, geometryLinks, version: gltfVersion })
-  }, [nodes, connections, functions, gltfVersion])
-
-  const textureSignature = useMemo(() => {
-    const expanded = expandFunctions(nodes, connections, functions)
-    const textures = expanded.nodes
-      .filter((node) => node.type === 'texture')
-      .map((node) => ({ id: node.id, value: node.value ?? '' }))
-    return JSON.stringify({ textures, version: textureVersion })
-  }, [nodes, connections, functions, textureVersion])
-
-  const editorGraphSignature = useMemo(() => {
-    const normalizedNodes = editorNodes.map((node) => {
-      const { x: _x, y: _y, ...rest } = node
-      return rest
-    })
-    return JSON.stringify({ nodes: normalizedNodes, connections: editorConnections })
-  }, [editorNodes, editorConnections])
-
-  const applyNumberUniformUpdate = (
-    uniformNode: ReturnType<typeof uniform>,
-    mode: UniformUpdateMode,
-    source: UniformUpdateSource,
-  ) => {
-    if (mode === 'frame') {
-      uniformNode.onFrameUpdate(() => performance.now() / 1000)
-      return
-    }
-    if (mode === 'object') {
-      uniformNode.onObjectUpdate(({ object }) => getObjectUpdateValue(object, source))
-      return
-    }
-    if (mode === 'render') {
-      uniformNode.onRenderUpdate(({ camera }) => getCameraUpdateValue(camera, source))
-    }
-  }
-
-  const ensureNumberUniform = (node: GraphNode, value: number) => {
-    const mode = getNumberUpdateMode(node)
-    const source = getNumberUpdateSource(node, mode)
-    let entry = nodeUniformsRef.current[node.id]
-    if (!entry || entry.kind !== 'number' || entry.mode !== mode || entry.source !== source) {
-      const uniformNode = uniform(value)
-      if (mode !== 'manual') {
-        applyNumberUniformUpdate(uniformNode, mode, source)
-      }
-      entry = { uniform: uniformNode, mode, source, kind: 'number' }
-      nodeUniformsRef.current[node.id] = entry
-    }
-    if (mode === 'manual') {
-      entry.uniform.value = value
-    }
-    return entry.uniform
-  }
-
-  const ensureColorUniform = (node: GraphNode, value: string) => {
-    let entry = nodeUniformsRef.current[node.id]
-    if (!entry || entry.kind !== 'color') {
-      const uniformNode = uniform(new Color(value))
-      entry = { uniform: uniformNode, mode: 'manual', source: 'value', kind: 'color' }
-      nodeUniformsRef.current[node.id] = entry
-    }
-    if (entry.uniform.value instanceof Color) {
-      entry.uniform.value.set(value)
-    }
-    return entry.uniform
-  }
-
-  const buildGraph = () => {
-    const expanded = expandFunctions(nodes, connections, functions)
-    const nodeMap = buildNodeMap(expanded.nodes)
-    const connectionMap = buildConnectionMap(expanded.connections)
-    const graphNodes = expanded.nodes
-
-    const fallbackColor = FALLBACK_COLOR_HEX
-
-    const resolveNode = (
-      nodeId: string,
-      stack: Set<string>,
-      outputPin?: string,
-    ): TslNodeResult => {
-      if (stack.has(nodeId)) {
-        return { node: float(0), kind: 'number' }
-      }
-      stack.add(nodeId)
-      const node = nodeMap.get(nodeId)
-      if (!node) {
-        stack.delete(nodeId)
-        return { node: float(0), kind: 'number' }
-      }
-
-      if (node.type === 'number') {
-        const value = parseNumber(node.value)
-        stack.delete(nodeId)
-        return { node: ensureNumberUniform(node, value), kind: 'number' }
-      }
-      if (node.type === 'time') {
-        stack.delete(nodeId)
-        return { node: timeUniformRef.current, kind: 'number' }
-      }
-      const attributeNode = getAttributeNodeValue(node.type)
-      if (attributeNode) {
-        stack.delete(nodeId)
-        return attributeNode
-      }
-
-      if (node.type === 'color') {
-        const value = typeof node.value === 'string' ? node.value : DEFAULT_COLOR
-        stack.delete(nodeId)
-        return { node: ensureColorUniform(node, value), kind: 'color' }
-      }
-      if (node.type === 'texture') {
-        const entry = textureMapRef.current[node.id]
-        const nodeTexture = entry?.texture
-        const nodeValue = nodeTexture
-          ? texture(uniformTexture(nodeTexture), uv())
-          : color(FALLBACK_COLOR)
-        stack.delete(nodeId)
-        return { node: nodeValue, kind: 'color' }
-      }
-      if (node.type === 'gltfTexture') {
-        const entry = gltfMapRef.current[node.id]
-        const textureCount = entry?.textures.length ?? 0
-        const tex = textureCount
-          ? entry?.textures[getTextureIndex(node, textureCount)]
-          : null
-        const nodeValue = tex ? texture(uniformTexture(tex), uv()) : color(FALLBACK_COLOR)
-        stack.delete(nodeId)
-        return { node: nodeValue, kind: 'color' }
-      }
-
-      const getInput = (pin: string) => {
-        const connection = connectionMap.get(`${node.id}:${pin}`)
-        if (!connection) {
-          return null
-        }
-        return resolveNode(connection.from.nodeId, stack, connection.from.pin)
-      }
-      if (node.type === 'functionInput' || node.type === 'functionOutput') {
-        const input = getInput('value')
-        stack.delete(nodeId)
-        return input ?? { node: float(0), kind: 'number' }
-      }
-      const toVectorNode = (
-        entry: ReturnType<typeof getInput>,
-        kind: 'color' | 'vec2' | 'vec3' | 'vec4',
-      ) => {
-        if (entry?.kind === kind) return entry.node
-        if (entry?.kind === 'number') {
-          if (kind === 'color') return color(entry.node)
-          if (kind === 'vec2') return vec2(entry.node, entry.node)
-          if (kind === 'vec3') return vec3(entry.node, entry.node, entry.node)
-          return vec4(entry.node, entry.node, entry.node, entry.node)
-        }
-        if (kind === 'color') return color(0)
-        if (kind === 'vec2') return vec2(0, 0)
-        if (kind === 'vec3') return vec3(0, 0, 0)
-        return vec4(0, 0, 0, 1)
-      }
-      const toVec2Node = (entry: ReturnType<typeof getInput> | null) => {
-        if (entry?.kind === 'vec2') return entry.node
-        if (entry?.kind === 'vec3' || entry?.kind === 'color') {
-          return vec2(entry.node.x, entry.node.y)
-        }
-        if (entry?.kind === 'vec4') {
-          return vec2(entry.node.x, entry.node.y)
-        }
-        if (entry?.kind === 'number') return vec2(entry.node, entry.node)
-        return vec2(0, 0)
-      }
-      const toVec3Node = (entry: ReturnType<typeof getInput> | null) => {
-        if (entry?.kind === 'vec3' || entry?.kind === 'color') return entry.node
-        if (entry?.kind === 'vec2') return vec3(entry.node.x, entry.node.y, float(0))
-        if (entry?.kind === 'vec4') return vec3(entry.node.x, entry.node.y, entry.node.z)
-        if (entry?.kind === 'number') {
-          return vec3(entry.node, entry.node, entry.node)
-        }
-        return vec3(0, 0, 0)
-      }
-      const toVec4Node = (entry: ReturnType<typeof getInput> | null) => {
-        if (entry?.kind === 'vec4') return entry.node
-        if (entry?.kind === 'vec3' || entry?.kind === 'color') {
-          return vec4(entry.node.x, entry.node.y, entry.node.z, float(1))
-        }
-        if (entry?.kind === 'vec2') {
-          return vec4(entry.node.x, entry.node.y, float(0), float(1))
-        }
-        if (entry?.kind === 'number') {
-          return vec4(entry.node, entry.node, entry.node, entry.node)
-        }
-        return vec4(0, 0, 0, 1)
-      }
-      const resolveColorSource = (entry: ReturnType<typeof getInput> | null) =>
-        entry ? toVec3Node(entry) : color(0)
-      const wrapColorResult = (
-        result: ReturnType<typeof vec3> | ReturnType<typeof color>,
-        entry: ReturnType<typeof getInput> | null,
-      ) => {
-        const kind: ExprKind = entry?.kind === 'color' || !entry ? 'color' : 'vec3'
-        return { node: kind === 'color' ? color(result) : result, kind }
-      }
-
-      if (node.type === 'add' || node.type === 'multiply') {
-        const left =
-          getInput('a') ??
-          ({
-            node: node.type === 'add' ? float(0) : float(1),
-            kind: 'number' as const,
-          })
-        const right =
-          getInput('b') ??
-          ({
-            node: node.type === 'add' ? float(0) : float(1),
-            kind: 'number' as const,
-          })
-        const combined = combineTypes(left.kind, right.kind)
-        const toKindNode = (
-          entry: typeof left,
-          kind: 'number' | 'color' | 'vec2' | 'vec3' | 'vec4',
-        ) => {
-          if (entry.kind === kind) return entry.node
-          if (entry.kind === 'number') {
-            if (kind === 'color') return color(entry.node)
-            if (kind === 'vec2') return vec2(entry.node, entry.node)
-            if (kind === 'vec3') return vec3(entry.node, entry.node, entry.node)
-            if (kind === 'vec4') return vec4(entry.node, entry.node, entry.node, entry.node)
-          }
-          return kind === 'number' ? float(0) : color(0)
-        }
-        if (combined === 'number') {
-          const nodeResult =
-            node.type === 'add'
-              ? left.node.add(right.node)
-              : left.node.mul(right.node)
-          stack.delete(nodeId)
-          return { node: nodeResult, kind: 'number' }
-        }
-        if (combined === 'color' || combined === 'vec2' || combined === 'vec3' || combined === 'vec4') {
-          const l = toKindNode(left, combined)
-          const r = toKindNode(right, combined)
-          const nodeResult = node.type === 'add' ? l.add(r) : l.mul(r)
-          stack.delete(nodeId)
-          return { node: nodeResult, kind: combined }
-        }
-        stack.delete(nodeId)
-        return { node: float(0), kind: 'number' }
-      }
-      if (node.type === 'sine') {
-        const input = getInput('value')
-        const inputNode = input?.kind === 'number' ? input.node : float(0)
-        const nodeResult = sin(inputNode)
-        stack.delete(nodeId)
-        return { node: nodeResult, kind: 'number' }
-      }
-      if (node.type === 'normalize') {
-        const input = getInput('value')
-        if (input && isVectorKind(input.kind)) {
-          const nodeResult = normalize(input.node)
-          stack.delete(nodeId)
-          return { node: nodeResult, kind: input.kind }
-        }
-        stack.delete(nodeId)
-        return { node: float(0), kind: 'number' }
-      }
-      if (node.type === 'length') {
-        const input = getInput('value')
-        if (input && isVectorKind(input.kind)) {
-          const nodeResult = length(input.node)
-          stack.delete(nodeId)
-          return { node: nodeResult, kind: 'number' }
-        }
-        stack.delete(nodeId)
-        return { node: float(0), kind: 'number' }
-      }
-      if (node.type === 'dot') {
-        const inputA = getInput('a')
-        const inputB = getInput('b')
-        const vecA = getVectorKind(inputA?.kind ?? 'unknown')
-        const vecB = getVectorKind(inputB?.kind ?? 'unknown')
-        if (inputA && inputB && vecA && vecB && vecA === vecB) {
-          const nodeResult = dot(inputA.node, inputB.node)
-          stack.delete(nodeId)
-          return { node: nodeResult, kind: 'number' }
-        }
-        stack.delete(nodeId)
-        return { node: float(0), kind: 'number' }
-      }
-      if (node.type === 'cross') {
-        const inputA = getInput('a')
-        const inputB = getInput('b')
-        const vecA = getVectorKind(inputA?.kind ?? 'unknown')
-        const vecB = getVectorKind(inputB?.kind ?? 'unknown')
-        if (inputA && inputB && vecA === 'vec3' && vecB === 'vec3') {
-          const nodeResult = cross(inputA.node, inputB.node)
-          const kind = inputA.kind === 'color' || inputB.kind === 'color' ? 'color' : 'vec3'
-          stack.delete(nodeId)
-          return { node: nodeResult, kind }
-        }
-        stack.delete(nodeId)
-        return { node: float(0), kind: 'number' }
-      }
-      if (node.type === 'checker') {
-        const input = getInput('coord')
-        const coord =
-          input?.kind === 'vec2'
-            ? input.node
-            : input?.kind === 'number'
-              ? vec2(input.node, input.node)
-              : uv()
-        const nodeResult = checker(coord)
-        stack.delete(nodeId)
-        return { node: nodeResult, kind: 'number' }
-      }
-      if (node.type === 'dFdx' || node.type === 'dFdy' || node.type === 'fwidth') {
-        const input = getInput('value')
-        if (!input || (!isVectorKind(input.kind) && input.kind !== 'number')) {
-          stack.delete(nodeId)
-          return { node: float(0), kind: 'number' }
-        }
-        const fn = node.type === 'dFdx' ? dFdx : node.type === 'dFdy' ? dFdy : fwidth
-        const nodeResult = fn(input.node)
-        stack.delete(nodeId)
-        return { node: nodeResult, kind: input.kind }
-      }
-      if (node.type === 'distance') {
-        const inputA = getInput('a')
-        const inputB = getInput('b')
-        const kind = resolveVectorOutputKind([
-          inputA?.kind ?? 'number',
-          inputB?.kind ?? 'number',
-        ])
-        if (kind === 'number') {
-          const nodeResult = distance(
-            inputA?.kind === 'number' ? inputA.node : float(0),
-            inputB?.kind === 'number' ? inputB.node : float(0),
-          )
-          stack.delete(nodeId)
-          return { node: nodeResult, kind: 'number' }
-        }
-        if (kind === 'color' || kind === 'vec2' || kind === 'vec3' || kind === 'vec4') {
-          const nodeResult = distance(
-            toVectorNode(inputA, kind),
-            toVectorNode(inputB, kind),
-          )
-          stack.delete(nodeId)
-          return { node: nodeResult, kind: 'number' }
-        }
-        stack.delete(nodeId)
-        return { node: float(0), kind: 'number' }
-      }
-      if (node.type === 'reflect' || node.type === 'refract' || node.type === 'faceforward') {
-        const toVec3Node = (entry: ReturnType<typeof getInput> | null) => {
-          if (entry?.kind === 'vec3' || entry?.kind === 'color') return entry.node
-          if (entry?.kind === 'number') return vec3(entry.node, entry.node, entry.node)
-          return vec3(0, 0, 0)
-        }
-        if (node.type === 'reflect') {
-          const incident = toVec3Node(getInput('incident'))
-          const normal = toVec3Node(getInput('normal'))
-          const nodeResult = reflect(incident, normal)
-          const kind =
-            getInput('incident')?.kind === 'color' || getInput('normal')?.kind === 'color'
-              ? 'color'
-              : 'vec3'
-          stack.delete(nodeId)
-          return { node: nodeResult, kind }
-        }
-        if (node.type === 'refract') {
-          const incident = toVec3Node(getInput('incident'))
-          const normal = toVec3Node(getInput('normal'))
-          const etaInput = getInput('eta')
-          const eta = etaInput?.kind === 'number' ? etaInput.node : float(1)
-          const nodeResult = refract(incident, normal, eta)
-          const kind =
-            getInput('incident')?.kind === 'color' || getInput('normal')?.kind === 'color'
-              ? 'color'
-              : 'vec3'
-          stack.delete(nodeId)
-          return { node: nodeResult, kind }
-        }
-        const n = toVec3Node(getInput('n'))
-        const i = toVec3Node(getInput('i'))
-        const nref = toVec3Node(getInput('nref'))
-        const nodeResult = faceforward(n, i, nref)
-        const kind =
-          getInput('n')?.kind === 'color' ||
-          getInput('i')?.kind === 'color' ||
-          getInput('nref')?.kind === 'color'
-            ? 'color'
-            : 'vec3'
-        stack.delete(nodeId)
-        return { node: nodeResult, kind }
-      }
-      if (node.type === 'triNoise3D') {
-        const inputPosition = getInput('position')
-        const inputSpeed = getInput('speed')
-        const inputTime = getInput('time')
-        const position =
-          inputPosition?.kind === 'vec3'
-            ? inputPosition.node
-            : inputPosition?.kind === 'number'
-              ? vec3(inputPosition.node, inputPosition.node, inputPosition.node)
-              : positionLocal
-        const speed = inputSpeed?.kind === 'number' ? inputSpeed.node : float(1)
-        const time = inputTime?.kind === 'number' ? inputTime.node : timeUniformRef.current
-        const nodeResult = triNoise3D(position, speed, time)
-        stack.delete(nodeId)
-        return { node: nodeResult, kind: 'number' }
-      }
-      if (node.type === 'mxNoiseFloat' || node.type === 'mxNoiseVec3' || node.type === 'mxNoiseVec4') {
-        const texcoord = getInput('texcoord')
-        const amplitudeInput = getInput('amplitude')
-        const pivotInput = getInput('pivot')
-        const coordNode = texcoord
-          ? texcoord.kind === 'vec3' || texcoord.kind === 'color' || texcoord.kind === 'vec4'
-            ? toVec3Node(texcoord)
-            : toVec2Node(texcoord)
-          : uv()
-        const amplitude = amplitudeInput?.kind === 'number' ? amplitudeInput.node : float(1)
-        const pivot = pivotInput?.kind === 'number' ? pivotInput.node : float(0)
-        const nodeResult =
-          node.type === 'mxNoiseFloat'
-            ? mx_noise_float(coordNode, amplitude, pivot)
-            : node.type === 'mxNoiseVec3'
-              ? mx_noise_vec3(coordNode, amplitude, pivot)
-              : mx_noise_vec4(coordNode, amplitude, pivot)
-        const kind =
-          node.type === 'mxNoiseFloat'
-            ? ('number' as const)
-            : node.type === 'mxNoiseVec3'
-              ? ('vec3' as const)
-              : ('vec4' as const)
-        stack.delete(nodeId)
-        return { node: nodeResult, kind }
-      }
-      if (
-        node.type === 'mxFractalNoiseFloat' ||
-        node.type === 'mxFractalNoiseVec2' ||
-        node.type === 'mxFractalNoiseVec3' ||
-        node.type === 'mxFractalNoiseVec4'
-      ) {
-        const positionInput = getInput('position')
-        const octavesInput = getInput('octaves')
-        const lacunarityInput = getInput('lacunarity')
-        const diminishInput = getInput('diminish')
-        const amplitudeInput = getInput('amplitude')
-        const positionNode = positionInput
-          ? positionInput.kind === 'vec3' ||
-            positionInput.kind === 'color' ||
-            positionInput.kind === 'vec4'
-            ? toVec3Node(positionInput)
-            : toVec2Node(positionInput)
-          : uv()
-        const octaves = octavesInput?.kind === 'number' ? octavesInput.node : float(3)
-        const lacunarity = lacunarityInput?.kind === 'number' ? lacunarityInput.node : float(2)
-        const diminish = diminishInput?.kind === 'number' ? diminishInput.node : float(0.5)
-        const amplitude = amplitudeInput?.kind === 'number' ? amplitudeInput.node : float(1)
-        const nodeResult =
-          node.type === 'mxFractalNoiseFloat'
-            ? mx_fractal_noise_float(positionNode, octaves, lacunarity, diminish, amplitude)
-            : node.type === 'mxFractalNoiseVec2'
-              ? mx_fractal_noise_vec2(positionNode, octaves, lacunarity, diminish, amplitude)
-              : node.type === 'mxFractalNoiseVec3'
-                ? mx_fractal_noise_vec3(positionNode, octaves, lacunarity, diminish, amplitude)
-                : mx_fractal_noise_vec4(positionNode, octaves, lacunarity, diminish, amplitude)
-        const kind =
-          node.type === 'mxFractalNoiseFloat'
-            ? ('number' as const)
-            : node.type === 'mxFractalNoiseVec2'
-              ? ('vec2' as const)
-              : node.type === 'mxFractalNoiseVec3'
-                ? ('vec3' as const)
-                : ('vec4' as const)
-        stack.delete(nodeId)
-        return { node: nodeResult, kind }
-      }
-      if (
-        node.type === 'mxWorleyNoiseFloat' ||
-        node.type === 'mxWorleyNoiseVec2' ||
-        node.type === 'mxWorleyNoiseVec3'
-      ) {
-        const texcoord = getInput('texcoord')
-        const jitterInput = getInput('jitter')
-        const coordNode = texcoord
-          ? texcoord.kind === 'vec3' || texcoord.kind === 'color' || texcoord.kind === 'vec4'
-            ? toVec3Node(texcoord)
-            : toVec2Node(texcoord)
-          : uv()
-        const jitter = jitterInput?.kind === 'number' ? jitterInput.node : float(1)
-        const nodeResult =
-          node.type === 'mxWorleyNoiseFloat'
-            ? mx_worley_noise_float(coordNode, jitter)
-            : node.type === 'mxWorleyNoiseVec2'
-              ? mx_worley_noise_vec2(coordNode, jitter)
-              : mx_worley_noise_vec3(coordNode, jitter)
-        const kind =
-          node.type === 'mxWorleyNoiseFloat'
-            ? ('number' as const)
-            : node.type === 'mxWorleyNoiseVec2'
-              ? ('vec2' as const)
-              : ('vec3' as const)
-        stack.delete(nodeId)
-        return { node: nodeResult, kind }
-      }
-      if (node.type === 'rotateUV') {
-        const uvInput = getInput('uv')
-        const rotationInput = getInput('rotation')
-        const centerInput = getInput('center')
-        const uvNode = uvInput ? toVec2Node(uvInput) : uv()
-        const rotation = rotationInput?.kind === 'number' ? rotationInput.node : float(0)
-        const center = centerInput ? toVec2Node(centerInput) : vec2(0.5, 0.5)
-        const nodeResult = rotateUV(uvNode, rotation, center)
-        stack.delete(nodeId)
-        return { node: nodeResult, kind: 'vec2' }
-      }
-      if (node.type === 'scaleUV') {
-        const uvInput = getInput('uv')
-        const scaleInput = getInput('scale')
-        const uvNode = uvInput ? toVec2Node(uvInput) : uv()
-        const scale = scaleInput ? toVec2Node(scaleInput) : vec2(1, 1)
-        const nodeResult = uvNode.mul(scale)
-        stack.delete(nodeId)
-        return { node: nodeResult, kind: 'vec2' }
-      }
-      if (node.type === 'offsetUV') {
-        const uvInput = getInput('uv')
-        const offsetInput = getInput('offset')
-        const uvNode = uvInput ? toVec2Node(uvInput) : uv()
-        const offset = offsetInput ? toVec2Node(offsetInput) : vec2(0, 0)
-        const nodeResult = uvNode.add(offset)
-        stack.delete(nodeId)
-        return { node: nodeResult, kind: 'vec2' }
-      }
-      if (node.type === 'spherizeUV') {
-        const uvInput = getInput('uv')
-        const strengthInput = getInput('strength')
-        const centerInput = getInput('center')
-        const uvNode = uvInput ? toVec2Node(uvInput) : uv()
-        const strength = strengthInput?.kind === 'number' ? strengthInput.node : float(0)
-        const center = centerInput ? toVec2Node(centerInput) : vec2(0.5, 0.5)
-        const nodeResult = spherizeUV(uvNode, strength, center)
-        stack.delete(nodeId)
-        return { node: nodeResult, kind: 'vec2' }
-      }
-      if (node.type === 'spritesheetUV') {
-        const sizeInput = getInput('size')
-        const uvInput = getInput('uv')
-        const timeInput = getInput('time')
-        const sizeNode = sizeInput ? toVec2Node(sizeInput) : vec2(1, 1)
-        const uvNode = uvInput ? toVec2Node(uvInput) : uv()
-        const timeNode = timeInput?.kind === 'number' ? timeInput.node : timeUniformRef.current
-        const nodeResult = spritesheetUV(sizeNode, uvNode, timeNode)
-        stack.delete(nodeId)
-        return { node: nodeResult, kind: 'vec2' }
-      }
-      if (node.type === 'smoothstep') {
-        const edge0Input = getInput('edge0')
-        const edge1Input = getInput('edge1')
-        const xInput = getInput('x')
-        const kind = resolveVectorOutputKind([
-          edge0Input?.kind ?? 'number',
-          edge1Input?.kind ?? 'number',
-          xInput?.kind ?? 'number',
-        ])
-        if (kind === 'number') {
-          const nodeResult = smoothstep(
-            edge0Input?.kind === 'number' ? edge0Input.node : float(0),
-            edge1Input?.kind === 'number' ? edge1Input.node : float(1),
-            xInput?.kind === 'number' ? xInput.node : float(0),
-          )
-          stack.delete(nodeId)
-          return { node: nodeResult, kind: 'number' }
-        }
-        if (kind === 'color' || kind === 'vec2' || kind === 'vec3' || kind === 'vec4') {
-          const nodeResult = smoothstep(
-            toVectorNode(edge0Input, kind),
-            toVectorNode(edge1Input, kind),
-            toVectorNode(xInput, kind),
-          )
-          stack.delete(nodeId)
-          return { node: nodeResult, kind }
-        }
-        stack.delete(nodeId)
-        return { node: float(0), kind: 'number' }
-      }
-      if (node.type === 'pow') {
-        const baseInput = getInput('base')
-        const expInput = getInput('exp')
-        const kind = resolveVectorOutputKind([
-          baseInput?.kind ?? 'number',
-          expInput?.kind ?? 'number',
-        ])
-        if (kind === 'number') {
-          const nodeResult = pow(
-            baseInput?.kind === 'number' ? baseInput.node : float(0),
-            expInput?.kind === 'number' ? expInput.node : float(1),
-          )
-          stack.delete(nodeId)
-          return { node: nodeResult, kind: 'number' }
-        }
-        if (kind === 'color' || kind === 'vec2' || kind === 'vec3' || kind === 'vec4') {
-          const nodeResult = pow(
-            toVectorNode(baseInput, kind),
-            toVectorNode(expInput, kind),
-          )
-          stack.delete(nodeId)
-          return { node: nodeResult, kind }
-        }
-        stack.delete(nodeId)
-        return { node: float(0), kind: 'number' }
-      }
-      if (node.type === 'vec2') {
-        const inputX = getInput('x')
-        const inputY = getInput('y')
-        const nodeX = inputX?.kind === 'number' ? inputX.node : float(0)
-        const nodeY = inputY?.kind === 'number' ? inputY.node : float(0)
-        const nodeResult = vec2(nodeX, nodeY)
-        stack.delete(nodeId)
-        return { node: nodeResult, kind: 'vec2' }
-      }
-      if (node.type === 'mat2') {
-        const c0 = toVec2Node(getInput('c0'))
-        const c1 = toVec2Node(getInput('c1'))
-        const nodeResult = (mat2 as unknown as (...args: unknown[]) => ReturnType<typeof mat2>)(c0, c1)
-        stack.delete(nodeId)
-        return { node: nodeResult, kind: 'mat2' }
-      }
-      if (node.type === 'vec3') {
-        const inputX = getInput('x')
-        const inputY = getInput('y')
-        const inputZ = getInput('z')
-        const nodeX = inputX?.kind === 'number' ? inputX.node : float(0)
-        const nodeY = inputY?.kind === 'number' ? inputY.node : float(0)
-        const nodeZ = inputZ?.kind === 'number' ? inputZ.node : float(0)
-        const nodeResult = vec3(nodeX, nodeY, nodeZ)
-        stack.delete(nodeId)
-        return { node: nodeResult, kind: 'vec3' }
-      }
-      if (node.type === 'mat3') {
-        const c0 = toVec3Node(getInput('c0'))
-        const c1 = toVec3Node(getInput('c1'))
-        const c2 = toVec3Node(getInput('c2'))
-        const nodeResult = mat3(c0, c1, c2)
-        stack.delete(nodeId)
-        return { node: nodeResult, kind: 'mat3' }
-      }
-      if (node.type === 'scale') {
-        const inputValue = getInput('value')
-        const inputScale = getInput('scale')
-        const valueNode =
-          inputValue?.kind === 'vec3'
-            ? inputValue.node
-            : inputValue?.kind === 'number'
-              ? vec3(inputValue.node, inputValue.node, inputValue.node)
-              : vec3(0, 0, 0)
-        const scaleNode =
-          inputScale?.kind === 'vec3'
-            ? inputScale.node
-            : inputScale?.kind === 'number'
-              ? vec3(inputScale.node, inputScale.node, inputScale.node)
-              : vec3(1, 1, 1)
-        const nodeResult = valueNode.mul(scaleNode)
-        stack.delete(nodeId)
-        return { node: nodeResult, kind: 'vec3' }
-      }
-      if (node.type === 'rotate') {
-        const inputValue = getInput('value')
-        const inputRotation = getInput('rotation')
-        const valueNode =
-          inputValue?.kind === 'vec3'
-            ? inputValue.node
-            : inputValue?.kind === 'number'
-              ? vec3(inputValue.node, inputValue.node, inputValue.node)
-              : vec3(0, 0, 0)
-        const rotationNode =
-          inputRotation?.kind === 'vec3'
-            ? inputRotation.node
-            : inputRotation?.kind === 'number'
-              ? vec3(inputRotation.node, inputRotation.node, inputRotation.node)
-              : vec3(0, 0, 0)
-        const neg = float(-1)
-        const cx = cos(rotationNode.x)
-        const sx = sin(rotationNode.x)
-        const cy = cos(rotationNode.y)
-        const sy = sin(rotationNode.y)
-        const cz = cos(rotationNode.z)
-        const sz = sin(rotationNode.z)
-        const rotX = vec3(
-          valueNode.x,
-          valueNode.y.mul(cx).add(valueNode.z.mul(sx).mul(neg)),
-          valueNode.y.mul(sx).add(valueNode.z.mul(cx)),
-        )
-        const rotY = vec3(
-          rotX.x.mul(cy).add(rotX.z.mul(sy)),
-          rotX.y,
-          rotX.z.mul(cy).add(rotX.x.mul(sy).mul(neg)),
-        )
-        const nodeResult = vec3(
-          rotY.x.mul(cz).add(rotY.y.mul(sz).mul(neg)),
-          rotY.x.mul(sz).add(rotY.y.mul(cz)),
-          rotY.z,
-        )
-        stack.delete(nodeId)
-        return { node: nodeResult, kind: 'vec3' }
-      }
-      if (node.type === 'vec4') {
-        const inputX = getInput('x')
-        const inputY = getInput('y')
-        const inputZ = getInput('z')
-        const inputW = getInput('w')
-        const nodeX = inputX?.kind === 'number' ? inputX.node : float(0)
-        const nodeY = inputY?.kind === 'number' ? inputY.node : float(0)
-        const nodeZ = inputZ?.kind === 'number' ? inputZ.node : float(0)
-        const nodeW = inputW?.kind === 'number' ? inputW.node : float(1)
-        const nodeResult = vec4(nodeX, nodeY, nodeZ, nodeW)
-        stack.delete(nodeId)
-        return { node: nodeResult, kind: 'vec4' }
-      }
-      if (node.type === 'mat4') {
-        const c0 = toVec4Node(getInput('c0'))
-        const c1 = toVec4Node(getInput('c1'))
-        const c2 = toVec4Node(getInput('c2'))
-        const c3 = toVec4Node(getInput('c3'))
-        const nodeResult = mat4(c0, c1, c2, c3)
-        stack.delete(nodeId)
-        return { node: nodeResult, kind: 'mat4' }
-      }
-      if (node.type === 'modelMatrix') {
-        stack.delete(nodeId)
-        return { node: modelWorldMatrix, kind: 'mat4' }
-      }
-      if (node.type === 'viewMatrix') {
-        stack.delete(nodeId)
-        return { node: cameraViewMatrix, kind: 'mat4' }
-      }
-      if (node.type === 'projectionMatrix') {
-        stack.delete(nodeId)
-        return { node: cameraProjectionMatrix, kind: 'mat4' }
-      }
-      if (node.type === 'modelViewMatrix') {
-        stack.delete(nodeId)
-        return { node: modelViewMatrix, kind: 'mat4' }
-      }
-      if (node.type === 'normalMatrix') {
-        stack.delete(nodeId)
-        return { node: modelNormalMatrix, kind: 'mat3' }
-      }
-      if (node.type === 'transpose' || node.type === 'inverse') {
-        const input = getInput('value')
-        if (input && isMatrixKind(input.kind)) {
-          const fn = node.type === 'transpose' ? transpose : inverse
-          const nodeResult = fn(input.node)
-          stack.delete(nodeId)
-          return { node: nodeResult, kind: input.kind }
-        }
-        stack.delete(nodeId)
-        return { node: float(0), kind: 'number' }
-      }
-      if (node.type === 'splitVec2') {
-        const input = getInput('value')
-        const source =
-          input?.kind === 'vec2'
-            ? input.node
-            : input?.kind === 'number'
-              ? vec2(input.node, input.node)
-              : vec2(0, 0)
-        const channel = outputPin === 'y' ? source.y : source.x
-        const nodeResult = channel
-        stack.delete(nodeId)
-        return { node: nodeResult, kind: 'number' }
-      }
-      if (node.type === 'splitVec3') {
-        const input = getInput('value')
-        const source =
-          input?.kind === 'vec3'
-            ? input.node
-            : input?.kind === 'number'
-              ? vec3(input.node, input.node, input.node)
-              : vec3(0, 0, 0)
-        const channel =
-          outputPin === 'y' ? source.y : outputPin === 'z' ? source.z : source.x
-        const nodeResult = channel
-        stack.delete(nodeId)
-        return { node: nodeResult, kind: 'number' }
-      }
-      if (node.type === 'splitVec4') {
-        const input = getInput('value')
-        const source =
-          input?.kind === 'vec4'
-            ? input.node
-            : input?.kind === 'number'
-              ? vec4(input.node, input.node, input.node, input.node)
-              : vec4(0, 0, 0, 1)
-        const channel =
-          outputPin === 'y'
-            ? source.y
-            : outputPin === 'z'
-              ? source.z
-              : outputPin === 'w'
-                ? source.w
-                : source.x
-        const nodeResult = channel
-        stack.delete(nodeId)
-        return { node: nodeResult, kind: 'number' }
-      }
-      if (node.type === 'cosine') {
-        const input = getInput('value')
-        const inputNode = input?.kind === 'number' ? input.node : float(0)
-        const nodeResult = cos(inputNode)
-        stack.delete(nodeId)
-        return { node: nodeResult, kind: 'number' }
-      }
-      if (
-        node.type === 'tan' ||
-        node.type === 'asin' ||
-        node.type === 'acos' ||
-        node.type === 'atan' ||
-        node.type === 'radians' ||
-        node.type === 'degrees'
-      ) {
-        const input = getInput('value')
-        if (input && (input.kind === 'number' || isVectorKind(input.kind))) {
-          const fn =
-            node.type === 'tan'
-              ? tan
-              : node.type === 'asin'
-                ? asin
-                : node.type === 'acos'
-                  ? acos
-                  : node.type === 'atan'
-                    ? atan
-                    : node.type === 'radians'
-                      ? radians
-                      : degrees
-          const nodeResult = fn(input.node)
-          stack.delete(nodeId)
-          return { node: nodeResult, kind: input.kind }
-        }
-        stack.delete(nodeId)
-        return { node: float(0), kind: 'number' }
-      }
-      if (node.type === 'remap' || node.type === 'remapClamp') {
-        const input = getInput('value')
-        if (!input || (!isVectorKind(input.kind) && input.kind !== 'number')) {
-          stack.delete(nodeId)
-          return { node: float(0), kind: 'number' }
-        }
-        const inLowInput = getInput('inLow')
-        const inHighInput = getInput('inHigh')
-        const outLowInput = getInput('outLow')
-        const outHighInput = getInput('outHigh')
-        const kind = input.kind
-        const toKindNode = (entry: ReturnType<typeof getInput> | null, fallback: number) => {
-          if (kind === 'number') {
-            return entry?.kind === 'number' ? entry.node : float(fallback)
-          }
-          return toVectorNode(entry, kind)
-        }
-        const inLowNode = toKindNode(inLowInput, 0)
-        const inHighNode = toKindNode(inHighInput, 1)
-        const outLowNode = toKindNode(outLowInput, 0)
-        const outHighNode = toKindNode(outHighInput, 1)
-        const fn = node.type === 'remap' ? remap : remapClamp
-        const nodeResult = fn(input.node, inLowNode, inHighNode, outLowNode, outHighNode)
-        if (kind === 'color') {
-          stack.delete(nodeId)
-          return { node: color(nodeResult), kind: 'color' }
-        }
-        stack.delete(nodeId)
-        return { node: nodeResult, kind }
-      }
-      if (node.type === 'smoothstepElement') {
-        const lowInput = getInput('low')
-        const highInput = getInput('high')
-        const xInput = getInput('x')
-        const kind = resolveVectorOutputKind([
-          lowInput?.kind ?? 'number',
-          highInput?.kind ?? 'number',
-          xInput?.kind ?? 'number',
-        ])
-        if (kind === 'number') {
-          const nodeResult = smoothstepElement(
-            xInput?.kind === 'number' ? xInput.node : float(0),
-            lowInput?.kind === 'number' ? lowInput.node : float(0),
-            highInput?.kind === 'number' ? highInput.node : float(1),
-          )
-          stack.delete(nodeId)
-          return { node: nodeResult, kind: 'number' }
-        }
-        if (kind === 'color' || kind === 'vec2' || kind === 'vec3' || kind === 'vec4') {
-          const nodeResult = smoothstepElement(
-            toVectorNode(xInput, kind),
-            toVectorNode(lowInput, kind),
-            toVectorNode(highInput, kind),
-          )
-          stack.delete(nodeId)
-          return { node: nodeResult, kind }
-        }
-        stack.delete(nodeId)
-        return { node: float(0), kind: 'number' }
-      }
-      if (node.type === 'stepElement') {
-        const edgeInput = getInput('edge')
-        const xInput = getInput('x')
-        const kind = resolveVectorOutputKind([
-          edgeInput?.kind ?? 'number',
-          xInput?.kind ?? 'number',
-        ])
-        if (kind === 'number') {
-          const nodeResult = stepElement(
-            xInput?.kind === 'number' ? xInput.node : float(0),
-            edgeInput?.kind === 'number' ? edgeInput.node : float(0),
-          )
-          stack.delete(nodeId)
-          return { node: nodeResult, kind: 'number' }
-        }
-        if (kind === 'color' || kind === 'vec2' || kind === 'vec3' || kind === 'vec4') {
-          const nodeResult = stepElement(
-            toVectorNode(xInput, kind),
-            toVectorNode(edgeInput, kind),
-          )
-          stack.delete(nodeId)
-          return { node: nodeResult, kind }
-        }
-        stack.delete(nodeId)
-        return { node: float(0), kind: 'number' }
-      }
-      if (
-        node.type === 'lessThan' ||
-        node.type === 'lessThanEqual' ||
-        node.type === 'greaterThan' ||
-        node.type === 'greaterThanEqual' ||
-        node.type === 'equal' ||
-        node.type === 'notEqual'
-      ) {
-        const inputA = getInput('a')
-        const inputB = getInput('b')
-        const kind = resolveVectorOutputKind([
-          inputA?.kind ?? 'number',
-          inputB?.kind ?? 'number',
-        ])
-        if (kind === 'unknown') {
-          stack.delete(nodeId)
-          return { node: float(0), kind: 'number' }
-        }
-        if (kind === 'mat2' || kind === 'mat3' || kind === 'mat4') {
-          stack.delete(nodeId)
-          return { node: float(0), kind: 'number' }
-        }
-        const left =
-          kind === 'number'
-            ? inputA?.kind === 'number'
-              ? inputA.node
-              : float(0)
-            : toVectorNode(inputA, kind)
-        const right =
-          kind === 'number'
-            ? inputB?.kind === 'number'
-              ? inputB.node
-              : float(0)
-            : toVectorNode(inputB, kind)
-        const compareFn =
-          node.type === 'lessThan'
-            ? lessThan
-            : node.type === 'lessThanEqual'
-              ? lessThanEqual
-              : node.type === 'greaterThan'
-                ? greaterThan
-                : node.type === 'greaterThanEqual'
-                  ? greaterThanEqual
-                  : node.type === 'equal'
-                    ? equal
-                    : notEqual
-        const one =
-          kind === 'number'
-            ? float(1)
-            : kind === 'vec2'
-              ? vec2(1, 1)
-              : kind === 'vec3'
-                ? vec3(1, 1, 1)
-                : kind === 'vec4'
-                  ? vec4(1, 1, 1, 1)
-                  : color(1)
-        const zero =
-          kind === 'number'
-            ? float(0)
-            : kind === 'vec2'
-              ? vec2(0, 0)
-              : kind === 'vec3'
-                ? vec3(0, 0, 0)
-                : kind === 'vec4'
-                  ? vec4(0, 0, 0, 0)
-                  : color(0)
-        const nodeResult = select(compareFn(left, right), one, zero)
-        stack.delete(nodeId)
-        return { node: nodeResult, kind }
-      }
-      if (node.type === 'and' || node.type === 'or') {
-        const inputA = getInput('a')
-        const inputB = getInput('b')
-        const kind = resolveVectorOutputKind([
-          inputA?.kind ?? 'number',
-          inputB?.kind ?? 'number',
-        ])
-        if (kind === 'unknown') {
-          stack.delete(nodeId)
-          return { node: float(0), kind: 'number' }
-        }
-        if (kind === 'mat2' || kind === 'mat3' || kind === 'mat4') {
-          stack.delete(nodeId)
-          return { node: float(0), kind: 'number' }
-        }
-        const edge =
-          kind === 'number'
-            ? float(0.5)
-            : kind === 'vec2'
-              ? vec2(0.5, 0.5)
-              : kind === 'vec3'
-                ? vec3(0.5, 0.5, 0.5)
-                : kind === 'vec4'
-                  ? vec4(0.5, 0.5, 0.5, 0.5)
-                  : color(0.5)
-        const valueA =
-          kind === 'number'
-            ? inputA?.kind === 'number'
-              ? inputA.node
-              : float(0)
-            : toVectorNode(inputA, kind)
-        const valueB =
-          kind === 'number'
-            ? inputB?.kind === 'number'
-              ? inputB.node
-              : float(0)
-            : toVectorNode(inputB, kind)
-        const maskA = step(edge, valueA)
-        const maskB = step(edge, valueB)
-        const nodeResult = node.type === 'and' ? maskA.mul(maskB) : max(maskA, maskB)
-        stack.delete(nodeId)
-        return { node: nodeResult, kind }
-      }
-      if (node.type === 'not') {
-        const input = getInput('value')
-        const kind = input?.kind ?? 'number'
-        if (kind !== 'number' && !isVectorKind(kind)) {
-          stack.delete(nodeId)
-          return { node: float(0), kind: 'number' }
-        }
-        const edge =
-          kind === 'number'
-            ? float(0.5)
-            : kind === 'vec2'
-              ? vec2(0.5, 0.5)
-              : kind === 'vec3'
-                ? vec3(0.5, 0.5, 0.5)
-                : kind === 'vec4'
-                  ? vec4(0.5, 0.5, 0.5, 0.5)
-                  : color(0.5)
-        const value =
-          kind === 'number'
-            ? input?.kind === 'number'
-              ? input.node
-              : float(0)
-            : toVectorNode(input, kind)
-        const mask = step(edge, value)
-        const nodeResult = oneMinus(mask)
-        stack.delete(nodeId)
-        return { node: nodeResult, kind }
-      }
-      if (node.type === 'atan2') {
-        const inputY = getInput('y')
-        const inputX = getInput('x')
-        const combined = resolveVectorOutputKind([
-          inputY?.kind ?? 'number',
-          inputX?.kind ?? 'number',
-        ])
-        if (combined === 'number') {
-          const nodeResult = atan2(
-            inputY?.kind === 'number' ? inputY.node : float(0),
-            inputX?.kind === 'number' ? inputX.node : float(0),
-          )
-          stack.delete(nodeId)
-          return { node: nodeResult, kind: 'number' }
-        }
-        if (combined === 'color' || combined === 'vec2' || combined === 'vec3' || combined === 'vec4') {
-          const nodeY = toVectorNode(inputY, combined)
-          const nodeX = toVectorNode(inputX, combined)
-          const nodeResult = atan2(nodeY, nodeX)
-          stack.delete(nodeId)
-          return { node: nodeResult, kind: combined }
-        }
-        stack.delete(nodeId)
-        return { node: float(0), kind: 'number' }
-      }
-      if (node.type === 'abs') {
-        const input = getInput('value')
-        const inputNode = input?.kind === 'number' ? input.node : float(0)
-        const nodeResult = abs(inputNode)
-        stack.delete(nodeId)
-        return { node: nodeResult, kind: 'number' }
-      }
-      if (node.type === 'clamp') {
-        const input = getInput('value')
-        const minInput = getInput('min')
-        const maxInput = getInput('max')
-        const inputNode = input?.kind === 'number' ? input.node : float(0)
-        const minNode = minInput?.kind === 'number' ? minInput.node : float(0)
-        const maxNode = maxInput?.kind === 'number' ? maxInput.node : float(1)
-        const nodeResult = clamp(inputNode, minNode, maxNode)
-        stack.delete(nodeId)
-        return { node: nodeResult, kind: 'number' }
-      }
-      if (node.type === 'min' || node.type === 'max' || node.type === 'mod') {
-        const inputA = getInput('a') ?? { node: float(0), kind: 'number' as const }
-        const inputB = getInput('b') ?? { node: float(0), kind: 'number' as const }
-        const combined = combineTypes(inputA.kind, inputB.kind)
-        if (combined === 'number') {
-          const nodeResult =
-            node.type === 'min'
-              ? min(inputA.node, inputB.node)
-              : node.type === 'max'
-                ? max(inputA.node, inputB.node)
-                : mod(inputA.node, inputB.node)
-          stack.delete(nodeId)
-          return { node: nodeResult, kind: 'number' }
-        }
-        if (combined === 'color' || combined === 'vec2' || combined === 'vec3' || combined === 'vec4') {
-          const nodeA = toVectorNode(inputA, combined)
-          const nodeB = toVectorNode(inputB, combined)
-          const nodeResult =
-            node.type === 'min'
-              ? min(nodeA, nodeB)
-              : node.type === 'max'
-                ? max(nodeA, nodeB)
-                : mod(nodeA, nodeB)
-          stack.delete(nodeId)
-          return { node: nodeResult, kind: combined }
-        }
-        stack.delete(nodeId)
-        return { node: float(0), kind: 'number' }
-      }
-      if (node.type === 'step') {
-        const edgeInput = getInput('edge')
-        const xInput = getInput('x')
-        const kind = resolveVectorOutputKind([
-          edgeInput?.kind ?? 'number',
-          xInput?.kind ?? 'number',
-        ])
-        if (kind === 'number') {
-          const nodeResult = step(
-            edgeInput?.kind === 'number' ? edgeInput.node : float(0),
-            xInput?.kind === 'number' ? xInput.node : float(0),
-          )
-          stack.delete(nodeId)
-          return { node: nodeResult, kind: 'number' }
-        }
-        if (kind === 'color' || kind === 'vec2' || kind === 'vec3' || kind === 'vec4') {
-          const nodeResult = step(
-            toVectorNode(edgeInput, kind),
-            toVectorNode(xInput, kind),
-          )
-          stack.delete(nodeId)
-          return { node: nodeResult, kind }
-        }
-        stack.delete(nodeId)
-        return { node: float(0), kind: 'number' }
-      }
-      if (
-        node.type === 'fract' ||
-        node.type === 'floor' ||
-        node.type === 'ceil' ||
-        node.type === 'round' ||
-        node.type === 'trunc' ||
-        node.type === 'exp' ||
-        node.type === 'exp2' ||
-        node.type === 'log' ||
-        node.type === 'log2' ||
-        node.type === 'sign' ||
-        node.type === 'oneMinus' ||
-        node.type === 'negate' ||
-        node.type === 'pow2' ||
-        node.type === 'pow3' ||
-        node.type === 'pow4' ||
-        node.type === 'sqrt' ||
-        node.type === 'saturate'
-      ) {
-        const input = getInput('value')
-        if (input && (input.kind === 'number' || isVectorKind(input.kind))) {
-          const fn =
-            node.type === 'fract'
-              ? fract
-              : node.type === 'floor'
-                ? floor
-                : node.type === 'ceil'
-                  ? ceil
-                  : node.type === 'round'
-                    ? round
-                    : node.type === 'trunc'
-                      ? trunc
-              : node.type === 'exp'
-                ? exp
-                : node.type === 'exp2'
-                  ? exp2
-                  : node.type === 'log'
-                    ? log
-                    : node.type === 'log2'
-                      ? log2
-                      : node.type === 'sign'
-                        ? sign
-                        : node.type === 'oneMinus'
-                          ? oneMinus
-                          : node.type === 'pow2'
-                            ? pow2
-                            : node.type === 'pow3'
-                              ? pow3
-                              : node.type === 'pow4'
-                                ? pow4
-                                : node.type === 'sqrt'
-                                  ? sqrt
-                                  : node.type === 'saturate'
-                                    ? saturate
-                                    : negate
-          const nodeResult = fn(input.node)
-          stack.delete(nodeId)
-          return { node: nodeResult, kind: input.kind }
-        }
-        stack.delete(nodeId)
-        return { node: float(0), kind: 'number' }
-      }
-      if (node.type === 'mix') {
-        const inputA = getInput('a')
-        const inputB = getInput('b')
-        const inputT = getInput('t')
-        const nodeT = inputT?.kind === 'number' ? inputT.node : float(0.5)
-        const combined = combineTypes(inputA?.kind ?? 'number', inputB?.kind ?? 'number')
-        if (combined === 'number') {
-          const nodeA = inputA?.kind === 'number' ? inputA.node : float(0)
-          const nodeB = inputB?.kind === 'number' ? inputB.node : float(1)
-          const nodeResult = mix(nodeA, nodeB, nodeT)
-          stack.delete(nodeId)
-          return { node: nodeResult, kind: 'number' }
-        }
-        if (combined === 'color' || combined === 'vec2' || combined === 'vec3' || combined === 'vec4') {
-          const toKindNode = (
-            entry: typeof inputA,
-            kind: 'color' | 'vec2' | 'vec3' | 'vec4',
-          ) => {
-            if (entry?.kind === kind) return entry.node
-            if (entry?.kind === 'number') {
-              if (kind === 'color') return color(entry.node)
-              if (kind === 'vec2') return vec2(entry.node, entry.node)
-              if (kind === 'vec3') return vec3(entry.node, entry.node, entry.node)
-              if (kind === 'vec4') return vec4(entry.node, entry.node, entry.node, entry.node)
-            }
-            return kind === 'color' ? color(0) : vec3(0, 0, 0)
-          }
-          const nodeA = toKindNode(inputA, combined)
-          const nodeB = toKindNode(inputB, combined)
-          const nodeResult = mix(nodeA, nodeB, nodeT)
-          stack.delete(nodeId)
-          return { node: nodeResult, kind: combined }
-        }
-        stack.delete(nodeId)
-        return { node: float(0), kind: 'number' }
-      }
-      if (node.type === 'ifElse') {
-        const inputCond = getInput('cond')
-        const inputA = getInput('a')
-        const inputB = getInput('b')
-        const inputThreshold = getInput('threshold')
-        const combined = combineTypes(inputA?.kind ?? 'number', inputB?.kind ?? 'number')
-        if (combined === 'unknown' || isMatrixKind(combined)) {
-          stack.delete(nodeId)
-          return { node: float(0), kind: 'number' }
-        }
-        const outputKind = combined as 'number' | 'color' | 'vec2' | 'vec3' | 'vec4'
-        const toKindNode = (
-          entry: typeof inputA,
-          kind: 'number' | 'color' | 'vec2' | 'vec3' | 'vec4',
-          fallback: number,
-        ) => {
-          if (kind === 'number') {
-            return entry?.kind === 'number' ? entry.node : float(fallback)
-          }
-          if (entry?.kind === kind) return entry.node
-          if (entry?.kind === 'number') {
-            if (kind === 'color') return color(entry.node)
-            if (kind === 'vec2') return vec2(entry.node, entry.node)
-            if (kind === 'vec3') return vec3(entry.node, entry.node, entry.node)
-            return vec4(entry.node, entry.node, entry.node, entry.node)
-          }
-          if (kind === 'color') return color(fallback)
-          if (kind === 'vec2') return vec2(fallback, fallback)
-          if (kind === 'vec3') return vec3(fallback, fallback, fallback)
-          return vec4(fallback, fallback, fallback, fallback)
-        }
-        const nodeA = toKindNode(inputA, outputKind, 1)
-        const nodeB = toKindNode(inputB, outputKind, 0)
-        const condValue = (() => {
-          if (!inputCond) return float(0)
-          if (outputKind === 'number') {
-            if (inputCond.kind === 'number') return inputCond.node
-            if (isVectorKind(inputCond.kind)) return length(inputCond.node)
-            return float(0)
-          }
-          if (outputKind === 'vec2') return toVec2Node(inputCond)
-          if (outputKind === 'vec4') return toVec4Node(inputCond)
-          return toVec3Node(inputCond)
-        })()
-        const thresholdValue =
-          inputThreshold?.kind === 'number' ? inputThreshold.node : float(0.5)
-        const threshold =
-          outputKind === 'number'
-            ? thresholdValue
-            : outputKind === 'vec2'
-              ? vec2(thresholdValue, thresholdValue)
-              : outputKind === 'vec4'
-                ? vec4(thresholdValue, thresholdValue, thresholdValue, thresholdValue)
-                : outputKind === 'color'
-                  ? color(thresholdValue)
-                  : vec3(thresholdValue, thresholdValue, thresholdValue)
-        const mask = greaterThan(condValue, threshold)
-        const nodeResult = select(mask, nodeA, nodeB)
-        stack.delete(nodeId)
-        return { node: nodeResult, kind: outputKind }
-      }
-      if (node.type === 'luminance') {
-        const input = getInput('value')
-        const source = resolveColorSource(input)
-        const nodeResult = luminance(source)
-        stack.delete(nodeId)
-        return { node: nodeResult, kind: 'number' }
-      }
-      if (
-        node.type === 'grayscale' ||
-        node.type === 'saturation' ||
-        node.type === 'posterize' ||
-        node.type === 'sRGBTransferEOTF' ||
-        node.type === 'sRGBTransferOETF' ||
-        node.type === 'linearToneMapping' ||
-        node.type === 'reinhardToneMapping' ||
-        node.type === 'cineonToneMapping' ||
-        node.type === 'acesFilmicToneMapping' ||
-        node.type === 'agxToneMapping' ||
-        node.type === 'neutralToneMapping'
-      ) {
-        const input = getInput('value')
-        const source = resolveColorSource(input)
-        let nodeResult: ReturnType<typeof vec3> | ReturnType<typeof color>
-        if (node.type === 'grayscale') {
-          nodeResult = grayscale(source)
-        } else if (node.type === 'saturation') {
-          const amountInput = getInput('amount')
-          const amount = amountInput?.kind === 'number' ? amountInput.node : float(1)
-          nodeResult = saturation(source, amount)
-        } else if (node.type === 'posterize') {
-          const stepsInput = getInput('steps')
-          const steps = stepsInput?.kind === 'number' ? stepsInput.node : float(4)
-          nodeResult = posterize(source, steps)
-        } else if (node.type === 'sRGBTransferEOTF') {
-          nodeResult = sRGBTransferEOTF(source)
-        } else if (node.type === 'sRGBTransferOETF') {
-          nodeResult = sRGBTransferOETF(source)
-        } else if (node.type === 'linearToneMapping') {
-          nodeResult = linearToneMapping(source, float(1))
-        } else if (node.type === 'reinhardToneMapping') {
-          nodeResult = reinhardToneMapping(source, float(1))
-        } else if (node.type === 'cineonToneMapping') {
-          nodeResult = cineonToneMapping(source, float(1))
-        } else if (node.type === 'acesFilmicToneMapping') {
-          nodeResult = acesFilmicToneMapping(source, float(1))
-        } else if (node.type === 'agxToneMapping') {
-          nodeResult = agxToneMapping(source, float(1))
-        } else {
-          nodeResult = neutralToneMapping(source, float(1))
-        }
-        stack.delete(nodeId)
-        return wrapColorResult(nodeResult, input)
-      }
-
-      if (node.type === 'gltfMaterial') {
-        const pin = outputPin ?? 'baseColor'
-        const entry = gltfMapRef.current[node.id]
-        const materialCount = entry?.materials?.length ?? 0
-        const material = materialCount
-          ? (entry?.materials?.[
-              getMaterialIndex(node, materialCount)
-            ] as GltfMaterial | undefined)
-          : undefined
-        const fallbackColorNode = () => {
-          if (!fallbackColorUniformRef.current) {
-            fallbackColorUniformRef.current = uniform(new Color(fallbackColor))
-          } else {
-            ;(fallbackColorUniformRef.current.value as Color).set(fallbackColor)
-          }
-          return { node: fallbackColorUniformRef.current, kind: 'color' as const }
-        }
-        const getTextureNode = (tex?: Texture | null) =>
-          tex ? { node: texture(uniformTexture(tex), uv()), kind: 'color' as const } : null
-        const getColorNode = (value?: Color) =>
-          value ? { node: color(value), kind: 'color' as const } : null
-        if (!material) {
-          if (pin === 'normalScale') {
-            stack.delete(nodeId)
-            return { node: vec2(1, 1), kind: 'vec2' }
-          }
-          if (
-            pin === 'roughness' ||
-            pin === 'metalness' ||
-            pin === 'emissiveIntensity' ||
-            pin === 'aoMapIntensity' ||
-            pin === 'envMapIntensity' ||
-            pin === 'opacity' ||
-            pin === 'alphaTest' ||
-            pin === 'alphaHash'
-          ) {
-            stack.delete(nodeId)
-            return { node: float(0), kind: 'number' }
-          }
-          stack.delete(nodeId)
-          return fallbackColorNode()
-        }
-        if (pin === 'baseColor') {
-          const base = getColorNode(material.color)
-          const tex = getTextureNode(material.map)
-          if (base && tex) {
-            stack.delete(nodeId)
-            return { node: base.node.mul(tex.node), kind: 'color' }
-          }
-          if (base) {
-            stack.delete(nodeId)
-            return base
-          }
-          if (tex) {
-            stack.delete(nodeId)
-            return tex
-          }
-          stack.delete(nodeId)
-          return fallbackColorNode()
-        }
-        if (pin === 'baseColorTexture') {
-          const tex = getTextureNode(material.map)
-          stack.delete(nodeId)
-          return tex ?? fallbackColorNode()
-        }
-        if (pin === 'roughness') {
-          stack.delete(nodeId)
-          return { node: float(material.roughness ?? 0.7), kind: 'number' }
-        }
-        if (pin === 'metalness') {
-          stack.delete(nodeId)
-          return { node: float(material.metalness ?? 0.1), kind: 'number' }
-        }
-        if (pin === 'roughnessMap') {
-          const tex = getTextureNode(material.roughnessMap)
-          stack.delete(nodeId)
-          return tex ?? fallbackColorNode()
-        }
-        if (pin === 'metalnessMap') {
-          const tex = getTextureNode(material.metalnessMap)
-          stack.delete(nodeId)
-          return tex ?? fallbackColorNode()
-        }
-        if (pin === 'emissive') {
-          const value = material.emissive ?? new Color(0x000000)
-          stack.delete(nodeId)
-          return { node: color(value), kind: 'color' }
-        }
-        if (pin === 'emissiveMap') {
-          const tex = getTextureNode(material.emissiveMap)
-          stack.delete(nodeId)
-          return tex ?? fallbackColorNode()
-        }
-        if (pin === 'emissiveIntensity') {
-          stack.delete(nodeId)
-          return { node: float(material.emissiveIntensity ?? 1), kind: 'number' }
-        }
-        if (pin === 'normalMap') {
-          const tex = getTextureNode(material.normalMap)
-          stack.delete(nodeId)
-          return tex ?? fallbackColorNode()
-        }
-        if (pin === 'normalScale') {
-          const scale = material.normalScale ?? new Vector2(1, 1)
-          stack.delete(nodeId)
-          return { node: vec2(scale.x, scale.y), kind: 'vec2' }
-        }
-        if (pin === 'aoMap') {
-          const tex = getTextureNode(material.aoMap)
-          stack.delete(nodeId)
-          return tex ?? fallbackColorNode()
-        }
-        if (pin === 'aoMapIntensity') {
-          stack.delete(nodeId)
-          return { node: float(material.aoMapIntensity ?? 1), kind: 'number' }
-        }
-        if (pin === 'envMap') {
-          const tex = getTextureNode(material.envMap)
-          stack.delete(nodeId)
-          return tex ?? fallbackColorNode()
-        }
-        if (pin === 'envMapIntensity') {
-          stack.delete(nodeId)
-          return { node: float(material.envMapIntensity ?? 1), kind: 'number' }
-        }
-        if (pin === 'opacity') {
-          stack.delete(nodeId)
-          return { node: float(material.opacity ?? 1), kind: 'number' }
-        }
-        if (pin === 'alphaTest') {
-          stack.delete(nodeId)
-          return { node: float(material.alphaTest ?? 0), kind: 'number' }
-        }
-        if (pin === 'alphaHash') {
-          stack.delete(nodeId)
-          return { node: float(material.alphaHash ? 1 : 0), kind: 'number' }
-        }
-        stack.delete(nodeId)
-        return fallbackColorNode()
-      }
-      if (node.type === 'material' || node.type === 'physicalMaterial') {
-        const pin = outputPin ?? 'baseColor'
-        const input = getInput(pin)
-        if (pin === 'baseColor') {
-          const base =
-            input?.kind === 'color'
-              ? input
-              : input?.kind === 'number'
-                ? { node: color(input.node), kind: 'color' as const }
-                : null
-          const texInput = getInput('baseColorTexture')
-          const tex =
-            texInput?.kind === 'color'
-              ? texInput
-              : texInput?.kind === 'number'
-                ? {
-                    node: color(texInput.node),
-                    kind: 'color' as const,
-                  }
-                : null
-          if (base && tex) {
-            stack.delete(nodeId)
-            return { node: base.node.mul(tex.node), kind: 'color' }
-          }
-          if (base) {
-            stack.delete(nodeId)
-            return base
-          }
-          if (tex) {
-            stack.delete(nodeId)
-            return tex
-          }
-        }
-        if (pin === 'roughness' || pin === 'metalness') {
-          const fallback = float(pin === 'roughness' ? 0.7 : 0.1)
-          stack.delete(nodeId)
-          return input ?? { node: fallback, kind: 'number' }
-        }
-    if (!fallbackColorUniformRef.current) {
-      fallbackColorUniformRef.current = uniform(new Color(fallbackColor))
-    } else {
-      ;(fallbackColorUniformRef.current.value as Color).set(fallbackColor)
-    }
-        stack.delete(nodeId)
-        return { node: fallbackColorUniformRef.current, kind: 'color' }
-      }
-      if (node.type === 'basicMaterial') {
-        const pin = outputPin ?? 'baseColor'
-        if (pin === 'baseColor') {
-          const input = getInput('baseColor')
-          const texInput = getInput('baseColorTexture')
-          const base =
-            input?.kind === 'color'
-              ? input
-              : input?.kind === 'number'
-                ? { node: color(input.node), kind: 'color' as const }
-                : null
-          const tex =
-            texInput?.kind === 'color'
-              ? texInput
-              : texInput?.kind === 'number'
-                ? { node: color(texInput.node), kind: 'color' as const }
-                : null
-          if (base && tex) {
-            stack.delete(nodeId)
-            return { node: base.node.mul(tex.node), kind: 'color' }
-          }
-          if (base) {
-            stack.delete(nodeId)
-            return base
-          }
-          if (tex) {
-            stack.delete(nodeId)
-            return tex
-          }
-        }
-        if (!fallbackColorUniformRef.current) {
-          fallbackColorUniformRef.current = uniform(new Color(fallbackColor))
-        } else {
-          ;(fallbackColorUniformRef.current.value as Color).set(fallbackColor)
-        }
-        stack.delete(nodeId)
-        return { node: fallbackColorUniformRef.current, kind: 'color' }
-      }
-      if (node.type === 'output') {
-        const input = getInput('baseColor')
-        stack.delete(nodeId)
-        return input ?? { node: color(FALLBACK_COLOR), kind: 'color' }
-      }
-
-      stack.delete(nodeId)
-      return { node: float(0), kind: 'number' }
-    }
-
-    const outputNode = graphNodes.find((node) => node.type === 'output')
-    const vertexOutputNode = graphNodes.find((node) => node.type === 'vertexOutput')
-    const materialKind = getMaterialKindFromOutput(outputNode, nodeMap, connectionMap)
-    const hasOutputConnection =
-      !!outputNode && connectionMap.has(`${outputNode.id}:baseColor`)
-    const getOutputInput = (pin: OutputPin) => {
-      const connection = getOutputConnection(connectionMap, outputNode, pin)
-      if (!connection) return null
-      return resolveNode(connection.from.nodeId, new Set(), connection.from.pin)
-    }
-
-    const baseColorNode =
-      outputNode && hasOutputConnection
-        ? getOutputInput('baseColor')
-        : null
-    const rootNode = baseColorNode
-      ? baseColorNode
-      : { node: color(FALLBACK_COLOR), kind: 'color' as const }
-
-    const evalNode = (
-      nodeId: string,
-      stack: Set<string>,
-      outputPin?: string,
-    ): { kind: 'color' | 'number' | 'vec2' | 'vec3' | 'vec4'; value: Color | number } => {
-      if (stack.has(nodeId)) {
-        return { kind: 'number', value: 0 }
-      }
-      stack.add(nodeId)
-      const node = nodeMap.get(nodeId)
-      if (!node) {
-        stack.delete(nodeId)
-        return { kind: 'number', value: 0 }
-      }
-      if (node.type === 'number') {
-        const value = parseNumber(node.value)
-        stack.delete(nodeId)
-        return { kind: 'number', value }
-      }
-      if (node.type === 'time') {
-        stack.delete(nodeId)
-        return { kind: 'number', value: timeUniformRef.current.value }
-      }
-      const attributeKind = getAttributeKind(node.type)
-      if (attributeKind) {
-        stack.delete(nodeId)
-        return { kind: attributeKind, value: new Color(0, 0, 0) }
-      }
-      if (node.type === 'color') {
-        const value = typeof node.value === 'string' ? node.value : DEFAULT_COLOR
-        stack.delete(nodeId)
-        return { kind: 'color', value: new Color(value) }
-      }
-      if (node.type === 'texture') {
-        stack.delete(nodeId)
-        return { kind: 'color', value: new Color(FALLBACK_COLOR) }
-      }
-      if (node.type === 'gltfTexture') {
-        stack.delete(nodeId)
-        return { kind: 'color', value: new Color(FALLBACK_COLOR) }
-      }
-      const getInput = (pin: string) => {
-        const connection = connectionMap.get(`${node.id}:${pin}`)
-        if (!connection) return null
-        return evalNode(connection.from.nodeId, stack, connection.from.pin)
-      }
-      if (node.type === 'functionInput' || node.type === 'functionOutput') {
-        const input = getInput('value')
-        stack.delete(nodeId)
-        return input ?? { kind: 'number', value: 0 }
-      }
-      const toColorValue = (entry: ReturnType<typeof getInput> | null) => {
-        if (!entry) return new Color(0, 0, 0)
-        if (
-          entry.kind === 'color' ||
-          entry.kind === 'vec2' ||
-          entry.kind === 'vec3' ||
-          entry.kind === 'vec4'
-        ) {
-          return (entry.value as Color).clone()
-        }
-        return new Color(entry.value as number, entry.value as number, entry.value as number)
-      }
-      const toLuminanceValue = (colorValue: Color) =>
-        colorValue.r * 0.2126 + colorValue.g * 0.7152 + colorValue.b * 0.0722
-      if (node.type === 'add' || node.type === 'multiply') {
-        const left =
-          getInput('a') ??
-          ({
-            kind: 'number' as const,
-            value: node.type === 'add' ? 0 : 1,
-          })
-        const right =
-          getInput('b') ??
-          ({
-            kind: 'number' as const,
-            value: node.type === 'add' ? 0 : 1,
-          })
-        const combined = combineTypes(left.kind, right.kind)
-        if (combined === 'number') {
-          const value =
-            node.type === 'add'
-              ? (left.value as number) + (right.value as number)
-              : (left.value as number) * (right.value as number)
-          stack.delete(nodeId)
-          return { kind: 'number', value }
-        }
-        if (combined === 'color' || combined === 'vec2' || combined === 'vec3' || combined === 'vec4') {
-          const toColorValue = (entry: typeof left) =>
-            entry.kind === 'color' ||
-            entry.kind === 'vec2' ||
-            entry.kind === 'vec3' ||
-            entry.kind === 'vec4'
-              ? (entry.value as Color).clone()
-              : new Color(
-                  entry.value as number,
-                  entry.value as number,
-                  entry.value as number,
-                )
-          const l = toColorValue(left)
-          const r = toColorValue(right)
-          const value = node.type === 'add' ? l.add(r) : l.multiply(r)
-          stack.delete(nodeId)
-          return { kind: combined, value }
-        }
-        stack.delete(nodeId)
-        return { kind: 'number', value: 0 }
-      }
-      if (node.type === 'sine') {
-        const input = getInput('value')
-        if (!input || input.kind !== 'number') {
-          stack.delete(nodeId)
-          return { kind: 'number', value: 0 }
-        }
-        const value = Math.sin(input.value as number)
-        stack.delete(nodeId)
-        return { kind: 'number', value }
-      }
-      if (node.type === 'normalize') {
-        const input = getInput('value')
-        if (!input || !isVectorKind(input.kind)) {
-          stack.delete(nodeId)
-          return { kind: 'number', value: 0 }
-        }
-        const colorValue = toColorValue(input)
-        const lengthValue = Math.sqrt(
-          colorValue.r * colorValue.r +
-            colorValue.g * colorValue.g +
-            colorValue.b * colorValue.b,
-        )
-        const scale = lengthValue > 0 ? 1 / lengthValue : 0
-        const value = new Color(
-          colorValue.r * scale,
-          colorValue.g * scale,
-          colorValue.b * scale,
-        )
-        stack.delete(nodeId)
-        return { kind: input.kind, value }
-      }
-      if (node.type === 'length') {
-        const input = getInput('value')
-        if (!input || !isVectorKind(input.kind)) {
-          stack.delete(nodeId)
-          return { kind: 'number', value: 0 }
-        }
-        const colorValue = toColorValue(input)
-        const value = Math.sqrt(
-          colorValue.r * colorValue.r +
-            colorValue.g * colorValue.g +
-            colorValue.b * colorValue.b,
-        )
-        stack.delete(nodeId)
-        return { kind: 'number', value }
-      }
-      if (node.type === 'dot') {
-        const inputA = getInput('a')
-        const inputB = getInput('b')
-        const vecA = getVectorKind(inputA?.kind ?? 'unknown')
-        const vecB = getVectorKind(inputB?.kind ?? 'unknown')
-        if (!inputA || !inputB || !vecA || !vecB || vecA !== vecB) {
-          stack.delete(nodeId)
-          return { kind: 'number', value: 0 }
-        }
-        const a = toColorValue(inputA)
-        const b = toColorValue(inputB)
-        const value = a.r * b.r + a.g * b.g + a.b * b.b
-        stack.delete(nodeId)
-        return { kind: 'number', value }
-      }
-      if (node.type === 'cross') {
-        const inputA = getInput('a')
-        const inputB = getInput('b')
-        const vecA = getVectorKind(inputA?.kind ?? 'unknown')
-        const vecB = getVectorKind(inputB?.kind ?? 'unknown')
-        if (!inputA || !inputB || vecA !== 'vec3' || vecB !== 'vec3') {
-          stack.delete(nodeId)
-          return { kind: 'number', value: 0 }
-        }
-        const a = toColorValue(inputA)
-        const b = toColorValue(inputB)
-        const value = new Color(
-          a.g * b.b - a.b * b.g,
-          a.b * b.r - a.r * b.b,
-          a.r * b.g - a.g * b.r,
-        )
-        stack.delete(nodeId)
-        return { kind: inputA.kind === 'color' || inputB.kind === 'color' ? 'color' : 'vec3', value }
-      }
-      if (node.type === 'checker') {
-        const input = getInput('coord')
-        const coord =
-          input?.kind === 'vec2'
-            ? (input.value as Color)
-            : input?.kind === 'number'
-              ? new Color(
-                  input.value as number,
-                  input.value as number,
-                  0,
-                )
-              : new Color(0, 0, 0)
-        const cx = Math.floor(coord.r * 2)
-        const cy = Math.floor(coord.g * 2)
-        const value = Math.sign((cx + cy) % 2)
-        stack.delete(nodeId)
-        return { kind: 'number', value }
-      }
-      if (node.type === 'dFdx' || node.type === 'dFdy' || node.type === 'fwidth') {
-        const input = getInput('value')
-        if (!input || (!isVectorKind(input.kind) && input.kind !== 'number')) {
-          stack.delete(nodeId)
-          return { kind: 'number', value: 0 }
-        }
-        const value = input.kind === 'number' ? (input.value as number) : 0
-        stack.delete(nodeId)
-        return { kind: input.kind, value }
-      }
-      if (node.type === 'mxNoiseFloat') {
-        stack.delete(nodeId)
-        return { kind: 'number', value: 0 }
-      }
-      if (node.type === 'mxNoiseVec3') {
-        stack.delete(nodeId)
-        return { kind: 'vec3', value: new Color(0, 0, 0) }
-      }
-      if (node.type === 'mxNoiseVec4') {
-        stack.delete(nodeId)
-        return { kind: 'vec4', value: new Color(0, 0, 0) }
-      }
-      if (node.type === 'mxFractalNoiseFloat') {
-        stack.delete(nodeId)
-        return { kind: 'number', value: 0 }
-      }
-      if (node.type === 'mxFractalNoiseVec2') {
-        stack.delete(nodeId)
-        return { kind: 'vec2', value: new Color(0, 0, 0) }
-      }
-      if (node.type === 'mxFractalNoiseVec3') {
-        stack.delete(nodeId)
-        return { kind: 'vec3', value: new Color(0, 0, 0) }
-      }
-      if (node.type === 'mxFractalNoiseVec4') {
-        stack.delete(nodeId)
-        return { kind: 'vec4', value: new Color(0, 0, 0) }
-      }
-      if (node.type === 'mxWorleyNoiseFloat') {
-        stack.delete(nodeId)
-        return { kind: 'number', value: 0 }
-      }
-      if (node.type === 'mxWorleyNoiseVec2') {
-        stack.delete(nodeId)
-        return { kind: 'vec2', value: new Color(0, 0, 0) }
-      }
-      if (node.type === 'mxWorleyNoiseVec3') {
-        stack.delete(nodeId)
-        return { kind: 'vec3', value: new Color(0, 0, 0) }
-      }
-      if (node.type === 'rotateUV') {
-        const uvInput = getInput('uv')
-        const rotationInput = getInput('rotation')
-        const centerInput = getInput('center')
-        const uvValue =
-          uvInput?.kind === 'vec2'
-            ? (uvInput.value as Color)
-            : uvInput?.kind === 'number'
-              ? new Color(
-                  uvInput.value as number,
-                  uvInput.value as number,
-                  0,
-                )
-              : new Color(0, 0, 0)
-        const centerValue =
-          centerInput?.kind === 'vec2'
-            ? (centerInput.value as Color)
-            : centerInput?.kind === 'number'
-              ? new Color(
-                  centerInput.value as number,
-                  centerInput.value as number,
-                  0,
-                )
-              : new Color(0.5, 0.5, 0)
-        const rotation = rotationInput?.kind === 'number' ? (rotationInput.value as number) : 0
-        const dx = uvValue.r - centerValue.r
-        const dy = uvValue.g - centerValue.g
-        const cosValue = Math.cos(rotation)
-        const sinValue = Math.sin(rotation)
-        const value = new Color(
-          centerValue.r + dx * cosValue - dy * sinValue,
-          centerValue.g + dx * sinValue + dy * cosValue,
-          0,
-        )
-        stack.delete(nodeId)
-        return { kind: 'vec2', value }
-      }
-      if (node.type === 'scaleUV') {
-        const uvInput = getInput('uv')
-        const scaleInput = getInput('scale')
-        const uvValue =
-          uvInput?.kind === 'vec2'
-            ? (uvInput.value as Color)
-            : uvInput?.kind === 'number'
-              ? new Color(
-                  uvInput.value as number,
-                  uvInput.value as number,
-                  0,
-                )
-              : new Color(0, 0, 0)
-        const scaleValue =
-          scaleInput?.kind === 'vec2'
-            ? (scaleInput.value as Color)
-            : scaleInput?.kind === 'number'
-              ? new Color(
-                  scaleInput.value as number,
-                  scaleInput.value as number,
-                  0,
-                )
-              : new Color(1, 1, 0)
-        const value = new Color(
-          uvValue.r * scaleValue.r,
-          uvValue.g * scaleValue.g,
-          0,
-        )
-        stack.delete(nodeId)
-        return { kind: 'vec2', value }
-      }
-      if (node.type === 'offsetUV') {
-        const uvInput = getInput('uv')
-        const offsetInput = getInput('offset')
-        const uvValue =
-          uvInput?.kind === 'vec2'
-            ? (uvInput.value as Color)
-            : uvInput?.kind === 'number'
-              ? new Color(
-                  uvInput.value as number,
-                  uvInput.value as number,
-                  0,
-                )
-              : new Color(0, 0, 0)
-        const offsetValue =
-          offsetInput?.kind === 'vec2'
-            ? (offsetInput.value as Color)
-            : offsetInput?.kind === 'number'
-              ? new Color(
-                  offsetInput.value as number,
-                  offsetInput.value as number,
-                  0,
-                )
-              : new Color(0, 0, 0)
-        const value = new Color(
-          uvValue.r + offsetValue.r,
-          uvValue.g + offsetValue.g,
-          0,
-        )
-        stack.delete(nodeId)
-        return { kind: 'vec2', value }
-      }
-      if (node.type === 'spherizeUV') {
-        const uvInput = getInput('uv')
-        const uvValue =
-          uvInput?.kind === 'vec2'
-            ? (uvInput.value as Color)
-            : uvInput?.kind === 'number'
-              ? new Color(
-                  uvInput.value as number,
-                  uvInput.value as number,
-                  0,
-                )
-              : new Color(0, 0, 0)
-        stack.delete(nodeId)
-        return { kind: 'vec2', value: uvValue }
-      }
-      if (node.type === 'spritesheetUV') {
-        const uvInput = getInput('uv')
-        const uvValue =
-          uvInput?.kind === 'vec2'
-            ? (uvInput.value as Color)
-            : uvInput?.kind === 'number'
-              ? new Color(
-                  uvInput.value as number,
-                  uvInput.value as number,
-                  0,
-                )
-              : new Color(0, 0, 0)
-        stack.delete(nodeId)
-        return { kind: 'vec2', value: uvValue }
-      }
-      if (node.type === 'distance') {
-        const inputA = getInput('a')
-        const inputB = getInput('b')
-        const kind = resolveVectorOutputKind([
-          inputA?.kind ?? 'number',
-          inputB?.kind ?? 'number',
-        ])
-        if (kind === 'number') {
-          const a = inputA?.kind === 'number' ? (inputA.value as number) : 0
-          const b = inputB?.kind === 'number' ? (inputB.value as number) : 0
-          const value = Math.abs(a - b)
-          stack.delete(nodeId)
-          return { kind: 'number', value }
-        }
-        if (kind === 'color' || kind === 'vec2' || kind === 'vec3' || kind === 'vec4') {
-          const a = toColorValue(inputA)
-          const b = toColorValue(inputB)
-          const dx = a.r - b.r
-          const dy = a.g - b.g
-          const dz = a.b - b.b
-          const value = Math.sqrt(dx * dx + dy * dy + dz * dz)
-          stack.delete(nodeId)
-          return { kind: 'number', value }
-        }
-        stack.delete(nodeId)
-        return { kind: 'number', value: 0 }
-      }
-      if (node.type === 'reflect' || node.type === 'refract' || node.type === 'faceforward') {
-        const toVec3Value = (entry: ReturnType<typeof getInput> | null) => {
-          if (!entry) return new Color(0, 0, 0)
-          if (
-            entry.kind === 'color' ||
-            entry.kind === 'vec2' ||
-            entry.kind === 'vec3' ||
-            entry.kind === 'vec4'
-          ) {
-            return (entry.value as Color).clone()
-          }
-          const value = entry.value as number
-          return new Color(value, value, value)
-        }
-        if (node.type === 'reflect') {
-          const incident = toVec3Value(getInput('incident'))
-          const normal = toVec3Value(getInput('normal'))
-          const dotValue =
-            incident.r * normal.r + incident.g * normal.g + incident.b * normal.b
-          const scale = 2 * dotValue
-          const value = new Color(
-            incident.r - scale * normal.r,
-            incident.g - scale * normal.g,
-            incident.b - scale * normal.b,
-          )
-          const kind =
-            getInput('incident')?.kind === 'color' || getInput('normal')?.kind === 'color'
-              ? 'color'
-              : 'vec3'
-          stack.delete(nodeId)
-          return { kind, value }
-        }
-        if (node.type === 'refract') {
-          const incident = toVec3Value(getInput('incident'))
-          const normal = toVec3Value(getInput('normal'))
-          const etaInput = getInput('eta')
-          const eta = etaInput?.kind === 'number' ? (etaInput.value as number) : 1
-          const dotValue =
-            incident.r * normal.r + incident.g * normal.g + incident.b * normal.b
-          const k = 1 - eta * eta * (1 - dotValue * dotValue)
-          const value =
-            k < 0
-              ? new Color(0, 0, 0)
-              : new Color(
-                  eta * incident.r - (eta * dotValue + Math.sqrt(k)) * normal.r,
-                  eta * incident.g - (eta * dotValue + Math.sqrt(k)) * normal.g,
-                  eta * incident.b - (eta * dotValue + Math.sqrt(k)) * normal.b,
-                )
-          const kind =
-            getInput('incident')?.kind === 'color' || getInput('normal')?.kind === 'color'
-              ? 'color'
-              : 'vec3'
-          stack.delete(nodeId)
-          return { kind, value }
-        }
-        const n = toVec3Value(getInput('n'))
-        const i = toVec3Value(getInput('i'))
-        const nref = toVec3Value(getInput('nref'))
-        const dotValue = nref.r * i.r + nref.g * i.g + nref.b * i.b
-        const value = dotValue < 0 ? n : new Color(-n.r, -n.g, -n.b)
-        const kind =
-          getInput('n')?.kind === 'color' ||
-          getInput('i')?.kind === 'color' ||
-          getInput('nref')?.kind === 'color'
-            ? 'color'
-            : 'vec3'
-        stack.delete(nodeId)
-        return { kind, value }
-      }
-      if (node.type === 'triNoise3D') {
-        stack.delete(nodeId)
-        return { kind: 'number', value: 0 }
-      }
-      if (node.type === 'smoothstep') {
-        const edge0Input = getInput('edge0')
-        const edge1Input = getInput('edge1')
-        const xInput = getInput('x')
-        const kind = resolveVectorOutputKind([
-          edge0Input?.kind ?? 'number',
-          edge1Input?.kind ?? 'number',
-          xInput?.kind ?? 'number',
-        ])
-        const smoothstepScalar = (edge0: number, edge1: number, x: number) => {
-          const t = Math.min(Math.max((x - edge0) / (edge1 - edge0), 0), 1)
-          return t * t * (3 - 2 * t)
-        }
-        if (kind === 'number') {
-          const edge0 = edge0Input?.kind === 'number' ? (edge0Input.value as number) : 0
-          const edge1 = edge1Input?.kind === 'number' ? (edge1Input.value as number) : 1
-          const x = xInput?.kind === 'number' ? (xInput.value as number) : 0
-          const value = smoothstepScalar(edge0, edge1, x)
-          stack.delete(nodeId)
-          return { kind: 'number', value }
-        }
-        if (kind === 'color' || kind === 'vec2' || kind === 'vec3' || kind === 'vec4') {
-          const edge0 = toColorValue(edge0Input)
-          const edge1 = toColorValue(edge1Input)
-          const x = toColorValue(xInput)
-          const value = new Color(
-            smoothstepScalar(edge0.r, edge1.r, x.r),
-            smoothstepScalar(edge0.g, edge1.g, x.g),
-            smoothstepScalar(edge0.b, edge1.b, x.b),
-          )
-          stack.delete(nodeId)
-          return { kind, value }
-        }
-        stack.delete(nodeId)
-        return { kind: 'number', value: 0 }
-      }
-      if (node.type === 'pow') {
-        const baseInput = getInput('base')
-        const expInput = getInput('exp')
-        const kind = resolveVectorOutputKind([
-          baseInput?.kind ?? 'number',
-          expInput?.kind ?? 'number',
-        ])
-        if (kind === 'number') {
-          const baseValue = baseInput?.kind === 'number' ? (baseInput.value as number) : 0
-          const expValue = expInput?.kind === 'number' ? (expInput.value as number) : 1
-          const value = Math.pow(baseValue, expValue)
-          stack.delete(nodeId)
-          return { kind: 'number', value }
-        }
-        if (kind === 'color' || kind === 'vec2' || kind === 'vec3' || kind === 'vec4') {
-          const baseValue = toColorValue(baseInput)
-          const expValue = toColorValue(expInput)
-          const value = new Color(
-            Math.pow(baseValue.r, expValue.r),
-            Math.pow(baseValue.g, expValue.g),
-            Math.pow(baseValue.b, expValue.b),
-          )
-          stack.delete(nodeId)
-          return { kind, value }
-        }
-        stack.delete(nodeId)
-        return { kind: 'number', value: 0 }
-      }
-      if (node.type === 'vec2') {
-        const inputX = getInput('x')
-        const inputY = getInput('y')
-        const valueX = inputX?.kind === 'number' ? (inputX.value as number) : 0
-        const valueY = inputY?.kind === 'number' ? (inputY.value as number) : 0
-        const value = new Color(valueX, valueY, 0)
-        stack.delete(nodeId)
-        return { kind: 'vec2', value }
-      }
-      if (node.type === 'vec3') {
-        const inputX = getInput('x')
-        const inputY = getInput('y')
-        const inputZ = getInput('z')
-        const valueX = inputX?.kind === 'number' ? (inputX.value as number) : 0
-        const valueY = inputY?.kind === 'number' ? (inputY.value as number) : 0
-        const valueZ = inputZ?.kind === 'number' ? (inputZ.value as number) : 0
-        const value = new Color(valueX, valueY, valueZ)
-        stack.delete(nodeId)
-        return { kind: 'vec3', value }
-      }
-      if (node.type === 'scale') {
-        const inputValue = getInput('value')
-        const inputScale = getInput('scale')
-        const value =
-          inputValue?.kind === 'vec3'
-            ? (inputValue.value as Color).clone()
-            : inputValue?.kind === 'number'
-              ? new Color(
-                  inputValue.value as number,
-                  inputValue.value as number,
-                  inputValue.value as number,
-                )
-              : new Color(0, 0, 0)
-        const scale =
-          inputScale?.kind === 'vec3'
-            ? (inputScale.value as Color)
-            : inputScale?.kind === 'number'
-              ? new Color(
-                  inputScale.value as number,
-                  inputScale.value as number,
-                  inputScale.value as number,
-                )
-              : new Color(1, 1, 1)
-        value.multiply(scale)
-        stack.delete(nodeId)
-        return { kind: 'vec3', value }
-      }
-      if (node.type === 'rotate') {
-        const inputValue = getInput('value')
-        const inputRotation = getInput('rotation')
-        const value =
-          inputValue?.kind === 'vec3'
-            ? (inputValue.value as Color)
-            : inputValue?.kind === 'number'
-              ? new Color(
-                  inputValue.value as number,
-                  inputValue.value as number,
-                  inputValue.value as number,
-                )
-              : new Color(0, 0, 0)
-        const rotation =
-          inputRotation?.kind === 'vec3'
-            ? (inputRotation.value as Color)
-            : inputRotation?.kind === 'number'
-              ? new Color(
-                  inputRotation.value as number,
-                  inputRotation.value as number,
-                  inputRotation.value as number,
-                )
-              : new Color(0, 0, 0)
-        const cx = Math.cos(rotation.r)
-        const sx = Math.sin(rotation.r)
-        const cy = Math.cos(rotation.g)
-        const sy = Math.sin(rotation.g)
-        const cz = Math.cos(rotation.b)
-        const sz = Math.sin(rotation.b)
-        const x1 = value.r
-        const y1 = value.g * cx - value.b * sx
-        const z1 = value.g * sx + value.b * cx
-        const x2 = x1 * cy + z1 * sy
-        const y2 = y1
-        const z2 = z1 * cy - x1 * sy
-        const x3 = x2 * cz - y2 * sz
-        const y3 = x2 * sz + y2 * cz
-        const z3 = z2
-        const rotated = new Color(x3, y3, z3)
-        stack.delete(nodeId)
-        return { kind: 'vec3', value: rotated }
-      }
-      if (node.type === 'vec4') {
-        const inputX = getInput('x')
-        const inputY = getInput('y')
-        const inputZ = getInput('z')
-        const valueX = inputX?.kind === 'number' ? (inputX.value as number) : 0
-        const valueY = inputY?.kind === 'number' ? (inputY.value as number) : 0
-        const valueZ = inputZ?.kind === 'number' ? (inputZ.value as number) : 0
-        const value = new Color(valueX, valueY, valueZ)
-        stack.delete(nodeId)
-        return { kind: 'vec4', value }
-      }
-      if (node.type === 'splitVec2') {
-        const input = getInput('value')
-        if (!input) {
-          stack.delete(nodeId)
-          return { kind: 'number', value: 0 }
-        }
-        const colorValue =
-          input.kind === 'vec2'
-            ? (input.value as Color)
-            : new Color(input.value as number, input.value as number, 0)
-        const channel = outputPin === 'y' ? colorValue.g : colorValue.r
-        stack.delete(nodeId)
-        return { kind: 'number', value: channel }
-      }
-      if (node.type === 'splitVec3') {
-        const input = getInput('value')
-        if (!input) {
-          stack.delete(nodeId)
-          return { kind: 'number', value: 0 }
-        }
-        const colorValue =
-          input.kind === 'vec3'
-            ? (input.value as Color)
-            : new Color(input.value as number, input.value as number, input.value as number)
-        const channel =
-          outputPin === 'y' ? colorValue.g : outputPin === 'z' ? colorValue.b : colorValue.r
-        stack.delete(nodeId)
-        return { kind: 'number', value: channel }
-      }
-      if (node.type === 'splitVec4') {
-        const input = getInput('value')
-        if (!input) {
-          stack.delete(nodeId)
-          return { kind: 'number', value: 0 }
-        }
-        const colorValue =
-          input.kind === 'vec4'
-            ? (input.value as Color)
-            : new Color(input.value as number, input.value as number, input.value as number)
-        const channel =
-          outputPin === 'y'
-            ? colorValue.g
-            : outputPin === 'z'
-              ? colorValue.b
-              : outputPin === 'w'
-                ? 1
-                : colorValue.r
-        stack.delete(nodeId)
-        return { kind: 'number', value: channel }
-      }
-      if (node.type === 'cosine') {
-        const input = getInput('value')
-        if (!input || input.kind !== 'number') {
-          stack.delete(nodeId)
-          return { kind: 'number', value: 0 }
-        }
-        const value = Math.cos(input.value as number)
-        stack.delete(nodeId)
-        return { kind: 'number', value }
-      }
-      if (
-        node.type === 'tan' ||
-        node.type === 'asin' ||
-        node.type === 'acos' ||
-        node.type === 'atan' ||
-        node.type === 'radians' ||
-        node.type === 'degrees'
-      ) {
-        const input = getInput('value')
-        if (!input || (!isVectorKind(input.kind) && input.kind !== 'number')) {
-          stack.delete(nodeId)
-          return { kind: 'number', value: 0 }
-        }
-        const op = (value: number) => {
-          if (node.type === 'tan') return Math.tan(value)
-          if (node.type === 'asin') return Math.asin(value)
-          if (node.type === 'acos') return Math.acos(value)
-          if (node.type === 'atan') return Math.atan(value)
-          if (node.type === 'radians') return (value * Math.PI) / 180
-          return (value * 180) / Math.PI
-        }
-        if (input.kind === 'number') {
-          const value = op(input.value as number)
-          stack.delete(nodeId)
-          return { kind: 'number', value }
-        }
-        const source = toColorValue(input)
-        const value = new Color(op(source.r), op(source.g), op(source.b))
-        stack.delete(nodeId)
-        return { kind: input.kind, value }
-      }
-      if (node.type === 'atan2') {
-        const inputY = getInput('y')
-        const inputX = getInput('x')
-        const combined = resolveVectorOutputKind([
-          inputY?.kind ?? 'number',
-          inputX?.kind ?? 'number',
-        ])
-        if (combined === 'number') {
-          const y = inputY?.kind === 'number' ? (inputY.value as number) : 0
-          const x = inputX?.kind === 'number' ? (inputX.value as number) : 0
-          const value = Math.atan2(y, x)
-          stack.delete(nodeId)
-          return { kind: 'number', value }
-        }
-        if (combined === 'color' || combined === 'vec2' || combined === 'vec3' || combined === 'vec4') {
-          const y = toColorValue(inputY)
-          const x = toColorValue(inputX)
-          const value = new Color(
-            Math.atan2(y.r, x.r),
-            Math.atan2(y.g, x.g),
-            Math.atan2(y.b, x.b),
-          )
-          stack.delete(nodeId)
-          return { kind: combined, value }
-        }
-        stack.delete(nodeId)
-        return { kind: 'number', value: 0 }
-      }
-      if (node.type === 'abs') {
-        const input = getInput('value')
-        if (!input || input.kind !== 'number') {
-          stack.delete(nodeId)
-          return { kind: 'number', value: 0 }
-        }
-        const value = Math.abs(input.value as number)
-        stack.delete(nodeId)
-        return { kind: 'number', value }
-      }
-      if (node.type === 'clamp') {
-        const valueInput = getInput('value')
-        if (!valueInput || valueInput.kind !== 'number') {
-          stack.delete(nodeId)
-          return { kind: 'number', value: 0 }
-        }
-        const minInput = getInput('min')
-        const maxInput = getInput('max')
-        const minValue = minInput?.kind === 'number' ? (minInput.value as number) : 0
-        const maxValue = maxInput?.kind === 'number' ? (maxInput.value as number) : 1
-        const value = Math.min(
-          Math.max(valueInput.value as number, minValue),
-          maxValue,
-        )
-        stack.delete(nodeId)
-        return { kind: 'number', value }
-      }
-      if (node.type === 'min' || node.type === 'max' || node.type === 'mod') {
-        const inputA =
-          getInput('a') ??
-          ({
-            kind: 'number' as const,
-            value: 0,
-          })
-        const inputB =
-          getInput('b') ??
-          ({
-            kind: 'number' as const,
-            value: 0,
-          })
-        const combined = combineTypes(inputA.kind, inputB.kind)
-        const modScalar = (x: number, y: number) => x - y * Math.floor(x / y)
-        if (combined === 'number') {
-          const a = inputA.value as number
-          const b = inputB.value as number
-          const value =
-            node.type === 'min'
-              ? Math.min(a, b)
-              : node.type === 'max'
-                ? Math.max(a, b)
-                : modScalar(a, b)
-          stack.delete(nodeId)
-          return { kind: 'number', value }
-        }
-        if (combined === 'color' || combined === 'vec2' || combined === 'vec3' || combined === 'vec4') {
-          const a = toColorValue(inputA)
-          const b = toColorValue(inputB)
-          const value =
-            node.type === 'min'
-              ? new Color(
-                  Math.min(a.r, b.r),
-                  Math.min(a.g, b.g),
-                  Math.min(a.b, b.b),
-                )
-              : node.type === 'max'
-                ? new Color(
-                    Math.max(a.r, b.r),
-                    Math.max(a.g, b.g),
-                    Math.max(a.b, b.b),
-                  )
-                : new Color(
-                    modScalar(a.r, b.r),
-                    modScalar(a.g, b.g),
-                    modScalar(a.b, b.b),
-                  )
-          stack.delete(nodeId)
-          return { kind: combined, value }
-        }
-        stack.delete(nodeId)
-        return { kind: 'number', value: 0 }
-      }
-      if (node.type === 'step') {
-        const edgeInput = getInput('edge')
-        const xInput = getInput('x')
-        const kind = resolveVectorOutputKind([
-          edgeInput?.kind ?? 'number',
-          xInput?.kind ?? 'number',
-        ])
-        const stepScalar = (edge: number, x: number) => (x < edge ? 0 : 1)
-        if (kind === 'number') {
-          const edge = edgeInput?.kind === 'number' ? (edgeInput.value as number) : 0
-          const x = xInput?.kind === 'number' ? (xInput.value as number) : 0
-          const value = stepScalar(edge, x)
-          stack.delete(nodeId)
-          return { kind: 'number', value }
-        }
-        if (kind === 'color' || kind === 'vec2' || kind === 'vec3' || kind === 'vec4') {
-          const edge = toColorValue(edgeInput)
-          const x = toColorValue(xInput)
-          const value = new Color(
-            stepScalar(edge.r, x.r),
-            stepScalar(edge.g, x.g),
-            stepScalar(edge.b, x.b),
-          )
-          stack.delete(nodeId)
-          return { kind, value }
-        }
-        stack.delete(nodeId)
-        return { kind: 'number', value: 0 }
-      }
-      if (node.type === 'stepElement') {
-        const xInput = getInput('x')
-        const edgeInput = getInput('edge')
-        const kind = resolveVectorOutputKind([
-          edgeInput?.kind ?? 'number',
-          xInput?.kind ?? 'number',
-        ])
-        const stepScalar = (edge: number, x: number) => (x < edge ? 0 : 1)
-        if (kind === 'number') {
-          const edge = edgeInput?.kind === 'number' ? (edgeInput.value as number) : 0
-          const x = xInput?.kind === 'number' ? (xInput.value as number) : 0
-          const value = stepScalar(edge, x)
-          stack.delete(nodeId)
-          return { kind: 'number', value }
-        }
-        if (kind === 'color' || kind === 'vec2' || kind === 'vec3' || kind === 'vec4') {
-          const edge = toColorValue(edgeInput)
-          const x = toColorValue(xInput)
-          const value = new Color(
-            stepScalar(edge.r, x.r),
-            stepScalar(edge.g, x.g),
-            stepScalar(edge.b, x.b),
-          )
-          stack.delete(nodeId)
-          return { kind, value }
-        }
-        stack.delete(nodeId)
-        return { kind: 'number', value: 0 }
-      }
-      if (
-        node.type === 'lessThan' ||
-        node.type === 'lessThanEqual' ||
-        node.type === 'greaterThan' ||
-        node.type === 'greaterThanEqual' ||
-        node.type === 'equal' ||
-        node.type === 'notEqual'
-      ) {
-        const inputA = getInput('a')
-        const inputB = getInput('b')
-        const kind = resolveVectorOutputKind([
-          inputA?.kind ?? 'number',
-          inputB?.kind ?? 'number',
-        ])
-        const compareScalar = (a: number, b: number) => {
-          if (node.type === 'lessThan') return a < b ? 1 : 0
-          if (node.type === 'lessThanEqual') return a <= b ? 1 : 0
-          if (node.type === 'greaterThan') return a > b ? 1 : 0
-          if (node.type === 'greaterThanEqual') return a >= b ? 1 : 0
-          if (node.type === 'equal') return a === b ? 1 : 0
-          return a !== b ? 1 : 0
-        }
-        if (kind === 'number') {
-          const a = inputA?.kind === 'number' ? (inputA.value as number) : 0
-          const b = inputB?.kind === 'number' ? (inputB.value as number) : 0
-          const value = compareScalar(a, b)
-          stack.delete(nodeId)
-          return { kind: 'number', value }
-        }
-        if (kind === 'color' || kind === 'vec2' || kind === 'vec3' || kind === 'vec4') {
-          const a = toColorValue(inputA)
-          const b = toColorValue(inputB)
-          const value = new Color(
-            compareScalar(a.r, b.r),
-            compareScalar(a.g, b.g),
-            compareScalar(a.b, b.b),
-          )
-          stack.delete(nodeId)
-          return { kind, value }
-        }
-        stack.delete(nodeId)
-        return { kind: 'number', value: 0 }
-      }
-      if (node.type === 'and' || node.type === 'or') {
-        const inputA = getInput('a')
-        const inputB = getInput('b')
-        const kind = resolveVectorOutputKind([
-          inputA?.kind ?? 'number',
-          inputB?.kind ?? 'number',
-        ])
-        const maskScalar = (value: number) => (value >= 0.5 ? 1 : 0)
-        if (kind === 'number') {
-          const a = inputA?.kind === 'number' ? (inputA.value as number) : 0
-          const b = inputB?.kind === 'number' ? (inputB.value as number) : 0
-          const maskA = maskScalar(a)
-          const maskB = maskScalar(b)
-          const value = node.type === 'and' ? maskA * maskB : Math.max(maskA, maskB)
-          stack.delete(nodeId)
-          return { kind: 'number', value }
-        }
-        if (kind === 'color' || kind === 'vec2' || kind === 'vec3' || kind === 'vec4') {
-          const a = toColorValue(inputA)
-          const b = toColorValue(inputB)
-          const value = new Color(
-            node.type === 'and'
-              ? maskScalar(a.r) * maskScalar(b.r)
-              : Math.max(maskScalar(a.r), maskScalar(b.r)),
-            node.type === 'and'
-              ? maskScalar(a.g) * maskScalar(b.g)
-              : Math.max(maskScalar(a.g), maskScalar(b.g)),
-            node.type === 'and'
-              ? maskScalar(a.b) * maskScalar(b.b)
-              : Math.max(maskScalar(a.b), maskScalar(b.b)),
-          )
-          stack.delete(nodeId)
-          return { kind, value }
-        }
-        stack.delete(nodeId)
-        return { kind: 'number', value: 0 }
-      }
-      if (node.type === 'not') {
-        const input = getInput('value')
-        const kind = input?.kind ?? 'number'
-        const maskScalar = (value: number) => (value >= 0.5 ? 1 : 0)
-        if (kind === 'number') {
-          const value = input?.kind === 'number' ? (input.value as number) : 0
-          const masked = maskScalar(value)
-          stack.delete(nodeId)
-          return { kind: 'number', value: 1 - masked }
-        }
-        if (isVectorKind(kind)) {
-          const colorValue = toColorValue(input)
-          const value = new Color(
-            1 - maskScalar(colorValue.r),
-            1 - maskScalar(colorValue.g),
-            1 - maskScalar(colorValue.b),
-          )
-          stack.delete(nodeId)
-          return { kind, value }
-        }
-        stack.delete(nodeId)
-        return { kind: 'number', value: 0 }
-      }
-      if (
-        node.type === 'fract' ||
-        node.type === 'floor' ||
-        node.type === 'ceil' ||
-        node.type === 'round' ||
-        node.type === 'trunc' ||
-        node.type === 'exp' ||
-        node.type === 'exp2' ||
-        node.type === 'log' ||
-        node.type === 'log2' ||
-        node.type === 'sign' ||
-        node.type === 'oneMinus' ||
-        node.type === 'negate' ||
-        node.type === 'pow2' ||
-        node.type === 'pow3' ||
-        node.type === 'pow4' ||
-        node.type === 'sqrt' ||
-        node.type === 'saturate'
-      ) {
-        const input = getInput('value')
-        if (!input || (!isVectorKind(input.kind) && input.kind !== 'number')) {
-          stack.delete(nodeId)
-          return { kind: 'number', value: 0 }
-        }
-        const op = (value: number) => {
-          if (node.type === 'fract') return value - Math.floor(value)
-          if (node.type === 'floor') return Math.floor(value)
-          if (node.type === 'ceil') return Math.ceil(value)
-          if (node.type === 'round') return Math.round(value)
-          if (node.type === 'trunc') return Math.trunc(value)
-          if (node.type === 'exp') return Math.exp(value)
-          if (node.type === 'exp2') return Math.pow(2, value)
-          if (node.type === 'log') return Math.log(value)
-          if (node.type === 'log2') return Math.log2(value)
-          if (node.type === 'sign') return Math.sign(value)
-          if (node.type === 'oneMinus') return 1 - value
-          if (node.type === 'pow2') return value * value
-          if (node.type === 'pow3') return value * value * value
-          if (node.type === 'pow4') return value * value * value * value
-          if (node.type === 'sqrt') return Math.sqrt(value)
-          if (node.type === 'saturate') return Math.min(1, Math.max(0, value))
-          return -value
-        }
-        if (input.kind === 'number') {
-          const value = op(input.value as number)
-          stack.delete(nodeId)
-          return { kind: 'number', value }
-        }
-        const source = toColorValue(input)
-        const value = new Color(op(source.r), op(source.g), op(source.b))
-        stack.delete(nodeId)
-        return { kind: input.kind, value }
-      }
-      if (node.type === 'mix') {
-        const inputA = getInput('a')
-        const inputB = getInput('b')
-        const inputT = getInput('t')
-        const valueT = inputT?.kind === 'number' ? (inputT.value as number) : 0.5
-        const typeA = inputA?.kind ?? 'number'
-        const typeB = inputB?.kind ?? 'number'
-        const combined = combineTypes(typeA, typeB)
-        if (combined === 'number') {
-          const valueA = inputA?.kind === 'number' ? (inputA.value as number) : 0
-          const valueB = inputB?.kind === 'number' ? (inputB.value as number) : 1
-          const value = valueA * (1 - valueT) + valueB * valueT
-          stack.delete(nodeId)
-          return { kind: 'number', value }
-        }
-        if (combined === 'color' || combined === 'vec2' || combined === 'vec3' || combined === 'vec4') {
-          const toColorValue = (entry: typeof inputA) =>
-            entry?.kind === 'color' || entry?.kind === 'vec2' || entry?.kind === 'vec3' || entry?.kind === 'vec4'
-              ? (entry.value as Color)
-              : new Color(0, 0, 0)
-          const colorA = inputA?.kind === 'number'
-            ? new Color(inputA.value as number, inputA.value as number, inputA.value as number)
-            : toColorValue(inputA)
-          const colorB = inputB?.kind === 'number'
-            ? new Color(inputB.value as number, inputB.value as number, inputB.value as number)
-            : toColorValue(inputB)
-          const value = colorA.clone().lerp(colorB, valueT)
-          stack.delete(nodeId)
-          return { kind: combined as typeof combined, value }
-        }
-        stack.delete(nodeId)
-        return { kind: 'number', value: 0 }
-      }
-      if (node.type === 'ifElse') {
-        const inputCond = getInput('cond')
-        const inputA = getInput('a')
-        const inputB = getInput('b')
-        const inputThreshold = getInput('threshold')
-        const combined = combineTypes(inputA?.kind ?? 'number', inputB?.kind ?? 'number')
-        const threshold =
-          inputThreshold?.kind === 'number' ? (inputThreshold.value as number) : 0.5
-        if (combined === 'number') {
-          const condValue =
-            inputCond?.kind === 'number'
-              ? (inputCond.value as number)
-              : inputCond && isVectorKind(inputCond.kind)
-                ? Math.sqrt(
-                    (inputCond.value as Color).r ** 2 +
-                      (inputCond.value as Color).g ** 2 +
-                    (inputCond.value as Color).b ** 2,
-                  )
-                : 0
-          const useA = condValue >= threshold
-          const value = useA
-            ? inputA?.kind === 'number'
-              ? (inputA.value as number)
-              : 1
-            : inputB?.kind === 'number'
-              ? (inputB.value as number)
-              : 0
-          stack.delete(nodeId)
-          return { kind: 'number', value }
-        }
-        if (combined === 'color' || combined === 'vec2' || combined === 'vec3' || combined === 'vec4') {
-          const toColorValue = (entry: typeof inputA, fallback: number) =>
-            entry?.kind === 'color' || entry?.kind === 'vec2' || entry?.kind === 'vec3' || entry?.kind === 'vec4'
-              ? (entry.value as Color)
-              : new Color(fallback, fallback, fallback)
-          const condValue =
-            inputCond?.kind === 'number'
-              ? new Color(inputCond.value as number, inputCond.value as number, inputCond.value as number)
-              : inputCond && isVectorKind(inputCond.kind)
-                ? (inputCond.value as Color)
-                : new Color(0, 0, 0)
-          const valueA = toColorValue(inputA, 1)
-          const valueB = toColorValue(inputB, 0)
-          const mixValue = new Color(
-            condValue.r >= threshold ? valueA.r : valueB.r,
-            condValue.g >= threshold ? valueA.g : valueB.g,
-            condValue.b >= threshold ? valueA.b : valueB.b,
-          )
-          stack.delete(nodeId)
-          return { kind: combined as typeof combined, value: mixValue }
-        }
-        stack.delete(nodeId)
-        return { kind: 'number', value: 0 }
-      }
-      if (node.type === 'smoothstepElement') {
-        const lowInput = getInput('low')
-        const highInput = getInput('high')
-        const xInput = getInput('x')
-        const kind = resolveVectorOutputKind([
-          lowInput?.kind ?? 'number',
-          highInput?.kind ?? 'number',
-          xInput?.kind ?? 'number',
-        ])
-        const smoothstepScalar = (edge0: number, edge1: number, x: number) => {
-          const t = Math.min(Math.max((x - edge0) / (edge1 - edge0), 0), 1)
-          return t * t * (3 - 2 * t)
-        }
-        if (kind === 'number') {
-          const edge0 = lowInput?.kind === 'number' ? (lowInput.value as number) : 0
-          const edge1 = highInput?.kind === 'number' ? (highInput.value as number) : 1
-          const x = xInput?.kind === 'number' ? (xInput.value as number) : 0
-          const value = smoothstepScalar(edge0, edge1, x)
-          stack.delete(nodeId)
-          return { kind: 'number', value }
-        }
-        if (kind === 'color' || kind === 'vec2' || kind === 'vec3' || kind === 'vec4') {
-          const edge0 = toColorValue(lowInput)
-          const edge1 = toColorValue(highInput)
-          const x = toColorValue(xInput)
-          const value = new Color(
-            smoothstepScalar(edge0.r, edge1.r, x.r),
-            smoothstepScalar(edge0.g, edge1.g, x.g),
-            smoothstepScalar(edge0.b, edge1.b, x.b),
-          )
-          stack.delete(nodeId)
-          return { kind, value }
-        }
-        stack.delete(nodeId)
-        return { kind: 'number', value: 0 }
-      }
-      if (node.type === 'remap' || node.type === 'remapClamp') {
-        const input = getInput('value')
-        const inLowInput = getInput('inLow')
-        const inHighInput = getInput('inHigh')
-        const outLowInput = getInput('outLow')
-        const outHighInput = getInput('outHigh')
-        const clamp = node.type === 'remapClamp'
-        const remapScalar = (
-          value: number,
-          inLow: number,
-          inHigh: number,
-          outLow: number,
-          outHigh: number,
-        ) => {
-          const denom = inHigh - inLow
-          const t = denom !== 0 ? (value - inLow) / denom : 0
-          const clamped = clamp ? Math.min(1, Math.max(0, t)) : t
-          return outLow + clamped * (outHigh - outLow)
-        }
-        if (!input || input.kind === 'number') {
-          const value = input?.kind === 'number' ? (input.value as number) : 0
-          const inLow = inLowInput?.kind === 'number' ? (inLowInput.value as number) : 0
-          const inHigh = inHighInput?.kind === 'number' ? (inHighInput.value as number) : 1
-          const outLow = outLowInput?.kind === 'number' ? (outLowInput.value as number) : 0
-          const outHigh =
-            outHighInput?.kind === 'number' ? (outHighInput.value as number) : 1
-          const mapped = remapScalar(value, inLow, inHigh, outLow, outHigh)
-          stack.delete(nodeId)
-          return { kind: 'number', value: mapped }
-        }
-        const source = toColorValue(input)
-        const inLow = inLowInput ? toColorValue(inLowInput) : new Color(0, 0, 0)
-        const inHigh = inHighInput ? toColorValue(inHighInput) : new Color(1, 1, 1)
-        const outLow = outLowInput ? toColorValue(outLowInput) : new Color(0, 0, 0)
-        const outHigh = outHighInput ? toColorValue(outHighInput) : new Color(1, 1, 1)
-        const value = new Color(
-          remapScalar(source.r, inLow.r, inHigh.r, outLow.r, outHigh.r),
-          remapScalar(source.g, inLow.g, inHigh.g, outLow.g, outHigh.g),
-          remapScalar(source.b, inLow.b, inHigh.b, outLow.b, outHigh.b),
-        )
-        stack.delete(nodeId)
-        return { kind: input.kind, value }
-      }
-      if (node.type === 'luminance') {
-        const input = getInput('value')
-        const colorValue = toColorValue(input)
-        const value = toLuminanceValue(colorValue)
-        stack.delete(nodeId)
-        return { kind: 'number', value }
-      }
-      if (
-        node.type === 'grayscale' ||
-        node.type === 'saturation' ||
-        node.type === 'posterize' ||
-        node.type === 'sRGBTransferEOTF' ||
-        node.type === 'sRGBTransferOETF' ||
-        node.type === 'linearToneMapping' ||
-        node.type === 'reinhardToneMapping' ||
-        node.type === 'cineonToneMapping' ||
-        node.type === 'acesFilmicToneMapping' ||
-        node.type === 'agxToneMapping' ||
-        node.type === 'neutralToneMapping'
-      ) {
-        const input = getInput('value')
-        const colorValue = toColorValue(input)
-        let value = colorValue.clone()
-        if (node.type === 'grayscale') {
-          const luma = toLuminanceValue(colorValue)
-          value = new Color(luma, luma, luma)
-        } else if (node.type === 'saturation') {
-          const amountInput = getInput('amount')
-          const amount = amountInput?.kind === 'number' ? (amountInput.value as number) : 1
-          const luma = toLuminanceValue(colorValue)
-          const base = new Color(luma, luma, luma)
-          value = base.lerp(colorValue, amount)
-        } else if (node.type === 'posterize') {
-          const stepsInput = getInput('steps')
-          const steps = stepsInput?.kind === 'number' ? (stepsInput.value as number) : 4
-          const safeSteps = steps > 0 ? steps : 1
-          value = new Color(
-            Math.floor(colorValue.r * safeSteps) / safeSteps,
-            Math.floor(colorValue.g * safeSteps) / safeSteps,
-            Math.floor(colorValue.b * safeSteps) / safeSteps,
-          )
-        } else if (node.type === 'sRGBTransferEOTF' || node.type === 'sRGBTransferOETF') {
-          const toLinear = (channel: number) =>
-            channel <= 0.04045
-              ? channel / 12.92
-              : Math.pow((channel + 0.055) / 1.055, 2.4)
-          const toSRGB = (channel: number) =>
-            channel <= 0.0031308
-              ? channel * 12.92
-              : 1.055 * Math.pow(channel, 1 / 2.4) - 0.055
-          const map = node.type === 'sRGBTransferEOTF' ? toLinear : toSRGB
-          value = new Color(map(colorValue.r), map(colorValue.g), map(colorValue.b))
-        }
-        const kind = input?.kind === 'vec3' ? 'vec3' : 'color'
-        stack.delete(nodeId)
-        return { kind, value }
-      }
-      if (node.type === 'material' || node.type === 'physicalMaterial') {
-        const pin = outputPin ?? 'baseColor'
-        const input = getInput(pin)
-        if (pin === 'baseColor') {
-          const base =
-            input?.kind === 'number'
-              ? {
-                  kind: 'color' as const,
-                  value: new Color(
-                    input.value as number,
-                    input.value as number,
-                    input.value as number,
-                  ),
-                }
-              : input
-          const texInput = getInput('baseColorTexture')
-          const tex =
-            texInput?.kind === 'number'
-              ? {
-                  kind: 'color' as const,
-                  value: new Color(
-                    texInput.value as number,
-                    texInput.value as number,
-                    texInput.value as number,
-                  ),
-                }
-              : texInput
-          if (base && tex) {
-            stack.delete(nodeId)
-            return { kind: 'color', value: (base.value as Color).clone().multiply(tex.value as Color) }
-          }
-          if (base) {
-            stack.delete(nodeId)
-            return base
-          }
-          if (tex) {
-            stack.delete(nodeId)
-            return tex
-          }
-        }
-        if (input) {
-          stack.delete(nodeId)
-          return input
-        }
-        stack.delete(nodeId)
-        if (pin === 'roughness' || pin === 'metalness') {
-          return { kind: 'number', value: pin === 'roughness' ? 0.7 : 0.1 }
-        }
-        return { kind: 'color', value: new Color(FALLBACK_COLOR) }
-      }
-      if (node.type === 'basicMaterial') {
-        const pin = outputPin ?? 'baseColor'
-        if (pin === 'baseColor') {
-          const input = getInput('baseColor')
-          const texInput = getInput('baseColorTexture')
-          const base =
-            input?.kind === 'number'
-              ? {
-                  kind: 'color' as const,
-                  value: new Color(
-                    input.value as number,
-                    input.value as number,
-                    input.value as number,
-                  ),
-                }
-              : input
-          const tex =
-            texInput?.kind === 'number'
-              ? {
-                  kind: 'color' as const,
-                  value: new Color(
-                    texInput.value as number,
-                    texInput.value as number,
-                    texInput.value as number,
-                  ),
-                }
-              : texInput
-          if (base && tex) {
-            stack.delete(nodeId)
-            return {
-              kind: 'color',
-              value: (base.value as Color).clone().multiply(tex.value as Color),
-            }
-          }
-          if (base) {
-            stack.delete(nodeId)
-            return base
-          }
-          if (tex) {
-            stack.delete(nodeId)
-            return tex
-          }
-        }
-        stack.delete(nodeId)
-        return { kind: 'color', value: new Color(FALLBACK_COLOR) }
-      }
-      if (node.type === 'output') {
-        const input = getInput('baseColor')
-        stack.delete(nodeId)
-        return input ?? { kind: 'color', value: new Color(FALLBACK_COLOR) }
-      }
-      stack.delete(nodeId)
-      return { kind: 'number', value: 0 }
-    }
-
-    const evalColor = () => {
-      if (!outputNode || !hasOutputConnection) {
-        return new Color(FALLBACK_COLOR)
-      }
-      const result = evalNode(outputNode.id, new Set())
-      if (result.kind === 'color') {
-        return result.value as Color
-      }
-      return new Color(
-        result.value as number,
-        result.value as number,
-        result.value as number,
-      )
-    }
-
-    const evalNumber = (pin: 'roughness' | 'metalness', fallback: number) => {
-      if (!outputNode) return fallback
-      const connection = connectionMap.get(`${outputNode.id}:${pin}`)
-      if (!connection) return fallback
-      const result = evalNode(connection.from.nodeId, new Set(), connection.from.pin)
-      if (result.kind === 'number') {
-        return result.value as number
-      }
-      if (result.kind === 'color') {
-        const colorValue = result.value as Color
-        return (colorValue.r + colorValue.g + colorValue.b) / 3
-      }
-      return fallback
-    }
-
-    return {
-      root: rootNode.node,
-      evalColor,
-      evalRoughness: () => evalNumber('roughness', 0.7),
-      evalMetalness: () => evalNumber('metalness', 0.1),
-      evalMap: () => {
-        if (!outputNode) return null
-        const connection = connectionMap.get(`${outputNode.id}:baseColor`)
-        if (!connection) return null
-        const sourceNode = nodeMap.get(connection.from.nodeId)
-        if (!sourceNode) return null
-        if (sourceNode.type === 'texture') {
-          return textureMapRef.current[sourceNode.id]?.texture ?? null
-        }
-        if (sourceNode.type === 'material' || sourceNode.type === 'basicMaterial') {
-          const texConn = connectionMap.get(`${sourceNode.id}:baseColorTexture`)
-          if (!texConn) return null
-          const texNode = nodeMap.get(texConn.from.nodeId)
-          if (texNode?.type === 'texture') {
-            return textureMapRef.current[texNode.id]?.texture ?? null
-          }
-        }
-        return null
-      },
-      roughnessNode: getOutputInput('roughness'),
-      metalnessNode: getOutputInput('metalness'),
-      vertexPositionNode: vertexOutputNode
-        ? resolveNode(
-            connectionMap.get(`${vertexOutputNode.id}:position`)?.from.nodeId ?? '',
-            new Set(),
-            connectionMap.get(`${vertexOutputNode.id}:position`)?.from.pin,
-          )
-        : null,
-      materialKind,
-      resolveNode,
-    }
-  }
-
-  const buildCodePreview = () => {
-    const expanded = expandFunctions(nodes, connections, functions)
-    const nodeMap = buildNodeMap(expanded.nodes)
-    const connectionMap = buildConnectionMap(expanded.connections)
-    const graphNodes = expanded.nodes
-
-    const outputNode = graphNodes.find((node) => node.type === 'output')
-    const vertexOutputNode = graphNodes.find((node) => node.type === 'vertexOutput')
-    if (!outputNode) {
-      return '// Output node not found'
-    }
-
-    const baseColorConn = getOutputConnection(connectionMap, outputNode, 'baseColor')
-    if (!baseColorConn) {
-      return '// Output.baseColor not connected'
-    }
-
-    const materialKind = getMaterialKindFromOutput(outputNode, nodeMap, connectionMap)
-    const materialClass =
-      materialKind === 'basic'
-        ? 'MeshBasicNodeMaterial'
-        : materialKind === 'physical'
-          ? 'MeshPhysicalNodeMaterial'
-          : 'MeshStandardNodeMaterial'
-
-    const decls: string[] = [`const material = new ${materialClass}();`]
-    const cache = new Map<string, ExprResult>()
-    let varIndex = 1
-
-    const nextVar = (prefix: string) => `${prefix}_${varIndex++}`
-    const asColor = (expr: string, kind: 'color' | 'number') =>
-      kind === 'color' ? expr : `color(${expr}, ${expr}, ${expr})`
-    const asVec2 = (expr: string, kind: 'vec2' | 'number') =>
-      kind === 'vec2' ? expr : `vec2(${expr}, ${expr})`
-    const asVec3 = (expr: string, kind: 'vec3' | 'number') =>
-      kind === 'vec3' ? expr : `vec3(${expr}, ${expr}, ${expr})`
-    const asVec4 = (expr: string, kind: 'vec4' | 'number') =>
-      kind === 'vec4' ? expr : `vec4(${expr}, ${expr}, ${expr}, ${expr})`
-    const toVec2Expr = (input: ExprResult | null) => {
-      if (!input) return 'vec2(0.0, 0.0)'
-      if (input.kind === 'vec2') return input.expr
-      if (input.kind === 'vec3' || input.kind === 'color') {
-        return `vec2(${input.expr}.x, ${input.expr}.y)`
-      }
-      if (input.kind === 'vec4') {
-        return `vec2(${input.expr}.x, ${input.expr}.y)`
-      }
-      return asVec2(input.expr, 'number')
-    }
-    const toVec3Expr = (input: ExprResult | null) => {
-      if (!input) return 'vec3(0.0, 0.0, 0.0)'
-      if (input.kind === 'vec3' || input.kind === 'color') return input.expr
-      if (input.kind === 'vec2') {
-        return `vec3(${input.expr}.x, ${input.expr}.y, 0.0)`
-      }
-      if (input.kind === 'vec4') {
-        return `vec3(${input.expr}.x, ${input.expr}.y, ${input.expr}.z)`
-      }
-      return asVec3(input.expr, 'number')
-    }
-    const toVec4Expr = (input: ExprResult | null) => {
-      if (!input) return 'vec4(0.0, 0.0, 0.0, 1.0)'
-      if (input.kind === 'vec4') return input.expr
-      if (input.kind === 'vec3' || input.kind === 'color') {
-        return `vec4(${input.expr}.x, ${input.expr}.y, ${input.expr}.z, 1.0)`
-      }
-      if (input.kind === 'vec2') {
-        return `vec4(${input.expr}.x, ${input.expr}.y, 0.0, 1.0)`
-      }
-      return asVec4(input.expr, 'number')
-    }
-    const resolveExpr = (nodeId: string, outputPin?: string): ExprResult => {
-      const key = `${nodeId}:${outputPin ?? ''}`
-      const cached = cache.get(key)
-      if (cached) return cached
-
-      const node = nodeMap.get(nodeId)
-      if (!node) {
-        const fallback = { expr: 'float(0.0)', kind: 'number' as const }
-        cache.set(key, fallback)
-        return fallback
-      }
-
-      if (node.type === 'number') {
-        const value = parseNumber(node.value)
-        const name = nextVar('num')
-        decls.push(`const ${name} = uniform(${value.toFixed(3)});`)
-        appendNumberUniformUpdate(decls, name, node)
-        const out = { expr: name, kind: 'number' as const }
-        cache.set(key, out)
-        return out
-      }
-
-      if (node.type === 'color') {
-        const value = typeof node.value === 'string' ? node.value : DEFAULT_COLOR
-        const name = nextVar('col')
-        decls.push(`const ${name} = uniform(new Color('${value}'));`)
-        const out = { expr: name, kind: 'color' as const }
-        cache.set(key, out)
-        return out
-      }
-
-      const attributeExpr = getAttributeExpr(node.type)
-      if (attributeExpr) {
-        cache.set(key, attributeExpr)
-        return attributeExpr
-      }
-
-      if (node.type === 'time') {
-        const name = nextVar('time')
-        decls.push(`const ${name} = uniform(0.0);`)
-        const out = { expr: name, kind: 'number' as const }
-        cache.set(key, out)
-        return out
-      }
-
-      if (node.type === 'texture') {
-        const name = nextVar('tex')
-        decls.push(
-          `const ${name} = texture(uniformTexture(textureFromNode('${node.id}')), uv());`,
-        )
-        const out = { expr: name, kind: 'color' as const }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'gltfTexture') {
-        const name = nextVar('tex')
-        const texId = getGltfTextureId(node.id)
-        decls.push(
-          `const ${name} = texture(uniformTexture(textureFromNode('${texId}')), uv());`,
-        )
-        const out = { expr: name, kind: 'color' as const }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'gltfMaterial') {
-        const pin = outputPin ?? 'baseColor'
-        const entry = gltfMapRef.current[node.id]
-        const materialCount = entry?.materials?.length ?? 0
-        const material = materialCount
-          ? (entry?.materials?.[
-              getMaterialIndex(node, materialCount)
-            ] as GltfMaterial | undefined)
-          : undefined
-        const makeColor = (value?: Color, fallback = FALLBACK_COLOR_HEX) => {
-          const name = nextVar('col')
-          const hex = value ? `#${value.getHexString()}` : fallback
-          decls.push(`const ${name} = color('${hex}');`)
-          return { expr: name, kind: 'color' as const }
-        }
-        const makeNumber = (value: number) => {
-          const name = nextVar('num')
-          decls.push(`const ${name} = float(${value.toFixed(3)});`)
-          return { expr: name, kind: 'number' as const }
-        }
-        const makeVec2 = (value?: Vector2) => {
-          const name = nextVar('vec')
-          const x = value?.x ?? 1
-          const y = value?.y ?? 1
-          decls.push(`const ${name} = vec2(${x.toFixed(3)}, ${y.toFixed(3)});`)
-          return { expr: name, kind: 'vec2' as const }
-        }
-        const makeTexture = (tex: Texture | null | undefined, key: string) => {
-          if (!tex) return null
-          const name = nextVar('tex')
-          const id = getGltfMaterialTextureId(node.id, key)
-          decls.push(`const ${name} = texture(uniformTexture(textureFromNode('${id}')), uv());`)
-          return { expr: name, kind: 'color' as const }
-        }
-        if (!material) {
-          if (pin === 'normalScale') {
-            const out = makeVec2()
-            cache.set(key, out)
-            return out
-          }
-          if (
-            pin === 'roughness' ||
-            pin === 'metalness' ||
-            pin === 'emissiveIntensity' ||
-            pin === 'clearcoat' ||
-            pin === 'clearcoatRoughness' ||
-            pin === 'sheenRoughness' ||
-            pin === 'iridescence' ||
-            pin === 'iridescenceIOR' ||
-            pin === 'iridescenceThickness' ||
-            pin === 'ior' ||
-            pin === 'transmission'
-          ) {
-            const out = makeNumber(0)
-            cache.set(key, out)
-            return out
-          }
-          const out = makeColor()
-          cache.set(key, out)
-          return out
-        }
-        const pbr = material.pbrMetallicRoughness
-        if (pin === 'baseColor') {
-          const out = makeColor(pbr?.baseColorFactor ? new Color().fromArray(pbr.baseColorFactor) : undefined)
-          cache.set(key, out)
-          return out
-        }
-        if (pin === 'baseColorTexture') {
-          const out =
-            makeTexture(pbr?.baseColorTexture?.texture, 'baseColorTexture') ??
-            makeColor(new Color(1, 1, 1))
-          cache.set(key, out)
-          return out
-        }
-        if (pin === 'roughness') {
-          const out = makeNumber(pbr?.roughnessFactor ?? 1)
-          cache.set(key, out)
-          return out
-        }
-        if (pin === 'metalness') {
-          const out = makeNumber(pbr?.metallicFactor ?? 1)
-          cache.set(key, out)
-          return out
-        }
-        if (pin === 'roughnessMap') {
-          const out = makeTexture(pbr?.metallicRoughnessTexture?.texture, 'roughnessMap')
-          if (out) {
-            cache.set(key, out)
-            return out
-          }
-          const fallback = makeColor(new Color(1, 1, 1))
-          cache.set(key, fallback)
-          return fallback
-        }
-        if (pin === 'metalnessMap') {
-          const out = makeTexture(pbr?.metallicRoughnessTexture?.texture, 'metalnessMap')
-          if (out) {
-            cache.set(key, out)
-            return out
-          }
-          const fallback = makeColor(new Color(1, 1, 1))
-          cache.set(key, fallback)
-          return fallback
-        }
-        if (pin === 'emissive') {
-          const emissiveFactor = material.emissiveFactor
-          const out = makeColor(
-            emissiveFactor ? new Color().fromArray(emissiveFactor) : new Color(0, 0, 0),
-          )
-          cache.set(key, out)
-          return out
-        }
-        if (pin === 'emissiveMap') {
-          const out =
-            makeTexture(material.emissiveTexture?.texture, 'emissiveMap') ??
-            makeColor(new Color(0, 0, 0))
-          cache.set(key, out)
-          return out
-        }
-        if (pin === 'emissiveIntensity') {
-          const emissiveStrength = material.emissiveStrength
-          const out = makeNumber(emissiveStrength ?? 1)
-          cache.set(key, out)
-          return out
-        }
-        if (pin === 'normalMap') {
-          const out =
-            makeTexture(material.normalTexture?.texture, 'normalMap') ??
-            makeColor(new Color(0.5, 0.5, 1))
-          cache.set(key, out)
-          return out
-        }
-        if (pin === 'normalScale') {
-          const out = makeVec2(material.normalTexture?.scale)
-          cache.set(key, out)
-          return out
-        }
-        if (pin === 'occlusionMap') {
-          const out =
-            makeTexture(material.occlusionTexture?.texture, 'occlusionMap') ??
-            makeColor(new Color(1, 1, 1))
-          cache.set(key, out)
-          return out
-        }
-        if (pin === 'aoMapIntensity') {
-          const out = makeNumber(material.occlusionTexture?.strength ?? 1)
-          cache.set(key, out)
-          return out
-        }
-        if (pin === 'clearcoat') {
-          const out = makeNumber(material.clearcoatFactor ?? 0)
-          cache.set(key, out)
-          return out
-        }
-        if (pin === 'clearcoatMap') {
-          const out =
-            makeTexture(material.clearcoatTexture?.texture, 'clearcoatMap') ??
-            makeColor(new Color(0, 0, 0))
-          cache.set(key, out)
-          return out
-        }
-        if (pin === 'clearcoatRoughness') {
-          const out = makeNumber(material.clearcoatRoughnessFactor ?? 0)
-          cache.set(key, out)
-          return out
-        }
-        if (pin === 'clearcoatRoughnessMap') {
-          const out =
-            makeTexture(material.clearcoatRoughnessTexture?.texture, 'clearcoatRoughnessMap') ??
-            makeColor(new Color(0, 0, 0))
-          cache.set(key, out)
-          return out
-        }
-        if (pin === 'clearcoatNormalMap') {
-          const out =
-            makeTexture(material.clearcoatNormalTexture?.texture, 'clearcoatNormalMap') ??
-            makeColor(new Color(0.5, 0.5, 1))
-          cache.set(key, out)
-          return out
-        }
-        if (pin === 'sheen') {
-          const sheenFactor = material.sheenColorFactor
-          const out = makeColor(
-            sheenFactor ? new Color().fromArray(sheenFactor) : new Color(0, 0, 0),
-          )
-          cache.set(key, out)
-          return out
-        }
-        if (pin === 'sheenColorMap') {
-          const out =
-            makeTexture(material.sheenColorTexture?.texture, 'sheenColorMap') ??
-            makeColor(new Color(0, 0, 0))
-          cache.set(key, out)
-          return out
-        }
-        if (pin === 'sheenRoughness') {
-          const out = makeNumber(material.sheenRoughnessFactor ?? 0)
-          cache.set(key, out)
-          return out
-        }
-        if (pin === 'sheenRoughnessMap') {
-          const out =
-            makeTexture(material.sheenRoughnessTexture?.texture, 'sheenRoughnessMap') ??
-            makeColor(new Color(0, 0, 0))
-          cache.set(key, out)
-          return out
-        }
-        if (pin === 'iridescence') {
-          const out = makeNumber(material.iridescenceFactor ?? 0)
-          cache.set(key, out)
-          return out
-        }
-        if (pin === 'iridescenceMap') {
-          const out =
-            makeTexture(material.iridescenceTexture?.texture, 'iridescenceMap') ??
-            makeColor(new Color(0, 0, 0))
-          cache.set(key, out)
-          return out
-        }
-        if (pin === 'iridescenceIOR') {
-          const out = makeNumber(material.iridescenceIOR ?? 1.3)
-          cache.set(key, out)
-          return out
-        }
-        if (pin === 'iridescenceThickness') {
-          const range = material.iridescenceThicknessRange
-          const out = makeNumber(range ? range[1] : 400)
-          cache.set(key, out)
-          return out
-        }
-        if (pin === 'iridescenceThicknessMap') {
-          const out =
-            makeTexture(material.iridescenceThicknessTexture?.texture, 'iridescenceThicknessMap') ??
-            makeColor(new Color(0, 0, 0))
-          cache.set(key, out)
-          return out
-        }
-        if (pin === 'ior') {
-          const out = makeNumber(material.ior ?? 1.5)
-          cache.set(key, out)
-          return out
-        }
-        if (pin === 'transmission') {
-          const out = makeNumber(material.transmissionFactor ?? 0)
-          cache.set(key, out)
-          return out
-        }
-        if (pin === 'transmissionMap') {
-          const out =
-            makeTexture(material.transmissionTexture?.texture, 'transmissionMap') ??
-            makeColor(new Color(0, 0, 0))
-          cache.set(key, out)
-          return out
-        }
-        if (pin === 'thickness') {
-          const out = makeNumber(material.thicknessFactor ?? 0)
-          cache.set(key, out)
-          return out
-        }
-        if (pin === 'thicknessMap') {
-          const out =
-            makeTexture(material.thicknessTexture?.texture, 'thicknessMap') ??
-            makeColor(new Color(0, 0, 0))
-          cache.set(key, out)
-          return out
-        }
-        if (pin === 'attenuationColor') {
-          const attenuationColor = material.attenuationColor
-          const out = makeColor(
-            attenuationColor ? new Color().fromArray(attenuationColor) : new Color(1, 1, 1),
-          )
-          cache.set(key, out)
-          return out
-        }
-        if (pin === 'attenuationDistance') {
-          const out = makeNumber(material.attenuationDistance ?? 0)
-          cache.set(key, out)
-          return out
-        }
-        if (pin === 'specularColor') {
-          const specularColor = material.specularColorFactor
-          const out = makeColor(
-            specularColor ? new Color().fromArray(specularColor) : new Color(1, 1, 1),
-          )
-          cache.set(key, out)
-          return out
-        }
-        if (pin === 'specularColorMap') {
-          const out =
-            makeTexture(material.specularColorTexture?.texture, 'specularColorMap') ??
-            makeColor(new Color(1, 1, 1))
-          cache.set(key, out)
-          return out
-        }
-        if (pin === 'specularIntensity') {
-          const out = makeNumber(material.specularFactor ?? 1)
-          cache.set(key, out)
-          return out
-        }
-        if (pin === 'specularIntensityMap') {
-          const out =
-            makeTexture(material.specularTexture?.texture, 'specularIntensityMap') ??
-            makeColor(new Color(1, 1, 1))
-          cache.set(key, out)
-          return out
-        }
-        const out = makeColor()
-        cache.set(key, out)
-        return out
-      }
-
-      if (node.type === 'gltfTexture') {
-        const name = nextVar('tex')
-        const texId = getGltfTextureId(node.id)
-        decls.push(
-          `const ${name} = texture(uniformTexture(textureFromNode('${texId}')), uv());`,
-        )
-        const out = { expr: name, kind: 'color' as const }
-        cache.set(key, out)
-        return out
-      }
-
-      if (node.type === 'gltfTexture') {
-        const name = nextVar('tex')
-        const texId = getGltfTextureId(node.id)
-        decls.push(
-          `const ${name} = texture(uniformTexture(textureFromNode('${texId}')), uv());`,
-        )
-        const out = { expr: name, kind: 'color' as const }
-        cache.set(key, out)
-        return out
-      }
-
-      if (node.type === 'gltfMaterial') {
-        const pin = outputPin ?? 'baseColor'
-        const entry = gltfMapRef.current[node.id]
-        const materialCount = entry?.materials?.length ?? 0
-        const material = materialCount
-          ? (entry?.materials?.[
-              getMaterialIndex(node, materialCount)
-            ] as GltfMaterial | undefined)
-          : undefined
-        const makeColor = (value?: Color, fallback = FALLBACK_COLOR_HEX) => {
-          const name = nextVar('col')
-          const hex = value ? `#${value.getHexString()}` : fallback
-          decls.push(`const ${name} = color('${hex}');`)
-          return { expr: name, kind: 'color' as const }
-        }
-        const makeNumber = (value: number) => {
-          const name = nextVar('num')
-          decls.push(`const ${name} = float(${value.toFixed(3)});`)
-          return { expr: name, kind: 'number' as const }
-        }
-        const makeVec2 = (value?: Vector2) => {
-          const name = nextVar('vec')
-          const x = value?.x ?? 1
-          const y = value?.y ?? 1
-          decls.push(`const ${name} = vec2(${x.toFixed(3)}, ${y.toFixed(3)});`)
-          return { expr: name, kind: 'vec2' as const }
-        }
-        const makeTexture = (tex: Texture | null | undefined, key: string) => {
-          if (!tex) return null
-          const name = nextVar('tex')
-          const id = getGltfMaterialTextureId(node.id, key)
-          decls.push(`const ${name} = texture(uniformTexture(textureFromNode('${id}')), uv());`)
-          return { expr: name, kind: 'color' as const }
-        }
-        if (!material) {
-          if (pin === 'normalScale') {
-            const out = makeVec2()
-            cache.set(key, out)
-            return out
-          }
-          if (
-            pin === 'roughness' ||
-            pin === 'metalness' ||
-            pin === 'emissiveIntensity' ||
-            pin === 'aoMapIntensity' ||
-            pin === 'envMapIntensity' ||
-            pin === 'opacity' ||
-            pin === 'alphaTest' ||
-            pin === 'alphaHash'
-          ) {
-            const out = makeNumber(0)
-            cache.set(key, out)
-            return out
-          }
-          const out = makeColor(undefined, FALLBACK_COLOR_HEX)
-          cache.set(key, out)
-          return out
-        }
-        if (pin === 'baseColor') {
-          const base = makeColor(material.color, DEFAULT_COLOR)
-          const tex = makeTexture(material.map, 'map')
-          if (tex) {
-            const name = nextVar('col')
-            decls.push(`const ${name} = (${base.expr} * ${tex.expr});`)
-            const out = { expr: name, kind: 'color' as const }
-            cache.set(key, out)
-            return out
-          }
-          cache.set(key, base)
-          return base
-        }
-        if (pin === 'baseColorTexture') {
-          const out = makeTexture(material.map, 'map') ?? makeColor(undefined, FALLBACK_COLOR_HEX)
-          cache.set(key, out)
-          return out
-        }
-        if (pin === 'roughness') {
-          const out = makeNumber(material.roughness ?? 0.7)
-          cache.set(key, out)
-          return out
-        }
-        if (pin === 'metalness') {
-          const out = makeNumber(material.metalness ?? 0.1)
-          cache.set(key, out)
-          return out
-        }
-        if (pin === 'roughnessMap') {
-          const out = makeTexture(material.roughnessMap, 'roughnessMap') ?? makeColor(undefined, FALLBACK_COLOR_HEX)
-          cache.set(key, out)
-          return out
-        }
-        if (pin === 'metalnessMap') {
-          const out = makeTexture(material.metalnessMap, 'metalnessMap') ?? makeColor(undefined, FALLBACK_COLOR_HEX)
-          cache.set(key, out)
-          return out
-        }
-        if (pin === 'emissive') {
-          const out = makeColor(material.emissive, '#000000')
-          cache.set(key, out)
-          return out
-        }
-        if (pin === 'emissiveMap') {
-          const out = makeTexture(material.emissiveMap, 'emissiveMap') ?? makeColor(undefined, '#000000')
-          cache.set(key, out)
-          return out
-        }
-        if (pin === 'emissiveIntensity') {
-          const out = makeNumber(material.emissiveIntensity ?? 1)
-          cache.set(key, out)
-          return out
-        }
-        if (pin === 'normalMap') {
-          const out = makeTexture(material.normalMap, 'normalMap') ?? makeColor(undefined, FALLBACK_COLOR_HEX)
-          cache.set(key, out)
-          return out
-        }
-        if (pin === 'normalScale') {
-          const out = makeVec2(material.normalScale ?? undefined)
-          cache.set(key, out)
-          return out
-        }
-        if (pin === 'aoMap') {
-          const out = makeTexture(material.aoMap, 'aoMap') ?? makeColor(undefined, FALLBACK_COLOR_HEX)
-          cache.set(key, out)
-          return out
-        }
-        if (pin === 'aoMapIntensity') {
-          const out = makeNumber(material.aoMapIntensity ?? 1)
-          cache.set(key, out)
-          return out
-        }
-        if (pin === 'envMap') {
-          const out = makeTexture(material.envMap, 'envMap') ?? makeColor(undefined, FALLBACK_COLOR_HEX)
-          cache.set(key, out)
-          return out
-        }
-        if (pin === 'envMapIntensity') {
-          const out = makeNumber(material.envMapIntensity ?? 1)
-          cache.set(key, out)
-          return out
-        }
-        if (pin === 'opacity') {
-          const out = makeNumber(material.opacity ?? 1)
-          cache.set(key, out)
-          return out
-        }
-        if (pin === 'alphaTest') {
-          const out = makeNumber(material.alphaTest ?? 0)
-          cache.set(key, out)
-          return out
-        }
-        if (pin === 'alphaHash') {
-          const out = makeNumber(material.alphaHash ? 1 : 0)
-          cache.set(key, out)
-          return out
-        }
-        const out = makeColor(undefined, FALLBACK_COLOR_HEX)
-        cache.set(key, out)
-        return out
-      }
-
-      if (node.type === 'gltfMaterial') {
-        const pin = outputPin ?? 'baseColor'
-        const entry = gltfMapRef.current[node.id]
-        const materialCount = entry?.materials?.length ?? 0
-        const material = materialCount
-          ? (entry?.materials?.[
-              getMaterialIndex(node, materialCount)
-            ] as GltfMaterial | undefined)
-          : undefined
-        const makeColor = (value?: Color, fallback = FALLBACK_COLOR_HEX) => {
-          const name = nextVar('col')
-          const hex = value ? `#${value.getHexString()}` : fallback
-          decls.push(`const ${name} = uniform(new Color('${hex}'));`)
-          return { expr: name, kind: 'color' as const }
-        }
-        const makeNumber = (value: number) => {
-          const name = nextVar('num')
-          decls.push(`const ${name} = uniform(${value.toFixed(3)});`)
-          return { expr: name, kind: 'number' as const }
-        }
-        const makeVec2 = (value?: Vector2) => {
-          const name = nextVar('vec')
-          const x = value?.x ?? 1
-          const y = value?.y ?? 1
-          decls.push(`const ${name} = vec2(${x.toFixed(3)}, ${y.toFixed(3)});`)
-          return { expr: name, kind: 'vec2' as const }
-        }
-        const makeTexture = (tex: Texture | null | undefined, key: string) => {
-          if (!tex) return null
-          const name = nextVar('tex')
-          const id = getGltfMaterialTextureId(node.id, key)
-          decls.push(`const ${name} = texture(uniformTexture(textureFromNode('${id}')), uv());`)
-          return { expr: name, kind: 'color' as const }
-        }
-        if (!material) {
-          if (pin === 'normalScale') {
-            const out = makeVec2()
-            cache.set(key, out)
-            return out
-          }
-          if (
-            pin === 'roughness' ||
-            pin === 'metalness' ||
-            pin === 'emissiveIntensity' ||
-            pin === 'aoMapIntensity' ||
-            pin === 'envMapIntensity' ||
-            pin === 'opacity' ||
-            pin === 'alphaTest' ||
-            pin === 'alphaHash'
-          ) {
-            const out = makeNumber(0)
-            cache.set(key, out)
-            return out
-          }
-          const out = makeColor(undefined, FALLBACK_COLOR_HEX)
-          cache.set(key, out)
-          return out
-        }
-        if (pin === 'baseColor') {
-          const base = makeColor(material.color, DEFAULT_COLOR)
-          const tex = makeTexture(material.map, 'map')
-          if (tex) {
-            const name = nextVar('col')
-            decls.push(`const ${name} = (${base.expr} * ${tex.expr});`)
-            const out = { expr: name, kind: 'color' as const }
-            cache.set(key, out)
-            return out
-          }
-          cache.set(key, base)
-          return base
-        }
-        if (pin === 'baseColorTexture') {
-          const out = makeTexture(material.map, 'map') ?? makeColor(undefined, FALLBACK_COLOR_HEX)
-          cache.set(key, out)
-          return out
-        }
-        if (pin === 'roughness') {
-          const out = makeNumber(material.roughness ?? 0.7)
-          cache.set(key, out)
-          return out
-        }
-        if (pin === 'metalness') {
-          const out = makeNumber(material.metalness ?? 0.1)
-          cache.set(key, out)
-          return out
-        }
-        if (pin === 'roughnessMap') {
-          const out = makeTexture(material.roughnessMap, 'roughnessMap') ?? makeColor(undefined, FALLBACK_COLOR_HEX)
-          cache.set(key, out)
-          return out
-        }
-        if (pin === 'metalnessMap') {
-          const out = makeTexture(material.metalnessMap, 'metalnessMap') ?? makeColor(undefined, FALLBACK_COLOR_HEX)
-          cache.set(key, out)
-          return out
-        }
-        if (pin === 'emissive') {
-          const out = makeColor(material.emissive, '#000000')
-          cache.set(key, out)
-          return out
-        }
-        if (pin === 'emissiveMap') {
-          const out = makeTexture(material.emissiveMap, 'emissiveMap') ?? makeColor(undefined, '#000000')
-          cache.set(key, out)
-          return out
-        }
-        if (pin === 'emissiveIntensity') {
-          const out = makeNumber(material.emissiveIntensity ?? 1)
-          cache.set(key, out)
-          return out
-        }
-        if (pin === 'normalMap') {
-          const out = makeTexture(material.normalMap, 'normalMap') ?? makeColor(undefined, FALLBACK_COLOR_HEX)
-          cache.set(key, out)
-          return out
-        }
-        if (pin === 'normalScale') {
-          const out = makeVec2(material.normalScale ?? undefined)
-          cache.set(key, out)
-          return out
-        }
-        if (pin === 'aoMap') {
-          const out = makeTexture(material.aoMap, 'aoMap') ?? makeColor(undefined, FALLBACK_COLOR_HEX)
-          cache.set(key, out)
-          return out
-        }
-        if (pin === 'aoMapIntensity') {
-          const out = makeNumber(material.aoMapIntensity ?? 1)
-          cache.set(key, out)
-          return out
-        }
-        if (pin === 'envMap') {
-          const out = makeTexture(material.envMap, 'envMap') ?? makeColor(undefined, FALLBACK_COLOR_HEX)
-          cache.set(key, out)
-          return out
-        }
-        if (pin === 'envMapIntensity') {
-          const out = makeNumber(material.envMapIntensity ?? 1)
-          cache.set(key, out)
-          return out
-        }
-        if (pin === 'opacity') {
-          const out = makeNumber(material.opacity ?? 1)
-          cache.set(key, out)
-          return out
-        }
-        if (pin === 'alphaTest') {
-          const out = makeNumber(material.alphaTest ?? 0)
-          cache.set(key, out)
-          return out
-        }
-        if (pin === 'alphaHash') {
-          const out = makeNumber(material.alphaHash ? 1 : 0)
-          cache.set(key, out)
-          return out
-        }
-        const out = makeColor(undefined, FALLBACK_COLOR_HEX)
-        cache.set(key, out)
-        return out
-      }
-
-      const getInput = (pin: string) => {
-        const connection = connectionMap.get(`${node.id}:${pin}`)
-        if (!connection) return null
-        return resolveExpr(connection.from.nodeId, connection.from.pin)
-      }
-      if (node.type === 'functionInput' || node.type === 'functionOutput') {
-        const input = getInput('value')
-        const out = input ?? { expr: 'float(0.0)', kind: 'number' as const }
-        cache.set(key, out)
-        return out
-      }
-
-      if (node.type === 'add' || node.type === 'multiply') {
-        const left =
-          getInput('a') ??
-          {
-            expr: node.type === 'add' ? 'float(0.0)' : 'float(1.0)',
-            kind: 'number' as const,
-          }
-        const right =
-          getInput('b') ??
-          {
-            expr: node.type === 'add' ? 'float(0.0)' : 'float(1.0)',
-            kind: 'number' as const,
-          }
-        const op = node.type === 'add' ? '+' : '*'
-        const combined = combineTypes(left.kind, right.kind)
-        if (combined === 'unknown') {
-          const out = { expr: 'float(0.0)', kind: 'number' as const }
-          cache.set(key, out)
-          return out
-        }
-        let expr = `(${left.expr} ${op} ${right.expr})`
-        let kind: typeof combined = combined
-        if (combined === 'color') {
-          expr = `(${asColor(left.expr, left.kind === 'number' ? 'number' : 'color')} ${op} ${asColor(
-            right.expr,
-            right.kind === 'number' ? 'number' : 'color',
-          )})`
-        } else if (combined === 'vec2') {
-          expr = `(${asVec2(left.expr, left.kind === 'number' ? 'number' : 'vec2')} ${op} ${asVec2(
-            right.expr,
-            right.kind === 'number' ? 'number' : 'vec2',
-          )})`
-        } else if (combined === 'vec3') {
-          expr = `(${asVec3(left.expr, left.kind === 'number' ? 'number' : 'vec3')} ${op} ${asVec3(
-            right.expr,
-            right.kind === 'number' ? 'number' : 'vec3',
-          )})`
-        } else if (combined === 'vec4') {
-          expr = `(${asVec4(left.expr, left.kind === 'number' ? 'number' : 'vec4')} ${op} ${asVec4(
-            right.expr,
-            right.kind === 'number' ? 'number' : 'vec4',
-          )})`
-        }
-        const name = nextVar(kind === 'number' ? 'num' : 'col')
-        decls.push(`const ${name} = ${expr};`)
-        const out = { expr: name, kind }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'sine') {
-        const input = getInput('value')
-        const valueExpr = input?.kind === 'number' ? input.expr : 'float(0.0)'
-        const expr = `sin(${valueExpr})`
-        const name = nextVar('num')
-        decls.push(`const ${name} = ${expr};`)
-        const out = { expr: name, kind: 'number' as const }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'normalize') {
-        const input = getInput('value')
-        if (!input || !isVectorKind(input.kind)) {
-          const out = { expr: 'float(0.0)', kind: 'number' as const }
-          cache.set(key, out)
-          return out
-        }
-        const expr = `normalize(${input.expr})`
-        const name = nextVar('vec')
-        decls.push(`const ${name} = ${expr};`)
-        const out = { expr: name, kind: input.kind as 'color' | 'vec2' | 'vec3' | 'vec4' }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'dot') {
-        const inputA = getInput('a')
-        const inputB = getInput('b')
-        const vecA = getVectorKind(inputA?.kind ?? 'unknown')
-        const vecB = getVectorKind(inputB?.kind ?? 'unknown')
-        if (!inputA || !inputB || !vecA || !vecB || vecA !== vecB) {
-          const out = { expr: 'float(0.0)', kind: 'number' as const }
-          cache.set(key, out)
-          return out
-        }
-        const expr = `dot(${inputA.expr}, ${inputB.expr})`
-        const name = nextVar('num')
-        decls.push(`const ${name} = ${expr};`)
-        const out = { expr: name, kind: 'number' as const }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'cross') {
-        const inputA = getInput('a')
-        const inputB = getInput('b')
-        const vecA = getVectorKind(inputA?.kind ?? 'unknown')
-        const vecB = getVectorKind(inputB?.kind ?? 'unknown')
-        if (!inputA || !inputB || vecA !== 'vec3' || vecB !== 'vec3') {
-          const out = { expr: 'float(0.0)', kind: 'number' as const }
-          cache.set(key, out)
-          return out
-        }
-        const expr = `cross(${inputA.expr}, ${inputB.expr})`
-        const name = nextVar('vec')
-        decls.push(`const ${name} = ${expr};`)
-        const kind: 'color' | 'vec3' =
-          inputA.kind === 'color' || inputB.kind === 'color' ? 'color' : 'vec3'
-        const out = { expr: name, kind }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'checker') {
-        const input = getInput('coord')
-        const expr =
-          input?.kind === 'vec2'
-            ? input.expr
-            : input?.kind === 'number'
-              ? asVec2(input.expr, 'number')
-              : 'uv()'
-        const name = nextVar('num')
-        decls.push(`const ${name} = checker(${expr});`)
-        const out = { expr: name, kind: 'number' as const }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'dFdx' || node.type === 'dFdy' || node.type === 'fwidth') {
-        const input = getInput('value')
-        if (!input || (!isVectorKind(input.kind) && input.kind !== 'number')) {
-          const out = { expr: 'float(0.0)', kind: 'number' as const }
-          cache.set(key, out)
-          return out
-        }
-        const fn = node.type === 'dFdx' ? 'dFdx' : node.type === 'dFdy' ? 'dFdy' : 'fwidth'
-        const name = nextVar(input.kind === 'number' ? 'num' : 'vec')
-        decls.push(`const ${name} = ${fn}(${input.expr});`)
-        const out = { expr: name, kind: input.kind }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'distance') {
-        const inputA = getInput('a')
-        const inputB = getInput('b')
-        const kind = resolveVectorOutputKind([
-          inputA?.kind ?? 'number',
-          inputB?.kind ?? 'number',
-        ])
-        if (kind === 'unknown') {
-          const out = { expr: 'float(0.0)', kind: 'number' as const }
-          cache.set(key, out)
-          return out
-        }
-        let exprA = inputA?.expr ?? 'float(0.0)'
-        let exprB = inputB?.expr ?? 'float(0.0)'
-        if (kind === 'color') {
-          exprA =
-            inputA?.kind === 'color'
-              ? inputA.expr
-              : inputA?.kind === 'number'
-                ? asColor(inputA.expr, 'number')
-                : 'color(0.0)'
-          exprB =
-            inputB?.kind === 'color'
-              ? inputB.expr
-              : inputB?.kind === 'number'
-                ? asColor(inputB.expr, 'number')
-                : 'color(0.0)'
-        } else if (kind === 'vec2') {
-          exprA =
-            inputA?.kind === 'vec2'
-              ? inputA.expr
-              : inputA?.kind === 'number'
-                ? asVec2(inputA.expr, 'number')
-                : 'vec2(0.0, 0.0)'
-          exprB =
-            inputB?.kind === 'vec2'
-              ? inputB.expr
-              : inputB?.kind === 'number'
-                ? asVec2(inputB.expr, 'number')
-                : 'vec2(0.0, 0.0)'
-        } else if (kind === 'vec3') {
-          exprA =
-            inputA?.kind === 'vec3'
-              ? inputA.expr
-              : inputA?.kind === 'number'
-                ? asVec3(inputA.expr, 'number')
-                : 'vec3(0.0, 0.0, 0.0)'
-          exprB =
-            inputB?.kind === 'vec3'
-              ? inputB.expr
-              : inputB?.kind === 'number'
-                ? asVec3(inputB.expr, 'number')
-                : 'vec3(0.0, 0.0, 0.0)'
-        } else if (kind === 'vec4') {
-          exprA =
-            inputA?.kind === 'vec4'
-              ? inputA.expr
-              : inputA?.kind === 'number'
-                ? asVec4(inputA.expr, 'number')
-                : 'vec4(0.0, 0.0, 0.0, 1.0)'
-          exprB =
-            inputB?.kind === 'vec4'
-              ? inputB.expr
-              : inputB?.kind === 'number'
-                ? asVec4(inputB.expr, 'number')
-                : 'vec4(0.0, 0.0, 0.0, 1.0)'
-        }
-        const expr = `distance(${exprA}, ${exprB})`
-        const name = nextVar('num')
-        decls.push(`const ${name} = ${expr};`)
-        const out = { expr: name, kind: 'number' as const }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'reflect' || node.type === 'refract' || node.type === 'faceforward') {
-        const toVec3Expr = (
-          input: {
-            expr: string
-            kind: 'color' | 'number' | 'vec2' | 'vec3' | 'vec4' | 'mat2' | 'mat3' | 'mat4'
-          } | null,
-        ) => {
-          if (!input) return 'vec3(0.0, 0.0, 0.0)'
-          if (input.kind === 'vec3' || input.kind === 'color') return input.expr
-          if (input.kind === 'number') return asVec3(input.expr, 'number')
-          return 'vec3(0.0, 0.0, 0.0)'
-        }
-        if (node.type === 'reflect') {
-          const incident = getInput('incident')
-          const normal = getInput('normal')
-          const expr = `reflect(${toVec3Expr(incident)}, ${toVec3Expr(normal)})`
-          const name = nextVar('vec')
-          decls.push(`const ${name} = ${expr};`)
-          const kind: 'color' | 'vec3' =
-            incident?.kind === 'color' || normal?.kind === 'color' ? 'color' : 'vec3'
-          const out = { expr: name, kind }
-          cache.set(key, out)
-          return out
-        }
-        if (node.type === 'refract') {
-          const incident = getInput('incident')
-          const normal = getInput('normal')
-          const eta = getInput('eta')
-          const etaExpr = eta?.kind === 'number' ? eta.expr : 'float(1.0)'
-          const expr = `refract(${toVec3Expr(incident)}, ${toVec3Expr(normal)}, ${etaExpr})`
-          const name = nextVar('vec')
-          decls.push(`const ${name} = ${expr};`)
-          const kind: 'color' | 'vec3' =
-            incident?.kind === 'color' || normal?.kind === 'color' ? 'color' : 'vec3'
-          const out = { expr: name, kind }
-          cache.set(key, out)
-          return out
-        }
-        const n = getInput('n')
-        const i = getInput('i')
-        const nref = getInput('nref')
-        const expr = `faceforward(${toVec3Expr(n)}, ${toVec3Expr(i)}, ${toVec3Expr(nref)})`
-        const name = nextVar('vec')
-        decls.push(`const ${name} = ${expr};`)
-        const kind: 'color' | 'vec3' =
-          n?.kind === 'color' || i?.kind === 'color' || nref?.kind === 'color'
-            ? 'color'
-            : 'vec3'
-        const out = { expr: name, kind }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'triNoise3D') {
-        const inputPosition = getInput('position')
-        const inputSpeed = getInput('speed')
-        const inputTime = getInput('time')
-        const positionExpr =
-          inputPosition?.kind === 'vec3'
-            ? inputPosition.expr
-            : inputPosition?.kind === 'number'
-              ? asVec3(inputPosition.expr, 'number')
-              : 'positionLocal'
-        const speedExpr = inputSpeed?.kind === 'number' ? inputSpeed.expr : 'float(1.0)'
-        const timeExpr = inputTime?.kind === 'number' ? inputTime.expr : 'timeUniform'
-        const name = nextVar('num')
-        decls.push(`const ${name} = triNoise3D(${positionExpr}, ${speedExpr}, ${timeExpr});`)
-        const out = { expr: name, kind: 'number' as const }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'mxNoiseFloat' || node.type === 'mxNoiseVec3' || node.type === 'mxNoiseVec4') {
-        const texcoord = getInput('texcoord')
-        const amplitude = getInput('amplitude')
-        const pivot = getInput('pivot')
-        const coordExpr = texcoord
-          ? texcoord.kind === 'vec3' || texcoord.kind === 'color' || texcoord.kind === 'vec4'
-            ? toVec3Expr(texcoord)
-            : toVec2Expr(texcoord)
-          : 'uv()'
-        const amplitudeExpr = amplitude?.kind === 'number' ? amplitude.expr : 'float(1.0)'
-        const pivotExpr = pivot?.kind === 'number' ? pivot.expr : 'float(0.0)'
-        const fn =
-          node.type === 'mxNoiseFloat'
-            ? 'mx_noise_float'
-            : node.type === 'mxNoiseVec3'
-              ? 'mx_noise_vec3'
-              : 'mx_noise_vec4'
-        const name = nextVar(node.type === 'mxNoiseFloat' ? 'num' : 'vec')
-        decls.push(`const ${name} = ${fn}(${coordExpr}, ${amplitudeExpr}, ${pivotExpr});`)
-        const kind =
-          node.type === 'mxNoiseFloat'
-            ? ('number' as const)
-            : node.type === 'mxNoiseVec3'
-              ? ('vec3' as const)
-              : ('vec4' as const)
-        const out = { expr: name, kind }
-        cache.set(key, out)
-        return out
-      }
-      if (
-        node.type === 'mxFractalNoiseFloat' ||
-        node.type === 'mxFractalNoiseVec2' ||
-        node.type === 'mxFractalNoiseVec3' ||
-        node.type === 'mxFractalNoiseVec4'
-      ) {
-        const position = getInput('position')
-        const octaves = getInput('octaves')
-        const lacunarity = getInput('lacunarity')
-        const diminish = getInput('diminish')
-        const amplitude = getInput('amplitude')
-        const positionExpr = position
-          ? position.kind === 'vec3' || position.kind === 'color' || position.kind === 'vec4'
-            ? toVec3Expr(position)
-            : toVec2Expr(position)
-          : 'uv()'
-        const octavesExpr = octaves?.kind === 'number' ? octaves.expr : 'float(3.0)'
-        const lacunarityExpr = lacunarity?.kind === 'number' ? lacunarity.expr : 'float(2.0)'
-        const diminishExpr = diminish?.kind === 'number' ? diminish.expr : 'float(0.5)'
-        const amplitudeExpr = amplitude?.kind === 'number' ? amplitude.expr : 'float(1.0)'
-        const fn =
-          node.type === 'mxFractalNoiseFloat'
-            ? 'mx_fractal_noise_float'
-            : node.type === 'mxFractalNoiseVec2'
-              ? 'mx_fractal_noise_vec2'
-              : node.type === 'mxFractalNoiseVec3'
-                ? 'mx_fractal_noise_vec3'
-                : 'mx_fractal_noise_vec4'
-        const name = nextVar(
-          node.type === 'mxFractalNoiseFloat' ? 'num' : 'vec',
-        )
-        decls.push(
-          `const ${name} = ${fn}(${positionExpr}, ${octavesExpr}, ${lacunarityExpr}, ${diminishExpr}, ${amplitudeExpr});`,
-        )
-        const kind =
-          node.type === 'mxFractalNoiseFloat'
-            ? ('number' as const)
-            : node.type === 'mxFractalNoiseVec2'
-              ? ('vec2' as const)
-              : node.type === 'mxFractalNoiseVec3'
-                ? ('vec3' as const)
-                : ('vec4' as const)
-        const out = { expr: name, kind }
-        cache.set(key, out)
-        return out
-      }
-      if (
-        node.type === 'mxWorleyNoiseFloat' ||
-        node.type === 'mxWorleyNoiseVec2' ||
-        node.type === 'mxWorleyNoiseVec3'
-      ) {
-        const texcoord = getInput('texcoord')
-        const jitter = getInput('jitter')
-        const coordExpr = texcoord
-          ? texcoord.kind === 'vec3' || texcoord.kind === 'color' || texcoord.kind === 'vec4'
-            ? toVec3Expr(texcoord)
-            : toVec2Expr(texcoord)
-          : 'uv()'
-        const jitterExpr = jitter?.kind === 'number' ? jitter.expr : 'float(1.0)'
-        const fn =
-          node.type === 'mxWorleyNoiseFloat'
-            ? 'mx_worley_noise_float'
-            : node.type === 'mxWorleyNoiseVec2'
-              ? 'mx_worley_noise_vec2'
-              : 'mx_worley_noise_vec3'
-        const name = nextVar(node.type === 'mxWorleyNoiseFloat' ? 'num' : 'vec')
-        decls.push(`const ${name} = ${fn}(${coordExpr}, ${jitterExpr});`)
-        const kind =
-          node.type === 'mxWorleyNoiseFloat'
-            ? ('number' as const)
-            : node.type === 'mxWorleyNoiseVec2'
-              ? ('vec2' as const)
-              : ('vec3' as const)
-        const out = { expr: name, kind }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'rotateUV') {
-        const uvInput = getInput('uv')
-        const rotation = getInput('rotation')
-        const center = getInput('center')
-        const uvExpr = toVec2Expr(uvInput ?? { expr: 'uv()', kind: 'vec2' })
-        const rotationExpr = rotation?.kind === 'number' ? rotation.expr : 'float(0.0)'
-        const centerExpr = center ? toVec2Expr(center) : 'vec2(0.5, 0.5)'
-        const name = nextVar('vec')
-        decls.push(`const ${name} = rotateUV(${uvExpr}, ${rotationExpr}, ${centerExpr});`)
-        const out = { expr: name, kind: 'vec2' as const }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'scaleUV') {
-        const uvInput = getInput('uv')
-        const scale = getInput('scale')
-        const uvExpr = toVec2Expr(uvInput ?? { expr: 'uv()', kind: 'vec2' })
-        const scaleExpr = scale ? toVec2Expr(scale) : 'vec2(1.0, 1.0)'
-        const name = nextVar('vec')
-        decls.push(`const ${name} = (${uvExpr} * ${scaleExpr});`)
-        const out = { expr: name, kind: 'vec2' as const }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'offsetUV') {
-        const uvInput = getInput('uv')
-        const offset = getInput('offset')
-        const uvExpr = toVec2Expr(uvInput ?? { expr: 'uv()', kind: 'vec2' })
-        const offsetExpr = offset ? toVec2Expr(offset) : 'vec2(0.0, 0.0)'
-        const name = nextVar('vec')
-        decls.push(`const ${name} = (${uvExpr} + ${offsetExpr});`)
-        const out = { expr: name, kind: 'vec2' as const }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'spherizeUV') {
-        const uvInput = getInput('uv')
-        const strength = getInput('strength')
-        const center = getInput('center')
-        const uvExpr = toVec2Expr(uvInput ?? { expr: 'uv()', kind: 'vec2' })
-        const strengthExpr = strength?.kind === 'number' ? strength.expr : 'float(0.0)'
-        const centerExpr = center ? toVec2Expr(center) : 'vec2(0.5, 0.5)'
-        const name = nextVar('vec')
-        decls.push(
-          `const ${name} = spherizeUV(${uvExpr}, ${strengthExpr}, ${centerExpr});`,
-        )
-        const out = { expr: name, kind: 'vec2' as const }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'spritesheetUV') {
-        const sizeInput = getInput('size')
-        const uvInput = getInput('uv')
-        const time = getInput('time')
-        const sizeExpr = sizeInput ? toVec2Expr(sizeInput) : 'vec2(1.0, 1.0)'
-        const uvExpr = toVec2Expr(uvInput ?? { expr: 'uv()', kind: 'vec2' })
-        const timeExpr = time?.kind === 'number' ? time.expr : 'float(0.0)'
-        const name = nextVar('vec')
-        decls.push(`const ${name} = spritesheetUV(${sizeExpr}, ${uvExpr}, ${timeExpr});`)
-        const out = { expr: name, kind: 'vec2' as const }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'normalize') {
-        const input = getInput('value')
-        if (!input || !isVectorKind(input.kind)) {
-          const out = { expr: 'float(0.0)', kind: 'number' as const }
-          cache.set(key, out)
-          return out
-        }
-        const expr = `normalize(${input.expr})`
-        const name = nextVar('vec')
-        decls.push(`const ${name} = ${expr};`)
-        const out = { expr: name, kind: input.kind as 'color' | 'vec2' | 'vec3' | 'vec4' }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'length') {
-        const input = getInput('value')
-        const valueExpr =
-          input && isVectorKind(input.kind) ? input.expr : 'vec3(0.0, 0.0, 0.0)'
-        const expr = `length(${valueExpr})`
-        const name = nextVar('num')
-        decls.push(`const ${name} = ${expr};`)
-        const out = { expr: name, kind: 'number' as const }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'dot') {
-        const inputA = getInput('a')
-        const inputB = getInput('b')
-        const vecA = getVectorKind(inputA?.kind ?? 'unknown')
-        const vecB = getVectorKind(inputB?.kind ?? 'unknown')
-        if (!inputA || !inputB || !vecA || !vecB || vecA !== vecB) {
-          const out = { expr: 'float(0.0)', kind: 'number' as const }
-          cache.set(key, out)
-          return out
-        }
-        const expr = `dot(${inputA.expr}, ${inputB.expr})`
-        const name = nextVar('num')
-        decls.push(`const ${name} = ${expr};`)
-        const out = { expr: name, kind: 'number' as const }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'cross') {
-        const inputA = getInput('a')
-        const inputB = getInput('b')
-        const vecA = getVectorKind(inputA?.kind ?? 'unknown')
-        const vecB = getVectorKind(inputB?.kind ?? 'unknown')
-        if (!inputA || !inputB || vecA !== 'vec3' || vecB !== 'vec3') {
-          const out = { expr: 'float(0.0)', kind: 'number' as const }
-          cache.set(key, out)
-          return out
-        }
-        const expr = `cross(${inputA.expr}, ${inputB.expr})`
-        const name = nextVar('vec')
-        decls.push(`const ${name} = ${expr};`)
-        const kind: 'color' | 'vec3' =
-          inputA.kind === 'color' || inputB.kind === 'color' ? 'color' : 'vec3'
-        const out = { expr: name, kind }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'checker') {
-        const input = getInput('coord')
-        const expr =
-          input?.kind === 'vec2'
-            ? input.expr
-            : input?.kind === 'number'
-              ? asVec2(input.expr, 'number')
-              : 'uv()'
-        const name = nextVar('num')
-        decls.push(`const ${name} = checker(${expr});`)
-        const out = { expr: name, kind: 'number' as const }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'dFdx' || node.type === 'dFdy' || node.type === 'fwidth') {
-        const input = getInput('value')
-        if (!input || (!isVectorKind(input.kind) && input.kind !== 'number')) {
-          const out = { expr: 'float(0.0)', kind: 'number' as const }
-          cache.set(key, out)
-          return out
-        }
-        const fn = node.type === 'dFdx' ? 'dFdx' : node.type === 'dFdy' ? 'dFdy' : 'fwidth'
-        const name = nextVar(input.kind === 'number' ? 'num' : 'vec')
-        decls.push(`const ${name} = ${fn}(${input.expr});`)
-        const out = { expr: name, kind: input.kind }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'distance') {
-        const inputA = getInput('a')
-        const inputB = getInput('b')
-        const kind = resolveVectorOutputKind([
-          inputA?.kind ?? 'number',
-          inputB?.kind ?? 'number',
-        ])
-        if (kind === 'unknown') {
-          const out = { expr: 'float(0.0)', kind: 'number' as const }
-          cache.set(key, out)
-          return out
-        }
-        let exprA = inputA?.expr ?? 'float(0.0)'
-        let exprB = inputB?.expr ?? 'float(0.0)'
-        if (kind === 'color') {
-          exprA =
-            inputA?.kind === 'color'
-              ? inputA.expr
-              : inputA?.kind === 'number'
-                ? asColor(inputA.expr, 'number')
-                : 'color(0.0)'
-          exprB =
-            inputB?.kind === 'color'
-              ? inputB.expr
-              : inputB?.kind === 'number'
-                ? asColor(inputB.expr, 'number')
-                : 'color(0.0)'
-        } else if (kind === 'vec2') {
-          exprA =
-            inputA?.kind === 'vec2'
-              ? inputA.expr
-              : inputA?.kind === 'number'
-                ? asVec2(inputA.expr, 'number')
-                : 'vec2(0.0, 0.0)'
-          exprB =
-            inputB?.kind === 'vec2'
-              ? inputB.expr
-              : inputB?.kind === 'number'
-                ? asVec2(inputB.expr, 'number')
-                : 'vec2(0.0, 0.0)'
-        } else if (kind === 'vec3') {
-          exprA =
-            inputA?.kind === 'vec3'
-              ? inputA.expr
-              : inputA?.kind === 'number'
-                ? asVec3(inputA.expr, 'number')
-                : 'vec3(0.0, 0.0, 0.0)'
-          exprB =
-            inputB?.kind === 'vec3'
-              ? inputB.expr
-              : inputB?.kind === 'number'
-                ? asVec3(inputB.expr, 'number')
-                : 'vec3(0.0, 0.0, 0.0)'
-        } else if (kind === 'vec4') {
-          exprA =
-            inputA?.kind === 'vec4'
-              ? inputA.expr
-              : inputA?.kind === 'number'
-                ? asVec4(inputA.expr, 'number')
-                : 'vec4(0.0, 0.0, 0.0, 1.0)'
-          exprB =
-            inputB?.kind === 'vec4'
-              ? inputB.expr
-              : inputB?.kind === 'number'
-                ? asVec4(inputB.expr, 'number')
-                : 'vec4(0.0, 0.0, 0.0, 1.0)'
-        }
-        const expr = `distance(${exprA}, ${exprB})`
-        const name = nextVar('num')
-        decls.push(`const ${name} = ${expr};`)
-        const out = { expr: name, kind: 'number' as const }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'reflect' || node.type === 'refract' || node.type === 'faceforward') {
-        const toVec3Expr = (
-          input: {
-            expr: string
-            kind: 'color' | 'number' | 'vec2' | 'vec3' | 'vec4' | 'mat2' | 'mat3' | 'mat4'
-          } | null,
-        ) => {
-          if (!input) return 'vec3(0.0, 0.0, 0.0)'
-          if (input.kind === 'vec3' || input.kind === 'color') return input.expr
-          if (input.kind === 'number') return asVec3(input.expr, 'number')
-          return 'vec3(0.0, 0.0, 0.0)'
-        }
-        if (node.type === 'reflect') {
-          const incident = getInput('incident')
-          const normal = getInput('normal')
-          const expr = `reflect(${toVec3Expr(incident)}, ${toVec3Expr(normal)})`
-          const name = nextVar('vec')
-          decls.push(`const ${name} = ${expr};`)
-          const kind: 'color' | 'vec3' =
-            incident?.kind === 'color' || normal?.kind === 'color' ? 'color' : 'vec3'
-          const out = { expr: name, kind }
-          cache.set(key, out)
-          return out
-        }
-        if (node.type === 'refract') {
-          const incident = getInput('incident')
-          const normal = getInput('normal')
-          const eta = getInput('eta')
-          const etaExpr = eta?.kind === 'number' ? eta.expr : 'float(1.0)'
-          const expr = `refract(${toVec3Expr(incident)}, ${toVec3Expr(normal)}, ${etaExpr})`
-          const name = nextVar('vec')
-          decls.push(`const ${name} = ${expr};`)
-          const kind: 'color' | 'vec3' =
-            incident?.kind === 'color' || normal?.kind === 'color' ? 'color' : 'vec3'
-          const out = { expr: name, kind }
-          cache.set(key, out)
-          return out
-        }
-        const n = getInput('n')
-        const i = getInput('i')
-        const nref = getInput('nref')
-        const expr = `faceforward(${toVec3Expr(n)}, ${toVec3Expr(i)}, ${toVec3Expr(nref)})`
-        const name = nextVar('vec')
-        decls.push(`const ${name} = ${expr};`)
-        const kind: 'color' | 'vec3' =
-          n?.kind === 'color' || i?.kind === 'color' || nref?.kind === 'color'
-            ? 'color'
-            : 'vec3'
-        const out = { expr: name, kind }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'triNoise3D') {
-        const inputPosition = getInput('position')
-        const inputSpeed = getInput('speed')
-        const inputTime = getInput('time')
-        const positionExpr =
-          inputPosition?.kind === 'vec3'
-            ? inputPosition.expr
-            : inputPosition?.kind === 'number'
-              ? asVec3(inputPosition.expr, 'number')
-              : 'positionLocal'
-        const speedExpr = inputSpeed?.kind === 'number' ? inputSpeed.expr : 'float(1.0)'
-        const timeExpr = inputTime?.kind === 'number' ? inputTime.expr : 'timeUniform'
-        const name = nextVar('num')
-        decls.push(`const ${name} = triNoise3D(${positionExpr}, ${speedExpr}, ${timeExpr});`)
-        const out = { expr: name, kind: 'number' as const }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'mxNoiseFloat' || node.type === 'mxNoiseVec3' || node.type === 'mxNoiseVec4') {
-        const texcoord = getInput('texcoord')
-        const amplitude = getInput('amplitude')
-        const pivot = getInput('pivot')
-        const coordExpr = texcoord
-          ? texcoord.kind === 'vec3' || texcoord.kind === 'color' || texcoord.kind === 'vec4'
-            ? toVec3Expr(texcoord)
-            : toVec2Expr(texcoord)
-          : 'uv()'
-        const amplitudeExpr = amplitude?.kind === 'number' ? amplitude.expr : 'float(1.0)'
-        const pivotExpr = pivot?.kind === 'number' ? pivot.expr : 'float(0.0)'
-        const fn =
-          node.type === 'mxNoiseFloat'
-            ? 'mx_noise_float'
-            : node.type === 'mxNoiseVec3'
-              ? 'mx_noise_vec3'
-              : 'mx_noise_vec4'
-        const name = nextVar(node.type === 'mxNoiseFloat' ? 'num' : 'vec')
-        decls.push(`const ${name} = ${fn}(${coordExpr}, ${amplitudeExpr}, ${pivotExpr});`)
-        const kind =
-          node.type === 'mxNoiseFloat'
-            ? ('number' as const)
-            : node.type === 'mxNoiseVec3'
-              ? ('vec3' as const)
-              : ('vec4' as const)
-        const out = { expr: name, kind }
-        cache.set(key, out)
-        return out
-      }
-      if (
-        node.type === 'mxFractalNoiseFloat' ||
-        node.type === 'mxFractalNoiseVec2' ||
-        node.type === 'mxFractalNoiseVec3' ||
-        node.type === 'mxFractalNoiseVec4'
-      ) {
-        const position = getInput('position')
-        const octaves = getInput('octaves')
-        const lacunarity = getInput('lacunarity')
-        const diminish = getInput('diminish')
-        const amplitude = getInput('amplitude')
-        const positionExpr = position
-          ? position.kind === 'vec3' || position.kind === 'color' || position.kind === 'vec4'
-            ? toVec3Expr(position)
-            : toVec2Expr(position)
-          : 'uv()'
-        const octavesExpr = octaves?.kind === 'number' ? octaves.expr : 'float(3.0)'
-        const lacunarityExpr = lacunarity?.kind === 'number' ? lacunarity.expr : 'float(2.0)'
-        const diminishExpr = diminish?.kind === 'number' ? diminish.expr : 'float(0.5)'
-        const amplitudeExpr = amplitude?.kind === 'number' ? amplitude.expr : 'float(1.0)'
-        const fn =
-          node.type === 'mxFractalNoiseFloat'
-            ? 'mx_fractal_noise_float'
-            : node.type === 'mxFractalNoiseVec2'
-              ? 'mx_fractal_noise_vec2'
-              : node.type === 'mxFractalNoiseVec3'
-                ? 'mx_fractal_noise_vec3'
-                : 'mx_fractal_noise_vec4'
-        const name = nextVar(
-          node.type === 'mxFractalNoiseFloat' ? 'num' : 'vec',
-        )
-        decls.push(
-          `const ${name} = ${fn}(${positionExpr}, ${octavesExpr}, ${lacunarityExpr}, ${diminishExpr}, ${amplitudeExpr});`,
-        )
-        const kind =
-          node.type === 'mxFractalNoiseFloat'
-            ? ('number' as const)
-            : node.type === 'mxFractalNoiseVec2'
-              ? ('vec2' as const)
-              : node.type === 'mxFractalNoiseVec3'
-                ? ('vec3' as const)
-                : ('vec4' as const)
-        const out = { expr: name, kind }
-        cache.set(key, out)
-        return out
-      }
-      if (
-        node.type === 'mxWorleyNoiseFloat' ||
-        node.type === 'mxWorleyNoiseVec2' ||
-        node.type === 'mxWorleyNoiseVec3'
-      ) {
-        const texcoord = getInput('texcoord')
-        const jitter = getInput('jitter')
-        const coordExpr = texcoord
-          ? texcoord.kind === 'vec3' || texcoord.kind === 'color' || texcoord.kind === 'vec4'
-            ? toVec3Expr(texcoord)
-            : toVec2Expr(texcoord)
-          : 'uv()'
-        const jitterExpr = jitter?.kind === 'number' ? jitter.expr : 'float(1.0)'
-        const fn =
-          node.type === 'mxWorleyNoiseFloat'
-            ? 'mx_worley_noise_float'
-            : node.type === 'mxWorleyNoiseVec2'
-              ? 'mx_worley_noise_vec2'
-              : 'mx_worley_noise_vec3'
-        const name = nextVar(node.type === 'mxWorleyNoiseFloat' ? 'num' : 'vec')
-        decls.push(`const ${name} = ${fn}(${coordExpr}, ${jitterExpr});`)
-        const kind =
-          node.type === 'mxWorleyNoiseFloat'
-            ? ('number' as const)
-            : node.type === 'mxWorleyNoiseVec2'
-              ? ('vec2' as const)
-              : ('vec3' as const)
-        const out = { expr: name, kind }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'rotateUV') {
-        const uvInput = getInput('uv')
-        const rotation = getInput('rotation')
-        const center = getInput('center')
-        const uvExpr = toVec2Expr(uvInput ?? { expr: 'uv()', kind: 'vec2' })
-        const rotationExpr = rotation?.kind === 'number' ? rotation.expr : 'float(0.0)'
-        const centerExpr = center ? toVec2Expr(center) : 'vec2(0.5, 0.5)'
-        const name = nextVar('vec')
-        decls.push(`const ${name} = rotateUV(${uvExpr}, ${rotationExpr}, ${centerExpr});`)
-        const out = { expr: name, kind: 'vec2' as const }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'scaleUV') {
-        const uvInput = getInput('uv')
-        const scale = getInput('scale')
-        const uvExpr = toVec2Expr(uvInput ?? { expr: 'uv()', kind: 'vec2' })
-        const scaleExpr = scale ? toVec2Expr(scale) : 'vec2(1.0, 1.0)'
-        const name = nextVar('vec')
-        decls.push(`const ${name} = (${uvExpr} * ${scaleExpr});`)
-        const out = { expr: name, kind: 'vec2' as const }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'offsetUV') {
-        const uvInput = getInput('uv')
-        const offset = getInput('offset')
-        const uvExpr = toVec2Expr(uvInput ?? { expr: 'uv()', kind: 'vec2' })
-        const offsetExpr = offset ? toVec2Expr(offset) : 'vec2(0.0, 0.0)'
-        const name = nextVar('vec')
-        decls.push(`const ${name} = (${uvExpr} + ${offsetExpr});`)
-        const out = { expr: name, kind: 'vec2' as const }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'spherizeUV') {
-        const uvInput = getInput('uv')
-        const strength = getInput('strength')
-        const center = getInput('center')
-        const uvExpr = toVec2Expr(uvInput ?? { expr: 'uv()', kind: 'vec2' })
-        const strengthExpr = strength?.kind === 'number' ? strength.expr : 'float(0.0)'
-        const centerExpr = center ? toVec2Expr(center) : 'vec2(0.5, 0.5)'
-        const name = nextVar('vec')
-        decls.push(
-          `const ${name} = spherizeUV(${uvExpr}, ${strengthExpr}, ${centerExpr});`,
-        )
-        const out = { expr: name, kind: 'vec2' as const }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'spritesheetUV') {
-        const sizeInput = getInput('size')
-        const uvInput = getInput('uv')
-        const time = getInput('time')
-        const sizeExpr = sizeInput ? toVec2Expr(sizeInput) : 'vec2(1.0, 1.0)'
-        const uvExpr = toVec2Expr(uvInput ?? { expr: 'uv()', kind: 'vec2' })
-        const timeExpr = time?.kind === 'number' ? time.expr : 'float(0.0)'
-        const name = nextVar('vec')
-        decls.push(`const ${name} = spritesheetUV(${sizeExpr}, ${uvExpr}, ${timeExpr});`)
-        const out = { expr: name, kind: 'vec2' as const }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'smoothstep') {
-        const edge0Input = getInput('edge0')
-        const edge1Input = getInput('edge1')
-        const xInput = getInput('x')
-        const kind = resolveVectorOutputKind([
-          edge0Input?.kind ?? 'number',
-          edge1Input?.kind ?? 'number',
-          xInput?.kind ?? 'number',
-        ])
-        if (kind === 'unknown') {
-          const out = { expr: 'float(0.0)', kind: 'number' as const }
-          cache.set(key, out)
-          return out
-        }
-        let exprEdge0 = edge0Input?.expr ?? 'float(0.0)'
-        let exprEdge1 = edge1Input?.expr ?? 'float(1.0)'
-        let exprX = xInput?.expr ?? 'float(0.0)'
-        if (kind === 'color') {
-          exprEdge0 =
-            edge0Input?.kind === 'color'
-              ? edge0Input.expr
-              : edge0Input?.kind === 'number'
-                ? asColor(edge0Input.expr, 'number')
-                : 'color(0.0)'
-          exprEdge1 =
-            edge1Input?.kind === 'color'
-              ? edge1Input.expr
-              : edge1Input?.kind === 'number'
-                ? asColor(edge1Input.expr, 'number')
-                : 'color(1.0)'
-          exprX =
-            xInput?.kind === 'color'
-              ? xInput.expr
-              : xInput?.kind === 'number'
-                ? asColor(xInput.expr, 'number')
-                : 'color(0.0)'
-        } else if (kind === 'vec2') {
-          exprEdge0 =
-            edge0Input?.kind === 'vec2'
-              ? edge0Input.expr
-              : edge0Input?.kind === 'number'
-                ? asVec2(edge0Input.expr, 'number')
-                : 'vec2(0.0, 0.0)'
-          exprEdge1 =
-            edge1Input?.kind === 'vec2'
-              ? edge1Input.expr
-              : edge1Input?.kind === 'number'
-                ? asVec2(edge1Input.expr, 'number')
-                : 'vec2(1.0, 1.0)'
-          exprX =
-            xInput?.kind === 'vec2'
-              ? xInput.expr
-              : xInput?.kind === 'number'
-                ? asVec2(xInput.expr, 'number')
-                : 'vec2(0.0, 0.0)'
-        } else if (kind === 'vec3') {
-          exprEdge0 =
-            edge0Input?.kind === 'vec3'
-              ? edge0Input.expr
-              : edge0Input?.kind === 'number'
-                ? asVec3(edge0Input.expr, 'number')
-                : 'vec3(0.0, 0.0, 0.0)'
-          exprEdge1 =
-            edge1Input?.kind === 'vec3'
-              ? edge1Input.expr
-              : edge1Input?.kind === 'number'
-                ? asVec3(edge1Input.expr, 'number')
-                : 'vec3(1.0, 1.0, 1.0)'
-          exprX =
-            xInput?.kind === 'vec3'
-              ? xInput.expr
-              : xInput?.kind === 'number'
-                ? asVec3(xInput.expr, 'number')
-                : 'vec3(0.0, 0.0, 0.0)'
-        } else if (kind === 'vec4') {
-          exprEdge0 =
-            edge0Input?.kind === 'vec4'
-              ? edge0Input.expr
-              : edge0Input?.kind === 'number'
-                ? asVec4(edge0Input.expr, 'number')
-                : 'vec4(0.0, 0.0, 0.0, 1.0)'
-          exprEdge1 =
-            edge1Input?.kind === 'vec4'
-              ? edge1Input.expr
-              : edge1Input?.kind === 'number'
-                ? asVec4(edge1Input.expr, 'number')
-                : 'vec4(1.0, 1.0, 1.0, 1.0)'
-          exprX =
-            xInput?.kind === 'vec4'
-              ? xInput.expr
-              : xInput?.kind === 'number'
-                ? asVec4(xInput.expr, 'number')
-                : 'vec4(0.0, 0.0, 0.0, 1.0)'
-        }
-        const expr = `smoothstep(${exprEdge0}, ${exprEdge1}, ${exprX})`
-        const name = nextVar(kind === 'number' ? 'num' : 'vec')
-        decls.push(`const ${name} = ${expr};`)
-        const out = { expr: name, kind }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'pow') {
-        const baseInput = getInput('base')
-        const expInput = getInput('exp')
-        const kind = resolveVectorOutputKind([
-          baseInput?.kind ?? 'number',
-          expInput?.kind ?? 'number',
-        ])
-        if (kind === 'unknown') {
-          const out = { expr: 'float(0.0)', kind: 'number' as const }
-          cache.set(key, out)
-          return out
-        }
-        let exprBase = baseInput?.expr ?? 'float(0.0)'
-        let exprExp = expInput?.expr ?? 'float(1.0)'
-        if (kind === 'color') {
-          exprBase =
-            baseInput?.kind === 'color'
-              ? baseInput.expr
-              : baseInput?.kind === 'number'
-                ? asColor(baseInput.expr, 'number')
-                : 'color(0.0)'
-          exprExp =
-            expInput?.kind === 'color'
-              ? expInput.expr
-              : expInput?.kind === 'number'
-                ? asColor(expInput.expr, 'number')
-                : 'color(1.0)'
-        } else if (kind === 'vec2') {
-          exprBase =
-            baseInput?.kind === 'vec2'
-              ? baseInput.expr
-              : baseInput?.kind === 'number'
-                ? asVec2(baseInput.expr, 'number')
-                : 'vec2(0.0, 0.0)'
-          exprExp =
-            expInput?.kind === 'vec2'
-              ? expInput.expr
-              : expInput?.kind === 'number'
-                ? asVec2(expInput.expr, 'number')
-                : 'vec2(1.0, 1.0)'
-        } else if (kind === 'vec3') {
-          exprBase =
-            baseInput?.kind === 'vec3'
-              ? baseInput.expr
-              : baseInput?.kind === 'number'
-                ? asVec3(baseInput.expr, 'number')
-                : 'vec3(0.0, 0.0, 0.0)'
-          exprExp =
-            expInput?.kind === 'vec3'
-              ? expInput.expr
-              : expInput?.kind === 'number'
-                ? asVec3(expInput.expr, 'number')
-                : 'vec3(1.0, 1.0, 1.0)'
-        } else if (kind === 'vec4') {
-          exprBase =
-            baseInput?.kind === 'vec4'
-              ? baseInput.expr
-              : baseInput?.kind === 'number'
-                ? asVec4(baseInput.expr, 'number')
-                : 'vec4(0.0, 0.0, 0.0, 1.0)'
-          exprExp =
-            expInput?.kind === 'vec4'
-              ? expInput.expr
-              : expInput?.kind === 'number'
-                ? asVec4(expInput.expr, 'number')
-                : 'vec4(1.0, 1.0, 1.0, 1.0)'
-        }
-        const expr = `pow(${exprBase}, ${exprExp})`
-        const name = nextVar(kind === 'number' ? 'num' : 'vec')
-        decls.push(`const ${name} = ${expr};`)
-        const out = { expr: name, kind }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'normalize') {
-        const input = getInput('value')
-        if (!input || !isVectorKind(input.kind)) {
-          const out = { expr: 'float(0.0)', kind: 'number' as const }
-          cache.set(key, out)
-          return out
-        }
-        const expr = `normalize(${input.expr})`
-        const name = nextVar('vec')
-        decls.push(`const ${name} = ${expr};`)
-        const out = { expr: name, kind: input.kind as 'color' | 'vec2' | 'vec3' | 'vec4' }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'length') {
-        const input = getInput('value')
-        const valueExpr =
-          input && isVectorKind(input.kind) ? input.expr : 'vec3(0.0, 0.0, 0.0)'
-        const expr = `length(${valueExpr})`
-        const name = nextVar('num')
-        decls.push(`const ${name} = ${expr};`)
-        const out = { expr: name, kind: 'number' as const }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'dot') {
-        const inputA = getInput('a')
-        const inputB = getInput('b')
-        const vecA = getVectorKind(inputA?.kind ?? 'unknown')
-        const vecB = getVectorKind(inputB?.kind ?? 'unknown')
-        if (!inputA || !inputB || !vecA || !vecB || vecA !== vecB) {
-          const out = { expr: 'float(0.0)', kind: 'number' as const }
-          cache.set(key, out)
-          return out
-        }
-        const expr = `dot(${inputA.expr}, ${inputB.expr})`
-        const name = nextVar('num')
-        decls.push(`const ${name} = ${expr};`)
-        const out = { expr: name, kind: 'number' as const }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'cross') {
-        const inputA = getInput('a')
-        const inputB = getInput('b')
-        const vecA = getVectorKind(inputA?.kind ?? 'unknown')
-        const vecB = getVectorKind(inputB?.kind ?? 'unknown')
-        if (!inputA || !inputB || vecA !== 'vec3' || vecB !== 'vec3') {
-          const out = { expr: 'float(0.0)', kind: 'number' as const }
-          cache.set(key, out)
-          return out
-        }
-        const expr = `cross(${inputA.expr}, ${inputB.expr})`
-        const name = nextVar('vec')
-        decls.push(`const ${name} = ${expr};`)
-        const kind: 'color' | 'vec3' =
-          inputA.kind === 'color' || inputB.kind === 'color' ? 'color' : 'vec3'
-        const out = { expr: name, kind }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'checker') {
-        const input = getInput('coord')
-        const expr =
-          input?.kind === 'vec2'
-            ? input.expr
-            : input?.kind === 'number'
-              ? asVec2(input.expr, 'number')
-              : 'uv()'
-        const name = nextVar('num')
-        decls.push(`const ${name} = checker(${expr});`)
-        const out = { expr: name, kind: 'number' as const }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'dFdx' || node.type === 'dFdy' || node.type === 'fwidth') {
-        const input = getInput('value')
-        if (!input || (!isVectorKind(input.kind) && input.kind !== 'number')) {
-          const out = { expr: 'float(0.0)', kind: 'number' as const }
-          cache.set(key, out)
-          return out
-        }
-        const fn = node.type === 'dFdx' ? 'dFdx' : node.type === 'dFdy' ? 'dFdy' : 'fwidth'
-        const name = nextVar(input.kind === 'number' ? 'num' : 'vec')
-        decls.push(`const ${name} = ${fn}(${input.expr});`)
-        const out = { expr: name, kind: input.kind }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'distance') {
-        const inputA = getInput('a')
-        const inputB = getInput('b')
-        const kind = resolveVectorOutputKind([
-          inputA?.kind ?? 'number',
-          inputB?.kind ?? 'number',
-        ])
-        if (kind === 'unknown') {
-          const out = { expr: 'float(0.0)', kind: 'number' as const }
-          cache.set(key, out)
-          return out
-        }
-        let exprA = inputA?.expr ?? 'float(0.0)'
-        let exprB = inputB?.expr ?? 'float(0.0)'
-        if (kind === 'color') {
-          exprA =
-            inputA?.kind === 'color'
-              ? inputA.expr
-              : inputA?.kind === 'number'
-                ? asColor(inputA.expr, 'number')
-                : 'color(0.0)'
-          exprB =
-            inputB?.kind === 'color'
-              ? inputB.expr
-              : inputB?.kind === 'number'
-                ? asColor(inputB.expr, 'number')
-                : 'color(0.0)'
-        } else if (kind === 'vec2') {
-          exprA =
-            inputA?.kind === 'vec2'
-              ? inputA.expr
-              : inputA?.kind === 'number'
-                ? asVec2(inputA.expr, 'number')
-                : 'vec2(0.0, 0.0)'
-          exprB =
-            inputB?.kind === 'vec2'
-              ? inputB.expr
-              : inputB?.kind === 'number'
-                ? asVec2(inputB.expr, 'number')
-                : 'vec2(0.0, 0.0)'
-        } else if (kind === 'vec3') {
-          exprA =
-            inputA?.kind === 'vec3'
-              ? inputA.expr
-              : inputA?.kind === 'number'
-                ? asVec3(inputA.expr, 'number')
-                : 'vec3(0.0, 0.0, 0.0)'
-          exprB =
-            inputB?.kind === 'vec3'
-              ? inputB.expr
-              : inputB?.kind === 'number'
-                ? asVec3(inputB.expr, 'number')
-                : 'vec3(0.0, 0.0, 0.0)'
-        } else if (kind === 'vec4') {
-          exprA =
-            inputA?.kind === 'vec4'
-              ? inputA.expr
-              : inputA?.kind === 'number'
-                ? asVec4(inputA.expr, 'number')
-                : 'vec4(0.0, 0.0, 0.0, 1.0)'
-          exprB =
-            inputB?.kind === 'vec4'
-              ? inputB.expr
-              : inputB?.kind === 'number'
-                ? asVec4(inputB.expr, 'number')
-                : 'vec4(0.0, 0.0, 0.0, 1.0)'
-        }
-        const expr = `distance(${exprA}, ${exprB})`
-        const name = nextVar('num')
-        decls.push(`const ${name} = ${expr};`)
-        const out = { expr: name, kind: 'number' as const }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'reflect' || node.type === 'refract' || node.type === 'faceforward') {
-        const toVec3Expr = (
-          input: {
-            expr: string
-            kind: 'color' | 'number' | 'vec2' | 'vec3' | 'vec4' | 'mat2' | 'mat3' | 'mat4'
-          } | null,
-        ) => {
-          if (!input) return 'vec3(0.0, 0.0, 0.0)'
-          if (input.kind === 'vec3' || input.kind === 'color') return input.expr
-          if (input.kind === 'number') return asVec3(input.expr, 'number')
-          return 'vec3(0.0, 0.0, 0.0)'
-        }
-        if (node.type === 'reflect') {
-          const incident = getInput('incident')
-          const normal = getInput('normal')
-          const expr = `reflect(${toVec3Expr(incident)}, ${toVec3Expr(normal)})`
-          const name = nextVar('vec')
-          decls.push(`const ${name} = ${expr};`)
-          const kind: 'color' | 'vec3' =
-            incident?.kind === 'color' || normal?.kind === 'color' ? 'color' : 'vec3'
-          const out = { expr: name, kind }
-          cache.set(key, out)
-          return out
-        }
-        if (node.type === 'refract') {
-          const incident = getInput('incident')
-          const normal = getInput('normal')
-          const eta = getInput('eta')
-          const etaExpr = eta?.kind === 'number' ? eta.expr : 'float(1.0)'
-          const expr = `refract(${toVec3Expr(incident)}, ${toVec3Expr(normal)}, ${etaExpr})`
-          const name = nextVar('vec')
-          decls.push(`const ${name} = ${expr};`)
-          const kind: 'color' | 'vec3' =
-            incident?.kind === 'color' || normal?.kind === 'color' ? 'color' : 'vec3'
-          const out = { expr: name, kind }
-          cache.set(key, out)
-          return out
-        }
-        const n = getInput('n')
-        const i = getInput('i')
-        const nref = getInput('nref')
-        const expr = `faceforward(${toVec3Expr(n)}, ${toVec3Expr(i)}, ${toVec3Expr(nref)})`
-        const name = nextVar('vec')
-        decls.push(`const ${name} = ${expr};`)
-        const kind: 'color' | 'vec3' =
-          n?.kind === 'color' || i?.kind === 'color' || nref?.kind === 'color'
-            ? 'color'
-            : 'vec3'
-        const out = { expr: name, kind }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'triNoise3D') {
-        const inputPosition = getInput('position')
-        const inputSpeed = getInput('speed')
-        const inputTime = getInput('time')
-        const positionExpr =
-          inputPosition?.kind === 'vec3'
-            ? inputPosition.expr
-            : inputPosition?.kind === 'number'
-              ? asVec3(inputPosition.expr, 'number')
-              : 'positionLocal'
-        const speedExpr = inputSpeed?.kind === 'number' ? inputSpeed.expr : 'float(1.0)'
-        const timeExpr = inputTime?.kind === 'number' ? inputTime.expr : 'timeUniform'
-        const name = nextVar('num')
-        decls.push(`const ${name} = triNoise3D(${positionExpr}, ${speedExpr}, ${timeExpr});`)
-        const out = { expr: name, kind: 'number' as const }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'mxNoiseFloat' || node.type === 'mxNoiseVec3' || node.type === 'mxNoiseVec4') {
-        const texcoord = getInput('texcoord')
-        const amplitude = getInput('amplitude')
-        const pivot = getInput('pivot')
-        const coordExpr =
-          texcoord?.kind === 'vec3' || texcoord?.kind === 'color' || texcoord?.kind === 'vec4'
-            ? toVec3Expr(texcoord)
-            : toVec2Expr(texcoord)
-        const amplitudeExpr = amplitude?.kind === 'number' ? amplitude.expr : 'float(1.0)'
-        const pivotExpr = pivot?.kind === 'number' ? pivot.expr : 'float(0.0)'
-        const fn =
-          node.type === 'mxNoiseFloat'
-            ? 'mx_noise_float'
-            : node.type === 'mxNoiseVec3'
-              ? 'mx_noise_vec3'
-              : 'mx_noise_vec4'
-        const name = nextVar(node.type === 'mxNoiseFloat' ? 'num' : 'vec')
-        decls.push(`const ${name} = ${fn}(${coordExpr}, ${amplitudeExpr}, ${pivotExpr});`)
-        const kind =
-          node.type === 'mxNoiseFloat'
-            ? ('number' as const)
-            : node.type === 'mxNoiseVec3'
-              ? ('vec3' as const)
-              : ('vec4' as const)
-        const out = { expr: name, kind }
-        cache.set(key, out)
-        return out
-      }
-      if (
-        node.type === 'mxFractalNoiseFloat' ||
-        node.type === 'mxFractalNoiseVec2' ||
-        node.type === 'mxFractalNoiseVec3' ||
-        node.type === 'mxFractalNoiseVec4'
-      ) {
-        const position = getInput('position')
-        const octaves = getInput('octaves')
-        const lacunarity = getInput('lacunarity')
-        const diminish = getInput('diminish')
-        const amplitude = getInput('amplitude')
-        const positionExpr =
-          position?.kind === 'vec3' || position?.kind === 'color' || position?.kind === 'vec4'
-            ? toVec3Expr(position)
-            : toVec2Expr(position)
-        const octavesExpr = octaves?.kind === 'number' ? octaves.expr : 'float(3.0)'
-        const lacunarityExpr = lacunarity?.kind === 'number' ? lacunarity.expr : 'float(2.0)'
-        const diminishExpr = diminish?.kind === 'number' ? diminish.expr : 'float(0.5)'
-        const amplitudeExpr = amplitude?.kind === 'number' ? amplitude.expr : 'float(1.0)'
-        const fn =
-          node.type === 'mxFractalNoiseFloat'
-            ? 'mx_fractal_noise_float'
-            : node.type === 'mxFractalNoiseVec2'
-              ? 'mx_fractal_noise_vec2'
-              : node.type === 'mxFractalNoiseVec3'
-                ? 'mx_fractal_noise_vec3'
-                : 'mx_fractal_noise_vec4'
-        const name = nextVar(
-          node.type === 'mxFractalNoiseFloat' ? 'num' : 'vec',
-        )
-        decls.push(
-          `const ${name} = ${fn}(${positionExpr}, ${octavesExpr}, ${lacunarityExpr}, ${diminishExpr}, ${amplitudeExpr});`,
-        )
-        const kind =
-          node.type === 'mxFractalNoiseFloat'
-            ? ('number' as const)
-            : node.type === 'mxFractalNoiseVec2'
-              ? ('vec2' as const)
-              : node.type === 'mxFractalNoiseVec3'
-                ? ('vec3' as const)
-                : ('vec4' as const)
-        const out = { expr: name, kind }
-        cache.set(key, out)
-        return out
-      }
-      if (
-        node.type === 'mxWorleyNoiseFloat' ||
-        node.type === 'mxWorleyNoiseVec2' ||
-        node.type === 'mxWorleyNoiseVec3'
-      ) {
-        const texcoord = getInput('texcoord')
-        const jitter = getInput('jitter')
-        const coordExpr =
-          texcoord?.kind === 'vec3' || texcoord?.kind === 'color' || texcoord?.kind === 'vec4'
-            ? toVec3Expr(texcoord)
-            : toVec2Expr(texcoord)
-        const jitterExpr = jitter?.kind === 'number' ? jitter.expr : 'float(1.0)'
-        const fn =
-          node.type === 'mxWorleyNoiseFloat'
-            ? 'mx_worley_noise_float'
-            : node.type === 'mxWorleyNoiseVec2'
-              ? 'mx_worley_noise_vec2'
-              : 'mx_worley_noise_vec3'
-        const name = nextVar(node.type === 'mxWorleyNoiseFloat' ? 'num' : 'vec')
-        decls.push(`const ${name} = ${fn}(${coordExpr}, ${jitterExpr});`)
-        const kind =
-          node.type === 'mxWorleyNoiseFloat'
-            ? ('number' as const)
-            : node.type === 'mxWorleyNoiseVec2'
-              ? ('vec2' as const)
-              : ('vec3' as const)
-        const out = { expr: name, kind }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'rotateUV') {
-        const uvInput = getInput('uv')
-        const rotation = getInput('rotation')
-        const center = getInput('center')
-        const uvExpr = toVec2Expr(uvInput ?? { expr: 'uv()', kind: 'vec2' })
-        const rotationExpr = rotation?.kind === 'number' ? rotation.expr : 'float(0.0)'
-        const centerExpr = center ? toVec2Expr(center) : 'vec2(0.5, 0.5)'
-        const name = nextVar('vec')
-        decls.push(`const ${name} = rotateUV(${uvExpr}, ${rotationExpr}, ${centerExpr});`)
-        const out = { expr: name, kind: 'vec2' as const }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'scaleUV') {
-        const uvInput = getInput('uv')
-        const scale = getInput('scale')
-        const uvExpr = toVec2Expr(uvInput ?? { expr: 'uv()', kind: 'vec2' })
-        const scaleExpr = scale ? toVec2Expr(scale) : 'vec2(1.0, 1.0)'
-        const name = nextVar('vec')
-        decls.push(`const ${name} = (${uvExpr} * ${scaleExpr});`)
-        const out = { expr: name, kind: 'vec2' as const }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'offsetUV') {
-        const uvInput = getInput('uv')
-        const offset = getInput('offset')
-        const uvExpr = toVec2Expr(uvInput ?? { expr: 'uv()', kind: 'vec2' })
-        const offsetExpr = offset ? toVec2Expr(offset) : 'vec2(0.0, 0.0)'
-        const name = nextVar('vec')
-        decls.push(`const ${name} = (${uvExpr} + ${offsetExpr});`)
-        const out = { expr: name, kind: 'vec2' as const }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'spherizeUV') {
-        const uvInput = getInput('uv')
-        const strength = getInput('strength')
-        const center = getInput('center')
-        const uvExpr = toVec2Expr(uvInput ?? { expr: 'uv()', kind: 'vec2' })
-        const strengthExpr = strength?.kind === 'number' ? strength.expr : 'float(0.0)'
-        const centerExpr = center ? toVec2Expr(center) : 'vec2(0.5, 0.5)'
-        const name = nextVar('vec')
-        decls.push(
-          `const ${name} = spherizeUV(${uvExpr}, ${strengthExpr}, ${centerExpr});`,
-        )
-        const out = { expr: name, kind: 'vec2' as const }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'spritesheetUV') {
-        const sizeInput = getInput('size')
-        const uvInput = getInput('uv')
-        const time = getInput('time')
-        const sizeExpr = sizeInput ? toVec2Expr(sizeInput) : 'vec2(1.0, 1.0)'
-        const uvExpr = toVec2Expr(uvInput ?? { expr: 'uv()', kind: 'vec2' })
-        const timeExpr = time?.kind === 'number' ? time.expr : 'timeUniform'
-        const name = nextVar('vec')
-        decls.push(`const ${name} = spritesheetUV(${sizeExpr}, ${uvExpr}, ${timeExpr});`)
-        const out = { expr: name, kind: 'vec2' as const }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'smoothstep') {
-        const edge0Input = getInput('edge0')
-        const edge1Input = getInput('edge1')
-        const xInput = getInput('x')
-        const kind = resolveVectorOutputKind([
-          edge0Input?.kind ?? 'number',
-          edge1Input?.kind ?? 'number',
-          xInput?.kind ?? 'number',
-        ])
-        if (kind === 'unknown') {
-          const out = { expr: 'float(0.0)', kind: 'number' as const }
-          cache.set(key, out)
-          return out
-        }
-        let exprEdge0 = edge0Input?.expr ?? 'float(0.0)'
-        let exprEdge1 = edge1Input?.expr ?? 'float(1.0)'
-        let exprX = xInput?.expr ?? 'float(0.0)'
-        if (kind === 'color') {
-          exprEdge0 =
-            edge0Input?.kind === 'color'
-              ? edge0Input.expr
-              : edge0Input?.kind === 'number'
-                ? asColor(edge0Input.expr, 'number')
-                : 'color(0.0)'
-          exprEdge1 =
-            edge1Input?.kind === 'color'
-              ? edge1Input.expr
-              : edge1Input?.kind === 'number'
-                ? asColor(edge1Input.expr, 'number')
-                : 'color(1.0)'
-          exprX =
-            xInput?.kind === 'color'
-              ? xInput.expr
-              : xInput?.kind === 'number'
-                ? asColor(xInput.expr, 'number')
-                : 'color(0.0)'
-        } else if (kind === 'vec2') {
-          exprEdge0 =
-            edge0Input?.kind === 'vec2'
-              ? edge0Input.expr
-              : edge0Input?.kind === 'number'
-                ? asVec2(edge0Input.expr, 'number')
-                : 'vec2(0.0, 0.0)'
-          exprEdge1 =
-            edge1Input?.kind === 'vec2'
-              ? edge1Input.expr
-              : edge1Input?.kind === 'number'
-                ? asVec2(edge1Input.expr, 'number')
-                : 'vec2(1.0, 1.0)'
-          exprX =
-            xInput?.kind === 'vec2'
-              ? xInput.expr
-              : xInput?.kind === 'number'
-                ? asVec2(xInput.expr, 'number')
-                : 'vec2(0.0, 0.0)'
-        } else if (kind === 'vec3') {
-          exprEdge0 =
-            edge0Input?.kind === 'vec3'
-              ? edge0Input.expr
-              : edge0Input?.kind === 'number'
-                ? asVec3(edge0Input.expr, 'number')
-                : 'vec3(0.0, 0.0, 0.0)'
-          exprEdge1 =
-            edge1Input?.kind === 'vec3'
-              ? edge1Input.expr
-              : edge1Input?.kind === 'number'
-                ? asVec3(edge1Input.expr, 'number')
-                : 'vec3(1.0, 1.0, 1.0)'
-          exprX =
-            xInput?.kind === 'vec3'
-              ? xInput.expr
-              : xInput?.kind === 'number'
-                ? asVec3(xInput.expr, 'number')
-                : 'vec3(0.0, 0.0, 0.0)'
-        } else if (kind === 'vec4') {
-          exprEdge0 =
-            edge0Input?.kind === 'vec4'
-              ? edge0Input.expr
-              : edge0Input?.kind === 'number'
-                ? asVec4(edge0Input.expr, 'number')
-                : 'vec4(0.0, 0.0, 0.0, 1.0)'
-          exprEdge1 =
-            edge1Input?.kind === 'vec4'
-              ? edge1Input.expr
-              : edge1Input?.kind === 'number'
-                ? asVec4(edge1Input.expr, 'number')
-                : 'vec4(1.0, 1.0, 1.0, 1.0)'
-          exprX =
-            xInput?.kind === 'vec4'
-              ? xInput.expr
-              : xInput?.kind === 'number'
-                ? asVec4(xInput.expr, 'number')
-                : 'vec4(0.0, 0.0, 0.0, 1.0)'
-        }
-        const expr = `smoothstep(${exprEdge0}, ${exprEdge1}, ${exprX})`
-        const name = nextVar(kind === 'number' ? 'num' : 'vec')
-        decls.push(`const ${name} = ${expr};`)
-        const out = { expr: name, kind }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'pow') {
-        const baseInput = getInput('base')
-        const expInput = getInput('exp')
-        const kind = resolveVectorOutputKind([
-          baseInput?.kind ?? 'number',
-          expInput?.kind ?? 'number',
-        ])
-        if (kind === 'unknown') {
-          const out = { expr: 'float(0.0)', kind: 'number' as const }
-          cache.set(key, out)
-          return out
-        }
-        let exprBase = baseInput?.expr ?? 'float(0.0)'
-        let exprExp = expInput?.expr ?? 'float(1.0)'
-        if (kind === 'color') {
-          exprBase =
-            baseInput?.kind === 'color'
-              ? baseInput.expr
-              : baseInput?.kind === 'number'
-                ? asColor(baseInput.expr, 'number')
-                : 'color(0.0)'
-          exprExp =
-            expInput?.kind === 'color'
-              ? expInput.expr
-              : expInput?.kind === 'number'
-                ? asColor(expInput.expr, 'number')
-                : 'color(1.0)'
-        } else if (kind === 'vec2') {
-          exprBase =
-            baseInput?.kind === 'vec2'
-              ? baseInput.expr
-              : baseInput?.kind === 'number'
-                ? asVec2(baseInput.expr, 'number')
-                : 'vec2(0.0, 0.0)'
-          exprExp =
-            expInput?.kind === 'vec2'
-              ? expInput.expr
-              : expInput?.kind === 'number'
-                ? asVec2(expInput.expr, 'number')
-                : 'vec2(1.0, 1.0)'
-        } else if (kind === 'vec3') {
-          exprBase =
-            baseInput?.kind === 'vec3'
-              ? baseInput.expr
-              : baseInput?.kind === 'number'
-                ? asVec3(baseInput.expr, 'number')
-                : 'vec3(0.0, 0.0, 0.0)'
-          exprExp =
-            expInput?.kind === 'vec3'
-              ? expInput.expr
-              : expInput?.kind === 'number'
-                ? asVec3(expInput.expr, 'number')
-                : 'vec3(1.0, 1.0, 1.0)'
-        } else if (kind === 'vec4') {
-          exprBase =
-            baseInput?.kind === 'vec4'
-              ? baseInput.expr
-              : baseInput?.kind === 'number'
-                ? asVec4(baseInput.expr, 'number')
-                : 'vec4(0.0, 0.0, 0.0, 1.0)'
-          exprExp =
-            expInput?.kind === 'vec4'
-              ? expInput.expr
-              : expInput?.kind === 'number'
-                ? asVec4(expInput.expr, 'number')
-                : 'vec4(1.0, 1.0, 1.0, 1.0)'
-        }
-        const expr = `pow(${exprBase}, ${exprExp})`
-        const name = nextVar(kind === 'number' ? 'num' : 'vec')
-        decls.push(`const ${name} = ${expr};`)
-        const out = { expr: name, kind }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'vec2') {
-        const inputX = getInput('x')
-        const inputY = getInput('y')
-        const exprX = inputX?.kind === 'number' ? inputX.expr : 'float(0.0)'
-        const exprY = inputY?.kind === 'number' ? inputY.expr : 'float(0.0)'
-        const expr = `vec2(${exprX}, ${exprY})`
-        const name = nextVar('col')
-        decls.push(`const ${name} = ${expr};`)
-        const out = { expr: name, kind: 'vec2' as const }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'mat2') {
-        const c0 = getInput('c0')
-        const c1 = getInput('c1')
-        const expr = `mat2(${toVec2Expr(c0)}, ${toVec2Expr(c1)})`
-        const name = nextVar('mat')
-        decls.push(`const ${name} = ${expr};`)
-        const out = { expr: name, kind: 'mat2' as const }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'vec3') {
-        const inputX = getInput('x')
-        const inputY = getInput('y')
-        const inputZ = getInput('z')
-        const exprX = inputX?.kind === 'number' ? inputX.expr : 'float(0.0)'
-        const exprY = inputY?.kind === 'number' ? inputY.expr : 'float(0.0)'
-        const exprZ = inputZ?.kind === 'number' ? inputZ.expr : 'float(0.0)'
-        const expr = `vec3(${exprX}, ${exprY}, ${exprZ})`
-        const name = nextVar('col')
-        decls.push(`const ${name} = ${expr};`)
-        const out = { expr: name, kind: 'vec3' as const }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'mat3') {
-        const c0 = getInput('c0')
-        const c1 = getInput('c1')
-        const c2 = getInput('c2')
-        const expr = `mat3(${toVec3Expr(c0)}, ${toVec3Expr(c1)}, ${toVec3Expr(c2)})`
-        const name = nextVar('mat')
-        decls.push(`const ${name} = ${expr};`)
-        const out = { expr: name, kind: 'mat3' as const }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'scale') {
-        const valueInput = getInput('value')
-        const scaleInput = getInput('scale')
-        const valueExpr =
-          valueInput?.kind === 'vec3'
-            ? valueInput.expr
-            : valueInput?.kind === 'number'
-              ? asVec3(valueInput.expr, 'number')
-              : 'vec3(0.0, 0.0, 0.0)'
-        const scaleExpr =
-          scaleInput?.kind === 'vec3'
-            ? scaleInput.expr
-            : scaleInput?.kind === 'number'
-              ? asVec3(scaleInput.expr, 'number')
-              : 'vec3(1.0, 1.0, 1.0)'
-        const expr = `(${valueExpr} * ${scaleExpr})`
-        const name = nextVar('vec')
-        decls.push(`const ${name} = ${expr};`)
-        const out = { expr: name, kind: 'vec3' as const }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'rotate') {
-        const valueInput = getInput('value')
-        const rotationInput = getInput('rotation')
-        const valueExpr =
-          valueInput?.kind === 'vec3'
-            ? valueInput.expr
-            : valueInput?.kind === 'number'
-              ? asVec3(valueInput.expr, 'number')
-              : 'vec3(0.0, 0.0, 0.0)'
-        const rotationExpr =
-          rotationInput?.kind === 'vec3'
-            ? rotationInput.expr
-            : rotationInput?.kind === 'number'
-              ? asVec3(rotationInput.expr, 'number')
-              : 'vec3(0.0, 0.0, 0.0)'
-        const baseName = nextVar('vec')
-        const rotName = nextVar('vec')
-        const cx = nextVar('num')
-        const sx = nextVar('num')
-        const cy = nextVar('num')
-        const sy = nextVar('num')
-        const cz = nextVar('num')
-        const sz = nextVar('num')
-        const rotX = nextVar('vec')
-        const rotY = nextVar('vec')
-        const rotZ = nextVar('vec')
-        decls.push(`const ${baseName} = ${valueExpr};`)
-        decls.push(`const ${rotName} = ${rotationExpr};`)
-        decls.push(`const ${cx} = cos(${rotName}.x);`)
-        decls.push(`const ${sx} = sin(${rotName}.x);`)
-        decls.push(`const ${cy} = cos(${rotName}.y);`)
-        decls.push(`const ${sy} = sin(${rotName}.y);`)
-        decls.push(`const ${cz} = cos(${rotName}.z);`)
-        decls.push(`const ${sz} = sin(${rotName}.z);`)
-        decls.push(
-          `const ${rotX} = vec3(${baseName}.x, ${baseName}.y * ${cx} - ${baseName}.z * ${sx}, ${baseName}.y * ${sx} + ${baseName}.z * ${cx});`,
+    )
+  }
+
+  const removeFunctionsForNodeIds = (ids: string[]) => {
+    if (!ids.length) return
+    setFunctions((prev) => {
+      const next = { ...prev }
+      const remaining = nodes.filter((node) => !ids.includes(node.id))
+      ids.forEach((id) => {
+        const node = nodes.find((item) => item.id === id)
+        if (node?.type !== 'function' || !node.functionId) return
+        const functionId = node.functionId
+        const isCalled = (scopeNodes: GraphNode[]) =>
+          scopeNodes.some((item) => item.type === 'function' && item.functionId === functionId)
+        const nestedCall = Object.values(next).some(
+          (def) => def.id !== functionId && isCalled(def.nodes),
         )
-        decls.push(
-          `const ${rotY} = vec3(${rotX}.x * ${cy} + ${rotX}.z * ${sy}, ${rotX}.y, ${rotX}.z * ${cy} - ${rotX}.x * ${sy});`,
+        if (!isCalled(remaining) && !nestedCall) delete next[functionId]
+      })
+      return next
+    })
+  }
+
+  const applyFunctionDefinitionChange = useCallback(
+    (
+      functionId: string,
+      nextDef: FunctionDefinition,
+      change?: { kind: 'input' | 'output'; renameMap?: Record<string, string>; removed?: Set<string> },
+    ) => {
+      const updateCallNodes = (scopeNodes: GraphNode[]) =>
+        scopeNodes.map((node) =>
+          node.type === 'function' && node.functionId === functionId
+            ? {
+                ...node,
+                inputs: nextDef.inputs.map((pin) => pin.name),
+                outputs: nextDef.outputs.map((pin) => pin.name),
+              }
+            : node,
         )
-        decls.push(
-          `const ${rotZ} = vec3(${rotY}.x * ${cz} - ${rotY}.y * ${sz}, ${rotY}.x * ${sz} + ${rotY}.y * ${cz}, ${rotY}.z);`,
+      const updateCallConnections = (
+        scopeNodes: GraphNode[],
+        scopeConnections: GraphConnection[],
+      ) => {
+        if (!change || (!change.renameMap && !change.removed)) return scopeConnections
+        const functionNodeIds = new Set(
+          scopeNodes
+            .filter((node) => node.type === 'function' && node.functionId === functionId)
+            .map((node) => node.id),
         )
-        const out = { expr: rotZ, kind: 'vec3' as const }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'vec4') {
-        const inputX = getInput('x')
-        const inputY = getInput('y')
-        const inputZ = getInput('z')
-        const inputW = getInput('w')
-        const exprX = inputX?.kind === 'number' ? inputX.expr : 'float(0.0)'
-        const exprY = inputY?.kind === 'number' ? inputY.expr : 'float(0.0)'
-        const exprZ = inputZ?.kind === 'number' ? inputZ.expr : 'float(0.0)'
-        const exprW = inputW?.kind === 'number' ? inputW.expr : 'float(1.0)'
-        const expr = `vec4(${exprX}, ${exprY}, ${exprZ}, ${exprW})`
-        const name = nextVar('col')
-        decls.push(`const ${name} = ${expr};`)
-        const out = { expr: name, kind: 'vec4' as const }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'mat4') {
-        const c0 = getInput('c0')
-        const c1 = getInput('c1')
-        const c2 = getInput('c2')
-        const c3 = getInput('c3')
-        const expr = `mat4(${toVec4Expr(c0)}, ${toVec4Expr(c1)}, ${toVec4Expr(c2)}, ${toVec4Expr(c3)})`
-        const name = nextVar('mat')
-        decls.push(`const ${name} = ${expr};`)
-        const out = { expr: name, kind: 'mat4' as const }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'modelMatrix') {
-        const out = { expr: 'modelWorldMatrix', kind: 'mat4' as const }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'viewMatrix') {
-        const out = { expr: 'cameraViewMatrix', kind: 'mat4' as const }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'projectionMatrix') {
-        const out = { expr: 'cameraProjectionMatrix', kind: 'mat4' as const }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'modelViewMatrix') {
-        const out = { expr: 'modelViewMatrix', kind: 'mat4' as const }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'normalMatrix') {
-        const out = { expr: 'modelNormalMatrix', kind: 'mat3' as const }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'transpose' || node.type === 'inverse') {
-        const input = getInput('value')
-        if (!input || !isMatrixKind(input.kind)) {
-          const out = { expr: 'float(0.0)', kind: 'number' as const }
-          cache.set(key, out)
-          return out
-        }
-        const expr = `${node.type}(${input.expr})`
-        const name = nextVar('mat')
-        decls.push(`const ${name} = ${expr};`)
-        const out = { expr: name, kind: input.kind }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'splitVec2') {
-        const input = getInput('value')
-        const sourceExpr =
-          input?.kind === 'vec2'
-            ? input.expr
-            : input?.kind === 'number'
-              ? asVec2(input.expr, 'number')
-              : 'vec2(0.0, 0.0)'
-        const channel = outputPin === 'y' ? 'y' : 'x'
-        const expr = `${sourceExpr}.${channel}`
-        const name = nextVar('num')
-        decls.push(`const ${name} = ${expr};`)
-        const out = { expr: name, kind: 'number' as const }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'splitVec3') {
-        const input = getInput('value')
-        const sourceExpr =
-          input?.kind === 'vec3'
-            ? input.expr
-            : input?.kind === 'number'
-              ? asVec3(input.expr, 'number')
-              : 'vec3(0.0, 0.0, 0.0)'
-        const channel = outputPin === 'y' ? 'y' : outputPin === 'z' ? 'z' : 'x'
-        const expr = `${sourceExpr}.${channel}`
-        const name = nextVar('num')
-        decls.push(`const ${name} = ${expr};`)
-        const out = { expr: name, kind: 'number' as const }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'splitVec4') {
-        const input = getInput('value')
-        const sourceExpr =
-          input?.kind === 'vec4'
-            ? input.expr
-            : input?.kind === 'number'
-              ? asVec4(input.expr, 'number')
-              : 'vec4(0.0, 0.0, 0.0, 1.0)'
-        const channel =
-          outputPin === 'y' ? 'y' : outputPin === 'z' ? 'z' : outputPin === 'w' ? 'w' : 'x'
-        const expr = `${sourceExpr}.${channel}`
-        const name = nextVar('num')
-        decls.push(`const ${name} = ${expr};`)
-        const out = { expr: name, kind: 'number' as const }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'cosine') {
-        const input = getInput('value')
-        const valueExpr = input?.kind === 'number' ? input.expr : 'float(0.0)'
-        const expr = `cos(${valueExpr})`
-        const name = nextVar('num')
-        decls.push(`const ${name} = ${expr};`)
-        const out = { expr: name, kind: 'number' as const }
-        cache.set(key, out)
-        return out
-      }
-      if (
-        node.type === 'tan' ||
-        node.type === 'asin' ||
-        node.type === 'acos' ||
-        node.type === 'atan' ||
-        node.type === 'radians' ||
-        node.type === 'degrees'
-      ) {
-        const input = getInput('value')
-        if (!input || (!isVectorKind(input.kind) && input.kind !== 'number')) {
-          const out = { expr: 'float(0.0)', kind: 'number' as const }
-          cache.set(key, out)
-          return out
-        }
-        const fn =
-          node.type === 'tan'
-            ? 'tan'
-            : node.type === 'asin'
-              ? 'asin'
-              : node.type === 'acos'
-                ? 'acos'
-                : node.type === 'atan'
-                  ? 'atan'
-                  : node.type === 'radians'
-                    ? 'radians'
-                    : 'degrees'
-        const expr = `${fn}(${input.expr})`
-        const name = nextVar(input.kind === 'number' ? 'num' : 'vec')
-        decls.push(`const ${name} = ${expr};`)
-        const out = { expr: name, kind: input.kind }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'atan2') {
-        const inputY = getInput('y')
-        const inputX = getInput('x')
-        const kind = resolveVectorOutputKind([
-          inputY?.kind ?? 'number',
-          inputX?.kind ?? 'number',
-        ])
-        if (kind === 'unknown') {
-          const out = { expr: 'float(0.0)', kind: 'number' as const }
-          cache.set(key, out)
-          return out
-        }
-        let exprY = inputY?.expr ?? 'float(0.0)'
-        let exprX = inputX?.expr ?? 'float(0.0)'
-        if (kind === 'color') {
-          exprY =
-            inputY?.kind === 'color'
-              ? inputY.expr
-              : inputY?.kind === 'number'
-                ? asColor(inputY.expr, 'number')
-                : 'color(0.0)'
-          exprX =
-            inputX?.kind === 'color'
-              ? inputX.expr
-              : inputX?.kind === 'number'
-                ? asColor(inputX.expr, 'number')
-                : 'color(0.0)'
-        } else if (kind === 'vec2') {
-          exprY =
-            inputY?.kind === 'vec2'
-              ? inputY.expr
-              : inputY?.kind === 'number'
-                ? asVec2(inputY.expr, 'number')
-                : 'vec2(0.0, 0.0)'
-          exprX =
-            inputX?.kind === 'vec2'
-              ? inputX.expr
-              : inputX?.kind === 'number'
-                ? asVec2(inputX.expr, 'number')
-                : 'vec2(0.0, 0.0)'
-        } else if (kind === 'vec3') {
-          exprY =
-            inputY?.kind === 'vec3'
-              ? inputY.expr
-              : inputY?.kind === 'number'
-                ? asVec3(inputY.expr, 'number')
-                : 'vec3(0.0, 0.0, 0.0)'
-          exprX =
-            inputX?.kind === 'vec3'
-              ? inputX.expr
-              : inputX?.kind === 'number'
-                ? asVec3(inputX.expr, 'number')
-                : 'vec3(0.0, 0.0, 0.0)'
-        } else if (kind === 'vec4') {
-          exprY =
-            inputY?.kind === 'vec4'
-              ? inputY.expr
-              : inputY?.kind === 'number'
-                ? asVec4(inputY.expr, 'number')
-                : 'vec4(0.0, 0.0, 0.0, 1.0)'
-          exprX =
-            inputX?.kind === 'vec4'
-              ? inputX.expr
-              : inputX?.kind === 'number'
-                ? asVec4(inputX.expr, 'number')
-                : 'vec4(0.0, 0.0, 0.0, 1.0)'
-        }
-        const expr = `atan2(${exprY}, ${exprX})`
-        const name = nextVar(kind === 'number' ? 'num' : 'vec')
-        decls.push(`const ${name} = ${expr};`)
-        const out = { expr: name, kind }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'abs') {
-        const input = getInput('value')
-        const valueExpr = input?.kind === 'number' ? input.expr : 'float(0.0)'
-        const expr = `abs(${valueExpr})`
-        const name = nextVar('num')
-        decls.push(`const ${name} = ${expr};`)
-        const out = { expr: name, kind: 'number' as const }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'clamp') {
-        const valueInput = getInput('value')
-        const minInput = getInput('min')
-        const maxInput = getInput('max')
-        const valueExpr = valueInput?.kind === 'number' ? valueInput.expr : 'float(0.0)'
-        const minExpr = minInput?.kind === 'number' ? minInput.expr : 'float(0.0)'
-        const maxExpr = maxInput?.kind === 'number' ? maxInput.expr : 'float(1.0)'
-        const expr = `clamp(${valueExpr}, ${minExpr}, ${maxExpr})`
-        const name = nextVar('num')
-        decls.push(`const ${name} = ${expr};`)
-        const out = { expr: name, kind: 'number' as const }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'min' || node.type === 'max' || node.type === 'mod') {
-        const inputA = getInput('a') ?? { expr: 'float(0.0)', kind: 'number' as const }
-        const inputB = getInput('b') ?? { expr: 'float(0.0)', kind: 'number' as const }
-        const combined = combineTypes(inputA.kind, inputB.kind)
-        if (combined === 'unknown') {
-          const out = { expr: 'float(0.0)', kind: 'number' as const }
-          cache.set(key, out)
-          return out
-        }
-        const fn = node.type === 'min' ? 'min' : node.type === 'max' ? 'max' : 'mod'
-        if (combined === 'number') {
-          const expr = `${fn}(${inputA.expr}, ${inputB.expr})`
-          const name = nextVar('num')
-          decls.push(`const ${name} = ${expr};`)
-          const out = { expr: name, kind: 'number' as const }
-          cache.set(key, out)
-          return out
-        }
-        let exprA = inputA.expr
-        let exprB = inputB.expr
-        if (combined === 'color') {
-          exprA =
-            inputA.kind === 'color'
-              ? inputA.expr
-              : inputA.kind === 'number'
-                ? asColor(inputA.expr, 'number')
-                : 'color(0.0)'
-          exprB =
-            inputB.kind === 'color'
-              ? inputB.expr
-              : inputB.kind === 'number'
-                ? asColor(inputB.expr, 'number')
-                : 'color(0.0)'
-        } else if (combined === 'vec2') {
-          exprA =
-            inputA.kind === 'vec2'
-              ? inputA.expr
-              : inputA.kind === 'number'
-                ? asVec2(inputA.expr, 'number')
-                : 'vec2(0.0, 0.0)'
-          exprB =
-            inputB.kind === 'vec2'
-              ? inputB.expr
-              : inputB.kind === 'number'
-                ? asVec2(inputB.expr, 'number')
-                : 'vec2(0.0, 0.0)'
-        } else if (combined === 'vec3') {
-          exprA =
-            inputA.kind === 'vec3'
-              ? inputA.expr
-              : inputA.kind === 'number'
-                ? asVec3(inputA.expr, 'number')
-                : 'vec3(0.0, 0.0, 0.0)'
-          exprB =
-            inputB.kind === 'vec3'
-              ? inputB.expr
-              : inputB.kind === 'number'
-                ? asVec3(inputB.expr, 'number')
-                : 'vec3(0.0, 0.0, 0.0)'
-        } else if (combined === 'vec4') {
-          exprA =
-            inputA.kind === 'vec4'
-              ? inputA.expr
-              : inputA.kind === 'number'
-                ? asVec4(inputA.expr, 'number')
-                : 'vec4(0.0, 0.0, 0.0, 1.0)'
-          exprB =
-            inputB.kind === 'vec4'
-              ? inputB.expr
-              : inputB.kind === 'number'
-                ? asVec4(inputB.expr, 'number')
-                : 'vec4(0.0, 0.0, 0.0, 1.0)'
-        }
-        const expr = `${fn}(${exprA}, ${exprB})`
-        const name = nextVar('vec')
-        decls.push(`const ${name} = ${expr};`)
-        const out = { expr: name, kind: combined }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'step') {
-        const edgeInput = getInput('edge')
-        const xInput = getInput('x')
-        const kind = resolveVectorOutputKind([
-          edgeInput?.kind ?? 'number',
-          xInput?.kind ?? 'number',
-        ])
-        if (kind === 'unknown') {
-          const out = { expr: 'float(0.0)', kind: 'number' as const }
-          cache.set(key, out)
-          return out
-        }
-        let exprEdge = edgeInput?.expr ?? 'float(0.0)'
-        let exprX = xInput?.expr ?? 'float(0.0)'
-        if (kind === 'color') {
-          exprEdge =
-            edgeInput?.kind === 'color'
-              ? edgeInput.expr
-              : edgeInput?.kind === 'number'
-                ? asColor(edgeInput.expr, 'number')
-                : 'color(0.0)'
-          exprX =
-            xInput?.kind === 'color'
-              ? xInput.expr
-              : xInput?.kind === 'number'
-                ? asColor(xInput.expr, 'number')
-                : 'color(0.0)'
-        } else if (kind === 'vec2') {
-          exprEdge =
-            edgeInput?.kind === 'vec2'
-              ? edgeInput.expr
-              : edgeInput?.kind === 'number'
-                ? asVec2(edgeInput.expr, 'number')
-                : 'vec2(0.0, 0.0)'
-          exprX =
-            xInput?.kind === 'vec2'
-              ? xInput.expr
-              : xInput?.kind === 'number'
-                ? asVec2(xInput.expr, 'number')
-                : 'vec2(0.0, 0.0)'
-        } else if (kind === 'vec3') {
-          exprEdge =
-            edgeInput?.kind === 'vec3'
-              ? edgeInput.expr
-              : edgeInput?.kind === 'number'
-                ? asVec3(edgeInput.expr, 'number')
-                : 'vec3(0.0, 0.0, 0.0)'
-          exprX =
-            xInput?.kind === 'vec3'
-              ? xInput.expr
-              : xInput?.kind === 'number'
-                ? asVec3(xInput.expr, 'number')
-                : 'vec3(0.0, 0.0, 0.0)'
-        } else if (kind === 'vec4') {
-          exprEdge =
-            edgeInput?.kind === 'vec4'
-              ? edgeInput.expr
-              : edgeInput?.kind === 'number'
-                ? asVec4(edgeInput.expr, 'number')
-                : 'vec4(0.0, 0.0, 0.0, 1.0)'
-          exprX =
-            xInput?.kind === 'vec4'
-              ? xInput.expr
-              : xInput?.kind === 'number'
-                ? asVec4(xInput.expr, 'number')
-                : 'vec4(0.0, 0.0, 0.0, 1.0)'
-        }
-        const expr = `step(${exprEdge}, ${exprX})`
-        const name = nextVar(kind === 'number' ? 'num' : 'vec')
-        decls.push(`const ${name} = ${expr};`)
-        const out = { expr: name, kind }
-        cache.set(key, out)
-        return out
-      }
-      if (
-        node.type === 'fract' ||
-        node.type === 'floor' ||
-        node.type === 'ceil' ||
-        node.type === 'round' ||
-        node.type === 'trunc' ||
-        node.type === 'exp' ||
-        node.type === 'log' ||
-        node.type === 'sign' ||
-        node.type === 'oneMinus' ||
-        node.type === 'negate' ||
-        node.type === 'exp2' ||
-        node.type === 'log2' ||
-        node.type === 'pow2' ||
-        node.type === 'pow3' ||
-        node.type === 'pow4' ||
-        node.type === 'sqrt' ||
-        node.type === 'saturate'
-      ) {
-        const input = getInput('value')
-        if (!input || (!isVectorKind(input.kind) && input.kind !== 'number')) {
-          const out = { expr: 'float(0.0)', kind: 'number' as const }
-          cache.set(key, out)
-          return out
-        }
-        const fn =
-          node.type === 'fract'
-            ? 'fract'
-            : node.type === 'floor'
-              ? 'floor'
-              : node.type === 'ceil'
-                ? 'ceil'
-                : node.type === 'round'
-                  ? 'round'
-                  : node.type === 'trunc'
-                    ? 'trunc'
-                    : node.type === 'exp'
-                      ? 'exp'
-                      : node.type === 'exp2'
-                        ? 'exp2'
-                        : node.type === 'log'
-                          ? 'log'
-                          : node.type === 'log2'
-                            ? 'log2'
-                            : node.type === 'sign'
-                              ? 'sign'
-                              : node.type === 'oneMinus'
-                                ? 'oneMinus'
-                                : node.type === 'pow2'
-                                  ? 'pow2'
-                                  : node.type === 'pow3'
-                                    ? 'pow3'
-                                    : node.type === 'pow4'
-                                      ? 'pow4'
-                                      : node.type === 'sqrt'
-                                        ? 'sqrt'
-                                        : node.type === 'saturate'
-                                          ? 'saturate'
-                                          : 'negate'
-        const expr = `${fn}(${input.expr})`
-        const name = nextVar(input.kind === 'number' ? 'num' : 'vec')
-        decls.push(`const ${name} = ${expr};`)
-        const out = { expr: name, kind: input.kind }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'mix') {
-        const inputA = getInput('a')
-        const inputB = getInput('b')
-        const inputT = getInput('t')
-        const exprT = inputT?.kind === 'number' ? inputT.expr : 'float(0.5)'
-        const typeA = inputA?.kind ?? 'number'
-        const typeB = inputB?.kind ?? 'number'
-        const combined = combineTypes(typeA, typeB)
-        if (combined === 'color') {
-          const exprA =
-            inputA?.kind === 'color'
-              ? inputA.expr
-              : inputA?.kind === 'number'
-                ? asColor(inputA.expr, 'number')
-                : 'color(0.0)'
-          const exprB =
-            inputB?.kind === 'color'
-              ? inputB.expr
-              : inputB?.kind === 'number'
-                ? asColor(inputB.expr, 'number')
-                : 'color(1.0)'
-          const expr = `mix(${exprA}, ${exprB}, ${exprT})`
-          const name = nextVar('col')
-          decls.push(`const ${name} = ${expr};`)
-          const out = { expr: name, kind: 'color' as const }
-          cache.set(key, out)
-          return out
-        }
-        if (combined === 'vec2') {
-          const exprA =
-            inputA?.kind === 'vec2'
-              ? inputA.expr
-              : inputA?.kind === 'number'
-                ? asVec2(inputA.expr, 'number')
-                : 'vec2(0.0, 0.0)'
-          const exprB =
-            inputB?.kind === 'vec2'
-              ? inputB.expr
-              : inputB?.kind === 'number'
-                ? asVec2(inputB.expr, 'number')
-                : 'vec2(1.0, 1.0)'
-          const expr = `mix(${exprA}, ${exprB}, ${exprT})`
-          const name = nextVar('col')
-          decls.push(`const ${name} = ${expr};`)
-          const out = { expr: name, kind: 'vec2' as const }
-          cache.set(key, out)
-          return out
-        }
-        if (combined === 'vec3') {
-          const exprA =
-            inputA?.kind === 'vec3'
-              ? inputA.expr
-              : inputA?.kind === 'number'
-                ? asVec3(inputA.expr, 'number')
-                : 'vec3(0.0, 0.0, 0.0)'
-          const exprB =
-            inputB?.kind === 'vec3'
-              ? inputB.expr
-              : inputB?.kind === 'number'
-                ? asVec3(inputB.expr, 'number')
-                : 'vec3(1.0, 1.0, 1.0)'
-          const expr = `mix(${exprA}, ${exprB}, ${exprT})`
-          const name = nextVar('col')
-          decls.push(`const ${name} = ${expr};`)
-          const out = { expr: name, kind: 'vec3' as const }
-          cache.set(key, out)
-          return out
-        }
-        if (combined === 'vec4') {
-          const exprA =
-            inputA?.kind === 'vec4'
-              ? inputA.expr
-              : inputA?.kind === 'number'
-                ? asVec4(inputA.expr, 'number')
-                : 'vec4(0.0, 0.0, 0.0, 1.0)'
-          const exprB =
-            inputB?.kind === 'vec4'
-              ? inputB.expr
-              : inputB?.kind === 'number'
-                ? asVec4(inputB.expr, 'number')
-                : 'vec4(1.0, 1.0, 1.0, 1.0)'
-          const expr = `mix(${exprA}, ${exprB}, ${exprT})`
-          const name = nextVar('col')
-          decls.push(`const ${name} = ${expr};`)
-          const out = { expr: name, kind: 'vec4' as const }
-          cache.set(key, out)
-          return out
-        }
-        const exprA = inputA?.kind === 'number' ? inputA.expr : 'float(0.0)'
-        const exprB = inputB?.kind === 'number' ? inputB.expr : 'float(1.0)'
-        const expr = `mix(${exprA}, ${exprB}, ${exprT})`
-        const name = nextVar('num')
-        decls.push(`const ${name} = ${expr};`)
-        const out = { expr: name, kind: 'number' as const }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'ifElse') {
-        const inputCond = getInput('cond')
-        const inputA = getInput('a')
-        const inputB = getInput('b')
-        const inputThreshold = getInput('threshold')
-        const combined = combineTypes(inputA?.kind ?? 'number', inputB?.kind ?? 'number')
-        if (combined === 'unknown' || isMatrixKind(combined)) {
-          const out = { expr: 'float(0.0)', kind: 'number' as const }
-          cache.set(key, out)
-          return out
-        }
-        const outputKind = combined as 'number' | 'color' | 'vec2' | 'vec3' | 'vec4'
-        const toKindExpr = (
-          entry: typeof inputA,
-          kind: 'number' | 'color' | 'vec2' | 'vec3' | 'vec4',
-          fallback: number,
-        ) => {
-          if (kind === 'number') {
-            return entry?.kind === 'number' ? entry.expr : `float(${fallback.toFixed(1)})`
-          }
-          if (entry?.kind === kind) return entry.expr
-          if (entry?.kind === 'number') {
-            if (kind === 'color') return asColor(entry.expr, 'number')
-            if (kind === 'vec2') return asVec2(entry.expr, 'number')
-            if (kind === 'vec3') return asVec3(entry.expr, 'number')
-            return asVec4(entry.expr, 'number')
-          }
-          if (kind === 'color') return `color(${fallback.toFixed(1)})`
-          if (kind === 'vec2') return `vec2(${fallback.toFixed(1)}, ${fallback.toFixed(1)})`
-          if (kind === 'vec3') return `vec3(${fallback.toFixed(1)}, ${fallback.toFixed(1)}, ${fallback.toFixed(1)})`
-          return `vec4(${fallback.toFixed(1)}, ${fallback.toFixed(1)}, ${fallback.toFixed(1)}, ${fallback.toFixed(1)})`
-        }
-        const exprA = toKindExpr(inputA, outputKind, 1)
-        const exprB = toKindExpr(inputB, outputKind, 0)
-        const condExpr = (() => {
-          if (!inputCond) return 'float(0.0)'
-          if (outputKind === 'number') {
-            if (inputCond.kind === 'number') return inputCond.expr
-            if (isVectorKind(inputCond.kind)) return `length(${inputCond.expr})`
-            return 'float(0.0)'
-          }
-          if (outputKind === 'vec2') return toVec2Expr(inputCond)
-          if (outputKind === 'vec4') return toVec4Expr(inputCond)
-          return toVec3Expr(inputCond)
-        })()
-        const thresholdExpr =
-          inputThreshold?.kind === 'number' ? inputThreshold.expr : 'float(0.5)'
-        const thresholdValue =
-          outputKind === 'number'
-            ? thresholdExpr
-            : outputKind === 'vec2'
-              ? `vec2(${thresholdExpr}, ${thresholdExpr})`
-              : outputKind === 'vec4'
-                ? `vec4(${thresholdExpr}, ${thresholdExpr}, ${thresholdExpr}, ${thresholdExpr})`
-                : `vec3(${thresholdExpr}, ${thresholdExpr}, ${thresholdExpr})`
-        const mask = `greaterThan(${condExpr}, ${thresholdValue})`
-        const expr = `select(${mask}, ${exprA}, ${exprB})`
-        const name = nextVar(outputKind === 'number' ? 'num' : outputKind === 'color' ? 'col' : 'vec')
-        decls.push(`const ${name} = ${expr};`)
-        const out = { expr: name, kind: outputKind }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'ifElse') {
-        const inputCond = getInput('cond')
-        const inputA = getInput('a')
-        const inputB = getInput('b')
-        const inputThreshold = getInput('threshold')
-        const combined = combineTypes(inputA?.kind ?? 'number', inputB?.kind ?? 'number')
-        if (combined === 'unknown' || isMatrixKind(combined)) {
-          const out = { expr: 'float(0.0)', kind: 'number' as const }
-          cache.set(key, out)
-          return out
-        }
-        const outputKind = combined as 'number' | 'color' | 'vec2' | 'vec3' | 'vec4'
-        const toKindExpr = (
-          entry: typeof inputA,
-          kind: 'number' | 'color' | 'vec2' | 'vec3' | 'vec4',
-          fallback: number,
-        ) => {
-          if (kind === 'number') {
-            return entry?.kind === 'number' ? entry.expr : `float(${fallback.toFixed(1)})`
-          }
-          if (entry?.kind === kind) return entry.expr
-          if (entry?.kind === 'number') {
-            if (kind === 'color') return asColor(entry.expr, 'number')
-            if (kind === 'vec2') return asVec2(entry.expr, 'number')
-            if (kind === 'vec3') return asVec3(entry.expr, 'number')
-            return asVec4(entry.expr, 'number')
+        return scopeConnections.flatMap((connection) => {
+          if (change.kind === 'input' && functionNodeIds.has(connection.to.nodeId)) {
+            if (change.removed?.has(connection.to.pin)) return []
+            const renamed = change.renameMap?.[connection.to.pin]
+            if (renamed) {
+              return [
+                {
+                  ...connection,
+                  to: { ...connection.to, pin: renamed },
+                },
+              ]
+            }
           }
-          if (kind === 'color') return `color(${fallback.toFixed(1)})`
-          if (kind === 'vec2') return `vec2(${fallback.toFixed(1)}, ${fallback.toFixed(1)})`
-          if (kind === 'vec3') return `vec3(${fallback.toFixed(1)}, ${fallback.toFixed(1)}, ${fallback.toFixed(1)})`
-          return `vec4(${fallback.toFixed(1)}, ${fallback.toFixed(1)}, ${fallback.toFixed(1)}, ${fallback.toFixed(1)})`
-        }
-        const exprA = toKindExpr(inputA, outputKind, 1)
-        const exprB = toKindExpr(inputB, outputKind, 0)
-        const condExpr = (() => {
-          if (!inputCond) return 'float(0.0)'
-          if (outputKind === 'number') {
-            if (inputCond.kind === 'number') return inputCond.expr
-            if (isVectorKind(inputCond.kind)) return `length(${inputCond.expr})`
-            return 'float(0.0)'
+          if (change.kind === 'output' && functionNodeIds.has(connection.from.nodeId)) {
+            if (change.removed?.has(connection.from.pin)) return []
+            const renamed = change.renameMap?.[connection.from.pin]
+            if (renamed) {
+              return [
+                {
+                  ...connection,
+                  from: { ...connection.from, pin: renamed },
+                },
+              ]
+            }
           }
-          if (outputKind === 'vec2') return toVec2Expr(inputCond)
-          if (outputKind === 'vec4') return toVec4Expr(inputCond)
-          return toVec3Expr(inputCond)
-        })()
-        const thresholdExpr =
-          inputThreshold?.kind === 'number' ? inputThreshold.expr : 'float(0.5)'
-        const thresholdValue =
-          outputKind === 'number'
-            ? thresholdExpr
-            : outputKind === 'vec2'
-              ? `vec2(${thresholdExpr}, ${thresholdExpr})`
-              : outputKind === 'vec4'
-                ? `vec4(${thresholdExpr}, ${thresholdExpr}, ${thresholdExpr}, ${thresholdExpr})`
-                : `vec3(${thresholdExpr}, ${thresholdExpr}, ${thresholdExpr})`
-        const mask = `greaterThan(${condExpr}, ${thresholdValue})`
-        const expr = `select(${mask}, ${exprA}, ${exprB})`
-        const name = nextVar(outputKind === 'number' ? 'num' : outputKind === 'color' ? 'col' : 'vec')
-        decls.push(`const ${name} = ${expr};`)
-        const out = { expr: name, kind: outputKind }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'smoothstepElement') {
-        const lowInput = getInput('low')
-        const highInput = getInput('high')
-        const xInput = getInput('x')
-        const kind = resolveVectorOutputKind([
-          lowInput?.kind ?? 'number',
-          highInput?.kind ?? 'number',
-          xInput?.kind ?? 'number',
-        ])
-        if (kind === 'unknown') {
-          const out = { expr: 'float(0.0)', kind: 'number' as const }
-          cache.set(key, out)
-          return out
-        }
-        let exprX = xInput?.expr ?? 'float(0.0)'
-        let exprLow = lowInput?.expr ?? 'float(0.0)'
-        let exprHigh = highInput?.expr ?? 'float(1.0)'
-        if (kind === 'color') {
-          exprX =
-            xInput?.kind === 'color'
-              ? xInput.expr
-              : xInput?.kind === 'number'
-                ? asColor(xInput.expr, 'number')
-                : 'color(0.0)'
-          exprLow =
-            lowInput?.kind === 'color'
-              ? lowInput.expr
-              : lowInput?.kind === 'number'
-                ? asColor(lowInput.expr, 'number')
-                : 'color(0.0)'
-          exprHigh =
-            highInput?.kind === 'color'
-              ? highInput.expr
-              : highInput?.kind === 'number'
-                ? asColor(highInput.expr, 'number')
-                : 'color(1.0)'
-        } else if (kind === 'vec2') {
-          exprX =
-            xInput?.kind === 'vec2'
-              ? xInput.expr
-              : xInput?.kind === 'number'
-                ? asVec2(xInput.expr, 'number')
-                : 'vec2(0.0, 0.0)'
-          exprLow =
-            lowInput?.kind === 'vec2'
-              ? lowInput.expr
-              : lowInput?.kind === 'number'
-                ? asVec2(lowInput.expr, 'number')
-                : 'vec2(0.0, 0.0)'
-          exprHigh =
-            highInput?.kind === 'vec2'
-              ? highInput.expr
-              : highInput?.kind === 'number'
-                ? asVec2(highInput.expr, 'number')
-                : 'vec2(1.0, 1.0)'
-        } else if (kind === 'vec3') {
-          exprX =
-            xInput?.kind === 'vec3'
-              ? xInput.expr
-              : xInput?.kind === 'number'
-                ? asVec3(xInput.expr, 'number')
-                : 'vec3(0.0, 0.0, 0.0)'
-          exprLow =
-            lowInput?.kind === 'vec3'
-              ? lowInput.expr
-              : lowInput?.kind === 'number'
-                ? asVec3(lowInput.expr, 'number')
-                : 'vec3(0.0, 0.0, 0.0)'
-          exprHigh =
-            highInput?.kind === 'vec3'
-              ? highInput.expr
-              : highInput?.kind === 'number'
-                ? asVec3(highInput.expr, 'number')
-                : 'vec3(1.0, 1.0, 1.0)'
-        } else if (kind === 'vec4') {
-          exprX =
-            xInput?.kind === 'vec4'
-              ? xInput.expr
-              : xInput?.kind === 'number'
-                ? asVec4(xInput.expr, 'number')
-                : 'vec4(0.0, 0.0, 0.0, 1.0)'
-          exprLow =
-            lowInput?.kind === 'vec4'
-              ? lowInput.expr
-              : lowInput?.kind === 'number'
-                ? asVec4(lowInput.expr, 'number')
-                : 'vec4(0.0, 0.0, 0.0, 1.0)'
-          exprHigh =
-            highInput?.kind === 'vec4'
-              ? highInput.expr
-              : highInput?.kind === 'number'
-                ? asVec4(highInput.expr, 'number')
-                : 'vec4(1.0, 1.0, 1.0, 1.0)'
-        }
-        const expr = `smoothstepElement(${exprX}, ${exprLow}, ${exprHigh})`
-        const name = nextVar(kind === 'number' ? 'num' : 'vec')
-        decls.push(`const ${name} = ${expr};`)
-        const out = { expr: name, kind }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'stepElement') {
-        const edgeInput = getInput('edge')
-        const xInput = getInput('x')
-        const kind = resolveVectorOutputKind([
-          edgeInput?.kind ?? 'number',
-          xInput?.kind ?? 'number',
-        ])
-        if (kind === 'unknown') {
-          const out = { expr: 'float(0.0)', kind: 'number' as const }
-          cache.set(key, out)
-          return out
-        }
-        let exprX = xInput?.expr ?? 'float(0.0)'
-        let exprEdge = edgeInput?.expr ?? 'float(0.0)'
-        if (kind === 'color') {
-          exprX =
-            xInput?.kind === 'color'
-              ? xInput.expr
-              : xInput?.kind === 'number'
-                ? asColor(xInput.expr, 'number')
-                : 'color(0.0)'
-          exprEdge =
-            edgeInput?.kind === 'color'
-              ? edgeInput.expr
-              : edgeInput?.kind === 'number'
-                ? asColor(edgeInput.expr, 'number')
-                : 'color(0.0)'
-        } else if (kind === 'vec2') {
-          exprX =
-            xInput?.kind === 'vec2'
-              ? xInput.expr
-              : xInput?.kind === 'number'
-                ? asVec2(xInput.expr, 'number')
-                : 'vec2(0.0, 0.0)'
-          exprEdge =
-            edgeInput?.kind === 'vec2'
-              ? edgeInput.expr
-              : edgeInput?.kind === 'number'
-                ? asVec2(edgeInput.expr, 'number')
-                : 'vec2(0.0, 0.0)'
-        } else if (kind === 'vec3') {
-          exprX =
-            xInput?.kind === 'vec3'
-              ? xInput.expr
-              : xInput?.kind === 'number'
-                ? asVec3(xInput.expr, 'number')
-                : 'vec3(0.0, 0.0, 0.0)'
-          exprEdge =
-            edgeInput?.kind === 'vec3'
-              ? edgeInput.expr
-              : edgeInput?.kind === 'number'
-                ? asVec3(edgeInput.expr, 'number')
-                : 'vec3(0.0, 0.0, 0.0)'
-        } else if (kind === 'vec4') {
-          exprX =
-            xInput?.kind === 'vec4'
-              ? xInput.expr
-              : xInput?.kind === 'number'
-                ? asVec4(xInput.expr, 'number')
-                : 'vec4(0.0, 0.0, 0.0, 1.0)'
-          exprEdge =
-            edgeInput?.kind === 'vec4'
-              ? edgeInput.expr
-              : edgeInput?.kind === 'number'
-                ? asVec4(edgeInput.expr, 'number')
-                : 'vec4(0.0, 0.0, 0.0, 1.0)'
-        }
-        const expr = `stepElement(${exprX}, ${exprEdge})`
-        const name = nextVar(kind === 'number' ? 'num' : 'vec')
-        decls.push(`const ${name} = ${expr};`)
-        const out = { expr: name, kind }
-        cache.set(key, out)
-        return out
-      }
-      if (
-        node.type === 'lessThan' ||
-        node.type === 'lessThanEqual' ||
-        node.type === 'greaterThan' ||
-        node.type === 'greaterThanEqual' ||
-        node.type === 'equal' ||
-        node.type === 'notEqual'
-      ) {
-        const inputA = getInput('a')
-        const inputB = getInput('b')
-        const kind = resolveVectorOutputKind([
-          inputA?.kind ?? 'number',
-          inputB?.kind ?? 'number',
-        ])
-        if (kind === 'unknown') {
-          const out = { expr: 'float(0.0)', kind: 'number' as const }
-          cache.set(key, out)
-          return out
-        }
-        const compareFn =
-          node.type === 'lessThan'
-            ? 'lessThan'
-            : node.type === 'lessThanEqual'
-              ? 'lessThanEqual'
-              : node.type === 'greaterThan'
-                ? 'greaterThan'
-                : node.type === 'greaterThanEqual'
-                  ? 'greaterThanEqual'
-                  : node.type === 'equal'
-                    ? 'equal'
-                    : 'notEqual'
-        let exprA = inputA?.expr ?? 'float(0.0)'
-        let exprB = inputB?.expr ?? 'float(0.0)'
-        if (kind === 'color') {
-          exprA =
-            inputA?.kind === 'color'
-              ? inputA.expr
-              : inputA?.kind === 'number'
-                ? asColor(inputA.expr, 'number')
-                : 'color(0.0)'
-          exprB =
-            inputB?.kind === 'color'
-              ? inputB.expr
-              : inputB?.kind === 'number'
-                ? asColor(inputB.expr, 'number')
-                : 'color(0.0)'
-        } else if (kind === 'vec2') {
-          exprA =
-            inputA?.kind === 'vec2'
-              ? inputA.expr
-              : inputA?.kind === 'number'
-                ? asVec2(inputA.expr, 'number')
-                : 'vec2(0.0, 0.0)'
-          exprB =
-            inputB?.kind === 'vec2'
-              ? inputB.expr
-              : inputB?.kind === 'number'
-                ? asVec2(inputB.expr, 'number')
-                : 'vec2(0.0, 0.0)'
-        } else if (kind === 'vec3') {
-          exprA =
-            inputA?.kind === 'vec3'
-              ? inputA.expr
-              : inputA?.kind === 'number'
-                ? asVec3(inputA.expr, 'number')
-                : 'vec3(0.0, 0.0, 0.0)'
-          exprB =
-            inputB?.kind === 'vec3'
-              ? inputB.expr
-              : inputB?.kind === 'number'
-                ? asVec3(inputB.expr, 'number')
-                : 'vec3(0.0, 0.0, 0.0)'
-        } else if (kind === 'vec4') {
-          exprA =
-            inputA?.kind === 'vec4'
-              ? inputA.expr
-              : inputA?.kind === 'number'
-                ? asVec4(inputA.expr, 'number')
-                : 'vec4(0.0, 0.0, 0.0, 1.0)'
-          exprB =
-            inputB?.kind === 'vec4'
-              ? inputB.expr
-              : inputB?.kind === 'number'
-                ? asVec4(inputB.expr, 'number')
-                : 'vec4(0.0, 0.0, 0.0, 1.0)'
-        }
-        const oneExpr =
-          kind === 'number'
-            ? 'float(1.0)'
-            : kind === 'color'
-              ? 'color(1.0)'
-              : kind === 'vec2'
-                ? 'vec2(1.0, 1.0)'
-                : kind === 'vec3'
-                  ? 'vec3(1.0, 1.0, 1.0)'
-                  : 'vec4(1.0, 1.0, 1.0, 1.0)'
-        const zeroExpr =
-          kind === 'number'
-            ? 'float(0.0)'
-            : kind === 'color'
-              ? 'color(0.0)'
-              : kind === 'vec2'
-                ? 'vec2(0.0, 0.0)'
-                : kind === 'vec3'
-                  ? 'vec3(0.0, 0.0, 0.0)'
-                  : 'vec4(0.0, 0.0, 0.0, 0.0)'
-        const expr = `select(${compareFn}(${exprA}, ${exprB}), ${oneExpr}, ${zeroExpr})`
-        const name = nextVar(kind === 'number' ? 'num' : kind === 'color' ? 'col' : 'vec')
-        decls.push(`const ${name} = ${expr};`)
-        const out = { expr: name, kind }
-        cache.set(key, out)
-        return out
+          return [connection]
+        })
       }
-      if (node.type === 'and' || node.type === 'or') {
-        const inputA = getInput('a')
-        const inputB = getInput('b')
-        const kind = resolveVectorOutputKind([
-          inputA?.kind ?? 'number',
-          inputB?.kind ?? 'number',
-        ])
-        if (kind === 'unknown') {
-          const out = { expr: 'float(0.0)', kind: 'number' as const }
-          cache.set(key, out)
-          return out
-        }
-        const halfExpr =
-          kind === 'number'
-            ? 'float(0.5)'
-            : kind === 'color'
-              ? 'color(0.5)'
-              : kind === 'vec2'
-                ? 'vec2(0.5, 0.5)'
-                : kind === 'vec3'
-                  ? 'vec3(0.5, 0.5, 0.5)'
-                  : 'vec4(0.5, 0.5, 0.5, 0.5)'
-        let exprA = inputA?.expr ?? 'float(0.0)'
-        let exprB = inputB?.expr ?? 'float(0.0)'
-        if (kind === 'color') {
-          exprA =
-            inputA?.kind === 'color'
-              ? inputA.expr
-              : inputA?.kind === 'number'
-                ? asColor(inputA.expr, 'number')
-                : 'color(0.0)'
-          exprB =
-            inputB?.kind === 'color'
-              ? inputB.expr
-              : inputB?.kind === 'number'
-                ? asColor(inputB.expr, 'number')
-                : 'color(0.0)'
-        } else if (kind === 'vec2') {
-          exprA =
-            inputA?.kind === 'vec2'
-              ? inputA.expr
-              : inputA?.kind === 'number'
-                ? asVec2(inputA.expr, 'number')
-                : 'vec2(0.0, 0.0)'
-          exprB =
-            inputB?.kind === 'vec2'
-              ? inputB.expr
-              : inputB?.kind === 'number'
-                ? asVec2(inputB.expr, 'number')
-                : 'vec2(0.0, 0.0)'
-        } else if (kind === 'vec3') {
-          exprA =
-            inputA?.kind === 'vec3'
-              ? inputA.expr
-              : inputA?.kind === 'number'
-                ? asVec3(inputA.expr, 'number')
-                : 'vec3(0.0, 0.0, 0.0)'
-          exprB =
-            inputB?.kind === 'vec3'
-              ? inputB.expr
-              : inputB?.kind === 'number'
-                ? asVec3(inputB.expr, 'number')
-                : 'vec3(0.0, 0.0, 0.0)'
-        } else if (kind === 'vec4') {
-          exprA =
-            inputA?.kind === 'vec4'
-              ? inputA.expr
-              : inputA?.kind === 'number'
-                ? asVec4(inputA.expr, 'number')
-                : 'vec4(0.0, 0.0, 0.0, 1.0)'
-          exprB =
-            inputB?.kind === 'vec4'
-              ? inputB.expr
-              : inputB?.kind === 'number'
-                ? asVec4(inputB.expr, 'number')
-                : 'vec4(0.0, 0.0, 0.0, 1.0)'
-        }
-        const maskA = `step(${halfExpr}, ${exprA})`
-        const maskB = `step(${halfExpr}, ${exprB})`
-        const expr = node.type === 'and' ? `(${maskA} * ${maskB})` : `max(${maskA}, ${maskB})`
-        const name = nextVar(kind === 'number' ? 'num' : kind === 'color' ? 'col' : 'vec')
-        decls.push(`const ${name} = ${expr};`)
-        const out = { expr: name, kind }
-        cache.set(key, out)
-        return out
+      // Calls can live in the main graph or nested inside other function definitions.
+      setFunctions((prev) => {
+        if (!prev[functionId]) return prev
+        return Object.fromEntries(
+          Object.entries({ ...prev, [functionId]: nextDef }).map(([id, def]) => [
+            id,
+            def.nodes.some((node) => node.functionId === functionId)
+              ? {
+                  ...def,
+                  nodes: updateCallNodes(def.nodes),
+                  connections: updateCallConnections(def.nodes, def.connections),
+                }
+              : def,
+          ]),
+        )
+      })
+      // Both come from the same snapshot so the links follow the call nodes they belong to.
+      const nextNodes = updateCallNodes(nodes)
+      setNodes(nextNodes)
+      setConnections(updateCallConnections(nextNodes, connections))
+    },
+    [connections, nodes, setConnections, setFunctions, setNodes],
+  )
+
+  const renameFunctionPin = useCallback(
+    (kind: 'input' | 'output', index: number, nextName: string) => {
+      if (!activeFunctionId || !activeFunction) return false
+      const trimmed = nextName.trim()
+      if (!trimmed) {
+        setToast('Pin name cannot be empty')
+        return false
       }
-      if (node.type === 'not') {
-        const input = getInput('value')
-        const kind = input?.kind ?? 'number'
-        if (kind !== 'number' && !isVectorKind(kind)) {
-          const out = { expr: 'float(0.0)', kind: 'number' as const }
-          cache.set(key, out)
-          return out
-        }
-        const halfExpr =
-          kind === 'number'
-            ? 'float(0.5)'
-            : kind === 'color'
-              ? 'color(0.5)'
-              : kind === 'vec2'
-                ? 'vec2(0.5, 0.5)'
-                : kind === 'vec3'
-                  ? 'vec3(0.5, 0.5, 0.5)'
-                  : 'vec4(0.5, 0.5, 0.5, 0.5)'
-        let exprValue = input?.expr ?? 'float(0.0)'
-        if (kind === 'color') {
-          exprValue =
-            input?.kind === 'color'
-              ? input.expr
-              : input?.kind === 'number'
-                ? asColor(input.expr, 'number')
-                : 'color(0.0)'
-        } else if (kind === 'vec2') {
-          exprValue =
-            input?.kind === 'vec2'
-              ? input.expr
-              : input?.kind === 'number'
-                ? asVec2(input.expr, 'number')
-                : 'vec2(0.0, 0.0)'
-        } else if (kind === 'vec3') {
-          exprValue =
-            input?.kind === 'vec3'
-              ? input.expr
-              : input?.kind === 'number'
-                ? asVec3(input.expr, 'number')
-                : 'vec3(0.0, 0.0, 0.0)'
-        } else if (kind === 'vec4') {
-          exprValue =
-            input?.kind === 'vec4'
-              ? input.expr
-              : input?.kind === 'number'
-                ? asVec4(input.expr, 'number')
-                : 'vec4(0.0, 0.0, 0.0, 1.0)'
-        }
-        const mask = `step(${halfExpr}, ${exprValue})`
-        const expr = `oneMinus(${mask})`
-        const name = nextVar(kind === 'number' ? 'num' : kind === 'color' ? 'col' : 'vec')
-        decls.push(`const ${name} = ${expr};`)
-        const out = {
-          expr: name,
-          kind: kind === 'color' ? ('color' as const) : (kind as typeof kind),
-        }
-        cache.set(key, out)
-        return out
+      const pins = kind === 'input' ? activeFunction.inputs : activeFunction.outputs
+      const current = pins[index]
+      if (!current) return false
+      if (current.name === trimmed) return true
+      if (pins.some((pin, idx) => pin.name === trimmed && idx !== index)) {
+        setToast('Pin name already exists')
+        return false
       }
-      if (node.type === 'remap' || node.type === 'remapClamp') {
-        const input = getInput('value')
-        const inLowInput = getInput('inLow')
-        const inHighInput = getInput('inHigh')
-        const outLowInput = getInput('outLow')
-        const outHighInput = getInput('outHigh')
-        const kind = input?.kind ?? 'number'
-        const fn = node.type === 'remap' ? 'remap' : 'remapClamp'
-        if (kind === 'number') {
-          const valueExpr = input?.kind === 'number' ? input.expr : 'float(0.0)'
-          const inLowExpr = inLowInput?.kind === 'number' ? inLowInput.expr : 'float(0.0)'
-          const inHighExpr = inHighInput?.kind === 'number' ? inHighInput.expr : 'float(1.0)'
-          const outLowExpr = outLowInput?.kind === 'number' ? outLowInput.expr : 'float(0.0)'
-          const outHighExpr =
-            outHighInput?.kind === 'number' ? outHighInput.expr : 'float(1.0)'
-          const expr = `${fn}(${valueExpr}, ${inLowExpr}, ${inHighExpr}, ${outLowExpr}, ${outHighExpr})`
-          const name = nextVar('num')
-          decls.push(`const ${name} = ${expr};`)
-          const out = { expr: name, kind: 'number' as const }
-          cache.set(key, out)
-          return out
-        }
-        if (kind === 'vec2') {
-          const valueExpr = input ? toVec2Expr(input) : 'vec2(0.0, 0.0)'
-          const inLowExpr = inLowInput ? toVec2Expr(inLowInput) : 'vec2(0.0, 0.0)'
-          const inHighExpr = inHighInput ? toVec2Expr(inHighInput) : 'vec2(1.0, 1.0)'
-          const outLowExpr = outLowInput ? toVec2Expr(outLowInput) : 'vec2(0.0, 0.0)'
-          const outHighExpr = outHighInput ? toVec2Expr(outHighInput) : 'vec2(1.0, 1.0)'
-          const expr = `${fn}(${valueExpr}, ${inLowExpr}, ${inHighExpr}, ${outLowExpr}, ${outHighExpr})`
-          const name = nextVar('vec')
-          decls.push(`const ${name} = ${expr};`)
-          const out = { expr: name, kind: 'vec2' as const }
-          cache.set(key, out)
-          return out
-        }
-        if (kind === 'vec3' || kind === 'color') {
-          const valueExpr = input ? toVec3Expr(input) : 'vec3(0.0, 0.0, 0.0)'
-          const inLowExpr = inLowInput ? toVec3Expr(inLowInput) : 'vec3(0.0, 0.0, 0.0)'
-          const inHighExpr = inHighInput ? toVec3Expr(inHighInput) : 'vec3(1.0, 1.0, 1.0)'
-          const outLowExpr = outLowInput ? toVec3Expr(outLowInput) : 'vec3(0.0, 0.0, 0.0)'
-          const outHighExpr = outHighInput ? toVec3Expr(outHighInput) : 'vec3(1.0, 1.0, 1.0)'
-          const expr = `${fn}(${valueExpr}, ${inLowExpr}, ${inHighExpr}, ${outLowExpr}, ${outHighExpr})`
-          const name = nextVar('vec')
-          decls.push(`const ${name} = ${expr};`)
-          const out = {
-            expr: name,
-            kind: kind === 'color' ? ('color' as const) : ('vec3' as const),
-          }
-          cache.set(key, out)
-          return out
-        }
-        if (kind === 'vec4') {
-          const valueExpr = input ? toVec4Expr(input) : 'vec4(0.0, 0.0, 0.0, 1.0)'
-          const inLowExpr = inLowInput ? toVec4Expr(inLowInput) : 'vec4(0.0, 0.0, 0.0, 1.0)'
-          const inHighExpr = inHighInput ? toVec4Expr(inHighInput) : 'vec4(1.0, 1.0, 1.0, 1.0)'
-          const outLowExpr = outLowInput ? toVec4Expr(outLowInput) : 'vec4(0.0, 0.0, 0.0, 1.0)'
-          const outHighExpr = outHighInput ? toVec4Expr(outHighInput) : 'vec4(1.0, 1.0, 1.0, 1.0)'
-          const expr = `${fn}(${valueExpr}, ${inLowExpr}, ${inHighExpr}, ${outLowExpr}, ${outHighExpr})`
-          const name = nextVar('vec')
-          decls.push(`const ${name} = ${expr};`)
-          const out = { expr: name, kind: 'vec4' as const }
-          cache.set(key, out)
-          return out
-        }
+      const renameMap = { [current.name]: trimmed }
+      const nextPins = pins.map((pin, idx) =>
+        idx === index ? { ...pin, name: trimmed } : pin,
+      )
+      const nextNodes = activeFunction.nodes.map((node) =>
+        node.id === current.nodeId ? { ...node, label: trimmed } : node,
+      )
+      const nextDef: FunctionDefinition = {
+        ...activeFunction,
+        nodes: nextNodes,
+        inputs: kind === 'input' ? nextPins : activeFunction.inputs,
+        outputs: kind === 'output' ? nextPins : activeFunction.outputs,
       }
-      if (node.type === 'luminance') {
-        const input = getInput('value')
-        const sourceExpr = toVec3Expr(input)
-        const expr = `luminance(${sourceExpr})`
-        const name = nextVar('num')
-        decls.push(`const ${name} = ${expr};`)
-        const out = { expr: name, kind: 'number' as const }
-        cache.set(key, out)
-        return out
+      applyFunctionDefinitionChange(activeFunctionId, nextDef, {
+        kind,
+        renameMap,
+      })
+      return true
+    },
+    [activeFunction, activeFunctionId, applyFunctionDefinitionChange],
+  )
+
+  const moveFunctionPin = useCallback(
+    (kind: 'input' | 'output', index: number, direction: -1 | 1) => {
+      if (!activeFunctionId || !activeFunction) return
+      const pins = kind === 'input' ? activeFunction.inputs : activeFunction.outputs
+      const nextIndex = index + direction
+      if (nextIndex < 0 || nextIndex >= pins.length) return
+      const nextPins = [...pins]
+      const [moved] = nextPins.splice(index, 1)
+      nextPins.splice(nextIndex, 0, moved)
+      const nextDef: FunctionDefinition = {
+        ...activeFunction,
+        inputs: kind === 'input' ? nextPins : activeFunction.inputs,
+        outputs: kind === 'output' ? nextPins : activeFunction.outputs,
       }
-      if (
-        node.type === 'grayscale' ||
-        node.type === 'saturation' ||
-        node.type === 'posterize' ||
-        node.type === 'sRGBTransferEOTF' ||
-        node.type === 'sRGBTransferOETF' ||
-        node.type === 'linearToneMapping' ||
-        node.type === 'reinhardToneMapping' ||
-        node.type === 'cineonToneMapping' ||
-        node.type === 'acesFilmicToneMapping' ||
-        node.type === 'agxToneMapping' ||
-        node.type === 'neutralToneMapping'
-      ) {
-        const input = getInput('value')
-        const sourceExpr = toVec3Expr(input)
-        let expr = sourceExpr
-        if (node.type === 'grayscale') {
-          expr = `grayscale(${sourceExpr})`
-        } else if (node.type === 'saturation') {
-          const amountInput = getInput('amount')
-          const amountExpr = amountInput?.kind === 'number' ? amountInput.expr : 'float(1.0)'
-          expr = `saturation(${sourceExpr}, ${amountExpr})`
-        } else if (node.type === 'posterize') {
-          const stepsInput = getInput('steps')
-          const stepsExpr = stepsInput?.kind === 'number' ? stepsInput.expr : 'float(4.0)'
-          expr = `posterize(${sourceExpr}, ${stepsExpr})`
-        } else if (node.type === 'sRGBTransferEOTF') {
-          expr = `sRGBTransferEOTF(${sourceExpr})`
-        } else if (node.type === 'sRGBTransferOETF') {
-          expr = `sRGBTransferOETF(${sourceExpr})`
-        } else if (node.type === 'linearToneMapping') {
-          expr = `linearToneMapping(${sourceExpr}, float(1))`
-        } else if (node.type === 'reinhardToneMapping') {
-          expr = `reinhardToneMapping(${sourceExpr}, float(1))`
-        } else if (node.type === 'cineonToneMapping') {
-          expr = `cineonToneMapping(${sourceExpr}, float(1))`
-        } else if (node.type === 'acesFilmicToneMapping') {
-          expr = `acesFilmicToneMapping(${sourceExpr}, float(1))`
-        } else if (node.type === 'agxToneMapping') {
-          expr = `agxToneMapping(${sourceExpr}, float(1))`
-        } else {
-          expr = `neutralToneMapping(${sourceExpr}, float(1))`
-        }
-        const name = nextVar('col')
-        decls.push(`const ${name} = ${expr};`)
-        const kind = input?.kind === 'color' || !input ? ('color' as const) : ('vec3' as const)
-        const out = { expr: name, kind }
-        cache.set(key, out)
-        return out
+      applyFunctionDefinitionChange(activeFunctionId, nextDef)
+    },
+    [activeFunction, activeFunctionId, applyFunctionDefinitionChange],
+  )
+
+  const removeFunctionPin = useCallback(
+    (kind: 'input' | 'output', index: number) => {
+      if (!activeFunctionId || !activeFunction) return
+      const pins = kind === 'input' ? activeFunction.inputs : activeFunction.outputs
+      const target = pins[index]
+      if (!target) return
+      const removed = new Set([target.name])
+      const nextPins = pins.filter((_, idx) => idx !== index)
+      const nextNodes = activeFunction.nodes.filter((node) => node.id !== target.nodeId)
+      const nextConnections = activeFunction.connections.filter(
+        (connection) =>
+          connection.from.nodeId !== target.nodeId &&
+          connection.to.nodeId !== target.nodeId,
+      )
+      const nextDef: FunctionDefinition = {
+        ...activeFunction,
+        nodes: nextNodes,
+        connections: nextConnections,
+        inputs: kind === 'input' ? nextPins : activeFunction.inputs,
+        outputs: kind === 'output' ? nextPins : activeFunction.outputs,
       }
+      applyFunctionDefinitionChange(activeFunctionId, nextDef, { kind, removed })
+    },
+    [activeFunction, activeFunctionId, applyFunctionDefinitionChange],
+  )
 
-      if (node.type === 'material' || node.type === 'physicalMaterial') {
-        const pin = outputPin ?? 'baseColor'
-        const base = getInput('baseColor')
-        const tex = getInput('baseColorTexture')
-        const baseColor =
-          base?.kind === 'color' || base?.kind === 'number' ? base : null
-        const texColor =
-          tex?.kind === 'color' || tex?.kind === 'number' ? tex : null
-        if (pin === 'baseColor') {
-          if (baseColor && texColor) {
-            const expr = `${asColor(baseColor.expr, baseColor.kind === 'color' ? 'color' : 'number')}.mul(${asColor(
-              texColor.expr,
-              texColor.kind === 'color' ? 'color' : 'number',
-            )})`
-            const name = nextVar('col')
-            decls.push(`const ${name} = ${expr};`)
-            const out = { expr: name, kind: 'color' as const }
-            cache.set(key, out)
-            return out
-          }
-          if (baseColor) {
-            const out = {
-              expr: asColor(
-                baseColor.expr,
-                baseColor.kind === 'color' ? 'color' : 'number',
-              ),
-              kind: 'color' as const,
-            }
-            cache.set(key, out)
-            return out
-          }
-          if (texColor) {
-            const out = {
-              expr: asColor(
-                texColor.expr,
-                texColor.kind === 'color' ? 'color' : 'number',
-              ),
-              kind: 'color' as const,
-            }
-            cache.set(key, out)
-            return out
-          }
-        }
-        if (pin === 'roughness' || pin === 'metalness') {
-          const input = getInput(pin)
-          const out = input ?? { expr: 'float(0.7)', kind: 'number' as const }
-          cache.set(key, out)
-          return out
+  const isNodeInCollapsedGroup = (nodeId: string) =>
+    editorGroups.some((group) => group.collapsed && group.nodeIds.includes(nodeId))
+
+  useEffect(() => {
+    if (isFunctionEditing) {
+      setGroupBounds((prev) => (Object.keys(prev).length ? {} : prev))
+      return
+    }
+    const container = viewportRef.current
+    if (!container) return
+    const rafId = window.requestAnimationFrame(() => {
+      const rect = container.getBoundingClientRect()
+      const viewState = viewRef.current
+      const next: Record<string, { x: number; y: number }> = {}
+      let sizeMap = nodeSizeRef.current
+      const pins = container.querySelectorAll<HTMLElement>('[data-pin-key]')
+      pins.forEach((pin) => {
+        const pinRect = pin.getBoundingClientRect()
+        const key = pin.dataset.pinKey
+        if (!key) return
+        const screenX = pinRect.left - rect.left + pinRect.width / 2
+        const screenY = pinRect.top - rect.top + pinRect.height / 2
+        next[key] = {
+          x: (screenX - viewState.x) / viewState.zoom,
+          y: (screenY - viewState.y) / viewState.zoom,
         }
-      }
-      if (node.type === 'basicMaterial') {
-        const pin = outputPin ?? 'baseColor'
-        if (pin === 'baseColor') {
-          const base = getInput('baseColor')
-          const tex = getInput('baseColorTexture')
-          if (base && tex) {
-            const expr = `${asColor(base.expr, base.kind === 'number' ? 'number' : 'color')}.mul(${asColor(
-              tex.expr,
-              tex.kind === 'number' ? 'number' : 'color',
-            )})`
-            const name = nextVar('col')
-            decls.push(`const ${name} = ${expr};`)
-            const out = { expr: name, kind: 'color' as const }
-            cache.set(key, out)
-            return out
-          }
-          if (base) {
-            const out = {
-              expr: asColor(base.expr, base.kind === 'number' ? 'number' : 'color'),
-              kind: 'color' as const,
-            }
-            cache.set(key, out)
-            return out
-          }
-          if (tex) {
-            const out = {
-              expr: asColor(tex.expr, tex.kind === 'number' ? 'number' : 'color'),
-              kind: 'color' as const,
-            }
-            cache.set(key, out)
-            return out
+      })
+      const needsNodeSizeMeasure =
+        Object.keys(sizeMap).length !== editorNodes.length ||
+        editorNodes.some((node) => !sizeMap[node.id])
+      if (needsNodeSizeMeasure) {
+        const nextSizeMap: Record<string, { width: number; height: number }> = {}
+        const cards = container.querySelectorAll<HTMLElement>('.node-card[data-node-id]')
+        cards.forEach((card) => {
+          const id = card.dataset.nodeId
+          if (!id) return
+          const rect = card.getBoundingClientRect()
+          const width = card.offsetWidth || rect.width
+          const height = card.offsetHeight || rect.height
+          nextSizeMap[id] = {
+            width,
+            height,
           }
-        }
+        })
+        sizeMap = nextSizeMap
+        nodeSizeRef.current = nextSizeMap
       }
-
-      if (node.type === 'output') {
-        const input = getInput('baseColor')
-        const out = input ?? { expr: 'color(0.067, 0.074, 0.086)', kind: 'color' as const }
-        cache.set(key, out)
-        return out
+      setPinPositions(next)
+      if (!isFunctionEditing && pendingExampleLayoutRef.current) {
+        pendingExampleLayoutRef.current = false
+        setEditorNodes((prev) => spreadNodesByColumn(prev))
       }
-
-      if (node.type === 'vertexOutput') {
-        const input = getInput('position')
-        const out =
-          input?.kind === 'vec3'
-            ? { expr: input.expr, kind: 'vec3' as const }
-            : input?.kind === 'number'
-              ? { expr: asVec3(input.expr, 'number'), kind: 'vec3' as const }
-              : { expr: 'vec3(0.0, 0.0, 0.0)', kind: 'vec3' as const }
-        cache.set(key, out)
-        return out
+      if (!groups.length) {
+        setGroupBounds((prev) => (Object.keys(prev).length ? {} : prev))
+        return
       }
+      const nodeMap = new Map(nodes.map((node) => [node.id, node]))
+      const fallbackSize = { width: 200, height: 160 }
+      const padding = 16
+      const nextBounds: Record<
+        string,
+        { x: number; y: number; width: number; height: number }
+      > = {}
+      groups.forEach((group) => {
+        const members = group.nodeIds
+          .map((id) => {
+            const node = nodeMap.get(id)
+            if (!node) return null
+            const size = sizeMap[id] ?? fallbackSize
+            return { x: node.x, y: node.y, width: size.width, height: size.height }
+          })
+          .filter(
+            (member): member is { x: number; y: number; width: number; height: number } =>
+              Boolean(member),
+          )
+        if (!members.length) return
+        let minX = Infinity
+        let minY = Infinity
+        let maxX = -Infinity
+        let maxY = -Infinity
+        members.forEach((member) => {
+          minX = Math.min(minX, member.x)
+          minY = Math.min(minY, member.y)
+          maxX = Math.max(maxX, member.x + member.width)
+          maxY = Math.max(maxY, member.y + member.height)
+        })
+        nextBounds[group.id] = {
+          x: minX - padding,
+          y: minY - padding,
+          width: maxX - minX + padding * 2,
+          height: maxY - minY + padding * 2,
+        }
+      })
+      setGroupBounds(nextBounds)
+    })
+    return () => window.cancelAnimationFrame(rafId)
+  }, [
+    nodes,
+    connections,
+    groups,
+    isFunctionEditing,
+    spreadNodesByColumn,
+  ])
 
-      const fallback = { expr: 'float(0.0)', kind: 'number' as const }
-      cache.set(key, fallback)
-      return fallback
-    }
+  const nodeIdSignature = useMemo(
+    () => nodes.map((node) => node.id).join('|'),
+    [nodes],
+  )
 
-    const baseColor = resolveExpr(baseColorConn.from.nodeId, baseColorConn.from.pin)
-    const roughnessConn = getOutputConnection(connectionMap, outputNode, 'roughness')
-    const metalnessConn = getOutputConnection(connectionMap, outputNode, 'metalness')
-    const roughness = roughnessConn
-      ? resolveExpr(roughnessConn.from.nodeId, roughnessConn.from.pin)
-      : { expr: 'float(0.7)', kind: 'number' as const }
-    const metalness = metalnessConn
-      ? resolveExpr(metalnessConn.from.nodeId, metalnessConn.from.pin)
-      : { expr: 'float(0.1)', kind: 'number' as const }
+  const uniformInputSignature = useMemo(
+    () =>
+      JSON.stringify(
+        nodes
+          .filter((node) => node.type === 'number' || node.type === 'color')
+          .map((node) => ({
+            id: node.id,
+            type: node.type,
+            value: node.value ?? '',
+          })),
+      ),
+    [nodes],
+  )
 
-    const baseColorExpr =
-      baseColor.kind === 'color'
-        ? baseColor.expr
-        : baseColor.kind === 'number'
-          ? asColor(baseColor.expr, 'number')
-          : 'color(0.067, 0.074, 0.086)'
-    const { standardMaterialNode, physicalMaterialNode, basicMaterialNode } =
-      getMaterialNodesFromOutput(outputNode, nodeMap, connectionMap)
-    const getStandardConn = (pin: string) => {
-      const node = standardMaterialNode ?? physicalMaterialNode
-      return node ? connectionMap.get(`${node.id}:${pin}`) : null
-    }
-    const getStandardNumberExpr = (pin: string) => {
-      const conn = getStandardConn(pin)
-      if (!conn) return null
-      const resolved = resolveExpr(conn.from.nodeId, conn.from.pin)
-      return resolved.kind === 'number' ? resolved.expr : null
-    }
-    const getStandardColorExpr = (pin: string) => {
-      const conn = getStandardConn(pin)
-      if (!conn) return null
-      const resolved = resolveExpr(conn.from.nodeId, conn.from.pin)
-      if (resolved.kind === 'color') return resolved.expr
-      if (resolved.kind === 'number') return asColor(resolved.expr, 'number')
-      return null
-    }
-    const getStandardNumberLiteral = (pin: string) => {
-      const conn = getStandardConn(pin)
-      if (!conn) return null
-      const source = nodeMap.get(conn.from.nodeId)
-      if (source?.type === 'number') {
-        return parseNumber(source.value)
-      }
-      return null
-    }
-    const getStandardTextureId = (pin: string) => {
-      const conn = getStandardConn(pin)
-      if (!conn) return null
-      const source = nodeMap.get(conn.from.nodeId)
-      if (source?.type === 'texture') return source.id
-      return null
-    }
-    const getBasicConn = (pin: string) =>
-      basicMaterialNode ? connectionMap.get(`${basicMaterialNode.id}:${pin}`) : null
-    const getBasicNumberExpr = (pin: string) => {
-      const conn = getBasicConn(pin)
-      if (!conn) return null
-      const resolved = resolveExpr(conn.from.nodeId, conn.from.pin)
-      return resolved.kind === 'number' ? resolved.expr : null
-    }
-    const getBasicNumberLiteral = (pin: string) => {
-      const conn = getBasicConn(pin)
-      if (!conn) return null
-      const source = nodeMap.get(conn.from.nodeId)
-      if (source?.type === 'number') {
-        return parseNumber(source.value)
-      }
-      return null
-    }
-    const getBasicTextureId = (pin: string) => {
-      const conn = getBasicConn(pin)
-      if (!conn) return null
-      const source = nodeMap.get(conn.from.nodeId)
-      if (source?.type === 'texture') return source.id
-      return null
-    }
-    decls.push(`material.colorNode = ${baseColorExpr};`)
-    if (materialKind === 'standard' || materialKind === 'physical') {
-      decls.push(`material.roughnessNode = ${roughness.expr};`)
-      decls.push(`material.metalnessNode = ${metalness.expr};`)
-      if (standardMaterialNode || physicalMaterialNode) {
-        const emissiveExpr = getStandardColorExpr('emissive')
-        if (emissiveExpr) {
-          decls.push(`material.emissiveNode = ${emissiveExpr};`)
-        }
-        const emissiveMapId = getStandardTextureId('emissiveMap')
-        if (emissiveMapId) {
-          decls.push(`material.emissiveMap = textureFromNode('${emissiveMapId}');`)
-        }
-        const emissiveIntensity = getStandardNumberLiteral('emissiveIntensity')
-        if (emissiveIntensity !== null) {
-          decls.push(`material.emissiveIntensity = ${emissiveIntensity.toFixed(3)};`)
-        }
-        const roughnessMapId = getStandardTextureId('roughnessMap')
-        if (roughnessMapId) {
-          decls.push(`material.roughnessMap = textureFromNode('${roughnessMapId}');`)
-        }
-        const metalnessMapId = getStandardTextureId('metalnessMap')
-        if (metalnessMapId) {
-          decls.push(`material.metalnessMap = textureFromNode('${metalnessMapId}');`)
-        }
-        const normalMapId = getStandardTextureId('normalMap')
-        if (normalMapId) {
-          decls.push(`material.normalMap = textureFromNode('${normalMapId}');`)
-        }
-        const normalScale = getStandardNumberLiteral('normalScale')
-        if (normalScale !== null) {
-          const value = normalScale.toFixed(3)
-          decls.push(`material.normalScale = new Vector2(${value}, ${value});`)
-        }
-        const aoMapId = getStandardTextureId('aoMap')
-        if (aoMapId) {
-          decls.push(`material.aoMap = textureFromNode('${aoMapId}');`)
-        }
-        const aoMapIntensity = getStandardNumberLiteral('aoMapIntensity')
-        if (aoMapIntensity !== null) {
-          decls.push(`material.aoMapIntensity = ${aoMapIntensity.toFixed(3)};`)
-        }
-        const envMapId = getStandardTextureId('envMap')
-        if (envMapId) {
-          decls.push(`material.envMap = textureFromNode('${envMapId}');`)
-        }
-        const envMapIntensity = getStandardNumberLiteral('envMapIntensity')
-        if (envMapIntensity !== null) {
-          decls.push(`material.envMapIntensity = ${envMapIntensity.toFixed(3)};`)
+  const textureSourceSignature = useMemo(
+    () =>
+      JSON.stringify(
+        nodes
+          .filter((node) => node.type === 'texture')
+          .map((node) => ({
+            id: node.id,
+            src: typeof node.value === 'string' ? node.value : '',
+          })),
+      ),
+    [nodes],
+  )
+
+  const meshFileSourceSignature = useMemo(
+    () =>
+      JSON.stringify(
+        nodes
+          .filter((node) => node.type === 'meshFile')
+          .map((node) => ({
+            id: node.id,
+            src: typeof node.value === 'string' ? node.value : '',
+            format: getMeshFileFormat(node.assetName),
+          })),
+      ),
+    [nodes],
+  )
+
+  const gltfSourceSignature = useMemo(
+    () =>
+      JSON.stringify(
+        nodes
+          .filter(
+            (node) =>
+              node.type === 'gltf' ||
+              node.type === 'gltfMaterial' ||
+              node.type === 'gltfTexture',
+          )
+          .map((node) => ({
+            id: node.id,
+            type: node.type,
+            src: typeof node.value === 'string' ? node.value : '',
+          })),
+      ),
+    [nodes],
+  )
+
+  useEffect(() => {
+    nodesRef.current = editorNodes
+    connectionsRef.current = editorConnections
+  }, [editorNodes, editorConnections])
+
+  useEffect(() => {
+    const nodeIds = new Set(nodes.map((node) => node.id))
+    setGroups((prev) => {
+      const next = prev
+        .map((group) => ({
+          ...group,
+          nodeIds: group.nodeIds.filter((id) => nodeIds.has(id)),
+        }))
+        .filter((group) => group.nodeIds.length > 0)
+      const same =
+        next.length === prev.length &&
+        next.every((group, index) => {
+          const current = prev[index]
+          if (!current) return false
+          if (
+            group.id !== current.id ||
+            group.label !== current.label ||
+            Boolean(group.collapsed) !== Boolean(current.collapsed)
+          ) {
+            return false
+          }
+          if (group.nodeIds.length !== current.nodeIds.length) return false
+          return group.nodeIds.every((id, idx) => id === current.nodeIds[idx])
+        })
+      return same ? prev : next
+    })
+  }, [nodeIdSignature])
+
+  useEffect(() => {
+    viewRef.current = view
+  }, [view])
+
+  useEffect(() => {
+    const needsMigration = nodes.some(
+      (node) =>
+      (node.type === 'material' && node.inputs.length < 18) ||
+      (node.type === 'material' && node.inputs.includes('color')) ||
+      (node.type === 'material' && node.label !== 'StandardMaterial') ||
+      (node.type === 'output' && node.inputs.includes('color')) ||
+      (node.type === 'vertexOutput' && node.inputs.length < 3) ||
+      (node.type === 'physicalMaterial' && node.inputs.length < 36) ||
+      (node.type === 'basicMaterial' && node.inputs.length < 11),
+    )
+    if (!needsMigration) return
+    setNodes((prev) =>
+      prev.map((node) => {
+        if (node.type === 'material') {
+          return {
+            ...node,
+            label: 'StandardMaterial',
+            inputs: [
+              'baseColor',
+              'baseColorTexture',
+              'roughness',
+              'roughnessMap',
+              'metalness',
+              'metalnessMap',
+              'emissive',
+              'emissiveMap',
+              'emissiveIntensity',
+              'normalMap',
+              'normalScale',
+              'aoMap',
+              'aoMapIntensity',
+              'envMap',
+              'envMapIntensity',
+              'opacity',
+              'alphaTest',
+              'alphaHash',
+            ],
+          }
         }
-        const opacityExpr = getStandardNumberExpr('opacity')
-        if (opacityExpr) {
-          decls.push(`material.opacityNode = ${opacityExpr};`)
+        if (node.type === 'physicalMaterial') {
+          return {
+            ...node,
+            inputs: [
+              'baseColor',
+              'baseColorTexture',
+              'roughness',
+              'roughnessMap',
+              'metalness',
+              'metalnessMap',
+              'emissive',
+              'emissiveMap',
+              'emissiveIntensity',
+              'normalMap',
+              'normalScale',
+              'clearcoat',
+              'clearcoatRoughness',
+              'clearcoatNormal',
+              'sheen',
+              'sheenColor',
+              'sheenRoughness',
+              'iridescence',
+              'iridescenceIOR',
+              'iridescenceThickness',
+              'transmission',
+              'thickness',
+              'attenuationColor',
+              'attenuationDistance',
+              'ior',
+              'dispersion',
+              'specularIntensity',
+              'specularColor',
+              'anisotropy',
+              'aoMap',
+              'aoMapIntensity',
+              'envMap',
+              'envMapIntensity',
+              'opacity',
+              'alphaTest',
+              'alphaHash',
+            ],
+          }
         }
-        const alphaTestExpr = getStandardNumberExpr('alphaTest')
-        if (alphaTestExpr) {
-          decls.push(`material.alphaTestNode = ${alphaTestExpr};`)
+        if (node.type === 'output' && node.inputs.includes('color')) {
+          return { ...node, inputs: ['baseColor', 'roughness', 'metalness'] }
         }
-        const alphaHashLiteral = getStandardNumberLiteral('alphaHash')
-        if (alphaHashLiteral !== null) {
-          decls.push(`material.alphaHash = ${alphaHashLiteral > 0.5 ? 'true' : 'false'};`)
-        } else if (getStandardConn('alphaHash')) {
-          decls.push('material.alphaHash = true;')
+        if (node.type === 'output' && node.label === 'Output') {
+          return { ...node, label: 'Fragment Output' }
         }
-        const opacityLiteral = getStandardNumberLiteral('opacity')
-        if (opacityLiteral !== null) {
-          decls.push(`material.transparent = ${opacityLiteral < 1 ? 'true' : 'false'};`)
+        if (node.type === 'vertexOutput' && node.inputs.length < 3) {
+          return { ...node, inputs: ['position', 'normal', 'color'] }
         }
-        if (materialKind === 'physical') {
-          const clearcoatExpr = getStandardNumberExpr('clearcoat')
-          if (clearcoatExpr) {
-            decls.push(`material.clearcoatNode = ${clearcoatExpr};`)
-          }
-          const clearcoatLiteral = getStandardNumberLiteral('clearcoat')
-          if (clearcoatLiteral !== null) {
-            decls.push(`material.clearcoat = ${clearcoatLiteral.toFixed(3)};`)
-          }
-          const clearcoatRoughnessExpr = getStandardNumberExpr('clearcoatRoughness')
-          if (clearcoatRoughnessExpr) {
-            decls.push(`material.clearcoatRoughnessNode = ${clearcoatRoughnessExpr};`)
-          }
-          const clearcoatRoughnessLiteral = getStandardNumberLiteral('clearcoatRoughness')
-          if (clearcoatRoughnessLiteral !== null) {
-            decls.push(
-              `material.clearcoatRoughness = ${clearcoatRoughnessLiteral.toFixed(3)};`,
-            )
-          }
-          const clearcoatNormalId = getStandardTextureId('clearcoatNormal')
-          if (clearcoatNormalId) {
-            decls.push(
-              `material.clearcoatNormalMap = textureFromNode('${clearcoatNormalId}');`,
-            )
+        if (node.type === 'basicMaterial') {
+          return {
+            ...node,
+            inputs: [
+              'baseColor',
+              'baseColorTexture',
+              'opacity',
+              'alphaTest',
+              'alphaHash',
+              'map',
+              'alphaMap',
+              'aoMap',
+              'envMap',
+              'envMapIntensity',
+              'reflectivity',
+            ],
           }
         }
-      }
-    }
-    if (materialKind === 'basic') {
-      const opacityExpr = getBasicNumberExpr('opacity')
-      if (opacityExpr) {
-        decls.push(`material.opacityNode = ${opacityExpr};`)
-      }
-      const alphaTestExpr = getBasicNumberExpr('alphaTest')
-      if (alphaTestExpr) {
-        decls.push(`material.alphaTestNode = ${alphaTestExpr};`)
-      }
-      const alphaHashLiteral = getBasicNumberLiteral('alphaHash')
-      if (alphaHashLiteral !== null) {
-        decls.push(`material.alphaHash = ${alphaHashLiteral > 0.5 ? 'true' : 'false'};`)
-      } else if (getBasicConn('alphaHash')) {
-        decls.push('material.alphaHash = true;')
-      }
-      const mapId = getBasicTextureId('map')
-      if (mapId) {
-        decls.push(`material.map = textureFromNode('${mapId}');`)
-      }
-      const alphaMapId = getBasicTextureId('alphaMap')
-      if (alphaMapId) {
-        decls.push(`material.alphaMap = textureFromNode('${alphaMapId}');`)
-        decls.push('material.transparent = true;')
-      }
-      const aoMapId = getBasicTextureId('aoMap')
-      if (aoMapId) {
-        decls.push(`material.aoMap = textureFromNode('${aoMapId}');`)
-      }
-      const envMapId = getBasicTextureId('envMap')
-      if (envMapId) {
-        decls.push(`material.envMap = textureFromNode('${envMapId}');`)
-      }
-      const reflectivity =
-        getBasicNumberLiteral('reflectivity') ?? getBasicNumberLiteral('envMapIntensity')
-      if (reflectivity !== null) {
-        decls.push(`material.reflectivity = ${reflectivity.toFixed(3)};`)
-      }
-    }
-    if (vertexOutputNode) {
-      const positionConn = connectionMap.get(`${vertexOutputNode.id}:position`)
-      if (positionConn) {
-        const positionValue = resolveExpr(
-          positionConn.from.nodeId,
-          positionConn.from.pin,
-        )
-        const positionExpr =
-          positionValue.kind === 'vec3'
-            ? positionValue.expr
-            : positionValue.kind === 'number'
-              ? asVec3(positionValue.expr, 'number')
-              : 'vec3(0.0, 0.0, 0.0)'
-        decls.push(`material.positionNode = positionLocal.add(${positionExpr});`)
-      } else {
-        decls.push('material.positionNode = positionLocal;')
-      }
-    }
-
-    const geometryOutputNode = nodes.find((node) => node.type === 'geometryOutput')
-    if (geometryOutputNode) {
-      const geometryConn = connectionMap.get(`${geometryOutputNode.id}:geometry`)
-      const sourceNode = geometryConn
-        ? nodeMap.get(geometryConn.from.nodeId)
-        : null
-      const rawValue =
-        sourceNode?.type === 'geometryPrimitive'
-          ? sourceNode.value ?? 'box'
-          : 'box'
-      const geometryType =
-        typeof rawValue === 'string' && rawValue.length > 0 ? rawValue : 'box'
-      const geometryConstructors: Record<string, string> = {
-        box: 'BoxGeometry(1, 1, 1)',
-        sphere: 'SphereGeometry(0.75, 32, 16)',
-        plane: 'PlaneGeometry(1.5, 1.5, 1, 1)',
-        torus: 'TorusGeometry(0.6, 0.25, 24, 64)',
-        cylinder: 'CylinderGeometry(0.5, 0.5, 1.2, 24)',
-      }
-      const geometryExpr = geometryConstructors[geometryType] ?? 'BoxGeometry(1, 1, 1)'
-      decls.push(`const geometry = new ${geometryExpr};`)
-      decls.push('const mesh = new Mesh(geometry, material);')
-    }
-
-    return decls.join('\n')
-  }
+        return node
+      }),
+    )
+    setConnections((prev) =>
+      prev.map((connection) =>
+        connection.to.pin === 'color'
+          ? { ...connection, to: { ...connection.to, pin: 'baseColor' } }
+          : connection.to.pin === 'offset'
+            ? { ...connection, to: { ...connection.to, pin: 'position' } }
+            : connection,
+      ),
+    )
+  }, [nodes])
 
-  const buildExecutableTSL = () => {
-    const expanded = expandFunctions(nodes, connections, functions)
-    const nodeMap = buildNodeMap(expanded.nodes)
-    const connectionMap = buildConnectionMap(expanded.connections)
-    const graphNodes = expanded.nodes
+  useEffect(() => {
+    if (!toast) return
+    const timer = window.setTimeout(() => {
+      setToast(null)
+    }, 1800)
+    return () => window.clearTimeout(timer)
+  }, [toast])
 
-    const outputNode = graphNodes.find((node) => node.type === 'output')
-    const vertexOutputNode = graphNodes.find((node) => node.type === 'vertexOutput')
-    if (!outputNode) {
-      return `return new MeshStandardNodeMaterial();`
+  const undo = useCallback(() => {
+    const history = historyRef.current
+    if (!history.last || history.past.length === 0) return
+    if (historyTimerRef.current) {
+      window.clearTimeout(historyTimerRef.current)
+      historyTimerRef.current = null
     }
+    historyPendingRef.current = null
+    const previous = history.past.pop()
+    if (!previous) return
+    history.future.push(history.last)
+    history.last = previous
+    history.lastSig = JSON.stringify(previous)
+    historySkipRef.current = true
+    setNodes(previous.nodes)
+    setConnections(previous.connections)
+    setGroups(previous.groups)
+    setFunctions(previous.functions)
+    setHistoryTick((prev) => prev + 1)
+  }, [])
 
-    const baseColorConn = getOutputConnection(connectionMap, outputNode, 'baseColor')
-    if (!baseColorConn) {
-      return `return new MeshStandardNodeMaterial();`
+  const redo = useCallback(() => {
+    const history = historyRef.current
+    if (!history.last || history.future.length === 0) return
+    if (historyTimerRef.current) {
+      window.clearTimeout(historyTimerRef.current)
+      historyTimerRef.current = null
     }
+    historyPendingRef.current = null
+    const next = history.future.pop()
+    if (!next) return
+    history.past.push(history.last)
+    history.last = next
+    history.lastSig = JSON.stringify(next)
+    historySkipRef.current = true
+    setNodes(next.nodes)
+    setConnections(next.connections)
+    setGroups(next.groups)
+    setFunctions(next.functions)
+    setHistoryTick((prev) => prev + 1)
+  }, [])
 
-    const materialKind = getMaterialKindFromOutput(outputNode, nodeMap, connectionMap)
-    const materialClass =
-      materialKind === 'basic'
-        ? 'MeshBasicNodeMaterial'
-        : materialKind === 'physical'
-          ? 'MeshPhysicalNodeMaterial'
-          : 'MeshStandardNodeMaterial'
-
-    const tslImportNames = [
-      'acesFilmicToneMapping',
-      'abs',
-      'acos',
-      'agxToneMapping',
-      'asin',
-      'atan',
-      'atan2',
-      'ceil',
-      'checker',
-      'clamp',
-      'cos',
-      'color',
-      'cross',
-      'cineonToneMapping',
-      'dFdx',
-      'dFdy',
-      'degrees',
-      'distance',
-      'dot',
-      'equal',
-      'exp',
-      'exp2',
-      'faceforward',
-      'float',
-      'floor',
-      'fract',
-      'fwidth',
-      'grayscale',
-      'greaterThan',
-      'greaterThanEqual',
-      'inverse',
-      'length',
-      'lessThan',
-      'lessThanEqual',
-      'linearToneMapping',
-      'log',
-      'log2',
-      'luminance',
-      'mat2',
-      'mat3',
-      'mat4',
-      'max',
-      'min',
-      'mix',
-      'mod',
-      'modelWorldMatrix',
-      'modelViewMatrix',
-      'modelNormalMatrix',
-      'mx_fractal_noise_float',
-      'mx_fractal_noise_vec2',
-      'mx_fractal_noise_vec3',
-      'mx_fractal_noise_vec4',
-      'mx_noise_float',
-      'mx_noise_vec3',
-      'mx_noise_vec4',
-      'mx_worley_noise_float',
-      'mx_worley_noise_vec2',
-      'mx_worley_noise_vec3',
-      'negate',
-      'neutralToneMapping',
-      'normalize',
-      'notEqual',
-      'oneMinus',
-      'posterize',
-      'pow',
-      'pow2',
-      'pow3',
-      'pow4',
-      'positionLocal',
-      'normalLocal',
-      'tangentLocal',
-      'bitangentLocal',
-      'cameraProjectionMatrix',
-      'radians',
-      'reinhardToneMapping',
-      'reflect',
-      'refract',
-      'remap',
-      'remapClamp',
-      'rotateUV',
-      'round',
-      'saturate',
-      'sRGBTransferEOTF',
-      'sRGBTransferOETF',
-      'saturation',
-      'select',
-      'sign',
-      'sin',
-      'smoothstep',
-      'smoothstepElement',
-      'spherizeUV',
-      'spritesheetUV',
-      'sqrt',
-      'step',
-      'stepElement',
-      'tan',
-      'texture',
-      'transpose',
-      'triNoise3D',
-      'trunc',
-      'uniform',
-      'uniformTexture',
-      'uv',
-      'vec2',
-      'vec3',
-      'vec4',
-      'cameraViewMatrix',
-    ]
-    const tslImportPlaceholder = '__TSL_IMPORTS__'
-    const decls: string[] = [
-      `const { ${tslImportPlaceholder} } = TSL;`,
-      `const material = new ${materialClass}();`,
-    ]
-    const cache = new Map<string, ExprResult>()
-    let varIndex = 1
-
-    const nextVar = (prefix: string) => `${prefix}_${varIndex++}`
-    const asColor = (expr: string, kind: 'color' | 'number') =>
-      kind === 'color' ? expr : `color(${expr}, ${expr}, ${expr})`
-    const asVec2 = (expr: string, kind: 'vec2' | 'number') =>
-      kind === 'vec2' ? expr : `vec2(${expr}, ${expr})`
-    const asVec3 = (expr: string, kind: 'vec3' | 'number') =>
-      kind === 'vec3' ? expr : `vec3(${expr}, ${expr}, ${expr})`
-    const asVec4 = (expr: string, kind: 'vec4' | 'number') =>
-      kind === 'vec4' ? expr : `vec4(${expr}, ${expr}, ${expr}, ${expr})`
-    const toVec2Expr = (input: ExprResult | null) => {
-      if (!input) return 'vec2(0.0, 0.0)'
-      if (input.kind === 'vec2') return input.expr
-      if (input.kind === 'vec3' || input.kind === 'color') {
-        return `vec2(${input.expr}.x, ${input.expr}.y)`
-      }
-      if (input.kind === 'vec4') {
-        return `vec2(${input.expr}.x, ${input.expr}.y)`
-      }
-      return asVec2(input.expr, 'number')
+  useEffect(() => {
+    if (!historyRecordingEnabled) return
+    if (isDraggingNodesRef.current) return
+    const snapshot = { nodes, connections, groups, functions }
+    const signature = JSON.stringify(snapshot)
+    const history = historyRef.current
+    if (historySkipRef.current) {
+      historySkipRef.current = false
+      history.last = snapshot
+      history.lastSig = signature
+      historyPendingRef.current = null
+      return
     }
-    const toVec3Expr = (input: ExprResult | null) => {
-      if (!input) return 'vec3(0.0, 0.0, 0.0)'
-      if (input.kind === 'vec3' || input.kind === 'color') return input.expr
-      if (input.kind === 'vec2') {
-        return `vec3(${input.expr}.x, ${input.expr}.y, 0.0)`
-      }
-      if (input.kind === 'vec4') {
-        return `vec3(${input.expr}.x, ${input.expr}.y, ${input.expr}.z)`
-      }
-      return asVec3(input.expr, 'number')
+    if (!history.lastSig) {
+      history.last = snapshot
+      history.lastSig = signature
+      return
     }
-    const toVec4Expr = (input: ExprResult | null) => {
-      if (!input) return 'vec4(0.0, 0.0, 0.0, 1.0)'
-      if (input.kind === 'vec4') return input.expr
-      if (input.kind === 'vec3' || input.kind === 'color') {
-        return `vec4(${input.expr}.x, ${input.expr}.y, ${input.expr}.z, 1.0)`
-      }
-      if (input.kind === 'vec2') {
-        return `vec4(${input.expr}.x, ${input.expr}.y, 0.0, 1.0)`
-      }
-      return asVec4(input.expr, 'number')
+    if (history.lastSig === signature) return
+    historyPendingRef.current = snapshot
+    if (historyTimerRef.current) {
+      window.clearTimeout(historyTimerRef.current)
     }
-
-    const resolveExpr = (nodeId: string, outputPin?: string): ExprResult => {
-      const key = `${nodeId}:${outputPin ?? ''}`
-      const cached = cache.get(key)
-      if (cached) return cached
-
-      const node = nodeMap.get(nodeId)
-      if (!node) {
-        const fallback = { expr: 'float(0.0)', kind: 'number' as const }
-        cache.set(key, fallback)
-        return fallback
-      }
-
-      if (node.type === 'number') {
-        const value = parseNumber(node.value)
-        const name = nextVar('num')
-        const mode = getNumberUpdateMode(node)
-        if (mode === 'manual') {
-          decls.push(`const ${name} = float(${value.toFixed(3)});`)
-        } else {
-          decls.push(`const ${name} = uniform(${value.toFixed(3)});`)
-          appendNumberUniformUpdate(decls, name, node)
-        }
-        const out = { expr: name, kind: 'number' as const }
-        cache.set(key, out)
-        return out
-      }
-
-      if (node.type === 'time') {
-        const out = { expr: 'timeUniform', kind: 'number' as const }
-        cache.set(key, out)
-        return out
-      }
-
-      if (node.type === 'color') {
-        const value = typeof node.value === 'string' ? node.value : DEFAULT_COLOR
-        const name = nextVar('col')
-        decls.push(`const ${name} = color('${value}');`)
-        const out = { expr: name, kind: 'color' as const }
-        cache.set(key, out)
-        return out
-      }
-
-      const attributeExpr = getAttributeExpr(node.type)
-      if (attributeExpr) {
-        cache.set(key, attributeExpr)
-        return attributeExpr
-      }
-
-      if (node.type === 'texture') {
-        const name = nextVar('tex')
-        decls.push(
-          `const ${name} = texture(uniformTexture(textureFromNode('${node.id}')), uv());`,
-        )
-        const out = { expr: name, kind: 'color' as const }
-        cache.set(key, out)
-        return out
-      }
-
-      const getInput = (pin: string) => {
-        const connection = connectionMap.get(`${node.id}:${pin}`)
-        if (!connection) return null
-        return resolveExpr(connection.from.nodeId, connection.from.pin)
-      }
-      if (node.type === 'functionInput' || node.type === 'functionOutput') {
-        const input = getInput('value')
-        const out = input ?? { expr: 'float(0.0)', kind: 'number' as const }
-        cache.set(key, out)
-        return out
-      }
-
-      if (node.type === 'add' || node.type === 'multiply') {
-        const left =
-          getInput('a') ??
-          {
-            expr: node.type === 'add' ? 'float(0.0)' : 'float(1.0)',
-            kind: 'number' as const,
-          }
-        const right =
-          getInput('b') ??
-          {
-            expr: node.type === 'add' ? 'float(0.0)' : 'float(1.0)',
-            kind: 'number' as const,
-          }
-        const op = node.type === 'add' ? 'add' : 'mul'
-        const combined = combineTypes(left.kind, right.kind)
-        if (combined === 'unknown') {
-          const out = { expr: 'float(0.0)', kind: 'number' as const }
-          cache.set(key, out)
-          return out
-        }
-        let leftExpr = left.expr
-        let rightExpr = right.expr
-        if (combined === 'color') {
-          leftExpr = asColor(left.expr, left.kind === 'number' ? 'number' : 'color')
-          rightExpr = asColor(right.expr, right.kind === 'number' ? 'number' : 'color')
-        } else if (combined === 'vec2') {
-          leftExpr = asVec2(left.expr, left.kind === 'number' ? 'number' : 'vec2')
-          rightExpr = asVec2(right.expr, right.kind === 'number' ? 'number' : 'vec2')
-        } else if (combined === 'vec3') {
-          leftExpr = asVec3(left.expr, left.kind === 'number' ? 'number' : 'vec3')
-          rightExpr = asVec3(right.expr, right.kind === 'number' ? 'number' : 'vec3')
-        } else if (combined === 'vec4') {
-          leftExpr = asVec4(left.expr, left.kind === 'number' ? 'number' : 'vec4')
-          rightExpr = asVec4(right.expr, right.kind === 'number' ? 'number' : 'vec4')
-        }
-        const expr = `${leftExpr}.${op}(${rightExpr})`
-        const name = nextVar(combined === 'number' ? 'num' : 'vec')
-        decls.push(`const ${name} = ${expr};`)
-        const out = { expr: name, kind: combined }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'ifElse') {
-        const inputCond = getInput('cond')
-        const inputA = getInput('a')
-        const inputB = getInput('b')
-        const inputThreshold = getInput('threshold')
-        const combined = combineTypes(inputA?.kind ?? 'number', inputB?.kind ?? 'number')
-        if (combined === 'unknown' || isMatrixKind(combined)) {
-          const out = { expr: 'float(0.0)', kind: 'number' as const }
-          cache.set(key, out)
-          return out
-        }
-        const outputKind = combined as 'number' | 'color' | 'vec2' | 'vec3' | 'vec4'
-        const toKindExpr = (
-          entry: typeof inputA,
-          kind: 'number' | 'color' | 'vec2' | 'vec3' | 'vec4',
-          fallback: number,
-        ) => {
-          if (kind === 'number') {
-            return entry?.kind === 'number' ? entry.expr : `float(${fallback.toFixed(1)})`
-          }
-          if (entry?.kind === kind) return entry.expr
-          if (entry?.kind === 'number') {
-            if (kind === 'color') return asColor(entry.expr, 'number')
-            if (kind === 'vec2') return asVec2(entry.expr, 'number')
-            if (kind === 'vec3') return asVec3(entry.expr, 'number')
-            return asVec4(entry.expr, 'number')
-          }
-          if (kind === 'color') return `color(${fallback.toFixed(1)})`
-          if (kind === 'vec2') return `vec2(${fallback.toFixed(1)}, ${fallback.toFixed(1)})`
-          if (kind === 'vec3') return `vec3(${fallback.toFixed(1)}, ${fallback.toFixed(1)}, ${fallback.toFixed(1)})`
-          return `vec4(${fallback.toFixed(1)}, ${fallback.toFixed(1)}, ${fallback.toFixed(1)}, ${fallback.toFixed(1)})`
-        }
-        const exprA = toKindExpr(inputA, outputKind, 1)
-        const exprB = toKindExpr(inputB, outputKind, 0)
-        const condExpr = (() => {
-          if (!inputCond) return 'float(0.0)'
-          if (outputKind === 'number') {
-            if (inputCond.kind === 'number') return inputCond.expr
-            if (isVectorKind(inputCond.kind)) return `length(${inputCond.expr})`
-            return 'float(0.0)'
-          }
-          if (outputKind === 'vec2') return toVec2Expr(inputCond)
-          if (outputKind === 'vec4') return toVec4Expr(inputCond)
-          return toVec3Expr(inputCond)
-        })()
-        const thresholdExpr =
-          inputThreshold?.kind === 'number' ? inputThreshold.expr : 'float(0.5)'
-        const thresholdValue =
-          outputKind === 'number'
-            ? thresholdExpr
-            : outputKind === 'vec2'
-              ? `vec2(${thresholdExpr}, ${thresholdExpr})`
-              : outputKind === 'vec4'
-                ? `vec4(${thresholdExpr}, ${thresholdExpr}, ${thresholdExpr}, ${thresholdExpr})`
-                : `vec3(${thresholdExpr}, ${thresholdExpr}, ${thresholdExpr})`
-        const mask = `greaterThan(${condExpr}, ${thresholdValue})`
-        const expr = `select(${mask}, ${exprA}, ${exprB})`
-        const name = nextVar(outputKind === 'number' ? 'num' : outputKind === 'color' ? 'col' : 'vec')
-        decls.push(`const ${name} = ${expr};`)
-        const out = { expr: name, kind: outputKind }
-        cache.set(key, out)
-        return out
-      }
-
-      if (node.type === 'sine') {
-        const input = getInput('value')
-        const valueExpr = input?.kind === 'number' ? input.expr : 'float(0.0)'
-        const expr = `sin(${valueExpr})`
-        const name = nextVar('num')
-        decls.push(`const ${name} = ${expr};`)
-        const out = { expr: name, kind: 'number' as const }
-        cache.set(key, out)
-        return out
-      }
-      if (
-        node.type === 'tan' ||
-        node.type === 'asin' ||
-        node.type === 'acos' ||
-        node.type === 'atan' ||
-        node.type === 'radians' ||
-        node.type === 'degrees'
-      ) {
-        const input = getInput('value')
-        if (!input || (!isVectorKind(input.kind) && input.kind !== 'number')) {
-          const out = { expr: 'float(0.0)', kind: 'number' as const }
-          cache.set(key, out)
-          return out
-        }
-        const fn =
-          node.type === 'tan'
-            ? 'tan'
-            : node.type === 'asin'
-              ? 'asin'
-              : node.type === 'acos'
-                ? 'acos'
-                : node.type === 'atan'
-                  ? 'atan'
-                  : node.type === 'radians'
-                    ? 'radians'
-                    : 'degrees'
-        const expr = `${fn}(${input.expr})`
-        const name = nextVar(input.kind === 'number' ? 'num' : 'vec')
-        decls.push(`const ${name} = ${expr};`)
-        const out = { expr: name, kind: input.kind }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'atan2') {
-        const inputY = getInput('y')
-        const inputX = getInput('x')
-        const kind = resolveVectorOutputKind([
-          inputY?.kind ?? 'number',
-          inputX?.kind ?? 'number',
-        ])
-        if (kind === 'unknown') {
-          const out = { expr: 'float(0.0)', kind: 'number' as const }
-          cache.set(key, out)
-          return out
-        }
-        let exprY = inputY?.expr ?? 'float(0.0)'
-        let exprX = inputX?.expr ?? 'float(0.0)'
-        if (kind === 'color') {
-          exprY =
-            inputY?.kind === 'color'
-              ? inputY.expr
-              : inputY?.kind === 'number'
-                ? asColor(inputY.expr, 'number')
-                : 'color(0.0)'
-          exprX =
-            inputX?.kind === 'color'
-              ? inputX.expr
-              : inputX?.kind === 'number'
-                ? asColor(inputX.expr, 'number')
-                : 'color(0.0)'
-        } else if (kind === 'vec2') {
-          exprY =
-            inputY?.kind === 'vec2'
-              ? inputY.expr
-              : inputY?.kind === 'number'
-                ? asVec2(inputY.expr, 'number')
-                : 'vec2(0.0, 0.0)'
-          exprX =
-            inputX?.kind === 'vec2'
-              ? inputX.expr
-              : inputX?.kind === 'number'
-                ? asVec2(inputX.expr, 'number')
-                : 'vec2(0.0, 0.0)'
-        } else if (kind === 'vec3') {
-          exprY =
-            inputY?.kind === 'vec3'
-              ? inputY.expr
-              : inputY?.kind === 'number'
-                ? asVec3(inputY.expr, 'number')
-                : 'vec3(0.0, 0.0, 0.0)'
-          exprX =
-            inputX?.kind === 'vec3'
-              ? inputX.expr
-              : inputX?.kind === 'number'
-                ? asVec3(inputX.expr, 'number')
-                : 'vec3(0.0, 0.0, 0.0)'
-        } else if (kind === 'vec4') {
-          exprY =
-            inputY?.kind === 'vec4'
-              ? inputY.expr
-              : inputY?.kind === 'number'
-                ? asVec4(inputY.expr, 'number')
-                : 'vec4(0.0, 0.0, 0.0, 1.0)'
-          exprX =
-            inputX?.kind === 'vec4'
-              ? inputX.expr
-              : inputX?.kind === 'number'
-                ? asVec4(inputX.expr, 'number')
-                : 'vec4(0.0, 0.0, 0.0, 1.0)'
-        }
-        const expr = `atan2(${exprY}, ${exprX})`
-        const name = nextVar(kind === 'number' ? 'num' : 'vec')
-        decls.push(`const ${name} = ${expr};`)
-        const out = { expr: name, kind }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'vec2') {
-        const inputX = getInput('x')
-        const inputY = getInput('y')
-        const exprX = inputX?.kind === 'number' ? inputX.expr : 'float(0.0)'
-        const exprY = inputY?.kind === 'number' ? inputY.expr : 'float(0.0)'
-        const expr = `vec2(${exprX}, ${exprY})`
-        const name = nextVar('vec')
-        decls.push(`const ${name} = ${expr};`)
-        const out = { expr: name, kind: 'vec2' as const }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'mat2') {
-        const c0 = getInput('c0')
-        const c1 = getInput('c1')
-        const expr = `mat2(${toVec2Expr(c0)}, ${toVec2Expr(c1)})`
-        const name = nextVar('mat')
-        decls.push(`const ${name} = ${expr};`)
-        const out = { expr: name, kind: 'mat2' as const }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'vec3') {
-        const inputX = getInput('x')
-        const inputY = getInput('y')
-        const inputZ = getInput('z')
-        const exprX = inputX?.kind === 'number' ? inputX.expr : 'float(0.0)'
-        const exprY = inputY?.kind === 'number' ? inputY.expr : 'float(0.0)'
-        const exprZ = inputZ?.kind === 'number' ? inputZ.expr : 'float(0.0)'
-        const expr = `vec3(${exprX}, ${exprY}, ${exprZ})`
-        const name = nextVar('vec')
-        decls.push(`const ${name} = ${expr};`)
-        const out = { expr: name, kind: 'vec3' as const }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'mat3') {
-        const c0 = getInput('c0')
-        const c1 = getInput('c1')
-        const c2 = getInput('c2')
-        const expr = `mat3(${toVec3Expr(c0)}, ${toVec3Expr(c1)}, ${toVec3Expr(c2)})`
-        const name = nextVar('mat')
-        decls.push(`const ${name} = ${expr};`)
-        const out = { expr: name, kind: 'mat3' as const }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'scale') {
-        const valueInput = getInput('value')
-        const scaleInput = getInput('scale')
-        const valueExpr =
-          valueInput?.kind === 'vec3'
-            ? valueInput.expr
-            : valueInput?.kind === 'number'
-              ? asVec3(valueInput.expr, 'number')
-              : 'vec3(0.0, 0.0, 0.0)'
-        const scaleExpr =
-          scaleInput?.kind === 'vec3'
-            ? scaleInput.expr
-            : scaleInput?.kind === 'number'
-              ? asVec3(scaleInput.expr, 'number')
-              : 'vec3(1.0, 1.0, 1.0)'
-        const expr = `(${valueExpr} * ${scaleExpr})`
-        const name = nextVar('vec')
-        decls.push(`const ${name} = ${expr};`)
-        const out = { expr: name, kind: 'vec3' as const }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'rotate') {
-        const valueInput = getInput('value')
-        const rotationInput = getInput('rotation')
-        const valueExpr =
-          valueInput?.kind === 'vec3'
-            ? valueInput.expr
-            : valueInput?.kind === 'number'
-              ? asVec3(valueInput.expr, 'number')
-              : 'vec3(0.0, 0.0, 0.0)'
-        const rotationExpr =
-          rotationInput?.kind === 'vec3'
-            ? rotationInput.expr
-            : rotationInput?.kind === 'number'
-              ? asVec3(rotationInput.expr, 'number')
-              : 'vec3(0.0, 0.0, 0.0)'
-        const baseName = nextVar('vec')
-        const rotName = nextVar('vec')
-        const cx = nextVar('num')
-        const sx = nextVar('num')
-        const cy = nextVar('num')
-        const sy = nextVar('num')
-        const cz = nextVar('num')
-        const sz = nextVar('num')
-        const rotX = nextVar('vec')
-        const rotY = nextVar('vec')
-        const rotZ = nextVar('vec')
-        decls.push(`const ${baseName} = ${valueExpr};`)
-        decls.push(`const ${rotName} = ${rotationExpr};`)
-        decls.push(`const ${cx} = cos(${rotName}.x);`)
-        decls.push(`const ${sx} = sin(${rotName}.x);`)
-        decls.push(`const ${cy} = cos(${rotName}.y);`)
-        decls.push(`const ${sy} = sin(${rotName}.y);`)
-        decls.push(`const ${cz} = cos(${rotName}.z);`)
-        decls.push(`const ${sz} = sin(${rotName}.z);`)
-        decls.push(
-          `const ${rotX} = vec3(${baseName}.x, ${baseName}.y * ${cx} - ${baseName}.z * ${sx}, ${baseName}.y * ${sx} + ${baseName}.z * ${cx});`,
-        )
-        decls.push(
-          `const ${rotY} = vec3(${rotX}.x * ${cy} + ${rotX}.z * ${sy}, ${rotX}.y, ${rotX}.z * ${cy} - ${rotX}.x * ${sy});`,
-        )
-        decls.push(
-          `const ${rotZ} = vec3(${rotY}.x * ${cz} - ${rotY}.y * ${sz}, ${rotY}.x * ${sz} + ${rotY}.y * ${cz}, ${rotY}.z);`,
-        )
-        const out = { expr: rotZ, kind: 'vec3' as const }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'vec4') {
-        const inputX = getInput('x')
-        const inputY = getInput('y')
-        const inputZ = getInput('z')
-        const inputW = getInput('w')
-        const exprX = inputX?.kind === 'number' ? inputX.expr : 'float(0.0)'
-        const exprY = inputY?.kind === 'number' ? inputY.expr : 'float(0.0)'
-        const exprZ = inputZ?.kind === 'number' ? inputZ.expr : 'float(0.0)'
-        const exprW = inputW?.kind === 'number' ? inputW.expr : 'float(1.0)'
-        const expr = `vec4(${exprX}, ${exprY}, ${exprZ}, ${exprW})`
-        const name = nextVar('vec')
-        decls.push(`const ${name} = ${expr};`)
-        const out = { expr: name, kind: 'vec4' as const }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'mat4') {
-        const c0 = getInput('c0')
-        const c1 = getInput('c1')
-        const c2 = getInput('c2')
-        const c3 = getInput('c3')
-        const expr = `mat4(${toVec4Expr(c0)}, ${toVec4Expr(c1)}, ${toVec4Expr(c2)}, ${toVec4Expr(c3)})`
-        const name = nextVar('mat')
-        decls.push(`const ${name} = ${expr};`)
-        const out = { expr: name, kind: 'mat4' as const }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'modelMatrix') {
-        const out = { expr: 'modelWorldMatrix', kind: 'mat4' as const }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'viewMatrix') {
-        const out = { expr: 'cameraViewMatrix', kind: 'mat4' as const }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'projectionMatrix') {
-        const out = { expr: 'cameraProjectionMatrix', kind: 'mat4' as const }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'modelViewMatrix') {
-        const out = { expr: 'modelViewMatrix', kind: 'mat4' as const }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'normalMatrix') {
-        const out = { expr: 'modelNormalMatrix', kind: 'mat3' as const }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'transpose' || node.type === 'inverse') {
-        const input = getInput('value')
-        if (!input || !isMatrixKind(input.kind)) {
-          const out = { expr: 'float(0.0)', kind: 'number' as const }
-          cache.set(key, out)
-          return out
-        }
-        const expr = `${node.type}(${input.expr})`
-        const name = nextVar('mat')
-        decls.push(`const ${name} = ${expr};`)
-        const out = { expr: name, kind: input.kind }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'splitVec2') {
-        const input = getInput('value')
-        const sourceExpr =
-          input?.kind === 'vec2'
-            ? input.expr
-            : input?.kind === 'number'
-              ? asVec2(input.expr, 'number')
-              : 'vec2(0.0, 0.0)'
-        const channel = outputPin === 'y' ? 'y' : 'x'
-        const expr = `${sourceExpr}.${channel}`
-        const name = nextVar('num')
-        decls.push(`const ${name} = ${expr};`)
-        const out = { expr: name, kind: 'number' as const }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'splitVec3') {
-        const input = getInput('value')
-        const sourceExpr =
-          input?.kind === 'vec3'
-            ? input.expr
-            : input?.kind === 'number'
-              ? asVec3(input.expr, 'number')
-              : 'vec3(0.0, 0.0, 0.0)'
-        const channel = outputPin === 'y' ? 'y' : outputPin === 'z' ? 'z' : 'x'
-        const expr = `${sourceExpr}.${channel}`
-        const name = nextVar('num')
-        decls.push(`const ${name} = ${expr};`)
-        const out = { expr: name, kind: 'number' as const }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'splitVec4') {
-        const input = getInput('value')
-        const sourceExpr =
-          input?.kind === 'vec4'
-            ? input.expr
-            : input?.kind === 'number'
-              ? asVec4(input.expr, 'number')
-              : 'vec4(0.0, 0.0, 0.0, 1.0)'
-        const channel =
-          outputPin === 'y' ? 'y' : outputPin === 'z' ? 'z' : outputPin === 'w' ? 'w' : 'x'
-        const expr = `${sourceExpr}.${channel}`
-        const name = nextVar('num')
-        decls.push(`const ${name} = ${expr};`)
-        const out = { expr: name, kind: 'number' as const }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'cosine') {
-        const input = getInput('value')
-        const valueExpr = input?.kind === 'number' ? input.expr : 'float(0.0)'
-        const expr = `cos(${valueExpr})`
-        const name = nextVar('num')
-        decls.push(`const ${name} = ${expr};`)
-        const out = { expr: name, kind: 'number' as const }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'abs') {
-        const input = getInput('value')
-        const valueExpr = input?.kind === 'number' ? input.expr : 'float(0.0)'
-        const expr = `abs(${valueExpr})`
-        const name = nextVar('num')
-        decls.push(`const ${name} = ${expr};`)
-        const out = { expr: name, kind: 'number' as const }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'clamp') {
-        const valueInput = getInput('value')
-        const minInput = getInput('min')
-        const maxInput = getInput('max')
-        const valueExpr = valueInput?.kind === 'number' ? valueInput.expr : 'float(0.0)'
-        const minExpr = minInput?.kind === 'number' ? minInput.expr : 'float(0.0)'
-        const maxExpr = maxInput?.kind === 'number' ? maxInput.expr : 'float(1.0)'
-        const expr = `clamp(${valueExpr}, ${minExpr}, ${maxExpr})`
-        const name = nextVar('num')
-        decls.push(`const ${name} = ${expr};`)
-        const out = { expr: name, kind: 'number' as const }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'min' || node.type === 'max' || node.type === 'mod') {
-        const inputA = getInput('a') ?? { expr: 'float(0.0)', kind: 'number' as const }
-        const inputB = getInput('b') ?? { expr: 'float(0.0)', kind: 'number' as const }
-        const combined = combineTypes(inputA.kind, inputB.kind)
-        if (combined === 'unknown') {
-          const out = { expr: 'float(0.0)', kind: 'number' as const }
-          cache.set(key, out)
-          return out
-        }
-        const fn = node.type === 'min' ? 'min' : node.type === 'max' ? 'max' : 'mod'
-        if (combined === 'number') {
-          const expr = `${fn}(${inputA.expr}, ${inputB.expr})`
-          const name = nextVar('num')
-          decls.push(`const ${name} = ${expr};`)
-          const out = { expr: name, kind: 'number' as const }
-          cache.set(key, out)
-          return out
-        }
-        let exprA = inputA.expr
-        let exprB = inputB.expr
-        if (combined === 'color') {
-          exprA =
-            inputA.kind === 'color'
-              ? inputA.expr
-              : inputA.kind === 'number'
-                ? asColor(inputA.expr, 'number')
-                : 'color(0.0)'
-          exprB =
-            inputB.kind === 'color'
-              ? inputB.expr
-              : inputB.kind === 'number'
-                ? asColor(inputB.expr, 'number')
-                : 'color(0.0)'
-        } else if (combined === 'vec2') {
-          exprA =
-            inputA.kind === 'vec2'
-              ? inputA.expr
-              : inputA.kind === 'number'
-                ? asVec2(inputA.expr, 'number')
-                : 'vec2(0.0, 0.0)'
-          exprB =
-            inputB.kind === 'vec2'
-              ? inputB.expr
-              : inputB.kind === 'number'
-                ? asVec2(inputB.expr, 'number')
-                : 'vec2(0.0, 0.0)'
-        } else if (combined === 'vec3') {
-          exprA =
-            inputA.kind === 'vec3'
-              ? inputA.expr
-              : inputA.kind === 'number'
-                ? asVec3(inputA.expr, 'number')
-                : 'vec3(0.0, 0.0, 0.0)'
-          exprB =
-            inputB.kind === 'vec3'
-              ? inputB.expr
-              : inputB.kind === 'number'
-                ? asVec3(inputB.expr, 'number')
-                : 'vec3(0.0, 0.0, 0.0)'
-        } else if (combined === 'vec4') {
-          exprA =
-            inputA.kind === 'vec4'
-              ? inputA.expr
-              : inputA.kind === 'number'
-                ? asVec4(inputA.expr, 'number')
-                : 'vec4(0.0, 0.0, 0.0, 1.0)'
-          exprB =
-            inputB.kind === 'vec4'
-              ? inputB.expr
-              : inputB.kind === 'number'
-                ? asVec4(inputB.expr, 'number')
-                : 'vec4(0.0, 0.0, 0.0, 1.0)'
-        }
-        const expr = `${fn}(${exprA}, ${exprB})`
-        const name = nextVar('vec')
-        decls.push(`const ${name} = ${expr};`)
-        const out = { expr: name, kind: combined }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'step') {
-        const edgeInput = getInput('edge')
-        const xInput = getInput('x')
-        const kind = resolveVectorOutputKind([
-          edgeInput?.kind ?? 'number',
-          xInput?.kind ?? 'number',
-        ])
-        if (kind === 'unknown') {
-          const out = { expr: 'float(0.0)', kind: 'number' as const }
-          cache.set(key, out)
-          return out
-        }
-        let exprEdge = edgeInput?.expr ?? 'float(0.0)'
-        let exprX = xInput?.expr ?? 'float(0.0)'
-        if (kind === 'color') {
-          exprEdge =
-            edgeInput?.kind === 'color'
-              ? edgeInput.expr
-              : edgeInput?.kind === 'number'
-                ? asColor(edgeInput.expr, 'number')
-                : 'color(0.0)'
-          exprX =
-            xInput?.kind === 'color'
-              ? xInput.expr
-              : xInput?.kind === 'number'
-                ? asColor(xInput.expr, 'number')
-                : 'color(0.0)'
-        } else if (kind === 'vec2') {
-          exprEdge =
-            edgeInput?.kind === 'vec2'
-              ? edgeInput.expr
-              : edgeInput?.kind === 'number'
-                ? asVec2(edgeInput.expr, 'number')
-                : 'vec2(0.0, 0.0)'
-          exprX =
-            xInput?.kind === 'vec2'
-              ? xInput.expr
-              : xInput?.kind === 'number'
-                ? asVec2(xInput.expr, 'number')
-                : 'vec2(0.0, 0.0)'
-        } else if (kind === 'vec3') {
-          exprEdge =
-            edgeInput?.kind === 'vec3'
-              ? edgeInput.expr
-              : edgeInput?.kind === 'number'
-                ? asVec3(edgeInput.expr, 'number')
-                : 'vec3(0.0, 0.0, 0.0)'
-          exprX =
-            xInput?.kind === 'vec3'
-              ? xInput.expr
-              : xInput?.kind === 'number'
-                ? asVec3(xInput.expr, 'number')
-                : 'vec3(0.0, 0.0, 0.0)'
-        } else if (kind === 'vec4') {
-          exprEdge =
-            edgeInput?.kind === 'vec4'
-              ? edgeInput.expr
-              : edgeInput?.kind === 'number'
-                ? asVec4(edgeInput.expr, 'number')
-                : 'vec4(0.0, 0.0, 0.0, 1.0)'
-          exprX =
-            xInput?.kind === 'vec4'
-              ? xInput.expr
-              : xInput?.kind === 'number'
-                ? asVec4(xInput.expr, 'number')
-                : 'vec4(0.0, 0.0, 0.0, 1.0)'
-        }
-        const expr = `step(${exprEdge}, ${exprX})`
-        const name = nextVar(kind === 'number' ? 'num' : 'vec')
-        decls.push(`const ${name} = ${expr};`)
-        const out = { expr: name, kind }
-        cache.set(key, out)
-        return out
-      }
-      if (
-        node.type === 'fract' ||
-        node.type === 'floor' ||
-        node.type === 'ceil' ||
-        node.type === 'round' ||
-        node.type === 'trunc' ||
-        node.type === 'exp' ||
-        node.type === 'log' ||
-        node.type === 'sign' ||
-        node.type === 'oneMinus' ||
-        node.type === 'negate' ||
-        node.type === 'exp2' ||
-        node.type === 'log2' ||
-        node.type === 'pow2' ||
-        node.type === 'pow3' ||
-        node.type === 'pow4' ||
-        node.type === 'sqrt' ||
-        node.type === 'saturate'
-      ) {
-        const input = getInput('value')
-        if (!input || (!isVectorKind(input.kind) && input.kind !== 'number')) {
-          const out = { expr: 'float(0.0)', kind: 'number' as const }
-          cache.set(key, out)
-          return out
-        }
-        const fn =
-          node.type === 'fract'
-            ? 'fract'
-            : node.type === 'floor'
-              ? 'floor'
-              : node.type === 'ceil'
-                ? 'ceil'
-                : node.type === 'round'
-                  ? 'round'
-                  : node.type === 'trunc'
-                    ? 'trunc'
-                    : node.type === 'exp'
-                      ? 'exp'
-                      : node.type === 'exp2'
-                        ? 'exp2'
-                        : node.type === 'log'
-                          ? 'log'
-                          : node.type === 'log2'
-                            ? 'log2'
-                            : node.type === 'sign'
-                              ? 'sign'
-                              : node.type === 'oneMinus'
-                                ? 'oneMinus'
-                                : node.type === 'pow2'
-                                  ? 'pow2'
-                                  : node.type === 'pow3'
-                                    ? 'pow3'
-                                    : node.type === 'pow4'
-                                      ? 'pow4'
-                                      : node.type === 'sqrt'
-                                        ? 'sqrt'
-                                        : node.type === 'saturate'
-                                          ? 'saturate'
-                                          : 'negate'
-        const expr = `${fn}(${input.expr})`
-        const name = nextVar(input.kind === 'number' ? 'num' : 'vec')
-        decls.push(`const ${name} = ${expr};`)
-        const out = { expr: name, kind: input.kind }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'mix') {
-        const inputA = getInput('a')
-        const inputB = getInput('b')
-        const inputT = getInput('t')
-        const exprT = inputT?.kind === 'number' ? inputT.expr : 'float(0.5)'
-        const typeA = inputA?.kind ?? 'number'
-        const typeB = inputB?.kind ?? 'number'
-        const combined = combineTypes(typeA, typeB)
-        if (combined === 'unknown') {
-          const out = { expr: 'float(0.0)', kind: 'number' as const }
-          cache.set(key, out)
-          return out
-        }
-        let exprA = inputA?.expr ?? 'float(0.0)'
-        let exprB = inputB?.expr ?? 'float(1.0)'
-        if (combined === 'color') {
-          exprA =
-            inputA?.kind === 'color'
-              ? inputA.expr
-              : inputA?.kind === 'number'
-                ? asColor(inputA.expr, 'number')
-                : 'color(0.0)'
-          exprB =
-            inputB?.kind === 'color'
-              ? inputB.expr
-              : inputB?.kind === 'number'
-                ? asColor(inputB.expr, 'number')
-                : 'color(1.0)'
-        } else if (combined === 'vec2') {
-          exprA =
-            inputA?.kind === 'vec2'
-              ? inputA.expr
-              : inputA?.kind === 'number'
-                ? asVec2(inputA.expr, 'number')
-                : 'vec2(0.0, 0.0)'
-          exprB =
-            inputB?.kind === 'vec2'
-              ? inputB.expr
-              : inputB?.kind === 'number'
-                ? asVec2(inputB.expr, 'number')
-                : 'vec2(1.0, 1.0)'
-        } else if (combined === 'vec3') {
-          exprA =
-            inputA?.kind === 'vec3'
-              ? inputA.expr
-              : inputA?.kind === 'number'
-                ? asVec3(inputA.expr, 'number')
-                : 'vec3(0.0, 0.0, 0.0)'
-          exprB =
-            inputB?.kind === 'vec3'
-              ? inputB.expr
-              : inputB?.kind === 'number'
-                ? asVec3(inputB.expr, 'number')
-                : 'vec3(1.0, 1.0, 1.0)'
-        } else if (combined === 'vec4') {
-          exprA =
-            inputA?.kind === 'vec4'
-              ? inputA.expr
-              : inputA?.kind === 'number'
-                ? asVec4(inputA.expr, 'number')
-                : 'vec4(0.0, 0.0, 0.0, 1.0)'
-          exprB =
-            inputB?.kind === 'vec4'
-              ? inputB.expr
-              : inputB?.kind === 'number'
-                ? asVec4(inputB.expr, 'number')
-                : 'vec4(1.0, 1.0, 1.0, 1.0)'
-        } else if (combined === 'number') {
-          exprA = inputA?.kind === 'number' ? inputA.expr : 'float(0.0)'
-          exprB = inputB?.kind === 'number' ? inputB.expr : 'float(1.0)'
-        }
-        const expr = `mix(${exprA}, ${exprB}, ${exprT})`
-        const name = nextVar(combined === 'number' ? 'num' : 'vec')
-        decls.push(`const ${name} = ${expr};`)
-        const out = { expr: name, kind: combined }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'smoothstep') {
-        const edge0Input = getInput('edge0')
-        const edge1Input = getInput('edge1')
-        const xInput = getInput('x')
-        const kind = resolveVectorOutputKind([
-          edge0Input?.kind ?? 'number',
-          edge1Input?.kind ?? 'number',
-          xInput?.kind ?? 'number',
-        ])
-        if (kind === 'unknown') {
-          const out = { expr: 'float(0.0)', kind: 'number' as const }
-          cache.set(key, out)
-          return out
-        }
-        let exprEdge0 = edge0Input?.expr ?? 'float(0.0)'
-        let exprEdge1 = edge1Input?.expr ?? 'float(1.0)'
-        let exprX = xInput?.expr ?? 'float(0.0)'
-        if (kind === 'color') {
-          exprEdge0 =
-            edge0Input?.kind === 'color'
-              ? edge0Input.expr
-              : edge0Input?.kind === 'number'
-                ? asColor(edge0Input.expr, 'number')
-                : 'color(0.0)'
-          exprEdge1 =
-            edge1Input?.kind === 'color'
-              ? edge1Input.expr
-              : edge1Input?.kind === 'number'
-                ? asColor(edge1Input.expr, 'number')
-                : 'color(1.0)'
-          exprX =
-            xInput?.kind === 'color'
-              ? xInput.expr
-              : xInput?.kind === 'number'
-                ? asColor(xInput.expr, 'number')
-                : 'color(0.0)'
-        } else if (kind === 'vec2') {
-          exprEdge0 =
-            edge0Input?.kind === 'vec2'
-              ? edge0Input.expr
-              : edge0Input?.kind === 'number'
-                ? asVec2(edge0Input.expr, 'number')
-                : 'vec2(0.0, 0.0)'
-          exprEdge1 =
-            edge1Input?.kind === 'vec2'
-              ? edge1Input.expr
-              : edge1Input?.kind === 'number'
-                ? asVec2(edge1Input.expr, 'number')
-                : 'vec2(1.0, 1.0)'
-          exprX =
-            xInput?.kind === 'vec2'
-              ? xInput.expr
-              : xInput?.kind === 'number'
-                ? asVec2(xInput.expr, 'number')
-                : 'vec2(0.0, 0.0)'
-        } else if (kind === 'vec3') {
-          exprEdge0 =
-            edge0Input?.kind === 'vec3'
-              ? edge0Input.expr
-              : edge0Input?.kind === 'number'
-                ? asVec3(edge0Input.expr, 'number')
-                : 'vec3(0.0, 0.0, 0.0)'
-          exprEdge1 =
-            edge1Input?.kind === 'vec3'
-              ? edge1Input.expr
-              : edge1Input?.kind === 'number'
-                ? asVec3(edge1Input.expr, 'number')
-                : 'vec3(1.0, 1.0, 1.0)'
-          exprX =
-            xInput?.kind === 'vec3'
-              ? xInput.expr
-              : xInput?.kind === 'number'
-                ? asVec3(xInput.expr, 'number')
-                : 'vec3(0.0, 0.0, 0.0)'
-        } else if (kind === 'vec4') {
-          exprEdge0 =
-            edge0Input?.kind === 'vec4'
-              ? edge0Input.expr
-              : edge0Input?.kind === 'number'
-                ? asVec4(edge0Input.expr, 'number')
-                : 'vec4(0.0, 0.0, 0.0, 1.0)'
-          exprEdge1 =
-            edge1Input?.kind === 'vec4'
-              ? edge1Input.expr
-              : edge1Input?.kind === 'number'
-                ? asVec4(edge1Input.expr, 'number')
-                : 'vec4(1.0, 1.0, 1.0, 1.0)'
-          exprX =
-            xInput?.kind === 'vec4'
-              ? xInput.expr
-              : xInput?.kind === 'number'
-                ? asVec4(xInput.expr, 'number')
-                : 'vec4(0.0, 0.0, 0.0, 1.0)'
-        }
-        const expr = `smoothstep(${exprEdge0}, ${exprEdge1}, ${exprX})`
-        const name = nextVar(kind === 'number' ? 'num' : 'vec')
-        decls.push(`const ${name} = ${expr};`)
-        const out = { expr: name, kind }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'pow') {
-        const baseInput = getInput('base')
-        const expInput = getInput('exp')
-        const kind = resolveVectorOutputKind([
-          baseInput?.kind ?? 'number',
-          expInput?.kind ?? 'number',
-        ])
-        if (kind === 'unknown') {
-          const out = { expr: 'float(0.0)', kind: 'number' as const }
-          cache.set(key, out)
-          return out
-        }
-        let exprBase = baseInput?.expr ?? 'float(0.0)'
-        let exprExp = expInput?.expr ?? 'float(1.0)'
-        if (kind === 'color') {
-          exprBase =
-            baseInput?.kind === 'color'
-              ? baseInput.expr
-              : baseInput?.kind === 'number'
-                ? asColor(baseInput.expr, 'number')
-                : 'color(0.0)'
-          exprExp =
-            expInput?.kind === 'color'
-              ? expInput.expr
-              : expInput?.kind === 'number'
-                ? asColor(expInput.expr, 'number')
-                : 'color(1.0)'
-        } else if (kind === 'vec2') {
-          exprBase =
-            baseInput?.kind === 'vec2'
-              ? baseInput.expr
-              : baseInput?.kind === 'number'
-                ? asVec2(baseInput.expr, 'number')
-                : 'vec2(0.0, 0.0)'
-          exprExp =
-            expInput?.kind === 'vec2'
-              ? expInput.expr
-              : expInput?.kind === 'number'
-                ? asVec2(expInput.expr, 'number')
-                : 'vec2(1.0, 1.0)'
-        } else if (kind === 'vec3') {
-          exprBase =
-            baseInput?.kind === 'vec3'
-              ? baseInput.expr
-              : baseInput?.kind === 'number'
-                ? asVec3(baseInput.expr, 'number')
-                : 'vec3(0.0, 0.0, 0.0)'
-          exprExp =
-            expInput?.kind === 'vec3'
-              ? expInput.expr
-              : expInput?.kind === 'number'
-                ? asVec3(expInput.expr, 'number')
-                : 'vec3(1.0, 1.0, 1.0)'
-        } else if (kind === 'vec4') {
-          exprBase =
-            baseInput?.kind === 'vec4'
-              ? baseInput.expr
-              : baseInput?.kind === 'number'
-                ? asVec4(baseInput.expr, 'number')
-                : 'vec4(0.0, 0.0, 0.0, 1.0)'
-          exprExp =
-            expInput?.kind === 'vec4'
-              ? expInput.expr
-              : expInput?.kind === 'number'
-                ? asVec4(expInput.expr, 'number')
-                : 'vec4(1.0, 1.0, 1.0, 1.0)'
-        }
-        const expr = `pow(${exprBase}, ${exprExp})`
-        const name = nextVar(kind === 'number' ? 'num' : 'vec')
-        decls.push(`const ${name} = ${expr};`)
-        const out = { expr: name, kind }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'length') {
-        const input = getInput('value')
-        const valueExpr =
-          input && isVectorKind(input.kind) ? input.expr : 'vec3(0.0, 0.0, 0.0)'
-        const expr = `length(${valueExpr})`
-        const name = nextVar('num')
-        decls.push(`const ${name} = ${expr};`)
-        const out = { expr: name, kind: 'number' as const }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'smoothstepElement') {
-        const lowInput = getInput('low')
-        const highInput = getInput('high')
-        const xInput = getInput('x')
-        const kind = resolveVectorOutputKind([
-          lowInput?.kind ?? 'number',
-          highInput?.kind ?? 'number',
-          xInput?.kind ?? 'number',
-        ])
-        if (kind === 'unknown') {
-          const out = { expr: 'float(0.0)', kind: 'number' as const }
-          cache.set(key, out)
-          return out
-        }
-        let exprX = xInput?.expr ?? 'float(0.0)'
-        let exprLow = lowInput?.expr ?? 'float(0.0)'
-        let exprHigh = highInput?.expr ?? 'float(1.0)'
-        if (kind === 'color') {
-          exprX =
-            xInput?.kind === 'color'
-              ? xInput.expr
-              : xInput?.kind === 'number'
-                ? asColor(xInput.expr, 'number')
-                : 'color(0.0)'
-          exprLow =
-            lowInput?.kind === 'color'
-              ? lowInput.expr
-              : lowInput?.kind === 'number'
-                ? asColor(lowInput.expr, 'number')
-                : 'color(0.0)'
-          exprHigh =
-            highInput?.kind === 'color'
-              ? highInput.expr
-              : highInput?.kind === 'number'
-                ? asColor(highInput.expr, 'number')
-                : 'color(1.0)'
-        } else if (kind === 'vec2') {
-          exprX =
-            xInput?.kind === 'vec2'
-              ? xInput.expr
-              : xInput?.kind === 'number'
-                ? asVec2(xInput.expr, 'number')
-                : 'vec2(0.0, 0.0)'
-          exprLow =
-            lowInput?.kind === 'vec2'
-              ? lowInput.expr
-              : lowInput?.kind === 'number'
-                ? asVec2(lowInput.expr, 'number')
-                : 'vec2(0.0, 0.0)'
-          exprHigh =
-            highInput?.kind === 'vec2'
-              ? highInput.expr
-              : highInput?.kind === 'number'
-                ? asVec2(highInput.expr, 'number')
-                : 'vec2(1.0, 1.0)'
-        } else if (kind === 'vec3') {
-          exprX =
-            xInput?.kind === 'vec3'
-              ? xInput.expr
-              : xInput?.kind === 'number'
-                ? asVec3(xInput.expr, 'number')
-                : 'vec3(0.0, 0.0, 0.0)'
-          exprLow =
-            lowInput?.kind === 'vec3'
-              ? lowInput.expr
-              : lowInput?.kind === 'number'
-                ? asVec3(lowInput.expr, 'number')
-                : 'vec3(0.0, 0.0, 0.0)'
-          exprHigh =
-            highInput?.kind === 'vec3'
-              ? highInput.expr
-              : highInput?.kind === 'number'
-                ? asVec3(highInput.expr, 'number')
-                : 'vec3(1.0, 1.0, 1.0)'
-        } else if (kind === 'vec4') {
-          exprX =
-            xInput?.kind === 'vec4'
-              ? xInput.expr
-              : xInput?.kind === 'number'
-                ? asVec4(xInput.expr, 'number')
-                : 'vec4(0.0, 0.0, 0.0, 1.0)'
-          exprLow =
-            lowInput?.kind === 'vec4'
-              ? lowInput.expr
-              : lowInput?.kind === 'number'
-                ? asVec4(lowInput.expr, 'number')
-                : 'vec4(0.0, 0.0, 0.0, 1.0)'
-          exprHigh =
-            highInput?.kind === 'vec4'
-              ? highInput.expr
-              : highInput?.kind === 'number'
-                ? asVec4(highInput.expr, 'number')
-                : 'vec4(1.0, 1.0, 1.0, 1.0)'
-        }
-        const expr = `smoothstepElement(${exprX}, ${exprLow}, ${exprHigh})`
-        const name = nextVar(kind === 'number' ? 'num' : 'vec')
-        decls.push(`const ${name} = ${expr};`)
-        const out = { expr: name, kind }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'stepElement') {
-        const edgeInput = getInput('edge')
-        const xInput = getInput('x')
-        const kind = resolveVectorOutputKind([
-          edgeInput?.kind ?? 'number',
-          xInput?.kind ?? 'number',
-        ])
-        if (kind === 'unknown') {
-          const out = { expr: 'float(0.0)', kind: 'number' as const }
-          cache.set(key, out)
-          return out
-        }
-        let exprX = xInput?.expr ?? 'float(0.0)'
-        let exprEdge = edgeInput?.expr ?? 'float(0.0)'
-        if (kind === 'color') {
-          exprX =
-            xInput?.kind === 'color'
-              ? xInput.expr
-              : xInput?.kind === 'number'
-                ? asColor(xInput.expr, 'number')
-                : 'color(0.0)'
-          exprEdge =
-            edgeInput?.kind === 'color'
-              ? edgeInput.expr
-              : edgeInput?.kind === 'number'
-                ? asColor(edgeInput.expr, 'number')
-                : 'color(0.0)'
-        } else if (kind === 'vec2') {
-          exprX =
-            xInput?.kind === 'vec2'
-              ? xInput.expr
-              : xInput?.kind === 'number'
-                ? asVec2(xInput.expr, 'number')
-                : 'vec2(0.0, 0.0)'
-          exprEdge =
-            edgeInput?.kind === 'vec2'
-              ? edgeInput.expr
-              : edgeInput?.kind === 'number'
-                ? asVec2(edgeInput.expr, 'number')
-                : 'vec2(0.0, 0.0)'
-        } else if (kind === 'vec3') {
-          exprX =
-            xInput?.kind === 'vec3'
-              ? xInput.expr
-              : xInput?.kind === 'number'
-                ? asVec3(xInput.expr, 'number')
-                : 'vec3(0.0, 0.0, 0.0)'
-          exprEdge =
-            edgeInput?.kind === 'vec3'
-              ? edgeInput.expr
-              : edgeInput?.kind === 'number'
-                ? asVec3(edgeInput.expr, 'number')
-                : 'vec3(0.0, 0.0, 0.0)'
-        } else if (kind === 'vec4') {
-          exprX =
-            xInput?.kind === 'vec4'
-              ? xInput.expr
-              : xInput?.kind === 'number'
-                ? asVec4(xInput.expr, 'number')
-                : 'vec4(0.0, 0.0, 0.0, 1.0)'
-          exprEdge =
-            edgeInput?.kind === 'vec4'
-              ? edgeInput.expr
-              : edgeInput?.kind === 'number'
-                ? asVec4(edgeInput.expr, 'number')
-                : 'vec4(0.0, 0.0, 0.0, 1.0)'
-        }
-        const expr = `stepElement(${exprX}, ${exprEdge})`
-        const name = nextVar(kind === 'number' ? 'num' : 'vec')
-        decls.push(`const ${name} = ${expr};`)
-        const out = { expr: name, kind }
-        cache.set(key, out)
-        return out
-      }
-      if (
-        node.type === 'lessThan' ||
-        node.type === 'lessThanEqual' ||
-        node.type === 'greaterThan' ||
-        node.type === 'greaterThanEqual' ||
-        node.type === 'equal' ||
-        node.type === 'notEqual'
-      ) {
-        const inputA = getInput('a')
-        const inputB = getInput('b')
-        const kind = resolveVectorOutputKind([
-          inputA?.kind ?? 'number',
-          inputB?.kind ?? 'number',
-        ])
-        if (kind === 'unknown') {
-          const out = { expr: 'float(0.0)', kind: 'number' as const }
-          cache.set(key, out)
-          return out
-        }
-        const compareFn =
-          node.type === 'lessThan'
-            ? 'lessThan'
-            : node.type === 'lessThanEqual'
-              ? 'lessThanEqual'
-              : node.type === 'greaterThan'
-                ? 'greaterThan'
-                : node.type === 'greaterThanEqual'
-                  ? 'greaterThanEqual'
-                  : node.type === 'equal'
-                    ? 'equal'
-                    : 'notEqual'
-        let exprA = inputA?.expr ?? 'float(0.0)'
-        let exprB = inputB?.expr ?? 'float(0.0)'
-        if (kind === 'color') {
-          exprA =
-            inputA?.kind === 'color'
-              ? inputA.expr
-              : inputA?.kind === 'number'
-                ? asColor(inputA.expr, 'number')
-                : 'color(0.0)'
-          exprB =
-            inputB?.kind === 'color'
-              ? inputB.expr
-              : inputB?.kind === 'number'
-                ? asColor(inputB.expr, 'number')
-                : 'color(0.0)'
-        } else if (kind === 'vec2') {
-          exprA =
-            inputA?.kind === 'vec2'
-              ? inputA.expr
-              : inputA?.kind === 'number'
-                ? asVec2(inputA.expr, 'number')
-                : 'vec2(0.0, 0.0)'
-          exprB =
-            inputB?.kind === 'vec2'
-              ? inputB.expr
-              : inputB?.kind === 'number'
-                ? asVec2(inputB.expr, 'number')
-                : 'vec2(0.0, 0.0)'
-        } else if (kind === 'vec3') {
-          exprA =
-            inputA?.kind === 'vec3'
-              ? inputA.expr
-              : inputA?.kind === 'number'
-                ? asVec3(inputA.expr, 'number')
-                : 'vec3(0.0, 0.0, 0.0)'
-          exprB =
-            inputB?.kind === 'vec3'
-              ? inputB.expr
-              : inputB?.kind === 'number'
-                ? asVec3(inputB.expr, 'number')
-                : 'vec3(0.0, 0.0, 0.0)'
-        } else if (kind === 'vec4') {
-          exprA =
-            inputA?.kind === 'vec4'
-              ? inputA.expr
-              : inputA?.kind === 'number'
-                ? asVec4(inputA.expr, 'number')
-                : 'vec4(0.0, 0.0, 0.0, 1.0)'
-          exprB =
-            inputB?.kind === 'vec4'
-              ? inputB.expr
-              : inputB?.kind === 'number'
-                ? asVec4(inputB.expr, 'number')
-                : 'vec4(0.0, 0.0, 0.0, 1.0)'
-        }
-        const oneExpr =
-          kind === 'number'
-            ? 'float(1.0)'
-            : kind === 'color'
-              ? 'color(1.0)'
-              : kind === 'vec2'
-                ? 'vec2(1.0, 1.0)'
-                : kind === 'vec3'
-                  ? 'vec3(1.0, 1.0, 1.0)'
-                  : 'vec4(1.0, 1.0, 1.0, 1.0)'
-        const zeroExpr =
-          kind === 'number'
-            ? 'float(0.0)'
-            : kind === 'color'
-              ? 'color(0.0)'
-              : kind === 'vec2'
-                ? 'vec2(0.0, 0.0)'
-                : kind === 'vec3'
-                  ? 'vec3(0.0, 0.0, 0.0)'
-                  : 'vec4(0.0, 0.0, 0.0, 0.0)'
-        const expr = `select(${compareFn}(${exprA}, ${exprB}), ${oneExpr}, ${zeroExpr})`
-        const name = nextVar(kind === 'number' ? 'num' : kind === 'color' ? 'col' : 'vec')
-        decls.push(`const ${name} = ${expr};`)
-        const out = { expr: name, kind }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'and' || node.type === 'or') {
-        const inputA = getInput('a')
-        const inputB = getInput('b')
-        const kind = resolveVectorOutputKind([
-          inputA?.kind ?? 'number',
-          inputB?.kind ?? 'number',
-        ])
-        if (kind === 'unknown') {
-          const out = { expr: 'float(0.0)', kind: 'number' as const }
-          cache.set(key, out)
-          return out
-        }
-        const halfExpr =
-          kind === 'number'
-            ? 'float(0.5)'
-            : kind === 'color'
-              ? 'color(0.5)'
-              : kind === 'vec2'
-                ? 'vec2(0.5, 0.5)'
-                : kind === 'vec3'
-                  ? 'vec3(0.5, 0.5, 0.5)'
-                  : 'vec4(0.5, 0.5, 0.5, 0.5)'
-        let exprA = inputA?.expr ?? 'float(0.0)'
-        let exprB = inputB?.expr ?? 'float(0.0)'
-        if (kind === 'color') {
-          exprA =
-            inputA?.kind === 'color'
-              ? inputA.expr
-              : inputA?.kind === 'number'
-                ? asColor(inputA.expr, 'number')
-                : 'color(0.0)'
-          exprB =
-            inputB?.kind === 'color'
-              ? inputB.expr
-              : inputB?.kind === 'number'
-                ? asColor(inputB.expr, 'number')
-                : 'color(0.0)'
-        } else if (kind === 'vec2') {
-          exprA =
-            inputA?.kind === 'vec2'
-              ? inputA.expr
-              : inputA?.kind === 'number'
-                ? asVec2(inputA.expr, 'number')
-                : 'vec2(0.0, 0.0)'
-          exprB =
-            inputB?.kind === 'vec2'
-              ? inputB.expr
-              : inputB?.kind === 'number'
-                ? asVec2(inputB.expr, 'number')
-                : 'vec2(0.0, 0.0)'
-        } else if (kind === 'vec3') {
-          exprA =
-            inputA?.kind === 'vec3'
-              ? inputA.expr
-              : inputA?.kind === 'number'
-                ? asVec3(inputA.expr, 'number')
-                : 'vec3(0.0, 0.0, 0.0)'
-          exprB =
-            inputB?.kind === 'vec3'
-              ? inputB.expr
-              : inputB?.kind === 'number'
-                ? asVec3(inputB.expr, 'number')
-                : 'vec3(0.0, 0.0, 0.0)'
-        } else if (kind === 'vec4') {
-          exprA =
-            inputA?.kind === 'vec4'
-              ? inputA.expr
-              : inputA?.kind === 'number'
-                ? asVec4(inputA.expr, 'number')
-                : 'vec4(0.0, 0.0, 0.0, 1.0)'
-          exprB =
-            inputB?.kind === 'vec4'
-              ? inputB.expr
-              : inputB?.kind === 'number'
-                ? asVec4(inputB.expr, 'number')
-                : 'vec4(0.0, 0.0, 0.0, 1.0)'
-        }
-        const maskA = `step(${halfExpr}, ${exprA})`
-        const maskB = `step(${halfExpr}, ${exprB})`
-        const expr = node.type === 'and' ? `(${maskA} * ${maskB})` : `max(${maskA}, ${maskB})`
-        const name = nextVar(kind === 'number' ? 'num' : kind === 'color' ? 'col' : 'vec')
-        decls.push(`const ${name} = ${expr};`)
-        const out = { expr: name, kind }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'not') {
-        const input = getInput('value')
-        const kind = input?.kind ?? 'number'
-        if (kind !== 'number' && !isVectorKind(kind)) {
-          const out = { expr: 'float(0.0)', kind: 'number' as const }
-          cache.set(key, out)
-          return out
-        }
-        const halfExpr =
-          kind === 'number'
-            ? 'float(0.5)'
-            : kind === 'color'
-              ? 'color(0.5)'
-              : kind === 'vec2'
-                ? 'vec2(0.5, 0.5)'
-                : kind === 'vec3'
-                  ? 'vec3(0.5, 0.5, 0.5)'
-                  : 'vec4(0.5, 0.5, 0.5, 0.5)'
-        let exprValue = input?.expr ?? 'float(0.0)'
-        if (kind === 'color') {
-          exprValue =
-            input?.kind === 'color'
-              ? input.expr
-              : input?.kind === 'number'
-                ? asColor(input.expr, 'number')
-                : 'color(0.0)'
-        } else if (kind === 'vec2') {
-          exprValue =
-            input?.kind === 'vec2'
-              ? input.expr
-              : input?.kind === 'number'
-                ? asVec2(input.expr, 'number')
-                : 'vec2(0.0, 0.0)'
-        } else if (kind === 'vec3') {
-          exprValue =
-            input?.kind === 'vec3'
-              ? input.expr
-              : input?.kind === 'number'
-                ? asVec3(input.expr, 'number')
-                : 'vec3(0.0, 0.0, 0.0)'
-        } else if (kind === 'vec4') {
-          exprValue =
-            input?.kind === 'vec4'
-              ? input.expr
-              : input?.kind === 'number'
-                ? asVec4(input.expr, 'number')
-                : 'vec4(0.0, 0.0, 0.0, 1.0)'
-        }
-        const mask = `step(${halfExpr}, ${exprValue})`
-        const expr = `oneMinus(${mask})`
-        const name = nextVar(kind === 'number' ? 'num' : kind === 'color' ? 'col' : 'vec')
-        decls.push(`const ${name} = ${expr};`)
-        const out = {
-          expr: name,
-          kind: kind === 'color' ? ('color' as const) : (kind as typeof kind),
-        }
-        cache.set(key, out)
-        return out
-      }
-      if (node.type === 'remap' || node.type === 'remapClamp') {
-        const input = getInput('value')
-        const inLowInput = getInput('inLow')
-        const inHighInput = getInput('inHigh')
-        const outLowInput = getInput('outLow')
-        const outHighInput = getInput('outHigh')
-        const kind = input?.kind ?? 'number'
-        const fn = node.type === 'remap' ? 'remap' : 'remapClamp'
-        if (kind === 'number') {
-          const valueExpr = input?.kind === 'number' ? input.expr : 'float(0.0)'
-          const inLowExpr = inLowInput?.kind === 'number' ? inLowInput.expr : 'float(0.0)'
-          const inHighExpr = inHighInput?.kind === 'number' ? inHighInput.expr : 'float(1.0)'
-          const outLowExpr = outLowInput?.kind === 'number' ? outLowInput.expr : 'float(0.0)'
-          const outHighExpr =
-            outHighInput?.kind === 'number' ? outHighInput.expr : 'float(1.0)'
-          const expr = `${fn}(${valueExpr}, ${inLowExpr}, ${inHighExpr}, ${outLowExpr}, ${outHighExpr})`
-          const name = nextVar('num')
-          decls.push(`const ${name} = ${expr};`)
-          const out = { expr: name, kind: 'number' as const }
-          cache.set(key, out)
-          return out
-        }
-        if (kind === 'vec2') {
-          const valueExpr = input ? toVec2Expr(input) : 'vec2(0.0, 0.0)'
-          const inLowExpr = inLowInput ? toVec2Expr(inLowInput) : 'vec2(0.0, 0.0)'
-          const inHighExpr = inHighInput ? toVec2Expr(inHighInput) : 'vec2(1.0, 1.0)'
-          const outLowExpr = outLowInput ? toVec2Expr(outLowInput) : 'vec2(0.0, 0.0)'
-          const outHighExpr = outHighInput ? toVec2Expr(outHighInput) : 'vec2(1.0, 1.0)'
-          const expr = `${fn}(${valueExpr}, ${inLowExpr}, ${inHighExpr}, ${outLowExpr}, ${outHighExpr})`
-          const name = nextVar('vec')
-          decls.push(`const ${name} = ${expr};`)
-          const out = { expr: name, kind: 'vec2' as const }
-          cache.set(key, out)
-          return out
-        }
-        if (kind === 'vec3' || kind === 'color') {
-          const valueExpr = input ? toVec3Expr(input) : 'vec3(0.0, 0.0, 0.0)'
-          const inLowExpr = inLowInput ? toVec3Expr(inLowInput) : 'vec3(0.0, 0.0, 0.0)'
-          const inHighExpr = inHighInput ? toVec3Expr(inHighInput) : 'vec3(1.0, 1.0, 1.0)'
-          const outLowExpr = outLowInput ? toVec3Expr(outLowInput) : 'vec3(0.0, 0.0, 0.0)'
-          const outHighExpr = outHighInput ? toVec3Expr(outHighInput) : 'vec3(1.0, 1.0, 1.0)'
-          const expr = `${fn}(${valueExpr}, ${inLowExpr}, ${inHighExpr}, ${outLowExpr}, ${outHighExpr})`
-          const name = nextVar('vec')
-          decls.push(`const ${name} = ${expr};`)
-          const out = {
-            expr: name,
-            kind: kind === 'color' ? ('color' as const) : ('vec3' as const),
-          }
-          cache.set(key, out)
-          return out
-        }
-        if (kind === 'vec4') {
-          const valueExpr = input ? toVec4Expr(input) : 'vec4(0.0, 0.0, 0.0, 1.0)'
-          const inLowExpr = inLowInput ? toVec4Expr(inLowInput) : 'vec4(0.0, 0.0, 0.0, 1.0)'
-          const inHighExpr = inHighInput ? toVec4Expr(inHighInput) : 'vec4(1.0, 1.0, 1.0, 1.0)'
-          const outLowExpr = outLowInput ? toVec4Expr(outLowInput) : 'vec4(0.0, 0.0, 0.0, 1.0)'
-          const outHighExpr = outHighInput ? toVec4Expr(outHighInput) : 'vec4(1.0, 1.0, 1.0, 1.0)'
-          const expr = `${fn}(${valueExpr}, ${inLowExpr}, ${inHighExpr}, ${outLowExpr}, ${outHighExpr})`
-          const name = nextVar('vec')
-          decls.push(`const ${name} = ${expr};`)
-          const out = { expr: name, kind: 'vec4' as const }
-          cache.set(key, out)
-          return out
-        }
-      }
-      if (node.type === 'luminance') {
-        const input = getInput('value')
-        const sourceExpr = !input
-          ? 'vec3(0.0, 0.0, 0.0)'
-          : input.kind === 'vec3' || input.kind === 'color'
-            ? input.expr
-            : input.kind === 'vec2'
-              ? `vec3(${input.expr}.x, ${input.expr}.y, 0.0)`
-              : input.kind === 'vec4'
-                ? `vec3(${input.expr}.x, ${input.expr}.y, ${input.expr}.z)`
-                : input.kind === 'number'
-                  ? asVec3(input.expr, 'number')
-                  : 'vec3(0.0, 0.0, 0.0)'
-        const expr = `luminance(${sourceExpr})`
-        const name = nextVar('num')
-        decls.push(`const ${name} = ${expr};`)
-        const out = { expr: name, kind: 'number' as const }
-        cache.set(key, out)
-        return out
-      }
-      if (
-        node.type === 'grayscale' ||
-        node.type === 'saturation' ||
-        node.type === 'posterize' ||
-        node.type === 'sRGBTransferEOTF' ||
-        node.type === 'sRGBTransferOETF' ||
-        node.type === 'linearToneMapping' ||
-        node.type === 'reinhardToneMapping' ||
-        node.type === 'cineonToneMapping' ||
-        node.type === 'acesFilmicToneMapping' ||
-        node.type === 'agxToneMapping' ||
-        node.type === 'neutralToneMapping'
-      ) {
-        const input = getInput('value')
-        const sourceExpr = !input
-          ? 'vec3(0.0, 0.0, 0.0)'
-          : input.kind === 'vec3' || input.kind === 'color'
-            ? input.expr
-            : input.kind === 'vec2'
-              ? `vec3(${input.expr}.x, ${input.expr}.y, 0.0)`
-              : input.kind === 'vec4'
-                ? `vec3(${input.expr}.x, ${input.expr}.y, ${input.expr}.z)`
-                : input.kind === 'number'
-                  ? asVec3(input.expr, 'number')
-                  : 'vec3(0.0, 0.0, 0.0)'
-        let expr = sourceExpr
-        if (node.type === 'grayscale') {
-          expr = `grayscale(${sourceExpr})`
-        } else if (node.type === 'saturation') {
-          const amountInput = getInput('amount')
-          const amountExpr = amountInput?.kind === 'number' ? amountInput.expr : 'float(1.0)'
-          expr = `saturation(${sourceExpr}, ${amountExpr})`
-        } else if (node.type === 'posterize') {
-          const stepsInput = getInput('steps')
-          const stepsExpr = stepsInput?.kind === 'number' ? stepsInput.expr : 'float(4.0)'
-          expr = `posterize(${sourceExpr}, ${stepsExpr})`
-        } else if (node.type === 'sRGBTransferEOTF') {
-          expr = `sRGBTransferEOTF(${sourceExpr})`
-        } else if (node.type === 'sRGBTransferOETF') {
-          expr = `sRGBTransferOETF(${sourceExpr})`
-        } else if (node.type === 'linearToneMapping') {
-          expr = `linearToneMapping(${sourceExpr}, float(1))`
-        } else if (node.type === 'reinhardToneMapping') {
-          expr = `reinhardToneMapping(${sourceExpr}, float(1))`
-        } else if (node.type === 'cineonToneMapping') {
-          expr = `cineonToneMapping(${sourceExpr}, float(1))`
-        } else if (node.type === 'acesFilmicToneMapping') {
-          expr = `acesFilmicToneMapping(${sourceExpr}, float(1))`
-        } else if (node.type === 'agxToneMapping') {
-          expr = `agxToneMapping(${sourceExpr}, float(1))`
-        } else {
-          expr = `neutralToneMapping(${sourceExpr}, float(1))`
-        }
-        const name = nextVar('col')
-        decls.push(`const ${name} = ${expr};`)
-        const kind = input?.kind === 'color' || !input ? ('color' as const) : ('vec3' as const)
-        const out = { expr: name, kind }
-        cache.set(key, out)
-        return out
+    historyTimerRef.current = window.setTimeout(() => {
+      const pending = historyPendingRef.current
+      if (!pending) return
+      const pendingSig = JSON.stringify(pending)
+      const history = historyRef.current
+      if (history.lastSig === pendingSig) return
+      if (history.last) {
+        history.past.push(history.last)
       }
-
-      if (node.type === 'material' || node.type === 'physicalMaterial') {
-        const pin = outputPin ?? 'baseColor'
-        const base = getInput('baseColor')
-        const tex = getInput('baseColorTexture')
-        if (pin === 'baseColor') {
-          if (base && tex) {
-            const expr = `${asColor(base.expr, base.kind === 'number' ? 'number' : 'color')}.mul(${asColor(
-              tex.expr,
-              tex.kind === 'number' ? 'number' : 'color',
-            )})`
-            const name = nextVar('col')
-            decls.push(`const ${name} = ${expr};`)
-            const out = { expr: name, kind: 'color' as const }
-            cache.set(key, out)
-            return out
-          }
-          if (base) {
-            const out = {
-              expr: asColor(base.expr, base.kind === 'number' ? 'number' : 'color'),
-              kind: 'color' as const,
-            }
-            cache.set(key, out)
-            return out
-          }
-          if (tex) {
-            const out = {
-              expr: asColor(tex.expr, tex.kind === 'number' ? 'number' : 'color'),
-              kind: 'color' as const,
-            }
-            cache.set(key, out)
-            return out
-          }
-        }
-        if (pin === 'roughness' || pin === 'metalness') {
-          const input = getInput(pin)
-          const out = input ?? { expr: 'float(0.7)', kind: 'number' as const }
-          cache.set(key, out)
-          return out
-        }
+      if (history.past.length > 100) {
+        history.past.shift()
       }
-
-      if (node.type === 'output') {
-        const input = getInput('baseColor')
-        const out =
-          input?.kind === 'color'
-            ? { expr: input.expr, kind: 'color' as const }
-            : input?.kind === 'number'
-              ? { expr: asColor(input.expr, 'number'), kind: 'color' as const }
-              : { expr: `color(${FALLBACK_COLOR})`, kind: 'color' as const }
-        cache.set(key, out)
-        return out
+      history.future = []
+      history.last = pending
+      history.lastSig = pendingSig
+      historyPendingRef.current = null
+      setHistoryTick((prev) => prev + 1)
+    }, 200)
+    return () => {
+      if (historyTimerRef.current) {
+        window.clearTimeout(historyTimerRef.current)
+        historyTimerRef.current = null
       }
+    }
+  }, [nodes, connections, groups, functions, historyRecordingEnabled])
 
-      if (node.type === 'vertexOutput') {
-        const input = getInput('position')
-        const out =
-          input?.kind === 'vec3'
-            ? { expr: input.expr, kind: 'vec3' as const }
-            : input?.kind === 'number'
-              ? { expr: asVec3(input.expr, 'number'), kind: 'vec3' as const }
-              : { expr: 'vec3(0.0, 0.0, 0.0)', kind: 'vec3' as const }
-        cache.set(key, out)
-        return out
-      }
+  const removeEditorNodes = (ids: string[]) => {
+    if (!isFunctionEditing) {
+      removeFunctionsForNodeIds(ids)
+    }
+    setEditorNodes((prev) => prev.filter((node) => !ids.includes(node.id)))
+    setEditorConnections((prev) =>
+      prev.filter(
+        (connection) =>
+          !ids.includes(connection.from.nodeId) && !ids.includes(connection.to.nodeId),
+      ),
+    )
+    if (!isFunctionEditing) {
+      setGroups((prev) =>
+        prev
+          .map((group) => ({
+            ...group,
+            nodeIds: group.nodeIds.filter((id) => !ids.includes(id)),
+          }))
+          .filter((group) => group.nodeIds.length > 0),
+      )
+    }
+    setSelectedNodeIds([])
+  }
 
-      const fallback = { expr: 'float(0.0)', kind: 'number' as const }
-      cache.set(key, fallback)
-      return fallback
+  const getPastePosition = () => {
+    const container = viewportRef.current
+    if (!container) return { x: 40, y: 80 }
+    const rect = container.getBoundingClientRect()
+    const viewState = viewRef.current
+    const pointer = canvasPointerRef.current ?? {
+      clientX: rect.left + rect.width / 2,
+      clientY: rect.top + rect.height / 2,
     }
+    return {
+      x: (pointer.clientX - rect.left - viewState.x) / viewState.zoom,
+      y: (pointer.clientY - rect.top - viewState.y) / viewState.zoom,
+    }
+  }
 
-    const baseColor = resolveExpr(baseColorConn.from.nodeId, baseColorConn.from.pin)
-    const roughnessConn = getOutputConnection(connectionMap, outputNode, 'roughness')
-    const metalnessConn = getOutputConnection(connectionMap, outputNode, 'metalness')
-    const roughness = roughnessConn
-      ? resolveExpr(roughnessConn.from.nodeId, roughnessConn.from.pin)
-      : { expr: 'float(0.7)', kind: 'number' as const }
-    const metalness = metalnessConn
-      ? resolveExpr(metalnessConn.from.nodeId, metalnessConn.from.pin)
-      : { expr: 'float(0.1)', kind: 'number' as const }
+  const copySelection = async (cut: boolean) => {
+    const ids = [...selectedNodeIds]
+    const clipboard = copyGraphSelection(
+      {
+        nodes: editorNodes,
+        connections: editorConnections,
+        groups: isFunctionEditing ? [] : groups,
+        functions,
+      },
+      ids,
+    )
+    if (!clipboard.nodes.length) return
+    const selectedNodes = editorNodes.filter((node) => ids.includes(node.id))
+    try {
+      const blobs = await encodeGraphBlobs(await collectGraphBlobs(selectedNodes))
+      await navigator.clipboard.writeText(
+        JSON.stringify(blobs.length ? { ...clipboard, blobs } : clipboard),
+      )
+      // Cut nodes stay in the graph until the clipboard holds them.
+      if (cut) removeEditorNodes(ids)
+      setToast(`${cut ? 'Cut' : 'Copied'} ${clipboard.nodes.length} node(s)`)
+    } catch (error) {
+      setToast(error instanceof Error ? `Copy failed: ${error.message}` : 'Copy failed')
+    }
+  }
 
-    const baseColorExpr =
-      baseColor.kind === 'color'
-        ? baseColor.expr
-        : baseColor.kind === 'number'
-          ? asColor(baseColor.expr, 'number')
-          : `color(${FALLBACK_COLOR})`
-    const { standardMaterialNode, physicalMaterialNode, basicMaterialNode } =
-      getMaterialNodesFromOutput(outputNode, nodeMap, connectionMap)
-    const getStandardConn = (pin: string) => {
-      const node = standardMaterialNode ?? physicalMaterialNode
-      return node ? connectionMap.get(`${node.id}:${pin}`) : null
+  const pasteClipboard = (clipboard: GraphClipboard) => {
+    const singletonTypes = ['output', 'vertexOutput', 'geometryOutput'].filter((type) =>
+      editorNodes.some((node) => node.type === type),
+    )
+    const nodesToPaste = clipboard.nodes.filter((node) => !singletonTypes.includes(node.type))
+    if (!nodesToPaste.length) {
+      setToast('Only one Output node is allowed')
+      return
     }
-    const getStandardNumberExpr = (pin: string) => {
-      const conn = getStandardConn(pin)
-      if (!conn) return null
-      const resolved = resolveExpr(conn.from.nodeId, conn.from.pin)
-      return resolved.kind === 'number' ? resolved.expr : null
+    const pasted = pasteGraphClipboard(
+      { ...clipboard, nodes: nodesToPaste },
+      getPastePosition(),
+      functions,
+    )
+    const blobs = new Map(
+      (clipboard.blobs ?? []).map((entry) => [`${entry.store}:${entry.id}`, entry]),
+    )
+    const pastedNodes = pasted.nodes.map((node) => {
+      const store = getNodeBlobStore(node)
+      const entry = store ? blobs.get(`${store}:${getNodeBlobKey(node)}`) : undefined
+      if (!store || !entry) return node
+      const url = URL.createObjectURL(decodeGraphBlob(entry))
+      objectUrlRef.current[node.id] = url
+      return store === 'textures'
+        ? { ...node, value: url, textureName: entry.name || node.textureName }
+        : { ...node, value: url, assetName: entry.name || node.assetName }
+    })
+    if (Object.keys(pasted.functions).length) {
+      setFunctions((prev) => ({ ...prev, ...pasted.functions }))
     }
-    const getStandardColorExpr = (pin: string) => {
-      const conn = getStandardConn(pin)
-      if (!conn) return null
-      const resolved = resolveExpr(conn.from.nodeId, conn.from.pin)
-      if (resolved.kind === 'color') return resolved.expr
-      if (resolved.kind === 'number') return asColor(resolved.expr, 'number')
-      return null
+    setEditorNodes((prev) => [...prev, ...pastedNodes])
+    setEditorConnections((prev) => [...prev, ...pasted.connections])
+    if (!isFunctionEditing && pasted.groups.length) {
+      setGroups((prev) => [...prev, ...pasted.groups])
     }
-    const getStandardNumberLiteral = (pin: string) => {
-      const conn = getStandardConn(pin)
-      if (!conn) return null
-      const source = nodeMap.get(conn.from.nodeId)
-      if (source?.type === 'number') {
-        return parseNumber(source.value)
-      }
-      return null
+    setSelectedNodeIds(pastedNodes.map((node) => node.id))
+    if (nodesToPaste.length < clipboard.nodes.length) {
+      setToast('Only one Output node is allowed')
     }
-    const getStandardTextureId = (pin: string) => {
-      const conn = getStandardConn(pin)
-      if (!conn) return null
-      const source = nodeMap.get(conn.from.nodeId)
-      if (source?.type === 'texture') return source.id
-      return null
+  }
+
+  const selectedTemplate = GRAPH_TEMPLATES.find((template) => template.id === templateId) ?? null
+
+  const createSlot = async () => {
+    const next = normalizeSlot(newSlotName)
+    if (!next) return
+    const seed = selectedTemplate
+      ? { ...instantiateGraphTemplate(selectedTemplate, templateValues), groups: [], functions: {} }
+      : {
+          nodes: exampleGraph.nodes as GraphNode[],
+          connections: exampleGraph.connections as GraphConnection[],
+          groups: (exampleGraph.groups ?? []) as GraphGroup[],
+          functions: (exampleGraph.functions ?? {}) as Record<string, FunctionDefinition>,
+        }
+    await writeGraphRecord(
+      next,
+      {
+        ...seed,
+        ui: { paletteOpen: { ...paletteDefaults, ...(exampleGraph.ui?.paletteOpen ?? {}) } },
+      },
+      { silent: true },
+    )
+    pendingExampleLayoutRef.current = true
+    setStorageSlot(next)
+    setNewSlotName('')
+  }
+
+  const templateOptions = (
+    <>
+      <option value="">Example graph</option>
+      {GRAPH_TEMPLATE_CATEGORIES.map((category) => (
+        <optgroup key={category} label={category}>
+          {GRAPH_TEMPLATES.filter((template) => template.category === category).map(
+            (template) => (
+              <option key={template.id} value={template.id}>
+                {template.name}
+              </option>
+            ),
+          )}
+        </optgroup>
+      ))}
+    </>
+  )
+
+  const insertTemplate = (mode: 'group' | 'function') => {
+    if (!selectedTemplate) return
+    pasteClipboard(
+      mode === 'group'
+        ? createTemplateGroupClipboard(selectedTemplate, templateValues)
+        : createTemplateFunctionClipboard(selectedTemplate, templateValues),
+    )
+  }
+
+  useEffect(() => {
+    clipboardHandlersRef.current = {
+      hasSelection: selectedNodeIds.length > 0,
+      copy: copySelection,
+      paste: pasteClipboard,
     }
-    const getBasicConn = (pin: string) =>
-      basicMaterialNode ? connectionMap.get(`${basicMaterialNode.id}:${pin}`) : null
-    const getBasicNumberExpr = (pin: string) => {
-      const conn = getBasicConn(pin)
-      if (!conn) return null
-      const resolved = resolveExpr(conn.from.nodeId, conn.from.pin)
-      return resolved.kind === 'number' ? resolved.expr : null
+  })
+
+  useEffect(() => {
+    const isTextTarget = (target: EventTarget | null) => {
+      const element = target as HTMLElement | null
+      return Boolean(element && (element.tagName === 'INPUT' || element.tagName === 'TEXTAREA'))
     }
-    const getBasicNumberLiteral = (pin: string) => {
-      const conn = getBasicConn(pin)
-      if (!conn) return null
-      const source = nodeMap.get(conn.from.nodeId)
-      if (source?.type === 'number') {
-        return parseNumber(source.value)
-      }
-      return null
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (isTextTarget(event.target) || !(event.metaKey || event.ctrlKey)) return
+      const key = event.key.toLowerCase()
+      if (key !== 'c' && key !== 'x') return
+      if (!clipboardHandlersRef.current.hasSelection || window.getSelection()?.toString()) return
+      event.preventDefault()
+      void clipboardHandlersRef.current.copy(key === 'x')
     }
-    const getBasicTextureId = (pin: string) => {
-      const conn = getBasicConn(pin)
-      if (!conn) return null
-      const source = nodeMap.get(conn.from.nodeId)
-      if (source?.type === 'texture') return source.id
-      return null
+    const handlePaste = (event: ClipboardEvent) => {
+      if (isTextTarget(event.target)) return
+      const clipboard = parseGraphClipboard(event.clipboardData?.getData('text/plain') ?? '')
+      if (!clipboard) return
+      event.preventDefault()
+      clipboardHandlersRef.current.paste(clipboard)
     }
-    decls.push(`material.colorNode = ${baseColorExpr};`)
-    if (materialKind === 'standard' || materialKind === 'physical') {
-      decls.push(`material.roughnessNode = ${roughness.expr};`)
-      decls.push(`material.metalnessNode = ${metalness.expr};`)
-      if (standardMaterialNode || physicalMaterialNode) {
-        const emissiveExpr = getStandardColorExpr('emissive')
-        if (emissiveExpr) {
-          decls.push(`material.emissiveNode = ${emissiveExpr};`)
-        }
-        const emissiveMapId = getStandardTextureId('emissiveMap')
-        if (emissiveMapId) {
-          decls.push(`material.emissiveMap = textureFromNode('${emissiveMapId}');`)
-        }
-        const emissiveIntensity = getStandardNumberLiteral('emissiveIntensity')
-        if (emissiveIntensity !== null) {
-          decls.push(`material.emissiveIntensity = ${emissiveIntensity.toFixed(3)};`)
-        }
-        const roughnessMapId = getStandardTextureId('roughnessMap')
-        if (roughnessMapId) {
-          decls.push(`material.roughnessMap = textureFromNode('${roughnessMapId}');`)
-        }
-        const metalnessMapId = getStandardTextureId('metalnessMap')
-        if (metalnessMapId) {
-          decls.push(`material.metalnessMap = textureFromNode('${metalnessMapId}');`)
-        }
-        const normalMapId = getStandardTextureId('normalMap')
-        if (normalMapId) {
-          decls.push(`material.normalMap = textureFromNode('${normalMapId}');`)
-        }
-        const normalScale = getStandardNumberLiteral('normalScale')
-        if (normalScale !== null) {
-          const value = normalScale.toFixed(3)
-          decls.push(`material.normalScale = new Vector2(${value}, ${value});`)
-        }
-        const aoMapId = getStandardTextureId('aoMap')
-        if (aoMapId) {
-          decls.push(`material.aoMap = textureFromNode('${aoMapId}');`)
-        }
-        const aoMapIntensity = getStandardNumberLiteral('aoMapIntensity')
-        if (aoMapIntensity !== null) {
-          decls.push(`material.aoMapIntensity = ${aoMapIntensity.toFixed(3)};`)
-        }
-        const envMapId = getStandardTextureId('envMap')
-        if (envMapId) {
-          decls.push(`material.envMap = textureFromNode('${envMapId}');`)
-        }
-        const envMapIntensity = getStandardNumberLiteral('envMapIntensity')
-        if (envMapIntensity !== null) {
-          decls.push(`material.envMapIntensity = ${envMapIntensity.toFixed(3)};`)
-        }
-        const opacityExpr = getStandardNumberExpr('opacity')
-        if (opacityExpr) {
-          decls.push(`material.opacityNode = ${opacityExpr};`)
-        }
-        const alphaTestExpr = getStandardNumberExpr('alphaTest')
-        if (alphaTestExpr) {
-          decls.push(`material.alphaTestNode = ${alphaTestExpr};`)
-        }
-        const alphaHashLiteral = getStandardNumberLiteral('alphaHash')
-        if (alphaHashLiteral !== null) {
-          decls.push(`material.alphaHash = ${alphaHashLiteral > 0.5 ? 'true' : 'false'};`)
-        } else if (getStandardConn('alphaHash')) {
-          decls.push('material.alphaHash = true;')
-        }
-        const opacityLiteral = getStandardNumberLiteral('opacity')
-        if (opacityLiteral !== null) {
-          decls.push(`material.transparent = ${opacityLiteral < 1 ? 'true' : 'false'};`)
-        }
-        if (materialKind === 'physical') {
-          const clearcoatExpr = getStandardNumberExpr('clearcoat')
-          if (clearcoatExpr) {
-            decls.push(`material.clearcoatNode = ${clearcoatExpr};`)
-          }
-          const clearcoatLiteral = getStandardNumberLiteral('clearcoat')
-          if (clearcoatLiteral !== null) {
-            decls.push(`material.clearcoat = ${clearcoatLiteral.toFixed(3)};`)
-          }
-          const clearcoatRoughnessExpr = getStandardNumberExpr('clearcoatRoughness')
-          if (clearcoatRoughnessExpr) {
-            decls.push(`material.clearcoatRoughnessNode = ${clearcoatRoughnessExpr};`)
-          }
-          const clearcoatRoughnessLiteral = getStandardNumberLiteral('clearcoatRoughness')
-          if (clearcoatRoughnessLiteral !== null) {
-            decls.push(
-              `material.clearcoatRoughness = ${clearcoatRoughnessLiteral.toFixed(3)};`,
-            )
-          }
-          const clearcoatNormalId = getStandardTextureId('clearcoatNormal')
-          if (clearcoatNormalId) {
-            decls.push(
-              `material.clearcoatNormalMap = textureFromNode('${clearcoatNormalId}');`,
-            )
-          }
-        }
-      }
+    window.addEventListener('keydown', handleKeyDown)
+    window.addEventListener('paste', handlePaste)
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown)
+      window.removeEventListener('paste', handlePaste)
     }
-    if (materialKind === 'basic') {
-      const opacityExpr = getBasicNumberExpr('opacity')
-      if (opacityExpr) {
-        decls.push(`material.opacityNode = ${opacityExpr};`)
-      }
-      const alphaTestExpr = getBasicNumberExpr('alphaTest')
-      if (alphaTestExpr) {
-        decls.push(`material.alphaTestNode = ${alphaTestExpr};`)
-      }
-      const alphaHashLiteral = getBasicNumberLiteral('alphaHash')
-      if (alphaHashLiteral !== null) {
-        decls.push(`material.alphaHash = ${alphaHashLiteral > 0.5 ? 'true' : 'false'};`)
-      } else if (getBasicConn('alphaHash')) {
-        decls.push('material.alphaHash = true;')
-      }
-      const mapId = getBasicTextureId('map')
-      if (mapId) {
-        decls.push(`material.map = textureFromNode('${mapId}');`)
+  }, [])
+
+  useEffect(() => {
+  const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement | null
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA')) {
+        return
       }
-      const alphaMapId = getBasicTextureId('alphaMap')
-      if (alphaMapId) {
-        decls.push(`material.alphaMap = textureFromNode('${alphaMapId}');`)
-        decls.push('material.transparent = true;')
+      const key = event.key.toLowerCase()
+      const isMod = event.metaKey || event.ctrlKey
+      if (isMod && key === 'z' && !event.shiftKey) {
+        event.preventDefault()
+        undo()
+        return
       }
-      const aoMapId = getBasicTextureId('aoMap')
-      if (aoMapId) {
-        decls.push(`material.aoMap = textureFromNode('${aoMapId}');`)
+      if ((isMod && key === 'y') || (isMod && event.shiftKey && key === 'z')) {
+        event.preventDefault()
+        redo()
+        return
       }
-      const envMapId = getBasicTextureId('envMap')
-      if (envMapId) {
-        decls.push(`material.envMap = textureFromNode('${envMapId}');`)
+      if (event.key === 'Escape') {
+        setSoloNodeId(null)
+        return
       }
-      const reflectivity =
-        getBasicNumberLiteral('reflectivity') ?? getBasicNumberLiteral('envMapIntensity')
-      if (reflectivity !== null) {
-        decls.push(`material.reflectivity = ${reflectivity.toFixed(3)};`)
+      if (!selectedNodeIds.length) return
+      if (event.key === 'Backspace' || event.key === 'Delete') {
+        event.preventDefault()
+        removeEditorNodes(selectedNodeIds)
       }
     }
-    if (vertexOutputNode) {
-      const positionConn = connectionMap.get(`${vertexOutputNode.id}:position`)
-      if (positionConn) {
-        const positionValue = resolveExpr(
-          positionConn.from.nodeId,
-          positionConn.from.pin,
-        )
-        const positionExpr =
-          positionValue.kind === 'vec3'
-            ? positionValue.expr
-            : positionValue.kind === 'number'
-              ? asVec3(positionValue.expr, 'number')
-              : 'vec3(0.0, 0.0, 0.0)'
-        decls.push(`material.positionNode = positionLocal.add(${positionExpr});`)
-      } else {
-        decls.push('material.positionNode = positionLocal;')
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [redo, selectedNodeIds, undo, isFunctionEditing, setEditorConnections, setEditorNodes])
+
+
+  const graphSignature = useMemo(() => {
+    const nodeShape = nodes.map((node) => ({
+      id: node.id,
+      type: node.type,
+      inputs: node.inputs,
+      outputs: node.outputs,
+      attribute: node.type === 'attribute' ? [node.value, node.attributeType] : undefined,
+      varying: node.type === 'varyingSet' || node.type === 'varyingGet' ? node.value : undefined,
+      recomputeNormals: node.type === 'vertexOutput' ? Boolean(node.recomputeNormals) : undefined,
+      meshIndex: node.type === 'gltf' ? node.meshIndex ?? '' : undefined,
+      materialIndex: node.type === 'gltfMaterial' ? node.materialIndex ?? '' : undefined,
+      textureIndex: node.type === 'gltfTexture' ? node.textureIndex ?? '' : undefined,
+      functionId: node.type === 'function' ? node.functionId ?? '' : undefined,
+    }))
+    const linkShape = connections.map((connection) => ({
+      from: connection.from,
+      to: connection.to,
+    }))
+    const functionShape = Object.values(functions).map((fn) => ({
+      id: fn.id,
+      name: fn.name,
+      nodes: fn.nodes.map((node) => ({
+        id: node.id,
+        type: node.type,
+        inputs: node.inputs,
+        outputs: node.outputs,
+        attribute: node.type === 'attribute' ? [node.value, node.attributeType] : undefined,
+        varying:
+          node.type === 'varyingSet' || node.type === 'varyingGet' ? node.value : undefined,
+      })),
+      connections: fn.connections.map((connection) => ({
+        from: connection.from,
+        to: connection.to,
+      })),
+      inputs: fn.inputs,
+      outputs: fn.outputs,
+    }))
+    return JSON.stringify({ nodeShape, linkShape, gltfVersion, functionShape })
+  }, [nodes, connections, gltfVersion, functions])
+
+  const graphComputeSignature = useMemo(() => {
+    const normalizedNodes = nodes.map((node) => {
+      const { x: _x, y: _y, ...rest } = node
+      return rest
+    })
+    const normalizedFunctions = Object.values(functions).map((fn) => ({
+      ...fn,
+      nodes: fn.nodes.map((node) => {
+        const { x: _x, y: _y, ...rest } = node
+        return rest
+      }),
+    }))
+    return JSON.stringify({
+      nodes: normalizedNodes,
+      connections,
+      functions: normalizedFunctions,
+      gltfVersion,
+      textureVersion,
+    })
+  }, [nodes, connections, functions, gltfVersion, textureVersion])
+
+  const previewPrimitive = useMemo(() => {
+    const expanded = expandFunctions(nodes, connections, functions)
+    const output = expanded.nodes.find((node) => node.type === 'output')
+    return getPreviewPrimitive(
+      getMaterialKindFromOutput(
+        output,
+        buildNodeMap(expanded.nodes),
+        buildConnectionMap(expanded.connections),
+      ),
+    )
+  }, [nodes, connections, functions])
+
+  const geometrySignature = useMemo(() => {
+    const expanded = expandFunctions(nodes, connections, functions)
+    const geometryNodes = expanded.nodes
+      .filter(
+        (node) =>
+          node.type === 'geometryPrimitive' ||
+          node.type === 'geometryOutput' ||
+          node.type === 'gltf' ||
+          node.type === 'gltfMaterial' ||
+          node.type === 'gltfTexture' ||
+          node.type === 'meshFile',
+      )
+      .map((node) => ({
+        id: node.id,
+        type: node.type,
+        value: node.value ?? '',
+        meshIndex: node.meshIndex ?? '',
+        materialIndex: node.materialIndex ?? '',
+        textureIndex: node.textureIndex ?? '',
+        geometryParams: node.geometryParams ?? {},
+        sceneMaterials: node.sceneMaterials ?? null,
+        animationClip: node.animationClip ?? null,
+      }))
+    const geometryLinks = expanded.connections.filter(
+      (connection) => connection.to.pin === 'geometry',
+    )
+    return JSON.stringify({
+      geometryNodes,
+      geometryLinks,
+      primitive: previewPrimitive,
+      version: gltfVersion,
+      meshFileVersion,
+    })
+  }, [nodes, connections, functions, previewPrimitive, gltfVersion, meshFileVersion])
+
+  const textureSignature = useMemo(() => {
+    const expanded = expandFunctions(nodes, connections, functions)
+    const textures = expanded.nodes
+      .filter((node) => node.type === 'texture')
+      .map((node) => ({ id: node.id, value: node.value ?? '' }))
+    return JSON.stringify({ textures, version: textureVersion })
+  }, [nodes, connections, functions, textureVersion])
+
+  const editorGraphSignature = useMemo(() => {
+    const normalizedNodes = editorNodes.map((node) => {
+      const { x: _x, y: _y, ...rest } = node
+      return rest
+    })
+    return JSON.stringify({ nodes: normalizedNodes, connections: editorConnections })
+  }, [editorNodes, editorConnections])
+
+  const applyNumberUniformUpdate = (
+    uniformNode: ReturnType<typeof uniform>,
+    mode: UniformUpdateMode,
+    source: UniformUpdateSource,
+  ) => {
+    if (mode === 'frame') {
+      uniformNode.onFrameUpdate(() => performance.now() / 1000)
+      return
+    }
+    if (mode === 'object') {
+      uniformNode.onObjectUpdate(({ object }) => getObjectUpdateValue(object, source))
+      return
+    }
+    if (mode === 'render') {
+      uniformNode.onRenderUpdate(({ camera }) => getCameraUpdateValue(camera, source))
+    }
+  }
+
+  const ensureNumberUniform = (node: GraphNode, value: number) => {
+    const mode = getNumberUpdateMode(node)
+    const source = getNumberUpdateSource(node, mode)
+    let entry = nodeUniformsRef.current[node.id]
+    if (!entry || entry.kind !== 'number' || entry.mode !== mode || entry.source !== source) {
+      const uniformNode = uniform(value)
+      if (mode !== 'manual') {
+        applyNumberUniformUpdate(uniformNode, mode, source)
       }
+      entry = { uniform: uniformNode, mode, source, kind: 'number' }
+      nodeUniformsRef.current[node.id] = entry
+    }
+    if (mode === 'manual') {
+      entry.uniform.value = value
+    }
+    return entry.uniform
+  }
+
+  const ensureColorUniform = (node: GraphNode, value: string) => {
+    let entry = nodeUniformsRef.current[node.id]
+    if (!entry || entry.kind !== 'color') {
+      const uniformNode = uniform(new Color(value))
+      entry = { uniform: uniformNode, mode: 'manual', source: 'value', kind: 'color' }
+      nodeUniformsRef.current[node.id] = entry
+    }
+    if (entry.uniform.value instanceof Color) {
+      entry.uniform.value.set(value)
     }
+    return entry.uniform
+  }
 
-    decls.push('return material;')
-    const code = decls.join('\n')
-    const usedImports = tslImportNames.filter((name) => {
-      const regex = new RegExp(`\\b${name}\\b`, 'g')
-      return regex.test(code)
-    })
-    const importLine = usedImports.length
-      ? `const { ${usedImports.join(', ')} } = TSL;`
-      : ''
-    return code
-      .replace(`const { ${tslImportPlaceholder} } = TSL;`, importLine)
-      .replace(/\n{3,}/g, '\n\n')
-      .trim()
+  const getGltfMaterial = (node: GraphNode) => {
+    const entry = gltfMapRef.current[node.id]
+    const materialCount = entry?.materials?.length ?? 0
+    if (!materialCount) return null
+    return (
+      (entry.materials[getMaterialIndex(node, materialCount)] as GltfMaterial | undefined) ??
+      null
+    )
   }
 
-  const buildMaterialExport = (
-    code: string,
-    format: 'js' | 'ts',
-    style: 'module' | 'snippet',
-    includeImports = true,
-  ) => {
-    const expanded = expandFunctions(nodes, connections, functions)
-    const textureIds = expanded.nodes
-      .filter((node) => node.type === 'texture')
-      .map((node) => node.id)
-    const gltfTextureIds = expanded.nodes
-      .filter((node) => node.type === 'gltfMaterial')
-      .flatMap((node) => {
+  const getPreviewTextures = (graphNodes: GraphNode[]) => {
+    const textures: Record<string, Texture> = {}
+    graphNodes.forEach((node) => {
+      if (node.type === 'texture') {
+        const tex = textureMapRef.current[node.id]?.texture
+        if (tex) textures[node.id] = tex
+        return
+      }
+      if (node.type === 'gltfTexture') {
         const entry = gltfMapRef.current[node.id]
-        const materialCount = entry?.materials?.length ?? 0
-        if (!materialCount) return []
-        const material = entry?.materials?.[
-          getMaterialIndex(node, materialCount)
-        ] as GltfMaterial | undefined
-        if (!material) return []
-        const ids: string[] = []
-        if (material.map) ids.push(getGltfMaterialTextureId(node.id, 'map'))
-        if (material.roughnessMap)
-          ids.push(getGltfMaterialTextureId(node.id, 'roughnessMap'))
-        if (material.metalnessMap)
-          ids.push(getGltfMaterialTextureId(node.id, 'metalnessMap'))
-        if (material.emissiveMap)
-          ids.push(getGltfMaterialTextureId(node.id, 'emissiveMap'))
-        if (material.normalMap)
-          ids.push(getGltfMaterialTextureId(node.id, 'normalMap'))
-        if (material.aoMap) ids.push(getGltfMaterialTextureId(node.id, 'aoMap'))
-        if (material.envMap) ids.push(getGltfMaterialTextureId(node.id, 'envMap'))
-        return ids
-      })
-    const gltfTextureNodeIds = expanded.nodes
-      .filter((node) => node.type === 'gltfTexture')
-      .filter((node) => (gltfMapRef.current[node.id]?.textures.length ?? 0) > 0)
-      .map((node) => getGltfTextureId(node.id))
-    const allTextureIds = [...textureIds, ...gltfTextureIds, ...gltfTextureNodeIds]
-    const needsBasic = code.includes('MeshBasicNodeMaterial')
-    const needsStandard = code.includes('MeshStandardNodeMaterial')
-    const needsPhysical = code.includes('MeshPhysicalNodeMaterial')
-    const needsVector2 = code.includes('new Vector2')
-    const usesTextures = allTextureIds.length > 0
-    const materialImports = [
-      needsBasic ? 'MeshBasicNodeMaterial' : null,
-      needsStandard ? 'MeshStandardNodeMaterial' : null,
-      needsPhysical ? 'MeshPhysicalNodeMaterial' : null,
-    ].filter(Boolean)
-    const materialReturnType = materialImports.length
-      ? materialImports.join(' | ')
-      : 'unknown'
-    const threeImports = [
-      usesTextures ? 'Texture' : null,
-      needsVector2 ? 'Vector2' : null,
-    ].filter(Boolean)
-    const exportPrefix = style === 'module' ? 'export ' : ''
-    const header =
-      format === 'ts'
-        ? [
-            ...(includeImports ? [`import { TSL } from 'three/tsl';`] : []),
-            ...(includeImports && materialImports.length
-              ? [`import { ${materialImports.join(', ')} } from 'three/webgpu';`]
-              : []),
-            ...(includeImports && threeImports.length
-              ? [`import { ${threeImports.join(', ')} } from 'three';`]
-              : []),
-            ``,
-            `${exportPrefix}type TSLExportOptions = {`,
-            ...(usesTextures ? [`  textures?: Record<string, Texture>;`] : []),
-            `  timeUniform?: ReturnType<typeof TSL.uniform>;`,
-            `};`,
-            ``,
-            `${exportPrefix}const textureIds = ${JSON.stringify(allTextureIds, null, 2)};`,
-            ``,
-            `${exportPrefix}const makeNodeMaterial = (`,
-            `  options: TSLExportOptions = {},`,
-            `): { material: ${materialReturnType}; uniforms: { time: ReturnType<typeof TSL.uniform> } } => {`,
-            ...(usesTextures ? [`  const textures = options.textures ?? {};`] : []),
-            `  const timeUniform = options.timeUniform ?? TSL.uniform(0);`,
-            ...(usesTextures
-              ? [`  const textureFromNode = (id: string) => textures[id] ?? null;`]
-              : [`  const textureFromNode = (_id: string) => null;`]),
-            ``,
-          ]
-        : [
-            ...(includeImports ? [`import { TSL } from 'three/tsl';`] : []),
-            ...(includeImports && materialImports.length
-              ? [`import { ${materialImports.join(', ')} } from 'three/webgpu';`]
-              : []),
-            ...(includeImports && threeImports.length
-              ? [`import { ${threeImports.join(', ')} } from 'three';`]
-              : []),
-            ``,
-            `${exportPrefix}const textureIds = ${JSON.stringify(allTextureIds, null, 2)};`,
-            ``,
-            `${exportPrefix}const makeNodeMaterial = (options = {}) => {`,
-            ...(usesTextures ? [`  const textures = options.textures ?? {};`] : []),
-            `  const timeUniform = options.timeUniform ?? TSL.uniform(0);`,
-            ...(usesTextures
-              ? [`  const textureFromNode = (id) => textures[id] ?? null;`]
-              : [`  const textureFromNode = (_id) => null;`]),
-            ``,
-          ]
-    const body = code
-      .split('\n')
-      .map((line) => `    ${line}`)
-      .join('\n')
-    return [
-      ...header,
-      `  const material = (() => {`,
-      body,
-      `  })();`,
-      `  return { material, uniforms: { time: timeUniform } };`,
-      `};`,
-    ].join('\n')
+        const textureCount = entry?.textures.length ?? 0
+        if (textureCount) {
+          textures[getGltfTextureId(node.id)] =
+            entry.textures[getTextureIndex(node, textureCount)]
+        }
+        return
+      }
+      if (node.type === 'gltfMaterial') {
+        const material = getGltfMaterial(node)
+        if (!material) return
+        GLTF_MATERIAL_TEXTURE_KEYS.forEach((key) => {
+          const tex = material[key] as Texture | null | undefined
+          if (tex) textures[getGltfMaterialTextureId(node.id, key)] = tex
+        })
+      }
+    })
+    return textures
   }
 
-  const buildCreateAppLines = (format: 'js' | 'ts', exportPrefix: string) => {
-    const signature =
-      format === 'ts'
-        ? `${exportPrefix}const createApp = (options: TSLAppOptions): { dispose: () => void } => {`
-        : `${exportPrefix}const createApp = (options = {}) => {`
-    return [
-      signature,
-      `  const { container, textures = {}, geometryType = 'box', timeUniform: injectedTime } = options;`,
-      `  if (!container) {`,
-      `    throw new Error('Container is required');`,
-      `  }`,
-      `  if (!WebGPU.isAvailable()) {`,
-      `    container.textContent = 'WebGPU not available';`,
-      `    return { dispose: () => {} };`,
-      `  }`,
-      `  const renderer = new WebGPURenderer({ antialias: true });`,
-      `  renderer.setPixelRatio(window.devicePixelRatio || 1);`,
-      `  renderer.outputColorSpace = SRGBColorSpace;`,
-      `  renderer.toneMapping = NoToneMapping;`,
-      `  renderer.toneMappingExposure = 1;`,
-      `  const scene = new Scene();`,
-      `  scene.background = new Color(0x0e1013);`,
-      `  const camera = new PerspectiveCamera(45, 1, 0.1, 100);`,
-      `  camera.position.set(3.2, 2.6, 4);`,
-      `  camera.lookAt(0, 0, 0);`,
-      `  const ambient = new AmbientLight(0xffffff, 0.6);`,
-      `  const keyLight = new DirectionalLight(0xffffff, 1.2);`,
-      `  keyLight.position.set(4, 6, 2);`,
-      `  scene.add(ambient, keyLight);`,
-      `  const geometry = (() => {`,
-      `    switch (geometryType) {`,
-      `      case 'sphere':`,
-      `        return new SphereGeometry(0.75, 32, 16);`,
-      `      case 'plane':`,
-      `        return new PlaneGeometry(1.5, 1.5, 1, 1);`,
-      `      case 'torus':`,
-      `        return new TorusGeometry(0.6, 0.25, 24, 64);`,
-      `      case 'cylinder':`,
-      `        return new CylinderGeometry(0.5, 0.5, 1.2, 24);`,
-      `      default:`,
-      `        return new BoxGeometry(1, 1, 1);`,
-      `    }`,
-      `  })();`,
-      `  const materialResult = makeNodeMaterial({ textures, timeUniform: injectedTime });`,
-      `  const material = materialResult?.material ?? materialResult;`,
-      `  const uniforms = materialResult?.uniforms ?? { time: injectedTime ?? TSL.uniform(0) };`,
-      `  const mesh = new Mesh(geometry, material);`,
-      `  scene.add(mesh);`,
-      `  const controls = new OrbitControls(camera, renderer.domElement);`,
-      `  controls.target.set(0, 0, 0);`,
-      `  controls.enableDamping = true;`,
-      `  const handleResize = () => {`,
-      `    const width = container.clientWidth || 1;`,
-      `    const height = container.clientHeight || 1;`,
-      `    camera.aspect = width / height;`,
-      `    camera.updateProjectionMatrix();`,
-      `    renderer.setSize(width, height);`,
-      `  };`,
-      `  window.addEventListener('resize', handleResize);`,
-      `  let disposed = false;`,
-      `  const startTime = performance.now();`,
-      `  const render = () => {`,
-      `    if (disposed) return;`,
-      `    uniforms.time.value = (performance.now() - startTime) / 1000;`,
-      `    controls.update();`,
-      `    renderer.render(scene, camera);`,
-      `  };`,
-      `  const init = async () => {`,
-      `    try {`,
-      `      await renderer.init();`,
-      `      if (disposed) return;`,
-      `      container.appendChild(renderer.domElement);`,
-      `      handleResize();`,
-      `      renderer.setAnimationLoop(render);`,
-      `    } catch (error) {`,
-      `      container.textContent = 'WebGPU init failed';`,
-      `    }`,
-      `  };`,
-      `  init();`,
-      `  return {`,
-      `    dispose: () => {`,
-      `      disposed = true;`,
-      `      window.removeEventListener('resize', handleResize);`,
-      `      renderer.setAnimationLoop(null);`,
-      `      controls.dispose();`,
-      `      geometry.dispose();`,
-      `      material.dispose();`,
-      `      renderer.dispose();`,
-      `      if (renderer.domElement.parentElement === container) {`,
-      `        container.removeChild(renderer.domElement);`,
-      `      }`,
-      `    },`,
-      `  };`,
-      `};`,
-    ]
+  const buildGraph = () => {
+    const ir = buildGraphIR({ nodes, connections, functions }, { getGltfMaterial })
+    const textures = getPreviewTextures(expandFunctions(nodes, connections, functions).nodes)
+    const getTexture = (id: string) => textures[id] ?? null
+    const emitter = createTslNodeEmitter(ir, {
+      numberUniform: ensureNumberUniform,
+      colorUniform: ensureColorUniform,
+      time: timeUniformRef.current,
+      getTexture,
+    })
+    return { ir, emitter, getTexture }
   }
 
-  const buildAppExport = (code: string, format: 'js' | 'ts', style: 'module' | 'snippet') => {
-    const materialSnippet = buildMaterialExport(code, format, style, false)
-    const expanded = expandFunctions(nodes, connections, functions)
-    const textureIds = expanded.nodes
-      .filter((node) => node.type === 'texture')
-      .map((node) => node.id)
-    const gltfTextureIds = expanded.nodes
-      .filter((node) => node.type === 'gltfMaterial')
-      .flatMap((node) => {
-        const entry = gltfMapRef.current[node.id]
-        const materialCount = entry?.materials?.length ?? 0
-        if (!materialCount) return []
-        const material = entry?.materials?.[
-          getMaterialIndex(node, materialCount)
-        ] as GltfMaterial | undefined
-        if (!material) return []
-        const ids: string[] = []
-        if (material.map) ids.push(getGltfMaterialTextureId(node.id, 'map'))
-        if (material.roughnessMap)
-          ids.push(getGltfMaterialTextureId(node.id, 'roughnessMap'))
-        if (material.metalnessMap)
-          ids.push(getGltfMaterialTextureId(node.id, 'metalnessMap'))
-        if (material.emissiveMap)
-          ids.push(getGltfMaterialTextureId(node.id, 'emissiveMap'))
-        if (material.normalMap)
-          ids.push(getGltfMaterialTextureId(node.id, 'normalMap'))
-        if (material.aoMap) ids.push(getGltfMaterialTextureId(node.id, 'aoMap'))
-        if (material.envMap) ids.push(getGltfMaterialTextureId(node.id, 'envMap'))
-        return ids
-      })
-    const gltfTextureNodeIds = expanded.nodes
-      .filter((node) => node.type === 'gltfTexture')
-      .map((node) => getGltfTextureId(node.id))
-    const usesTextures =
-      textureIds.length + gltfTextureIds.length + gltfTextureNodeIds.length > 0
-    const needsVector2 = code.includes('new Vector2')
-    const materialImports: string[] = []
-    if (code.includes('MeshBasicNodeMaterial')) materialImports.push('MeshBasicNodeMaterial')
-    if (code.includes('MeshStandardNodeMaterial')) materialImports.push('MeshStandardNodeMaterial')
-    if (code.includes('MeshPhysicalNodeMaterial')) materialImports.push('MeshPhysicalNodeMaterial')
-    const webgpuImports = [
-      'AmbientLight',
-      'BoxGeometry',
-      'Color',
-      'DirectionalLight',
-      'Mesh',
-      'PerspectiveCamera',
-      'PlaneGeometry',
-      'Scene',
-      'SphereGeometry',
-      'TorusGeometry',
-      'CylinderGeometry',
-      'WebGPURenderer',
-      ...materialImports,
-    ]
-    const uniqueWebgpuImports = Array.from(new Set(webgpuImports))
-    const threeImports = [
-      usesTextures ? 'Texture' : null,
-      needsVector2 ? 'Vector2' : null,
-      'SRGBColorSpace',
-      'NoToneMapping',
-    ].filter(Boolean) as string[]
-    const exportPrefix = style === 'module' ? 'export ' : ''
-    const header =
-      format === 'ts'
-        ? [
-            `import { TSL } from 'three/tsl';`,
-            `import { ${uniqueWebgpuImports.join(', ')} } from 'three/webgpu';`,
-            ...(threeImports.length ? [`import { ${threeImports.join(', ')} } from 'three';`] : []),
-            `import WebGPU from 'three/addons/capabilities/WebGPU.js';`,
-            `import { OrbitControls } from 'three/addons/controls/OrbitControls.js';`,
-            ``,
-            `${exportPrefix}type TSLAppOptions = {`,
-            `  container: HTMLElement;`,
-            ...(usesTextures ? [`  textures?: Record<string, Texture>;`] : []),
-            `  geometryType?: 'box' | 'sphere' | 'plane' | 'torus' | 'cylinder';`,
-            `  timeUniform?: ReturnType<typeof TSL.uniform>;`,
-            `};`,
-            ``,
-          ]
-        : [
-            `import { TSL } from 'three/tsl';`,
-            `import { ${uniqueWebgpuImports.join(', ')} } from 'three/webgpu';`,
-            ...(threeImports.length ? [`import { ${threeImports.join(', ')} } from 'three';`] : []),
-            `import WebGPU from 'three/addons/capabilities/WebGPU.js';`,
-            `import { OrbitControls } from 'three/addons/controls/OrbitControls.js';`,
-            ``,
-          ]
-    const appBody = buildCreateAppLines(format, exportPrefix)
-    return [...header, materialSnippet, '', ...appBody].join('\n')
-  }
+  const buildCodePreview = () =>
+    emitTslCode(buildGraphIR({ nodes, connections, functions }, { getGltfMaterial }), {
+      mode: 'preview',
+    })
+
+  const buildExecutableTSL = () =>
+    compileGraph({ nodes, connections, functions }, { getGltfMaterial })
+
+  const hasGltfTexture = (node: GraphNode) =>
+    (gltfMapRef.current[node.id]?.textures.length ?? 0) > 0
+
+  const getExportTextures = () =>
+    getExportTextureIds({ nodes, connections, functions }, { getGltfMaterial, hasGltfTexture })
 
   useEffect(() => {
     codePreviewRef.current = buildCodePreview()
@@ -14948,35 +3806,98 @@ function App() {
 
   const executableTSL = useMemo(() => buildExecutableTSL(), [graphComputeSignature])
   const materialExport = useMemo(
-    () => buildMaterialExport(executableTSL, exportFormat, 'module'),
+    () => buildMaterialExport(executableTSL, getExportTextures(), exportFormat, 'module'),
     [graphComputeSignature, executableTSL, exportFormat],
   )
+  const appGeometry = useMemo((): PrimitiveGeometry => {
+    const expanded = expandFunctions(nodes, connections, functions)
+    const nodeMap = buildNodeMap(expanded.nodes)
+    const connectionMap = buildConnectionMap(expanded.connections)
+    const output = expanded.nodes.find((node) => node.type === 'geometryOutput')
+    const connection = output
+      ? connectionMap.get(`${output.id}:geometry`)
+      : null
+    if (connection) {
+      const source = nodeMap.get(connection.from.nodeId)
+      if (source?.type === 'geometryPrimitive') {
+        const value = (typeof source.value === 'string' ? source.value : '') || 'box'
+        return { shape: value, params: sanitizePrimitiveParams(value, source.geometryParams) }
+      }
+    }
+    return { shape: 'box', params: {} }
+  }, [graphComputeSignature])
   const appExport = useMemo(
-    () => buildAppExport(executableTSL, exportFormat, 'module'),
-    [graphComputeSignature, executableTSL, exportFormat],
+    () =>
+      buildAppExport(
+        executableTSL,
+        getExportTextures(),
+        exportFormat,
+        'module',
+        previewEnvironment,
+        appGeometry,
+        previewPrimitive,
+      ),
+    [
+      graphComputeSignature,
+      executableTSL,
+      exportFormat,
+      previewEnvironment,
+      appGeometry,
+      previewPrimitive,
+    ],
   )
   const appRuntime = useMemo(
     () => {
-      const materialSnippet = buildMaterialExport(executableTSL, 'js', 'snippet', false)
+      const materialSnippet = buildMaterialExport(
+        executableTSL,
+        getExportTextures(),
+        'js',
+        'snippet',
+        false,
+      )
       const runtimeHeader = [
         `const {`,
         `  AmbientLight,`,
         `  BoxGeometry,`,
         `  Color,`,
         `  DirectionalLight,`,
+        `  HemisphereLight,`,
+        `  PointLight,`,
         `  Mesh,`,
+        `  LineSegments,`,
+        `  Sprite,`,
+        `  InstancedBufferAttribute,`,
+        `  WireframeGeometry,`,
         `  PerspectiveCamera,`,
         `  PlaneGeometry,`,
         `  Scene,`,
         `  SphereGeometry,`,
         `  TorusGeometry,`,
         `  CylinderGeometry,`,
+        `  CapsuleGeometry,`,
+        `  ConeGeometry,`,
+        `  IcosahedronGeometry,`,
+        `  RingGeometry,`,
+        `  TorusKnotGeometry,`,
         `  WebGPURenderer,`,
         `  MeshBasicNodeMaterial,`,
         `  MeshStandardNodeMaterial,`,
         `  MeshPhysicalNodeMaterial,`,
+        `  MeshToonNodeMaterial,`,
+        `  MeshLambertNodeMaterial,`,
+        `  MeshPhongNodeMaterial,`,
+        `  PointsNodeMaterial,`,
+        `  LineBasicNodeMaterial,`,
+        `  LineDashedNodeMaterial,`,
+        `  SpriteNodeMaterial,`,
         `  SRGBColorSpace,`,
         `  NoToneMapping,`,
+        `  LinearToneMapping,`,
+        `  ReinhardToneMapping,`,
+        `  CineonToneMapping,`,
+        `  ACESFilmicToneMapping,`,
+        `  AgXToneMapping,`,
+        `  NeutralToneMapping,`,
         `  Vector2,`,
         `  OrbitControls,`,
         `  WebGPU,`,
@@ -14985,12 +3906,12 @@ function App() {
         ``,
       ].join('\n')
       const appBody = [
-        ...buildCreateAppLines('js', ''),
+        ...buildCreateAppLines('js', '', previewEnvironment, undefined, previewPrimitive),
         `return createApp;`,
       ].join('\n')
       return [runtimeHeader, materialSnippet, '', appBody].join('\n')
     },
-    [graphComputeSignature, executableTSL],
+    [graphComputeSignature, executableTSL, previewEnvironment, previewPrimitive],
   )
   const tslOutput = useMemo(() => {
     switch (tslOutputKind) {
@@ -15000,59 +3921,24 @@ function App() {
         return appExport
       case 'gltf':
         return gltfOutputText || 'glTF export is not ready.'
+      case 'wgsl-vertex':
+      case 'wgsl-fragment':
+      case 'glsl':
+        return shaderOutputText || '// Compiling shaders...'
       default:
         return executableTSL
     }
-  }, [tslOutputKind, materialExport, appExport, executableTSL, gltfOutputText])
+  }, [tslOutputKind, materialExport, appExport, executableTSL, gltfOutputText, shaderOutputText])
 
   useEffect(() => {
     if (tslOutputKind !== 'gltf') return
-    const exporter = new GLTFExporter()
-    const scene = new Scene()
     const meshes = meshesRef.current
     if (!meshes.length) {
       setGltfOutputText('// No mesh to export')
       return
     }
-    const rawMaterial = meshes[0]?.material
-    const primaryMaterial = Array.isArray(rawMaterial) ? rawMaterial[0] : rawMaterial
-    const entrypoints = primaryMaterial
-      ? [
-          'colorNode',
-          'roughnessNode',
-          'metalnessNode',
-          'emissiveNode',
-          'opacityNode',
-          'alphaTestNode',
-          'positionNode',
-          'clearcoatNode',
-          'clearcoatRoughnessNode',
-        ].filter((slot) =>
-          Boolean((primaryMaterial as unknown as Record<string, unknown>)[slot]),
-        )
-      : []
-    exporter.register(
-      (writer) =>
-        new THREEMaterialsTSLExporterPlugin(writer, {
-          entrypoints,
-          nodeSerializer: createDefaultNodeSerializer(),
-        }),
-    )
-    meshes.forEach((mesh) => {
-      const clone = mesh.clone()
-      clone.geometry = mesh.geometry
-      clone.material = mesh.material
-      clone.updateMatrix()
-      clone.updateMatrixWorld(true)
-      scene.add(clone)
-    })
-    exporter.parse(
-      scene,
+    exportMeshesToGltf(meshes).then(
       (result) => {
-        if (typeof result === 'string') {
-          setGltfOutputText(result)
-          return
-        }
         const gltf = result as {
           buffers?: Array<{ uri?: string }>
         }
@@ -15074,7 +3960,6 @@ function App() {
         const message = error instanceof Error ? error.message : 'Unknown glTF error'
         setGltfOutputText(`// glTF export failed: ${message}`)
       },
-      { binary: false },
     )
   }, [tslOutputKind, graphSignature, geometrySignature, textureSignature])
   const viewerTextures = useMemo(() => {
@@ -15104,23 +3989,6 @@ function App() {
     })
     return payload
   }, [graphComputeSignature, gltfVersion])
-  const viewerGeometryType = useMemo(() => {
-    const expanded = expandFunctions(nodes, connections, functions)
-    const nodeMap = buildNodeMap(expanded.nodes)
-    const connectionMap = buildConnectionMap(expanded.connections)
-    const output = expanded.nodes.find((node) => node.type === 'geometryOutput')
-    const connection = output
-      ? connectionMap.get(`${output.id}:geometry`)
-      : null
-    if (connection) {
-      const source = nodeMap.get(connection.from.nodeId)
-      if (source?.type === 'geometryPrimitive') {
-        const value = typeof source.value === 'string' ? source.value : 'box'
-        return value || 'box'
-      }
-    }
-    return 'box'
-  }, [graphComputeSignature])
 
   useEffect(() => {
     const handleMessage = (event: MessageEvent) => {
@@ -15144,7 +4012,8 @@ function App() {
         type: 'tsl-code',
         code: appRuntime,
         textures: viewerTextures,
-        geometryType: viewerGeometryType,
+        geometryType: appGeometry.shape,
+        geometryParams: appGeometry.params,
       },
       '*',
     )
@@ -15154,7 +4023,7 @@ function App() {
     viewerReadyTick,
     appRuntime,
     viewerTextures,
-    viewerGeometryType,
+    appGeometry,
   ])
 
   const copyTSLExport = useCallback(async () => {
@@ -15171,13 +4040,21 @@ function App() {
     const url = URL.createObjectURL(blob)
     const link = document.createElement('a')
     link.href = url
-    const suffix = exportFormat === 'ts' ? 'ts' : 'js'
+    const suffix = isShaderOutputKind(tslOutputKind)
+      ? tslOutputKind === 'glsl'
+        ? 'glsl'
+        : 'wgsl'
+      : exportFormat === 'ts'
+        ? 'ts'
+        : 'js'
     const baseName =
       tslOutputKind === 'app'
         ? 'tsl-app'
         : tslOutputKind === 'material'
           ? 'tsl-material'
-          : 'tsl-code'
+          : isShaderOutputKind(tslOutputKind)
+            ? `tsl-${tslOutputKind}`
+            : 'tsl-code'
     link.download = `${baseName}.${suffix}`
     link.click()
     URL.revokeObjectURL(url)
@@ -15185,47 +4062,12 @@ function App() {
   }, [exportFormat, tslOutput, tslOutputKind])
 
   const downloadGltfExport = useCallback(() => {
-    const exporter = new GLTFExporter()
-    const scene = new Scene()
     const meshes = meshesRef.current
     if (!meshes.length) {
       setToast('No mesh to export')
       return
     }
-    const rawMaterial = meshes[0]?.material
-    const primaryMaterial = Array.isArray(rawMaterial) ? rawMaterial[0] : rawMaterial
-    const entrypoints = primaryMaterial
-      ? [
-          'colorNode',
-          'roughnessNode',
-          'metalnessNode',
-          'emissiveNode',
-          'opacityNode',
-          'alphaTestNode',
-          'positionNode',
-          'clearcoatNode',
-          'clearcoatRoughnessNode',
-        ].filter((slot) =>
-          Boolean((primaryMaterial as unknown as Record<string, unknown>)[slot]),
-        )
-      : []
-    exporter.register(
-      (writer) =>
-        new THREEMaterialsTSLExporterPlugin(writer, {
-          entrypoints,
-          nodeSerializer: createDefaultNodeSerializer(),
-        }),
-    )
-    meshes.forEach((mesh) => {
-      const clone = mesh.clone()
-      clone.geometry = mesh.geometry
-      clone.material = mesh.material
-      clone.updateMatrix()
-      clone.updateMatrixWorld(true)
-      scene.add(clone)
-    })
-    exporter.parse(
-      scene,
+    exportMeshesToGltf(meshes, { binary: true }).then(
       (result) => {
         if (result instanceof ArrayBuffer) {
           const blob = new Blob([result], { type: 'model/gltf-binary' })
@@ -15252,7 +4094,6 @@ function App() {
         const message = error instanceof Error ? error.message : 'Unknown glTF error'
         setToast(`glTF export failed: ${message}`)
       },
-      { binary: true },
     )
   }, [])
 
@@ -15264,32 +4105,15 @@ function App() {
   }, [])
 
   useEffect(() => {
-    const {
-      root,
-      roughnessNode,
-      metalnessNode,
-      vertexPositionNode,
-      materialKind,
-      resolveNode: resolveGraphNode,
-    } = buildGraph()
-    const expanded = expandFunctions(nodes, connections, functions)
+    const { ir, emitter, getTexture } = buildGraph()
+    const { materialKind } = ir
     const meshes = meshesRef.current
     let material = materialRef.current
-    const needsBasic = materialKind === 'basic'
-    const needsPhysical = materialKind === 'physical'
-    const needsStandard = materialKind === 'standard'
-    const needsSwap =
-      !material ||
-      (needsBasic && !(material instanceof MeshBasicNodeMaterial)) ||
-      (needsPhysical && !(material instanceof MeshPhysicalNodeMaterial)) ||
-      (needsStandard && !(material instanceof MeshStandardNodeMaterial))
+    const nextKind = soloNode !== null ? getSoloMaterialKind(materialKind) : materialKind
+    const needsSwap = !material || material.constructor !== NODE_MATERIAL_CLASSES[nextKind]
     let materialChanged = false
     if (needsSwap) {
-      const nextMaterial = needsBasic
-        ? new MeshBasicNodeMaterial()
-        : needsPhysical
-          ? new MeshPhysicalNodeMaterial()
-          : new MeshStandardNodeMaterial()
+      const nextMaterial = createNodeMaterial(nextKind)
       material?.dispose()
       material = nextMaterial
       materialRef.current = nextMaterial
@@ -15301,185 +4125,159 @@ function App() {
     if (!material) return
     const signatureChanged = graphSignatureRef.current !== graphSignature
     const textureChanged = textureSignatureRef.current !== textureSignature
-    if (signatureChanged || textureChanged || materialChanged) {
-      material.colorNode = root
-      if (material instanceof MeshStandardNodeMaterial) {
-        if (roughnessNode?.kind === 'number') {
-          material.roughnessNode = roughnessNode.node
-        } else {
-          material.roughnessNode = float(0.7)
-        }
-        if (metalnessNode?.kind === 'number') {
-          material.metalnessNode = metalnessNode.node
-        } else {
-          material.metalnessNode = float(0.1)
-        }
-        const nodeMap = buildNodeMap(expanded.nodes)
-        const connectionMap = buildConnectionMap(expanded.connections)
-        const outputNode = expanded.nodes.find((node) => node.type === 'output')
-        const { standardMaterialNode: standardNode, physicalMaterialNode: physicalNode } =
-          getMaterialNodesFromOutput(outputNode, nodeMap, connectionMap)
-        const getConn = (pin: string) =>
-          standardNode || physicalNode
-            ? connectionMap.get(`${(standardNode ?? physicalNode)!.id}:${pin}`)
-            : null
-        const resolveNumberNode = (pin: string) => {
-          const conn = getConn(pin)
-          if (!conn) return null
-          const resolved = resolveGraphNode(conn.from.nodeId, new Set(), conn.from.pin)
-          return resolved.kind === 'number' ? resolved.node : null
-        }
-        const resolveColorNode = (pin: string) => {
-          const conn = getConn(pin)
-          if (!conn) return null
-          const resolved = resolveGraphNode(conn.from.nodeId, new Set(), conn.from.pin)
-          if (resolved.kind === 'color') return resolved.node
-          if (resolved.kind === 'number') return color(resolved.node)
-          return null
-        }
-        const resolveTextureFromPin = (pin: string) => {
-          const conn = getConn(pin)
-          if (!conn) return null
-          const source = nodeMap.get(conn.from.nodeId)
-          if (source?.type === 'texture') {
-            return textureMapRef.current[source.id]?.texture ?? null
-          }
-          return null
-        }
-        const getNumberLiteral = (pin: string) => {
-          const conn = getConn(pin)
-          if (!conn) return null
-          const source = nodeMap.get(conn.from.nodeId)
-          if (source?.type === 'number') {
-            return parseNumber(source.value)
-          }
-          return null
-        }
-        const getNormalScale = () => {
-          const conn = getConn('normalScale')
-          if (!conn) return null
-          const source = nodeMap.get(conn.from.nodeId)
-          if (source?.type === 'number') {
-            const value = parseNumber(source.value)
-            return new Vector2(value, value)
-          }
-          return null
-        }
-        material.emissiveNode = resolveColorNode('emissive')
-        material.emissiveMap = resolveTextureFromPin('emissiveMap')
-        const emissiveIntensity = getNumberLiteral('emissiveIntensity')
-        if (emissiveIntensity !== null) {
-          material.emissiveIntensity = emissiveIntensity
-        }
-        material.roughnessMap = resolveTextureFromPin('roughnessMap')
-        material.metalnessMap = resolveTextureFromPin('metalnessMap')
-        material.normalMap = resolveTextureFromPin('normalMap')
-        const normalScale = getNormalScale()
-        if (normalScale) {
-          material.normalScale = normalScale
-        }
-        material.aoMap = resolveTextureFromPin('aoMap')
-        const aoMapIntensity = getNumberLiteral('aoMapIntensity')
-        if (aoMapIntensity !== null) {
-          material.aoMapIntensity = aoMapIntensity
-        }
-        material.envMap = resolveTextureFromPin('envMap')
-        const envMapIntensity = getNumberLiteral('envMapIntensity')
-        if (envMapIntensity !== null) {
-          material.envMapIntensity = envMapIntensity
-        }
-        material.opacityNode = resolveNumberNode('opacity')
-        material.alphaTestNode = resolveNumberNode('alphaTest')
-        const alphaHashValue = getNumberLiteral('alphaHash')
-        material.alphaHash = alphaHashValue !== null ? alphaHashValue > 0.5 : Boolean(getConn('alphaHash'))
-        const opacityValue = getNumberLiteral('opacity')
-        material.transparent = opacityValue !== null ? opacityValue < 1 : false
-        if (material instanceof MeshPhysicalNodeMaterial && physicalNode) {
-          material.clearcoatNode = resolveNumberNode('clearcoat')
-          material.clearcoatRoughnessNode = resolveNumberNode('clearcoatRoughness')
-          material.clearcoatNormalMap = resolveTextureFromPin('clearcoatNormal')
-          const clearcoatValue = getNumberLiteral('clearcoat')
-          if (clearcoatValue !== null) {
-            material.clearcoat = clearcoatValue
-          }
-          const clearcoatRoughnessValue = getNumberLiteral('clearcoatRoughness')
-          if (clearcoatRoughnessValue !== null) {
-            material.clearcoatRoughness = clearcoatRoughnessValue
-          }
-        }
-      }
-      if (material instanceof MeshBasicNodeMaterial) {
-        const nodeMap = buildNodeMap(expanded.nodes)
-        const connectionMap = buildConnectionMap(expanded.connections)
-        const outputNode = expanded.nodes.find((node) => node.type === 'output')
-        const baseColorConn = outputNode
-          ? connectionMap.get(`${outputNode.id}:baseColor`)
-          : null
-        const basicNode =
-          baseColorConn && nodeMap.get(baseColorConn.from.nodeId)?.type === 'basicMaterial'
-            ? nodeMap.get(baseColorConn.from.nodeId)
-            : null
-        const getConn = (pin: string) =>
-          basicNode ? connectionMap.get(`${basicNode.id}:${pin}`) : null
-        const getNumberNodeValue = (pin: string, fallback: number) => {
-          const conn = getConn(pin)
-          if (!conn) return fallback
-          const source = nodeMap.get(conn.from.nodeId)
-          if (source?.type === 'number') {
-            return parseNumber(source.value)
-          }
-          return fallback
-        }
-        const getNumberUniform = (pin: string) => {
-          const conn = getConn(pin)
-          if (!conn) return null
-          const source = nodeMap.get(conn.from.nodeId)
-          if (source?.type !== 'number') return null
-          const value = parseNumber(source.value)
-          return ensureNumberUniform(source, value)
-        }
-        const resolveTextureFromPin = (pin: string) => {
-          const conn = getConn(pin)
-          if (!conn) return null
-          const source = nodeMap.get(conn.from.nodeId)
-          if (source?.type === 'texture') {
-            return textureMapRef.current[source.id]?.texture ?? null
-          }
-          return null
-        }
-        material.opacityNode = getNumberUniform('opacity')
-        material.alphaTestNode = getNumberUniform('alphaTest')
-        material.alphaHash = getNumberNodeValue('alphaHash', 0) > 0.5
-        material.map = resolveTextureFromPin('map')
-        material.alphaMap = resolveTextureFromPin('alphaMap')
-        material.aoMap = resolveTextureFromPin('aoMap')
-        material.envMap = resolveTextureFromPin('envMap')
-        const reflectivityValue = getNumberNodeValue(
-          'reflectivity',
-          getNumberNodeValue('envMapIntensity', 1),
-        )
-        material.reflectivity = reflectivityValue
-        const opacityValue = getNumberNodeValue('opacity', 1)
-        material.transparent = opacityValue < 1 || Boolean(material.alphaMap)
-      }
-      if (vertexPositionNode) {
-        const positionNode =
-          vertexPositionNode.kind === 'vec3' || vertexPositionNode.kind === 'color'
-            ? vertexPositionNode.node
-            : vec3(
-                vertexPositionNode.node,
-                vertexPositionNode.node,
-                vertexPositionNode.node,
-              )
-        material.positionNode = positionLocal.add(positionNode)
+    const soloChanged = soloSignatureRef.current !== soloSignature
+    const environmentTexture = environmentMap?.texture ?? null
+    const environmentChanged = environmentTextureRef.current !== environmentTexture
+    if (
+      signatureChanged ||
+      textureChanged ||
+      materialChanged ||
+      soloChanged ||
+      environmentChanged
+    ) {
+      if (soloNode) {
+        const result = emitter.resolve(soloNode.id, soloNode.outputs[0])
+        applyTslSoloMaterial(ir, material, emitter, result, soloRemap)
       } else {
-        material.positionNode = positionLocal
+        applyTslMaterial(ir, material, emitter, getTexture)
+        // A loaded environment stands in for an unconnected envMap pin.
+        if ('envMap' in material && !material.envMap) material.envMap = environmentTexture
       }
       material.needsUpdate = true
     }
     graphSignatureRef.current = graphSignature
     textureSignatureRef.current = textureSignature
-  }, [materialReady, graphSignature, textureSignature])
+    soloSignatureRef.current = soloSignature
+    environmentTextureRef.current = environmentTexture
+  }, [materialReady, graphSignature, textureSignature, soloSignature, environmentMap])
+
+  useEffect(() => {
+    const renderer = rendererRef.current
+    const scene = sceneRef.current
+    const lights = lightGroupRef.current
+    if (!materialReady || !renderer || !scene || !lights) return
+    applyPreviewEnvironment(renderer, scene, lights, previewEnvironment, environmentMap)
+  }, [materialReady, previewEnvironment, environmentMap])
+
+  useEffect(() => () => environmentMap?.dispose(), [environmentMap])
+
+  useEffect(() => {
+    nodePreviewBuildRef.current = () => {
+      const previewNodes = isFunctionEditing ? [] : nodes.filter(hasNodePreview)
+      const { ir, emitter } = buildGraph()
+      const geometry = ir.geometry?.type === 'primitive' ? ir.geometry : null
+      const preview = nodePreviewRef.current
+      if (preview) {
+        preview.setGeometry(geometry)
+        preview.setNodes(
+          new Map(
+            previewNodes.flatMap((node) => {
+              const colorNode = toPreviewColorNode(emitter.resolve(node.id, node.outputs[0]))
+              return colorNode ? [[node.id, colorNode] as const] : []
+            }),
+          ),
+        )
+        return
+      }
+      nodePreviewImagesRef.current = new Map(
+        previewNodes.flatMap((node) => {
+          try {
+            const image = evaluateGraphNode(
+              { nodes, connections, functions },
+              node.id,
+              node.outputs[0],
+              {
+                width: NODE_PREVIEW_SIZE,
+                height: NODE_PREVIEW_SIZE,
+                surface:
+                  geometry?.shape === 'sphere' || geometry?.shape === 'icosphere'
+                    ? 'sphere'
+                    : 'plane',
+                context: { getGltfMaterial },
+              },
+            )
+            return [[node.id, image] as const]
+          } catch {
+            return []
+          }
+        }),
+      )
+    }
+  })
+
+  useEffect(() => {
+    if (!showNodePreviews || !WebGPU.isAvailable()) return
+    let disposed = false
+    let preview: NodePreviewRenderer | null = null
+    createNodePreviewRenderer()
+      .then((renderer) => {
+        if (disposed) {
+          renderer.dispose()
+          return
+        }
+        preview = renderer
+        nodePreviewRef.current = renderer
+        setNodePreviewReady(true)
+      })
+      .catch(() => undefined)
+    return () => {
+      disposed = true
+      preview?.dispose()
+      nodePreviewRef.current = null
+      setNodePreviewReady(false)
+    }
+  }, [showNodePreviews])
+
+  // Rebuilding previews compiles one material per node, so bursts of edits are coalesced.
+  // Without WebGPU the CPU evaluator bakes number values in, hence the compute signature.
+  const nodePreviewSignature = nodePreviewReady ? graphSignature : graphComputeSignature
+  useEffect(() => {
+    if (!showNodePreviews || !showNodes || isFunctionEditing) return
+    const timer = window.setTimeout(() => nodePreviewBuildRef.current(), NODE_PREVIEW_INTERVAL)
+    return () => window.clearTimeout(timer)
+  }, [
+    showNodePreviews,
+    showNodes,
+    isFunctionEditing,
+    nodePreviewReady,
+    nodePreviewSignature,
+    textureSignature,
+    geometrySignature,
+  ])
+
+  useEffect(() => {
+    if (!showNodePreviews || !showNodes || isFunctionEditing) return
+    const timer = window.setInterval(() => {
+      const container = viewportRef.current
+      if (!container) return
+      const bounds = container.getBoundingClientRect()
+      const canvases = new Map<string, HTMLCanvasElement>()
+      container
+        .querySelectorAll<HTMLCanvasElement>('.node-card:not(.node-hidden) canvas.node-preview')
+        .forEach((canvas) => {
+          const rect = canvas.getBoundingClientRect()
+          const visible =
+            rect.right > bounds.left &&
+            rect.left < bounds.right &&
+            rect.bottom > bounds.top &&
+            rect.top < bounds.bottom
+          const id = canvas.dataset.previewNodeId
+          if (visible && id) canvases.set(id, canvas)
+        })
+      if (nodePreviewRef.current) {
+        nodePreviewRef.current.render(canvases)
+        return
+      }
+      canvases.forEach((canvas, id) => {
+        const image = nodePreviewImagesRef.current.get(id)
+        if (!image) return
+        canvas
+          .getContext('2d')
+          ?.putImageData(new ImageData(image.data, image.width, image.height), 0, 0)
+      })
+    }, NODE_PREVIEW_INTERVAL)
+    return () => window.clearInterval(timer)
+  }, [showNodePreviews, showNodes, isFunctionEditing])
 
   useEffect(() => {
     const scene = sceneRef.current
@@ -15494,434 +4292,186 @@ function App() {
       ? connectionMap.get(`${output.id}:geometry`)
       : null
     let nextGeometries: BufferGeometry[] = []
+    let scenePreview: GltfScenePreview | null = null
+    let animationClip: AnimationClip | null = null
     if (connection) {
       const source = nodeMap.get(connection.from.nodeId)
       if (source?.type === 'gltf') {
         const entry = gltfMapRef.current[source.id]
         if (!entry) return
-        const index = getMeshIndex(source, entry.geometries.length)
-        nextGeometries = [entry.geometries[index].clone()]
+        if (isGltfSceneNode(source)) {
+          const settings = getGltfSceneMaterials(source)
+          scenePreview = createGltfScenePreview(entry.scene, settings, material)
+          animationClip = getGltfAnimationClip(source, entry.animations)
+        } else {
+          const index = getMeshIndex(source, entry.geometries.length)
+          nextGeometries = [entry.geometries[index].clone()]
+        }
+      }
+      if (source?.type === 'meshFile') {
+        const entry = meshFileMapRef.current[source.id]
+        if (!entry) return
+        nextGeometries = [entry.geometry.clone()]
       }
       if (source?.type === 'geometryPrimitive') {
-        const value = typeof source.value === 'string' ? source.value : 'box'
-        switch (value) {
-          case 'sphere':
-            nextGeometries = [new SphereGeometry(0.75, 32, 16)]
-            break
-          case 'plane':
-            nextGeometries = [new PlaneGeometry(1.5, 1.5, 1, 1)]
-            break
-          case 'torus':
-            nextGeometries = [new TorusGeometry(0.6, 0.25, 24, 64)]
-            break
-          case 'cylinder':
-            nextGeometries = [new CylinderGeometry(0.5, 0.5, 1.2, 24)]
-            break
-          default:
-            nextGeometries = [new BoxGeometry(1, 1, 1)]
-        }
+        const value = (typeof source.value === 'string' ? source.value : '') || 'box'
+        const params = sanitizePrimitiveParams(value, source.geometryParams)
+        nextGeometries = [createPrimitiveGeometry(value, params)]
       }
     }
-    if (!nextGeometries.length) {
+    if (!nextGeometries.length && !scenePreview) {
       nextGeometries = [new BoxGeometry(1, 1, 1)]
     }
-    meshesRef.current.forEach((mesh) => scene.remove(mesh))
-    meshesRef.current = nextGeometries.map((geometry) => new Mesh(geometry, material))
-    meshesRef.current.forEach((mesh) => scene.add(mesh))
+    meshesRef.current.forEach((mesh) => {
+      scene.remove(mesh)
+      disposePreviewObject(mesh)
+    })
+    if (gltfSceneRootRef.current) scene.remove(gltfSceneRootRef.current)
+    gltfSceneRootRef.current = scenePreview?.root ?? null
+    if (scenePreview) {
+      scene.add(scenePreview.root)
+      meshesRef.current = scenePreview.graphMeshes
+    } else {
+      meshesRef.current = nextGeometries.map((geometry) =>
+        createPreviewObject(geometry, material, previewPrimitive),
+      )
+      meshesRef.current.forEach((mesh) => scene.add(mesh))
+    }
     geometriesRef.current.forEach((geometry) => geometry.dispose())
     geometriesRef.current = nextGeometries
-  }, [geometrySignature])
-
-  useEffect(() => {
-    const nodeMap = buildNodeMap(nodes)
-    Object.entries(nodeUniformsRef.current).forEach(([id, entry]) => {
-      const node = nodeMap.get(id)
-      if (!node) return
-      if (node.type === 'number' && entry.kind === 'number' && entry.mode === 'manual') {
-        entry.uniform.value = parseNumber(node.value)
-      }
-      if (node.type === 'color' && entry.kind === 'color' && typeof node.value === 'string') {
-        if (entry.uniform.value instanceof Color) {
-          entry.uniform.value.set(node.value)
-        }
-      }
+    const attributes = new Map<string, number>()
+    const sourceGeometries = scenePreview
+      ? scenePreview.graphMeshes.map((mesh) => mesh.geometry)
+      : nextGeometries
+    sourceGeometries.forEach((geometry) => {
+      Object.entries(geometry.attributes).forEach(([name, attribute]) => {
+        attributes.set(name, attribute.itemSize)
+      })
     })
-  }, [uniformInputSignature])
+    setGeometryAttributes([...attributes].map(([name, itemSize]) => ({ name, itemSize })))
+
+    const previousMixer = animationMixerRef.current
+    if (previousMixer) {
+      previousMixer.stopAllAction()
+      previousMixer.uncacheRoot(previousMixer.getRoot())
+    }
+    animationMixerRef.current = null
+    animationActionRef.current = null
+    if (scenePreview && animationClip) {
+      const mixer = new AnimationMixer(scenePreview.root)
+      const action = mixer.clipAction(animationClip)
+      action.play()
+      animationMixerRef.current = mixer
+      animationActionRef.current = action
+    }
+    setAnimationInfo(
+      animationClip
+        ? { name: animationClip.name || 'Untitled clip', duration: animationClip.duration }
+        : null,
+    )
+  }, [geometrySignature])
 
   useEffect(() => {
-    const nodeMap = buildNodeMap(editorNodes)
-    const connectionMap = buildConnectionMap(editorConnections)
-    const warn: Record<string, string> = {}
-
-    editorConnections.forEach((connection) => {
-      const target = nodeMap.get(connection.to.nodeId)
-      if (!target) return
-      const expected = inputTypes[target.type as keyof typeof inputTypes]?.[
-        connection.to.pin as
-          | 'a'
-          | 'b'
-          | 'cond'
-          | 'threshold'
-          | 't'
-          | 'value'
-          | 'edge'
-          | 'edge0'
-          | 'edge1'
-          | 'x'
-          | 'coord'
-          | 'texcoord'
-          | 'amplitude'
-          | 'pivot'
-          | 'amount'
-          | 'inLow'
-          | 'inHigh'
-          | 'outLow'
-          | 'outHigh'
-          | 'low'
-          | 'high'
-          | 'octaves'
-          | 'lacunarity'
-          | 'diminish'
-          | 'jitter'
-          | 'strength'
-          | 'center'
-          | 'size'
-          | 'steps'
-          | 'uv'
-          | 'scale'
-          | 'rotation'
-          | 'min'
-          | 'max'
-          | 'y'
-          | 'z'
-          | 'w'
-          | 'c0'
-          | 'c1'
-          | 'c2'
-          | 'c3'
-          | 'base'
-          | 'exp'
-          | 'incident'
-          | 'speed'
-          | 'time'
-          | 'normal'
-          | 'eta'
-          | 'n'
-          | 'i'
-          | 'nref'
-          | 'opacity'
-          | 'alphaTest'
-          | 'alphaHash'
-          | 'map'
-          | 'alphaMap'
-          | 'aoMap'
-          | 'envMap'
-          | 'envMapIntensity'
-          | 'reflectivity'
-          | 'baseColor'
-          | 'baseColorTexture'
-          | 'roughnessMap'
-          | 'metalnessMap'
-          | 'emissive'
-          | 'emissiveMap'
-          | 'emissiveIntensity'
-          | 'normalMap'
-          | 'normalScale'
-          | 'aoMapIntensity'
-          | 'roughness'
-          | 'metalness'
-          | 'position'
-          | 'geometry'
-      ]
-      if (!expected) return
-      const actual = inferType(
-        connection.from.nodeId,
-        connection.from.pin,
-        nodeMap,
-        connectionMap,
-        new Set(),
-      )
-      if (target.type === 'add' || target.type === 'multiply') {
-        const otherPin = connection.to.pin === 'a' ? 'b' : 'a'
-        const other = connectionMap.get(`${target.id}:${otherPin}`)
-        if (other) {
-          const otherType = inferType(
-            other.from.nodeId,
-            other.from.pin,
-            nodeMap,
-            connectionMap,
-            new Set(),
-          )
-          const combined = combineTypes(actual, otherType)
-          if (combined === 'unknown') {
-            warn[`${connection.to.nodeId}:${connection.to.pin}`] = 'Type mismatch'
-          }
-        }
-        return
-      }
-      if (target.type === 'min' || target.type === 'max' || target.type === 'mod') {
-        const otherPin = connection.to.pin === 'a' ? 'b' : 'a'
-        const other = connectionMap.get(`${target.id}:${otherPin}`)
-        if (other) {
-          const otherType = inferType(
-            other.from.nodeId,
-            other.from.pin,
-            nodeMap,
-            connectionMap,
-            new Set(),
-          )
-          const combined = combineTypes(actual, otherType)
-          if (combined === 'unknown') {
-            warn[`${connection.to.nodeId}:${connection.to.pin}`] = 'Type mismatch'
-          }
-        }
-        return
-      }
-      if (target.type === 'distance') {
-        const otherPin = connection.to.pin === 'a' ? 'b' : 'a'
-        const other = connectionMap.get(`${target.id}:${otherPin}`)
-        if (other) {
-          const otherType = inferType(
-            other.from.nodeId,
-            other.from.pin,
-            nodeMap,
-            connectionMap,
-            new Set(),
-          )
-          if (resolveVectorOutputKind([actual, otherType]) === 'unknown') {
-            warn[`${connection.to.nodeId}:${connection.to.pin}`] = 'Type mismatch'
-          }
-        }
-        return
-      }
-      if (
-        target.type === 'lessThan' ||
-        target.type === 'lessThanEqual' ||
-        target.type === 'greaterThan' ||
-        target.type === 'greaterThanEqual' ||
-        target.type === 'equal' ||
-        target.type === 'notEqual' ||
-        target.type === 'and' ||
-        target.type === 'or'
-      ) {
-        const otherPin = connection.to.pin === 'a' ? 'b' : 'a'
-        const other = connectionMap.get(`${target.id}:${otherPin}`)
-        if (other) {
-          const otherType = inferType(
-            other.from.nodeId,
-            other.from.pin,
-            nodeMap,
-            connectionMap,
-            new Set(),
-          )
-          if (resolveVectorOutputKind([actual, otherType]) === 'unknown') {
-            warn[`${connection.to.nodeId}:${connection.to.pin}`] = 'Type mismatch'
-          }
-        }
-        return
-      }
-      if (target.type === 'dot') {
-        const otherPin = connection.to.pin === 'a' ? 'b' : 'a'
-        const other = connectionMap.get(`${target.id}:${otherPin}`)
-        if (other) {
-          const otherType = inferType(
-            other.from.nodeId,
-            other.from.pin,
-            nodeMap,
-            connectionMap,
-            new Set(),
-          )
-          const vecA = getVectorKind(actual)
-          const vecB = getVectorKind(otherType)
-          if (!vecA || !vecB || vecA !== vecB) {
-            warn[`${connection.to.nodeId}:${connection.to.pin}`] = 'Type mismatch'
-          }
-        }
-        return
-      }
-      if (target.type === 'atan2') {
-        const resolvePinType = (pin: string) => {
-          const linked = connectionMap.get(`${target.id}:${pin}`)
-          if (!linked) return 'number'
-          return inferType(
-            linked.from.nodeId,
-            linked.from.pin,
-            nodeMap,
-            connectionMap,
-            new Set(),
-          )
-        }
-        const yType = connection.to.pin === 'y' ? actual : resolvePinType('y')
-        const xType = connection.to.pin === 'x' ? actual : resolvePinType('x')
-        if (resolveVectorOutputKind([yType, xType]) === 'unknown') {
-          warn[`${connection.to.nodeId}:${connection.to.pin}`] = 'Type mismatch'
-        }
-        return
-      }
-      if (target.type === 'step') {
-        const resolvePinType = (pin: string) => {
-          const linked = connectionMap.get(`${target.id}:${pin}`)
-          if (!linked) return 'number'
-          return inferType(
-            linked.from.nodeId,
-            linked.from.pin,
-            nodeMap,
-            connectionMap,
-            new Set(),
-          )
-        }
-        const edgeType = connection.to.pin === 'edge' ? actual : resolvePinType('edge')
-        const xType = connection.to.pin === 'x' ? actual : resolvePinType('x')
-        if (resolveVectorOutputKind([edgeType, xType]) === 'unknown') {
-          warn[`${connection.to.nodeId}:${connection.to.pin}`] = 'Type mismatch'
-        }
-        return
-      }
-      if (target.type === 'stepElement') {
-        const resolvePinType = (pin: string) => {
-          const linked = connectionMap.get(`${target.id}:${pin}`)
-          if (!linked) return 'number'
-          return inferType(
-            linked.from.nodeId,
-            linked.from.pin,
-            nodeMap,
-            connectionMap,
-            new Set(),
-          )
-        }
-        const edgeType = connection.to.pin === 'edge' ? actual : resolvePinType('edge')
-        const xType = connection.to.pin === 'x' ? actual : resolvePinType('x')
-        if (resolveVectorOutputKind([edgeType, xType]) === 'unknown') {
-          warn[`${connection.to.nodeId}:${connection.to.pin}`] = 'Type mismatch'
-        }
-        return
-      }
-      if (target.type === 'mix' && (connection.to.pin === 'a' || connection.to.pin === 'b')) {
-        const otherPin = connection.to.pin === 'a' ? 'b' : 'a'
-        const other = connectionMap.get(`${target.id}:${otherPin}`)
-        if (other) {
-          const otherType = inferType(
-            other.from.nodeId,
-            other.from.pin,
-            nodeMap,
-            connectionMap,
-            new Set(),
-          )
-          const combined = combineTypes(actual, otherType)
-          if (combined === 'unknown') {
-            warn[`${connection.to.nodeId}:${connection.to.pin}`] = 'Type mismatch'
-          }
-        }
-        return
-      }
-      if (target.type === 'ifElse') {
-        if (connection.to.pin === 'a' || connection.to.pin === 'b') {
-          const otherPin = connection.to.pin === 'a' ? 'b' : 'a'
-          const other = connectionMap.get(`${target.id}:${otherPin}`)
-          if (other) {
-            const otherType = inferType(
-              other.from.nodeId,
-              other.from.pin,
-              nodeMap,
-              connectionMap,
-              new Set(),
-            )
-            const combined = combineTypes(actual, otherType)
-            if (combined === 'unknown') {
-              warn[`${connection.to.nodeId}:${connection.to.pin}`] = 'Type mismatch'
-            }
-          }
-          return
-        }
-        if (connection.to.pin === 'cond') {
-          const inputA = connectionMap.get(`${target.id}:a`)
-          const inputB = connectionMap.get(`${target.id}:b`)
-          const typeA = inputA
-            ? inferType(inputA.from.nodeId, inputA.from.pin, nodeMap, connectionMap, new Set())
-            : 'number'
-          const typeB = inputB
-            ? inferType(inputB.from.nodeId, inputB.from.pin, nodeMap, connectionMap, new Set())
-            : 'number'
-          const outputKind = combineTypes(typeA, typeB)
-          if (outputKind === 'number' && actual !== 'number' && !isVectorKind(actual)) {
-            warn[`${connection.to.nodeId}:${connection.to.pin}`] = 'number expected'
-          } else if (
-            outputKind !== 'number' &&
-            isVectorKind(outputKind) &&
-            resolveVectorOutputKind([actual, outputKind]) === 'unknown' &&
-            actual !== 'number'
-          ) {
-            warn[`${connection.to.nodeId}:${connection.to.pin}`] = 'Type mismatch'
-          }
-          return
-        }
-      }
-      if (target.type === 'smoothstep') {
-        const resolvePinType = (pin: string) => {
-          const linked = connectionMap.get(`${target.id}:${pin}`)
-          if (!linked) return 'number'
-          return inferType(
-            linked.from.nodeId,
-            linked.from.pin,
-            nodeMap,
-            connectionMap,
-            new Set(),
-          )
-        }
-        const edge0 = connection.to.pin === 'edge0' ? actual : resolvePinType('edge0')
-        const edge1 = connection.to.pin === 'edge1' ? actual : resolvePinType('edge1')
-        const xType = connection.to.pin === 'x' ? actual : resolvePinType('x')
-        if (resolveVectorOutputKind([edge0, edge1, xType]) === 'unknown') {
-          warn[`${connection.to.nodeId}:${connection.to.pin}`] = 'Type mismatch'
-        }
-        return
-      }
-      if (target.type === 'smoothstepElement') {
-        const resolvePinType = (pin: string) => {
-          const linked = connectionMap.get(`${target.id}:${pin}`)
-          if (!linked) return 'number'
-          return inferType(
-            linked.from.nodeId,
-            linked.from.pin,
-            nodeMap,
-            connectionMap,
-            new Set(),
-          )
-        }
-        const lowType = connection.to.pin === 'low' ? actual : resolvePinType('low')
-        const highType = connection.to.pin === 'high' ? actual : resolvePinType('high')
-        const xType = connection.to.pin === 'x' ? actual : resolvePinType('x')
-        if (resolveVectorOutputKind([lowType, highType, xType]) === 'unknown') {
-          warn[`${connection.to.nodeId}:${connection.to.pin}`] = 'Type mismatch'
-        }
-        return
+    if (!isShaderOutputKind(tslOutputKind)) return
+    const renderer = rendererRef.current
+    const scene = sceneRef.current
+    const camera = cameraRef.current
+    const mesh = meshesRef.current[0]
+    if (!renderer || !scene || !camera || !mesh) {
+      setShaderOutputText('// Renderer is not ready')
+      return
+    }
+    let cancelled = false
+    getGeneratedShader(renderer, scene, camera, mesh, tslOutputKind).then(
+      (code) => {
+        if (!cancelled) setShaderOutputText(code)
+      },
+      (error) => {
+        const message = error instanceof Error ? error.message : 'Unknown shader error'
+        if (!cancelled) setShaderOutputText(`// Shader generation failed: ${message}`)
+      },
+    )
+    return () => {
+      cancelled = true
+    }
+  }, [
+    tslOutputKind,
+    materialReady,
+    ktx2Ready,
+    graphSignature,
+    textureSignature,
+    geometrySignature,
+    soloSignature,
+  ])
+
+  useEffect(() => {
+    graphProfileBuildRef.current = () =>
+      profileGraph({ nodes, connections, functions }, { getGltfMaterial })
+  })
+
+  useEffect(() => {
+    if (!showProfiler) return
+    setGraphProfile(graphProfileBuildRef.current())
+  }, [showProfiler, graphComputeSignature])
+
+  // getShaderAsync compiles the current material first, so its duration is the compile cost of
+  // the latest graph change.
+  useEffect(() => {
+    if (!showProfiler) return
+    const renderer = rendererRef.current
+    const scene = sceneRef.current
+    const camera = cameraRef.current
+    const mesh = meshesRef.current[0]
+    if (!renderer || !scene || !camera || !mesh || !ktx2Ready) return
+    let cancelled = false
+    const start = performance.now()
+    getShaderStats(renderer, scene, camera, mesh).then(
+      (stats) => {
+        if (cancelled) return
+        const elapsed = performance.now() - start
+        setShaderStats(stats)
+        setCompileTimes((prev) => [...prev, elapsed].slice(-5))
+      },
+      () => {
+        if (!cancelled) setShaderStats(null)
+      },
+    )
+    return () => {
+      cancelled = true
+    }
+  }, [
+    showProfiler,
+    materialReady,
+    ktx2Ready,
+    graphSignature,
+    textureSignature,
+    geometrySignature,
+    soloSignature,
+  ])
+
+  useEffect(() => {
+    const nodeMap = buildNodeMap(nodes)
+    Object.entries(nodeUniformsRef.current).forEach(([id, entry]) => {
+      const node = nodeMap.get(id)
+      if (!node) return
+      if (node.type === 'number' && entry.kind === 'number' && entry.mode === 'manual') {
+        entry.uniform.value = parseNumber(node.value)
       }
-      if (target.type === 'pow') {
-        const resolvePinType = (pin: string) => {
-          const linked = connectionMap.get(`${target.id}:${pin}`)
-          if (!linked) return 'number'
-          return inferType(
-            linked.from.nodeId,
-            linked.from.pin,
-            nodeMap,
-            connectionMap,
-            new Set(),
-          )
-        }
-        const baseType = connection.to.pin === 'base' ? actual : resolvePinType('base')
-        const expType = connection.to.pin === 'exp' ? actual : resolvePinType('exp')
-        if (resolveVectorOutputKind([baseType, expType]) === 'unknown') {
-          warn[`${connection.to.nodeId}:${connection.to.pin}`] = 'Type mismatch'
+      if (node.type === 'color' && entry.kind === 'color' && typeof node.value === 'string') {
+        if (entry.uniform.value instanceof Color) {
+          entry.uniform.value.set(node.value)
         }
-        return
-      }
-      if (!isAssignableType(actual, expected)) {
-        warn[`${connection.to.nodeId}:${connection.to.pin}`] = `${expected} expected`
       }
     })
+  }, [uniformInputSignature])
 
+  useEffect(() => {
+    const warn: Record<string, string> = {}
+    getPinTypeIssues(editorNodes, editorConnections, inferType).forEach((issue) => {
+      warn[`${issue.nodeId}:${issue.pin}`] = issue.message
+    })
     setTypeWarnings(warn)
-  }, [editorGraphSignature, inputTypes])
+  }, [editorGraphSignature, inferType])
 
   useEffect(() => {
     const loader = new TextureLoader()
@@ -16038,7 +4588,15 @@ function App() {
               } catch {
                 textures = (gltf as { textures?: Texture[] }).textures ?? []
               }
-              nextMap[node.id] = { src, geometries, materials, meshNames, textures }
+              nextMap[node.id] = {
+                src,
+                geometries,
+                materials,
+                meshNames,
+                textures,
+                scene: gltf.scene,
+                animations: gltf.animations,
+              }
               gltfMapRef.current = { ...nextMap }
               setGltfVersion((prev) => prev + 1)
             })()
@@ -16068,6 +4626,49 @@ function App() {
     }
   }, [gltfSourceSignature, ktx2Ready])
 
+  useEffect(() => {
+    const nextMap: Record<string, MeshFileEntry> = { ...meshFileMapRef.current }
+    const activeIds = new Set<string>()
+    let changed = false
+    const sources = JSON.parse(meshFileSourceSignature) as Array<{
+      id: string
+      src: string
+      format: MeshFileFormat | null
+    }>
+    sources.forEach(({ id, src, format }) => {
+      if (!src || !format) return
+      activeIds.add(id)
+      const existing = nextMap[id]
+      if (existing?.src === src) return
+      if (existing) {
+        existing.geometry.dispose()
+        delete nextMap[id]
+        changed = true
+      }
+      loadMeshFile(src, format).then(
+        (geometry) => {
+          meshFileMapRef.current = { ...meshFileMapRef.current, [id]: { src, geometry } }
+          setMeshFileVersion((prev) => prev + 1)
+        },
+        (error) => {
+          const message = error instanceof Error ? error.message : 'Unknown mesh load error'
+          setToast(`Mesh load failed: ${message}`)
+        },
+      )
+    })
+    Object.keys(nextMap).forEach((id) => {
+      if (!activeIds.has(id)) {
+        nextMap[id].geometry.dispose()
+        delete nextMap[id]
+        changed = true
+      }
+    })
+    meshFileMapRef.current = nextMap
+    if (changed) {
+      setMeshFileVersion((prev) => prev + 1)
+    }
+  }, [meshFileSourceSignature])
+
   useEffect(() => {
     const handleResize = () => {
       const container = viewportRef.current
@@ -16308,77 +4909,7 @@ function App() {
             const nodeMap = buildNodeMap(currentNodes)
             const connectionMap = buildConnectionMap(currentConnections)
             const target = nodeMap.get(nodeId)
-            const expected =
-              target &&
-              inputTypes[target.type as keyof typeof inputTypes]?.[
-                pin as
-                  | 'a'
-                  | 'b'
-                  | 'cond'
-                  | 'threshold'
-                  | 't'
-                  | 'value'
-                  | 'edge'
-                  | 'edge0'
-                  | 'edge1'
-                  | 'x'
-                  | 'coord'
-                  | 'texcoord'
-                  | 'amplitude'
-                  | 'pivot'
-                  | 'octaves'
-                  | 'lacunarity'
-                  | 'diminish'
-                  | 'jitter'
-                  | 'strength'
-                  | 'center'
-                  | 'size'
-                  | 'uv'
-                  | 'scale'
-                  | 'rotation'
-                  | 'min'
-                  | 'max'
-                  | 'y'
-                  | 'z'
-                  | 'w'
-                  | 'c0'
-                  | 'c1'
-                  | 'c2'
-                  | 'c3'
-                  | 'base'
-                  | 'exp'
-                  | 'incident'
-                  | 'speed'
-                  | 'time'
-                  | 'normal'
-                  | 'eta'
-                  | 'n'
-                  | 'i'
-                  | 'nref'
-                  | 'opacity'
-                  | 'alphaTest'
-                  | 'alphaHash'
-                  | 'map'
-                  | 'alphaMap'
-                  | 'aoMap'
-                  | 'envMap'
-                  | 'envMapIntensity'
-                  | 'reflectivity'
-                  | 'baseColor'
-                  | 'baseColorTexture'
-                  | 'roughnessMap'
-                  | 'metalnessMap'
-                  | 'emissive'
-                  | 'emissiveMap'
-                  | 'emissiveIntensity'
-                  | 'normalMap'
-                  | 'normalScale'
-                  | 'aoMapIntensity'
-                  | 'roughness'
-                  | 'metalness'
-                  | 'position'
-                  | 'geometry'
-              ]
+            const expected = target && INPUT_TYPES[target.type]?.[pin]
             if (expected) {
               const actual = inferType(
                 draft.from.nodeId,
@@ -16761,6 +5292,7 @@ function App() {
       if (!container.contains(event.target as Node)) return
       const target = event.target as HTMLElement | null
       if (target?.closest('.node-card')) return
+      if (target?.closest('.problems-panel')) return
       if (target?.closest('.node-group-header')) return
       if (target?.closest('.node-group-action')) return
       if (event.button !== 0) return
@@ -16777,6 +5309,7 @@ function App() {
     const handleWheel = (event: WheelEvent) => {
       if (overlayOpenRef.current) return
       if (!container.contains(event.target as Node)) return
+      if ((event.target as HTMLElement | null)?.closest('.problems-panel')) return
       event.preventDefault()
       const rect = container.getBoundingClientRect()
       const viewState = viewRef.current
@@ -16837,25 +5370,19 @@ function App() {
     let disposed = false
 
     const scene = new Scene()
-    scene.background = new Color(0x0e1013)
+    const lights = new Group()
+    lightGroupRef.current = lights
+    scene.add(lights)
 
     const camera = new PerspectiveCamera(45, 1, 0.1, 100)
+    cameraRef.current = camera
     camera.position.set(3.2, 2.6, 4)
     camera.lookAt(0, 0, 0)
 
     const geometry = new BoxGeometry(1, 1, 1)
-    let material:
-      | MeshStandardNodeMaterial
-      | MeshPhysicalNodeMaterial
-      | MeshBasicNodeMaterial
-      | null = null
+    let material: NodeMaterial | null = null
     let renderer: WebGPURenderer | null = null
 
-    scene.add(new AmbientLight(0xffffff, 0.6))
-    const keyLight = new DirectionalLight(0xffffff, 1.2)
-    keyLight.position.set(4, 6, 2)
-    scene.add(keyLight)
-
     const resize = () => {
       const width = container.clientWidth
       const height = container.clientHeight
@@ -16883,8 +5410,6 @@ function App() {
       renderer = new WebGPURenderer({ antialias: true })
       renderer.setPixelRatio(window.devicePixelRatio)
       renderer.outputColorSpace = SRGBColorSpace
-      renderer.toneMapping = NoToneMapping
-      renderer.toneMappingExposure = 1
       rendererRef.current = renderer
       container.appendChild(renderer.domElement)
 
@@ -16926,10 +5451,21 @@ function App() {
 
     const startTime = performance.now()
     let lastTick = startTime
+    let lastFrame = startTime
     let frames = 0
     let firstFrame = true
     renderer.setAnimationLoop(() => {
-      timeUniformRef.current.value = (performance.now() - startTime) / 1000
+      const frameTime = performance.now()
+      timeUniformRef.current.value = (frameTime - startTime) / 1000
+      const mixer = animationMixerRef.current
+      if (mixer && animationPlayingRef.current) {
+        mixer.update((frameTime - lastFrame) / 1000)
+        const action = animationActionRef.current
+        if (action && animationScrubRef.current) {
+          animationScrubRef.current.value = String(action.time)
+        }
+      }
+      lastFrame = frameTime
       renderer?.render(scene, camera)
       if (firstFrame) {
         if (!disposed) {
@@ -16960,8 +5496,12 @@ function App() {
       ktx2LoaderRef.current?.dispose()
       ktx2LoaderRef.current = null
       rendererRef.current = null
+      lightGroupRef.current = null
       setKtx2Ready(false)
-      meshesRef.current.forEach((mesh) => scene.remove(mesh))
+      meshesRef.current.forEach((mesh) => {
+        scene.remove(mesh)
+        disposePreviewObject(mesh)
+      })
       meshesRef.current = []
       geometriesRef.current.forEach((geometry) => geometry.dispose())
       geometriesRef.current = []
@@ -17000,9 +5540,53 @@ function App() {
               <button
                 className="palette-button"
                 type="button"
-                onClick={() => setActiveFunctionId(null)}
+                onClick={() => setFunctionPath((prev) => prev.slice(0, -1))}
+              >
+                {functionPath.length > 1 ? 'Back to Parent' : 'Back to Graph'}
+              </button>
+            </div>
+            {functionPath.length > 1 ? (
+              <div className="function-breadcrumb">
+                <button type="button" onClick={() => setActiveFunctionId(null)}>
+                  Graph
+                </button>
+                {functionPath.map((functionId, index) => (
+                  <button
+                    key={`${functionId}-${index}`}
+                    type="button"
+                    disabled={index === functionPath.length - 1}
+                    onClick={() => setFunctionPath((prev) => prev.slice(0, index + 1))}
+                  >
+                    {functions[functionId]?.name ?? functionId}
+                  </button>
+                ))}
+              </div>
+            ) : null}
+            {activeFunction ? (
+              <div className="function-library-status">
+                {activeFunction.library
+                  ? `Linked to library v${activeFunction.library.version}${
+                      functionLibrary[activeFunction.library.id] ? '' : ' (deleted)'
+                    }`
+                  : 'Local function'}
+              </div>
+            ) : null}
+            <div className="button-row slot-actions">
+              <button
+                className="palette-button compact"
+                type="button"
+                disabled={!activeFunction}
+                onClick={() => activeFunctionId && void publishFunction(activeFunctionId)}
+              >
+                {activeFunction?.library ? 'Publish Update' : 'Publish to Library'}
+              </button>
+              <button
+                className="palette-button compact"
+                type="button"
+                disabled={!activeFunction?.library}
+                onClick={() => activeFunctionId && detachFunction(activeFunctionId)}
               >
-                Back to Graph
+                Detach Copy
               </button>
             </div>
             <div className="function-pin-editor">
@@ -17187,8 +5771,366 @@ function App() {
             >
               {showNodes ? 'Hide Nodes' : 'Show Nodes'}
             </button>
+            <button
+              className="palette-button"
+              type="button"
+              onClick={() => {
+                const next = !showNodePreviews
+                localStorage.setItem(nodePreviewStorageKey, next ? 'on' : 'off')
+                setShowNodePreviews(next)
+              }}
+            >
+              {showNodePreviews ? 'Hide Previews' : 'Show Previews'}
+            </button>
+            <button
+              className="palette-button"
+              type="button"
+              onClick={() => setShowProblems((prev) => !prev)}
+            >
+              {showProblems ? 'Hide Problems' : `Show Problems (${graphLintProblems.length})`}
+            </button>
+            <button
+              className="palette-button"
+              type="button"
+              onClick={() => setShowProfiler((prev) => !prev)}
+            >
+              {showProfiler ? 'Hide Profiler' : 'Show Profiler'}
+            </button>
+            <button
+              className="palette-button"
+              type="button"
+              onClick={() => setShowPreviewSettings((prev) => !prev)}
+            >
+              {showPreviewSettings ? 'Hide Environment' : 'Show Environment'}
+            </button>
           </div>
         </section>
+        {showProfiler && graphProfile ? (
+          <section className="panel">
+            <h2>Profiler</h2>
+            <dl className="profiler-stats">
+              <dt>Nodes (expanded)</dt>
+              <dd>{graphProfile.nodeCount}</dd>
+              <dt>Shader values</dt>
+              <dd>{graphProfile.valueCount}</dd>
+              <dt>Texture samples</dt>
+              <dd>{graphProfile.textureSamples}</dd>
+              <dt>Uniforms</dt>
+              <dd>{graphProfile.uniformCount}</dd>
+              <dt>Compile time</dt>
+              <dd>
+                {compileTimes.length
+                  ? compileTimes.map((time) => `${time.toFixed(0)} ms`).join(' · ')
+                  : 'n/a'}
+              </dd>
+              <dt>{shaderStats?.backend ?? 'Shader'} vertex</dt>
+              <dd>
+                {shaderStats
+                  ? `${shaderStats.vertexLines} lines, ~${shaderStats.vertexStatements} instr.`
+                  : 'n/a'}
+              </dd>
+              <dt>{shaderStats?.backend ?? 'Shader'} fragment</dt>
+              <dd>
+                {shaderStats
+                  ? `${shaderStats.fragmentLines} lines, ~${shaderStats.fragmentStatements} instr.`
+                  : 'n/a'}
+              </dd>
+            </dl>
+            <div className="profiler-costs">
+              {graphProfile.nodeCosts.slice(0, 12).map((entry) => {
+                const share = entry.cost / graphProfile.totalCost
+                return (
+                  <button
+                    key={entry.nodeId}
+                    className="profiler-cost"
+                    type="button"
+                    disabled={isFunctionEditing}
+                    onClick={() => setSelectedNodeIds([entry.nodeId])}
+                  >
+                    <span className="profiler-cost-label">
+                      {nodes.find((node) => node.id === entry.nodeId)?.label ?? entry.nodeId}
+                    </span>
+                    <span className="profiler-cost-value">{Math.round(share * 100)}%</span>
+                    <span className="profiler-cost-bar" style={{ width: `${share * 100}%` }} />
+                  </button>
+                )
+              })}
+            </div>
+          </section>
+        ) : null}
+        {animationInfo ? (
+          <section className="panel">
+            <h2>Animation</h2>
+            <div className="animation-controls">
+              <span className="animation-clip" title={animationInfo.name}>
+                {animationInfo.name}
+              </span>
+              <button
+                className="palette-button"
+                type="button"
+                onClick={() => {
+                  animationPlayingRef.current = !animationPlaying
+                  setAnimationPlaying(!animationPlaying)
+                }}
+              >
+                {animationPlaying ? 'Pause' : 'Play'}
+              </button>
+              <input
+                key={`${animationInfo.name}:${animationInfo.duration}`}
+                ref={animationScrubRef}
+                className="animation-scrub"
+                type="range"
+                min={0}
+                max={animationInfo.duration}
+                step={0.01}
+                defaultValue={0}
+                onChange={(event) => {
+                  const mixer = animationMixerRef.current
+                  const action = animationActionRef.current
+                  if (!mixer || !action) return
+                  // Scrubbing pauses playback so the chosen frame stays on screen.
+                  animationPlayingRef.current = false
+                  setAnimationPlaying(false)
+                  action.time = Number(event.target.value)
+                  mixer.update(0)
+                }}
+              />
+            </div>
+          </section>
+        ) : null}
+        {showPreviewSettings ? (
+          <section className="panel">
+            <h2>Preview Environment</h2>
+            <div className="preview-settings">
+              <label className="export-format">
+                <span>Lights</span>
+                <select
+                  className="palette-select"
+                  value={previewEnvironment.rig}
+                  onChange={(event) => {
+                    const rig = event.target.value as LightRig
+                    // Switching to custom starts from the rig that was showing.
+                    setPreviewEnvironment((prev) => ({
+                      ...prev,
+                      rig,
+                      lights:
+                        rig === 'custom' && prev.rig !== 'custom'
+                          ? getPreviewLights(prev)
+                          : prev.lights,
+                    }))
+                  }}
+                >
+                  {(Object.keys(LIGHT_RIG_LABELS) as LightRig[]).map((rig) => (
+                    <option key={rig} value={rig}>
+                      {LIGHT_RIG_LABELS[rig]}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              {previewEnvironment.rig === 'custom' ? (
+                <div className="preview-lights">
+                  {previewEnvironment.lights.map((light, index) => (
+                    <div key={index} className="preview-light">
+                      <select
+                        className="palette-select"
+                        value={light.type}
+                        onChange={(event) => {
+                          const type = event.target.value as PreviewLightType
+                          updatePreviewLight(index, {
+                            ...createPreviewLight(type),
+                            name: light.name,
+                            color: light.color,
+                            intensity: light.intensity,
+                          })
+                        }}
+                      >
+                        {(Object.keys(LIGHT_CLASSES) as PreviewLightType[]).map((type) => (
+                          <option key={type} value={type}>
+                            {LIGHT_CLASSES[type]}
+                          </option>
+                        ))}
+                      </select>
+                      <input
+                        className="template-input"
+                        type="color"
+                        title="Color"
+                        value={light.color}
+                        onChange={(event) =>
+                          updatePreviewLight(index, { color: event.target.value })
+                        }
+                      />
+                      {light.groundColor ? (
+                        <input
+                          className="template-input"
+                          type="color"
+                          title="Ground color"
+                          value={light.groundColor}
+                          onChange={(event) =>
+                            updatePreviewLight(index, { groundColor: event.target.value })
+                          }
+                        />
+                      ) : null}
+                      <input
+                        className="template-input"
+                        type="number"
+                        title="Intensity"
+                        min="0"
+                        step="0.1"
+                        value={light.intensity}
+                        onChange={(event) =>
+                          updatePreviewLight(index, { intensity: parseNumber(event.target.value) })
+                        }
+                      />
+                      {light.position?.map((value, axis) => (
+                        <input
+                          key={axis}
+                          className="template-input"
+                          type="number"
+                          title={`Position ${'xyz'[axis]}`}
+                          step="0.5"
+                          value={value}
+                          onChange={(event) => {
+                            const position = [...(light.position ?? [0, 0, 0])] as [
+                              number,
+                              number,
+                              number,
+                            ]
+                            position[axis] = parseNumber(event.target.value)
+                            updatePreviewLight(index, { position })
+                          }}
+                        />
+                      ))}
+                      <button
+                        className="function-pin-button danger"
+                        type="button"
+                        onClick={() =>
+                          updatePreviewEnvironment({
+                            lights: previewEnvironment.lights.filter(
+                              (_, lightIndex) => lightIndex !== index,
+                            ),
+                          })
+                        }
+                      >
+                        Remove
+                      </button>
+                    </div>
+                  ))}
+                  <button
+                    className="palette-button compact"
+                    type="button"
+                    onClick={() =>
+                      updatePreviewEnvironment({
+                        lights: [...previewEnvironment.lights, createPreviewLight('directional')],
+                      })
+                    }
+                  >
+                    Add Light
+                  </button>
+                </div>
+              ) : null}
+              <label className="export-format">
+                <span>Background</span>
+                <select
+                  className="palette-select"
+                  value={previewEnvironment.background}
+                  onChange={(event) =>
+                    updatePreviewEnvironment({
+                      background: event.target.value as PreviewBackground,
+                    })
+                  }
+                >
+                  <option value="color">Color</option>
+                  <option value="gradient">Gradient</option>
+                  <option value="environment">Environment</option>
+                </select>
+              </label>
+              <label className="export-format">
+                <span>{previewEnvironment.background === 'gradient' ? 'Top' : 'Color'}</span>
+                <input
+                  className="template-input"
+                  type="color"
+                  value={previewEnvironment.backgroundColor}
+                  onChange={(event) =>
+                    updatePreviewEnvironment({ backgroundColor: event.target.value })
+                  }
+                />
+              </label>
+              {previewEnvironment.background === 'gradient' ? (
+                <label className="export-format">
+                  <span>Bottom</span>
+                  <input
+                    className="template-input"
+                    type="color"
+                    value={previewEnvironment.gradientColor}
+                    onChange={(event) =>
+                      updatePreviewEnvironment({ gradientColor: event.target.value })
+                    }
+                  />
+                </label>
+              ) : null}
+              <label className="export-format">
+                <span>Tone mapping</span>
+                <select
+                  className="palette-select"
+                  value={previewEnvironment.toneMapping}
+                  onChange={(event) =>
+                    updatePreviewEnvironment({
+                      toneMapping: event.target.value as PreviewToneMapping,
+                    })
+                  }
+                >
+                  {(Object.keys(TONE_MAPPING_LABELS) as PreviewToneMapping[]).map((key) => (
+                    <option key={key} value={key}>
+                      {TONE_MAPPING_LABELS[key]}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="export-format">
+                <span>Exposure</span>
+                <input
+                  className="template-input"
+                  type="number"
+                  min="0"
+                  step="0.1"
+                  value={previewEnvironment.exposure}
+                  onChange={(event) =>
+                    updatePreviewEnvironment({
+                      exposure: Math.max(0, parseNumber(event.target.value)),
+                    })
+                  }
+                />
+              </label>
+              <div className="button-row slot-actions">
+                <label className="palette-button compact file-button">
+                  Load HDR/EXR
+                  <input
+                    className="file-input"
+                    type="file"
+                    accept=".hdr,.exr"
+                    onChange={(event) => {
+                      const file = event.target.files?.[0]
+                      event.target.value = ''
+                      if (!file) return
+                      void loadEnvironmentFile(file)
+                    }}
+                  />
+                </label>
+                <button
+                  className="palette-button compact"
+                  type="button"
+                  disabled={!environmentMap}
+                  onClick={() => setEnvironmentMap(null)}
+                >
+                  Clear Environment
+                </button>
+              </div>
+              {environmentMap ? (
+                <div className="preview-environment-name">{environmentMap.name}</div>
+              ) : null}
+            </div>
+          </section>
+        ) : null}
         <section className="panel">
           <h2>History</h2>
           <div className="button-row">
@@ -17224,6 +6166,99 @@ function App() {
             </button>
           </div>
         </section>
+        <section className="panel">
+          <h2>Function Library</h2>
+          {Object.keys(functionLibrary).length ? (
+            <ul className="function-library-list">
+              {Object.values(functionLibrary)
+                .sort((a, b) => a.name.localeCompare(b.name))
+                .map((entry) => (
+                  <li key={entry.id} className="function-library-item">
+                    <span className="function-library-name">
+                      {entry.name}{' '}
+                      <span className="function-library-version">v{entry.version}</span>
+                    </span>
+                    <button
+                      className="function-pin-button"
+                      type="button"
+                      onClick={() => importLibraryFunction(entry)}
+                    >
+                      Insert
+                    </button>
+                    <button
+                      className="function-pin-button danger"
+                      type="button"
+                      onClick={() => void deleteLibraryFunction(entry)}
+                    >
+                      Delete
+                    </button>
+                  </li>
+                ))}
+            </ul>
+          ) : (
+            <div className="function-pin-empty">
+              Publish a function from the Function Editor to share it across slots.
+            </div>
+          )}
+        </section>
+        <section className="panel">
+          <h2>Templates</h2>
+          <div className="template-row">
+            <label className="export-format">
+              <span>Template</span>
+              <select
+                className="palette-select"
+                value={templateId}
+                onChange={(event) => {
+                  setTemplateId(event.target.value)
+                  setTemplateValues({})
+                }}
+              >
+                {templateOptions}
+              </select>
+            </label>
+          </div>
+          {selectedTemplate ? (
+            <>
+              <p className="template-description">{selectedTemplate.description}</p>
+              <div className="template-params">
+                {selectedTemplate.parameters.map((parameter) => (
+                  <label key={parameter.nodeId} className="export-format">
+                    <span>{parameter.label}</span>
+                    <input
+                      className="template-input"
+                      type={parameter.type}
+                      step={parameter.type === 'number' ? '0.1' : undefined}
+                      value={templateValues[parameter.nodeId] ?? parameter.defaultValue}
+                      onChange={(event) => {
+                        const next = event.target.value
+                        setTemplateValues((prev) => ({ ...prev, [parameter.nodeId]: next }))
+                      }}
+                    />
+                  </label>
+                ))}
+              </div>
+            </>
+          ) : null}
+          <div className="button-row">
+            <button
+              className="palette-button"
+              type="button"
+              disabled={!selectedTemplate}
+              onClick={() => insertTemplate('group')}
+            >
+              Insert as Group
+            </button>
+            <button
+              className="palette-button"
+              type="button"
+              disabled={!selectedTemplate}
+              onClick={() => insertTemplate('function')}
+            >
+              Insert as Function
+            </button>
+          </div>
+        </section>
         <section className="panel">
           <h2>Storage</h2>
           <div className="slot-row">
@@ -17241,6 +6276,13 @@ function App() {
                 ))}
               </select>
             </label>
+            {storageThumbnails[storageSlot] ? (
+              <img
+                className="slot-thumbnail"
+                src={storageThumbnails[storageSlot]}
+                alt={`Slot "${storageSlot}" preview`}
+              />
+            ) : null}
           </div>
           <div className="button-row slot-actions">
             <button
@@ -17285,6 +6327,79 @@ function App() {
               Clear Slot
             </button>
           </div>
+          <div className="button-row slot-actions graph-file-actions">
+            <button
+              className="palette-button compact"
+              type="button"
+              onClick={() => void exportGraphFile(false)}
+            >
+              Export Graph
+            </button>
+            <button
+              className="palette-button compact"
+              type="button"
+              onClick={() => void exportGraphFile(true)}
+            >
+              Export Bundle
+            </button>
+            <label className="palette-button compact file-button">
+              Import Graph
+              <input
+                className="file-input"
+                type="file"
+                accept={`${GRAPH_FILE_EXTENSION},${GRAPH_BUNDLE_EXTENSION},.json`}
+                onChange={(event) => {
+                  const file = event.target.files?.[0]
+                  event.target.value = ''
+                  if (!file) return
+                  void importGraphFile(file)
+                }}
+              />
+            </label>
+          </div>
+          {loadProblems ? (
+            <div className="graph-problems">
+              <div className="graph-problems-header">
+                <span>{loadProblems.title}</span>
+                <button
+                  className="palette-button compact"
+                  type="button"
+                  onClick={() => setLoadProblems(null)}
+                >
+                  Dismiss
+                </button>
+              </div>
+              <ul className="graph-problem-list">
+                {loadProblems.problems.map((problem, index) => (
+                  <li
+                    key={`${problem.path}-${index}`}
+                    className={`graph-problem ${problem.severity}`}
+                    onClick={() => focusGraphProblem(problem)}
+                  >
+                    <span className="graph-problem-target">
+                      {problem.nodeId ?? problem.path}
+                    </span>
+                    <span>{problem.message}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ) : null}
+          <div className="template-row">
+            <label className="export-format">
+              <span>New slot from</span>
+              <select
+                className="palette-select"
+                value={templateId}
+                onChange={(event) => {
+                  setTemplateId(event.target.value)
+                  setTemplateValues({})
+                }}
+              >
+                {templateOptions}
+              </select>
+            </label>
+          </div>
           <div className="slot-row">
             <input
               className="palette-input"
@@ -17293,53 +6408,13 @@ function App() {
               onChange={(event) => setNewSlotName(event.target.value)}
               onKeyDown={(event) => {
                 if (event.key !== 'Enter') return
-                const next = normalizeSlot(newSlotName)
-                if (!next) return
-                const examplePalette = {
-                  ...paletteDefaults,
-                  ...(exampleGraph.ui?.paletteOpen ?? {}),
-                }
-                void writeGraphRecord(
-                  next,
-                  {
-                    nodes: exampleGraph.nodes as GraphNode[],
-                    connections: exampleGraph.connections as GraphConnection[],
-                    groups: (exampleGraph.groups ?? []) as GraphGroup[],
-                    functions: (exampleGraph.functions ?? {}) as Record<string, FunctionDefinition>,
-                    ui: { paletteOpen: examplePalette },
-                  },
-                  { silent: true },
-                )
-                pendingExampleLayoutRef.current = true
-                setStorageSlot(next)
-                setNewSlotName('')
+                void createSlot()
               }}
             />
             <button
               className="palette-button"
               type="button"
-              onClick={async () => {
-                const next = normalizeSlot(newSlotName)
-                if (!next) return
-                const examplePalette = {
-                  ...paletteDefaults,
-                  ...(exampleGraph.ui?.paletteOpen ?? {}),
-                }
-                await writeGraphRecord(
-                  next,
-                  {
-                    nodes: exampleGraph.nodes as GraphNode[],
-                    connections: exampleGraph.connections as GraphConnection[],
-                    groups: (exampleGraph.groups ?? []) as GraphGroup[],
-                    functions: (exampleGraph.functions ?? {}) as Record<string, FunctionDefinition>,
-                    ui: { paletteOpen: examplePalette },
-                  },
-                  { silent: true },
-                )
-                pendingExampleLayoutRef.current = true
-                setStorageSlot(next)
-                setNewSlotName('')
-              }}
+              onClick={() => void createSlot()}
               disabled={!newSlotName.trim()}
             >
               Create
@@ -17347,10 +6422,99 @@ function App() {
           </div>
         </section>
       </aside>
-      <main className="viewport" ref={viewportRef}>
+      <main
+        className="viewport"
+        ref={viewportRef}
+        onPointerMove={(event) => {
+          canvasPointerRef.current = { clientX: event.clientX, clientY: event.clientY }
+        }}
+        onPointerLeave={() => {
+          canvasPointerRef.current = null
+        }}
+      >
         <div className="viewport-label">Preview</div>
-        <div className="node-canvas">
+        <div
+          className="node-canvas"
+          onPointerOver={(event) => {
+            const target = event.target as Element
+            const pinRow = target.closest<HTMLElement>('.node-pin-row')
+            const link = target.closest<SVGPathElement>('path[data-link-id]')
+            const nodeId = pinRow?.dataset.nodeId ?? link?.dataset.toNodeId
+            const pin = pinRow?.dataset.pinName ?? link?.dataset.toPin
+            if (!nodeId || !pin || event.buttons !== 0) {
+              setPinInspect(null)
+              return
+            }
+            const side = pinRow?.dataset.pinType === 'output' ? 'output' : 'input'
+            const inspection = inspectGraphPin(
+              { nodes: editorNodes, connections: editorConnections, functions },
+              { nodeId, pin, side },
+              inferType,
+              { fold: !isFunctionEditing, context: { getGltfMaterial } },
+            )
+            const rect = event.currentTarget.getBoundingClientRect()
+            setPinInspect(
+              inspection
+                ? {
+                    key: `${nodeId}:${pin}`,
+                    x: event.clientX - rect.left,
+                    y: event.clientY - rect.top,
+                    inspection,
+                  }
+                : null,
+            )
+          }}
+          onPointerLeave={() => setPinInspect(null)}
+        >
           {toast ? <div className="toast">{toast}</div> : null}
+          {pinInspect ? (
+            <div
+              className="pin-inspect"
+              style={{ left: pinInspect.x + 14, top: pinInspect.y + 14 }}
+            >
+              <div className="pin-inspect-type">
+                {pinInspect.inspection.type}
+                {pinInspect.inspection.expected
+                  ? ` (expects ${pinInspect.inspection.expected})`
+                  : ''}
+              </div>
+              {pinInspect.inspection.source ? (
+                <div>
+                  from {pinInspect.inspection.source.label}.{pinInspect.inspection.source.pin}
+                </div>
+              ) : (
+                <div>Not connected</div>
+              )}
+              {pinInspect.inspection.internal ? (
+                <div>
+                  via {pinInspect.inspection.internal.functionName}:{' '}
+                  {pinInspect.inspection.internal.label}.{pinInspect.inspection.internal.pin}
+                </div>
+              ) : null}
+              {pinInspect.inspection.value ? (
+                <div className="pin-inspect-value">= {pinInspect.inspection.value}</div>
+              ) : null}
+              {typeWarnings[pinInspect.key] ? (
+                <div className="pin-inspect-issue">{typeWarnings[pinInspect.key]}</div>
+              ) : null}
+            </div>
+          ) : null}
+          {soloNode ? (
+            <div className="solo-banner" onPointerDown={blockCanvasPointer}>
+              <span>Solo: {soloNode.label}</span>
+              <label className="solo-remap">
+                <input
+                  type="checkbox"
+                  checked={soloRemap}
+                  onChange={(event) => setSoloRemap(event.target.checked)}
+                />
+                Remap -1..1
+              </label>
+              <button className="node-action" type="button" onClick={() => setSoloNodeId(null)}>
+                Exit (Esc)
+              </button>
+            </div>
+          ) : null}
           {showCode ? (
             <div
               className="code-overlay"
@@ -17372,7 +6536,8 @@ function App() {
                           value === 'material' ||
                           value === 'app' ||
                           value === 'tsl' ||
-                          value === 'gltf'
+                          value === 'gltf' ||
+                          isShaderOutputKind(value)
                         ) {
                           setTslOutputKind(value)
                         }
@@ -17382,6 +6547,9 @@ function App() {
                       <option value="material">Material</option>
                       <option value="app">App</option>
                       <option value="gltf">glTF</option>
+                      <option value="wgsl-vertex">WGSL (vertex)</option>
+                      <option value="wgsl-fragment">WGSL (fragment)</option>
+                      <option value="glsl">GLSL</option>
                     </select>
                   </label>
                 </div>
@@ -17398,21 +6566,23 @@ function App() {
                         </button>
                       ) : (
                         <>
-                          <label className="export-format">
-                            <span>Format</span>
-                            <select
-                              className="palette-select"
-                              value={exportFormat}
-                              onChange={(event) =>
-                                setExportFormat(
-                                  event.target.value === 'ts' ? 'ts' : 'js',
-                                )
-                              }
-                            >
-                              <option value="js">JS</option>
-                              <option value="ts">TS</option>
-                            </select>
-                          </label>
+                          {isShaderOutputKind(tslOutputKind) ? null : (
+                            <label className="export-format">
+                              <span>Format</span>
+                              <select
+                                className="palette-select"
+                                value={exportFormat}
+                                onChange={(event) =>
+                                  setExportFormat(
+                                    event.target.value === 'ts' ? 'ts' : 'js',
+                                  )
+                                }
+                              >
+                                <option value="js">JS</option>
+                                <option value="ts">TS</option>
+                              </select>
+                            </label>
+                          )}
                           <button
                             className="palette-button"
                             type="button"
@@ -17495,16 +6665,18 @@ function App() {
                   const path = `M ${from.x} ${from.y} C ${
                     from.x + dx
                   } ${from.y}, ${to.x - dx} ${to.y}, ${to.x} ${to.y}`
+                  const data = {
+                    'data-link-id': link.id,
+                    'data-from-node-id': link.from.nodeId,
+                    'data-to-node-id': link.to.nodeId,
+                    'data-from-pin': link.from.pin,
+                    'data-to-pin': link.to.pin,
+                  }
                   return (
-                    <path
-                      key={link.id}
-                      d={path}
-                      data-link-id={link.id}
-                      data-from-node-id={link.from.nodeId}
-                      data-to-node-id={link.to.nodeId}
-                      data-from-pin={link.from.pin}
-                      data-to-pin={link.to.pin}
-                    />
+                    <g key={link.id}>
+                      <path d={path} {...data} />
+                      <path className="link-hit" d={path} {...data} />
+                    </g>
                   )
                 })}
                 {linkDraft ? (
@@ -17658,8 +6830,20 @@ function App() {
                     node.type === 'gltfTexture' ? gltfEntry?.textures.length ?? 0 : 0
                   const selectedMeshIndex =
                     node.type === 'gltf'
-                      ? String(getMeshIndex(node, meshCount))
+                      ? isGltfSceneNode(node)
+                        ? GLTF_SCENE_MESH_INDEX
+                        : String(getMeshIndex(node, meshCount))
                       : '0'
+                  const sceneMaterials = isGltfSceneNode(node)
+                    ? getGltfSceneMaterials(node)
+                    : null
+                  const animationClips = sceneMaterials ? gltfEntry?.animations ?? [] : []
+                  const attributeName =
+                    node.type === 'attribute' ? getAttributeNodeName(node) : ''
+                  const attributeMissing =
+                    node.type === 'attribute' &&
+                    !geometryAttributes.some((entry) => entry.name === attributeName)
+                  const activeAnimationClip = getGltfAnimationClip(node, animationClips)
                   const selectedMaterialIndex =
                     node.type === 'gltfMaterial'
                       ? String(getMaterialIndex(node, materialCount))
@@ -17716,7 +6900,9 @@ function App() {
                     <div
                       className={`node-card${
                         selectedNodeIds.includes(node.id) ? ' selected' : ''
-                      }${isNodeInCollapsedGroup(node.id) ? ' node-hidden' : ''}`}
+                      }${isNodeInCollapsedGroup(node.id) ? ' node-hidden' : ''}${
+                        soloNode?.id === node.id ? ' soloed' : ''
+                      }`}
                       key={node.id}
                       data-node-id={node.id}
                       style={{ transform: `translate(${node.x}px, ${node.y}px)` }}
@@ -17732,6 +6918,12 @@ function App() {
                         }
                         event.preventDefault()
                         event.stopPropagation()
+                        if (event.altKey) {
+                          if (!isFunctionEditing && hasNodePreview(node)) {
+                            setSoloNodeId((prev) => (prev === node.id ? null : node.id))
+                          }
+                          return
+                        }
                         setSelectedNodeIds((prev) => {
                           if (event.shiftKey) {
                             return prev.includes(node.id)
@@ -17797,11 +6989,16 @@ function App() {
                       type="button"
                       onClick={(event) => {
                         event.stopPropagation()
-                        if (!node.functionId || !functions[node.functionId]) {
+                        const functionId = node.functionId
+                        if (!functionId || !functions[functionId]) {
                           setToast('Function not found')
                           return
                         }
-                        setActiveFunctionId(node.functionId)
+                        setFunctionPath((prev) =>
+                          prev.includes(functionId)
+                            ? prev.slice(0, prev.indexOf(functionId) + 1)
+                            : [...prev, functionId],
+                        )
                       }}
                     >
                       Edit
@@ -17819,6 +7016,19 @@ function App() {
                       Expand
                     </button>
                   ) : null}
+                  {!isFunctionEditing && hasNodePreview(node) ? (
+                    <button
+                      className="node-action"
+                      type="button"
+                      title="Show this node's output in the preview (Alt+click)"
+                      onClick={(event) => {
+                        event.stopPropagation()
+                        setSoloNodeId((prev) => (prev === node.id ? null : node.id))
+                      }}
+                    >
+                      {soloNode?.id === node.id ? 'Unsolo' : 'Solo'}
+                    </button>
+                  ) : null}
                   <button
                     className="node-action"
                     type="button"
@@ -17921,6 +7131,14 @@ function App() {
                   ))}
                 </div>
               </div>
+              {showNodePreviews && !isFunctionEditing && hasNodePreview(node) ? (
+                <canvas
+                  className="node-preview"
+                  data-preview-node-id={node.id}
+                  width={NODE_PREVIEW_SIZE}
+                  height={NODE_PREVIEW_SIZE}
+                />
+              ) : null}
               {node.type === 'number' ? (
                 <div className="node-control">
                   <label className="node-control-label" htmlFor={`${node.id}-number`}>
@@ -18157,19 +7375,52 @@ function App() {
                     onPointerDown={(event) => event.stopPropagation()}
                     onChange={(event) => {
                       const next = event.target.value
+                      // Parameters are per shape, so a new shape starts from its defaults.
                       setEditorNodes((prev) =>
                         prev.map((item) =>
-                          item.id === node.id ? { ...item, value: next } : item,
+                          item.id === node.id
+                            ? { ...item, value: next, geometryParams: undefined }
+                            : item,
                         ),
                       )
                     }}
                   >
-                    <option value="box">Box</option>
-                    <option value="sphere">Sphere</option>
-                    <option value="plane">Plane</option>
-                    <option value="torus">Torus</option>
-                    <option value="cylinder">Cylinder</option>
+                    {Object.entries(PRIMITIVE_SHAPES).map(([shape, { label }]) => (
+                      <option key={shape} value={shape}>
+                        {label}
+                      </option>
+                    ))}
                   </select>
+                  <div className="geometry-params">
+                    {getPrimitiveShape(
+                      typeof node.value === 'string' ? node.value : 'box',
+                    ).params.map((param) => (
+                      <label key={param.key} className="geometry-param">
+                        <span>{param.label}</span>
+                        <input
+                          className="node-input"
+                          type="number"
+                          min={param.min}
+                          step={param.step}
+                          value={node.geometryParams?.[param.key] ?? param.defaultValue}
+                          onPointerDown={(event) => event.stopPropagation()}
+                          onChange={(event) => {
+                            const next = parseNumber(event.target.value)
+                            setEditorNodes((prev) =>
+                              prev.map((item) =>
+                                item.id === node.id
+                                  ? {
+                                      ...item,
+                                      geometryParams: { ...item.geometryParams, [param.key]: next },
+                                    }
+                                  : item,
+                              ),
+                            )
+                          }}
+                        />
+                      </label>
+                    ))}
+                  </div>
                 </div>
               ) : null}
               {node.type === 'gltf' ? (
@@ -18211,7 +7462,163 @@ function App() {
                           No meshes loaded
                         </option>
                       )}
+                    {meshCount ? (
+                      <option value={GLTF_SCENE_MESH_INDEX}>Whole scene</option>
+                    ) : null}
                   </select>
+                  {animationClips.length ? (
+                    <>
+                      <label
+                        className="node-control-label"
+                        htmlFor={`${node.id}-gltf-animation`}
+                      >
+                        Animation
+                      </label>
+                      <select
+                        id={`${node.id}-gltf-animation`}
+                        className="node-input"
+                        value={
+                          activeAnimationClip
+                            ? String(animationClips.indexOf(activeAnimationClip))
+                            : ''
+                        }
+                        onPointerDown={(event) => event.stopPropagation()}
+                        onChange={(event) => {
+                          const next = event.target.value
+                          setEditorNodes((prev) =>
+                            prev.map((item) =>
+                              item.id === node.id ? { ...item, animationClip: next } : item,
+                            ),
+                          )
+                        }}
+                      >
+                        <option value="">None</option>
+                        {animationClips.map((clip, index) => (
+                          <option key={index} value={String(index)}>
+                            {clip.name ? `${index}: ${clip.name}` : `${index}`}
+                          </option>
+                        ))}
+                      </select>
+                    </>
+                  ) : null}
+                  {sceneMaterials ? (
+                    <div className="gltf-scene-materials">
+                      <label
+                        className="node-control-label"
+                        htmlFor={`${node.id}-gltf-scene-fallback`}
+                      >
+                        Unmatched Meshes
+                      </label>
+                      <select
+                        id={`${node.id}-gltf-scene-fallback`}
+                        className="node-input"
+                        value={sceneMaterials.fallback}
+                        onPointerDown={(event) => event.stopPropagation()}
+                        onChange={(event) =>
+                          updateGltfSceneMaterials(node.id, {
+                            fallback: event.target.value as GltfSceneMaterialMode,
+                          })
+                        }
+                      >
+                        <option value="graph">Graph material</option>
+                        <option value="original">Original material</option>
+                      </select>
+                      <div className="node-control-label">Name Patterns</div>
+                      {sceneMaterials.rules.map((rule, index) => (
+                        <div key={index} className="gltf-scene-rule">
+                          <input
+                            className="node-input"
+                            type="text"
+                            placeholder="Body*"
+                            value={rule.pattern}
+                            onPointerDown={(event) => event.stopPropagation()}
+                            onChange={(event) =>
+                              updateGltfSceneMaterials(node.id, {
+                                rules: sceneMaterials.rules.map((entry, ruleIndex) =>
+                                  ruleIndex === index
+                                    ? { ...entry, pattern: event.target.value }
+                                    : entry,
+                                ),
+                              })
+                            }
+                          />
+                          <select
+                            className="node-input"
+                            value={rule.mode}
+                            onPointerDown={(event) => event.stopPropagation()}
+                            onChange={(event) => {
+                              const mode = event.target.value as GltfSceneMaterialMode
+                              updateGltfSceneMaterials(node.id, {
+                                rules: sceneMaterials.rules.map((entry, ruleIndex) =>
+                                  ruleIndex === index ? { ...entry, mode } : entry,
+                                ),
+                              })
+                            }}
+                          >
+                            <option value="graph">Graph</option>
+                            <option value="original">Original</option>
+                          </select>
+                          <button
+                            className="function-pin-button danger"
+                            type="button"
+                            onPointerDown={(event) => event.stopPropagation()}
+                            onClick={() =>
+                              updateGltfSceneMaterials(node.id, {
+                                rules: sceneMaterials.rules.filter(
+                                  (_, ruleIndex) => ruleIndex !== index,
+                                ),
+                              })
+                            }
+                          >
+                            Remove
+                          </button>
+                        </div>
+                      ))}
+                      <button
+                        className="function-pin-button"
+                        type="button"
+                        onPointerDown={(event) => event.stopPropagation()}
+                        onClick={() =>
+                          updateGltfSceneMaterials(node.id, {
+                            rules: [...sceneMaterials.rules, { pattern: '', mode: 'original' }],
+                          })
+                        }
+                      >
+                        Add Pattern
+                      </button>
+                      <div className="node-control-label">Meshes</div>
+                      <div className="gltf-scene-meshes">
+                        {gltfEntry?.meshNames.map((name, index) => {
+                          const auto = resolveGltfSceneMaterial(
+                            { ...sceneMaterials, meshes: {} },
+                            index,
+                            name,
+                          )
+                          return (
+                            <label key={index} className="gltf-scene-mesh">
+                              <span>{name || `Mesh ${index}`}</span>
+                              <select
+                                className="node-input"
+                                value={sceneMaterials.meshes[String(index)] ?? ''}
+                                onPointerDown={(event) => event.stopPropagation()}
+                                onChange={(event) => {
+                                  const next = event.target.value as GltfSceneMaterialMode | ''
+                                  const meshes = { ...sceneMaterials.meshes }
+                                  delete meshes[String(index)]
+                                  if (next) meshes[String(index)] = next
+                                  updateGltfSceneMaterials(node.id, { meshes })
+                                }}
+                              >
+                                <option value="">Auto ({auto})</option>
+                                <option value="graph">Graph</option>
+                                <option value="original">Original</option>
+                              </select>
+                            </label>
+                          )
+                        })}
+                      </div>
+                    </div>
+                  ) : null}
                   <div className="file-row">
                     <span className="file-name">
                       {node.assetName ? node.assetName : 'No file'}
@@ -18253,6 +7660,194 @@ function App() {
                   </div>
                 </div>
               ) : null}
+              {node.type === 'attribute' ? (
+                <div className="node-control">
+                  <label
+                    className="node-control-label"
+                    htmlFor={`${node.id}-attribute-name`}
+                  >
+                    Attribute
+                  </label>
+                  <select
+                    id={`${node.id}-attribute-name`}
+                    className="node-input"
+                    value={attributeName}
+                    onPointerDown={(event) => event.stopPropagation()}
+                    onChange={(event) => {
+                      const next = event.target.value
+                      const present = geometryAttributes.find((entry) => entry.name === next)
+                      setEditorNodes((prev) =>
+                        prev.map((item) =>
+                          item.id === node.id
+                            ? {
+                                ...item,
+                                value: next,
+                                attributeType: present
+                                  ? getAttributeTypeForItemSize(present.itemSize)
+                                  : item.attributeType,
+                              }
+                            : item,
+                        ),
+                      )
+                    }}
+                  >
+                    {geometryAttributes.map((entry) => (
+                      <option key={entry.name} value={entry.name}>
+                        {entry.name} ({entry.itemSize})
+                      </option>
+                    ))}
+                    {attributeMissing ? (
+                      <option value={attributeName}>{attributeName || 'None'} (missing)</option>
+                    ) : null}
+                  </select>
+                  <label
+                    className="node-control-label"
+                    htmlFor={`${node.id}-attribute-type`}
+                  >
+                    Type
+                  </label>
+                  <select
+                    id={`${node.id}-attribute-type`}
+                    className="node-input"
+                    value={getAttributeNodeType(node)}
+                    onPointerDown={(event) => event.stopPropagation()}
+                    onChange={(event) => {
+                      const next = event.target.value as AttributeNodeType
+                      setEditorNodes((prev) =>
+                        prev.map((item) =>
+                          item.id === node.id ? { ...item, attributeType: next } : item,
+                        ),
+                      )
+                    }}
+                  >
+                    {Object.keys(ATTRIBUTE_NODE_TYPES).map((type) => (
+                      <option key={type} value={type}>
+                        {type}
+                      </option>
+                    ))}
+                  </select>
+                  {attributeMissing ? (
+                    <div className="attribute-missing">
+                      Not on the current geometry; reads as zero.
+                    </div>
+                  ) : null}
+                </div>
+              ) : null}
+              {node.type === 'varyingSet' || node.type === 'varyingGet' ? (
+                <div className="node-control">
+                  <label className="node-control-label" htmlFor={`${node.id}-varying`}>
+                    Name
+                  </label>
+                  <input
+                    id={`${node.id}-varying`}
+                    className="node-input"
+                    type="text"
+                    value={typeof node.value === 'string' ? node.value : ''}
+                    onPointerDown={(event) => event.stopPropagation()}
+                    onChange={(event) => {
+                      const next = event.target.value
+                      setEditorNodes((prev) =>
+                        prev.map((item) =>
+                          item.id === node.id ? { ...item, value: next } : item,
+                        ),
+                      )
+                    }}
+                  />
+                </div>
+              ) : null}
+              {node.type === 'vertexOutput' ? (
+                <div className="node-control">
+                  <label className="node-toggle">
+                    <input
+                      type="checkbox"
+                      checked={Boolean(node.recomputeNormals)}
+                      onPointerDown={(event) => event.stopPropagation()}
+                      onChange={(event) => {
+                        const next = event.target.checked
+                        setEditorNodes((prev) =>
+                          prev.map((item) =>
+                            item.id === node.id ? { ...item, recomputeNormals: next } : item,
+                          ),
+                        )
+                      }}
+                    />
+                    Recompute normals
+                  </label>
+                </div>
+              ) : null}
+              {node.type === 'meshFile' ? (
+                <div className="node-control">
+                  <div className="node-control-label">Mesh File</div>
+                  <div className="file-row">
+                    <span className="file-name">
+                      {node.assetName ? node.assetName : 'No file'}
+                    </span>
+                    <label className="palette-button file-button">
+                      Choose
+                      <input
+                        id={`${node.id}-mesh-file`}
+                        className="node-input file-input"
+                        type="file"
+                        accept={MESH_FILE_ACCEPT}
+                        onPointerDown={(event) => event.stopPropagation()}
+                        onChange={(event) => {
+                          const file = event.target.files?.[0]
+                          if (!file) return
+                          const format = getMeshFileFormat(file.name)
+                          if (!format) {
+                            setToast('Mesh load failed: expected an OBJ, PLY or STL file')
+                            return
+                          }
+                          const reader = new FileReader()
+                          reader.onload = () => {
+                            const buffer = reader.result
+                            if (!(buffer instanceof ArrayBuffer)) return
+                            let geometry: BufferGeometry
+                            try {
+                              geometry = parseMeshFile(buffer, format)
+                            } catch (error) {
+                              const message =
+                                error instanceof Error ? error.message : 'Unknown mesh load error'
+                              setToast(`Mesh load failed: ${message}`)
+                              return
+                            }
+                            const existing = objectUrlRef.current[node.id]
+                            if (existing) {
+                              URL.revokeObjectURL(existing)
+                            }
+                            const url = URL.createObjectURL(new Blob([buffer]))
+                            objectUrlRef.current[node.id] = url
+                            // Parsed here so the pins can follow the file's attributes; the
+                            // loader effect reuses this entry instead of parsing again.
+                            meshFileMapRef.current[node.id]?.geometry.dispose()
+                            meshFileMapRef.current = {
+                              ...meshFileMapRef.current,
+                              [node.id]: { src: url, geometry },
+                            }
+                            const outputs = getMeshFileOutputs(geometry)
+                            setEditorNodes((prev) =>
+                              prev.map((item) =>
+                                item.id === node.id
+                                  ? { ...item, value: url, assetName: file.name, outputs }
+                                  : item,
+                              ),
+                            )
+                            setEditorConnections((prev) =>
+                              prev.filter(
+                                (connection) =>
+                                  connection.from.nodeId !== node.id ||
+                                  outputs.includes(connection.from.pin),
+                              ),
+                            )
+                            setMeshFileVersion((prev) => prev + 1)
+                          }
+                          reader.readAsArrayBuffer(file)
+                        }}
+                      />
+                    </label>
+                  </div>
+                </div>
+              ) : null}
               {node.type === 'gltfMaterial' ? (
                 <div className="node-control">
                   <div className="node-control-label">GLTF Material</div>
@@ -18439,6 +8034,58 @@ function App() {
             </>
           ) : null}
         </div>
+        {showProblems ? (
+          <div className={`problems-panel dock-${problemsDock}`}>
+            <div className="problems-panel-header">
+              <div className="code-overlay-title">Problems</div>
+              <span className="problems-panel-count">
+                {graphLintErrorCount} errors, {graphLintProblems.length - graphLintErrorCount}{' '}
+                warnings
+              </span>
+              <div className="button-row">
+                <button
+                  className="palette-button compact"
+                  type="button"
+                  onClick={() =>
+                    setProblemsDock((prev) => (prev === 'bottom' ? 'right' : 'bottom'))
+                  }
+                >
+                  {problemsDock === 'bottom' ? 'Dock Right' : 'Dock Bottom'}
+                </button>
+                <button
+                  className="palette-button compact"
+                  type="button"
+                  onClick={() => setShowProblems(false)}
+                >
+                  Close
+                </button>
+              </div>
+            </div>
+            {graphLintProblems.length ? (
+              <ul className="graph-problem-list problems-panel-list">
+                {graphLintProblems.map((problem, index) => (
+                  <li
+                    key={`${problem.path}-${problem.code}-${index}`}
+                    className={`graph-problem ${problem.severity}`}
+                    onClick={() => focusGraphProblem(problem)}
+                  >
+                    <span className="graph-problem-target">
+                      {problem.severity} ·{' '}
+                      {problem.functionId
+                        ? `${functions[problem.functionId]?.name ?? problem.functionId} / `
+                        : ''}
+                      {problem.nodeId ?? problem.path}
+                      {problem.pin ? `.${problem.pin}` : ''}
+                    </span>
+                    <span>{problem.message}</span>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <div className="problems-panel-empty">No problems detected</div>
+            )}
+          </div>
+        ) : null}
       </main>
     </div>
   )
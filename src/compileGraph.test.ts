@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest'
+import { compileGraph } from './compileGraph'
+import { MATERIAL_NODE_KINDS } from './graph'
+import { MATERIAL_CLASSES } from './graphEmitters'
+import type { GraphIRSource } from './graphIR'
+import { createNode, link } from './graphTestUtils'
+
+// Color -> material -> output, with extra material pins fed from a shared number node.
+const createMaterialGraph = (materialType: string, numberPins: string[] = []): GraphIRSource => ({
+  nodes: [
+    createNode('color', 'color', { value: '#ff0000' }),
+    createNode('number', 'number', { value: '0.5' }),
+    createNode('material', materialType),
+    createNode('output', 'output'),
+  ],
+  connections: [
+    link('color', 'color', 'material', 'baseColor'),
+    ...numberPins.map((pin) => link('number', 'value', 'material', pin)),
+    link('material', 'baseColor', 'output', 'baseColor'),
+  ],
+  functions: {},
+})
+
+describe('compileGraph', () => {
+  it.each(Object.entries(MATERIAL_NODE_KINDS))('creates the %s material class', (type, kind) => {
+    const code = compileGraph(createMaterialGraph(type))
+    expect(code).toContain(`const material = new ${MATERIAL_CLASSES[kind]}();`)
+    expect(code).toContain("const col_1 = color('#ff0000');")
+    expect(code).toContain('material.colorNode = col_1;')
+    expect(code.endsWith('return material;')).toBe(true)
+  })
+
+  it('falls back to a standard material without an output node', () => {
+    expect(compileGraph({ nodes: [], connections: [], functions: {} })).toBe(
+      'return new MeshStandardNodeMaterial();',
+    )
+  })
+
+  it('assigns emissiveNode directly only where the typings declare it', () => {
+    const emissive = (type: string) => {
+      const graph = createMaterialGraph(type)
+      graph.connections.push(link('color', 'color', 'material', 'emissive'))
+      return compileGraph(graph)
+    }
+    expect(emissive('material')).toContain('material.emissiveNode = ')
+    expect(emissive('lambertMaterial')).toContain('Object.assign(material, { emissiveNode: ')
+    expect(emissive('phongMaterial')).not.toContain('material.emissiveNode = ')
+  })
+
+  it('writes the material-specific slots', () => {
+    expect(compileGraph(createMaterialGraph('phongMaterial', ['shininess']))).toContain(
+      'material.shininessNode = ',
+    )
+    expect(compileGraph(createMaterialGraph('pointsMaterial', ['size']))).toContain(
+      'material.sizeNode = ',
+    )
+    expect(compileGraph(createMaterialGraph('lineDashedMaterial', ['dashOffset']))).toContain(
+      'material.offsetNode = ',
+    )
+    expect(compileGraph(createMaterialGraph('physicalMaterial', ['clearcoat']))).toContain(
+      'material.clearcoatNode = ',
+    )
+    expect(compileGraph(createMaterialGraph('physicalMaterial', ['transmission']))).toContain(
+      'material.transmissionNode = ',
+    )
+  })
+
+  it('types the material export with the graph material class', () => {
+    const code = compileGraph(createMaterialGraph('toonMaterial'), {
+      target: 'material',
+      format: 'ts',
+    })
+    expect(code).toContain("import { MeshToonNodeMaterial } from 'three/webgpu';")
+    expect(code).toContain('material: MeshToonNodeMaterial;')
+  })
+
+  it.each([
+    ['material', 'const mesh = new Mesh(geometry, material);'],
+    ['pointsMaterial', 'const mesh = new Sprite(material);'],
+    ['lineMaterial', 'const mesh = new LineSegments(new WireframeGeometry(geometry), material);'],
+    ['spriteMaterial', 'const mesh = new Sprite(material);'],
+  ])('draws %s graphs with the preview object in app exports', (type, line) => {
+    expect(compileGraph(createMaterialGraph(type), { target: 'app' })).toContain(line)
+  })
+})
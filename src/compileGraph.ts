@@ -0,0 +1,422 @@
+import {
+  GLTF_MATERIAL_TEXTURE_KEYS,
+  POINT_POSITION_ATTRIBUTE,
+  expandFunctions,
+  getGltfMaterialTextureId,
+  getGltfTextureId,
+  type GraphNode,
+} from './graph'
+import { buildGraphIR, type GraphIRContext, type GraphIRSource } from './graphIR'
+import { MATERIAL_CLASSES, emitTslCode } from './graphEmitters'
+import {
+  PRIMITIVE_GEOMETRY_CLASSES,
+  PRIMITIVE_SHAPES,
+  formatPrimitiveParams,
+  type PrimitiveGeometry,
+} from './geometryPrimitives'
+import {
+  DEFAULT_PREVIEW_ENVIRONMENT,
+  LIGHT_CLASSES,
+  TONE_MAPPING_CONSTANTS,
+  formatHexColor,
+  getPreviewLightNames,
+  getPreviewLights,
+  type PreviewEnvironment,
+} from './previewEnvironment'
+import { getPreviewPrimitive, type PreviewPrimitive } from './previewObjects'
+
+export type CompileTarget = 'tsl' | 'material' | 'app'
+
+export type CompileFormat = 'js' | 'ts'
+
+export type ExportStyle = 'module' | 'snippet'
+
+export type CompileGraphContext = GraphIRContext & {
+  hasGltfTexture?: (node: GraphNode) => boolean
+}
+
+export type CompileGraphOptions = CompileGraphContext & {
+  target?: CompileTarget
+  format?: CompileFormat
+  style?: ExportStyle
+  environment?: PreviewEnvironment
+}
+
+export const getExportTextureIds = (
+  source: GraphIRSource,
+  context: CompileGraphContext = {},
+) => {
+  const { nodes } = expandFunctions(source.nodes, source.connections, source.functions)
+  const textureIds = nodes.filter((node) => node.type === 'texture').map((node) => node.id)
+  const gltfMaterialTextureIds = nodes
+    .filter((node) => node.type === 'gltfMaterial')
+    .flatMap((node) => {
+      const material = context.getGltfMaterial?.(node)
+      if (!material) return []
+      return GLTF_MATERIAL_TEXTURE_KEYS.filter((key) => material[key]).map((key) =>
+        getGltfMaterialTextureId(node.id, key),
+      )
+    })
+  const gltfTextureIds = nodes
+    .filter((node) => node.type === 'gltfTexture')
+    .filter((node) => context.hasGltfTexture?.(node) ?? true)
+    .map((node) => getGltfTextureId(node.id))
+  return [...textureIds, ...gltfMaterialTextureIds, ...gltfTextureIds]
+}
+
+const getMaterialImports = (code: string) =>
+  Object.values(MATERIAL_CLASSES).filter((name) => code.includes(name))
+
+export const buildMaterialExport = (
+  code: string,
+  textureIds: string[],
+  format: CompileFormat,
+  style: ExportStyle,
+  includeImports = true,
+) => {
+  const needsVector2 = code.includes('new Vector2')
+  const usesTextures = textureIds.length > 0
+  const materialImports = getMaterialImports(code)
+  const materialReturnType = materialImports.length
+    ? materialImports.join(' | ')
+    : 'unknown'
+  const threeImports = [
+    usesTextures ? 'Texture' : null,
+    needsVector2 ? 'Vector2' : null,
+  ].filter(Boolean)
+  const exportPrefix = style === 'module' ? 'export ' : ''
+  const header =
+    format === 'ts'
+      ? [
+          ...(includeImports ? [`import { TSL } from 'three/tsl';`] : []),
+          ...(includeImports && materialImports.length
+            ? [`import { ${materialImports.join(', ')} } from 'three/webgpu';`]
+            : []),
+          ...(includeImports && threeImports.length
+            ? [`import { ${threeImports.join(', ')} } from 'three';`]
+            : []),
+          ``,
+          `${exportPrefix}type TSLExportOptions = {`,
+          ...(usesTextures ? [`  textures?: Record<string, Texture>;`] : []),
+          `  timeUniform?: ReturnType<typeof TSL.uniform>;`,
+          `};`,
+          ``,
+          `${exportPrefix}const textureIds = ${JSON.stringify(textureIds, null, 2)};`,
+          ``,
+          `${exportPrefix}const makeNodeMaterial = (`,
+          `  options: TSLExportOptions = {},`,
+          `): { material: ${materialReturnType}; uniforms: { time: ReturnType<typeof TSL.uniform> } } => {`,
+          ...(usesTextures ? [`  const textures = options.textures ?? {};`] : []),
+          `  const timeUniform = options.timeUniform ?? TSL.uniform(0);`,
+          ...(usesTextures
+            ? [`  const textureFromNode = (id: string) => textures[id] ?? null;`]
+            : [`  const textureFromNode = (_id: string) => null;`]),
+          ``,
+        ]
+      : [
+          ...(includeImports ? [`import { TSL } from 'three/tsl';`] : []),
+          ...(includeImports && materialImports.length
+            ? [`import { ${materialImports.join(', ')} } from 'three/webgpu';`]
+            : []),
+          ...(includeImports && threeImports.length
+            ? [`import { ${threeImports.join(', ')} } from 'three';`]
+            : []),
+          ``,
+          `${exportPrefix}const textureIds = ${JSON.stringify(textureIds, null, 2)};`,
+          ``,
+          `${exportPrefix}const makeNodeMaterial = (options = {}) => {`,
+          ...(usesTextures ? [`  const textures = options.textures ?? {};`] : []),
+          `  const timeUniform = options.timeUniform ?? TSL.uniform(0);`,
+          ...(usesTextures
+            ? [`  const textureFromNode = (id) => textures[id] ?? null;`]
+            : [`  const textureFromNode = (_id) => null;`]),
+          ``,
+        ]
+  const body = code
+    .split('\n')
+    .map((line) => `    ${line}`)
+    .join('\n')
+  return [
+    ...header,
+    `  const material = (() => {`,
+    body,
+    `  })();`,
+    `  return { material, uniforms: { time: timeUniform } };`,
+    `};`,
+  ].join('\n')
+}
+
+const buildEnvironmentLines = (environment: PreviewEnvironment) => {
+  const lights = getPreviewLights(environment)
+  const names = getPreviewLightNames(lights)
+  const background = formatHexColor(environment.backgroundColor)
+  const backgroundLine = {
+    color: `  scene.background = new Color(${background});`,
+    gradient:
+      `  scene.backgroundNode = TSL.mix(TSL.color(${background}), ` +
+      `TSL.color(${formatHexColor(environment.gradientColor)}), TSL.screenUV.y);`,
+    environment: `  scene.background = environment ?? new Color(${background});`,
+  }[environment.background]
+  const lightLines = lights.flatMap((light, index) => {
+    const args =
+      light.type === 'hemisphere'
+        ? [light.color, light.groundColor ?? light.color].map(formatHexColor)
+        : [formatHexColor(light.color)]
+    return [
+      `  const ${names[index]} = new ${LIGHT_CLASSES[light.type]}(` +
+        `${[...args, light.intensity].join(', ')});`,
+      ...(light.position ? [`  ${names[index]}.position.set(${light.position.join(', ')});`] : []),
+    ]
+  })
+  return {
+    renderer: [
+      `  renderer.toneMapping = ${TONE_MAPPING_CONSTANTS[environment.toneMapping]};`,
+      `  renderer.toneMappingExposure = ${environment.exposure};`,
+    ],
+    scene: [backgroundLine, `  scene.environment = environment;`],
+    lights: names.length ? [...lightLines, `  scene.add(${names.join(', ')});`] : [],
+  }
+}
+
+const DEFAULT_APP_GEOMETRY: PrimitiveGeometry = { shape: 'box', params: {} }
+
+const PRIMITIVE_PARAM_KEYS = Array.from(
+  new Set(
+    Object.values(PRIMITIVE_SHAPES).flatMap((shape) => shape.params.map((param) => param.key)),
+  ),
+)
+
+// Each case falls back to the editor's defaults, so geometryParams only needs overrides.
+const buildGeometrySwitchLines = () =>
+  Object.entries(PRIMITIVE_SHAPES)
+    .filter(([shape]) => shape !== 'box')
+    .flatMap(([shape, { className, params }]) => [
+      `      case '${shape}':`,
+      `        return new ${className}(`,
+      ...params.map((param) => `          geometryParams.${param.key} ?? ${param.defaultValue},`),
+      `        );`,
+    ])
+
+const PREVIEW_OBJECT_IMPORTS: Record<PreviewPrimitive, string[]> = {
+  mesh: ['Mesh'],
+  points: ['InstancedBufferAttribute', 'PlaneGeometry', 'Sprite'],
+  line: ['LineSegments', 'WireframeGeometry'],
+  sprite: ['PlaneGeometry', 'Sprite'],
+}
+
+// Mirrors createPreviewObject: points draw one instanced quad per vertex of the geometry.
+const buildPreviewObjectLines = (primitive: PreviewPrimitive) => {
+  switch (primitive) {
+    case 'points':
+      return [
+        `  const pointPositions = geometry.getAttribute('position');`,
+        `  const quad = new PlaneGeometry(1, 1);`,
+        `  quad.setAttribute(`,
+        `    '${POINT_POSITION_ATTRIBUTE}',`,
+        `    new InstancedBufferAttribute(pointPositions.array.slice(), 3),`,
+        `  );`,
+        `  const mesh = new Sprite(material);`,
+        `  mesh.geometry = quad;`,
+        `  mesh.count = pointPositions.count;`,
+      ]
+    case 'line':
+      return [
+        `  const mesh = new LineSegments(new WireframeGeometry(geometry), material);`,
+        `  mesh.computeLineDistances();`,
+      ]
+    case 'sprite':
+      return [`  const mesh = new Sprite(material);`, `  mesh.geometry = new PlaneGeometry(1, 1);`]
+    default:
+      return [`  const mesh = new Mesh(geometry, material);`]
+  }
+}
+
+export const buildCreateAppLines = (
+  format: CompileFormat,
+  exportPrefix: string,
+  environment: PreviewEnvironment = DEFAULT_PREVIEW_ENVIRONMENT,
+  geometry: PrimitiveGeometry = DEFAULT_APP_GEOMETRY,
+  primitive: PreviewPrimitive = 'mesh',
+) => {
+  const environmentLines = buildEnvironmentLines(environment)
+  const signature =
+    format === 'ts'
+      ? `${exportPrefix}const createApp = (options: TSLAppOptions): { dispose: () => void } => {`
+      : `${exportPrefix}const createApp = (options = {}) => {`
+  return [
+    signature,
+    `  const {`,
+    `    container,`,
+    `    textures = {},`,
+    `    geometryType = '${geometry.shape}',`,
+    `    geometryParams = ${formatPrimitiveParams(geometry.params)},`,
+    `    timeUniform: injectedTime,`,
+    `    environment = null,`,
+    `  } = options;`,
+    `  if (!container) {`,
+    `    throw new Error('Container is required');`,
+    `  }`,
+    `  if (!WebGPU.isAvailable()) {`,
+    `    container.textContent = 'WebGPU not available';`,
+    `    return { dispose: () => {} };`,
+    `  }`,
+    `  const renderer = new WebGPURenderer({ antialias: true });`,
+    `  renderer.setPixelRatio(window.devicePixelRatio || 1);`,
+    `  renderer.outputColorSpace = SRGBColorSpace;`,
+    ...environmentLines.renderer,
+    `  const scene = new Scene();`,
+    ...environmentLines.scene,
+    `  const camera = new PerspectiveCamera(45, 1, 0.1, 100);`,
+    `  camera.position.set(3.2, 2.6, 4);`,
+    `  camera.lookAt(0, 0, 0);`,
+    ...environmentLines.lights,
+    `  const geometry = (() => {`,
+    `    switch (geometryType) {`,
+    ...buildGeometrySwitchLines(),
+    `      default:`,
+    `        return new BoxGeometry(`,
+    ...PRIMITIVE_SHAPES.box.params.map(
+      (param) => `          geometryParams.${param.key} ?? ${param.defaultValue},`,
+    ),
+    `        );`,
+    `    }`,
+    `  })();`,
+    `  const materialResult = makeNodeMaterial({ textures, timeUniform: injectedTime });`,
+    `  const material = materialResult?.material ?? materialResult;`,
+    `  const uniforms = materialResult?.uniforms ?? { time: injectedTime ?? TSL.uniform(0) };`,
+    ...buildPreviewObjectLines(primitive),
+    `  scene.add(mesh);`,
+    `  const controls = new OrbitControls(camera, renderer.domElement);`,
+    `  controls.target.set(0, 0, 0);`,
+    `  controls.enableDamping = true;`,
+    `  const handleResize = () => {`,
+    `    const width = container.clientWidth || 1;`,
+    `    const height = container.clientHeight || 1;`,
+    `    camera.aspect = width / height;`,
+    `    camera.updateProjectionMatrix();`,
+    `    renderer.setSize(width, height);`,
+    `  };`,
+    `  window.addEventListener('resize', handleResize);`,
+    `  let disposed = false;`,
+    `  const startTime = performance.now();`,
+    `  const render = () => {`,
+    `    if (disposed) return;`,
+    `    uniforms.time.value = (performance.now() - startTime) / 1000;`,
+    `    controls.update();`,
+    `    renderer.render(scene, camera);`,
+    `  };`,
+    `  const init = async () => {`,
+    `    try {`,
+    `      await renderer.init();`,
+    `      if (disposed) return;`,
+    `      container.appendChild(renderer.domElement);`,
+    `      handleResize();`,
+    `      renderer.setAnimationLoop(render);`,
+    `    } catch (error) {`,
+    `      container.textContent = 'WebGPU init failed';`,
+    `    }`,
+    `  };`,
+    `  init();`,
+    `  return {`,
+    `    dispose: () => {`,
+    `      disposed = true;`,
+    `      window.removeEventListener('resize', handleResize);`,
+    `      renderer.setAnimationLoop(null);`,
+    `      controls.dispose();`,
+    `      geometry.dispose();`,
+    ...(primitive === 'mesh' ? [] : [`      mesh.geometry.dispose();`]),
+    `      material.dispose();`,
+    `      renderer.dispose();`,
+    `      if (renderer.domElement.parentElement === container) {`,
+    `        container.removeChild(renderer.domElement);`,
+    `      }`,
+    `    },`,
+    `  };`,
+    `};`,
+  ]
+}
+
+export const buildAppExport = (
+  code: string,
+  textureIds: string[],
+  format: CompileFormat,
+  style: ExportStyle,
+  environment: PreviewEnvironment = DEFAULT_PREVIEW_ENVIRONMENT,
+  geometry: PrimitiveGeometry = DEFAULT_APP_GEOMETRY,
+  primitive: PreviewPrimitive = 'mesh',
+) => {
+  const materialSnippet = buildMaterialExport(code, textureIds, format, style, false)
+  const lightImports = getPreviewLights(environment).map((light) => LIGHT_CLASSES[light.type])
+  const usesTextures = textureIds.length > 0
+  const needsVector2 = code.includes('new Vector2')
+  const webgpuImports = [
+    ...lightImports,
+    'Color',
+    ...PREVIEW_OBJECT_IMPORTS[primitive],
+    'PerspectiveCamera',
+    'Scene',
+    ...PRIMITIVE_GEOMETRY_CLASSES,
+    'WebGPURenderer',
+    ...getMaterialImports(code),
+  ]
+  const uniqueWebgpuImports = Array.from(new Set(webgpuImports))
+  const threeImports = [
+    usesTextures || format === 'ts' ? 'Texture' : null,
+    needsVector2 ? 'Vector2' : null,
+    'SRGBColorSpace',
+    TONE_MAPPING_CONSTANTS[environment.toneMapping],
+  ].filter(Boolean) as string[]
+  const exportPrefix = style === 'module' ? 'export ' : ''
+  const header =
+    format === 'ts'
+      ? [
+          `import { TSL } from 'three/tsl';`,
+          `import { ${uniqueWebgpuImports.join(', ')} } from 'three/webgpu';`,
+          ...(threeImports.length ? [`import { ${threeImports.join(', ')} } from 'three';`] : []),
+          `import WebGPU from 'three/addons/capabilities/WebGPU.js';`,
+          `import { OrbitControls } from 'three/addons/controls/OrbitControls.js';`,
+          ``,
+          `${exportPrefix}type TSLAppOptions = {`,
+          `  container: HTMLElement;`,
+          ...(usesTextures ? [`  textures?: Record<string, Texture>;`] : []),
+          `  geometryType?: ${Object.keys(PRIMITIVE_SHAPES)
+            .map((shape) => `'${shape}'`)
+            .join(' | ')};`,
+          `  geometryParams?: {`,
+          ...PRIMITIVE_PARAM_KEYS.map((key) => `    ${key}?: number;`),
+          `  };`,
+          `  timeUniform?: ReturnType<typeof TSL.uniform>;`,
+          `  environment?: Texture | null;`,
+          `};`,
+          ``,
+        ]
+      : [
+          `import { TSL } from 'three/tsl';`,
+          `import { ${uniqueWebgpuImports.join(', ')} } from 'three/webgpu';`,
+          ...(threeImports.length ? [`import { ${threeImports.join(', ')} } from 'three';`] : []),
+          `import WebGPU from 'three/addons/capabilities/WebGPU.js';`,
+          `import { OrbitControls } from 'three/addons/controls/OrbitControls.js';`,
+          ``,
+        ]
+  const appBody = buildCreateAppLines(format, exportPrefix, environment, geometry, primitive)
+  return [...header, materialSnippet, '', ...appBody].join('\n')
+}
+
+export const compileGraph = (source: GraphIRSource, options: CompileGraphOptions = {}) => {
+  const { target = 'tsl', format = 'js', style = 'module', environment, ...context } = options
+  const ir = buildGraphIR(source, context)
+  const code = emitTslCode(ir)
+  if (target === 'tsl') return code
+  const textureIds = getExportTextureIds(source, context)
+  return target === 'app'
+    ? buildAppExport(
+        code,
+        textureIds,
+        format,
+        style,
+        environment,
+        ir.geometry?.type === 'primitive' ? ir.geometry : undefined,
+        getPreviewPrimitive(ir.materialKind),
+      )
+    : buildMaterialExport(code, textureIds, format, style)
+}
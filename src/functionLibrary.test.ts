@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest'
+import {
+  getLocalFunctionCalls,
+  linkLibraryFunction,
+  publishLibraryFunction,
+  syncFunctionNodePins,
+  syncLinkedFunctions,
+} from './functionLibrary'
+import { createFunction, createNode, link } from './graphTestUtils'
+
+const createPinnedFunction = (id: string, inputs: string[]) =>
+  createFunction(id, {
+    name: `Fn ${id}`,
+    inputs: inputs.map((name) => ({ name, nodeId: `${id}-${name}` })),
+    outputs: [{ name: 'result', nodeId: `${id}-result` }],
+  })
+
+const createCall = (id: string, functionId: string, inputs: string[]) =>
+  createNode(id, 'function', { functionId, inputs, outputs: ['result'] })
+
+describe('publishLibraryFunction', () => {
+  it('bumps the version of an entry that is already published', () => {
+    const first = publishLibraryFunction(createPinnedFunction('fn', ['value']), {})
+    expect(first).toMatchObject({ id: 'fn', version: 1, definition: { id: 'fn' } })
+    const linked = linkLibraryFunction(first)
+    const second = publishLibraryFunction({ ...linked, id: 'local-copy' }, { fn: first })
+    expect(second).toMatchObject({ id: 'fn', version: 2, definition: { id: 'fn' } })
+    expect(second.definition.library).toBeUndefined()
+  })
+})
+
+describe('getLocalFunctionCalls', () => {
+  it('names each slot function a definition calls', () => {
+    const helper = createPinnedFunction('helper', ['value'])
+    const def = createFunction('fn', {
+      nodes: [
+        createCall('a', 'helper', []),
+        createCall('b', 'helper', []),
+        createCall('c', 'missing', []),
+      ],
+    })
+    expect(getLocalFunctionCalls(def, { helper })).toEqual(['Fn helper', 'missing'])
+    expect(getLocalFunctionCalls(helper, { helper })).toEqual([])
+  })
+})
+
+describe('syncLinkedFunctions', () => {
+  it('refreshes linked definitions when the library has a newer version', () => {
+    const entry = publishLibraryFunction(createPinnedFunction('fn', ['x']), {})
+    const stale = { ...linkLibraryFunction(entry), inputs: [], library: { id: 'fn', version: 0 } }
+    const functions = { local: { ...stale, id: 'local' } }
+    const next = syncLinkedFunctions(functions, { fn: entry })
+    expect(next.local).toMatchObject({ id: 'local', library: { id: 'fn', version: 1 } })
+    expect(next.local.inputs.map((pin) => pin.name)).toEqual(['x'])
+    expect(syncLinkedFunctions(next, { fn: entry })).toBe(next)
+  })
+})
+
+describe('syncFunctionNodePins', () => {
+  it('updates pin names and drops links to removed pins', () => {
+    const source = createCall('source', 'other', [])
+    const nodes = [source, createCall('call', 'fn', ['a', 'b'])]
+    const keep = link('source', 'result', 'call', 'a')
+    const connections = [keep, link('source', 'result', 'call', 'b')]
+    const synced = syncFunctionNodePins(nodes, connections, {
+      fn: createPinnedFunction('fn', ['a']),
+    })
+    expect(synced.nodes[1].inputs).toEqual(['a'])
+    expect(synced.connections).toEqual([keep])
+  })
+
+  it('returns the same arrays when nothing changed', () => {
+    const nodes = [createCall('call', 'fn', ['a'])]
+    const connections = [link('source', 'result', 'call', 'a')]
+    const functions = { fn: createPinnedFunction('fn', ['a']) }
+    const synced = syncFunctionNodePins(nodes, connections, functions)
+    expect(synced.nodes).toBe(nodes)
+    expect(synced.connections).toBe(connections)
+    expect(synced.functions).toBe(functions)
+  })
+
+  it('updates calls nested inside function bodies', () => {
+    const keep = link('source', 'result', 'call', 'a')
+    const outer = createFunction('outer', {
+      nodes: [createCall('source', 'other', []), createCall('call', 'fn', ['a', 'b'])],
+      connections: [keep, link('source', 'result', 'call', 'b')],
+    })
+    const synced = syncFunctionNodePins([], [], {
+      fn: createPinnedFunction('fn', ['a']),
+      outer,
+    })
+    expect(synced.functions.outer.nodes[1].inputs).toEqual(['a'])
+    expect(synced.functions.outer.connections).toEqual([keep])
+  })
+})
@@ -0,0 +1,133 @@
+import type { FunctionDefinition, GraphConnection, GraphNode } from './graph'
+
+export type LibraryFunction = {
+  id: string
+  name: string
+  version: number
+  updatedAt: number
+  definition: FunctionDefinition
+}
+
+export const LIBRARY_PALETTE_PREFIX = 'library:'
+
+const stripLibraryLink = (def: FunctionDefinition) => {
+  const definition = { ...def }
+  delete definition.library
+  return definition
+}
+
+// Library entries are shared across slots, so they cannot call functions local to one slot.
+export const getLocalFunctionCalls = (
+  def: FunctionDefinition,
+  functions: Record<string, FunctionDefinition>,
+) =>
+  Array.from(
+    new Set(
+      def.nodes
+        .filter((node) => node.type === 'function' && node.functionId)
+        .map((node) => functions[node.functionId as string]?.name ?? (node.functionId as string)),
+    ),
+  )
+
+export const publishLibraryFunction = (
+  def: FunctionDefinition,
+  library: Record<string, LibraryFunction>,
+): LibraryFunction => {
+  const id = def.library?.id ?? def.id
+  const previous = library[id]
+  return {
+    id,
+    name: def.name,
+    version: (previous?.version ?? 0) + 1,
+    updatedAt: Date.now(),
+    definition: { ...stripLibraryLink(def), id },
+  }
+}
+
+export const linkLibraryFunction = (entry: LibraryFunction): FunctionDefinition => ({
+  ...entry.definition,
+  id: entry.id,
+  name: entry.name,
+  library: { id: entry.id, version: entry.version },
+})
+
+export const detachLibraryFunction = (def: FunctionDefinition) => stripLibraryLink(def)
+
+export const getLinkedFunctionId = (
+  entry: LibraryFunction,
+  functions: Record<string, FunctionDefinition>,
+) =>
+  Object.values(functions).find((def) => def.library?.id === entry.id)?.id ??
+  (functions[entry.id] ? `${entry.id}-${Date.now()}` : entry.id)
+
+export const syncLinkedFunctions = (
+  functions: Record<string, FunctionDefinition>,
+  library: Record<string, LibraryFunction>,
+) => {
+  let changed = false
+  const next = Object.fromEntries(
+    Object.entries(functions).map(([id, def]) => {
+      const entry = def.library ? library[def.library.id] : undefined
+      if (!entry || !def.library || entry.version <= def.library.version) return [id, def]
+      changed = true
+      return [id, { ...linkLibraryFunction(entry), id }]
+    }),
+  )
+  return changed ? next : functions
+}
+
+const samePins = (a: string[], b: string[]) =>
+  a.length === b.length && a.every((name, index) => name === b[index])
+
+const syncScopePins = (
+  nodes: GraphNode[],
+  connections: GraphConnection[],
+  functions: Record<string, FunctionDefinition>,
+) => {
+  let changed = false
+  const next = nodes.map((node) => {
+    const def = node.type === 'function' && node.functionId ? functions[node.functionId] : null
+    if (!def) return node
+    const inputs = def.inputs.map((pin) => pin.name)
+    const outputs = def.outputs.map((pin) => pin.name)
+    if (samePins(inputs, node.inputs) && samePins(outputs, node.outputs)) return node
+    changed = true
+    return { ...node, inputs, outputs }
+  })
+  if (!changed) return { nodes, connections }
+  const nodeMap = new Map(next.map((node) => [node.id, node]))
+  const nextConnections = connections.filter((connection) => {
+    const from = nodeMap.get(connection.from.nodeId)
+    const to = nodeMap.get(connection.to.nodeId)
+    return (
+      (from?.type !== 'function' || from.outputs.includes(connection.from.pin)) &&
+      (to?.type !== 'function' || to.inputs.includes(connection.to.pin))
+    )
+  })
+  return {
+    nodes: next,
+    connections: nextConnections.length === connections.length ? connections : nextConnections,
+  }
+}
+
+// Function nodes cache their pin names, so keep them in step with a refreshed definition and
+// drop the links to pins it no longer has, in the main graph and inside function bodies.
+export const syncFunctionNodePins = (
+  nodes: GraphNode[],
+  connections: GraphConnection[],
+  functions: Record<string, FunctionDefinition>,
+) => {
+  let changed = false
+  const nextFunctions = Object.fromEntries(
+    Object.entries(functions).map(([id, def]) => {
+      const body = syncScopePins(def.nodes, def.connections, functions)
+      if (body.nodes === def.nodes) return [id, def]
+      changed = true
+      return [id, { ...def, ...body }]
+    }),
+  )
+  return {
+    ...syncScopePins(nodes, connections, functions),
+    functions: changed ? nextFunctions : functions,
+  }
+}
@@ -0,0 +1,185 @@
+export type PrimitiveParam = {
+  key: string
+  label: string
+  defaultValue: number
+  min: number
+  step: number
+  integer?: boolean
+}
+
+export type PrimitiveShape = {
+  label: string
+  className: string
+  // Listed in constructor argument order.
+  params: PrimitiveParam[]
+}
+
+export type PrimitiveGeometry = { shape: string; params: Record<string, number> }
+
+const size = (key: string, label: string, defaultValue: number): PrimitiveParam => ({
+  key,
+  label,
+  defaultValue,
+  min: 0,
+  step: 0.05,
+})
+
+const segments = (key: string, label: string, defaultValue: number, min = 1): PrimitiveParam => ({
+  key,
+  label,
+  defaultValue,
+  min,
+  step: 1,
+  integer: true,
+})
+
+export const PRIMITIVE_SHAPES: Record<string, PrimitiveShape> = {
+  box: {
+    label: 'Box',
+    className: 'BoxGeometry',
+    params: [
+      size('width', 'Width', 1),
+      size('height', 'Height', 1),
+      size('depth', 'Depth', 1),
+      segments('widthSegments', 'Width segs', 1),
+      segments('heightSegments', 'Height segs', 1),
+      segments('depthSegments', 'Depth segs', 1),
+    ],
+  },
+  sphere: {
+    label: 'Sphere',
+    className: 'SphereGeometry',
+    params: [
+      size('radius', 'Radius', 0.75),
+      segments('widthSegments', 'Width segs', 32, 3),
+      segments('heightSegments', 'Height segs', 16, 2),
+    ],
+  },
+  icosphere: {
+    label: 'Icosphere',
+    className: 'IcosahedronGeometry',
+    params: [size('radius', 'Radius', 0.75), segments('detail', 'Detail', 3, 0)],
+  },
+  plane: {
+    label: 'Plane',
+    className: 'PlaneGeometry',
+    params: [
+      size('width', 'Width', 1.5),
+      size('height', 'Height', 1.5),
+      segments('widthSegments', 'Width segs', 1),
+      segments('heightSegments', 'Height segs', 1),
+    ],
+  },
+  subdividedPlane: {
+    label: 'Subdivided Plane',
+    className: 'PlaneGeometry',
+    params: [
+      size('width', 'Width', 1.5),
+      size('height', 'Height', 1.5),
+      segments('widthSegments', 'Width segs', 128),
+      segments('heightSegments', 'Height segs', 128),
+    ],
+  },
+  torus: {
+    label: 'Torus',
+    className: 'TorusGeometry',
+    params: [
+      size('radius', 'Radius', 0.6),
+      size('tube', 'Tube', 0.25),
+      segments('radialSegments', 'Radial segs', 24, 2),
+      segments('tubularSegments', 'Tubular segs', 64, 3),
+    ],
+  },
+  torusKnot: {
+    label: 'Torus Knot',
+    className: 'TorusKnotGeometry',
+    params: [
+      size('radius', 'Radius', 0.5),
+      size('tube', 'Tube', 0.16),
+      segments('tubularSegments', 'Tubular segs', 128, 3),
+      segments('radialSegments', 'Radial segs', 16, 3),
+      segments('p', 'P', 2),
+      segments('q', 'Q', 3),
+    ],
+  },
+  cylinder: {
+    label: 'Cylinder',
+    className: 'CylinderGeometry',
+    params: [
+      size('radiusTop', 'Top radius', 0.5),
+      size('radiusBottom', 'Bottom radius', 0.5),
+      size('height', 'Height', 1.2),
+      segments('radialSegments', 'Radial segs', 24, 3),
+      segments('heightSegments', 'Height segs', 1),
+    ],
+  },
+  cone: {
+    label: 'Cone',
+    className: 'ConeGeometry',
+    params: [
+      size('radius', 'Radius', 0.6),
+      size('height', 'Height', 1.2),
+      segments('radialSegments', 'Radial segs', 32, 3),
+      segments('heightSegments', 'Height segs', 1),
+    ],
+  },
+  capsule: {
+    label: 'Capsule',
+    className: 'CapsuleGeometry',
+    params: [
+      size('radius', 'Radius', 0.4),
+      size('height', 'Height', 0.8),
+      segments('capSegments', 'Cap segs', 8),
+      segments('radialSegments', 'Radial segs', 24, 3),
+      segments('heightSegments', 'Height segs', 1),
+    ],
+  },
+  ring: {
+    label: 'Ring',
+    className: 'RingGeometry',
+    params: [
+      size('innerRadius', 'Inner radius', 0.35),
+      size('outerRadius', 'Outer radius', 0.75),
+      segments('thetaSegments', 'Theta segs', 48, 3),
+      segments('phiSegments', 'Phi segs', 1),
+    ],
+  },
+}
+
+export const PRIMITIVE_GEOMETRY_CLASSES = Array.from(
+  new Set(Object.values(PRIMITIVE_SHAPES).map((shape) => shape.className)),
+)
+
+export const getPrimitiveShape = (shape: string) => PRIMITIVE_SHAPES[shape] ?? PRIMITIVE_SHAPES.box
+
+const clampParam = (param: PrimitiveParam, value: number) => {
+  const clamped = Math.max(param.min, value)
+  return param.integer ? Math.round(clamped) : clamped
+}
+
+// Keeps only finite values for the shape's own parameters; the rest fall back to defaults.
+export const sanitizePrimitiveParams = (shape: string, params?: Record<string, unknown>) =>
+  Object.fromEntries(
+    getPrimitiveShape(shape).params.flatMap((param) => {
+      const value = params?.[param.key]
+      return typeof value === 'number' && Number.isFinite(value)
+        ? [[param.key, clampParam(param, value)]]
+        : []
+    }),
+  ) as Record<string, number>
+
+export const getPrimitiveArgs = (shape: string, params: Record<string, number> = {}) =>
+  getPrimitiveShape(shape).params.map((param) =>
+    clampParam(param, params[param.key] ?? param.defaultValue),
+  )
+
+export const formatPrimitiveConstructor = (geometry: PrimitiveGeometry) =>
+  `${getPrimitiveShape(geometry.shape).className}(` +
+  `${getPrimitiveArgs(geometry.shape, geometry.params).join(', ')})`
+
+export const formatPrimitiveParams = (params: Record<string, number>) => {
+  const entries = Object.entries(params)
+  return entries.length
+    ? `{ ${entries.map(([key, value]) => `${key}: ${value}`).join(', ')} }`
+    : '{}'
+}
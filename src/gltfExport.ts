@@ -0,0 +1,192 @@
+import { Color, type BufferGeometry, type Material } from 'three'
+import {
+  BoxGeometry,
+  CapsuleGeometry,
+  ConeGeometry,
+  CylinderGeometry,
+  IcosahedronGeometry,
+  LineBasicNodeMaterial,
+  LineDashedNodeMaterial,
+  MeshBasicNodeMaterial,
+  MeshLambertNodeMaterial,
+  MeshPhongNodeMaterial,
+  MeshPhysicalNodeMaterial,
+  MeshStandardNodeMaterial,
+  MeshToonNodeMaterial,
+  PlaneGeometry,
+  PointsNodeMaterial,
+  RingGeometry,
+  Scene,
+  SphereGeometry,
+  type Sprite,
+  SpriteNodeMaterial,
+  TorusGeometry,
+  TorusKnotGeometry,
+  type NodeMaterial,
+} from 'three/webgpu'
+import { uniform } from 'three/tsl'
+import { GLTFExporter } from 'three/addons/exporters/GLTFExporter.js'
+import { THREEMaterialsTSLExporterPlugin } from '@takahirox/gltf-three-materials-tsl-exporter'
+import { createDefaultNodeSerializer } from './tslGltfExporter'
+import { applyTslMaterial, createTslNodeEmitter } from './graphEmitters'
+import {
+  buildGraphIR,
+  type GraphIR,
+  type GraphIRContext,
+  type GraphIRSource,
+  type IRGeometry,
+  type MaterialKind,
+} from './graphIR'
+import { getPrimitiveArgs, getPrimitiveShape } from './geometryPrimitives'
+import {
+  createPreviewObject,
+  getPreviewPrimitive,
+  type PreviewObject,
+} from './previewObjects'
+
+export type GltfExportResult = ArrayBuffer | Record<string, unknown>
+
+export const GLTF_MATERIAL_ENTRYPOINTS = [
+  'colorNode',
+  'roughnessNode',
+  'metalnessNode',
+  'emissiveNode',
+  'opacityNode',
+  'alphaTestNode',
+  'positionNode',
+  'clearcoatNode',
+  'clearcoatRoughnessNode',
+  'sheenNode',
+  'sheenRoughnessNode',
+  'iridescenceNode',
+  'iridescenceIORNode',
+  'iridescenceThicknessNode',
+  'transmissionNode',
+  'thicknessNode',
+  'attenuationColorNode',
+  'attenuationDistanceNode',
+  'iorNode',
+  'dispersionNode',
+  'specularIntensityNode',
+  'specularColorNode',
+  'anisotropyNode',
+  'shininessNode',
+  'specularNode',
+  'sizeNode',
+  'dashSizeNode',
+  'gapSizeNode',
+  'dashScaleNode',
+  'offsetNode',
+  'rotationNode',
+  'scaleNode',
+  'normalNode',
+]
+
+// Constructors only receive the leading numeric arguments listed in PRIMITIVE_SHAPES.
+const PRIMITIVE_GEOMETRIES: Record<string, new (...args: never[]) => BufferGeometry> = {
+  BoxGeometry,
+  CapsuleGeometry,
+  ConeGeometry,
+  CylinderGeometry,
+  IcosahedronGeometry,
+  PlaneGeometry,
+  RingGeometry,
+  SphereGeometry,
+  TorusGeometry,
+  TorusKnotGeometry,
+}
+
+export const createPrimitiveGeometry = (
+  shape: string,
+  params?: Record<string, number>,
+): BufferGeometry => {
+  const Geometry = PRIMITIVE_GEOMETRIES[getPrimitiveShape(shape).className]
+  return new Geometry(...(getPrimitiveArgs(shape, params) as never[]))
+}
+
+export const NODE_MATERIAL_CLASSES: Record<MaterialKind, new () => NodeMaterial> = {
+  standard: MeshStandardNodeMaterial,
+  physical: MeshPhysicalNodeMaterial,
+  basic: MeshBasicNodeMaterial,
+  toon: MeshToonNodeMaterial,
+  lambert: MeshLambertNodeMaterial,
+  phong: MeshPhongNodeMaterial,
+  points: PointsNodeMaterial,
+  line: LineBasicNodeMaterial,
+  lineDashed: LineDashedNodeMaterial,
+  sprite: SpriteNodeMaterial,
+}
+
+export const createNodeMaterial = (kind: MaterialKind) => new NODE_MATERIAL_CLASSES[kind]()
+
+// glTF and mesh file geometry comes from loaded assets, so the caller supplies it.
+export type GeometryLoader = (geometry: IRGeometry) => BufferGeometry | null
+
+const createGraphGeometry = (ir: GraphIR, loadGeometry: GeometryLoader) => {
+  if (!ir.geometry) return createPrimitiveGeometry('box')
+  if (ir.geometry.type === 'primitive') {
+    return createPrimitiveGeometry(ir.geometry.shape, ir.geometry.params)
+  }
+  const geometry = loadGeometry(ir.geometry)
+  if (!geometry) {
+    throw new Error(`No geometry loaded for ${ir.geometry.type} node "${ir.geometry.node.label}"`)
+  }
+  return geometry
+}
+
+export const buildGraphObject = (
+  source: GraphIRSource,
+  context: GraphIRContext = {},
+  loadGeometry: GeometryLoader = () => null,
+) => {
+  const ir = buildGraphIR(source, context)
+  const emitter = createTslNodeEmitter(ir, {
+    numberUniform: (_node, value) => uniform(value),
+    colorUniform: (_node, value) => uniform(new Color(value)),
+    time: uniform(0),
+    getTexture: () => null,
+  })
+  const material = createNodeMaterial(ir.materialKind)
+  applyTslMaterial(ir, material, emitter, () => null)
+  const geometry = createGraphGeometry(ir, loadGeometry)
+  return createPreviewObject(geometry, material, getPreviewPrimitive(ir.materialKind))
+}
+
+export const exportMeshesToGltf = (meshes: PreviewObject[], options: { binary?: boolean } = {}) =>
+  new Promise<GltfExportResult>((resolve, reject) => {
+    // GLTFExporter skips sprites, which is how points and sprite materials are drawn.
+    if (meshes.some((mesh) => (mesh as Sprite).isSprite)) {
+      reject(new Error('Points and sprite materials cannot be exported to glTF'))
+      return
+    }
+    const exporter = new GLTFExporter()
+    const scene = new Scene()
+    const rawMaterial = meshes[0]?.material
+    const primaryMaterial = (Array.isArray(rawMaterial) ? rawMaterial[0] : rawMaterial) as
+      | Material
+      | undefined
+    const entrypoints = primaryMaterial
+      ? GLTF_MATERIAL_ENTRYPOINTS.filter((slot) =>
+          Boolean((primaryMaterial as unknown as Record<string, unknown>)[slot]),
+        )
+      : []
+    exporter.register(
+      (writer) =>
+        new THREEMaterialsTSLExporterPlugin(writer, {
+          entrypoints,
+          nodeSerializer: createDefaultNodeSerializer(),
+        }),
+    )
+    meshes.forEach((mesh) => {
+      const clone = mesh.clone()
+      clone.updateMatrix()
+      clone.updateMatrixWorld(true)
+      scene.add(clone)
+    })
+    exporter.parse(
+      scene,
+      (result) => resolve(result as GltfExportResult),
+      (error) => reject(error),
+      { binary: options.binary ?? false },
+    )
+  })
@@ -0,0 +1,108 @@
+import {
+  Box3,
+  Group,
+  Vector3,
+  type AnimationClip,
+  type Material,
+  type Mesh,
+  type Object3D,
+} from 'three'
+import { clone as cloneSkinned } from 'three/addons/utils/SkeletonUtils.js'
+import type { GraphNode } from './graph'
+
+export const GLTF_SCENE_MESH_INDEX = 'scene'
+
+export type GltfSceneMaterialMode = 'graph' | 'original'
+
+export type GltfSceneMaterialRule = { pattern: string; mode: GltfSceneMaterialMode }
+
+export type GltfSceneMaterials = {
+  fallback: GltfSceneMaterialMode
+  // Name patterns are checked in order; `*` matches any run of characters.
+  rules: GltfSceneMaterialRule[]
+  // Per-mesh choices keyed by traversal index; these win over rules.
+  meshes: Record<string, GltfSceneMaterialMode>
+}
+
+export const DEFAULT_GLTF_SCENE_MATERIALS: GltfSceneMaterials = {
+  fallback: 'graph',
+  rules: [],
+  meshes: {},
+}
+
+// Preview fits the whole asset into roughly the space the primitive shapes occupy.
+const PREVIEW_SCENE_RADIUS = 1.2
+
+export const isGltfSceneNode = (node: GraphNode) =>
+  node.type === 'gltf' && node.meshIndex === GLTF_SCENE_MESH_INDEX
+
+export const getGltfSceneMaterials = (node: GraphNode): GltfSceneMaterials => ({
+  ...DEFAULT_GLTF_SCENE_MATERIALS,
+  ...node.sceneMaterials,
+})
+
+const escapePattern = (value: string) => value.replace(/[.+?^${}()|[\]\\]/g, '\\$&')
+
+export const matchesMeshPattern = (pattern: string, name: string) => {
+  const trimmed = pattern.trim()
+  if (!trimmed) return false
+  const source = trimmed.split('*').map(escapePattern).join('.*')
+  return new RegExp(`^${source}$`, 'i').test(name)
+}
+
+export const resolveGltfSceneMaterial = (
+  settings: GltfSceneMaterials,
+  meshIndex: number,
+  meshName: string,
+): GltfSceneMaterialMode =>
+  settings.meshes[String(meshIndex)] ??
+  settings.rules.find((rule) => matchesMeshPattern(rule.pattern, meshName))?.mode ??
+  settings.fallback
+
+// An unset clip plays the first animation; an empty string turns playback off.
+export const getGltfAnimationClip = (node: GraphNode, clips: AnimationClip[]) => {
+  if (!clips.length || node.animationClip === '') return null
+  const parsed = Number(node.animationClip ?? 0)
+  return Number.isInteger(parsed) && parsed >= 0 && parsed < clips.length
+    ? clips[parsed]
+    : clips[0]
+}
+
+export type GltfScenePreview = {
+  root: Group
+  // Meshes that render with the graph material; the rest keep their glTF materials.
+  graphMeshes: Mesh[]
+}
+
+// Clones share geometry and materials with the loaded asset, so disposing the preview
+// only detaches it; the asset entry owns the GPU resources. Skinned meshes are rebound to
+// the cloned bones so animation clips drive the preview copy.
+export const createGltfScenePreview = (
+  scene: Object3D,
+  settings: GltfSceneMaterials,
+  material: Material,
+): GltfScenePreview => {
+  const content = cloneSkinned(scene)
+  const graphMeshes: Mesh[] = []
+  let meshIndex = 0
+  content.traverse((child) => {
+    const mesh = child as Mesh
+    if (!mesh.isMesh) return
+    if (resolveGltfSceneMaterial(settings, meshIndex, mesh.name || '') === 'graph') {
+      mesh.material = material
+      graphMeshes.push(mesh)
+    }
+    meshIndex += 1
+  })
+
+  const root = new Group()
+  root.add(content)
+  const bounds = new Box3().setFromObject(content)
+  if (!bounds.isEmpty()) {
+    const radius = bounds.getSize(new Vector3()).length() / 2
+    const scale = radius > 0 ? PREVIEW_SCENE_RADIUS / radius : 1
+    root.scale.setScalar(scale)
+    root.position.copy(bounds.getCenter(new Vector3()).multiplyScalar(-scale))
+  }
+  return { root, graphMeshes }
+}
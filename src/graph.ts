@@ -0,0 +1,750 @@
+import type {
+  AnimationClip,
+  BufferGeometry,
+  Color,
+  Material,
+  Object3D,
+  Texture,
+  Vector2,
+} from 'three'
+import type { GltfSceneMaterials } from './gltfScene'
+
+export type GraphNode = {
+  id: string
+  type: string
+  label: string
+  x: number
+  y: number
+  inputs: string[]
+  outputs: string[]
+  value?: number | string
+  slider?: boolean
+  textureKey?: string
+  textureName?: string
+  assetKey?: string
+  assetName?: string
+  meshIndex?: string
+  materialIndex?: string
+  textureIndex?: string
+  geometryParams?: Record<string, number>
+  sceneMaterials?: GltfSceneMaterials
+  animationClip?: string
+  attributeType?: AttributeNodeType
+  recomputeNormals?: boolean
+  updateMode?: UniformUpdateMode
+  updateSource?: UniformUpdateSource
+  functionId?: string
+}
+
+export type AttributeNodeType = 'float' | 'vec2' | 'vec3' | 'vec4'
+
+export type UniformUpdateMode = 'manual' | 'frame' | 'render' | 'object'
+export type UniformUpdateSource =
+  | 'value'
+  | 'time'
+  | 'objectPositionX'
+  | 'objectPositionY'
+  | 'objectPositionZ'
+  | 'objectRotationX'
+  | 'objectRotationY'
+  | 'objectRotationZ'
+  | 'objectScaleX'
+  | 'objectScaleY'
+  | 'objectScaleZ'
+  | 'cameraPositionX'
+  | 'cameraPositionY'
+  | 'cameraPositionZ'
+
+export type GraphConnection = {
+  id: string
+  from: { nodeId: string; pin: string }
+  to: { nodeId: string; pin: string }
+}
+
+export type GraphGroup = {
+  id: string
+  label: string
+  nodeIds: string[]
+  collapsed?: boolean
+}
+
+export type FunctionPin = {
+  name: string
+  nodeId: string
+}
+
+export type FunctionDefinition = {
+  id: string
+  name: string
+  nodes: GraphNode[]
+  connections: GraphConnection[]
+  inputs: FunctionPin[]
+  outputs: FunctionPin[]
+  library?: { id: string; version: number }
+}
+
+export type NodeMap = Map<string, GraphNode>
+export type ConnectionMap = Map<string, GraphConnection>
+type OutputPin = 'baseColor' | 'roughness' | 'metalness'
+export type ExprKind = 'color' | 'number' | 'vec2' | 'vec3' | 'vec4' | 'mat2' | 'mat3' | 'mat4'
+
+type GltfTextureInfo = {
+  texture?: Texture | null
+  scale?: Vector2
+  strength?: number
+}
+type GltfPbrMetallicRoughness = {
+  baseColorFactor?: number[]
+  baseColorTexture?: GltfTextureInfo
+  metallicFactor?: number
+  roughnessFactor?: number
+  metallicRoughnessTexture?: GltfTextureInfo
+}
+export type GltfMaterial = Material & {
+  [key: string]: unknown
+  color?: Color
+  map?: Texture | null
+  roughness?: number
+  roughnessMap?: Texture | null
+  metalness?: number
+  metalnessMap?: Texture | null
+  emissive?: Color
+  emissiveMap?: Texture | null
+  emissiveIntensity?: number
+  normalMap?: Texture | null
+  normalScale?: Vector2
+  aoMap?: Texture | null
+  aoMapIntensity?: number
+  envMap?: Texture | null
+  envMapIntensity?: number
+  opacity?: number
+  alphaTest?: number
+  alphaHash?: boolean
+  name?: string
+  pbrMetallicRoughness?: GltfPbrMetallicRoughness
+  emissiveFactor?: number[]
+  emissiveTexture?: GltfTextureInfo
+  emissiveStrength?: number
+  normalTexture?: GltfTextureInfo
+  occlusionTexture?: GltfTextureInfo
+  clearcoatFactor?: number
+  clearcoatTexture?: GltfTextureInfo
+  clearcoatRoughnessFactor?: number
+  clearcoatRoughnessTexture?: GltfTextureInfo
+  clearcoatNormalTexture?: GltfTextureInfo
+  sheenColorFactor?: number[]
+  sheenColorTexture?: GltfTextureInfo
+  sheenRoughnessFactor?: number
+  sheenRoughnessTexture?: GltfTextureInfo
+  iridescenceFactor?: number
+  iridescenceTexture?: GltfTextureInfo
+  iridescenceIOR?: number
+  iridescenceThicknessRange?: [number, number]
+  iridescenceThicknessTexture?: GltfTextureInfo
+  ior?: number
+  transmissionFactor?: number
+  transmissionTexture?: GltfTextureInfo
+  thicknessFactor?: number
+  thicknessTexture?: GltfTextureInfo
+  attenuationColor?: number[]
+  attenuationDistance?: number
+  specularColorFactor?: number[]
+  specularColorTexture?: GltfTextureInfo
+  specularFactor?: number
+  specularTexture?: GltfTextureInfo
+}
+
+export type GltfAssetEntry = {
+  src: string
+  geometries: BufferGeometry[]
+  materials: Material[]
+  meshNames: string[]
+  textures: Texture[]
+  scene: Object3D
+  animations: AnimationClip[]
+}
+
+export const buildNodeMap = (nodes: GraphNode[]): NodeMap =>
+  new Map(nodes.map((node) => [node.id, node]))
+export const buildConnectionMap = (connections: GraphConnection[]): ConnectionMap =>
+  new Map(
+    connections.map((connection) => [
+      `${connection.to.nodeId}:${connection.to.pin}`,
+      connection,
+    ]),
+  )
+
+export const sanitizeConnections = (
+  connections: GraphConnection[],
+  nodes: GraphNode[],
+): GraphConnection[] => {
+  const nodeIds = new Set(nodes.map((node) => node.id))
+  const seenTargets = new Set<string>()
+  const next: GraphConnection[] = []
+  connections.forEach((connection) => {
+    if (!nodeIds.has(connection.from.nodeId) || !nodeIds.has(connection.to.nodeId)) {
+      return
+    }
+    const key = `${connection.to.nodeId}:${connection.to.pin}`
+    if (seenTargets.has(key)) return
+    seenTargets.add(key)
+    next.push(connection)
+  })
+  return next
+}
+
+const getFunctionCalls = (def: FunctionDefinition) =>
+  def.nodes
+    .filter((node) => node.type === 'function' && node.functionId)
+    .map((node) => node.functionId as string)
+
+// Returns each call chain that re-enters a function already on the chain, e.g. [a, b, a].
+export const findRecursiveFunctions = (functions: Record<string, FunctionDefinition>) => {
+  const cycles: string[][] = []
+  const seen = new Set<string>()
+  const done = new Set<string>()
+  const visit = (id: string, path: string[]) => {
+    if (path.includes(id)) {
+      const cycle = [...path.slice(path.indexOf(id)), id]
+      const key = [...cycle.slice(0, -1)].sort().join('\n')
+      if (!seen.has(key)) {
+        seen.add(key)
+        cycles.push(cycle)
+      }
+      return
+    }
+    const def = functions[id]
+    if (!def || done.has(id)) return
+    getFunctionCalls(def).forEach((callee) => visit(callee, [...path, id]))
+    done.add(id)
+  }
+  Object.keys(functions).forEach((id) => visit(id, []))
+  return cycles
+}
+
+export const functionCallsFunction = (
+  functions: Record<string, FunctionDefinition>,
+  callerId: string,
+  calleeId: string,
+) => {
+  const visited = new Set<string>()
+  const visit = (id: string): boolean => {
+    if (id === callerId) return true
+    if (visited.has(id)) return false
+    visited.add(id)
+    const def = functions[id]
+    return def ? getFunctionCalls(def).some(visit) : false
+  }
+  return visit(calleeId)
+}
+
+export const getExpandedNodeId = (callId: string, nodeId: string) => `fn-${callId}-${nodeId}`
+
+export const expandFunctions = (
+  nodes: GraphNode[],
+  connections: GraphConnection[],
+  functions: Record<string, FunctionDefinition>,
+  callStack: string[] = [],
+): { nodes: GraphNode[]; connections: GraphConnection[] } => {
+  const functionNodes = nodes.filter((node) => node.type === 'function' && node.functionId)
+  if (!functionNodes.length) {
+    return { nodes, connections }
+  }
+
+  const expandedNodes = nodes.filter((node) => node.type !== 'function')
+  const expandedConnections = connections.filter(
+    (connection) =>
+      !functionNodes.some(
+        (node) =>
+          node.id === connection.from.nodeId || node.id === connection.to.nodeId,
+      ),
+  )
+
+  const inputTargets = new Map<string, string>()
+  const outputSources = new Map<string, string>()
+  functionNodes.forEach((fnNode) => {
+    const def = fnNode.functionId ? functions[fnNode.functionId] : null
+    // Recursive calls cannot be inlined; they are dropped and reported by the linter.
+    if (!def || callStack.includes(def.id)) return
+    const body = expandFunctions(def.nodes, def.connections, functions, [...callStack, def.id])
+    const prefix = getExpandedNodeId(fnNode.id, '')
+    const idMap = new Map(body.nodes.map((node) => [node.id, `${prefix}${node.id}`]))
+    def.inputs.forEach((pin) => {
+      const id = idMap.get(pin.nodeId)
+      if (id) inputTargets.set(`${fnNode.id}:${pin.name}`, id)
+    })
+    def.outputs.forEach((pin) => {
+      const id = idMap.get(pin.nodeId)
+      if (id) outputSources.set(`${fnNode.id}:${pin.name}`, id)
+    })
+    body.nodes.forEach((node) => {
+      const id = idMap.get(node.id)
+      if (!id) return
+      expandedNodes.push({ ...node, id })
+    })
+    body.connections.forEach((connection) => {
+      const fromId = idMap.get(connection.from.nodeId)
+      const toId = idMap.get(connection.to.nodeId)
+      if (!fromId || !toId) return
+      expandedConnections.push({
+        ...connection,
+        id: `${prefix}${connection.id}`,
+        from: { ...connection.from, nodeId: fromId },
+        to: { ...connection.to, nodeId: toId },
+      })
+    })
+  })
+
+  // Wires touching a call are rerouted to the callee's functionInput/functionOutput nodes;
+  // resolving both ends at once keeps call-to-call wires intact.
+  const functionNodeIds = new Set(functionNodes.map((node) => node.id))
+  connections.forEach((connection) => {
+    const fromCall = functionNodeIds.has(connection.from.nodeId)
+    const toCall = functionNodeIds.has(connection.to.nodeId)
+    if (!fromCall && !toCall) return
+    const sourceId = fromCall
+      ? outputSources.get(`${connection.from.nodeId}:${connection.from.pin}`)
+      : connection.from.nodeId
+    const targetId = toCall
+      ? inputTargets.get(`${connection.to.nodeId}:${connection.to.pin}`)
+      : connection.to.nodeId
+    if (!sourceId || !targetId) return
+    expandedConnections.push({
+      id: `fn-${connection.id}`,
+      from: fromCall ? { nodeId: sourceId, pin: 'value' } : connection.from,
+      to: toCall ? { nodeId: targetId, pin: 'value' } : connection.to,
+    })
+  })
+
+  return { nodes: expandedNodes, connections: expandedConnections }
+}
+
+export const DEFAULT_COLOR = '#4fb3c8'
+export const FALLBACK_COLOR = 0x111316
+
+export const getOutputConnection = (
+  connectionMap: ConnectionMap,
+  outputNode: GraphNode | undefined,
+  pin: OutputPin,
+) => (outputNode ? connectionMap.get(`${outputNode.id}:${pin}`) ?? null : null)
+
+const ATTRIBUTE_NODE_KIND: Record<string, 'vec2' | 'vec3'> = {
+  position: 'vec3',
+  normal: 'vec3',
+  tangent: 'vec3',
+  bitangent: 'vec3',
+  uv: 'vec2',
+  uv2: 'vec2',
+}
+
+
+export const getAttributeKind = (nodeType: string): 'vec2' | 'vec3' | null =>
+  ATTRIBUTE_NODE_KIND[nodeType] ?? null
+
+export const ATTRIBUTE_NODE_TYPES: Record<AttributeNodeType, ExprKind> = {
+  float: 'number',
+  vec2: 'vec2',
+  vec3: 'vec3',
+  vec4: 'vec4',
+}
+
+const ATTRIBUTE_NAME = /^[A-Za-z_][\w]*$/
+
+// Names end up in generated code, so anything that is not a plain identifier reads as missing.
+export const getAttributeNodeName = (node: GraphNode) => {
+  const name = typeof node.value === 'string' ? node.value.trim() : ''
+  return ATTRIBUTE_NAME.test(name) ? name : ''
+}
+
+export const getAttributeNodeType = (node: GraphNode): AttributeNodeType =>
+  node.attributeType && node.attributeType in ATTRIBUTE_NODE_TYPES ? node.attributeType : 'vec3'
+
+export const getAttributeTypeForItemSize = (itemSize: number): AttributeNodeType =>
+  itemSize <= 1 ? 'float' : itemSize === 2 ? 'vec2' : itemSize === 3 ? 'vec3' : 'vec4'
+
+export const getVaryingName = (node: GraphNode) =>
+  typeof node.value === 'string' ? node.value.trim() : ''
+
+// Varying Get nodes read the first Varying Set with the same name.
+export const findVaryingSource = (nodes: Iterable<GraphNode>, name: string) => {
+  if (!name) return null
+  for (const node of nodes) {
+    if (node.type === 'varyingSet' && getVaryingName(node) === name) return node
+  }
+  return null
+}
+
+const parseMeshIndex = (value: string | undefined, max: number) => {
+  if (max <= 0) return 0
+  if (!value) return 0
+  const parsed = Number(value.trim())
+  if (!Number.isInteger(parsed) || parsed < 0 || parsed >= max) return 0
+  return parsed
+}
+
+export const getMeshIndex = (node: GraphNode, max: number) =>
+  parseMeshIndex(node.meshIndex, max)
+
+const parseMaterialIndex = (value: string | undefined, max: number) => {
+  if (max <= 0) return 0
+  if (!value) return 0
+  const parsed = Number(value.trim())
+  if (!Number.isInteger(parsed) || parsed < 0 || parsed >= max) return 0
+  return parsed
+}
+
+export const getMaterialIndex = (node: GraphNode, max: number) =>
+  parseMaterialIndex(node.materialIndex, max)
+
+const parseTextureIndex = (value: string | undefined, max: number) => {
+  if (max <= 0) return 0
+  if (!value) return 0
+  const parsed = Number(value.trim())
+  if (!Number.isInteger(parsed) || parsed < 0 || parsed >= max) return 0
+  return parsed
+}
+
+export const getTextureIndex = (node: GraphNode, max: number) =>
+  parseTextureIndex(node.textureIndex, max)
+export const getGltfMaterialTextureId = (nodeId: string, key: string) =>
+  `gltf-material-${nodeId}-${key}`
+
+export const GLTF_MATERIAL_TEXTURE_KEYS = [
+  'map',
+  'roughnessMap',
+  'metalnessMap',
+  'emissiveMap',
+  'normalMap',
+  'aoMap',
+  'envMap',
+] as const
+
+export const getGltfTextureId = (nodeId: string) => `gltf-texture-${nodeId}`
+
+// Material nodes feed Output.baseColor; the connected node picks the NodeMaterial class.
+export const MATERIAL_NODE_KINDS = {
+  material: 'standard',
+  physicalMaterial: 'physical',
+  basicMaterial: 'basic',
+  toonMaterial: 'toon',
+  lambertMaterial: 'lambert',
+  phongMaterial: 'phong',
+  pointsMaterial: 'points',
+  lineMaterial: 'line',
+  lineDashedMaterial: 'lineDashed',
+  spriteMaterial: 'sprite',
+} as const
+
+export type MaterialNodeType = keyof typeof MATERIAL_NODE_KINDS
+
+// Points render one sprite per vertex; the vertex positions ride along as instance data.
+export const POINT_POSITION_ATTRIBUTE = 'pointPosition'
+
+export const isMaterialNodeType = (type: string): type is MaterialNodeType =>
+  Object.hasOwn(MATERIAL_NODE_KINDS, type)
+
+export const getMaterialNodeFromOutput = (
+  outputNode: GraphNode | undefined,
+  nodeMap: NodeMap,
+  connectionMap: ConnectionMap,
+) => {
+  const baseColorConn = outputNode ? connectionMap.get(`${outputNode.id}:baseColor`) : undefined
+  const source = baseColorConn ? nodeMap.get(baseColorConn.from.nodeId) : undefined
+  return source && isMaterialNodeType(source.type) ? source : null
+}
+
+export const getMaterialKindFromOutput = (
+  outputNode: GraphNode | undefined,
+  nodeMap: NodeMap,
+  connectionMap: ConnectionMap,
+) => {
+  const source = getMaterialNodeFromOutput(outputNode, nodeMap, connectionMap)
+  return source ? MATERIAL_NODE_KINDS[source.type as MaterialNodeType] : 'standard'
+}
+
+export const parseNumber = (value: number | string | undefined) => {
+  if (typeof value === 'number') return value
+  if (typeof value === 'string') {
+    const trimmed = value.trim()
+    if (!trimmed) return 0
+    const parsed = Number(trimmed)
+    return Number.isFinite(parsed) ? parsed : 0
+  }
+  return 0
+}
+
+export const numberUpdateModes: { value: UniformUpdateMode; label: string }[] = [
+  { value: 'manual', label: 'Manual' },
+  { value: 'frame', label: 'Frame' },
+  { value: 'object', label: 'Object' },
+  { value: 'render', label: 'Render' },
+]
+
+export const numberUpdateSources: Record<
+  UniformUpdateMode,
+  { value: UniformUpdateSource; label: string }[]
+> = {
+  manual: [{ value: 'value', label: 'Value' }],
+  frame: [{ value: 'time', label: 'Time (seconds)' }],
+  object: [
+    { value: 'objectPositionX', label: 'Object Position X' },
+    { value: 'objectPositionY', label: 'Object Position Y' },
+    { value: 'objectPositionZ', label: 'Object Position Z' },
+    { value: 'objectRotationX', label: 'Object Rotation X' },
+    { value: 'objectRotationY', label: 'Object Rotation Y' },
+    { value: 'objectRotationZ', label: 'Object Rotation Z' },
+    { value: 'objectScaleX', label: 'Object Scale X' },
+    { value: 'objectScaleY', label: 'Object Scale Y' },
+    { value: 'objectScaleZ', label: 'Object Scale Z' },
+  ],
+  render: [
+    { value: 'cameraPositionX', label: 'Camera Position X' },
+    { value: 'cameraPositionY', label: 'Camera Position Y' },
+    { value: 'cameraPositionZ', label: 'Camera Position Z' },
+  ],
+}
+
+export const getNumberUpdateMode = (node: GraphNode): UniformUpdateMode => {
+  const mode = node.updateMode
+  return numberUpdateModes.some((entry) => entry.value === mode)
+    ? (mode as UniformUpdateMode)
+    : 'manual'
+}
+
+export const getDefaultNumberUpdateSource = (mode: UniformUpdateMode): UniformUpdateSource =>
+  numberUpdateSources[mode]?.[0]?.value ?? 'value'
+
+export const getNumberUpdateSource = (
+  node: GraphNode,
+  mode: UniformUpdateMode,
+): UniformUpdateSource => {
+  const source = node.updateSource
+  const options = numberUpdateSources[mode] ?? numberUpdateSources.manual
+  return options.some((entry) => entry.value === source)
+    ? (source as UniformUpdateSource)
+    : getDefaultNumberUpdateSource(mode)
+}
+
+export const getObjectUpdateValue = (
+  object:
+    | {
+        position?: { x: number; y: number; z: number }
+        rotation?: { x: number; y: number; z: number }
+        scale?: { x: number; y: number; z: number }
+      }
+    | null
+    | undefined,
+  source: UniformUpdateSource,
+) => {
+  if (!object) return 0
+  switch (source) {
+    case 'objectPositionX':
+      return object.position?.x ?? 0
+    case 'objectPositionY':
+      return object.position?.y ?? 0
+    case 'objectPositionZ':
+      return object.position?.z ?? 0
+    case 'objectRotationX':
+      return object.rotation?.x ?? 0
+    case 'objectRotationY':
+      return object.rotation?.y ?? 0
+    case 'objectRotationZ':
+      return object.rotation?.z ?? 0
+    case 'objectScaleX':
+      return object.scale?.x ?? 0
+    case 'objectScaleY':
+      return object.scale?.y ?? 0
+    case 'objectScaleZ':
+      return object.scale?.z ?? 0
+    default:
+      return 0
+  }
+}
+
+export const getCameraUpdateValue = (
+  camera:
+    | {
+        position?: { x: number; y: number; z: number }
+      }
+    | null
+    | undefined,
+  source: UniformUpdateSource,
+) => {
+  if (!camera) return 0
+  switch (source) {
+    case 'cameraPositionX':
+      return camera.position?.x ?? 0
+    case 'cameraPositionY':
+      return camera.position?.y ?? 0
+    case 'cameraPositionZ':
+      return camera.position?.z ?? 0
+    default:
+      return 0
+  }
+}
+
+const getObjectUpdateExpr = (source: UniformUpdateSource) => {
+  switch (source) {
+    case 'objectPositionX':
+      return 'object.position.x'
+    case 'objectPositionY':
+      return 'object.position.y'
+    case 'objectPositionZ':
+      return 'object.position.z'
+    case 'objectRotationX':
+      return 'object.rotation.x'
+    case 'objectRotationY':
+      return 'object.rotation.y'
+    case 'objectRotationZ':
+      return 'object.rotation.z'
+    case 'objectScaleX':
+      return 'object.scale.x'
+    case 'objectScaleY':
+      return 'object.scale.y'
+    case 'objectScaleZ':
+      return 'object.scale.z'
+    default:
+      return '0'
+  }
+}
+
+const getCameraUpdateExpr = (source: UniformUpdateSource) => {
+  switch (source) {
+    case 'cameraPositionX':
+      return 'camera.position.x'
+    case 'cameraPositionY':
+      return 'camera.position.y'
+    case 'cameraPositionZ':
+      return 'camera.position.z'
+    default:
+      return '0'
+  }
+}
+
+export const appendNumberUniformUpdate = (
+  decls: string[],
+  uniformName: string,
+  node: GraphNode,
+) => {
+  const mode = getNumberUpdateMode(node)
+  if (mode === 'manual') return
+  const source = getNumberUpdateSource(node, mode)
+  if (mode === 'frame') {
+    decls.push(`${uniformName}.onFrameUpdate(() => performance.now() / 1000);`)
+    return
+  }
+  if (mode === 'object') {
+    const expr = getObjectUpdateExpr(source)
+    decls.push(
+      `${uniformName}.onObjectUpdate(({ object }) => (object ? ${expr} : 0));`,
+    )
+    return
+  }
+  if (mode === 'render') {
+    const expr = getCameraUpdateExpr(source)
+    decls.push(
+      `${uniformName}.onRenderUpdate(({ camera }) => (camera ? ${expr} : 0));`,
+    )
+  }
+}
+
+type ValueKind =
+  | 'number'
+  | 'color'
+  | 'vec2'
+  | 'vec3'
+  | 'vec4'
+  | 'mat2'
+  | 'mat3'
+  | 'mat4'
+  | 'unknown'
+
+export const isVectorKind = (kind: string) =>
+  kind === 'color' || kind === 'vec2' || kind === 'vec3' || kind === 'vec4'
+
+export const isMatrixKind = (kind: string) =>
+  kind === 'mat2' || kind === 'mat3' || kind === 'mat4'
+
+export const getVectorKind = (kind: string): 'vec2' | 'vec3' | 'vec4' | null => {
+  if (kind === 'vec2') return 'vec2'
+  if (kind === 'vec3' || kind === 'color') return 'vec3'
+  if (kind === 'vec4') return 'vec4'
+  return null
+}
+
+export const resolveVectorOutputKind = (kinds: string[]): ValueKind => {
+  if (kinds.some((kind) => isMatrixKind(kind))) return 'unknown'
+  let vectorKind: 'vec2' | 'vec3' | 'vec4' | null = null
+  let hasColor = false
+  let hasNonColorVec3 = false
+  for (const rawKind of kinds) {
+    const kind = normalizeKind(rawKind)
+    if (kind === 'color') {
+      hasColor = true
+    } else if (kind === 'vec3') {
+      hasNonColorVec3 = true
+    }
+    const mapped = getVectorKind(kind)
+    if (!mapped) continue
+    if (!vectorKind) {
+      vectorKind = mapped
+    } else if (vectorKind !== mapped) {
+      return 'unknown'
+    }
+  }
+  if (hasColor && hasNonColorVec3) return 'unknown'
+  if (!vectorKind) return 'number'
+  if (hasColor && vectorKind === 'vec3') return 'color'
+  return vectorKind
+}
+
+export const isAssignableType = (actual: string, expected: string) => {
+  if (expected === 'any') return true
+  if (expected === 'vector') return isVectorKind(actual)
+  if (expected === 'vector3') return actual === 'vec3' || actual === 'color'
+  if (expected === 'matrix') return isMatrixKind(actual)
+  if (expected === 'mat2' && actual === 'mat2') return true
+  if (expected === 'mat3' && actual === 'mat3') return true
+  if (expected === 'mat4' && actual === 'mat4') return true
+  if (actual === 'unknown') return true
+  if (actual === expected) return true
+  if (
+    actual === 'number' &&
+    (expected === 'color' ||
+      expected === 'vec2' ||
+      expected === 'vec3' ||
+      expected === 'vec4')
+  ) {
+    return true
+  }
+  return false
+}
+
+const normalizeKind = (value: string): ValueKind => {
+  if (
+    value === 'number' ||
+    value === 'color' ||
+    value === 'vec2' ||
+    value === 'vec3' ||
+    value === 'vec4' ||
+    value === 'mat2' ||
+    value === 'mat3' ||
+    value === 'mat4' ||
+    value === 'unknown'
+  ) {
+    return value
+  }
+  return 'unknown'
+}
+
+export const combineTypes = (left: string, right: string): ValueKind => {
+  const leftKind = normalizeKind(left)
+  const rightKind = normalizeKind(right)
+  if (isMatrixKind(leftKind) || isMatrixKind(rightKind)) return 'unknown'
+  if (leftKind === 'unknown' || rightKind === 'unknown') return 'unknown'
+  if (leftKind === 'number') return rightKind
+  if (rightKind === 'number') return leftKind
+  if (leftKind === rightKind) return leftKind
+  return 'unknown'
+}
+
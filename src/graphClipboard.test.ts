@@ -0,0 +1,126 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+  GRAPH_CLIPBOARD_FORMAT,
+  copyGraphSelection,
+  parseGraphClipboard,
+  pasteGraphClipboard,
+  type GraphSelectionSource,
+} from './graphClipboard'
+import { createFunction, createNode, link } from './graphTestUtils'
+
+const createGraph = (): GraphSelectionSource => ({
+  nodes: [
+    createNode('a', 'add', { x: 100, y: 50 }),
+    createNode('b', 'function', { x: 140, y: 90, functionId: 'fn' }),
+    createNode('c', 'texture', { value: 'blob:texture' }),
+  ],
+  connections: [link('a', 'value', 'b', 'a'), link('b', 'value', 'c', 'a')],
+  groups: [
+    { id: 'group-ab', label: 'AB', nodeIds: ['a', 'b'] },
+    { id: 'group-bc', label: 'BC', nodeIds: ['b', 'c'] },
+  ],
+  functions: { fn: createFunction('fn'), unused: createFunction('unused') },
+})
+
+describe('copyGraphSelection', () => {
+  it('keeps only links, groups and functions inside the selection', () => {
+    const clipboard = copyGraphSelection(createGraph(), ['a', 'b'])
+    expect(clipboard.format).toBe(GRAPH_CLIPBOARD_FORMAT)
+    expect(clipboard.nodes.map((node) => node.id)).toEqual(['a', 'b'])
+    expect(clipboard.connections.map((connection) => connection.id)).toEqual(['a-value-b-a'])
+    expect(clipboard.groups.map((group) => group.id)).toEqual(['group-ab'])
+    expect(Object.keys(clipboard.functions)).toEqual(['fn'])
+  })
+
+  it('replaces texture data with a blob key', () => {
+    const [texture] = copyGraphSelection(createGraph(), ['c']).nodes
+    expect(texture).toMatchObject({ value: '', textureKey: 'c' })
+  })
+})
+
+describe('parseGraphClipboard', () => {
+  it('accepts copied selections and rejects other text', () => {
+    const clipboard = copyGraphSelection(createGraph(), ['a', 'b'])
+    expect(parseGraphClipboard(JSON.stringify(clipboard))).toEqual(clipboard)
+    expect(parseGraphClipboard('plain text')).toBeNull()
+    expect(parseGraphClipboard(JSON.stringify({ ...clipboard, format: 'other' }))).toBeNull()
+  })
+})
+
+describe('pasteGraphClipboard', () => {
+  beforeEach(() => {
+    vi.spyOn(Date, 'now').mockReturnValue(1000)
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('gives pasted nodes, links and groups fresh ids', () => {
+    const pasted = pasteGraphClipboard(copyGraphSelection(createGraph(), ['a', 'b']), {
+      x: 10,
+      y: 20,
+    })
+    expect(pasted.nodes).toMatchObject([
+      { id: 'add-1000-0', x: 10, y: 20 },
+      { id: 'function-1000-1', x: 50, y: 60, functionId: 'fn' },
+    ])
+    expect(pasted.connections).toEqual([
+      {
+        id: 'link-1000-0',
+        from: { nodeId: 'add-1000-0', pin: 'value' },
+        to: { nodeId: 'function-1000-1', pin: 'a' },
+      },
+    ])
+    expect(pasted.groups).toEqual([
+      { id: 'group-1000-0', label: 'AB', nodeIds: ['add-1000-0', 'function-1000-1'] },
+    ])
+    expect(Object.keys(pasted.functions)).toEqual(['fn'])
+  })
+
+  it('calls functions already in the slot instead of duplicating them', () => {
+    const clipboard = copyGraphSelection(createGraph(), ['b'])
+    const other = createFunction('fn', { id: 'other' })
+    const same = pasteGraphClipboard(clipboard, { x: 0, y: 0 }, { other })
+    expect(same.nodes[0].functionId).toBe('other')
+    expect(same.functions).toEqual({})
+
+    clipboard.functions.fn = { ...clipboard.functions.fn, library: { id: 'lib', version: 1 } }
+    const linked = createFunction('linked', {
+      name: 'Linked',
+      library: { id: 'lib', version: 2 },
+    })
+    const library = pasteGraphClipboard(clipboard, { x: 0, y: 0 }, { linked })
+    expect(library.nodes[0].functionId).toBe('linked')
+    expect(library.functions).toEqual({})
+  })
+
+  it('renames a pasted function only when its id is taken by a different body', () => {
+    const clipboard = copyGraphSelection(createGraph(), ['b'])
+    const taken = createFunction('fn', { name: 'Other' })
+    const pasted = pasteGraphClipboard(clipboard, { x: 0, y: 0 }, { fn: taken })
+    expect(pasted.nodes[0].functionId).toBe('function-1000-0')
+    expect(pasted.functions['function-1000-0']).toEqual({
+      ...createFunction('fn'),
+      id: 'function-1000-0',
+    })
+  })
+
+  it('copies and remaps functions called from inside copied functions', () => {
+    const graph = createGraph()
+    graph.functions = {
+      fn: createFunction('fn', {
+        nodes: [createNode('inner', 'function', { functionId: 'nested' })],
+      }),
+      nested: createFunction('nested', {
+        nodes: [createNode('loop', 'function', { functionId: 'fn' })],
+      }),
+    }
+    const clipboard = copyGraphSelection(graph, ['b'])
+    expect(Object.keys(clipboard.functions)).toEqual(['fn', 'nested'])
+    const taken = { fn: createFunction('fn'), nested: createFunction('nested') }
+    const pasted = pasteGraphClipboard(clipboard, { x: 0, y: 0 }, taken)
+    expect(pasted.functions['function-1000-0'].nodes[0].functionId).toBe('function-1000-1')
+    expect(pasted.functions['function-1000-1'].nodes[0].functionId).toBe('function-1000-0')
+  })
+})
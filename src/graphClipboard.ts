@@ -0,0 +1,145 @@
+import type { FunctionDefinition, GraphConnection, GraphGroup, GraphNode } from './graph'
+import { GRAPH_FILE_FORMAT, stripNodeBlobs, type GraphFileBlob } from './graphFile'
+import { hasGraphErrors, validateGraphDocument } from './graphValidation'
+
+export const GRAPH_CLIPBOARD_FORMAT = 'tsl-node-editor/clipboard'
+
+export type GraphClipboard = {
+  format: typeof GRAPH_CLIPBOARD_FORMAT
+  nodes: GraphNode[]
+  connections: GraphConnection[]
+  groups: GraphGroup[]
+  functions: Record<string, FunctionDefinition>
+  blobs?: GraphFileBlob[]
+}
+
+export type GraphSelectionSource = {
+  nodes: GraphNode[]
+  connections: GraphConnection[]
+  groups: GraphGroup[]
+  functions: Record<string, FunctionDefinition>
+}
+
+export const copyGraphSelection = (
+  graph: GraphSelectionSource,
+  nodeIds: string[],
+): GraphClipboard => {
+  const selected = new Set(nodeIds)
+  const nodes = graph.nodes.filter((node) => selected.has(node.id))
+  const functions: Record<string, FunctionDefinition> = {}
+  // Functions called from inside a copied function travel with it.
+  const collectFunctions = (scopeNodes: GraphNode[]) => {
+    scopeNodes.forEach((node) => {
+      const def = node.functionId ? graph.functions[node.functionId] : undefined
+      if (node.type !== 'function' || !def || functions[def.id]) return
+      functions[def.id] = def
+      collectFunctions(def.nodes)
+    })
+  }
+  collectFunctions(nodes)
+  return {
+    format: GRAPH_CLIPBOARD_FORMAT,
+    nodes: stripNodeBlobs(nodes),
+    connections: graph.connections.filter(
+      (connection) => selected.has(connection.from.nodeId) && selected.has(connection.to.nodeId),
+    ),
+    groups: graph.groups.filter(
+      (group) => group.nodeIds.length > 0 && group.nodeIds.every((id) => selected.has(id)),
+    ),
+    functions,
+  }
+}
+
+export const parseGraphClipboard = (text: string): GraphClipboard | null => {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    return null
+  }
+  if (typeof data !== 'object' || data === null) return null
+  const clipboard = data as GraphClipboard
+  if (clipboard.format !== GRAPH_CLIPBOARD_FORMAT) return null
+  if (hasGraphErrors(validateGraphDocument({ ...clipboard, format: GRAPH_FILE_FORMAT }))) {
+    return null
+  }
+  return {
+    ...clipboard,
+    groups: clipboard.groups ?? [],
+    functions: clipboard.functions ?? {},
+  }
+}
+
+const hasSameBody = (def: FunctionDefinition, other: FunctionDefinition) =>
+  JSON.stringify({ ...def, id: other.id }) === JSON.stringify(other)
+
+// A copied function that is already in the slot, through the same library entry or with the
+// same body, is called in place; the rest keep their id unless it is taken.
+const getPastedFunctionIds = (
+  clipboard: GraphClipboard,
+  functions: Record<string, FunctionDefinition>,
+  stamp: number,
+) => {
+  const existing = Object.values(functions)
+  const functionIds = new Map<string, string>()
+  const reused = new Set<string>()
+  Object.values(clipboard.functions).forEach((def, index) => {
+    const match = existing.find((entry) =>
+      def.library ? entry.library?.id === def.library.id : hasSameBody(def, entry),
+    )
+    if (match) reused.add(def.id)
+    const id = functions[def.id] ? `function-${stamp}-${index}` : def.id
+    functionIds.set(def.id, match?.id ?? id)
+  })
+  return { functionIds, reused }
+}
+
+export const pasteGraphClipboard = (
+  clipboard: GraphClipboard,
+  position: { x: number; y: number },
+  existingFunctions: Record<string, FunctionDefinition> = {},
+) => {
+  const stamp = Date.now()
+  const { functionIds, reused } = getPastedFunctionIds(clipboard, existingFunctions, stamp)
+  const nodeIds = new Map(
+    clipboard.nodes.map((node, index) => [node.id, `${node.type}-${stamp}-${index}`]),
+  )
+  const remapFunctionId = (node: GraphNode) =>
+    node.functionId
+      ? { ...node, functionId: functionIds.get(node.functionId) ?? node.functionId }
+      : node
+  const minX = Math.min(...clipboard.nodes.map((node) => node.x))
+  const minY = Math.min(...clipboard.nodes.map((node) => node.y))
+
+  const nodes = clipboard.nodes.map((node) => ({
+    ...remapFunctionId(node),
+    id: nodeIds.get(node.id) ?? node.id,
+    x: node.x - minX + position.x,
+    y: node.y - minY + position.y,
+  }))
+  const connections = clipboard.connections
+    .filter(
+      (connection) => nodeIds.has(connection.from.nodeId) && nodeIds.has(connection.to.nodeId),
+    )
+    .map((connection, index) => ({
+      id: `link-${stamp}-${index}`,
+      from: { ...connection.from, nodeId: nodeIds.get(connection.from.nodeId) as string },
+      to: { ...connection.to, nodeId: nodeIds.get(connection.to.nodeId) as string },
+    }))
+  const groups = clipboard.groups
+    .filter((group) => group.nodeIds.every((id) => nodeIds.has(id)))
+    .map((group, index) => ({
+      ...group,
+      id: `group-${stamp}-${index}`,
+      nodeIds: group.nodeIds.map((id) => nodeIds.get(id) as string),
+    }))
+  const functions = Object.fromEntries(
+    Object.values(clipboard.functions).flatMap((def) => {
+      const id = functionIds.get(def.id)
+      if (!id || reused.has(def.id)) return []
+      return [[id, { ...def, id, nodes: def.nodes.map(remapFunctionId) }]]
+    }),
+  )
+
+  return { nodes, connections, groups, functions }
+}
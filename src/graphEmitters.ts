@@ -0,0 +1,652 @@
+import { Vector2, type Texture } from 'three'
+import type { Node } from 'three/webgpu'
+import {
+  abs,
+  acesFilmicToneMapping,
+  acos,
+  agxToneMapping,
+  asin,
+  atan,
+  atan2,
+  attribute,
+  bitangentLocal,
+  cameraProjectionMatrix,
+  cameraViewMatrix,
+  ceil,
+  checker,
+  cineonToneMapping,
+  clamp,
+  color,
+  cos,
+  cross,
+  dFdx,
+  dFdy,
+  degrees,
+  distance,
+  dot,
+  equal,
+  exp,
+  exp2,
+  faceforward,
+  float,
+  floor,
+  fract,
+  fwidth,
+  grayscale,
+  greaterThan,
+  greaterThanEqual,
+  inverse,
+  length,
+  lessThan,
+  lessThanEqual,
+  linearToneMapping,
+  log,
+  log2,
+  luminance,
+  mat2,
+  mat3,
+  mat4,
+  max,
+  min,
+  mix,
+  mod,
+  modelNormalMatrix,
+  modelViewMatrix,
+  modelWorldMatrix,
+  mx_fractal_noise_float,
+  mx_fractal_noise_vec2,
+  mx_fractal_noise_vec3,
+  mx_fractal_noise_vec4,
+  mx_noise_float,
+  mx_noise_vec3,
+  mx_noise_vec4,
+  mx_worley_noise_float,
+  mx_worley_noise_vec2,
+  mx_worley_noise_vec3,
+  negate,
+  neutralToneMapping,
+  normalLocal,
+  normalize,
+  notEqual,
+  oneMinus,
+  positionGeometry,
+  positionLocal,
+  posterize,
+  pow,
+  pow2,
+  pow3,
+  pow4,
+  radians,
+  reflect,
+  refract,
+  reinhardToneMapping,
+  remap,
+  remapClamp,
+  rotateUV,
+  round,
+  sRGBTransferEOTF,
+  sRGBTransferOETF,
+  saturate,
+  saturation,
+  select,
+  sign,
+  sin,
+  smoothstep,
+  smoothstepElement,
+  spherizeUV,
+  spritesheetUV,
+  sqrt,
+  step,
+  stepElement,
+  tan,
+  tangentLocal,
+  texture,
+  transformNormalToView,
+  transpose,
+  triNoise3D,
+  trunc,
+  uniformTexture,
+  uv,
+  varying,
+  vec2,
+  vec3,
+  vec4,
+  vertexColor,
+} from 'three/tsl'
+import {
+  FALLBACK_COLOR,
+  appendNumberUniformUpdate,
+  getNumberUpdateMode,
+  type ExprKind,
+  type GraphNode,
+} from './graph'
+import type { GraphIR, IRExpr, MaterialKind } from './graphIR'
+import { formatPrimitiveConstructor } from './geometryPrimitives'
+
+export type TslNodeResult = { node: Node; kind: ExprKind }
+
+export type TslRuntime = {
+  numberUniform: (node: GraphNode, value: number) => Node
+  colorUniform: (node: GraphNode, value: string) => Node
+  time: Node
+  getTexture: (id: string) => Texture | null
+}
+
+export type TslNodeEmitter = {
+  emit: (expr: IRExpr) => Node
+  resolve: (nodeId: string, outputPin?: string) => TslNodeResult
+}
+
+export type TslCodeOptions = {
+  mode?: 'export' | 'preview'
+}
+
+type TslFunction = (...args: unknown[]) => Node
+
+const TSL_FUNCTIONS: Record<string, unknown> = {
+  abs,
+  acesFilmicToneMapping,
+  acos,
+  agxToneMapping,
+  asin,
+  atan,
+  atan2,
+  ceil,
+  checker,
+  cineonToneMapping,
+  clamp,
+  color,
+  cos,
+  cross,
+  dFdx,
+  dFdy,
+  degrees,
+  distance,
+  dot,
+  equal,
+  exp,
+  exp2,
+  faceforward,
+  float,
+  floor,
+  fract,
+  fwidth,
+  grayscale,
+  greaterThan,
+  greaterThanEqual,
+  inverse,
+  length,
+  lessThan,
+  lessThanEqual,
+  linearToneMapping,
+  log,
+  log2,
+  luminance,
+  mat2,
+  mat3,
+  mat4,
+  max,
+  min,
+  mix,
+  mod,
+  mx_fractal_noise_float,
+  mx_fractal_noise_vec2,
+  mx_fractal_noise_vec3,
+  mx_fractal_noise_vec4,
+  mx_noise_float,
+  mx_noise_vec3,
+  mx_noise_vec4,
+  mx_worley_noise_float,
+  mx_worley_noise_vec2,
+  mx_worley_noise_vec3,
+  negate,
+  neutralToneMapping,
+  normalize,
+  notEqual,
+  oneMinus,
+  posterize,
+  pow,
+  pow2,
+  pow3,
+  pow4,
+  radians,
+  reflect,
+  refract,
+  reinhardToneMapping,
+  remap,
+  remapClamp,
+  rotateUV,
+  round,
+  sRGBTransferEOTF,
+  sRGBTransferOETF,
+  saturate,
+  saturation,
+  select,
+  sign,
+  sin,
+  smoothstep,
+  smoothstepElement,
+  spherizeUV,
+  spritesheetUV,
+  sqrt,
+  step,
+  stepElement,
+  tan,
+  transformNormalToView,
+  transpose,
+  triNoise3D,
+  trunc,
+  varying,
+  vec2,
+  vec3,
+  vec4,
+}
+
+const BUILTIN_NODES: Record<string, () => unknown> = {
+  positionLocal: () => positionLocal,
+  positionGeometry: () => positionGeometry,
+  normalLocal: () => normalLocal,
+  tangentLocal: () => tangentLocal,
+  bitangentLocal: () => bitangentLocal,
+  uv: () => uv(),
+  uv1: () => uv(1),
+  vertexColor: () => vertexColor(),
+  modelWorldMatrix: () => modelWorldMatrix,
+  cameraViewMatrix: () => cameraViewMatrix,
+  cameraProjectionMatrix: () => cameraProjectionMatrix,
+  modelViewMatrix: () => modelViewMatrix,
+  modelNormalMatrix: () => modelNormalMatrix,
+}
+
+const BUILTIN_CODE: Record<string, { code: string; name: string }> = {
+  positionLocal: { code: 'positionLocal', name: 'positionLocal' },
+  positionGeometry: { code: 'positionGeometry', name: 'positionGeometry' },
+  normalLocal: { code: 'normalLocal', name: 'normalLocal' },
+  tangentLocal: { code: 'tangentLocal', name: 'tangentLocal' },
+  bitangentLocal: { code: 'bitangentLocal', name: 'bitangentLocal' },
+  uv: { code: 'uv()', name: 'uv' },
+  uv1: { code: 'uv(1)', name: 'uv' },
+  vertexColor: { code: 'vertexColor()', name: 'vertexColor' },
+  modelWorldMatrix: { code: 'modelWorldMatrix', name: 'modelWorldMatrix' },
+  cameraViewMatrix: { code: 'cameraViewMatrix', name: 'cameraViewMatrix' },
+  cameraProjectionMatrix: { code: 'cameraProjectionMatrix', name: 'cameraProjectionMatrix' },
+  modelViewMatrix: { code: 'modelViewMatrix', name: 'modelViewMatrix' },
+  modelNormalMatrix: { code: 'modelNormalMatrix', name: 'modelNormalMatrix' },
+}
+
+export const MATERIAL_CLASSES: Record<MaterialKind, string> = {
+  standard: 'MeshStandardNodeMaterial',
+  physical: 'MeshPhysicalNodeMaterial',
+  basic: 'MeshBasicNodeMaterial',
+  toon: 'MeshToonNodeMaterial',
+  lambert: 'MeshLambertNodeMaterial',
+  phong: 'MeshPhongNodeMaterial',
+  points: 'PointsNodeMaterial',
+  line: 'LineBasicNodeMaterial',
+  lineDashed: 'LineDashedNodeMaterial',
+  sprite: 'SpriteNodeMaterial',
+}
+
+// Unlit materials keep their own class while soloing; the rest solo through a basic material.
+const UNLIT_MATERIAL_KINDS = new Set<MaterialKind>([
+  'basic',
+  'points',
+  'line',
+  'lineDashed',
+  'sprite',
+])
+
+export const getSoloMaterialKind = (kind: MaterialKind): MaterialKind =>
+  UNLIT_MATERIAL_KINDS.has(kind) ? kind : 'basic'
+
+const PREVIEW_OBJECT_CODE: Partial<Record<MaterialKind, string>> = {
+  points: 'new Sprite(material)',
+  line: 'new LineSegments(new WireframeGeometry(geometry), material)',
+  lineDashed: 'new LineSegments(new WireframeGeometry(geometry), material)',
+  sprite: 'new Sprite(material)',
+}
+
+const MATERIAL_RESET_SLOTS: Record<MaterialKind, string[]> = {
+  standard: [
+    'emissiveNode',
+    'emissiveMap',
+    'roughnessMap',
+    'metalnessMap',
+    'normalMap',
+    'aoMap',
+    'envMap',
+    'opacityNode',
+    'alphaTestNode',
+    'normalNode',
+  ],
+  physical: [
+    'emissiveNode',
+    'emissiveMap',
+    'roughnessMap',
+    'metalnessMap',
+    'normalMap',
+    'aoMap',
+    'envMap',
+    'opacityNode',
+    'alphaTestNode',
+    'clearcoatNode',
+    'clearcoatRoughnessNode',
+    'clearcoatNormalMap',
+    'sheenNode',
+    'sheenRoughnessNode',
+    'iridescenceNode',
+    'iridescenceIORNode',
+    'iridescenceThicknessNode',
+    'transmissionNode',
+    'thicknessNode',
+    'attenuationColorNode',
+    'attenuationDistanceNode',
+    'iorNode',
+    'dispersionNode',
+    'specularIntensityNode',
+    'specularColorNode',
+    'anisotropyNode',
+    'normalNode',
+  ],
+  basic: ['opacityNode', 'alphaTestNode', 'map', 'alphaMap', 'aoMap', 'envMap', 'normalNode'],
+  toon: [
+    'emissiveNode',
+    'emissiveMap',
+    'normalMap',
+    'aoMap',
+    'gradientMap',
+    'opacityNode',
+    'alphaTestNode',
+    'normalNode',
+  ],
+  lambert: [
+    'emissiveNode',
+    'emissiveMap',
+    'normalMap',
+    'aoMap',
+    'envMap',
+    'opacityNode',
+    'alphaTestNode',
+    'normalNode',
+  ],
+  phong: [
+    'emissiveNode',
+    'emissiveMap',
+    'normalMap',
+    'aoMap',
+    'envMap',
+    'shininessNode',
+    'specularNode',
+    'specularMap',
+    'opacityNode',
+    'alphaTestNode',
+    'normalNode',
+  ],
+  points: ['sizeNode', 'opacityNode', 'alphaTestNode', 'normalNode'],
+  line: ['opacityNode', 'alphaTestNode', 'normalNode'],
+  lineDashed: [
+    'dashSizeNode',
+    'gapSizeNode',
+    'dashScaleNode',
+    'offsetNode',
+    'opacityNode',
+    'alphaTestNode',
+    'normalNode',
+  ],
+  sprite: ['rotationNode', 'scaleNode', 'opacityNode', 'alphaTestNode', 'normalNode'],
+}
+
+// NodeMaterial reads emissiveNode on every lit material, but only the standard typings declare it.
+const UNDECLARED_MATERIAL_SLOTS: Partial<Record<MaterialKind, string[]>> = {
+  toon: ['emissiveNode'],
+  lambert: ['emissiveNode'],
+  phong: ['emissiveNode'],
+}
+
+// Without a vertex offset a sprite stays at its origin; positionLocal would shift each corner.
+const emitPositionNode = (ir: GraphIR, emitter: TslNodeEmitter) =>
+  ir.positionNode
+    ? emitter.emit(ir.positionNode)
+    : ir.materialKind === 'sprite'
+      ? null
+      : positionLocal
+
+const formatNumber = (value: number) =>
+  Number.isInteger(value) ? value.toFixed(1) : String(Number(value.toFixed(6)))
+
+const getValuePrefix = (expr: IRExpr, kind: ExprKind) => {
+  if (expr.op === 'texture') return 'tex'
+  if (kind === 'number') return 'num'
+  if (kind === 'color') return 'col'
+  if (kind === 'mat2' || kind === 'mat3' || kind === 'mat4') return 'mat'
+  return 'vec'
+}
+
+export const createTslNodeEmitter = (ir: GraphIR, runtime: TslRuntime): TslNodeEmitter => {
+  const cache = new Map<number, Node>()
+
+  const emit = (expr: IRExpr): Node => {
+    switch (expr.op) {
+      case 'literal':
+      case 'hex':
+        return expr.value as unknown as Node
+      case 'call':
+        return (TSL_FUNCTIONS[expr.fn] as TslFunction)(...expr.args.map(emit))
+      case 'method':
+        return (emit(expr.target) as unknown as Record<string, TslFunction>)[expr.method](
+          ...expr.args.map(emit),
+        )
+      case 'member':
+        return (emit(expr.target) as unknown as Record<string, Node>)[expr.name]
+      case 'builtin':
+        return BUILTIN_NODES[expr.name]() as Node
+      case 'ref': {
+        const cached = cache.get(expr.id)
+        if (cached) return cached
+        const node = emit(ir.values[expr.id].expr)
+        cache.set(expr.id, node)
+        return node
+      }
+      case 'number':
+        return runtime.numberUniform(expr.node, expr.value)
+      case 'color':
+        return runtime.colorUniform(expr.node, expr.value)
+      case 'time':
+        return runtime.time
+      case 'texture': {
+        const tex = runtime.getTexture(expr.id)
+        return tex ? texture(uniformTexture(tex), uv()) : color(FALLBACK_COLOR)
+      }
+      case 'attribute':
+        return attribute(expr.name, expr.type)
+    }
+  }
+
+  const resolve = (nodeId: string, outputPin?: string) => {
+    const result = ir.resolve(nodeId, outputPin)
+    return { node: emit(result.expr), kind: result.kind }
+  }
+
+  return { emit, resolve }
+}
+
+// Maps any node output onto an RGB color so it can be shown on a preview surface.
+export const toPreviewColorNode = ({ node, kind }: TslNodeResult): Node | null => {
+  const value = node as unknown as Record<string, Node>
+  switch (kind) {
+    case 'number':
+      return vec3(node, node, node)
+    case 'vec2':
+      return vec3(value.x, value.y, 0)
+    case 'vec4':
+      return value.xyz
+    case 'vec3':
+    case 'color':
+      return node
+    default:
+      return null
+  }
+}
+
+export const applyTslMaterial = (
+  ir: GraphIR,
+  material: object,
+  emitter: TslNodeEmitter,
+  getTexture: (id: string) => Texture | null,
+) => {
+  const target = material as Record<string, unknown>
+  target.colorNode = emitter.emit(ir.colorNode)
+  MATERIAL_RESET_SLOTS[ir.materialKind].forEach((slot) => {
+    target[slot] = null
+  })
+  target.alphaHash = false
+  target.transparent = false
+  ir.properties.forEach((property) => {
+    if (property.type === 'node') {
+      target[property.slot] = emitter.emit(property.value)
+    } else if (property.type === 'map') {
+      target[property.slot] = getTexture(property.textureId)
+    } else if (property.type === 'vector2') {
+      target[property.slot] = new Vector2(property.value, property.value)
+    } else {
+      target[property.slot] = property.value
+    }
+  })
+  target.positionNode = emitPositionNode(ir, emitter)
+}
+
+// Solo shows one value unlit; only the graph's vertex displacement is kept.
+export const applyTslSoloMaterial = (
+  ir: GraphIR,
+  material: object,
+  emitter: TslNodeEmitter,
+  result: TslNodeResult,
+  remapSigned: boolean,
+) => {
+  const target = material as Record<string, unknown>
+  const colorNode = toPreviewColorNode(result) ?? vec3(0, 0, 0)
+  MATERIAL_RESET_SLOTS[getSoloMaterialKind(ir.materialKind)].forEach((slot) => {
+    target[slot] = null
+  })
+  target.colorNode = remapSigned ? remap(colorNode, -1, 1) : colorNode
+  target.alphaHash = false
+  target.transparent = false
+  target.positionNode = emitPositionNode(ir, emitter)
+}
+
+export const emitTslCode = (ir: GraphIR, options: TslCodeOptions = {}) => {
+  const mode = options.mode ?? 'export'
+  if (!ir.outputNode) {
+    return mode === 'preview'
+      ? '// Output node not found'
+      : `return new ${MATERIAL_CLASSES.standard}();`
+  }
+  if (!ir.hasBaseColor) {
+    return mode === 'preview'
+      ? '// Output.baseColor not connected'
+      : `return new ${MATERIAL_CLASSES.standard}();`
+  }
+
+  const imports = new Set<string>()
+  const names = new Map<number, string>()
+  const decls: string[] = []
+  let varIndex = 1
+
+  const emit = (expr: IRExpr): string => {
+    switch (expr.op) {
+      case 'literal':
+        return formatNumber(expr.value)
+      case 'hex':
+        return `0x${expr.value.toString(16).padStart(6, '0')}`
+      case 'call':
+        imports.add(expr.fn)
+        return `${expr.fn}(${expr.args.map(emit).join(', ')})`
+      case 'method':
+        return `${emit(expr.target)}.${expr.method}(${expr.args.map(emit).join(', ')})`
+      case 'member':
+        return `${emit(expr.target)}.${expr.name}`
+      case 'builtin': {
+        const entry = BUILTIN_CODE[expr.name]
+        imports.add(entry.name)
+        return entry.code
+      }
+      case 'ref':
+        return names.get(expr.id) ?? 'float(0.0)'
+      case 'number': {
+        const fn =
+          mode === 'preview' || getNumberUpdateMode(expr.node) !== 'manual' ? 'uniform' : 'float'
+        imports.add(fn)
+        return `${fn}(${expr.value.toFixed(3)})`
+      }
+      case 'color':
+        if (mode === 'preview') {
+          imports.add('uniform')
+          return `uniform(new Color('${expr.value}'))`
+        }
+        imports.add('color')
+        return `color('${expr.value}')`
+      case 'time':
+        return 'timeUniform'
+      case 'texture':
+        imports.add('texture')
+        imports.add('uniformTexture')
+        imports.add('uv')
+        return `texture(uniformTexture(textureFromNode('${expr.id}')), uv())`
+      case 'attribute':
+        imports.add('attribute')
+        return `attribute('${expr.name}', '${expr.type}')`
+    }
+  }
+
+  ir.values.forEach((value) => {
+    const name = `${getValuePrefix(value.expr, value.kind)}_${varIndex++}`
+    decls.push(`const ${name} = ${emit(value.expr)};`)
+    if (value.expr.op === 'number') {
+      appendNumberUniformUpdate(decls, name, value.expr.node)
+    }
+    names.set(value.id, name)
+  })
+
+  decls.push(`material.colorNode = ${emit(ir.colorNode)};`)
+  ir.properties.forEach((property) => {
+    const slot = `material.${property.slot}`
+    if (property.type === 'node') {
+      decls.push(
+        UNDECLARED_MATERIAL_SLOTS[ir.materialKind]?.includes(property.slot)
+          ? `Object.assign(material, { ${property.slot}: ${emit(property.value)} });`
+          : `${slot} = ${emit(property.value)};`,
+      )
+    } else if (property.type === 'map') {
+      decls.push(`${slot} = textureFromNode('${property.textureId}');`)
+    } else if (property.type === 'vector2') {
+      const value = property.value.toFixed(3)
+      decls.push(`${slot} = new Vector2(${value}, ${value});`)
+    } else if (property.type === 'boolean') {
+      decls.push(`${slot} = ${property.value ? 'true' : 'false'};`)
+    } else {
+      decls.push(`${slot} = ${property.value.toFixed(3)};`)
+    }
+  })
+  if (ir.positionNode) {
+    decls.push(`material.positionNode = ${emit(ir.positionNode)};`)
+  }
+
+  const header = [`const material = new ${MATERIAL_CLASSES[ir.materialKind]}();`]
+  if (mode === 'preview') {
+    if (ir.geometry) {
+      const geometry =
+        ir.geometry.type === 'primitive' ? ir.geometry : { shape: 'box', params: {} }
+      decls.push(`const geometry = new ${formatPrimitiveConstructor(geometry)};`)
+      const object = PREVIEW_OBJECT_CODE[ir.materialKind] ?? 'new Mesh(geometry, material)'
+      decls.push(`const mesh = ${object};`)
+    }
+    return [...header, ...decls].join('\n')
+  }
+
+  const usedImports = Array.from(imports).sort()
+  if (usedImports.length) {
+    header.unshift(`const { ${usedImports.join(', ')} } = TSL;`)
+  }
+  decls.push('return material;')
+  return [...header, ...decls].join('\n')
+}
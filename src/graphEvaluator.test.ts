@@ -0,0 +1,285 @@
+import { describe, expect, it } from 'vitest'
+import type { GraphConnection, GraphNode } from './graph'
+import {
+  evaluateGraph,
+  evaluateGraphNode,
+  foldGraphValue,
+  formatFoldedValue,
+} from './graphEvaluator'
+import type { GraphIRSource } from './graphIR'
+import { GRAPH_TEMPLATES, instantiateGraphTemplate } from './graphTemplates'
+import { createNode, link } from './graphTestUtils'
+
+const getPixels = (data: Uint8ClampedArray) =>
+  Array.from({ length: data.length / 4 }, (_, index) =>
+    Array.from(data.subarray(index * 4, index * 4 + 4)),
+  )
+
+const number = (id: string, value: string) => createNode(id, 'number', { value })
+
+// uv(), or uv() * 2.5 for noise so the samples avoid the lattice points where it is zero.
+const UV_NODES = [createNode('uv', 'uv')]
+const SCALED_UV_NODES = [...UV_NODES, number('scale', '2.5'), createNode('coord', 'multiply')]
+const SCALED_UV_LINKS = [link('uv', 'value', 'coord', 'a'), link('scale', 'value', 'coord', 'b')]
+
+// Renders the "node" output on a 2x2 plane; rows run top to bottom, so v is 0.75 then 0.25.
+const renderNode = (nodes: GraphNode[], connections: GraphConnection[]) =>
+  getPixels(
+    evaluateGraphNode(
+      { nodes: [...nodes, createNode('output', 'output')], connections, functions: {} },
+      'node',
+      'value',
+      { width: 2, height: 2, surface: 'plane', time: 0 },
+    ).data,
+  )
+
+const NODE_CASES: Array<[string, GraphNode[], GraphConnection[], number[][]]> = [
+  [
+    'mix',
+    [
+      ...UV_NODES,
+      createNode('split', 'splitVec2'),
+      createNode('a', 'color', { value: '#ff0000' }),
+      createNode('b', 'color', { value: '#0000ff' }),
+      createNode('node', 'mix'),
+    ],
+    [
+      link('uv', 'value', 'split', 'value'),
+      link('a', 'color', 'node', 'a'),
+      link('b', 'color', 'node', 'b'),
+      link('split', 'y', 'node', 't'),
+    ],
+    [
+      [137, 0, 225, 255],
+      [137, 0, 225, 255],
+      [225, 0, 137, 255],
+      [225, 0, 137, 255],
+    ],
+  ],
+  [
+    'smoothstep',
+    [...UV_NODES, number('low', '0'), number('high', '1'), createNode('node', 'smoothstep')],
+    [
+      link('low', 'value', 'node', 'edge0'),
+      link('high', 'value', 'node', 'edge1'),
+      link('uv', 'value', 'node', 'x'),
+    ],
+    [
+      [110, 237, 0, 255],
+      [237, 237, 0, 255],
+      [110, 110, 0, 255],
+      [237, 110, 0, 255],
+    ],
+  ],
+  [
+    'checker',
+    [...UV_NODES, createNode('node', 'checker')],
+    [link('uv', 'value', 'node', 'coord')],
+    [
+      [255, 255, 255, 255],
+      [0, 0, 0, 255],
+      [0, 0, 0, 255],
+      [255, 255, 255, 255],
+    ],
+  ],
+  [
+    'remapClamp',
+    [
+      ...UV_NODES,
+      number('inLow', '0'),
+      number('inHigh', '0.5'),
+      number('outLow', '0'),
+      number('outHigh', '1'),
+      createNode('node', 'remapClamp'),
+    ],
+    [
+      link('uv', 'value', 'node', 'value'),
+      ...['inLow', 'inHigh', 'outLow', 'outHigh'].map((pin) => link(pin, 'value', 'node', pin)),
+    ],
+    [
+      [188, 255, 0, 255],
+      [255, 255, 0, 255],
+      [188, 188, 0, 255],
+      [255, 188, 0, 255],
+    ],
+  ],
+  [
+    'rotateUV',
+    [...UV_NODES, number('rotation', '1.5707963'), createNode('node', 'rotateUV')],
+    [link('uv', 'value', 'node', 'uv'), link('rotation', 'value', 'node', 'rotation')],
+    [
+      [137, 137, 0, 255],
+      [137, 225, 0, 255],
+      [225, 137, 0, 255],
+      [225, 225, 0, 255],
+    ],
+  ],
+  [
+    'spritesheetUV',
+    [
+      ...UV_NODES,
+      number('count', '2'),
+      createNode('size', 'vec2'),
+      number('frame', '1'),
+      createNode('node', 'spritesheetUV'),
+    ],
+    [
+      link('count', 'value', 'size', 'x'),
+      link('count', 'value', 'size', 'y'),
+      link('size', 'value', 'node', 'size'),
+      link('uv', 'value', 'node', 'uv'),
+      link('frame', 'value', 'node', 'time'),
+    ],
+    [
+      [207, 240, 0, 255],
+      [240, 240, 0, 255],
+      [207, 207, 0, 255],
+      [240, 207, 0, 255],
+    ],
+  ],
+  [
+    'mxNoiseFloat',
+    [...SCALED_UV_NODES, createNode('node', 'mxNoiseFloat')],
+    [...SCALED_UV_LINKS, link('coord', 'value', 'node', 'texcoord')],
+    [
+      [0, 0, 0, 255],
+      [143, 143, 143, 255],
+      [86, 86, 86, 255],
+      [0, 0, 0, 255],
+    ],
+  ],
+  [
+    'mxWorleyNoiseFloat',
+    [...SCALED_UV_NODES, createNode('node', 'mxWorleyNoiseFloat')],
+    [...SCALED_UV_LINKS, link('coord', 'value', 'node', 'texcoord')],
+    [
+      [93, 93, 93, 255],
+      [188, 188, 188, 255],
+      [122, 122, 122, 255],
+      [109, 109, 109, 255],
+    ],
+  ],
+  [
+    'mxWorleyNoiseVec2',
+    [...SCALED_UV_NODES, createNode('node', 'mxWorleyNoiseVec2')],
+    [...SCALED_UV_LINKS, link('coord', 'value', 'node', 'texcoord')],
+    [
+      [93, 238, 0, 255],
+      [188, 195, 0, 255],
+      [122, 211, 0, 255],
+      [109, 148, 0, 255],
+    ],
+  ],
+  [
+    'mxWorleyNoiseVec3',
+    [...SCALED_UV_NODES, createNode('node', 'mxWorleyNoiseVec3')],
+    [...SCALED_UV_LINKS, link('coord', 'value', 'node', 'texcoord')],
+    [
+      [93, 238, 247, 255],
+      [188, 195, 218, 255],
+      [122, 211, 255, 255],
+      [109, 148, 246, 255],
+    ],
+  ],
+  [
+    'acesFilmicToneMapping',
+    [
+      createNode('color', 'color', { value: '#ff8040' }),
+      number('exposure', '4'),
+      createNode('bright', 'multiply'),
+      createNode('node', 'acesFilmicToneMapping'),
+    ],
+    [
+      link('color', 'color', 'bright', 'a'),
+      link('exposure', 'value', 'bright', 'b'),
+      link('bright', 'value', 'node', 'value'),
+    ],
+    Array.from({ length: 4 }, () => [255, 228, 180, 255]),
+  ],
+]
+
+describe('evaluateGraph', () => {
+  it('fills an unlit plane with the base color', () => {
+    const source: GraphIRSource = {
+      nodes: [
+        createNode('color', 'color', { value: '#ff8000' }),
+        createNode('basic', 'basicMaterial'),
+        createNode('output', 'output'),
+      ],
+      connections: [
+        link('color', 'color', 'basic', 'baseColor'),
+        link('basic', 'baseColor', 'output', 'baseColor'),
+      ],
+      functions: {},
+    }
+    const image = evaluateGraph(source, { width: 4, height: 3, surface: 'plane' })
+    expect(image.width).toBe(4)
+    expect(image.height).toBe(3)
+    expect(new Set(getPixels(image.data).map((pixel) => pixel.join()))).toEqual(
+      new Set(['255,128,0,255']),
+    )
+  })
+
+  it('evaluates a single node output against the time option', () => {
+    const source: GraphIRSource = {
+      nodes: [createNode('time', 'time'), createNode('output', 'output')],
+      connections: [],
+      functions: {},
+    }
+    const image = evaluateGraphNode(source, 'time', 'value', {
+      width: 1,
+      height: 1,
+      surface: 'plane',
+      time: 0.5,
+    })
+    // Pixels are sRGB encoded, so a linear 0.5 is written as 188.
+    expect(Array.from(image.data)).toEqual([188, 188, 188, 255])
+  })
+
+  it.each(NODE_CASES)('renders %s to fixed pixels', (_type, nodes, connections, pixels) => {
+    expect(renderNode(nodes, connections)).toEqual(pixels)
+  })
+
+  it('renders a bundled template to fixed pixels', () => {
+    const template = GRAPH_TEMPLATES.find((entry) => entry.id === 'procedural-marble')
+    expect(template).toBeDefined()
+    const image = evaluateGraph(
+      { ...instantiateGraphTemplate(template!), functions: {} },
+      { width: 2, height: 2, surface: 'sphere', time: 0 },
+    )
+    expect(getPixels(image.data)).toEqual([
+      [239, 237, 231, 255],
+      [241, 239, 233, 255],
+      [200, 199, 195, 255],
+      [235, 233, 227, 255],
+    ])
+  })
+})
+
+describe('foldGraphValue', () => {
+  it('folds constant outputs and formats them by kind', () => {
+    const source: GraphIRSource = {
+      nodes: [
+        number('a', '0.25'),
+        number('b', '2'),
+        createNode('product', 'multiply'),
+        createNode('vector', 'vec2'),
+        createNode('uv', 'uv'),
+      ],
+      connections: [
+        link('a', 'value', 'product', 'a'),
+        link('b', 'value', 'product', 'b'),
+        link('product', 'value', 'vector', 'x'),
+        link('b', 'value', 'vector', 'y'),
+      ],
+      functions: {},
+    }
+    const product = foldGraphValue(source, 'product', 'value')
+    expect(product).toEqual({ kind: 'number', value: [0.5] })
+    expect(formatFoldedValue(product!)).toBe('0.5')
+    const vector = foldGraphValue(source, 'vector', 'value')
+    expect(vector).toEqual({ kind: 'vec2', value: [0.5, 2] })
+    expect(formatFoldedValue(vector!)).toBe('vec2(0.5, 2.0)')
+    expect(foldGraphValue(source, 'uv', 'value')).toBeNull()
+  })
+})
@@ -0,0 +1,951 @@
+import {
+  FALLBACK_COLOR,
+  getNumberUpdateMode,
+  isMatrixKind,
+  type AttributeNodeType,
+  type ExprKind,
+} from './graph'
+import {
+  buildGraphIR,
+  type GraphIR,
+  type GraphIRContext,
+  type GraphIRSource,
+  type IRExpr,
+} from './graphIR'
+
+type Matrix = { columns: number[][] }
+
+export type EvalValue = number[] | Matrix
+
+export type SurfaceAttributes = {
+  position: number[]
+  normal: number[]
+  tangent: number[]
+  bitangent: number[]
+  uv: number[]
+  uv1: number[]
+}
+
+export type GraphSurface = 'plane' | 'sphere'
+
+export type TextureSampler = (u: number, v: number) => number[]
+
+export type GraphEvaluationOptions = {
+  width: number
+  height: number
+  time?: number
+  surface?: GraphSurface
+  attributes?: (uv: number[]) => Partial<SurfaceAttributes>
+  uniforms?: Record<string, number | string>
+  textures?: Record<string, TextureSampler>
+  context?: GraphIRContext
+}
+
+export type GraphImage = {
+  width: number
+  height: number
+  data: Uint8ClampedArray<ArrayBuffer>
+}
+
+type Scope = {
+  attributes: SurfaceAttributes
+  time: number
+  refs: EvalValue[]
+}
+
+type Evaluator = (scope: Scope) => EvalValue
+
+type EvalFunction = (args: EvalValue[]) => EvalValue
+
+const isMatrix = (value: EvalValue): value is Matrix => !Array.isArray(value)
+
+const vec = (value: EvalValue) => (isMatrix(value) ? value.columns.flat() : value)
+
+const scalar = (value: EvalValue) => vec(value)[0] ?? 0
+
+const map1 = (value: EvalValue, fn: (x: number) => number) => vec(value).map(fn)
+
+const pick = (values: number[], index: number) => values[values.length === 1 ? 0 : index] ?? 0
+
+const mapN = (args: EvalValue[], fn: (...x: number[]) => number) => {
+  const values = args.map(vec)
+  const length = Math.max(...values.map((entry) => entry.length))
+  return Array.from({ length }, (_, index) => fn(...values.map((entry) => pick(entry, index))))
+}
+
+const dotValues = (a: number[], b: number[]) =>
+  a.reduce((sum, value, index) => sum + value * (b[index] ?? 0), 0)
+
+const normalizeValues = (value: number[]) => {
+  const length = Math.hypot(...value)
+  return length > 0 ? value.map((entry) => entry / length) : value.map(() => 0)
+}
+
+const crossValues = (a: number[], b: number[]) => [
+  a[1] * b[2] - a[2] * b[1],
+  a[2] * b[0] - a[0] * b[2],
+  a[0] * b[1] - a[1] * b[0],
+]
+
+const fract = (x: number) => x - Math.floor(x)
+const clamp01 = (x: number) => Math.min(Math.max(x, 0), 1)
+const glslMod = (x: number, y: number) => x - y * Math.floor(x / y)
+const smoothstepValue = (low: number, high: number, x: number) => {
+  const t = clamp01((x - low) / (high - low))
+  return t * t * (3 - 2 * t)
+}
+
+const srgbToLinear = (c: number) =>
+  c < 0.04045 ? c * 0.0773993808 : Math.pow(c * 0.9478672986 + 0.0521327014, 2.4)
+const linearToSrgb = (c: number) =>
+  c < 0.0031308 ? c * 12.92 : 1.055 * Math.pow(c, 0.41666) - 0.055
+
+const hexToLinear = (hex: number) =>
+  [(hex >> 16) & 255, (hex >> 8) & 255, hex & 255].map((c) => srgbToLinear(c / 255))
+
+const parseColor = (value: string) => {
+  const hex = Number.parseInt(value.replace('#', ''), 16)
+  return hexToLinear(Number.isNaN(hex) ? FALLBACK_COLOR : hex)
+}
+
+const identity = (size: number): Matrix => ({
+  columns: Array.from({ length: size }, (_, col) =>
+    Array.from({ length: size }, (_, row) => (row === col ? 1 : 0)),
+  ),
+})
+
+const transposeMatrix = ({ columns }: Matrix): Matrix => ({
+  columns: columns.map((_, col) => columns.map((column) => column[col])),
+})
+
+const inverseMatrix = ({ columns }: Matrix): Matrix => {
+  const size = columns.length
+  const rows = columns.map((_, row) => [
+    ...columns.map((column) => column[row]),
+    ...identity(size).columns[row],
+  ])
+  for (let col = 0; col < size; col += 1) {
+    let pivot = col
+    for (let row = col + 1; row < size; row += 1) {
+      if (Math.abs(rows[row][col]) > Math.abs(rows[pivot][col])) pivot = row
+    }
+    if (Math.abs(rows[pivot][col]) < 1e-12) {
+      return { columns: columns.map((column) => column.map(() => 0)) }
+    }
+    ;[rows[col], rows[pivot]] = [rows[pivot], rows[col]]
+    const scale = rows[col][col]
+    rows[col] = rows[col].map((value) => value / scale)
+    rows.forEach((row, index) => {
+      if (index === col) return
+      const factor = row[col]
+      rows[index] = row.map((value, entry) => value - factor * rows[col][entry])
+    })
+  }
+  return { columns: columns.map((_, col) => rows.map((row) => row[size + col])) }
+}
+
+const multiplyMatrix = (matrix: Matrix, value: number[]) =>
+  matrix.columns[0].map((_, row) =>
+    matrix.columns.reduce((sum, column, col) => sum + column[row] * (value[col] ?? 0), 0),
+  )
+
+const multiplyValues = (a: EvalValue, b: EvalValue): EvalValue => {
+  if (isMatrix(a) && isMatrix(b)) {
+    return { columns: b.columns.map((column) => multiplyMatrix(a, column)) }
+  }
+  if (isMatrix(a)) return multiplyMatrix(a, vec(b))
+  if (isMatrix(b)) return b.columns.map((column) => dotValues(a, column))
+  return mapN([a, b], (x, y) => x * y)
+}
+
+// MaterialX noise, ported from three's mx_noise so CPU output matches the shader.
+const rotl32 = (x: number, k: number) => ((x << k) | (x >>> (32 - k))) >>> 0
+
+const bjmix = (a: number, b: number, c: number) => {
+  a = (a - c) >>> 0
+  a = (a ^ rotl32(c, 4)) >>> 0
+  c = (c + b) >>> 0
+  b = (b - a) >>> 0
+  b = (b ^ rotl32(a, 6)) >>> 0
+  a = (a + c) >>> 0
+  c = (c - b) >>> 0
+  c = (c ^ rotl32(b, 8)) >>> 0
+  b = (b + a) >>> 0
+  a = (a - c) >>> 0
+  a = (a ^ rotl32(c, 16)) >>> 0
+  c = (c + b) >>> 0
+  b = (b - a) >>> 0
+  b = (b ^ rotl32(a, 19)) >>> 0
+  a = (a + c) >>> 0
+  c = (c - b) >>> 0
+  c = (c ^ rotl32(b, 4)) >>> 0
+  b = (b + a) >>> 0
+  return [a, b, c]
+}
+
+const bjfinal = (a: number, b: number, c: number) => {
+  c = (c ^ b) >>> 0
+  c = (c - rotl32(b, 14)) >>> 0
+  a = (a ^ c) >>> 0
+  a = (a - rotl32(c, 11)) >>> 0
+  b = (b ^ a) >>> 0
+  b = (b - rotl32(a, 25)) >>> 0
+  c = (c ^ b) >>> 0
+  c = (c - rotl32(b, 16)) >>> 0
+  a = (a ^ c) >>> 0
+  a = (a - rotl32(c, 4)) >>> 0
+  b = (b ^ a) >>> 0
+  b = (b - rotl32(a, 14)) >>> 0
+  c = (c ^ b) >>> 0
+  c = (c - rotl32(b, 24)) >>> 0
+  return c
+}
+
+const hashInt = (coords: number[]) => {
+  const seed = (0xdeadbeef + (coords.length << 2) + 13) >>> 0
+  if (coords.length === 1) return bjfinal((seed + coords[0]) >>> 0, seed, seed)
+  let a = (seed + coords[0]) >>> 0
+  let b = (seed + coords[1]) >>> 0
+  let c = (seed + (coords[2] ?? 0)) >>> 0
+  if (coords.length > 3) {
+    ;[a, b, c] = bjmix(a, b, c)
+    a = (a + coords[3]) >>> 0
+    if (coords.length > 4) b = (b + coords[4]) >>> 0
+  }
+  return bjfinal(a, b, c)
+}
+
+const hashVec3 = (coords: number[]) => {
+  const hash = hashInt(coords)
+  return [hash & 0xff, (hash >>> 8) & 0xff, (hash >>> 16) & 0xff]
+}
+
+const bitsTo01 = (bits: number) => bits / 0xffffffff
+
+const fade = (t: number) => t * t * t * (t * (t * 6 - 15) + 10)
+
+const gradient = (hash: number, local: number[]) => {
+  const [x, y, z] = local
+  let u: number
+  let v: number
+  if (local.length === 2) {
+    const h = hash & 7
+    u = h < 4 ? x : y
+    v = 2 * (h < 4 ? y : x)
+  } else {
+    const h = hash & 15
+    u = h < 8 ? x : y
+    v = h < 4 ? y : h === 12 || h === 14 ? x : z
+  }
+  return (hash & 1 ? -u : u) + (hash & 2 ? -v : v)
+}
+
+const perlinNoise = (p: number[], channels: 1 | 3) => {
+  const cells = p.map(Math.floor)
+  const local = p.map((value, axis) => value - cells[axis])
+  const weights = local.map(fade)
+  const result = channels === 1 ? [0] : [0, 0, 0]
+  for (let corner = 0; corner < 1 << p.length; corner += 1) {
+    const offset = p.map((_, axis) => (corner >> axis) & 1)
+    const cell = cells.map((value, axis) => value + offset[axis])
+    const position = local.map((value, axis) => value - offset[axis])
+    const weight = weights.reduce(
+      (total, value, axis) => total * (offset[axis] ? value : 1 - value),
+      1,
+    )
+    const hashes = channels === 1 ? [hashInt(cell)] : hashVec3(cell)
+    hashes.forEach((hash, channel) => {
+      result[channel] += weight * gradient(hash, position)
+    })
+  }
+  const scale = p.length === 2 ? 0.6616 : 0.982
+  return result.map((value) => value * scale)
+}
+
+const toNoiseCoord = (value: EvalValue) => {
+  const coord = vec(value)
+  return coord.length >= 3 ? coord.slice(0, 3) : [coord[0] ?? 0, pick(coord, 1)]
+}
+
+const fractalNoise = (args: EvalValue[], channels: 1 | 3) => {
+  const [position, octaves, lacunarity, diminish] = args.map(vec)
+  const p = [...toNoiseCoord(position), 0].slice(0, 3)
+  const result = channels === 1 ? [0] : [0, 0, 0]
+  let amplitude = 1
+  for (let octave = 0; octave < Math.trunc(octaves[0]); octave += 1) {
+    perlinNoise(p, channels).forEach((value, channel) => {
+      result[channel] += amplitude * value
+    })
+    amplitude *= diminish[0]
+    p.forEach((value, axis) => {
+      p[axis] = value * lacunarity[0]
+    })
+  }
+  return result
+}
+
+const FRACTAL_OFFSET = [19, 193, 17]
+
+const offsetFractal = (args: EvalValue[]) => {
+  const p = [...toNoiseCoord(args[0]), 0].slice(0, 3)
+  return fractalNoise([p.map((value, axis) => value + FRACTAL_OFFSET[axis]), ...args.slice(1)], 1)
+}
+
+const worleyNoise = (value: EvalValue, jitterValue: EvalValue, count: number) => {
+  const p = toNoiseCoord(value)
+  const jitter = scalar(jitterValue)
+  const cells = p.map(Math.floor)
+  const local = p.map((entry, axis) => entry - cells[axis])
+  const distances = [1e6, 1e6, 1e6]
+  const offsets = p.length === 2 ? 9 : 27
+  for (let index = 0; index < offsets; index += 1) {
+    const offset = p.map((_, axis) => (Math.floor(index / 3 ** axis) % 3) - 1)
+    const cell = cells.map((entry, axis) => entry + offset[axis])
+    const jittered = [0, 1, 2].map((channel) => bitsTo01(hashInt([...cell, channel])))
+    const diff = offset.map(
+      (entry, axis) => entry + (jittered[axis] - 0.5) * jitter + 0.5 - local[axis],
+    )
+    const dist = dotValues(diff, diff)
+    if (dist < distances[0]) distances.splice(0, 0, dist)
+    else if (dist < distances[1]) distances.splice(1, 0, dist)
+    else if (dist < distances[2]) distances.splice(2, 0, dist)
+    distances.length = 3
+  }
+  return distances.slice(0, count)
+}
+
+const noiseArgs = (args: EvalValue[]) => {
+  const coord = toNoiseCoord(args[0])
+  const amplitude = vec(args[1] ?? [1])
+  const pivot = vec(args[2] ?? [0])
+  const apply = (value: number[]) => mapN([value, amplitude, pivot], (x, a, p) => x * a + p)
+  return { coord, apply }
+}
+
+const tri = (x: number) => Math.abs(fract(x) - 0.5)
+
+const triNoise3D = (position: number[], speed: number, time: number) => {
+  const p = position.slice(0, 3)
+  let bp = p.slice()
+  let z = 1.4
+  let rz = 0
+  for (let i = 0; i <= 3; i += 1) {
+    const b = bp.map((value) => value * 2)
+    const dg = [tri(b[2] + tri(b[1])), tri(b[2] + tri(b[0])), tri(b[1] + tri(b[0]))]
+    p.forEach((value, axis) => {
+      p[axis] = (value + dg[axis] + time * 0.1 * speed) * 1.2
+    })
+    bp = bp.map((value) => value * 1.8 + 0.14)
+    z *= 1.5
+    rz += tri(p[2] + tri(p[0] + tri(p[1]))) / z
+  }
+  return rz
+}
+
+const LUMINANCE = [0.2126, 0.7152, 0.0722]
+
+const luminanceOf = (value: EvalValue) => dotValues(vec(value).slice(0, 3), LUMINANCE)
+
+const matrixRows = (rows: number[][]): Matrix => transposeMatrix({ columns: rows })
+
+const ACES_INPUT = matrixRows([
+  [0.59719, 0.35458, 0.04823],
+  [0.076, 0.90834, 0.01566],
+  [0.0284, 0.13383, 0.83777],
+])
+const ACES_OUTPUT = matrixRows([
+  [1.60475, -0.53108, -0.07367],
+  [-0.10208, 1.10813, -0.00605],
+  [-0.00327, -0.07276, 1.07602],
+])
+const LINEAR_REC2020_TO_LINEAR_SRGB: Matrix = {
+  columns: [
+    [1.6605, -0.1246, -0.0182],
+    [-0.5876, 1.1329, -0.1006],
+    [-0.0728, -0.0083, 1.1187],
+  ],
+}
+const LINEAR_SRGB_TO_LINEAR_REC2020: Matrix = {
+  columns: [
+    [0.6274, 0.0691, 0.0164],
+    [0.3293, 0.9195, 0.088],
+    [0.0433, 0.0113, 0.8956],
+  ],
+}
+const AGX_INSET: Matrix = {
+  columns: [
+    [0.856627153315983, 0.137318972929847, 0.11189821299995],
+    [0.0951212405381588, 0.761241990602591, 0.0767994186031903],
+    [0.0482516061458583, 0.101439036467562, 0.811302368396859],
+  ],
+}
+const AGX_OUTSET: Matrix = {
+  columns: [
+    [1.1271005818144368, -0.1413297634984383, -0.14132976349843826],
+    [-0.11060664309660323, 1.157823702216272, -0.11060664309660294],
+    [-0.016493938717834573, -0.016493938717834257, 1.2519364065950405],
+  ],
+}
+
+const toneMap = (fn: string, color: number[], exposure: number) => {
+  const c = color.slice(0, 3).map((value) => value * exposure)
+  if (fn === 'linearToneMapping') return c.map(clamp01)
+  if (fn === 'reinhardToneMapping') return c.map((value) => clamp01(value / (value + 1)))
+  if (fn === 'cineonToneMapping') {
+    return c.map((value) => {
+      const x = Math.max(value - 0.004, 0)
+      return Math.pow((x * (x * 6.2 + 0.5)) / (x * (x * 6.2 + 1.7) + 0.06), 2.2)
+    })
+  }
+  if (fn === 'acesFilmicToneMapping') {
+    const fitted = multiplyMatrix(
+      ACES_INPUT,
+      c.map((value) => value / 0.6),
+    ).map(
+      (value) =>
+        (value * (value + 0.0245786) - 0.000090537) /
+        (value * (value + 0.432951) * 0.983729 + 0.238081),
+    )
+    return multiplyMatrix(ACES_OUTPUT, fitted).map(clamp01)
+  }
+  if (fn === 'agxToneMapping') {
+    const minEv = -12.47393
+    const maxEv = 4.026069
+    const log = multiplyMatrix(AGX_INSET, multiplyMatrix(LINEAR_SRGB_TO_LINEAR_REC2020, c)).map(
+      (value) => clamp01((Math.log2(Math.max(value, 1e-10)) - minEv) / (maxEv - minEv)),
+    )
+    const contrast = log.map((x) => {
+      const x2 = x * x
+      const x4 = x2 * x2
+      return (
+        15.5 * x4 * x2 -
+        40.14 * x4 * x +
+        31.96 * x4 -
+        6.868 * x2 * x +
+        0.4298 * x2 +
+        0.1191 * x -
+        0.00232
+      )
+    })
+    const outset = multiplyMatrix(AGX_OUTSET, contrast).map((value) =>
+      Math.pow(Math.max(value, 0), 2.2),
+    )
+    return multiplyMatrix(LINEAR_REC2020_TO_LINEAR_SRGB, outset).map(clamp01)
+  }
+  const start = 0.8 - 0.04
+  const desaturation = 0.15
+  const x = Math.min(...c)
+  const offset = x < 0.08 ? x - 6.25 * x * x : 0.04
+  const shifted = c.map((value) => value - offset)
+  const peak = Math.max(...shifted)
+  if (peak < start) return shifted
+  const d = 1 - start
+  const newPeak = 1 - (d * d) / (peak + d - start)
+  const g = 1 - 1 / (desaturation * (peak - newPeak) + 1)
+  return shifted.map((value) => {
+    const scaled = (value * newPeak) / peak
+    return scaled + (newPeak - scaled) * g
+  })
+}
+
+const construct = (size: number) => (args: EvalValue[]) => {
+  const values = args.flatMap(vec)
+  if (values.length === 1) return Array.from({ length: size }, () => values[0])
+  return Array.from({ length: size }, (_, index) => values[index] ?? 0)
+}
+
+const remapValues = (args: EvalValue[], clamp: boolean) =>
+  mapN(args, (x, inLow, inHigh, outLow, outHigh) => {
+    const t = (x - inLow) / (inHigh - inLow)
+    return (clamp ? clamp01(t) : t) * (outHigh - outLow) + outLow
+  })
+
+const compare = (fn: (a: number, b: number) => boolean) => (args: EvalValue[]) =>
+  mapN(args, (a, b) => (fn(a, b) ? 1 : 0))
+
+const unary = (fn: (x: number) => number) => (args: EvalValue[]) => map1(args[0], fn)
+
+const binary = (fn: (a: number, b: number) => number) => (args: EvalValue[]) =>
+  mapN(args.slice(0, 2), fn)
+
+const FUNCTIONS: Record<string, EvalFunction> = {
+  float: (args) => [scalar(args[0])],
+  color: construct(3),
+  vec2: construct(2),
+  vec3: construct(3),
+  vec4: construct(4),
+  mat2: (args) => ({ columns: args.map((arg) => construct(2)([arg])) }),
+  mat3: (args) => ({ columns: args.map((arg) => construct(3)([arg])) }),
+  mat4: (args) => ({ columns: args.map((arg) => construct(4)([arg])) }),
+  sin: unary(Math.sin),
+  cos: unary(Math.cos),
+  tan: unary(Math.tan),
+  asin: unary(Math.asin),
+  acos: unary(Math.acos),
+  atan: unary(Math.atan),
+  abs: unary(Math.abs),
+  fract: unary(fract),
+  floor: unary(Math.floor),
+  ceil: unary(Math.ceil),
+  round: unary(Math.round),
+  trunc: unary(Math.trunc),
+  exp: unary(Math.exp),
+  exp2: unary((x) => Math.pow(2, x)),
+  log: unary(Math.log),
+  log2: unary(Math.log2),
+  sign: unary(Math.sign),
+  oneMinus: unary((x) => 1 - x),
+  negate: unary((x) => -x),
+  pow2: unary((x) => x * x),
+  pow3: unary((x) => x * x * x),
+  pow4: unary((x) => x * x * x * x),
+  sqrt: unary(Math.sqrt),
+  saturate: unary(clamp01),
+  radians: unary((x) => (x * Math.PI) / 180),
+  degrees: unary((x) => (x * 180) / Math.PI),
+  pow: binary(Math.pow),
+  atan2: binary(Math.atan2),
+  min: binary(Math.min),
+  max: binary(Math.max),
+  mod: binary(glslMod),
+  step: binary((edge, x) => (x < edge ? 0 : 1)),
+  stepElement: binary((x, edge) => (x < edge ? 0 : 1)),
+  clamp: (args) => mapN(args, (x, low, high) => Math.min(Math.max(x, low), high)),
+  mix: (args) => mapN(args, (a, b, t) => a + (b - a) * t),
+  smoothstep: (args) => mapN(args, smoothstepValue),
+  smoothstepElement: (args) => mapN(args, (x, low, high) => smoothstepValue(low, high, x)),
+  remap: (args) => remapValues(args, false),
+  remapClamp: (args) => remapValues(args, true),
+  lessThan: compare((a, b) => a < b),
+  lessThanEqual: compare((a, b) => a <= b),
+  greaterThan: compare((a, b) => a > b),
+  greaterThanEqual: compare((a, b) => a >= b),
+  equal: compare((a, b) => a === b),
+  notEqual: compare((a, b) => a !== b),
+  select: (args) => mapN(args, (cond, a, b) => (cond ? a : b)),
+  length: ([value]) => [Math.hypot(...vec(value))],
+  normalize: ([value]) => normalizeValues(vec(value)),
+  dot: ([a, b]) => [dotValues(vec(a), vec(b))],
+  cross: ([a, b]) => crossValues(vec(a), vec(b)),
+  distance: ([a, b]) => [Math.hypot(...mapN([a, b], (x, y) => x - y))],
+  reflect: ([incident, normal]) => {
+    const i = vec(incident)
+    const n = vec(normal)
+    const d = 2 * dotValues(n, i)
+    return i.map((value, index) => value - d * n[index])
+  },
+  refract: ([incident, normal, eta]) => {
+    const i = vec(incident)
+    const n = vec(normal)
+    const ratio = scalar(eta)
+    const d = dotValues(n, i)
+    const k = 1 - ratio * ratio * (1 - d * d)
+    if (k < 0) return i.map(() => 0)
+    return i.map((value, index) => ratio * value - (ratio * d + Math.sqrt(k)) * n[index])
+  },
+  faceforward: ([n, i, nref]) => {
+    const normal = vec(n)
+    return dotValues(vec(nref), vec(i)) < 0 ? normal : normal.map((value) => -value)
+  },
+  // Screen-space derivatives need neighbouring fragments, which a per-pixel interpreter lacks.
+  dFdx: ([value]) => map1(value, () => 0),
+  dFdy: ([value]) => map1(value, () => 0),
+  fwidth: ([value]) => map1(value, () => 0),
+  transpose: ([value]) => (isMatrix(value) ? transposeMatrix(value) : value),
+  inverse: ([value]) => (isMatrix(value) ? inverseMatrix(value) : value),
+  checker: ([coord]) => {
+    const [x, y] = vec(coord)
+    return [Math.sign(glslMod(Math.floor(x * 2) + Math.floor(y * 2), 2))]
+  },
+  rotateUV: ([uvValue, rotation, center]) => {
+    const [u, v] = vec(uvValue)
+    const [cx, cy] = construct(2)([center])
+    const angle = scalar(rotation)
+    const [dx, dy] = [u - cx, v - cy]
+    const [c, s] = [Math.cos(angle), Math.sin(angle)]
+    return [c * dx - s * dy + cx, s * dx + c * dy + cy]
+  },
+  spherizeUV: ([uvValue, strength, center]) => {
+    const [u, v] = vec(uvValue)
+    const [cx, cy] = construct(2)([center])
+    const [dx, dy] = [u - cx, v - cy]
+    const delta2 = dx * dx + dy * dy
+    const offset = delta2 * delta2 * scalar(strength)
+    return [u + dx * offset, v + dy * offset]
+  },
+  spritesheetUV: ([count, uvValue, frame]) => {
+    const [width, height] = construct(2)([count])
+    const [u, v] = vec(uvValue)
+    const frameNum = Math.floor(glslMod(scalar(frame), width * height))
+    const column = glslMod(frameNum, width)
+    const row = height - Math.ceil((frameNum + 1) / width)
+    return [(u + column) / width, (v + row) / height]
+  },
+  triNoise3D: ([position, speed, time]) => [
+    triNoise3D(construct(3)([position]), scalar(speed), scalar(time)),
+  ],
+  mx_noise_float: (args) => {
+    const { coord, apply } = noiseArgs(args)
+    return apply(perlinNoise(coord, 1))
+  },
+  mx_noise_vec3: (args) => {
+    const { coord, apply } = noiseArgs(args)
+    return apply(perlinNoise(coord, 3))
+  },
+  mx_noise_vec4: (args) => {
+    const { coord, apply } = noiseArgs(args)
+    const shifted = coord.map((value, axis) => value + [19, 73, 0][axis])
+    return apply([...perlinNoise(coord, 3), ...perlinNoise(shifted, 1)])
+  },
+  mx_fractal_noise_float: (args) => mapN([fractalNoise(args, 1), args[4]], (x, a) => x * a),
+  mx_fractal_noise_vec2: (args) =>
+    mapN([[...fractalNoise(args, 1), ...offsetFractal(args)], args[4]], (x, a) => x * a),
+  mx_fractal_noise_vec3: (args) => mapN([fractalNoise(args, 3), args[4]], (x, a) => x * a),
+  mx_fractal_noise_vec4: (args) =>
+    mapN([[...fractalNoise(args, 3), ...offsetFractal(args)], args[4]], (x, a) => x * a),
+  mx_worley_noise_float: ([coord, jitter]) => worleyNoise(coord, jitter, 1),
+  mx_worley_noise_vec2: ([coord, jitter]) => worleyNoise(coord, jitter, 2),
+  mx_worley_noise_vec3: ([coord, jitter]) => worleyNoise(coord, jitter, 3),
+  luminance: ([value]) => [luminanceOf(value)],
+  grayscale: ([value]) => [luminanceOf(value)],
+  saturation: ([value, amount]) => {
+    const luma = luminanceOf(value)
+    const t = scalar(amount)
+    return vec(value)
+      .slice(0, 3)
+      .map((channel) => luma + (channel - luma) * t)
+  },
+  posterize: ([value, steps]) => mapN([value, steps], (x, n) => Math.floor(x * n) / n),
+  sRGBTransferEOTF: ([value]) => map1(value, srgbToLinear),
+  sRGBTransferOETF: ([value]) => map1(value, linearToSrgb),
+  linearToneMapping: ([value, exposure]) =>
+    toneMap('linearToneMapping', vec(value), scalar(exposure)),
+  reinhardToneMapping: ([value, exposure]) =>
+    toneMap('reinhardToneMapping', vec(value), scalar(exposure)),
+  cineonToneMapping: ([value, exposure]) =>
+    toneMap('cineonToneMapping', vec(value), scalar(exposure)),
+  acesFilmicToneMapping: ([value, exposure]) =>
+    toneMap('acesFilmicToneMapping', vec(value), scalar(exposure)),
+  agxToneMapping: ([value, exposure]) => toneMap('agxToneMapping', vec(value), scalar(exposure)),
+  neutralToneMapping: ([value, exposure]) =>
+    toneMap('neutralToneMapping', vec(value), scalar(exposure)),
+  // Previews evaluate a single stage with identity camera matrices.
+  varying: ([value]) => value,
+  transformNormalToView: ([value]) => normalizeValues(vec(value)),
+}
+
+const METHODS: Record<string, (a: EvalValue, b: EvalValue) => EvalValue> = {
+  add: (a, b) => mapN([a, b], (x, y) => x + y),
+  sub: (a, b) => mapN([a, b], (x, y) => x - y),
+  mul: multiplyValues,
+  div: (a, b) => mapN([a, b], (x, y) => x / y),
+}
+
+const MEMBERS = ['x', 'y', 'z', 'w']
+
+const BUILTINS: Record<string, (scope: Scope) => EvalValue> = {
+  positionLocal: (scope) => scope.attributes.position,
+  positionGeometry: (scope) => scope.attributes.position,
+  normalLocal: (scope) => scope.attributes.normal,
+  tangentLocal: (scope) => scope.attributes.tangent,
+  bitangentLocal: (scope) => scope.attributes.bitangent,
+  uv: (scope) => scope.attributes.uv,
+  uv1: (scope) => scope.attributes.uv1,
+  // Preview surfaces carry no vertex colors; TSL falls back to white as well.
+  vertexColor: () => [1, 1, 1, 1],
+  modelWorldMatrix: () => identity(4),
+  cameraViewMatrix: () => identity(4),
+  cameraProjectionMatrix: () => identity(4),
+  modelViewMatrix: () => identity(4),
+  modelNormalMatrix: () => identity(3),
+}
+
+const SURFACE_ATTRIBUTES: Record<string, keyof SurfaceAttributes> = {
+  position: 'position',
+  normal: 'normal',
+  tangent: 'tangent',
+  uv: 'uv',
+  uv1: 'uv1',
+}
+
+const ATTRIBUTE_SIZES: Record<AttributeNodeType, number> = { float: 1, vec2: 2, vec3: 3, vec4: 4 }
+
+const createCompiler = (options: GraphEvaluationOptions) => {
+  const fallback = hexToLinear(FALLBACK_COLOR)
+  const compile = (expr: IRExpr): Evaluator => {
+    switch (expr.op) {
+      case 'literal': {
+        const value = [expr.value]
+        return () => value
+      }
+      case 'hex': {
+        const value = hexToLinear(expr.value)
+        return () => value
+      }
+      case 'call': {
+        const [first] = expr.args
+        if (expr.fn === 'color' && expr.args.length === 1 && first.op === 'hex') {
+          return compile(first)
+        }
+        const fn = FUNCTIONS[expr.fn]
+        if (!fn) throw new Error(`Unsupported function "${expr.fn}"`)
+        const args = expr.args.map(compile)
+        return (scope) => fn(args.map((arg) => arg(scope)))
+      }
+      case 'method': {
+        const fn = METHODS[expr.method]
+        if (!fn) throw new Error(`Unsupported method "${expr.method}"`)
+        const target = compile(expr.target)
+        const [arg] = expr.args.map(compile)
+        return (scope) => fn(target(scope), arg(scope))
+      }
+      case 'member': {
+        const target = compile(expr.target)
+        const index = MEMBERS.indexOf(expr.name)
+        return (scope) => [vec(target(scope))[index] ?? 0]
+      }
+      case 'builtin': {
+        const builtin = BUILTINS[expr.name]
+        if (!builtin) throw new Error(`Unsupported builtin "${expr.name}"`)
+        return builtin
+      }
+      case 'ref':
+        return (scope) => scope.refs[expr.id]
+      case 'number': {
+        const override = options.uniforms?.[expr.node.id]
+        const value = [typeof override === 'number' ? override : expr.value]
+        if (override === undefined && getNumberUpdateMode(expr.node) === 'frame') {
+          return (scope) => [scope.time]
+        }
+        return () => value
+      }
+      case 'color': {
+        const override = options.uniforms?.[expr.node.id]
+        const value = parseColor(typeof override === 'string' ? override : expr.value)
+        return () => value
+      }
+      case 'time':
+        return (scope) => [scope.time]
+      case 'texture': {
+        const sampler = options.textures?.[expr.id]
+        if (!sampler) return () => fallback
+        return (scope) => sampler(scope.attributes.uv[0], scope.attributes.uv[1])
+      }
+      case 'attribute': {
+        const size = ATTRIBUTE_SIZES[expr.type]
+        const key = SURFACE_ATTRIBUTES[expr.name]
+        // Attributes the preview surfaces lack read as zero, as TSL does for missing ones.
+        if (!key) {
+          const zero = Array.from({ length: size }, () => 0)
+          return () => zero
+        }
+        return (scope) => construct(size)([scope.attributes[key]])
+      }
+    }
+  }
+  return compile
+}
+
+const getPlaneAttributes = ([u, v]: number[]): SurfaceAttributes => ({
+  position: [(u - 0.5) * 1.5, (v - 0.5) * 1.5, 0],
+  normal: [0, 0, 1],
+  tangent: [1, 0, 0],
+  bitangent: [0, 1, 0],
+  uv: [u, v],
+  uv1: [u, v],
+})
+
+// Front view of the preview sphere, using SphereGeometry's uv layout.
+const getSphereAttributes = (x: number, y: number): SurfaceAttributes | null => {
+  const radius2 = x * x + y * y
+  if (radius2 > 1) return null
+  const normal = [x, y, Math.sqrt(1 - radius2)]
+  const phi = Math.atan2(normal[2], -normal[0])
+  const u = fract(phi / (Math.PI * 2))
+  const v = 1 - Math.acos(normal[1]) / Math.PI
+  const tangent = normalizeValues([Math.sin(phi), 0, Math.cos(phi)])
+  return {
+    position: normal.map((value) => value * 0.75),
+    normal,
+    tangent,
+    bitangent: crossValues(normal, tangent),
+    uv: [u, v],
+    uv1: [u, v],
+  }
+}
+
+const collectRefs = (ir: GraphIR, expr: IRExpr | null, used: Set<number>) => {
+  if (!expr) return
+  if (expr.op === 'ref') {
+    if (used.has(expr.id)) return
+    used.add(expr.id)
+    collectRefs(ir, ir.values[expr.id].expr, used)
+  } else if (expr.op === 'call') {
+    expr.args.forEach((arg) => collectRefs(ir, arg, used))
+  } else if (expr.op === 'method') {
+    collectRefs(ir, expr.target, used)
+    expr.args.forEach((arg) => collectRefs(ir, arg, used))
+  } else if (expr.op === 'member') {
+    collectRefs(ir, expr.target, used)
+  }
+}
+
+type RenderTarget = {
+  color: IRExpr
+  kind: ExprKind
+  opacity: IRExpr | null
+  alphaTest: IRExpr | null
+}
+
+const renderTarget = (ir: GraphIR, target: RenderTarget, options: GraphEvaluationOptions) => {
+  const { width, height } = options
+  const compile = createCompiler(options)
+  const used = new Set<number>()
+  ;[target.color, target.opacity, target.alphaTest].forEach((expr) => collectRefs(ir, expr, used))
+  const values = [...used]
+    .sort((a, b) => a - b)
+    .map((id) => ({ id, evaluate: compile(ir.values[id].expr) }))
+  const color = compile(target.color)
+  const opacity = target.opacity ? compile(target.opacity) : null
+  const alphaTest = target.alphaTest ? compile(target.alphaTest) : null
+  const data = new Uint8ClampedArray(width * height * 4)
+  const scope: Scope = {
+    attributes: getPlaneAttributes([0, 0]),
+    time: options.time ?? 0,
+    refs: [],
+  }
+  for (let y = 0; y < height; y += 1) {
+    for (let x = 0; x < width; x += 1) {
+      const u = (x + 0.5) / width
+      const v = 1 - (y + 0.5) / height
+      const attributes =
+        options.surface === 'sphere'
+          ? getSphereAttributes(u * 2 - 1, v * 2 - 1)
+          : getPlaneAttributes([u, v])
+      if (!attributes) continue
+      scope.attributes = { ...attributes, ...options.attributes?.(attributes.uv) }
+      scope.refs = []
+      values.forEach(({ id, evaluate }) => {
+        scope.refs[id] = evaluate(scope)
+      })
+      const result = vec(color(scope))
+      const rgb =
+        result.length === 1
+          ? [result[0], result[0], result[0]]
+          : [result[0], result[1], target.kind === 'vec2' ? 0 : (result[2] ?? 0)]
+      let alpha = target.kind === 'vec4' ? (result[3] ?? 1) : 1
+      if (opacity) alpha = scalar(opacity(scope))
+      if (alphaTest && alpha < scalar(alphaTest(scope))) alpha = 0
+      const offset = (y * width + x) * 4
+      rgb.forEach((channel, index) => {
+        data[offset + index] = Math.round(linearToSrgb(clamp01(channel)) * 255)
+      })
+      data[offset + 3] = Math.round(clamp01(alpha) * 255)
+    }
+  }
+  return { width, height, data }
+}
+
+const getPropertyNode = (ir: GraphIR, slot: string) => {
+  const property = ir.properties.find((entry) => entry.slot === slot)
+  return property?.type === 'node' ? property.value : null
+}
+
+// Unlit reference render of the material's base color, opacity and alpha test.
+export const evaluateGraph = (
+  source: GraphIRSource,
+  options: GraphEvaluationOptions,
+): GraphImage => {
+  const ir = buildGraphIR(source, options.context)
+  return renderTarget(
+    ir,
+    {
+      color: ir.colorNode,
+      kind: 'color',
+      opacity: getPropertyNode(ir, 'opacityNode'),
+      alphaTest: getPropertyNode(ir, 'alphaTestNode'),
+    },
+    options,
+  )
+}
+
+// Scalars render as grayscale, vec2 as RG, vec3/color as RGB and vec4 as RGBA.
+export const evaluateGraphNode = (
+  source: GraphIRSource,
+  nodeId: string,
+  outputPin: string | undefined,
+  options: GraphEvaluationOptions,
+): GraphImage => {
+  const ir = buildGraphIR(source, options.context)
+  const result = ir.resolve(nodeId, outputPin)
+  return renderTarget(
+    ir,
+    {
+      color: isMatrixKind(result.kind) ? { op: 'literal', value: 0 } : result.expr,
+      kind: result.kind,
+      opacity: null,
+      alphaTest: null,
+    },
+    options,
+  )
+}
+
+export type FoldedValue = { kind: ExprKind; value: EvalValue }
+
+// Evaluates a node output once when nothing upstream varies per pixel or per frame.
+export const foldGraphValue = (
+  source: GraphIRSource,
+  nodeId: string,
+  outputPin: string | undefined,
+  context?: GraphIRContext,
+): FoldedValue | null => {
+  const ir = buildGraphIR(source, context)
+  const result = ir.resolve(nodeId, outputPin)
+  const constants = new Map<number, boolean>()
+  const isConstant = (expr: IRExpr): boolean => {
+    switch (expr.op) {
+      case 'builtin':
+      case 'time':
+      case 'texture':
+      case 'attribute':
+        return false
+      case 'number':
+        return getNumberUpdateMode(expr.node) !== 'frame'
+      case 'call':
+        return expr.args.every(isConstant)
+      case 'method':
+        return isConstant(expr.target) && expr.args.every(isConstant)
+      case 'member':
+        return isConstant(expr.target)
+      case 'ref': {
+        const cached = constants.get(expr.id)
+        if (cached !== undefined) return cached
+        const constant = isConstant(ir.values[expr.id].expr)
+        constants.set(expr.id, constant)
+        return constant
+      }
+      default:
+        return true
+    }
+  }
+  if (!isConstant(result.expr)) return null
+  const compile = createCompiler({ width: 1, height: 1, context })
+  const used = new Set<number>()
+  collectRefs(ir, result.expr, used)
+  const scope: Scope = { attributes: getPlaneAttributes([0.5, 0.5]), time: 0, refs: [] }
+  ;[...used]
+    .sort((a, b) => a - b)
+    .forEach((id) => {
+      scope.refs[id] = compile(ir.values[id].expr)(scope)
+    })
+  return { kind: result.kind, value: compile(result.expr)(scope) }
+}
+
+const formatComponent = (value: number) =>
+  Number.isInteger(value) ? value.toFixed(1) : String(Number(value.toFixed(3)))
+
+export const formatFoldedValue = ({ kind, value }: FoldedValue) => {
+  const components = Array.isArray(value) ? value : value.columns.flat()
+  if (kind === 'number') return formatComponent(components[0] ?? 0)
+  return `${kind}(${components.map(formatComponent).join(', ')})`
+}
@@ -0,0 +1,113 @@
+import type { FunctionDefinition, GraphConnection, GraphGroup, GraphNode } from './graph'
+
+export const graphSchemaVersion = 2
+
+export const GRAPH_FILE_FORMAT = 'tsl-node-editor/graph'
+export const GRAPH_SCHEMA_URL = 'https://takahirox.github.io/tsl-node-editor/tslgraph.schema.json'
+export const GRAPH_FILE_EXTENSION = '.tslgraph'
+export const GRAPH_BUNDLE_EXTENSION = '.tslbundle'
+
+export type GraphBlobStore = 'textures' | 'assets'
+
+export type GraphBlobPayload = {
+  id: string
+  store: GraphBlobStore
+  blob: Blob
+  name: string
+}
+
+export type GraphFileBlob = {
+  id: string
+  store: GraphBlobStore
+  name: string
+  type: string
+  data: string
+}
+
+export type GraphDocument = {
+  $schema?: string
+  format: typeof GRAPH_FILE_FORMAT
+  graphSchemaVersion: number
+  nodes: GraphNode[]
+  connections: GraphConnection[]
+  groups: GraphGroup[]
+  functions: Record<string, FunctionDefinition>
+  ui: { paletteOpen?: Record<string, boolean> }
+  blobs?: GraphFileBlob[]
+}
+
+export const isAssetNodeType = (type: string) =>
+  type === 'gltf' || type === 'gltfMaterial' || type === 'gltfTexture' || type === 'meshFile'
+
+export const getNodeBlobStore = (node: GraphNode): GraphBlobStore | null => {
+  if (node.type === 'texture') return 'textures'
+  if (isAssetNodeType(node.type)) return 'assets'
+  return null
+}
+
+export const getNodeBlobKey = (node: GraphNode) =>
+  node.type === 'texture' ? (node.textureKey ?? node.id) : (node.assetKey ?? node.id)
+
+export const stripNodeBlobs = (nodes: GraphNode[]) =>
+  nodes.map((node) => {
+    if (node.type === 'texture') {
+      return { ...node, value: '', textureKey: node.id }
+    }
+    if (isAssetNodeType(node.type)) {
+      return { ...node, value: '', assetKey: node.id }
+    }
+    return node
+  })
+
+const encodeBase64 = (buffer: ArrayBuffer) => {
+  const bytes = new Uint8Array(buffer)
+  let binary = ''
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+  }
+  return btoa(binary)
+}
+
+const decodeBase64 = (data: string) => {
+  const binary = atob(data)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i += 1) {
+    bytes[i] = binary.charCodeAt(i)
+  }
+  return bytes
+}
+
+export const encodeGraphBlobs = (payloads: GraphBlobPayload[]) =>
+  Promise.all(
+    payloads.map(
+      async (payload): Promise<GraphFileBlob> => ({
+        id: payload.id,
+        store: payload.store,
+        name: payload.name,
+        type: payload.blob.type,
+        data: encodeBase64(await payload.blob.arrayBuffer()),
+      }),
+    ),
+  )
+
+export const decodeGraphBlob = (entry: GraphFileBlob) =>
+  new Blob([decodeBase64(entry.data)], { type: entry.type })
+
+export const createGraphDocument = (graph: {
+  nodes: GraphNode[]
+  connections: GraphConnection[]
+  groups: GraphGroup[]
+  functions: Record<string, FunctionDefinition>
+  ui?: { paletteOpen?: Record<string, boolean> }
+  blobs?: GraphFileBlob[]
+}): GraphDocument => ({
+  $schema: GRAPH_SCHEMA_URL,
+  format: GRAPH_FILE_FORMAT,
+  graphSchemaVersion,
+  nodes: stripNodeBlobs(graph.nodes),
+  connections: graph.connections,
+  groups: graph.groups,
+  functions: graph.functions,
+  ui: graph.ui ?? {},
+  ...(graph.blobs ? { blobs: graph.blobs } : {}),
+})
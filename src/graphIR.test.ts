@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest'
+import {
+  POINT_POSITION_ATTRIBUTE,
+  type FunctionDefinition,
+  type GraphConnection,
+  type GraphNode,
+} from './graph'
+import { buildGraphIR, type GraphIRSource } from './graphIR'
+import { createFunction, createNode, link } from './graphTestUtils'
+
+const createSource = (
+  nodes: GraphNode[],
+  connections: GraphConnection[],
+  functions: Record<string, FunctionDefinition> = {},
+): GraphIRSource => ({
+  nodes: [...nodes, createNode('output', 'output')],
+  connections,
+  functions,
+})
+
+const getProperty = (source: GraphIRSource, slot: string) =>
+  buildGraphIR(source).properties.find((property) => property.slot === slot)
+
+describe('buildGraphIR', () => {
+  it('reports a missing base color and defaults to a standard material', () => {
+    const ir = buildGraphIR(createSource([], []))
+    expect(ir.outputNode?.id).toBe('output')
+    expect(ir.hasBaseColor).toBe(false)
+    expect(ir.materialKind).toBe('standard')
+  })
+
+  it('takes the material kind from the node feeding the base color', () => {
+    const ir = buildGraphIR(
+      createSource(
+        [
+          createNode('color', 'color', { value: '#ffffff' }),
+          createNode('basic', 'basicMaterial'),
+        ],
+        [
+          link('color', 'color', 'basic', 'baseColor'),
+          link('basic', 'baseColor', 'output', 'baseColor'),
+        ],
+      ),
+    )
+    expect(ir.hasBaseColor).toBe(true)
+    expect(ir.materialKind).toBe('basic')
+  })
+
+  it('binds a node used twice to a single value', () => {
+    const ir = buildGraphIR(
+      createSource(
+        [createNode('time', 'time'), createNode('sin', 'sine'), createNode('add', 'add')],
+        [
+          link('time', 'value', 'sin', 'value'),
+          link('sin', 'value', 'add', 'a'),
+          link('sin', 'value', 'add', 'b'),
+          link('add', 'value', 'output', 'baseColor'),
+        ],
+      ),
+    )
+    expect(ir.values.filter((value) => value.nodeId === 'sin')).toHaveLength(1)
+  })
+
+  it('inlines function calls as if their body were part of the graph', () => {
+    const square = createFunction('square', {
+      nodes: [
+        createNode('in', 'functionInput', { outputs: ['value'] }),
+        createNode('mul', 'multiply'),
+        createNode('out', 'functionOutput', { inputs: ['value'] }),
+      ],
+      connections: [
+        link('in', 'value', 'mul', 'a'),
+        link('in', 'value', 'mul', 'b'),
+        link('mul', 'value', 'out', 'value'),
+      ],
+      inputs: [{ name: 'x', nodeId: 'in' }],
+      outputs: [{ name: 'y', nodeId: 'out' }],
+    })
+    const roughness = createNode('roughness', 'number', { value: '0.5' })
+    const called = getProperty(
+      createSource(
+        [
+          roughness,
+          createNode('call', 'function', { functionId: 'square', inputs: ['x'], outputs: ['y'] }),
+        ],
+        [link('roughness', 'value', 'call', 'x'), link('call', 'y', 'output', 'roughness')],
+        { square },
+      ),
+      'roughnessNode',
+    )
+    const inlined = getProperty(
+      createSource(
+        [roughness, createNode('mul', 'multiply')],
+        [
+          link('roughness', 'value', 'mul', 'a'),
+          link('roughness', 'value', 'mul', 'b'),
+          link('mul', 'value', 'output', 'roughness'),
+        ],
+      ),
+      'roughnessNode',
+    )
+    expect(called).toBeDefined()
+    expect(called).toEqual(inlined)
+  })
+
+  it('reads point positions from the per-instance attribute', () => {
+    const ir = buildGraphIR(
+      createSource(
+        [createNode('position', 'position'), createNode('points', 'pointsMaterial')],
+        [
+          link('position', 'value', 'points', 'baseColor'),
+          link('points', 'baseColor', 'output', 'baseColor'),
+        ],
+      ),
+    )
+    expect(ir.positionNode).toEqual({
+      op: 'attribute',
+      name: POINT_POSITION_ATTRIBUTE,
+      type: 'vec3',
+    })
+  })
+})
@@ -0,0 +1,1314 @@
+import {
+  ATTRIBUTE_NODE_TYPES,
+  DEFAULT_COLOR,
+  FALLBACK_COLOR,
+  MATERIAL_NODE_KINDS,
+  POINT_POSITION_ATTRIBUTE,
+  buildConnectionMap,
+  buildNodeMap,
+  combineTypes,
+  expandFunctions,
+  findVaryingSource,
+  getAttributeNodeName,
+  getAttributeNodeType,
+  getGltfMaterialTextureId,
+  getGltfTextureId,
+  getMaterialKindFromOutput,
+  getMaterialNodeFromOutput,
+  getOutputConnection,
+  getVaryingName,
+  getVectorKind,
+  isMaterialNodeType,
+  isMatrixKind,
+  isVectorKind,
+  parseNumber,
+  resolveVectorOutputKind,
+  type AttributeNodeType,
+  type ExprKind,
+  type FunctionDefinition,
+  type GltfMaterial,
+  type GraphConnection,
+  type GraphNode,
+} from './graph'
+import { sanitizePrimitiveParams } from './geometryPrimitives'
+
+export type IRExpr =
+  | { op: 'literal'; value: number }
+  | { op: 'hex'; value: number }
+  | { op: 'call'; fn: string; args: IRExpr[] }
+  | { op: 'method'; target: IRExpr; method: string; args: IRExpr[] }
+  | { op: 'member'; target: IRExpr; name: string }
+  | { op: 'builtin'; name: string }
+  | { op: 'ref'; id: number }
+  | { op: 'number'; node: GraphNode; value: number }
+  | { op: 'color'; node: GraphNode; value: string }
+  | { op: 'time' }
+  | { op: 'texture'; id: string }
+  | { op: 'attribute'; name: string; type: AttributeNodeType }
+
+export type IROperand = { expr: IRExpr; kind: ExprKind }
+
+export type IRValue = {
+  id: number
+  nodeId: string
+  pin?: string
+  kind: ExprKind
+  expr: IRExpr
+}
+
+export type IRMaterialProperty =
+  | { type: 'node'; slot: string; value: IRExpr }
+  | { type: 'map'; slot: string; textureId: string }
+  | { type: 'number'; slot: string; value: number }
+  | { type: 'boolean'; slot: string; value: boolean }
+  | { type: 'vector2'; slot: string; value: number }
+
+export type MaterialKind = (typeof MATERIAL_NODE_KINDS)[keyof typeof MATERIAL_NODE_KINDS]
+
+export type IRGeometry =
+  | { type: 'primitive'; shape: string; params: Record<string, number> }
+  | { type: 'gltf'; node: GraphNode }
+  | { type: 'meshFile'; node: GraphNode }
+
+export type GraphIR = {
+  values: IRValue[]
+  outputNode: GraphNode | null
+  hasBaseColor: boolean
+  materialKind: MaterialKind
+  colorNode: IRExpr
+  properties: IRMaterialProperty[]
+  positionNode: IRExpr | null
+  geometry: IRGeometry | null
+  resolve: (nodeId: string, outputPin?: string) => IROperand
+}
+
+export type GraphIRSource = {
+  nodes: GraphNode[]
+  connections: GraphConnection[]
+  functions: Record<string, FunctionDefinition>
+}
+
+export type GraphIRContext = {
+  getGltfMaterial?: (node: GraphNode) => GltfMaterial | null
+}
+
+type VectorKind = 'color' | 'vec2' | 'vec3' | 'vec4'
+
+const lit = (value: number): IRExpr => ({ op: 'literal', value })
+const toExpr = (value: IRExpr | number) => (typeof value === 'number' ? lit(value) : value)
+const call = (fn: string, ...args: Array<IRExpr | number>): IRExpr => ({
+  op: 'call',
+  fn,
+  args: args.map(toExpr),
+})
+const method = (target: IRExpr, name: string, ...args: Array<IRExpr | number>): IRExpr => ({
+  op: 'method',
+  target,
+  method: name,
+  args: args.map(toExpr),
+})
+const member = (target: IRExpr, name: string): IRExpr => ({ op: 'member', target, name })
+const builtin = (name: string): IRExpr => ({ op: 'builtin', name })
+const float = (value: IRExpr | number) => call('float', value)
+const color = (...args: Array<IRExpr | number>) => call('color', ...args)
+const vec2 = (...args: Array<IRExpr | number>) => call('vec2', ...args)
+const vec3 = (...args: Array<IRExpr | number>) => call('vec3', ...args)
+const vec4 = (...args: Array<IRExpr | number>) => call('vec4', ...args)
+const uv = () => builtin('uv')
+const fallbackColor = () => color({ op: 'hex', value: FALLBACK_COLOR })
+const zero = (): IROperand => ({ expr: float(0), kind: 'number' })
+
+const ATTRIBUTE_BUILTINS: Record<string, IROperand> = {
+  position: { expr: builtin('positionLocal'), kind: 'vec3' },
+  normal: { expr: builtin('normalLocal'), kind: 'vec3' },
+  tangent: { expr: builtin('tangentLocal'), kind: 'vec3' },
+  bitangent: { expr: builtin('bitangentLocal'), kind: 'vec3' },
+  uv: { expr: builtin('uv'), kind: 'vec2' },
+  uv2: { expr: builtin('uv1'), kind: 'vec2' },
+}
+
+const MATRIX_BUILTINS: Record<string, IROperand> = {
+  modelMatrix: { expr: builtin('modelWorldMatrix'), kind: 'mat4' },
+  viewMatrix: { expr: builtin('cameraViewMatrix'), kind: 'mat4' },
+  projectionMatrix: { expr: builtin('cameraProjectionMatrix'), kind: 'mat4' },
+  modelViewMatrix: { expr: builtin('modelViewMatrix'), kind: 'mat4' },
+  normalMatrix: { expr: builtin('modelNormalMatrix'), kind: 'mat3' },
+}
+
+const UNARY_FUNCTIONS: Record<string, string> = {
+  fract: 'fract',
+  floor: 'floor',
+  ceil: 'ceil',
+  round: 'round',
+  trunc: 'trunc',
+  exp: 'exp',
+  exp2: 'exp2',
+  log: 'log',
+  log2: 'log2',
+  sign: 'sign',
+  oneMinus: 'oneMinus',
+  negate: 'negate',
+  pow2: 'pow2',
+  pow3: 'pow3',
+  pow4: 'pow4',
+  sqrt: 'sqrt',
+  saturate: 'saturate',
+  tan: 'tan',
+  asin: 'asin',
+  acos: 'acos',
+  atan: 'atan',
+  radians: 'radians',
+  degrees: 'degrees',
+}
+
+const COMPARE_FUNCTIONS = new Set([
+  'lessThan',
+  'lessThanEqual',
+  'greaterThan',
+  'greaterThanEqual',
+  'equal',
+  'notEqual',
+])
+
+const TONE_MAPPING_FUNCTIONS = new Set([
+  'linearToneMapping',
+  'reinhardToneMapping',
+  'cineonToneMapping',
+  'acesFilmicToneMapping',
+  'agxToneMapping',
+  'neutralToneMapping',
+])
+
+const NOISE_KINDS: Record<string, ExprKind> = {
+  mxNoiseFloat: 'number',
+  mxNoiseVec3: 'vec3',
+  mxNoiseVec4: 'vec4',
+  mxFractalNoiseFloat: 'number',
+  mxFractalNoiseVec2: 'vec2',
+  mxFractalNoiseVec3: 'vec3',
+  mxFractalNoiseVec4: 'vec4',
+  mxWorleyNoiseFloat: 'number',
+  mxWorleyNoiseVec2: 'vec2',
+  mxWorleyNoiseVec3: 'vec3',
+}
+
+const NOISE_FUNCTIONS: Record<string, string> = {
+  mxNoiseFloat: 'mx_noise_float',
+  mxNoiseVec3: 'mx_noise_vec3',
+  mxNoiseVec4: 'mx_noise_vec4',
+  mxFractalNoiseFloat: 'mx_fractal_noise_float',
+  mxFractalNoiseVec2: 'mx_fractal_noise_vec2',
+  mxFractalNoiseVec3: 'mx_fractal_noise_vec3',
+  mxFractalNoiseVec4: 'mx_fractal_noise_vec4',
+  mxWorleyNoiseFloat: 'mx_worley_noise_float',
+  mxWorleyNoiseVec2: 'mx_worley_noise_vec2',
+  mxWorleyNoiseVec3: 'mx_worley_noise_vec3',
+}
+
+const isVectorResult = (kind: string): kind is VectorKind =>
+  kind === 'color' || kind === 'vec2' || kind === 'vec3' || kind === 'vec4'
+
+const numberOr = (entry: IROperand | null, fallback: number) =>
+  entry?.kind === 'number' ? entry.expr : float(fallback)
+
+const toVectorExpr = (entry: IROperand | null, kind: VectorKind) => {
+  if (entry?.kind === kind) return entry.expr
+  if (entry?.kind === 'number') {
+    if (kind === 'color') return color(entry.expr)
+    if (kind === 'vec2') return vec2(entry.expr, entry.expr)
+    if (kind === 'vec3') return vec3(entry.expr, entry.expr, entry.expr)
+    return vec4(entry.expr, entry.expr, entry.expr, entry.expr)
+  }
+  if (kind === 'color') return color(0)
+  if (kind === 'vec2') return vec2(0, 0)
+  if (kind === 'vec3') return vec3(0, 0, 0)
+  return vec4(0, 0, 0, 1)
+}
+
+const toVec2Expr = (entry: IROperand | null) => {
+  if (entry?.kind === 'vec2') return entry.expr
+  if (entry?.kind === 'vec3' || entry?.kind === 'color' || entry?.kind === 'vec4') {
+    return vec2(member(entry.expr, 'x'), member(entry.expr, 'y'))
+  }
+  if (entry?.kind === 'number') return vec2(entry.expr, entry.expr)
+  return vec2(0, 0)
+}
+
+const toVec3Expr = (entry: IROperand | null) => {
+  if (entry?.kind === 'vec3' || entry?.kind === 'color') return entry.expr
+  if (entry?.kind === 'vec2') {
+    return vec3(member(entry.expr, 'x'), member(entry.expr, 'y'), float(0))
+  }
+  if (entry?.kind === 'vec4') {
+    return vec3(member(entry.expr, 'x'), member(entry.expr, 'y'), member(entry.expr, 'z'))
+  }
+  if (entry?.kind === 'number') return vec3(entry.expr, entry.expr, entry.expr)
+  return vec3(0, 0, 0)
+}
+
+const toVec4Expr = (entry: IROperand | null) => {
+  if (entry?.kind === 'vec4') return entry.expr
+  if (entry?.kind === 'vec3' || entry?.kind === 'color') {
+    return vec4(
+      member(entry.expr, 'x'),
+      member(entry.expr, 'y'),
+      member(entry.expr, 'z'),
+      float(1),
+    )
+  }
+  if (entry?.kind === 'vec2') {
+    return vec4(member(entry.expr, 'x'), member(entry.expr, 'y'), float(0), float(1))
+  }
+  if (entry?.kind === 'number') return vec4(entry.expr, entry.expr, entry.expr, entry.expr)
+  return vec4(0, 0, 0, 1)
+}
+
+const toStrictVec3Expr = (entry: IROperand | null, fallback: number) => {
+  if (entry?.kind === 'vec3') return entry.expr
+  if (entry?.kind === 'number') return vec3(entry.expr, entry.expr, entry.expr)
+  return vec3(fallback, fallback, fallback)
+}
+
+const splat = (value: IRExpr | number, kind: 'number' | VectorKind) => {
+  if (kind === 'number') return float(value)
+  if (kind === 'vec2') return vec2(value, value)
+  if (kind === 'vec3') return vec3(value, value, value)
+  if (kind === 'vec4') return vec4(value, value, value, value)
+  return color(value)
+}
+
+const asColorOperand = (entry: IROperand | null): IROperand | null => {
+  if (entry?.kind === 'color') return entry
+  if (entry?.kind === 'number') return { expr: color(entry.expr), kind: 'color' }
+  return null
+}
+
+const toColorNodeExpr = (entry: IROperand | null) => {
+  if (!entry) return fallbackColor()
+  if (entry.kind === 'number') return color(entry.expr)
+  if (entry.kind === 'color' || entry.kind === 'vec3' || entry.kind === 'vec4') {
+    return entry.expr
+  }
+  return fallbackColor()
+}
+
+// Offset, in local units, between the finite-difference samples of a displaced surface.
+const FINITE_DIFFERENCE_STEP = 0.01
+
+const isInlineExpr = (expr: IRExpr) =>
+  expr.op === 'ref' ||
+  expr.op === 'builtin' ||
+  expr.op === 'time' ||
+  expr.op === 'literal' ||
+  expr.op === 'hex'
+
+const GLTF_MATERIAL_NUMBER_PINS = new Set([
+  'roughness',
+  'metalness',
+  'emissiveIntensity',
+  'aoMapIntensity',
+  'envMapIntensity',
+  'opacity',
+  'alphaTest',
+  'alphaHash',
+])
+
+const GLTF_MATERIAL_TEXTURE_PINS: Record<string, keyof GltfMaterial> = {
+  baseColorTexture: 'map',
+  roughnessMap: 'roughnessMap',
+  metalnessMap: 'metalnessMap',
+  emissiveMap: 'emissiveMap',
+  normalMap: 'normalMap',
+  aoMap: 'aoMap',
+  envMap: 'envMap',
+}
+
+export const buildGraphIR = (source: GraphIRSource, context: GraphIRContext = {}): GraphIR => {
+  const expanded = expandFunctions(source.nodes, source.connections, source.functions)
+  const nodeMap = buildNodeMap(expanded.nodes)
+  const connectionMap = buildConnectionMap(expanded.connections)
+  const values: IRValue[] = []
+  const cache = new Map<string, IROperand>()
+  const stack = new Set<string>()
+  const outputNode = expanded.nodes.find((node) => node.type === 'output') ?? null
+  const materialKind = getMaterialKindFromOutput(outputNode ?? undefined, nodeMap, connectionMap)
+  const positionLocal: IRExpr =
+    materialKind === 'points'
+      ? { op: 'attribute', name: POINT_POSITION_ATTRIBUTE, type: 'vec3' }
+      : builtin('positionLocal')
+
+  const bind = (nodeId: string, pin: string | undefined, result: IROperand): IROperand => {
+    if (isInlineExpr(result.expr)) return result
+    const id = values.length
+    values.push({ id, nodeId, pin, kind: result.kind, expr: result.expr })
+    return { expr: { op: 'ref', id }, kind: result.kind }
+  }
+
+  const resolve = (nodeId: string, outputPin?: string): IROperand => {
+    const key = `${nodeId}:${outputPin ?? ''}`
+    const cached = cache.get(key)
+    if (cached) return cached
+    if (stack.has(nodeId)) return zero()
+    const node = nodeMap.get(nodeId)
+    if (!node) return zero()
+    stack.add(nodeId)
+    const result = bind(nodeId, outputPin, lowerNode(node, outputPin))
+    stack.delete(nodeId)
+    cache.set(key, result)
+    return result
+  }
+
+  const getInputFor = (node: GraphNode, pin: string) => {
+    const connection = connectionMap.get(`${node.id}:${pin}`)
+    if (!connection) return null
+    return resolve(connection.from.nodeId, connection.from.pin)
+  }
+
+  const lowerGltfMaterial = (node: GraphNode, pin: string): IROperand => {
+    const material = context.getGltfMaterial?.(node) ?? null
+    const fallback = { expr: fallbackColor(), kind: 'color' as const }
+    const getTexture = (key: keyof GltfMaterial): IROperand | null =>
+      material?.[key]
+        ? {
+            expr: { op: 'texture', id: getGltfMaterialTextureId(node.id, key as string) },
+            kind: 'color',
+          }
+        : null
+    if (!material) {
+      if (pin === 'normalScale') return { expr: vec2(1, 1), kind: 'vec2' }
+      if (GLTF_MATERIAL_NUMBER_PINS.has(pin)) return zero()
+      return fallback
+    }
+    if (pin === 'baseColor') {
+      const base = material.color
+        ? color(material.color.r, material.color.g, material.color.b)
+        : null
+      const tex = getTexture('map')
+      if (base && tex) return { expr: method(base, 'mul', tex.expr), kind: 'color' }
+      if (base) return { expr: base, kind: 'color' }
+      return tex ?? fallback
+    }
+    const textureKey = GLTF_MATERIAL_TEXTURE_PINS[pin]
+    if (textureKey) return getTexture(textureKey) ?? fallback
+    if (pin === 'emissive') {
+      const value = material.emissive
+      return { expr: value ? color(value.r, value.g, value.b) : color(0), kind: 'color' }
+    }
+    if (pin === 'normalScale') {
+      const scale = material.normalScale
+      return { expr: scale ? vec2(scale.x, scale.y) : vec2(1, 1), kind: 'vec2' }
+    }
+    const numbers: Record<string, number> = {
+      roughness: material.roughness ?? 0.7,
+      metalness: material.metalness ?? 0.1,
+      emissiveIntensity: material.emissiveIntensity ?? 1,
+      aoMapIntensity: material.aoMapIntensity ?? 1,
+      envMapIntensity: material.envMapIntensity ?? 1,
+      opacity: material.opacity ?? 1,
+      alphaTest: material.alphaTest ?? 0,
+      alphaHash: material.alphaHash ? 1 : 0,
+    }
+    if (pin in numbers) return { expr: float(numbers[pin]), kind: 'number' }
+    return fallback
+  }
+
+  const lowerNode = (node: GraphNode, outputPin?: string): IROperand => {
+    const getInput = (pin: string) => getInputFor(node, pin)
+
+    if (node.type === 'number') {
+      return { expr: { op: 'number', node, value: parseNumber(node.value) }, kind: 'number' }
+    }
+    if (node.type === 'time') {
+      return { expr: { op: 'time' }, kind: 'number' }
+    }
+    if (node.type === 'color') {
+      const value = typeof node.value === 'string' ? node.value : DEFAULT_COLOR
+      return { expr: { op: 'color', node, value }, kind: 'color' }
+    }
+    if (node.type === 'position') return { expr: positionLocal, kind: 'vec3' }
+    const attribute = ATTRIBUTE_BUILTINS[node.type]
+    if (attribute) return attribute
+    if (node.type === 'attribute') {
+      const type = getAttributeNodeType(node)
+      const name = getAttributeNodeName(node)
+      return {
+        expr: name ? { op: 'attribute', name, type } : call(type, 0),
+        kind: ATTRIBUTE_NODE_TYPES[type],
+      }
+    }
+    if (node.type === 'meshFile' && outputPin === 'color') {
+      return { expr: color(builtin('vertexColor')), kind: 'color' }
+    }
+    if (node.type === 'meshFile' && outputPin === 'uv') return ATTRIBUTE_BUILTINS.uv
+    const matrix = MATRIX_BUILTINS[node.type]
+    if (matrix) return matrix
+    if (node.type === 'texture') {
+      return { expr: { op: 'texture', id: node.id }, kind: 'color' }
+    }
+    if (node.type === 'gltfTexture') {
+      return { expr: { op: 'texture', id: getGltfTextureId(node.id) }, kind: 'color' }
+    }
+    if (node.type === 'functionInput' || node.type === 'functionOutput') {
+      return getInput('value') ?? zero()
+    }
+
+    if (node.type === 'add' || node.type === 'multiply') {
+      const identity = node.type === 'add' ? 0 : 1
+      const op = node.type === 'add' ? 'add' : 'mul'
+      const left = getInput('a') ?? { expr: float(identity), kind: 'number' as const }
+      const right = getInput('b') ?? { expr: float(identity), kind: 'number' as const }
+      const combined = combineTypes(left.kind, right.kind)
+      if (combined === 'number') {
+        return { expr: method(left.expr, op, right.expr), kind: 'number' }
+      }
+      if (isVectorResult(combined)) {
+        return {
+          expr: method(toVectorExpr(left, combined), op, toVectorExpr(right, combined)),
+          kind: combined,
+        }
+      }
+      return zero()
+    }
+    if (node.type === 'sine' || node.type === 'cosine' || node.type === 'abs') {
+      const fn = node.type === 'sine' ? 'sin' : node.type === 'cosine' ? 'cos' : 'abs'
+      return { expr: call(fn, numberOr(getInput('value'), 0)), kind: 'number' }
+    }
+    if (node.type === 'normalize' || node.type === 'length') {
+      const input = getInput('value')
+      if (input && isVectorKind(input.kind)) {
+        return node.type === 'normalize'
+          ? { expr: call('normalize', input.expr), kind: input.kind }
+          : { expr: call('length', input.expr), kind: 'number' }
+      }
+      return zero()
+    }
+    if (node.type === 'dot') {
+      const inputA = getInput('a')
+      const inputB = getInput('b')
+      const vecA = getVectorKind(inputA?.kind ?? 'unknown')
+      const vecB = getVectorKind(inputB?.kind ?? 'unknown')
+      if (inputA && inputB && vecA && vecB && vecA === vecB) {
+        return { expr: call('dot', inputA.expr, inputB.expr), kind: 'number' }
+      }
+      return zero()
+    }
+    if (node.type === 'cross') {
+      const inputA = getInput('a')
+      const inputB = getInput('b')
+      const vecA = getVectorKind(inputA?.kind ?? 'unknown')
+      const vecB = getVectorKind(inputB?.kind ?? 'unknown')
+      if (inputA && inputB && vecA === 'vec3' && vecB === 'vec3') {
+        const kind = inputA.kind === 'color' || inputB.kind === 'color' ? 'color' : 'vec3'
+        return { expr: call('cross', inputA.expr, inputB.expr), kind }
+      }
+      return zero()
+    }
+    if (node.type === 'checker') {
+      const input = getInput('coord')
+      const coord =
+        input?.kind === 'vec2'
+          ? input.expr
+          : input?.kind === 'number'
+            ? vec2(input.expr, input.expr)
+            : uv()
+      return { expr: call('checker', coord), kind: 'number' }
+    }
+    if (node.type === 'dFdx' || node.type === 'dFdy' || node.type === 'fwidth') {
+      const input = getInput('value')
+      if (!input || (!isVectorKind(input.kind) && input.kind !== 'number')) {
+        return zero()
+      }
+      return { expr: call(node.type, input.expr), kind: input.kind }
+    }
+    if (node.type === 'distance') {
+      const inputA = getInput('a')
+      const inputB = getInput('b')
+      const kind = resolveVectorOutputKind([inputA?.kind ?? 'number', inputB?.kind ?? 'number'])
+      if (kind === 'number') {
+        return {
+          expr: call('distance', numberOr(inputA, 0), numberOr(inputB, 0)),
+          kind: 'number',
+        }
+      }
+      if (isVectorResult(kind)) {
+        return {
+          expr: call('distance', toVectorExpr(inputA, kind), toVectorExpr(inputB, kind)),
+          kind: 'number',
+        }
+      }
+      return zero()
+    }
+    if (node.type === 'reflect' || node.type === 'refract' || node.type === 'faceforward') {
+      const toReflectVec3 = (entry: IROperand | null) => {
+        if (entry?.kind === 'vec3' || entry?.kind === 'color') return entry.expr
+        if (entry?.kind === 'number') return vec3(entry.expr, entry.expr, entry.expr)
+        return vec3(0, 0, 0)
+      }
+      const pins =
+        node.type === 'faceforward' ? ['n', 'i', 'nref'] : ['incident', 'normal']
+      const inputs = pins.map((pin) => getInput(pin))
+      const kind = inputs.some((input) => input?.kind === 'color') ? 'color' : 'vec3'
+      const args = inputs.map((input) => toReflectVec3(input))
+      if (node.type === 'refract') {
+        args.push(numberOr(getInput('eta'), 1))
+      }
+      return { expr: call(node.type, ...args), kind }
+    }
+    if (node.type === 'triNoise3D') {
+      const inputPosition = getInput('position')
+      const inputTime = getInput('time')
+      const position =
+        inputPosition?.kind === 'vec3'
+          ? inputPosition.expr
+          : inputPosition?.kind === 'number'
+            ? vec3(inputPosition.expr, inputPosition.expr, inputPosition.expr)
+            : builtin('positionLocal')
+      const time: IRExpr = inputTime?.kind === 'number' ? inputTime.expr : { op: 'time' }
+      return {
+        expr: call('triNoise3D', position, numberOr(getInput('speed'), 1), time),
+        kind: 'number',
+      }
+    }
+    if (NOISE_FUNCTIONS[node.type]) {
+      const isFractal = node.type.startsWith('mxFractal')
+      const coordInput = getInput(isFractal ? 'position' : 'texcoord')
+      const coord = coordInput
+        ? coordInput.kind === 'vec3' || coordInput.kind === 'color' || coordInput.kind === 'vec4'
+          ? toVec3Expr(coordInput)
+          : toVec2Expr(coordInput)
+        : uv()
+      const args = isFractal
+        ? [
+            coord,
+            numberOr(getInput('octaves'), 3),
+            numberOr(getInput('lacunarity'), 2),
+            numberOr(getInput('diminish'), 0.5),
+            numberOr(getInput('amplitude'), 1),
+          ]
+        : node.type.startsWith('mxWorley')
+          ? [coord, numberOr(getInput('jitter'), 1)]
+          : [coord, numberOr(getInput('amplitude'), 1), numberOr(getInput('pivot'), 0)]
+      return { expr: call(NOISE_FUNCTIONS[node.type], ...args), kind: NOISE_KINDS[node.type] }
+    }
+    if (node.type === 'rotateUV' || node.type === 'spherizeUV') {
+      const uvInput = getInput('uv')
+      const centerInput = getInput('center')
+      const amount = numberOr(getInput(node.type === 'rotateUV' ? 'rotation' : 'strength'), 0)
+      return {
+        expr: call(
+          node.type,
+          uvInput ? toVec2Expr(uvInput) : uv(),
+          amount,
+          centerInput ? toVec2Expr(centerInput) : vec2(0.5, 0.5),
+        ),
+        kind: 'vec2',
+      }
+    }
+    if (node.type === 'scaleUV' || node.type === 'offsetUV') {
+      const uvInput = getInput('uv')
+      const amountInput = getInput(node.type === 'scaleUV' ? 'scale' : 'offset')
+      const fallback = node.type === 'scaleUV' ? 1 : 0
+      const amount = amountInput ? toVec2Expr(amountInput) : vec2(fallback, fallback)
+      return {
+        expr: method(
+          uvInput ? toVec2Expr(uvInput) : uv(),
+          node.type === 'scaleUV' ? 'mul' : 'add',
+          amount,
+        ),
+        kind: 'vec2',
+      }
+    }
+    if (node.type === 'spritesheetUV') {
+      const sizeInput = getInput('size')
+      const uvInput = getInput('uv')
+      const timeInput = getInput('time')
+      return {
+        expr: call(
+          'spritesheetUV',
+          sizeInput ? toVec2Expr(sizeInput) : vec2(1, 1),
+          uvInput ? toVec2Expr(uvInput) : uv(),
+          timeInput?.kind === 'number' ? timeInput.expr : { op: 'time' },
+        ),
+        kind: 'vec2',
+      }
+    }
+    if (node.type === 'smoothstep' || node.type === 'smoothstepElement') {
+      const lowPin = node.type === 'smoothstep' ? 'edge0' : 'low'
+      const highPin = node.type === 'smoothstep' ? 'edge1' : 'high'
+      const lowInput = getInput(lowPin)
+      const highInput = getInput(highPin)
+      const xInput = getInput('x')
+      const kind = resolveVectorOutputKind([
+        lowInput?.kind ?? 'number',
+        highInput?.kind ?? 'number',
+        xInput?.kind ?? 'number',
+      ])
+      const toOperand = (entry: IROperand | null, fallback: number) =>
+        kind === 'number' ? numberOr(entry, fallback) : toVectorExpr(entry, kind as VectorKind)
+      if (kind !== 'number' && !isVectorResult(kind)) return zero()
+      const low = toOperand(lowInput, 0)
+      const high = toOperand(highInput, 1)
+      const x = toOperand(xInput, 0)
+      const args = node.type === 'smoothstep' ? [low, high, x] : [x, low, high]
+      return { expr: call(node.type, ...args), kind }
+    }
+    if (node.type === 'pow' || node.type === 'step' || node.type === 'stepElement' || node.type === 'atan2') {
+      const [firstPin, secondPin, firstFallback, secondFallback] =
+        node.type === 'pow'
+          ? ['base', 'exp', 0, 1]
+          : node.type === 'atan2'
+            ? ['y', 'x', 0, 0]
+            : ['edge', 'x', 0, 0]
+      const first = getInput(firstPin as string)
+      const second = getInput(secondPin as string)
+      const kind = resolveVectorOutputKind([first?.kind ?? 'number', second?.kind ?? 'number'])
+      if (kind !== 'number' && !isVectorResult(kind)) return zero()
+      const toOperand = (entry: IROperand | null, fallback: number) =>
+        kind === 'number' ? numberOr(entry, fallback) : toVectorExpr(entry, kind as VectorKind)
+      const a = toOperand(first, firstFallback as number)
+      const b = toOperand(second, secondFallback as number)
+      const args = node.type === 'stepElement' ? [b, a] : [a, b]
+      return { expr: call(node.type, ...args), kind }
+    }
+    if (node.type === 'vec2' || node.type === 'vec3' || node.type === 'vec4') {
+      const pins = ['x', 'y', 'z', 'w'].slice(0, Number(node.type.slice(3)))
+      const args = pins.map((pin) => numberOr(getInput(pin), pin === 'w' ? 1 : 0))
+      return { expr: call(node.type, ...args), kind: node.type }
+    }
+    if (node.type === 'mat2' || node.type === 'mat3' || node.type === 'mat4') {
+      const size = Number(node.type.slice(3))
+      const convert = size === 2 ? toVec2Expr : size === 3 ? toVec3Expr : toVec4Expr
+      const columns = ['c0', 'c1', 'c2', 'c3'].slice(0, size).map((pin) => convert(getInput(pin)))
+      return { expr: call(node.type, ...columns), kind: node.type }
+    }
+    if (node.type === 'scale') {
+      return {
+        expr: method(
+          toStrictVec3Expr(getInput('value'), 0),
+          'mul',
+          toStrictVec3Expr(getInput('scale'), 1),
+        ),
+        kind: 'vec3',
+      }
+    }
+    if (node.type === 'rotate') {
+      const value = bind(node.id, 'value', {
+        expr: toStrictVec3Expr(getInput('value'), 0),
+        kind: 'vec3',
+      }).expr
+      const rotation = bind(node.id, 'rotation', {
+        expr: toStrictVec3Expr(getInput('rotation'), 0),
+        kind: 'vec3',
+      }).expr
+      const scalar = (expr: IRExpr) => bind(node.id, undefined, { expr, kind: 'number' }).expr
+      const neg = float(-1)
+      const cx = scalar(call('cos', member(rotation, 'x')))
+      const sx = scalar(call('sin', member(rotation, 'x')))
+      const cy = scalar(call('cos', member(rotation, 'y')))
+      const sy = scalar(call('sin', member(rotation, 'y')))
+      const cz = scalar(call('cos', member(rotation, 'z')))
+      const sz = scalar(call('sin', member(rotation, 'z')))
+      const axis = (target: IRExpr, name: string) => member(target, name)
+      const rotX = bind(node.id, undefined, {
+        expr: vec3(
+          axis(value, 'x'),
+          method(method(axis(value, 'y'), 'mul', cx), 'add', method(method(axis(value, 'z'), 'mul', sx), 'mul', neg)),
+          method(method(axis(value, 'y'), 'mul', sx), 'add', method(axis(value, 'z'), 'mul', cx)),
+        ),
+        kind: 'vec3',
+      }).expr
+      const rotY = bind(node.id, undefined, {
+        expr: vec3(
+          method(method(axis(rotX, 'x'), 'mul', cy), 'add', method(axis(rotX, 'z'), 'mul', sy)),
+          axis(rotX, 'y'),
+          method(method(axis(rotX, 'z'), 'mul', cy), 'add', method(method(axis(rotX, 'x'), 'mul', sy), 'mul', neg)),
+        ),
+        kind: 'vec3',
+      }).expr
+      return {
+        expr: vec3(
+          method(method(axis(rotY, 'x'), 'mul', cz), 'add', method(method(axis(rotY, 'y'), 'mul', sz), 'mul', neg)),
+          method(method(axis(rotY, 'x'), 'mul', sz), 'add', method(axis(rotY, 'y'), 'mul', cz)),
+          axis(rotY, 'z'),
+        ),
+        kind: 'vec3',
+      }
+    }
+    if (node.type === 'transpose' || node.type === 'inverse') {
+      const input = getInput('value')
+      if (input && isMatrixKind(input.kind)) {
+        return { expr: call(node.type, input.expr), kind: input.kind }
+      }
+      return zero()
+    }
+    if (node.type === 'splitVec2' || node.type === 'splitVec3' || node.type === 'splitVec4') {
+      const input = getInput('value')
+      const kind = node.type === 'splitVec2' ? 'vec2' : node.type === 'splitVec3' ? 'vec3' : 'vec4'
+      const channels = ['x', 'y', 'z', 'w'].slice(0, Number(kind.slice(3)))
+      const source =
+        input?.kind === kind
+          ? input.expr
+          : input?.kind === 'number'
+            ? splat(input.expr, kind)
+            : kind === 'vec4'
+              ? vec4(0, 0, 0, 1)
+              : splat(0, kind)
+      const channel = outputPin && channels.includes(outputPin) ? outputPin : 'x'
+      return { expr: member(source, channel), kind: 'number' }
+    }
+    if (UNARY_FUNCTIONS[node.type]) {
+      const input = getInput('value')
+      if (input && (input.kind === 'number' || isVectorKind(input.kind))) {
+        return { expr: call(UNARY_FUNCTIONS[node.type], input.expr), kind: input.kind }
+      }
+      return zero()
+    }
+    if (node.type === 'remap' || node.type === 'remapClamp') {
+      const input = getInput('value')
+      if (!input || (!isVectorKind(input.kind) && input.kind !== 'number')) {
+        return zero()
+      }
+      const kind = input.kind
+      const toOperand = (entry: IROperand | null, fallback: number) =>
+        kind === 'number' ? numberOr(entry, fallback) : toVectorExpr(entry, kind as VectorKind)
+      const expr = call(
+        node.type,
+        input.expr,
+        toOperand(getInput('inLow'), 0),
+        toOperand(getInput('inHigh'), 1),
+        toOperand(getInput('outLow'), 0),
+        toOperand(getInput('outHigh'), 1),
+      )
+      return { expr: kind === 'color' ? color(expr) : expr, kind }
+    }
+    if (COMPARE_FUNCTIONS.has(node.type) || node.type === 'and' || node.type === 'or') {
+      const inputA = getInput('a')
+      const inputB = getInput('b')
+      const kind = resolveVectorOutputKind([inputA?.kind ?? 'number', inputB?.kind ?? 'number'])
+      if (kind !== 'number' && !isVectorResult(kind)) return zero()
+      const left = kind === 'number' ? numberOr(inputA, 0) : toVectorExpr(inputA, kind)
+      const right = kind === 'number' ? numberOr(inputB, 0) : toVectorExpr(inputB, kind)
+      if (node.type === 'and' || node.type === 'or') {
+        const edge = splat(0.5, kind)
+        const maskA = call('step', edge, left)
+        const maskB = call('step', edge, right)
+        return {
+          expr: node.type === 'and' ? method(maskA, 'mul', maskB) : call('max', maskA, maskB),
+          kind,
+        }
+      }
+      const one = splat(1, kind)
+      const none = kind === 'vec4' ? vec4(0, 0, 0, 0) : splat(0, kind)
+      return { expr: call('select', call(node.type, left, right), one, none), kind }
+    }
+    if (node.type === 'not') {
+      const input = getInput('value')
+      const kind = input?.kind ?? 'number'
+      if (kind !== 'number' && !isVectorResult(kind)) return zero()
+      const value = kind === 'number' ? numberOr(input, 0) : toVectorExpr(input, kind)
+      return { expr: call('oneMinus', call('step', splat(0.5, kind), value)), kind }
+    }
+    if (node.type === 'clamp') {
+      return {
+        expr: call(
+          'clamp',
+          numberOr(getInput('value'), 0),
+          numberOr(getInput('min'), 0),
+          numberOr(getInput('max'), 1),
+        ),
+        kind: 'number',
+      }
+    }
+    if (node.type === 'min' || node.type === 'max' || node.type === 'mod') {
+      const inputA = getInput('a') ?? zero()
+      const inputB = getInput('b') ?? zero()
+      const combined = combineTypes(inputA.kind, inputB.kind)
+      if (combined === 'number') {
+        return { expr: call(node.type, inputA.expr, inputB.expr), kind: 'number' }
+      }
+      if (isVectorResult(combined)) {
+        return {
+          expr: call(
+            node.type,
+            toVectorExpr(inputA, combined),
+            toVectorExpr(inputB, combined),
+          ),
+          kind: combined,
+        }
+      }
+      return zero()
+    }
+    if (node.type === 'mix') {
+      const inputA = getInput('a')
+      const inputB = getInput('b')
+      const t = numberOr(getInput('t'), 0.5)
+      const combined = combineTypes(inputA?.kind ?? 'number', inputB?.kind ?? 'number')
+      if (combined === 'number') {
+        return {
+          expr: call('mix', numberOr(inputA, 0), numberOr(inputB, 1), t),
+          kind: 'number',
+        }
+      }
+      if (isVectorResult(combined)) {
+        const toMixOperand = (entry: IROperand | null) =>
+          entry?.kind === combined || entry?.kind === 'number'
+            ? toVectorExpr(entry, combined)
+            : combined === 'color'
+              ? color(0)
+              : vec3(0, 0, 0)
+        return {
+          expr: call('mix', toMixOperand(inputA), toMixOperand(inputB), t),
+          kind: combined,
+        }
+      }
+      return zero()
+    }
+    if (node.type === 'ifElse') {
+      const inputCond = getInput('cond')
+      const inputA = getInput('a')
+      const inputB = getInput('b')
+      const combined = combineTypes(inputA?.kind ?? 'number', inputB?.kind ?? 'number')
+      if (combined !== 'number' && !isVectorResult(combined)) return zero()
+      const toOperand = (entry: IROperand | null, fallback: number) => {
+        if (combined === 'number') return numberOr(entry, fallback)
+        if (entry?.kind === combined || entry?.kind === 'number') {
+          return toVectorExpr(entry, combined)
+        }
+        return splat(fallback, combined)
+      }
+      const condValue = (() => {
+        if (!inputCond) return float(0)
+        if (combined === 'number') {
+          if (inputCond.kind === 'number') return inputCond.expr
+          if (isVectorKind(inputCond.kind)) return call('length', inputCond.expr)
+          return float(0)
+        }
+        if (combined === 'vec2') return toVec2Expr(inputCond)
+        if (combined === 'vec4') return toVec4Expr(inputCond)
+        return toVec3Expr(inputCond)
+      })()
+      const threshold = numberOr(getInput('threshold'), 0.5)
+      return {
+        expr: call(
+          'select',
+          call(
+            'greaterThan',
+            condValue,
+            combined === 'number' ? threshold : splat(threshold, combined),
+          ),
+          toOperand(inputA, 1),
+          toOperand(inputB, 0),
+        ),
+        kind: combined,
+      }
+    }
+    if (node.type === 'luminance') {
+      const input = getInput('value')
+      return {
+        expr: call('luminance', input ? toVec3Expr(input) : color(0)),
+        kind: 'number',
+      }
+    }
+    if (
+      node.type === 'grayscale' ||
+      node.type === 'saturation' ||
+      node.type === 'posterize' ||
+      node.type === 'sRGBTransferEOTF' ||
+      node.type === 'sRGBTransferOETF' ||
+      TONE_MAPPING_FUNCTIONS.has(node.type)
+    ) {
+      const input = getInput('value')
+      const source = input ? toVec3Expr(input) : color(0)
+      const expr =
+        node.type === 'saturation'
+          ? call('saturation', source, numberOr(getInput('amount'), 1))
+          : node.type === 'posterize'
+            ? call('posterize', source, numberOr(getInput('steps'), 4))
+            : TONE_MAPPING_FUNCTIONS.has(node.type)
+              ? call(node.type, source, float(1))
+              : call(node.type, source)
+      const kind = input?.kind === 'color' || !input ? 'color' : 'vec3'
+      return { expr: kind === 'color' ? color(expr) : expr, kind }
+    }
+    if (node.type === 'gltfMaterial') {
+      return lowerGltfMaterial(node, outputPin ?? 'baseColor')
+    }
+    if (isMaterialNodeType(node.type)) {
+      const pin = outputPin ?? 'baseColor'
+      if (pin === 'baseColor') {
+        const base = asColorOperand(getInput('baseColor'))
+        const tex = asColorOperand(getInput('baseColorTexture'))
+        if (base && tex) {
+          return { expr: method(base.expr, 'mul', tex.expr), kind: 'color' }
+        }
+        if (base || tex) return (base ?? tex) as IROperand
+      }
+      const isPbr = node.type === 'material' || node.type === 'physicalMaterial'
+      if (isPbr && (pin === 'roughness' || pin === 'metalness')) {
+        return getInput(pin) ?? { expr: float(pin === 'roughness' ? 0.7 : 0.1), kind: 'number' }
+      }
+      return { expr: fallbackColor(), kind: 'color' }
+    }
+    if (node.type === 'output') {
+      return { expr: toColorNodeExpr(getInput('baseColor')), kind: 'color' }
+    }
+    if (node.type === 'vertexOutput') {
+      return { expr: toVec3Expr(getInput('position')), kind: 'vec3' }
+    }
+    if (node.type === 'varyingSet') {
+      const input = getInput('value')
+      return input ? { expr: call('varying', input.expr), kind: input.kind } : zero()
+    }
+    if (node.type === 'varyingGet') {
+      const source = findVaryingSource(nodeMap.values(), getVaryingName(node))
+      return source ? resolve(source.id) : zero()
+    }
+    return zero()
+  }
+
+  const vertexOutputNode = expanded.nodes.find((node) => node.type === 'vertexOutput')
+  const geometryOutputNode = expanded.nodes.find((node) => node.type === 'geometryOutput')
+  const materialNode = getMaterialNodeFromOutput(outputNode ?? undefined, nodeMap, connectionMap)
+  const resolveOutput = (pin: 'baseColor' | 'roughness' | 'metalness') => {
+    const connection = getOutputConnection(connectionMap, outputNode ?? undefined, pin)
+    return connection ? resolve(connection.from.nodeId, connection.from.pin) : null
+  }
+
+  const baseColor = resolveOutput('baseColor')
+  let colorNode = toColorNodeExpr(baseColor)
+  const properties: IRMaterialProperty[] = []
+  const getMaterialConn = (pin: string) =>
+    materialNode ? connectionMap.get(`${materialNode.id}:${pin}`) ?? null : null
+  const getMaterialInput = (pin: string) => {
+    const connection = getMaterialConn(pin)
+    return connection ? resolve(connection.from.nodeId, connection.from.pin) : null
+  }
+  const getMaterialLiteral = (pin: string) => {
+    const source = nodeMap.get(getMaterialConn(pin)?.from.nodeId ?? '')
+    return source?.type === 'number' ? parseNumber(source.value) : null
+  }
+  const getMaterialTextureId = (pin: string) => {
+    const source = nodeMap.get(getMaterialConn(pin)?.from.nodeId ?? '')
+    return source?.type === 'texture' ? source.id : null
+  }
+  const addNumberNode = (slot: string, pin: string) => {
+    const input = getMaterialInput(pin)
+    if (input?.kind === 'number') properties.push({ type: 'node', slot, value: input.expr })
+  }
+  const addColorNode = (slot: string, pin: string) => {
+    const input = asColorOperand(getMaterialInput(pin))
+    if (input) properties.push({ type: 'node', slot, value: input.expr })
+  }
+  const addMap = (slot: string, pin: string) => {
+    const textureId = getMaterialTextureId(pin)
+    if (textureId) properties.push({ type: 'map', slot, textureId })
+  }
+  const addLiteral = (slot: string, pin: string) => {
+    const value = getMaterialLiteral(pin)
+    if (value !== null) properties.push({ type: 'number', slot, value })
+  }
+  // Toggles read a literal above 0.5 as on; any other connection turns them on.
+  const getMaterialToggle = (pin: string) => {
+    const value = getMaterialLiteral(pin)
+    if (value !== null) return value > 0.5
+    return getMaterialConn(pin) ? true : null
+  }
+  const addAlphaHash = () => {
+    const value = getMaterialToggle('alphaHash')
+    if (value !== null) properties.push({ type: 'boolean', slot: 'alphaHash', value })
+  }
+  const addEmissive = () => {
+    addColorNode('emissiveNode', 'emissive')
+    addMap('emissiveMap', 'emissiveMap')
+    addLiteral('emissiveIntensity', 'emissiveIntensity')
+  }
+  const addNormalMap = () => {
+    addMap('normalMap', 'normalMap')
+    const normalScale = getMaterialLiteral('normalScale')
+    if (normalScale !== null) {
+      properties.push({ type: 'vector2', slot: 'normalScale', value: normalScale })
+    }
+  }
+  const addTransparency = () => {
+    addNumberNode('opacityNode', 'opacity')
+    addNumberNode('alphaTestNode', 'alphaTest')
+    addAlphaHash()
+    const opacity = getMaterialLiteral('opacity')
+    if (opacity !== null) {
+      properties.push({ type: 'boolean', slot: 'transparent', value: opacity < 1 })
+    }
+  }
+  // Point and sprite sizes attenuate by default; the preview reuses its material, so the
+  // value is always written.
+  const addSizeAttenuation = () => {
+    const value = getMaterialToggle('sizeAttenuation') ?? true
+    properties.push({ type: 'boolean', slot: 'sizeAttenuation', value })
+  }
+
+  if (materialKind === 'standard' || materialKind === 'physical') {
+    const roughness = resolveOutput('roughness')
+    const metalness = resolveOutput('metalness')
+    properties.push({
+      type: 'node',
+      slot: 'roughnessNode',
+      value: roughness?.kind === 'number' ? roughness.expr : float(0.7),
+    })
+    properties.push({
+      type: 'node',
+      slot: 'metalnessNode',
+      value: metalness?.kind === 'number' ? metalness.expr : float(0.1),
+    })
+    if (materialNode) {
+      addEmissive()
+      addMap('roughnessMap', 'roughnessMap')
+      addMap('metalnessMap', 'metalnessMap')
+      addNormalMap()
+      addMap('aoMap', 'aoMap')
+      addLiteral('aoMapIntensity', 'aoMapIntensity')
+      addMap('envMap', 'envMap')
+      addLiteral('envMapIntensity', 'envMapIntensity')
+      addTransparency()
+      if (materialKind === 'physical') {
+        addNumberNode('clearcoatNode', 'clearcoat')
+        addLiteral('clearcoat', 'clearcoat')
+        addNumberNode('clearcoatRoughnessNode', 'clearcoatRoughness')
+        addLiteral('clearcoatRoughness', 'clearcoatRoughness')
+        addMap('clearcoatNormalMap', 'clearcoatNormal')
+        // Sheen intensity scales the sheen color, as it does on MeshPhysicalMaterial.
+        const sheen = getMaterialInput('sheen')
+        const sheenColor = asColorOperand(getMaterialInput('sheenColor'))
+        const sheenNode =
+          sheenColor && sheen?.kind === 'number'
+            ? method(sheenColor.expr, 'mul', sheen.expr)
+            : (sheenColor ?? asColorOperand(sheen))?.expr
+        if (sheenNode) properties.push({ type: 'node', slot: 'sheenNode', value: sheenNode })
+        addNumberNode('sheenRoughnessNode', 'sheenRoughness')
+        addNumberNode('iridescenceNode', 'iridescence')
+        addNumberNode('iridescenceIORNode', 'iridescenceIOR')
+        addNumberNode('iridescenceThicknessNode', 'iridescenceThickness')
+        addNumberNode('transmissionNode', 'transmission')
+        addNumberNode('thicknessNode', 'thickness')
+        addColorNode('attenuationColorNode', 'attenuationColor')
+        addNumberNode('attenuationDistanceNode', 'attenuationDistance')
+        addNumberNode('iorNode', 'ior')
+        addNumberNode('dispersionNode', 'dispersion')
+        addNumberNode('specularIntensityNode', 'specularIntensity')
+        addColorNode('specularColorNode', 'specularColor')
+        // Anisotropy runs along the tangent, matching a zero anisotropyRotation.
+        const anisotropy = getMaterialInput('anisotropy')
+        if (anisotropy?.kind === 'number') {
+          properties.push({ type: 'node', slot: 'anisotropyNode', value: vec2(anisotropy.expr, 0) })
+        }
+      }
+    }
+  }
+  if (
+    (materialKind === 'toon' || materialKind === 'lambert' || materialKind === 'phong') &&
+    materialNode
+  ) {
+    addEmissive()
+    addNormalMap()
+    addMap('aoMap', 'aoMap')
+    addLiteral('aoMapIntensity', 'aoMapIntensity')
+    if (materialKind === 'toon') {
+      addMap('gradientMap', 'gradientMap')
+    } else {
+      addMap('envMap', 'envMap')
+      addLiteral('reflectivity', 'reflectivity')
+    }
+    if (materialKind === 'phong') {
+      addNumberNode('shininessNode', 'shininess')
+      addColorNode('specularNode', 'specular')
+      addMap('specularMap', 'specularMap')
+    }
+    addTransparency()
+  }
+  if (materialKind === 'points' && materialNode) {
+    addNumberNode('sizeNode', 'size')
+    addSizeAttenuation()
+    addTransparency()
+  }
+  if (materialKind === 'sprite' && materialNode) {
+    addNumberNode('rotationNode', 'rotation')
+    addNumberNode('scaleNode', 'scale')
+    addSizeAttenuation()
+    addTransparency()
+  }
+  if ((materialKind === 'line' || materialKind === 'lineDashed') && materialNode) {
+    if (materialKind === 'lineDashed') {
+      addNumberNode('dashSizeNode', 'dashSize')
+      addNumberNode('gapSizeNode', 'gapSize')
+      addNumberNode('dashScaleNode', 'dashScale')
+      addNumberNode('offsetNode', 'dashOffset')
+    }
+    addTransparency()
+  }
+  if (materialKind === 'basic' && materialNode) {
+    addNumberNode('opacityNode', 'opacity')
+    addNumberNode('alphaTestNode', 'alphaTest')
+    addAlphaHash()
+    addMap('map', 'map')
+    addMap('alphaMap', 'alphaMap')
+    addMap('aoMap', 'aoMap')
+    addMap('envMap', 'envMap')
+    const reflectivity = getMaterialLiteral('reflectivity') ?? getMaterialLiteral('envMapIntensity')
+    if (reflectivity !== null) {
+      properties.push({ type: 'number', slot: 'reflectivity', value: reflectivity })
+    }
+    const opacity = getMaterialLiteral('opacity')
+    const hasAlphaMap = Boolean(getMaterialTextureId('alphaMap'))
+    if (opacity !== null || hasAlphaMap) {
+      properties.push({
+        type: 'boolean',
+        slot: 'transparent',
+        value: (opacity ?? 1) < 1 || hasAlphaMap,
+      })
+    }
+  }
+
+  // Copies the values that depend on the builtin so the originals keep their meaning.
+  const replaceBuiltin = (expr: IRExpr, name: string, replacement: IRExpr) => {
+    const copies = new Map<number, IRExpr>()
+    const visit = (entry: IRExpr): IRExpr => {
+      switch (entry.op) {
+        case 'builtin':
+          return entry.name === name ? replacement : entry
+        case 'ref': {
+          const copied = copies.get(entry.id)
+          if (copied) return copied
+          const value = values[entry.id]
+          const next = visit(value.expr)
+          const result =
+            next === value.expr
+              ? entry
+              : bind(value.nodeId, value.pin, { expr: next, kind: value.kind }).expr
+          copies.set(entry.id, result)
+          return result
+        }
+        case 'call': {
+          const args = entry.args.map(visit)
+          return args.every((arg, index) => arg === entry.args[index]) ? entry : { ...entry, args }
+        }
+        case 'method': {
+          const target = visit(entry.target)
+          const args = entry.args.map(visit)
+          return target === entry.target && args.every((arg, index) => arg === entry.args[index])
+            ? entry
+            : { ...entry, target, args }
+        }
+        case 'member': {
+          const target = visit(entry.target)
+          return target === entry.target ? entry : { ...entry, target }
+        }
+        default:
+          return entry
+      }
+    }
+    return visit(expr)
+  }
+
+  // Samples the displacement at two nearby points on a tangent frame and rebuilds the normal
+  // from the displaced surface. Samples start from the undeformed geometry position because
+  // positionLocal already holds the displaced position once the vertex stage has run.
+  const getDisplacedNormal = (nodeId: string, offset: IRExpr) => {
+    const hoist = (expr: IRExpr) => bind(nodeId, 'normal', { expr, kind: 'vec3' }).expr
+    const normal = builtin('normalLocal')
+    const axis = call(
+      'mix',
+      vec3(0, 1, 0),
+      vec3(1, 0, 0),
+      call('step', 0.9, call('abs', member(normal, 'y'))),
+    )
+    const tangent = hoist(call('normalize', call('cross', normal, axis)))
+    const bitangent = hoist(call('cross', normal, tangent))
+    const sample = (direction: IRExpr | null) => {
+      const base = direction
+        ? hoist(
+            method(
+              builtin('positionGeometry'),
+              'add',
+              method(direction, 'mul', FINITE_DIFFERENCE_STEP),
+            ),
+          )
+        : builtin('positionGeometry')
+      return hoist(method(base, 'add', replaceBuiltin(offset, 'positionLocal', base)))
+    }
+    const origin = sample(null)
+    return call(
+      'normalize',
+      call(
+        'cross',
+        method(sample(tangent), 'sub', origin),
+        method(sample(bitangent), 'sub', origin),
+      ),
+    )
+  }
+
+  let positionNode: IRExpr | null = materialKind === 'points' ? positionLocal : null
+  if (vertexOutputNode) {
+    const getVertexInput = (pin: string) => {
+      const connection = connectionMap.get(`${vertexOutputNode.id}:${pin}`)
+      return connection ? resolve(connection.from.nodeId, connection.from.pin) : null
+    }
+    const position = getVertexInput('position')
+    if (materialKind === 'sprite') {
+      // Sprites are placed by their center, so the offset moves the center.
+      positionNode = position ? toVec3Expr(position) : null
+    } else {
+      positionNode = position
+        ? method(positionLocal, 'add', toVec3Expr(position))
+        : positionLocal
+    }
+
+    // Vertex normals are local-space; the material reads its normal in view space.
+    const normal = getVertexInput('normal')
+    const localNormal = normal
+      ? toVec3Expr(normal)
+      : position && vertexOutputNode.recomputeNormals
+        ? getDisplacedNormal(vertexOutputNode.id, toVec3Expr(position))
+        : null
+    if (localNormal) {
+      properties.push({
+        type: 'node',
+        slot: 'normalNode',
+        value: call('normalize', call('varying', call('transformNormalToView', localNormal))),
+      })
+    }
+
+    const vertexColor = getVertexInput('color')
+    if (vertexColor) {
+      const tint = call('varying', toVec3Expr(vertexColor))
+      colorNode = method(colorNode, 'mul', baseColor?.kind === 'vec4' ? vec4(tint, 1) : tint)
+    }
+  }
+
+  let geometry: IRGeometry | null = null
+  const geometryConnection = geometryOutputNode
+    ? connectionMap.get(`${geometryOutputNode.id}:geometry`)
+    : null
+  const geometrySource = geometryConnection ? nodeMap.get(geometryConnection.from.nodeId) : null
+  if (geometrySource?.type === 'gltf') {
+    geometry = { type: 'gltf', node: geometrySource }
+  } else if (geometrySource?.type === 'meshFile') {
+    geometry = { type: 'meshFile', node: geometrySource }
+  } else if (geometrySource?.type === 'geometryPrimitive') {
+    const shape = (typeof geometrySource.value === 'string' ? geometrySource.value : '') || 'box'
+    geometry = {
+      type: 'primitive',
+      shape,
+      params: sanitizePrimitiveParams(shape, geometrySource.geometryParams),
+    }
+  }
+
+  return {
+    values,
+    outputNode,
+    hasBaseColor: Boolean(baseColor),
+    materialKind,
+    colorNode,
+    properties,
+    positionNode,
+    geometry,
+    resolve,
+  }
+}
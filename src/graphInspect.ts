@@ -0,0 +1,77 @@
+import { buildConnectionMap, buildNodeMap, getExpandedNodeId } from './graph'
+import { foldGraphValue, formatFoldedValue } from './graphEvaluator'
+import type { GraphIRContext, GraphIRSource } from './graphIR'
+import { INPUT_TYPES, type InferredType, type TypeInference } from './graphTypes'
+
+export type PinEndpoint = { nodeId: string; pin: string; label: string }
+
+export type PinInspection = {
+  type: InferredType
+  expected: string | null
+  source: PinEndpoint | null
+  internal: (PinEndpoint & { functionName: string }) | null
+  value: string | null
+}
+
+export type PinInspectTarget = { nodeId: string; pin: string; side: 'input' | 'output' }
+
+export type PinInspectOptions = {
+  // Function bodies are inspected without a call site, so their inputs are not constants.
+  fold: boolean
+  context?: GraphIRContext
+}
+
+export const inspectGraphPin = (
+  graph: GraphIRSource,
+  target: PinInspectTarget,
+  inferType: TypeInference,
+  options: PinInspectOptions,
+): PinInspection | null => {
+  const nodeMap = buildNodeMap(graph.nodes)
+  const connectionMap = buildConnectionMap(graph.connections)
+  const node = nodeMap.get(target.nodeId)
+  if (!node) return null
+  const expected = target.side === 'input' ? (INPUT_TYPES[node.type]?.[target.pin] ?? null) : null
+  const from =
+    target.side === 'input'
+      ? (connectionMap.get(`${target.nodeId}:${target.pin}`)?.from ?? null)
+      : { nodeId: target.nodeId, pin: target.pin }
+  const sourceNode = from ? nodeMap.get(from.nodeId) : undefined
+  if (!from || !sourceNode) {
+    return { type: 'unknown', expected, source: null, internal: null, value: null }
+  }
+  const type = inferType(from.nodeId, from.pin, nodeMap, connectionMap, new Set())
+  const source = { ...from, label: sourceNode.label }
+
+  // Function calls are inlined before evaluation, so fold through the callee's output node.
+  let internal: PinInspection['internal'] = null
+  let foldTarget = { nodeId: from.nodeId, pin: from.pin }
+  const def =
+    sourceNode.type === 'function' && sourceNode.functionId
+      ? graph.functions[sourceNode.functionId]
+      : undefined
+  const output = def?.outputs.find((pin) => pin.name === from.pin)
+  if (def && output) {
+    const inner = def.connections.find(
+      (connection) => connection.to.nodeId === output.nodeId && connection.to.pin === 'value',
+    )?.from ?? { nodeId: output.nodeId, pin: 'value' }
+    const innerNode = def.nodes.find((entry) => entry.id === inner.nodeId)
+    internal = {
+      ...inner,
+      label: innerNode?.label ?? inner.nodeId,
+      functionName: def.name,
+    }
+    foldTarget = { nodeId: getExpandedNodeId(sourceNode.id, output.nodeId), pin: 'value' }
+  }
+
+  const folded = options.fold
+    ? foldGraphValue(graph, foldTarget.nodeId, foldTarget.pin, options.context)
+    : null
+  return {
+    type,
+    expected,
+    source,
+    internal,
+    value: folded ? formatFoldedValue(folded) : null,
+  }
+}
@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest'
+import { lintGraph } from './graphLint'
+import { createFunction, createNode, link } from './graphTestUtils'
+
+const callFunction = (id: string, functionId: string) =>
+  createNode(id, 'function', { functionId, inputs: [], outputs: [] })
+
+const getCodes = (problems: ReturnType<typeof lintGraph>) => problems.map((problem) => problem.code)
+
+describe('lintGraph', () => {
+  it('accepts a connected graph', () => {
+    expect(
+      lintGraph({
+        nodes: [createNode('color', 'color'), createNode('output', 'output')],
+        connections: [link('color', 'color', 'output', 'baseColor')],
+        functions: {},
+      }),
+    ).toEqual([])
+  })
+
+  it('reports missing and duplicate outputs', () => {
+    expect(getCodes(lintGraph({ nodes: [], connections: [], functions: {} }))).toEqual([
+      'missing-output',
+    ])
+    const problems = lintGraph({
+      nodes: [createNode('a', 'output'), createNode('b', 'output')],
+      connections: [],
+      functions: {},
+    })
+    expect(problems).toContainEqual({
+      code: 'duplicate-output',
+      severity: 'warning',
+      message: 'Duplicate output node; only "a" is used',
+      path: '$.nodes[1]',
+      nodeId: 'b',
+    })
+  })
+
+  it('reports required inputs that are not connected', () => {
+    const problems = lintGraph({
+      nodes: [createNode('fract', 'fract'), createNode('output', 'output')],
+      connections: [link('fract', 'value', 'output', 'baseColor')],
+      functions: {},
+    })
+    expect(problems).toEqual([
+      {
+        code: 'unconnected-input',
+        severity: 'warning',
+        message: 'Required input is not connected',
+        path: '$.nodes[0]',
+        nodeId: 'fract',
+        pin: 'value',
+      },
+    ])
+  })
+
+  it('reports connection cycles', () => {
+    const problems = lintGraph({
+      nodes: [createNode('a', 'add'), createNode('b', 'add'), createNode('output', 'output')],
+      connections: [link('a', 'value', 'b', 'a'), link('b', 'value', 'a', 'a')],
+      functions: {},
+    })
+    expect(problems.find((problem) => problem.code === 'cycle')?.message).toBe(
+      'Connection cycle: a -> b -> a',
+    )
+  })
+
+  it('reports unknown functions, including inside function bodies', () => {
+    const problems = lintGraph({
+      nodes: [createNode('output', 'output'), callFunction('call', 'b')],
+      connections: [],
+      functions: {
+        b: createFunction('b', {
+          nodes: [createNode('add', 'add'), callFunction('b-calls-c', 'c')],
+        }),
+      },
+    })
+    expect(problems).toContainEqual(
+      expect.objectContaining({
+        code: 'missing-function',
+        path: '$.functions.b.nodes[1]',
+        functionId: 'b',
+        nodeId: 'b-calls-c',
+      }),
+    )
+  })
+
+  it('reports recursive functions', () => {
+    const problems = lintGraph({
+      nodes: [createNode('output', 'output'), callFunction('call', 'a')],
+      connections: [],
+      functions: {
+        a: createFunction('a', { name: 'A', nodes: [callFunction('a-calls-b', 'b')] }),
+        b: createFunction('b', { name: 'B', nodes: [callFunction('b-calls-a', 'a')] }),
+      },
+    })
+    expect(problems).toContainEqual(
+      expect.objectContaining({
+        code: 'recursive-function',
+        message: 'Recursive function call: A -> B -> A',
+      }),
+    )
+  })
+
+  it('finds varyings set inside function bodies', () => {
+    const problems = lintGraph({
+      nodes: [
+        createNode('output', 'output'),
+        createNode('get', 'varyingGet', { value: 'height' }),
+        callFunction('call', 'fn'),
+      ],
+      connections: [link('get', 'value', 'output', 'baseColor')],
+      functions: {
+        fn: createFunction('fn', { nodes: [createNode('set', 'varyingSet', { value: 'height' })] }),
+      },
+    })
+    expect(getCodes(problems)).not.toContain('missing-varying')
+    const missing = lintGraph({
+      nodes: [createNode('output', 'output'), createNode('get', 'varyingGet', { value: 'other' })],
+      connections: [],
+      functions: {},
+    })
+    expect(getCodes(missing)).toContain('missing-varying')
+  })
+})
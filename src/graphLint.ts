@@ -0,0 +1,215 @@
+import {
+  findRecursiveFunctions,
+  findVaryingSource,
+  getVaryingName,
+  type GraphConnection,
+  type GraphNode,
+} from './graph'
+import type { GraphIRSource } from './graphIR'
+import { createTypeInference, getPinTypeIssues, type TypeInference } from './graphTypes'
+import type { GraphProblem, GraphProblemSeverity } from './graphValidation'
+
+export type GraphLintCode =
+  | 'type-mismatch'
+  | 'cycle'
+  | 'unconnected-input'
+  | 'missing-output'
+  | 'duplicate-output'
+  | 'missing-function'
+  | 'recursive-function'
+  | 'missing-varying'
+
+export type GraphLintProblem = GraphProblem & { code: GraphLintCode }
+
+const UNARY_INPUTS = [
+  'fract',
+  'floor',
+  'ceil',
+  'round',
+  'trunc',
+  'exp',
+  'exp2',
+  'log',
+  'log2',
+  'sign',
+  'oneMinus',
+  'negate',
+  'pow2',
+  'pow3',
+  'pow4',
+  'sqrt',
+  'saturate',
+  'tan',
+  'asin',
+  'acos',
+  'atan',
+  'radians',
+  'degrees',
+  'dFdx',
+  'dFdy',
+  'fwidth',
+  'normalize',
+  'length',
+  'transpose',
+  'inverse',
+  'splitVec2',
+  'splitVec3',
+  'splitVec4',
+  'remap',
+  'remapClamp',
+]
+
+const REQUIRED_INPUTS: Record<string, string[]> = {
+  ...Object.fromEntries(UNARY_INPUTS.map((type) => [type, ['value']])),
+  dot: ['a', 'b'],
+  cross: ['a', 'b'],
+  reflect: ['incident', 'normal'],
+  refract: ['incident', 'normal'],
+  faceforward: ['n', 'i', 'nref'],
+  functionOutput: ['value'],
+  varyingSet: ['value'],
+}
+
+const OUTPUT_NODE_TYPES = ['output', 'vertexOutput', 'geometryOutput']
+
+const findCycles = (nodes: GraphNode[], connections: GraphConnection[]) => {
+  const edges = new Map<string, string[]>()
+  connections.forEach((connection) => {
+    const targets = edges.get(connection.from.nodeId) ?? []
+    targets.push(connection.to.nodeId)
+    edges.set(connection.from.nodeId, targets)
+  })
+  const visited = new Set<string>()
+  const stack: string[] = []
+  const cycles: string[][] = []
+  const visit = (nodeId: string) => {
+    const index = stack.indexOf(nodeId)
+    if (index !== -1) {
+      cycles.push([...stack.slice(index), nodeId])
+      return
+    }
+    if (visited.has(nodeId)) return
+    visited.add(nodeId)
+    stack.push(nodeId)
+    edges.get(nodeId)?.forEach(visit)
+    stack.pop()
+  }
+  nodes.forEach((node) => visit(node.id))
+  return cycles
+}
+
+const lintScope = (
+  nodes: GraphNode[],
+  connections: GraphConnection[],
+  source: GraphIRSource,
+  inferType: TypeInference,
+  path: string,
+  functionId?: string,
+) => {
+  const problems: GraphLintProblem[] = []
+  const nodeIndex = new Map(nodes.map((node, index) => [node.id, index]))
+  const report = (
+    code: GraphLintCode,
+    severity: GraphProblemSeverity,
+    message: string,
+    nodeId?: string,
+    pin?: string,
+  ) => {
+    const index = nodeId ? nodeIndex.get(nodeId) : undefined
+    problems.push({
+      code,
+      severity,
+      message,
+      path: index === undefined ? path : `${path}[${index}]`,
+      ...(nodeId ? { nodeId } : {}),
+      ...(pin ? { pin } : {}),
+      ...(functionId ? { functionId } : {}),
+    })
+  }
+
+  findCycles(nodes, connections).forEach((cycle) => {
+    report('cycle', 'error', `Connection cycle: ${cycle.join(' -> ')}`, cycle[0])
+  })
+
+  getPinTypeIssues(nodes, connections, inferType).forEach((issue) => {
+    const message =
+      issue.message === 'Type mismatch' ? issue.message : `Type mismatch: ${issue.message}`
+    report('type-mismatch', 'warning', message, issue.nodeId, issue.pin)
+  })
+
+  const connected = new Set(
+    connections.map((connection) => `${connection.to.nodeId}:${connection.to.pin}`),
+  )
+  nodes.forEach((node) => {
+    REQUIRED_INPUTS[node.type]?.forEach((pin) => {
+      if (!node.inputs.includes(pin) || connected.has(`${node.id}:${pin}`)) return
+      report('unconnected-input', 'warning', 'Required input is not connected', node.id, pin)
+    })
+    if (node.type === 'function' && (!node.functionId || !source.functions[node.functionId])) {
+      report('missing-function', 'error', `Unknown function "${node.functionId ?? ''}"`, node.id)
+    }
+    if (node.type === 'varyingGet') {
+      // Varyings are shared by the whole material, so the setter may sit in any scope.
+      const name = getVaryingName(node)
+      const scopes = [source.nodes, ...Object.values(source.functions).map((def) => def.nodes)]
+      if (!findVaryingSource(scopes.flat(), name)) {
+        report('missing-varying', 'warning', `No varying named "${name}"`, node.id)
+      }
+    }
+  })
+
+  return problems
+}
+
+export const lintGraph = (source: GraphIRSource): GraphLintProblem[] => {
+  const inferType = createTypeInference(source.functions)
+  const problems = lintScope(source.nodes, source.connections, source, inferType, '$.nodes')
+
+  const outputs = source.nodes.filter((node) => node.type === 'output')
+  if (!outputs.length) {
+    problems.push({
+      code: 'missing-output',
+      severity: 'error',
+      message: 'Graph has no output node',
+      path: '$.nodes',
+    })
+  }
+  OUTPUT_NODE_TYPES.forEach((type) => {
+    const [first, ...duplicates] = source.nodes.filter((node) => node.type === type)
+    duplicates.forEach((node) => {
+      problems.push({
+        code: 'duplicate-output',
+        severity: 'warning',
+        message: `Duplicate ${type} node; only "${first.id}" is used`,
+        path: `$.nodes[${source.nodes.indexOf(node)}]`,
+        nodeId: node.id,
+      })
+    })
+  })
+
+  Object.values(source.functions).forEach((def) => {
+    problems.push(
+      ...lintScope(
+        def.nodes,
+        def.connections,
+        source,
+        inferType,
+        `$.functions.${def.id}.nodes`,
+        def.id,
+      ),
+    )
+  })
+
+  findRecursiveFunctions(source.functions).forEach((cycle) => {
+    const names = cycle.map((id) => source.functions[id]?.name ?? id)
+    problems.push({
+      code: 'recursive-function',
+      severity: 'error',
+      message: `Recursive function call: ${names.join(' -> ')}`,
+      path: `$.functions.${cycle[0]}`,
+      functionId: cycle[0],
+    })
+  })
+
+  return problems
+}
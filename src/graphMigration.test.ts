@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest'
+import { migrateGraph } from './graphMigration'
+import { createNode, link } from './graphTestUtils'
+
+describe('migrateGraph', () => {
+  const nodes = [
+    createNode('position-example', 'position'),
+    createNode('length-example', 'length'),
+    createNode('pos-freq-example', 'number', { value: '6' }),
+    createNode('multiply', 'multiply'),
+    createNode('add', 'add'),
+    createNode('sine', 'sine'),
+    createNode('smoothstep', 'smoothstep'),
+  ]
+  const connections = [
+    link('pos-freq-example', 'value', 'multiply', 'b'),
+    link('multiply', 'value', 'add', 'a'),
+    link('add', 'value', 'sine', 'value'),
+    link('sine', 'value', 'smoothstep', 'x'),
+  ]
+
+  it('reconnects the version 1 ripple example', () => {
+    const migrated = migrateGraph(nodes, connections, 1)
+    expect(migrated.version).toBe(2)
+    expect(migrated.nodes).toBe(nodes)
+    expect(migrated.connections.slice(connections.length)).toEqual([
+      {
+        id: 'migrate-pos-length',
+        from: { nodeId: 'position-example', pin: 'value' },
+        to: { nodeId: 'length-example', pin: 'value' },
+      },
+      {
+        id: 'migrate-length-freq-a',
+        from: { nodeId: 'length-example', pin: 'value' },
+        to: { nodeId: 'multiply', pin: 'a' },
+      },
+    ])
+  })
+
+  it('leaves current graphs untouched', () => {
+    const migrated = migrateGraph(nodes, connections, 2)
+    expect(migrated).toEqual({ nodes, connections, version: 2 })
+    expect(migrated.connections).toBe(connections)
+  })
+})
@@ -0,0 +1,147 @@
+import {
+  buildConnectionMap,
+  buildNodeMap,
+  parseNumber,
+  type GraphConnection,
+  type GraphNode,
+} from './graph'
+
+// Upgrades graphs saved by older editors; slot loads, file imports and the CLI all run it.
+export const migrateGraph = (
+  currentNodes: GraphNode[],
+  currentConnections: GraphConnection[],
+  version: number,
+): { nodes: GraphNode[]; connections: GraphConnection[]; version: number } => {
+  const nextNodes = currentNodes
+  let nextConnections = currentConnections
+  let nextVersion = version
+
+  if (nextVersion < 2) {
+    const nodeMap = buildNodeMap(nextNodes)
+    const byTo = buildConnectionMap(nextConnections)
+    const byFrom = new Map<string, GraphConnection[]>()
+    nextConnections.forEach((connection) => {
+      const list = byFrom.get(connection.from.nodeId)
+      if (list) {
+        list.push(connection)
+      } else {
+        byFrom.set(connection.from.nodeId, [connection])
+      }
+    })
+    const newConnections = [...nextConnections]
+
+    const ensureConnection = (
+      id: string,
+      from: { nodeId: string; pin: string },
+      to: { nodeId: string; pin: string },
+    ) => {
+      const targetKey = `${to.nodeId}:${to.pin}`
+      if (byTo.has(targetKey)) return
+      const connection = { id, from, to }
+      newConnections.push(connection)
+      byTo.set(targetKey, connection)
+      const list = byFrom.get(from.nodeId)
+      if (list) {
+        list.push(connection)
+      } else {
+        byFrom.set(from.nodeId, [connection])
+      }
+    }
+
+    const positionNode = nodeMap.get('position-example') ?? nextNodes.find((n) => n.type === 'position')
+    const lengthNode = nodeMap.get('length-example') ?? nextNodes.find((n) => n.type === 'length')
+    const freqNumber =
+      nodeMap.get('pos-freq-example') ??
+      nextNodes.find((n) => n.type === 'number' && Math.abs(parseNumber(n.value) - 6) < 1e-4)
+
+    const findSmoothstepChain = () => {
+      const smoothstep = nextNodes.find((node) => node.type === 'smoothstep')
+      if (!smoothstep) return null
+      const xConn = byTo.get(`${smoothstep.id}:x`)
+      const sine = xConn ? nodeMap.get(xConn.from.nodeId) : null
+      if (!sine || sine.type !== 'sine') return null
+      const addConn = byTo.get(`${sine.id}:value`)
+      const add = addConn ? nodeMap.get(addConn.from.nodeId) : null
+      if (!add || add.type !== 'add') return null
+      return { smoothstep, sine, add }
+    }
+
+    const chain = findSmoothstepChain()
+    const addNode = chain?.add ?? null
+    const isFreqMultiply = (node: GraphNode) => {
+      if (node.type !== 'multiply' || !freqNumber) return false
+      const connA = byTo.get(`${node.id}:a`)
+      const connB = byTo.get(`${node.id}:b`)
+      return (
+        connA?.from.nodeId === freqNumber.id || connB?.from.nodeId === freqNumber.id
+      )
+    }
+
+    let freqMultiply: GraphNode | null = null
+    if (addNode) {
+      const connA = byTo.get(`${addNode.id}:a`)
+      const connB = byTo.get(`${addNode.id}:b`)
+      const nodeA = connA ? nodeMap.get(connA.from.nodeId) : null
+      const nodeB = connB ? nodeMap.get(connB.from.nodeId) : null
+      if (nodeA && isFreqMultiply(nodeA)) freqMultiply = nodeA
+      if (!freqMultiply && nodeB && isFreqMultiply(nodeB)) freqMultiply = nodeB
+    }
+    if (!freqMultiply) {
+      freqMultiply = nextNodes.find((node) => isFreqMultiply(node)) ?? null
+    }
+
+    if (positionNode && lengthNode) {
+      ensureConnection(
+        'migrate-pos-length',
+        { nodeId: positionNode.id, pin: 'value' },
+        { nodeId: lengthNode.id, pin: 'value' },
+      )
+    }
+    if (lengthNode && freqMultiply && freqNumber) {
+      const connA = byTo.get(`${freqMultiply.id}:a`)
+      const connB = byTo.get(`${freqMultiply.id}:b`)
+      const hasLength =
+        connA?.from.nodeId === lengthNode.id || connB?.from.nodeId === lengthNode.id
+      const hasFreq =
+        connA?.from.nodeId === freqNumber.id || connB?.from.nodeId === freqNumber.id
+      if (!hasLength) {
+        if (!connA) {
+          ensureConnection(
+            'migrate-length-freq-a',
+            { nodeId: lengthNode.id, pin: 'value' },
+            { nodeId: freqMultiply.id, pin: 'a' },
+          )
+        } else if (!connB) {
+          ensureConnection(
+            'migrate-length-freq-b',
+            { nodeId: lengthNode.id, pin: 'value' },
+            { nodeId: freqMultiply.id, pin: 'b' },
+          )
+        }
+      }
+      if (!hasFreq) {
+        const connA2 = byTo.get(`${freqMultiply.id}:a`)
+        const connB2 = byTo.get(`${freqMultiply.id}:b`)
+        if (!connA2) {
+          ensureConnection(
+            'migrate-freq-a',
+            { nodeId: freqNumber.id, pin: 'value' },
+            { nodeId: freqMultiply.id, pin: 'a' },
+          )
+        } else if (!connB2) {
+          ensureConnection(
+            'migrate-freq-b',
+            { nodeId: freqNumber.id, pin: 'value' },
+            { nodeId: freqMultiply.id, pin: 'b' },
+          )
+        }
+      }
+    }
+
+    nextConnections = newConnections
+
+    nextVersion = 2
+  }
+
+  return { nodes: nextNodes, connections: nextConnections, version: nextVersion }
+}
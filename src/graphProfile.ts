@@ -0,0 +1,120 @@
+import { expandFunctions, getExpandedNodeId } from './graph'
+import { buildGraphIR, type GraphIRContext, type GraphIRSource, type IRExpr } from './graphIR'
+
+export type NodeCost = { nodeId: string; cost: number }
+
+export type GraphProfile = {
+  nodeCount: number
+  valueCount: number
+  textureSamples: number
+  uniformCount: number
+  totalCost: number
+  nodeCosts: NodeCost[]
+}
+
+// Rough ALU weights relative to a single add/mul; calls not listed cost 1.
+const CALL_COSTS: Record<string, number> = {
+  mx_noise_float: 20,
+  mx_noise_vec3: 40,
+  mx_noise_vec4: 50,
+  mx_fractal_noise_float: 80,
+  mx_fractal_noise_vec2: 120,
+  mx_fractal_noise_vec3: 160,
+  mx_fractal_noise_vec4: 200,
+  mx_worley_noise_float: 60,
+  mx_worley_noise_vec2: 60,
+  mx_worley_noise_vec3: 60,
+  triNoise3D: 40,
+  inverse: 30,
+  pow: 4,
+  exp: 4,
+  exp2: 4,
+  log: 4,
+  log2: 4,
+  sin: 4,
+  cos: 4,
+  tan: 4,
+  asin: 4,
+  acos: 4,
+  atan: 4,
+  atan2: 4,
+  sqrt: 3,
+  normalize: 3,
+  length: 3,
+  distance: 3,
+}
+
+const TEXTURE_COST = 8
+
+export const profileGraph = (source: GraphIRSource, context?: GraphIRContext): GraphProfile => {
+  const expanded = expandFunctions(source.nodes, source.connections, source.functions)
+  const ir = buildGraphIR(source, context)
+  const functionNodes = source.nodes.filter((node) => node.type === 'function')
+  // Inlined function bodies are charged to the call node the artist actually placed.
+  const getOwnerId = (nodeId: string) =>
+    functionNodes.find((node) => nodeId.startsWith(getExpandedNodeId(node.id, '')))?.id ??
+    nodeId
+
+  const reached = new Set<number>()
+  const uniforms = new Set<string>()
+  let textureSamples = ir.properties.filter((property) => property.type === 'map').length
+  const costs = new Map<string, number>()
+
+  // Returns the cost of the expression itself; referenced values are charged to their own node.
+  const visit = (expr: IRExpr): number => {
+    switch (expr.op) {
+      case 'ref': {
+        if (reached.has(expr.id)) return 0
+        reached.add(expr.id)
+        const value = ir.values[expr.id]
+        const cost = visit(value.expr)
+        const ownerId = getOwnerId(value.nodeId)
+        costs.set(ownerId, (costs.get(ownerId) ?? 0) + cost)
+        return 0
+      }
+      case 'call':
+        return (
+          (CALL_COSTS[expr.fn] ?? 1) + expr.args.reduce((total, arg) => total + visit(arg), 0)
+        )
+      case 'method':
+        return 1 + [expr.target, ...expr.args].reduce((total, arg) => total + visit(arg), 0)
+      case 'member':
+        return visit(expr.target)
+      case 'number':
+      case 'color':
+        uniforms.add(expr.node.id)
+        return 0
+      case 'time':
+        uniforms.add('time')
+        return 0
+      case 'texture':
+        textureSamples += 1
+        return TEXTURE_COST
+      default:
+        return 0
+    }
+  }
+
+  const roots = [
+    ir.colorNode,
+    ir.positionNode,
+    ...ir.properties.map((property) => (property.type === 'node' ? property.value : null)),
+  ]
+  const outputCost = roots.reduce((total, expr) => total + (expr ? visit(expr) : 0), 0)
+  if (outputCost > 0 && ir.outputNode) {
+    costs.set(ir.outputNode.id, (costs.get(ir.outputNode.id) ?? 0) + outputCost)
+  }
+
+  const nodeCosts = [...costs]
+    .filter(([, cost]) => cost > 0)
+    .map(([nodeId, cost]) => ({ nodeId, cost }))
+    .sort((a, b) => b.cost - a.cost)
+  return {
+    nodeCount: expanded.nodes.length,
+    valueCount: reached.size,
+    textureSamples,
+    uniformCount: uniforms.size,
+    totalCost: nodeCosts.reduce((total, entry) => total + entry.cost, 0),
+    nodeCosts,
+  }
+}
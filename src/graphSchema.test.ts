@@ -0,0 +1,95 @@
+import Ajv2020 from 'ajv/dist/2020'
+import { describe, expect, it } from 'vitest'
+import schema from '../public/tslgraph.schema.json'
+import { createGraphDocument, GRAPH_FILE_FORMAT, graphSchemaVersion } from './graphFile'
+import {
+  GRAPH_TEMPLATES,
+  createTemplateFunctionClipboard,
+  instantiateGraphTemplate,
+} from './graphTemplates'
+import { createNode, link } from './graphTestUtils'
+import { hasGraphErrors, validateGraphDocument } from './graphValidation'
+
+// The published schema and the editor's validator are written separately; these fixtures keep
+// them agreeing on what a structurally valid document is. Checks the schema cannot express,
+// such as duplicate ids or function pin targets, are covered in graphValidation.test.ts.
+const validateSchema = new Ajv2020({ strict: false }).compile(schema)
+
+const createDocument = (overrides: Record<string, unknown> = {}) => ({
+  format: GRAPH_FILE_FORMAT,
+  graphSchemaVersion,
+  nodes: [createNode('color', 'color'), createNode('output', 'output', { x: 200 })],
+  connections: [link('color', 'color', 'output', 'baseColor')],
+  ...overrides,
+})
+
+const [color] = createDocument().nodes
+const validDocuments: Array<[string, unknown]> = [
+  ...GRAPH_TEMPLATES.map((template): [string, unknown] => [
+    `template ${template.id}`,
+    createGraphDocument({ ...instantiateGraphTemplate(template), groups: [], functions: {} }),
+  ]),
+  ...GRAPH_TEMPLATES.map((template): [string, unknown] => {
+    const clipboard = createTemplateFunctionClipboard(template)
+    return [`template ${template.id} as a function`, createGraphDocument(clipboard)]
+  }),
+  [
+    'groups, blobs and library links',
+    createDocument({
+      groups: [{ id: 'group', label: 'Group', nodeIds: ['color'], collapsed: true }],
+      functions: {
+        fn: {
+          id: 'fn',
+          name: 'Fn',
+          nodes: [],
+          connections: [],
+          inputs: [],
+          outputs: [],
+          library: { id: 'lib', version: 1 },
+        },
+      },
+      blobs: [{ id: 'color', store: 'textures', name: 'a.png', type: 'image/png', data: '' }],
+    }),
+  ],
+]
+
+const invalidDocuments: Array<[string, unknown]> = [
+  ['an array', []],
+  ['another format', createDocument({ format: 'other' })],
+  ['a newer schema version', createDocument({ graphSchemaVersion: graphSchemaVersion + 1 })],
+  ['a fractional schema version', createDocument({ graphSchemaVersion: 1.5 })],
+  ['missing nodes', createDocument({ nodes: undefined })],
+  ['a node without an id', createDocument({ nodes: [{ ...color, id: '' }] })],
+  ['a node with a string position', createDocument({ nodes: [{ ...color, x: 'left' }] })],
+  ['a node with a boolean value', createDocument({ nodes: [{ ...color, value: true }] })],
+  ['a node with non-string pins', createDocument({ nodes: [{ ...color, inputs: [1] }] })],
+  [
+    'a connection without a target',
+    createDocument({ connections: [{ id: 'link', from: { nodeId: 'color', pin: 'color' } }] }),
+  ],
+  ['a group without a label', createDocument({ groups: [{ id: 'group', nodeIds: [] }] })],
+  ['functions as an array', createDocument({ functions: [] })],
+  [
+    'a function without a name',
+    createDocument({
+      functions: { fn: { id: 'fn', nodes: [], connections: [], inputs: [], outputs: [] } },
+    }),
+  ],
+  ['ui as a string', createDocument({ ui: 'dark' })],
+  [
+    'a blob in an unknown store',
+    createDocument({ blobs: [{ id: 'color', store: 'cache', data: '' }] }),
+  ],
+]
+
+describe('tslgraph.schema.json', () => {
+  it.each(validDocuments)('accepts %s like the validator', (_name, document) => {
+    expect(hasGraphErrors(validateGraphDocument(document))).toBe(false)
+    expect(validateSchema(document), JSON.stringify(validateSchema.errors)).toBe(true)
+  })
+
+  it.each(invalidDocuments)('rejects %s like the validator', (_name, document) => {
+    expect(hasGraphErrors(validateGraphDocument(document))).toBe(true)
+    expect(validateSchema(document)).toBe(false)
+  })
+})
@@ -0,0 +1,638 @@
+import {
+  MATERIAL_NODE_KINDS,
+  type FunctionDefinition,
+  type GraphConnection,
+  type GraphNode,
+} from './graph'
+import { GRAPH_CLIPBOARD_FORMAT, type GraphClipboard } from './graphClipboard'
+import { BASE_PALETTE } from './palette'
+
+export type GraphTemplateCategory =
+  | 'PBR Metals'
+  | 'Stylized'
+  | 'Holograms'
+  | 'Dissolve'
+  | 'Triplanar'
+  | 'Water'
+  | 'Procedural'
+
+export type GraphTemplateParameter = {
+  nodeId: string
+  label: string
+  type: 'number' | 'color'
+  defaultValue: string
+}
+
+export type GraphTemplate = {
+  id: string
+  name: string
+  category: GraphTemplateCategory
+  description: string
+  parameters: GraphTemplateParameter[]
+  nodes: GraphNode[]
+  connections: GraphConnection[]
+}
+
+type TemplateBuilder = {
+  node: (type: string, column: number, value?: string) => string
+  param: (label: string, column: number, value: string) => string
+  link: (from: string | [string, string], to: string, pin: string) => void
+}
+
+const SINK_TYPES = new Set([
+  'output',
+  'vertexOutput',
+  'geometryOutput',
+  'geometryPrimitive',
+  ...Object.keys(MATERIAL_NODE_KINDS),
+])
+
+const paletteMap = new Map(BASE_PALETTE.map((item) => [item.type, item]))
+
+const defineTemplate = (
+  meta: Pick<GraphTemplate, 'id' | 'name' | 'category' | 'description'>,
+  build: (builder: TemplateBuilder) => void,
+): GraphTemplate => {
+  const nodes: GraphNode[] = []
+  const connections: GraphConnection[] = []
+  const parameters: GraphTemplateParameter[] = []
+  const rows = new Map<number, number>()
+  const node = (type: string, column: number, value?: string, label?: string) => {
+    const item = paletteMap.get(type)
+    if (!item) throw new Error(`Unknown template node type "${type}"`)
+    const row = rows.get(column) ?? 0
+    rows.set(column, row + 1)
+    const id = `${type}-${nodes.length}`
+    const nodeValue = value ?? item.defaultValue
+    nodes.push({
+      id,
+      type,
+      label: label ?? item.label,
+      x: 60 + column * 260,
+      y: 80 + row * 180,
+      inputs: [...item.inputs],
+      outputs: [...item.outputs],
+      ...(nodeValue !== undefined ? { value: nodeValue } : {}),
+      ...(type === 'number'
+        ? { slider: false, updateMode: 'manual' as const, updateSource: 'value' as const }
+        : {}),
+    })
+    return id
+  }
+  build({
+    node: (type, column, value) => node(type, column, value),
+    param: (label, column, value) => {
+      const type = value.startsWith('#') ? 'color' : 'number'
+      const id = node(type, column, value, label)
+      parameters.push({ nodeId: id, label, type, defaultValue: value })
+      return id
+    },
+    link: (from, to, pin) => {
+      const [fromId, fromPin] = Array.isArray(from)
+        ? from
+        : [from, nodes.find((entry) => entry.id === from)?.outputs[0] ?? 'value']
+      connections.push({
+        id: `link-${connections.length}`,
+        from: { nodeId: fromId, pin: fromPin },
+        to: { nodeId: to, pin },
+      })
+    },
+  })
+  return { ...meta, parameters, nodes, connections }
+}
+
+const addMaterialOutput = (
+  { node, link }: TemplateBuilder,
+  type: 'material' | 'physicalMaterial' | 'basicMaterial',
+  column: number,
+  shape = 'sphere',
+) => {
+  const material = node(type, column)
+  const output = node('output', column + 1)
+  link([material, 'baseColor'], output, 'baseColor')
+  if (type !== 'basicMaterial') {
+    link([material, 'roughness'], output, 'roughness')
+    link([material, 'metalness'], output, 'metalness')
+  }
+  link(node('geometryPrimitive', column, shape), node('geometryOutput', column + 1), 'geometry')
+  return material
+}
+
+export const GRAPH_TEMPLATES: GraphTemplate[] = [
+  defineTemplate(
+    {
+      id: 'polished-gold',
+      name: 'Polished Gold',
+      category: 'PBR Metals',
+      description: 'Fully metallic surface with a tinted base color and low roughness.',
+    },
+    (builder) => {
+      const { param, link } = builder
+      const color = param('Base Color', 0, '#ffc356')
+      const roughness = param('Roughness', 0, '0.18')
+      const metalness = param('Metalness', 0, '1')
+      const material = addMaterialOutput(builder, 'material', 1)
+      link(color, material, 'baseColor')
+      link(roughness, material, 'roughness')
+      link(metalness, material, 'metalness')
+    },
+  ),
+  defineTemplate(
+    {
+      id: 'brushed-steel',
+      name: 'Brushed Steel',
+      category: 'PBR Metals',
+      description: 'Metal with roughness streaks from stretched noise along the U axis.',
+    },
+    (builder) => {
+      const { node, param, link } = builder
+      const color = param('Base Color', 0, '#b8bcc2')
+      const roughness = param('Roughness', 2, '0.35')
+      const streaks = param('Streak Amount', 2, '0.15')
+      const stretch = param('Stretch', 0, '120')
+      const uv = node('uv', 0)
+      const split = node('splitVec2', 1)
+      const scaled = node('multiply', 1)
+      const coord = node('vec2', 2)
+      const noise = node('mxNoiseFloat', 3)
+      const amount = node('multiply', 4)
+      const sum = node('add', 5)
+      const metalness = node('number', 5, '1')
+      const material = addMaterialOutput(builder, 'material', 6)
+      link(uv, split, 'value')
+      link([split, 'y'], scaled, 'a')
+      link(stretch, scaled, 'b')
+      link([split, 'x'], coord, 'x')
+      link(scaled, coord, 'y')
+      link(coord, noise, 'texcoord')
+      link(noise, amount, 'a')
+      link(streaks, amount, 'b')
+      link(roughness, sum, 'a')
+      link(amount, sum, 'b')
+      link(color, material, 'baseColor')
+      link(sum, material, 'roughness')
+      link(metalness, material, 'metalness')
+    },
+  ),
+  defineTemplate(
+    {
+      id: 'toon-bands',
+      name: 'Toon Bands',
+      category: 'Stylized',
+      description: 'Unlit cel shading: lighting from a fixed direction, posterized into bands.',
+    },
+    (builder) => {
+      const { node, param, link } = builder
+      const lightX = param('Light X', 0, '0.5')
+      const lightY = param('Light Y', 0, '0.8')
+      const lightZ = param('Light Z', 0, '0.4')
+      const shadow = param('Shadow Color', 3, '#2b3a67')
+      const lit = param('Lit Color', 3, '#f2c14e')
+      const steps = param('Bands', 5, '3')
+      const light = node('vec3', 1)
+      const direction = node('normalize', 2)
+      const normal = node('normal', 1)
+      const dot = node('dot', 3)
+      const lambert = node('saturate', 4)
+      const color = node('mix', 5)
+      const bands = node('posterize', 6)
+      const material = addMaterialOutput(builder, 'basicMaterial', 7)
+      link(lightX, light, 'x')
+      link(lightY, light, 'y')
+      link(lightZ, light, 'z')
+      link(light, direction, 'value')
+      link(normal, dot, 'a')
+      link(direction, dot, 'b')
+      link(dot, lambert, 'value')
+      link(shadow, color, 'a')
+      link(lit, color, 'b')
+      link(lambert, color, 't')
+      link(color, bands, 'value')
+      link(steps, bands, 'steps')
+      link(bands, material, 'baseColor')
+    },
+  ),
+  defineTemplate(
+    {
+      id: 'hologram-scanlines',
+      name: 'Hologram Scanlines',
+      category: 'Holograms',
+      description: 'Scrolling scanlines with dithered transparency and a time-based flicker.',
+    },
+    (builder) => {
+      const { node, param, link } = builder
+      const tint = param('Tint', 5, '#37e8ff')
+      const density = param('Line Density', 0, '40')
+      const speed = param('Scroll Speed', 0, '2')
+      const width = param('Line Width', 3, '0.4')
+      const position = node('position', 0)
+      const time = node('time', 0)
+      const split = node('splitVec3', 1)
+      const lines = node('multiply', 2)
+      const scroll = node('multiply', 2)
+      const offset = node('add', 3)
+      const wrap = node('fract', 4)
+      const mask = node('step', 5)
+      const flicker = node('sine', 4)
+      const flickerRate = node('number', 3, '30')
+      const flickerTime = node('multiply', 3)
+      const flickerRange = node('remap', 5)
+      const alpha = node('multiply', 6)
+      const glow = node('multiply', 6)
+      const hash = node('number', 6, '1')
+      const material = addMaterialOutput(builder, 'basicMaterial', 7)
+      link(position, split, 'value')
+      link([split, 'y'], lines, 'a')
+      link(density, lines, 'b')
+      link(time, scroll, 'a')
+      link(speed, scroll, 'b')
+      link(lines, offset, 'a')
+      link(scroll, offset, 'b')
+      link(offset, wrap, 'value')
+      link(width, mask, 'edge')
+      link(wrap, mask, 'x')
+      link(time, flickerTime, 'a')
+      link(flickerRate, flickerTime, 'b')
+      link(flickerTime, flicker, 'value')
+      link(flicker, flickerRange, 'value')
+      link(node('number', 4, '-1'), flickerRange, 'inLow')
+      link(node('number', 4, '1'), flickerRange, 'inHigh')
+      link(node('number', 4, '0.75'), flickerRange, 'outLow')
+      link(node('number', 4, '1'), flickerRange, 'outHigh')
+      link(mask, alpha, 'a')
+      link(flickerRange, alpha, 'b')
+      link(tint, glow, 'a')
+      link(flickerRange, glow, 'b')
+      link(glow, material, 'baseColor')
+      link(alpha, material, 'opacity')
+      link(hash, material, 'alphaHash')
+    },
+  ),
+  defineTemplate(
+    {
+      id: 'noise-dissolve',
+      name: 'Noise Dissolve',
+      category: 'Dissolve',
+      description: 'Alpha-tested noise cut-out with a glowing emissive burn edge.',
+    },
+    (builder) => {
+      const { node, param, link } = builder
+      const color = param('Base Color', 4, '#8c8f99')
+      const edgeColor = param('Edge Color', 4, '#ff7a1a')
+      const threshold = param('Threshold', 2, '0.45')
+      const edgeWidth = param('Edge Width', 2, '0.06')
+      const scale = param('Noise Scale', 0, '3')
+      const position = node('position', 0)
+      const scaled = node('multiply', 1)
+      const noise = node('mxFractalNoiseFloat', 2)
+      const noise01 = node('remap', 3)
+      const edgeEnd = node('add', 3)
+      const edge = node('smoothstep', 4)
+      const burn = node('oneMinus', 5)
+      const emissive = node('multiply', 6)
+      const material = addMaterialOutput(builder, 'material', 7)
+      link(position, scaled, 'a')
+      link(scale, scaled, 'b')
+      link(scaled, noise, 'position')
+      link(noise, noise01, 'value')
+      link(node('number', 2, '-0.5'), noise01, 'inLow')
+      link(node('number', 2, '0.5'), noise01, 'inHigh')
+      link(node('number', 2, '0'), noise01, 'outLow')
+      link(node('number', 2, '1'), noise01, 'outHigh')
+      link(threshold, edgeEnd, 'a')
+      link(edgeWidth, edgeEnd, 'b')
+      link(threshold, edge, 'edge0')
+      link(edgeEnd, edge, 'edge1')
+      link(noise01, edge, 'x')
+      link(edge, burn, 'value')
+      link(edgeColor, emissive, 'a')
+      link(burn, emissive, 'b')
+      link(color, material, 'baseColor')
+      link(emissive, material, 'emissive')
+      link(noise01, material, 'opacity')
+      link(threshold, material, 'alphaTest')
+    },
+  ),
+  defineTemplate(
+    {
+      id: 'triplanar-checker',
+      name: 'Triplanar Checker',
+      category: 'Triplanar',
+      description: 'Checker pattern projected along each axis and blended by the normal.',
+    },
+    (builder) => {
+      const { node, param, link } = builder
+      const colorA = param('Color A', 5, '#e8e4d8')
+      const colorB = param('Color B', 5, '#3c4b5a')
+      const scale = param('Scale', 0, '4')
+      const position = node('position', 0)
+      const normal = node('normal', 0)
+      const scaled = node('multiply', 1)
+      const split = node('splitVec3', 2)
+      const normalSplit = node('splitVec3', 1)
+      const blend = [
+        ['y', 'z', 'x'],
+        ['x', 'z', 'y'],
+        ['x', 'y', 'z'],
+      ].map(([u, v, axis]) => {
+        const coord = node('vec2', 3)
+        const checker = node('checker', 4)
+        const weight = node('abs', 4)
+        const weighted = node('multiply', 5)
+        link([split, u], coord, 'x')
+        link([split, v], coord, 'y')
+        link(coord, checker, 'coord')
+        link([normalSplit, axis], weight, 'value')
+        link(checker, weighted, 'a')
+        link(weight, weighted, 'b')
+        return weighted
+      })
+      const sumXY = node('add', 6)
+      const sum = node('add', 7)
+      const color = node('mix', 8)
+      const material = addMaterialOutput(builder, 'material', 9, 'box')
+      link(position, scaled, 'a')
+      link(scale, scaled, 'b')
+      link(scaled, split, 'value')
+      link(normal, normalSplit, 'value')
+      link(blend[0], sumXY, 'a')
+      link(blend[1], sumXY, 'b')
+      link(sumXY, sum, 'a')
+      link(blend[2], sum, 'b')
+      link(colorA, color, 'a')
+      link(colorB, color, 'b')
+      link(sum, color, 't')
+      link(color, material, 'baseColor')
+    },
+  ),
+  defineTemplate(
+    {
+      id: 'ocean-waves',
+      name: 'Ocean Waves',
+      category: 'Water',
+      description: 'Sine wave vertex displacement with noise-tinted, glossy clearcoat water.',
+    },
+    (builder) => {
+      const { node, param, link } = builder
+      const deep = param('Deep Color', 5, '#0b3d5c')
+      const shallow = param('Shallow Color', 5, '#3fb6c6')
+      const frequency = param('Wave Frequency', 0, '4')
+      const speed = param('Wave Speed', 0, '1.5')
+      const amplitude = param('Wave Height', 3, '0.08')
+      const position = node('position', 0)
+      const normal = node('normal', 3)
+      const time = node('time', 0)
+      const split = node('splitVec3', 1)
+      const phase = node('multiply', 1)
+      const scroll = node('multiply', 1)
+      const angle = node('add', 2)
+      const wave = node('sine', 3)
+      const height = node('multiply', 4)
+      const displacement = node('multiply', 5)
+      const vertexOutput = node('vertexOutput', 6)
+      const noise = node('mxNoiseFloat', 4)
+      const tint = node('remap', 5)
+      const color = node('mix', 6)
+      const material = addMaterialOutput(builder, 'physicalMaterial', 7, 'plane')
+      link(position, split, 'value')
+      link([split, 'x'], phase, 'a')
+      link(frequency, phase, 'b')
+      link(time, scroll, 'a')
+      link(speed, scroll, 'b')
+      link(phase, angle, 'a')
+      link(scroll, angle, 'b')
+      link(angle, wave, 'value')
+      link(wave, height, 'a')
+      link(amplitude, height, 'b')
+      link(normal, displacement, 'a')
+      link(height, displacement, 'b')
+      link(displacement, vertexOutput, 'position')
+      link(position, noise, 'texcoord')
+      link(noise, tint, 'value')
+      link(node('number', 4, '-1'), tint, 'inLow')
+      link(node('number', 4, '1'), tint, 'inHigh')
+      link(node('number', 4, '0'), tint, 'outLow')
+      link(node('number', 4, '1'), tint, 'outHigh')
+      link(deep, color, 'a')
+      link(shallow, color, 'b')
+      link(tint, color, 't')
+      link(color, material, 'baseColor')
+      link(node('number', 6, '0.05'), material, 'roughness')
+      link(node('number', 6, '0'), material, 'metalness')
+      link(node('number', 6, '1'), material, 'clearcoat')
+    },
+  ),
+  defineTemplate(
+    {
+      id: 'procedural-wood',
+      name: 'Procedural Wood',
+      category: 'Procedural',
+      description: 'Concentric growth rings around the Y axis, distorted by fractal noise.',
+    },
+    (builder) => {
+      const { node, param, link } = builder
+      const light = param('Light Wood', 5, '#d9a066')
+      const dark = param('Dark Wood', 5, '#7a4a25')
+      const rings = param('Ring Count', 2, '12')
+      const turbulence = param('Turbulence', 2, '0.3')
+      const position = node('position', 0)
+      const split = node('splitVec3', 1)
+      const radial = node('vec2', 2)
+      const radius = node('length', 3)
+      const ringScale = node('multiply', 4)
+      const noise = node('mxFractalNoiseFloat', 1)
+      const distortion = node('multiply', 3)
+      const distorted = node('add', 5)
+      const ring = node('fract', 6)
+      const grain = node('smoothstep', 7)
+      const color = node('mix', 8)
+      const material = addMaterialOutput(builder, 'material', 9, 'cylinder')
+      link(position, split, 'value')
+      link([split, 'x'], radial, 'x')
+      link([split, 'z'], radial, 'y')
+      link(radial, radius, 'value')
+      link(radius, ringScale, 'a')
+      link(rings, ringScale, 'b')
+      link(position, noise, 'position')
+      link(noise, distortion, 'a')
+      link(turbulence, distortion, 'b')
+      link(ringScale, distorted, 'a')
+      link(distortion, distorted, 'b')
+      link(distorted, ring, 'value')
+      link(node('number', 6, '0.2'), grain, 'edge0')
+      link(node('number', 6, '0.8'), grain, 'edge1')
+      link(ring, grain, 'x')
+      link(light, color, 'a')
+      link(dark, color, 'b')
+      link(grain, color, 't')
+      link(color, material, 'baseColor')
+      link(node('number', 8, '0.6'), material, 'roughness')
+      link(node('number', 8, '0'), material, 'metalness')
+    },
+  ),
+  defineTemplate(
+    {
+      id: 'procedural-marble',
+      name: 'Procedural Marble',
+      category: 'Procedural',
+      description: 'Sine veins along X, warped by fractal noise, on a polished surface.',
+    },
+    (builder) => {
+      const { node, param, link } = builder
+      const base = param('Base Color', 5, '#f1efe9')
+      const vein = param('Vein Color', 5, '#4b4f58')
+      const frequency = param('Vein Frequency', 1, '6')
+      const turbulence = param('Turbulence', 2, '4')
+      const sharpness = param('Vein Sharpness', 4, '6')
+      const position = node('position', 0)
+      const split = node('splitVec3', 1)
+      const stripes = node('multiply', 2)
+      const noise = node('mxFractalNoiseFloat', 1)
+      const distortion = node('multiply', 3)
+      const warped = node('add', 3)
+      const wave = node('sine', 4)
+      const folded = node('abs', 5)
+      const inverted = node('oneMinus', 6)
+      const veins = node('pow', 7)
+      const color = node('mix', 8)
+      const material = addMaterialOutput(builder, 'material', 9)
+      link(position, split, 'value')
+      link([split, 'x'], stripes, 'a')
+      link(frequency, stripes, 'b')
+      link(position, noise, 'position')
+      link(noise, distortion, 'a')
+      link(turbulence, distortion, 'b')
+      link(stripes, warped, 'a')
+      link(distortion, warped, 'b')
+      link(warped, wave, 'value')
+      link(wave, folded, 'value')
+      link(folded, inverted, 'value')
+      link(inverted, veins, 'base')
+      link(sharpness, veins, 'exp')
+      link(base, color, 'a')
+      link(vein, color, 'b')
+      link(veins, color, 't')
+      link(color, material, 'baseColor')
+      link(node('number', 8, '0.15'), material, 'roughness')
+      link(node('number', 8, '0'), material, 'metalness')
+    },
+  ),
+]
+
+export const GRAPH_TEMPLATE_CATEGORIES = [
+  ...new Set(GRAPH_TEMPLATES.map((template) => template.category)),
+]
+
+export const instantiateGraphTemplate = (
+  template: GraphTemplate,
+  values: Record<string, string> = {},
+) => ({
+  nodes: template.nodes.map((node) =>
+    values[node.id] !== undefined ? { ...node, value: values[node.id] } : node,
+  ),
+  connections: template.connections,
+})
+
+export const createTemplateGroupClipboard = (
+  template: GraphTemplate,
+  values: Record<string, string> = {},
+): GraphClipboard => {
+  const { nodes, connections } = instantiateGraphTemplate(template, values)
+  return {
+    format: GRAPH_CLIPBOARD_FORMAT,
+    nodes,
+    connections,
+    groups: [{ id: 'template', label: template.name, nodeIds: nodes.map((node) => node.id) }],
+    functions: {},
+  }
+}
+
+// Parameters become function inputs (fed by their value nodes outside the function) and every
+// value wired into a material/output sink becomes a function output named after the sink pin.
+export const createTemplateFunctionClipboard = (
+  template: GraphTemplate,
+  values: Record<string, string> = {},
+): GraphClipboard => {
+  const { nodes, connections } = instantiateGraphTemplate(template, values)
+  const functionId = `template-${template.id}`
+  const parameterIds = new Set(template.parameters.map((parameter) => parameter.nodeId))
+  const nodeMap = new Map(nodes.map((node) => [node.id, node]))
+  const isSink = (nodeId: string) => SINK_TYPES.has(nodeMap.get(nodeId)?.type ?? '')
+
+  const inputs = template.parameters.map((parameter, index) => ({
+    name: parameter.label,
+    nodeId: `${functionId}-input-${index}`,
+  }))
+  const inputIds = new Map(
+    template.parameters.map((parameter, index) => [parameter.nodeId, inputs[index].nodeId]),
+  )
+  const remapSource = (connection: GraphConnection) => {
+    const inputId = inputIds.get(connection.from.nodeId)
+    return inputId ? { ...connection, from: { nodeId: inputId, pin: 'value' } } : connection
+  }
+  const outputs: FunctionDefinition['outputs'] = []
+  const outputLinks: GraphConnection[] = []
+  connections.forEach((connection) => {
+    if (isSink(connection.from.nodeId) || !isSink(connection.to.nodeId)) return
+    if (outputs.some((pin) => pin.name === connection.to.pin)) return
+    const nodeId = `${functionId}-output-${outputs.length}`
+    outputs.push({ name: connection.to.pin, nodeId })
+    outputLinks.push({
+      id: `${functionId}-link-out-${outputs.length}`,
+      from: remapSource(connection).from,
+      to: { nodeId, pin: 'value' },
+    })
+  })
+  const pinNode = (pin: { name: string; nodeId: string }, type: string): GraphNode => ({
+    id: pin.nodeId,
+    type,
+    label: pin.name,
+    x: 0,
+    y: 0,
+    inputs: ['value'],
+    outputs: ['value'],
+  })
+  const definition: FunctionDefinition = {
+    id: functionId,
+    name: template.name,
+    nodes: [
+      ...nodes.filter((node) => !isSink(node.id) && !parameterIds.has(node.id)),
+      ...inputs.map((pin) => pinNode(pin, 'functionInput')),
+      ...outputs.map((pin) => pinNode(pin, 'functionOutput')),
+    ],
+    connections: [
+      ...connections
+        .filter((connection) => !isSink(connection.to.nodeId))
+        .map(remapSource),
+      ...outputLinks,
+    ],
+    inputs,
+    outputs,
+  }
+
+  const parameterNodes = nodes.filter((node) => parameterIds.has(node.id))
+  const functionNode: GraphNode = {
+    id: `${functionId}-node`,
+    type: 'function',
+    functionId,
+    label: template.name,
+    x: 300,
+    y: 0,
+    inputs: inputs.map((pin) => pin.name),
+    outputs: outputs.map((pin) => pin.name),
+  }
+  return {
+    format: GRAPH_CLIPBOARD_FORMAT,
+    nodes: [
+      ...parameterNodes.map((node, index) => ({ ...node, x: 0, y: index * 140 })),
+      functionNode,
+    ],
+    connections: template.parameters.map((parameter, index) => ({
+      id: `${functionId}-wire-in-${index}`,
+      from: { nodeId: parameter.nodeId, pin: nodeMap.get(parameter.nodeId)?.outputs[0] ?? 'value' },
+      to: { nodeId: functionNode.id, pin: inputs[index].name },
+    })),
+    groups: [],
+    functions: { [functionId]: definition },
+  }
+}
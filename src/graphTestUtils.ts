@@ -0,0 +1,45 @@
+import type { FunctionDefinition, GraphConnection, GraphNode } from './graph'
+import { BASE_PALETTE } from './palette'
+
+// Fixture builders shared by the unit tests. Nodes take their label and pins from the palette.
+export const createNode = (
+  id: string,
+  type: string,
+  extra: Partial<GraphNode> = {},
+): GraphNode => {
+  const item = BASE_PALETTE.find((entry) => entry.type === type)
+  return {
+    id,
+    type,
+    label: item?.label ?? type,
+    x: 0,
+    y: 0,
+    inputs: item?.inputs ?? [],
+    outputs: item?.outputs ?? [],
+    ...extra,
+  }
+}
+
+export const link = (
+  from: string,
+  fromPin: string,
+  to: string,
+  toPin: string,
+): GraphConnection => ({
+  id: `${from}-${fromPin}-${to}-${toPin}`,
+  from: { nodeId: from, pin: fromPin },
+  to: { nodeId: to, pin: toPin },
+})
+
+export const createFunction = (
+  id: string,
+  extra: Partial<FunctionDefinition> = {},
+): FunctionDefinition => ({
+  id,
+  name: id,
+  nodes: [],
+  connections: [],
+  inputs: [],
+  outputs: [],
+  ...extra,
+})
@@ -0,0 +1,1155 @@
+import {
+  ATTRIBUTE_NODE_TYPES,
+  buildConnectionMap,
+  buildNodeMap,
+  combineTypes,
+  findVaryingSource,
+  getAttributeKind,
+  getAttributeNodeType,
+  getVaryingName,
+  getVectorKind,
+  isAssignableType,
+  isMaterialNodeType,
+  isMatrixKind,
+  isVectorKind,
+  resolveVectorOutputKind,
+  type ConnectionMap,
+  type FunctionDefinition,
+  type GraphConnection,
+  type GraphNode,
+  type NodeMap,
+} from './graph'
+
+export type InferredType =
+  | 'number'
+  | 'color'
+  | 'vec2'
+  | 'vec3'
+  | 'vec4'
+  | 'mat2'
+  | 'mat3'
+  | 'mat4'
+  | 'geometry'
+  | 'unknown'
+
+export type TypeInference = (
+  nodeId: string,
+  outputPin: string | undefined,
+  nodeMap: NodeMap,
+  connectionMap: ConnectionMap,
+  stack: Set<string>,
+) => InferredType
+
+export type PinTypeIssue = {
+  nodeId: string
+  pin: string
+  message: string
+}
+
+export const INPUT_TYPES: Record<string, Record<string, string>> = {
+  add: { a: 'any', b: 'any' },
+  multiply: { a: 'any', b: 'any' },
+  normalize: { value: 'vector' },
+  dot: { a: 'vector', b: 'vector' },
+  cross: { a: 'vector3', b: 'vector3' },
+  checker: { coord: 'vec2' },
+  distance: { a: 'any', b: 'any' },
+  dFdx: { value: 'any' },
+  dFdy: { value: 'any' },
+  reflect: { incident: 'vector3', normal: 'vector3' },
+  refract: { incident: 'vector3', normal: 'vector3', eta: 'number' },
+  faceforward: { n: 'vector3', i: 'vector3', nref: 'vector3' },
+  fwidth: { value: 'any' },
+  triNoise3D: { position: 'vec3', speed: 'number', time: 'number' },
+  mxNoiseFloat: { texcoord: 'vector', amplitude: 'number', pivot: 'number' },
+  mxNoiseVec3: { texcoord: 'vector', amplitude: 'number', pivot: 'number' },
+  mxNoiseVec4: { texcoord: 'vector', amplitude: 'number', pivot: 'number' },
+  mxFractalNoiseFloat: {
+    position: 'vector',
+    octaves: 'number',
+    lacunarity: 'number',
+    diminish: 'number',
+    amplitude: 'number',
+  },
+  mxFractalNoiseVec2: {
+    position: 'vector',
+    octaves: 'number',
+    lacunarity: 'number',
+    diminish: 'number',
+    amplitude: 'number',
+  },
+  mxFractalNoiseVec3: {
+    position: 'vector',
+    octaves: 'number',
+    lacunarity: 'number',
+    diminish: 'number',
+    amplitude: 'number',
+  },
+  mxFractalNoiseVec4: {
+    position: 'vector',
+    octaves: 'number',
+    lacunarity: 'number',
+    diminish: 'number',
+    amplitude: 'number',
+  },
+  mxWorleyNoiseFloat: { texcoord: 'vector', jitter: 'number' },
+  mxWorleyNoiseVec2: { texcoord: 'vector', jitter: 'number' },
+  mxWorleyNoiseVec3: { texcoord: 'vector', jitter: 'number' },
+  rotateUV: { uv: 'vec2', rotation: 'number', center: 'vec2' },
+  scaleUV: { uv: 'vec2', scale: 'vec2' },
+  offsetUV: { uv: 'vec2', offset: 'vec2' },
+  spherizeUV: { uv: 'vec2', strength: 'number', center: 'vec2' },
+  spritesheetUV: { size: 'vec2', uv: 'vec2', time: 'number' },
+  luminance: { value: 'vector3' },
+  grayscale: { value: 'vector3' },
+  saturation: { value: 'vector3', amount: 'number' },
+  posterize: { value: 'vector3', steps: 'number' },
+  sRGBTransferEOTF: { value: 'vector3' },
+  sRGBTransferOETF: { value: 'vector3' },
+  linearToneMapping: { value: 'vector3' },
+  reinhardToneMapping: { value: 'vector3' },
+  cineonToneMapping: { value: 'vector3' },
+  acesFilmicToneMapping: { value: 'vector3' },
+  agxToneMapping: { value: 'vector3' },
+  neutralToneMapping: { value: 'vector3' },
+  length: { value: 'vector' },
+  smoothstep: { edge0: 'any', edge1: 'any', x: 'any' },
+  pow: { base: 'any', exp: 'any' },
+  sine: { value: 'number' },
+  vec2: { x: 'number', y: 'number' },
+  vec3: { x: 'number', y: 'number', z: 'number' },
+  scale: { value: 'vec3', scale: 'vec3' },
+  rotate: { value: 'vec3', rotation: 'vec3' },
+  vec4: { x: 'number', y: 'number', z: 'number', w: 'number' },
+  mat2: { c0: 'vec2', c1: 'vec2' },
+  mat3: { c0: 'vec3', c1: 'vec3', c2: 'vec3' },
+  mat4: { c0: 'vec4', c1: 'vec4', c2: 'vec4', c3: 'vec4' },
+  transpose: { value: 'matrix' },
+  inverse: { value: 'matrix' },
+  splitVec2: { value: 'vec2' },
+  splitVec3: { value: 'vec3' },
+  splitVec4: { value: 'vec4' },
+  cosine: { value: 'number' },
+  tan: { value: 'any' },
+  asin: { value: 'any' },
+  acos: { value: 'any' },
+  atan: { value: 'any' },
+  atan2: { y: 'any', x: 'any' },
+  radians: { value: 'any' },
+  degrees: { value: 'any' },
+  abs: { value: 'number' },
+  clamp: { value: 'number', min: 'number', max: 'number' },
+  min: { a: 'any', b: 'any' },
+  max: { a: 'any', b: 'any' },
+  step: { edge: 'any', x: 'any' },
+  fract: { value: 'any' },
+  floor: { value: 'any' },
+  ceil: { value: 'any' },
+  round: { value: 'any' },
+  trunc: { value: 'any' },
+  sqrt: { value: 'any' },
+  mod: { a: 'any', b: 'any' },
+  exp: { value: 'any' },
+  exp2: { value: 'any' },
+  log: { value: 'any' },
+  log2: { value: 'any' },
+  pow2: { value: 'any' },
+  pow3: { value: 'any' },
+  pow4: { value: 'any' },
+  sign: { value: 'any' },
+  saturate: { value: 'any' },
+  remap: {
+    value: 'any',
+    inLow: 'any',
+    inHigh: 'any',
+    outLow: 'any',
+    outHigh: 'any',
+  },
+  remapClamp: {
+    value: 'any',
+    inLow: 'any',
+    inHigh: 'any',
+    outLow: 'any',
+    outHigh: 'any',
+  },
+  oneMinus: { value: 'any' },
+  negate: { value: 'any' },
+  mix: { a: 'any', b: 'any', t: 'number' },
+  ifElse: { cond: 'any', a: 'any', b: 'any', threshold: 'number' },
+  smoothstepElement: { x: 'any', low: 'any', high: 'any' },
+  stepElement: { x: 'any', edge: 'any' },
+  lessThan: { a: 'any', b: 'any' },
+  lessThanEqual: { a: 'any', b: 'any' },
+  greaterThan: { a: 'any', b: 'any' },
+  greaterThanEqual: { a: 'any', b: 'any' },
+  equal: { a: 'any', b: 'any' },
+  notEqual: { a: 'any', b: 'any' },
+  and: { a: 'any', b: 'any' },
+  or: { a: 'any', b: 'any' },
+  not: { value: 'any' },
+  geometryOutput: { geometry: 'geometry' },
+  gltf: {},
+  material: {
+    baseColor: 'color',
+    baseColorTexture: 'color',
+    roughnessMap: 'color',
+    metalnessMap: 'color',
+    emissive: 'color',
+    emissiveMap: 'color',
+    emissiveIntensity: 'number',
+    roughness: 'number',
+    metalness: 'number',
+    normalMap: 'color',
+    normalScale: 'vec2',
+    aoMap: 'color',
+    aoMapIntensity: 'number',
+    envMap: 'color',
+    envMapIntensity: 'number',
+    opacity: 'number',
+    alphaTest: 'number',
+    alphaHash: 'number',
+  },
+  physicalMaterial: {
+    baseColor: 'color',
+    baseColorTexture: 'color',
+    roughnessMap: 'color',
+    metalnessMap: 'color',
+    emissive: 'color',
+    emissiveMap: 'color',
+    emissiveIntensity: 'number',
+    roughness: 'number',
+    metalness: 'number',
+    normalMap: 'color',
+    normalScale: 'vec2',
+    aoMap: 'color',
+    aoMapIntensity: 'number',
+    envMap: 'color',
+    envMapIntensity: 'number',
+    opacity: 'number',
+    alphaTest: 'number',
+    alphaHash: 'number',
+    clearcoat: 'number',
+    clearcoatRoughness: 'number',
+    clearcoatNormal: 'color',
+    sheen: 'number',
+    sheenColor: 'color',
+    sheenRoughness: 'number',
+    iridescence: 'number',
+    iridescenceIOR: 'number',
+    iridescenceThickness: 'number',
+    transmission: 'number',
+    thickness: 'number',
+    attenuationColor: 'color',
+    attenuationDistance: 'number',
+    ior: 'number',
+    dispersion: 'number',
+    specularIntensity: 'number',
+    specularColor: 'color',
+    anisotropy: 'number',
+  },
+  basicMaterial: {
+    baseColor: 'color',
+    baseColorTexture: 'color',
+    opacity: 'number',
+    alphaTest: 'number',
+    alphaHash: 'number',
+    map: 'color',
+    alphaMap: 'color',
+    aoMap: 'color',
+    envMap: 'color',
+    envMapIntensity: 'number',
+    reflectivity: 'number',
+  },
+  toonMaterial: {
+    baseColor: 'color',
+    baseColorTexture: 'color',
+    gradientMap: 'color',
+    emissive: 'color',
+    emissiveMap: 'color',
+    emissiveIntensity: 'number',
+    normalMap: 'color',
+    normalScale: 'vec2',
+    aoMap: 'color',
+    aoMapIntensity: 'number',
+    opacity: 'number',
+    alphaTest: 'number',
+    alphaHash: 'number',
+  },
+  lambertMaterial: {
+    baseColor: 'color',
+    baseColorTexture: 'color',
+    emissive: 'color',
+    emissiveMap: 'color',
+    emissiveIntensity: 'number',
+    normalMap: 'color',
+    normalScale: 'vec2',
+    aoMap: 'color',
+    aoMapIntensity: 'number',
+    envMap: 'color',
+    reflectivity: 'number',
+    opacity: 'number',
+    alphaTest: 'number',
+    alphaHash: 'number',
+  },
+  phongMaterial: {
+    baseColor: 'color',
+    baseColorTexture: 'color',
+    shininess: 'number',
+    specular: 'color',
+    specularMap: 'color',
+    emissive: 'color',
+    emissiveMap: 'color',
+    emissiveIntensity: 'number',
+    normalMap: 'color',
+    normalScale: 'vec2',
+    aoMap: 'color',
+    aoMapIntensity: 'number',
+    envMap: 'color',
+    reflectivity: 'number',
+    opacity: 'number',
+    alphaTest: 'number',
+    alphaHash: 'number',
+  },
+  pointsMaterial: {
+    baseColor: 'color',
+    baseColorTexture: 'color',
+    size: 'number',
+    sizeAttenuation: 'number',
+    opacity: 'number',
+    alphaTest: 'number',
+  },
+  lineMaterial: {
+    baseColor: 'color',
+    baseColorTexture: 'color',
+    opacity: 'number',
+    alphaTest: 'number',
+  },
+  lineDashedMaterial: {
+    baseColor: 'color',
+    baseColorTexture: 'color',
+    dashSize: 'number',
+    gapSize: 'number',
+    dashScale: 'number',
+    dashOffset: 'number',
+    opacity: 'number',
+    alphaTest: 'number',
+  },
+  spriteMaterial: {
+    baseColor: 'color',
+    baseColorTexture: 'color',
+    rotation: 'number',
+    scale: 'number',
+    sizeAttenuation: 'number',
+    opacity: 'number',
+    alphaTest: 'number',
+  },
+  output: { baseColor: 'color', roughness: 'number', metalness: 'number' },
+  vertexOutput: { position: 'vec3', normal: 'vec3', color: 'color' },
+  varyingSet: { value: 'any' },
+  functionInput: { value: 'any' },
+  functionOutput: { value: 'any' },
+}
+
+export const createTypeInference = (
+  functions: Record<string, FunctionDefinition>,
+): TypeInference => {
+  const inferType: TypeInference = (nodeId, outputPin, nodeMap, connectionMap, stack) => {
+    if (stack.has(nodeId)) return 'unknown'
+    const node = nodeMap.get(nodeId)
+    if (!node) return 'unknown'
+    stack.add(nodeId)
+    const type = inferNodeType(node, outputPin, nodeMap, connectionMap, stack)
+    stack.delete(nodeId)
+    return type
+  }
+
+  const inferNodeType = (
+    node: GraphNode,
+    outputPin: string | undefined,
+    nodeMap: NodeMap,
+    connectionMap: ConnectionMap,
+    stack: Set<string>,
+  ): InferredType => {
+    if (node.type === 'number') return 'number'
+    if (node.type === 'color' || node.type === 'texture' || node.type === 'gltfTexture') {
+      return 'color'
+    }
+    if (node.type === 'function') {
+      const def = node.functionId ? functions[node.functionId] : null
+      if (!def) return 'unknown'
+      const targetPin = outputPin ?? def.outputs[0]?.name
+      if (!targetPin) return 'unknown'
+      const output = def.outputs.find((pin) => pin.name === targetPin)
+      if (!output) return 'unknown'
+      // Only the function call chain carries over into the callee's scope.
+      const callKey = `function:${def.id}`
+      if (stack.has(callKey)) return 'unknown'
+      const calls = [...stack].filter((key) => key.startsWith('function:'))
+      const internalNodeMap = buildNodeMap(def.nodes)
+      const internalConnectionMap = buildConnectionMap(def.connections)
+      return inferType(
+        output.nodeId,
+        'value',
+        internalNodeMap,
+        internalConnectionMap,
+        new Set([...calls, callKey]),
+      )
+    }
+    const attributeKind = getAttributeKind(node.type)
+    if (attributeKind) return attributeKind
+    if (node.type === 'attribute') return ATTRIBUTE_NODE_TYPES[getAttributeNodeType(node)]
+    if (node.type === 'time') return 'number'
+    if (node.type === 'sine') return 'number'
+    if (node.type === 'normalize') {
+      const input = connectionMap.get(`${node.id}:value`)
+      const inputType = input
+        ? inferType(input.from.nodeId, input.from.pin, nodeMap, connectionMap, stack)
+        : 'unknown'
+      return isVectorKind(inputType) ? inputType : 'unknown'
+    }
+    if (node.type === 'length') {
+      const input = connectionMap.get(`${node.id}:value`)
+      const inputType = input
+        ? inferType(input.from.nodeId, input.from.pin, nodeMap, connectionMap, stack)
+        : 'unknown'
+      return isVectorKind(inputType) ? 'number' : 'unknown'
+    }
+    if (node.type === 'dot') {
+      const inputA = connectionMap.get(`${node.id}:a`)
+      const inputB = connectionMap.get(`${node.id}:b`)
+      const typeA = inputA
+        ? inferType(inputA.from.nodeId, inputA.from.pin, nodeMap, connectionMap, stack)
+        : 'unknown'
+      const typeB = inputB
+        ? inferType(inputB.from.nodeId, inputB.from.pin, nodeMap, connectionMap, stack)
+        : 'unknown'
+      const vecA = getVectorKind(typeA)
+      const vecB = getVectorKind(typeB)
+      if (!vecA || !vecB) return 'unknown'
+      if (vecA !== vecB) return 'unknown'
+      return 'number'
+    }
+    if (node.type === 'cross') {
+      const inputA = connectionMap.get(`${node.id}:a`)
+      const inputB = connectionMap.get(`${node.id}:b`)
+      const typeA = inputA
+        ? inferType(inputA.from.nodeId, inputA.from.pin, nodeMap, connectionMap, stack)
+        : 'unknown'
+      const typeB = inputB
+        ? inferType(inputB.from.nodeId, inputB.from.pin, nodeMap, connectionMap, stack)
+        : 'unknown'
+      const vecA = getVectorKind(typeA)
+      const vecB = getVectorKind(typeB)
+      if (vecA !== 'vec3' || vecB !== 'vec3') return 'unknown'
+      return typeA === 'color' || typeB === 'color' ? 'color' : 'vec3'
+    }
+    if (node.type === 'smoothstep') {
+      const edge0Input = connectionMap.get(`${node.id}:edge0`)
+      const edge1Input = connectionMap.get(`${node.id}:edge1`)
+      const xInput = connectionMap.get(`${node.id}:x`)
+      const type0 = edge0Input
+        ? inferType(edge0Input.from.nodeId, edge0Input.from.pin, nodeMap, connectionMap, stack)
+        : 'number'
+      const type1 = edge1Input
+        ? inferType(edge1Input.from.nodeId, edge1Input.from.pin, nodeMap, connectionMap, stack)
+        : 'number'
+      const typeX = xInput
+        ? inferType(xInput.from.nodeId, xInput.from.pin, nodeMap, connectionMap, stack)
+        : 'number'
+      return resolveVectorOutputKind([type0, type1, typeX])
+    }
+    if (node.type === 'pow') {
+      const baseInput = connectionMap.get(`${node.id}:base`)
+      const expInput = connectionMap.get(`${node.id}:exp`)
+      const baseType = baseInput
+        ? inferType(baseInput.from.nodeId, baseInput.from.pin, nodeMap, connectionMap, stack)
+        : 'number'
+      const expType = expInput
+        ? inferType(expInput.from.nodeId, expInput.from.pin, nodeMap, connectionMap, stack)
+        : 'number'
+      return resolveVectorOutputKind([baseType, expType])
+    }
+    if (node.type === 'vec2') return 'vec2'
+    if (node.type === 'vec3') return 'vec3'
+    if (node.type === 'mat2') return 'mat2'
+    if (node.type === 'mat3') return 'mat3'
+    if (node.type === 'mat4') return 'mat4'
+    if (node.type === 'modelMatrix') return 'mat4'
+    if (node.type === 'viewMatrix') return 'mat4'
+    if (node.type === 'projectionMatrix') return 'mat4'
+    if (node.type === 'modelViewMatrix') return 'mat4'
+    if (node.type === 'normalMatrix') return 'mat3'
+    if (node.type === 'scale') {
+      const input = connectionMap.get(`${node.id}:value`)
+      const inputType = input
+        ? inferType(input.from.nodeId, input.from.pin, nodeMap, connectionMap, stack)
+        : 'unknown'
+      if (inputType === 'vec3' || inputType === 'number') return 'vec3'
+      return 'unknown'
+    }
+    if (node.type === 'rotate') {
+      const input = connectionMap.get(`${node.id}:value`)
+      const inputType = input
+        ? inferType(input.from.nodeId, input.from.pin, nodeMap, connectionMap, stack)
+        : 'unknown'
+      if (inputType === 'vec3' || inputType === 'number') return 'vec3'
+      return 'unknown'
+    }
+    if (node.type === 'vec4') return 'vec4'
+    if (node.type === 'splitVec2') {
+      if (outputPin === 'x' || outputPin === 'y') {
+        return 'number'
+      }
+      return 'unknown'
+    }
+    if (node.type === 'splitVec3') {
+      if (outputPin === 'x' || outputPin === 'y' || outputPin === 'z') {
+        return 'number'
+      }
+      return 'unknown'
+    }
+    if (node.type === 'splitVec4') {
+      if (outputPin === 'x' || outputPin === 'y' || outputPin === 'z' || outputPin === 'w') {
+        return 'number'
+      }
+      return 'unknown'
+    }
+    if (node.type === 'cosine') return 'number'
+    if (node.type === 'checker') return 'number'
+    if (node.type === 'distance') return 'number'
+    if (node.type === 'dFdx' || node.type === 'dFdy' || node.type === 'fwidth') {
+      const input = connectionMap.get(`${node.id}:value`)
+      const inputType = input
+        ? inferType(input.from.nodeId, input.from.pin, nodeMap, connectionMap, stack)
+        : 'number'
+      if (inputType === 'number' || isVectorKind(inputType)) return inputType
+      return 'unknown'
+    }
+    if (node.type === 'mxNoiseFloat') return 'number'
+    if (node.type === 'mxNoiseVec3') return 'vec3'
+    if (node.type === 'mxNoiseVec4') return 'vec4'
+    if (node.type === 'mxFractalNoiseFloat') return 'number'
+    if (node.type === 'mxFractalNoiseVec2') return 'vec2'
+    if (node.type === 'mxFractalNoiseVec3') return 'vec3'
+    if (node.type === 'mxFractalNoiseVec4') return 'vec4'
+    if (node.type === 'mxWorleyNoiseFloat') return 'number'
+    if (node.type === 'mxWorleyNoiseVec2') return 'vec2'
+    if (node.type === 'mxWorleyNoiseVec3') return 'vec3'
+    if (node.type === 'rotateUV') return 'vec2'
+    if (node.type === 'scaleUV') return 'vec2'
+    if (node.type === 'offsetUV') return 'vec2'
+    if (node.type === 'spherizeUV') return 'vec2'
+    if (node.type === 'spritesheetUV') return 'vec2'
+    if (node.type === 'reflect' || node.type === 'refract' || node.type === 'faceforward') {
+      const getType = (pin: string) => {
+        const input = connectionMap.get(`${node.id}:${pin}`)
+        return input
+          ? inferType(input.from.nodeId, input.from.pin, nodeMap, connectionMap, stack)
+          : 'unknown'
+      }
+      const types =
+        node.type === 'reflect'
+          ? [getType('incident'), getType('normal')]
+          : node.type === 'refract'
+            ? [getType('incident'), getType('normal')]
+            : [getType('n'), getType('i'), getType('nref')]
+      if (types.some((type) => type === 'unknown')) return 'unknown'
+      if (types.some((type) => type !== 'vec3' && type !== 'color')) return 'unknown'
+      return types.some((type) => type === 'color') ? 'color' : 'vec3'
+    }
+    if (node.type === 'triNoise3D') return 'number'
+    if (node.type === 'tan') {
+      const input = connectionMap.get(`${node.id}:value`)
+      const inputType = input
+        ? inferType(input.from.nodeId, input.from.pin, nodeMap, connectionMap, stack)
+        : 'number'
+      if (inputType === 'number' || isVectorKind(inputType)) return inputType
+      return 'unknown'
+    }
+    if (node.type === 'asin' || node.type === 'acos' || node.type === 'atan') {
+      const input = connectionMap.get(`${node.id}:value`)
+      const inputType = input
+        ? inferType(input.from.nodeId, input.from.pin, nodeMap, connectionMap, stack)
+        : 'number'
+      if (inputType === 'number' || isVectorKind(inputType)) return inputType
+      return 'unknown'
+    }
+    if (
+      node.type === 'sqrt' ||
+      node.type === 'exp2' ||
+      node.type === 'log2' ||
+      node.type === 'pow2' ||
+      node.type === 'pow3' ||
+      node.type === 'pow4' ||
+      node.type === 'saturate'
+    ) {
+      const input = connectionMap.get(`${node.id}:value`)
+      const inputType = input
+        ? inferType(input.from.nodeId, input.from.pin, nodeMap, connectionMap, stack)
+        : 'number'
+      if (inputType === 'number' || isVectorKind(inputType)) return inputType
+      return 'unknown'
+    }
+    if (node.type === 'remap' || node.type === 'remapClamp') {
+      const input = connectionMap.get(`${node.id}:value`)
+      const inputType = input
+        ? inferType(input.from.nodeId, input.from.pin, nodeMap, connectionMap, stack)
+        : 'number'
+      if (inputType === 'number' || isVectorKind(inputType)) return inputType
+      return 'unknown'
+    }
+    if (node.type === 'smoothstepElement') {
+      const lowInput = connectionMap.get(`${node.id}:low`)
+      const highInput = connectionMap.get(`${node.id}:high`)
+      const xInput = connectionMap.get(`${node.id}:x`)
+      const lowType = lowInput
+        ? inferType(lowInput.from.nodeId, lowInput.from.pin, nodeMap, connectionMap, stack)
+        : 'number'
+      const highType = highInput
+        ? inferType(highInput.from.nodeId, highInput.from.pin, nodeMap, connectionMap, stack)
+        : 'number'
+      const xType = xInput
+        ? inferType(xInput.from.nodeId, xInput.from.pin, nodeMap, connectionMap, stack)
+        : 'number'
+      return resolveVectorOutputKind([lowType, highType, xType])
+    }
+    if (node.type === 'stepElement') {
+      const edgeInput = connectionMap.get(`${node.id}:edge`)
+      const xInput = connectionMap.get(`${node.id}:x`)
+      const edgeType = edgeInput
+        ? inferType(edgeInput.from.nodeId, edgeInput.from.pin, nodeMap, connectionMap, stack)
+        : 'number'
+      const xType = xInput
+        ? inferType(xInput.from.nodeId, xInput.from.pin, nodeMap, connectionMap, stack)
+        : 'number'
+      return resolveVectorOutputKind([edgeType, xType])
+    }
+    if (node.type === 'transpose' || node.type === 'inverse') {
+      const input = connectionMap.get(`${node.id}:value`)
+      const inputType = input
+        ? inferType(input.from.nodeId, input.from.pin, nodeMap, connectionMap, stack)
+        : 'unknown'
+      if (isMatrixKind(inputType)) return inputType
+      return 'unknown'
+    }
+    if (
+      node.type === 'lessThan' ||
+      node.type === 'lessThanEqual' ||
+      node.type === 'greaterThan' ||
+      node.type === 'greaterThanEqual' ||
+      node.type === 'equal' ||
+      node.type === 'notEqual' ||
+      node.type === 'and' ||
+      node.type === 'or'
+    ) {
+      const inputA = connectionMap.get(`${node.id}:a`)
+      const inputB = connectionMap.get(`${node.id}:b`)
+      const typeA = inputA
+        ? inferType(inputA.from.nodeId, inputA.from.pin, nodeMap, connectionMap, stack)
+        : 'number'
+      const typeB = inputB
+        ? inferType(inputB.from.nodeId, inputB.from.pin, nodeMap, connectionMap, stack)
+        : 'number'
+      return resolveVectorOutputKind([typeA, typeB])
+    }
+    if (node.type === 'not') {
+      const input = connectionMap.get(`${node.id}:value`)
+      const inputType = input
+        ? inferType(input.from.nodeId, input.from.pin, nodeMap, connectionMap, stack)
+        : 'number'
+      if (inputType === 'number' || isVectorKind(inputType)) return inputType
+      return 'unknown'
+    }
+    if (node.type === 'atan2') {
+      const yInput = connectionMap.get(`${node.id}:y`)
+      const xInput = connectionMap.get(`${node.id}:x`)
+      const yType = yInput
+        ? inferType(yInput.from.nodeId, yInput.from.pin, nodeMap, connectionMap, stack)
+        : 'number'
+      const xType = xInput
+        ? inferType(xInput.from.nodeId, xInput.from.pin, nodeMap, connectionMap, stack)
+        : 'number'
+      return resolveVectorOutputKind([yType, xType])
+    }
+    if (node.type === 'radians' || node.type === 'degrees') {
+      const input = connectionMap.get(`${node.id}:value`)
+      const inputType = input
+        ? inferType(input.from.nodeId, input.from.pin, nodeMap, connectionMap, stack)
+        : 'number'
+      if (inputType === 'number' || isVectorKind(inputType)) return inputType
+      return 'unknown'
+    }
+    if (node.type === 'abs') return 'number'
+    if (node.type === 'clamp') return 'number'
+    if (node.type === 'min' || node.type === 'max' || node.type === 'mod') {
+      const inputA = connectionMap.get(`${node.id}:a`)
+      const inputB = connectionMap.get(`${node.id}:b`)
+      const typeA = inputA
+        ? inferType(inputA.from.nodeId, inputA.from.pin, nodeMap, connectionMap, stack)
+        : 'number'
+      const typeB = inputB
+        ? inferType(inputB.from.nodeId, inputB.from.pin, nodeMap, connectionMap, stack)
+        : 'number'
+      if (typeA === 'number') return typeB
+      if (typeB === 'number') return typeA
+      if (typeA === typeB) return typeA
+      return 'unknown'
+    }
+    if (node.type === 'step') {
+      const edgeInput = connectionMap.get(`${node.id}:edge`)
+      const xInput = connectionMap.get(`${node.id}:x`)
+      const edgeType = edgeInput
+        ? inferType(edgeInput.from.nodeId, edgeInput.from.pin, nodeMap, connectionMap, stack)
+        : 'number'
+      const xType = xInput
+        ? inferType(xInput.from.nodeId, xInput.from.pin, nodeMap, connectionMap, stack)
+        : 'number'
+      return resolveVectorOutputKind([edgeType, xType])
+    }
+    if (
+      node.type === 'fract' ||
+      node.type === 'floor' ||
+      node.type === 'ceil' ||
+      node.type === 'round' ||
+      node.type === 'trunc' ||
+      node.type === 'exp' ||
+      node.type === 'log' ||
+      node.type === 'sign' ||
+      node.type === 'oneMinus' ||
+      node.type === 'negate'
+    ) {
+      const input = connectionMap.get(`${node.id}:value`)
+      const inputType = input
+        ? inferType(input.from.nodeId, input.from.pin, nodeMap, connectionMap, stack)
+        : 'number'
+      if (inputType === 'number' || isVectorKind(inputType)) return inputType
+      return 'unknown'
+    }
+    if (node.type === 'mix') {
+      const inputA = connectionMap.get(`${node.id}:a`)
+      const inputB = connectionMap.get(`${node.id}:b`)
+      const typeA = inputA
+        ? inferType(inputA.from.nodeId, inputA.from.pin, nodeMap, connectionMap, stack)
+        : 'number'
+      const typeB = inputB
+        ? inferType(inputB.from.nodeId, inputB.from.pin, nodeMap, connectionMap, stack)
+        : 'number'
+      if (typeA === 'number') return typeB
+      if (typeB === 'number') return typeA
+      if (typeA === typeB) return typeA
+      return 'unknown'
+    }
+    if (node.type === 'ifElse') {
+      const inputA = connectionMap.get(`${node.id}:a`)
+      const inputB = connectionMap.get(`${node.id}:b`)
+      const typeA = inputA
+        ? inferType(inputA.from.nodeId, inputA.from.pin, nodeMap, connectionMap, stack)
+        : 'number'
+      const typeB = inputB
+        ? inferType(inputB.from.nodeId, inputB.from.pin, nodeMap, connectionMap, stack)
+        : 'number'
+      if (typeA === 'number') return typeB
+      if (typeB === 'number') return typeA
+      if (typeA === typeB) return typeA
+      return 'unknown'
+    }
+    if (node.type === 'luminance') {
+      const input = connectionMap.get(`${node.id}:value`)
+      const inputType = input
+        ? inferType(input.from.nodeId, input.from.pin, nodeMap, connectionMap, stack)
+        : 'color'
+      if (inputType === 'color' || inputType === 'vec3') return 'number'
+      return 'unknown'
+    }
+    if (
+      node.type === 'grayscale' ||
+      node.type === 'saturation' ||
+      node.type === 'posterize' ||
+      node.type === 'sRGBTransferEOTF' ||
+      node.type === 'sRGBTransferOETF' ||
+      node.type === 'linearToneMapping' ||
+      node.type === 'reinhardToneMapping' ||
+      node.type === 'cineonToneMapping' ||
+      node.type === 'acesFilmicToneMapping' ||
+      node.type === 'agxToneMapping' ||
+      node.type === 'neutralToneMapping'
+    ) {
+      const input = connectionMap.get(`${node.id}:value`)
+      const inputType = input
+        ? inferType(input.from.nodeId, input.from.pin, nodeMap, connectionMap, stack)
+        : 'color'
+      if (inputType === 'color') return 'color'
+      if (inputType === 'vec3') return 'vec3'
+      return 'unknown'
+    }
+    if (node.type === 'geometryPrimitive') return 'geometry'
+    if (node.type === 'gltf') return 'geometry'
+    if (node.type === 'meshFile') {
+      if (outputPin === 'color') return 'color'
+      if (outputPin === 'uv') return 'vec2'
+      return 'geometry'
+    }
+    if (node.type === 'add' || node.type === 'multiply') {
+      const inputA = connectionMap.get(`${node.id}:a`)
+      const inputB = connectionMap.get(`${node.id}:b`)
+      const typeA = inputA
+        ? inferType(inputA.from.nodeId, inputA.from.pin, nodeMap, connectionMap, stack)
+        : 'number'
+      const typeB = inputB
+        ? inferType(inputB.from.nodeId, inputB.from.pin, nodeMap, connectionMap, stack)
+        : 'number'
+      if (typeA === 'number') return typeB
+      if (typeB === 'number') return typeA
+      if (typeA === typeB) return typeA
+      return 'unknown'
+    }
+    if (node.type === 'material' || node.type === 'physicalMaterial') {
+      if (outputPin === 'roughness' || outputPin === 'metalness') {
+        return 'number'
+      }
+      return 'color'
+    }
+    if (node.type === 'gltfMaterial') {
+      if (outputPin === 'normalScale') return 'vec2'
+      if (
+        outputPin === 'roughness' ||
+        outputPin === 'metalness' ||
+        outputPin === 'emissiveIntensity' ||
+        outputPin === 'aoMapIntensity' ||
+        outputPin === 'envMapIntensity' ||
+        outputPin === 'opacity' ||
+        outputPin === 'alphaTest' ||
+        outputPin === 'alphaHash'
+      ) {
+        return 'number'
+      }
+      return 'color'
+    }
+    if (isMaterialNodeType(node.type)) {
+      return 'color'
+    }
+    if (node.type === 'output') return 'color'
+    if (node.type === 'vertexOutput') return 'vec3'
+    if (node.type === 'varyingGet') {
+      const source = findVaryingSource(nodeMap.values(), getVaryingName(node))
+      const input = source ? connectionMap.get(`${source.id}:value`) : null
+      if (!input) return 'unknown'
+      return inferType(input.from.nodeId, input.from.pin, nodeMap, connectionMap, stack)
+    }
+    if (node.type === 'functionInput' || node.type === 'functionOutput') {
+      const input = connectionMap.get(`${node.id}:value`)
+      if (!input) return 'unknown'
+      return inferType(input.from.nodeId, input.from.pin, nodeMap, connectionMap, stack)
+    }
+    if (node.type === 'geometryOutput') return 'geometry'
+    return 'unknown'
+  }
+
+  return inferType
+}
+
+export const getPinTypeIssues = (
+  nodes: GraphNode[],
+  connections: GraphConnection[],
+  inferType: TypeInference,
+): PinTypeIssue[] => {
+  const nodeMap = buildNodeMap(nodes)
+  const connectionMap = buildConnectionMap(connections)
+  const issues: PinTypeIssue[] = []
+
+  connections.forEach((connection) => {
+    const target = nodeMap.get(connection.to.nodeId)
+    if (!target) return
+    const expected = INPUT_TYPES[target.type]?.[connection.to.pin]
+    if (!expected) return
+    const report = (message: string) => {
+      issues.push({ nodeId: connection.to.nodeId, pin: connection.to.pin, message })
+    }
+    const actual = inferType(
+      connection.from.nodeId,
+      connection.from.pin,
+      nodeMap,
+      connectionMap,
+      new Set(),
+    )
+    if (target.type === 'add' || target.type === 'multiply') {
+      const otherPin = connection.to.pin === 'a' ? 'b' : 'a'
+      const other = connectionMap.get(`${target.id}:${otherPin}`)
+      if (other) {
+        const otherType = inferType(
+          other.from.nodeId,
+          other.from.pin,
+          nodeMap,
+          connectionMap,
+          new Set(),
+        )
+        const combined = combineTypes(actual, otherType)
+        if (combined === 'unknown') {
+          report('Type mismatch')
+        }
+      }
+      return
+    }
+    if (target.type === 'min' || target.type === 'max' || target.type === 'mod') {
+      const otherPin = connection.to.pin === 'a' ? 'b' : 'a'
+      const other = connectionMap.get(`${target.id}:${otherPin}`)
+      if (other) {
+        const otherType = inferType(
+          other.from.nodeId,
+          other.from.pin,
+          nodeMap,
+          connectionMap,
+          new Set(),
+        )
+        const combined = combineTypes(actual, otherType)
+        if (combined === 'unknown') {
+          report('Type mismatch')
+        }
+      }
+      return
+    }
+    if (target.type === 'distance') {
+      const otherPin = connection.to.pin === 'a' ? 'b' : 'a'
+      const other = connectionMap.get(`${target.id}:${otherPin}`)
+      if (other) {
+        const otherType = inferType(
+          other.from.nodeId,
+          other.from.pin,
+          nodeMap,
+          connectionMap,
+          new Set(),
+        )
+        if (resolveVectorOutputKind([actual, otherType]) === 'unknown') {
+          report('Type mismatch')
+        }
+      }
+      return
+    }
+    if (
+      target.type === 'lessThan' ||
+      target.type === 'lessThanEqual' ||
+      target.type === 'greaterThan' ||
+      target.type === 'greaterThanEqual' ||
+      target.type === 'equal' ||
+      target.type === 'notEqual' ||
+      target.type === 'and' ||
+      target.type === 'or'
+    ) {
+      const otherPin = connection.to.pin === 'a' ? 'b' : 'a'
+      const other = connectionMap.get(`${target.id}:${otherPin}`)
+      if (other) {
+        const otherType = inferType(
+          other.from.nodeId,
+          other.from.pin,
+          nodeMap,
+          connectionMap,
+          new Set(),
+        )
+        if (resolveVectorOutputKind([actual, otherType]) === 'unknown') {
+          report('Type mismatch')
+        }
+      }
+      return
+    }
+    if (target.type === 'dot') {
+      const otherPin = connection.to.pin === 'a' ? 'b' : 'a'
+      const other = connectionMap.get(`${target.id}:${otherPin}`)
+      if (other) {
+        const otherType = inferType(
+          other.from.nodeId,
+          other.from.pin,
+          nodeMap,
+          connectionMap,
+          new Set(),
+        )
+        const vecA = getVectorKind(actual)
+        const vecB = getVectorKind(otherType)
+        if (!vecA || !vecB || vecA !== vecB) {
+          report('Type mismatch')
+        }
+      }
+      return
+    }
+    if (target.type === 'atan2') {
+      const resolvePinType = (pin: string) => {
+        const linked = connectionMap.get(`${target.id}:${pin}`)
+        if (!linked) return 'number'
+        return inferType(
+          linked.from.nodeId,
+          linked.from.pin,
+          nodeMap,
+          connectionMap,
+          new Set(),
+        )
+      }
+      const yType = connection.to.pin === 'y' ? actual : resolvePinType('y')
+      const xType = connection.to.pin === 'x' ? actual : resolvePinType('x')
+      if (resolveVectorOutputKind([yType, xType]) === 'unknown') {
+        report('Type mismatch')
+      }
+      return
+    }
+    if (target.type === 'step') {
+      const resolvePinType = (pin: string) => {
+        const linked = connectionMap.get(`${target.id}:${pin}`)
+        if (!linked) return 'number'
+        return inferType(
+          linked.from.nodeId,
+          linked.from.pin,
+          nodeMap,
+          connectionMap,
+          new Set(),
+        )
+      }
+      const edgeType = connection.to.pin === 'edge' ? actual : resolvePinType('edge')
+      const xType = connection.to.pin === 'x' ? actual : resolvePinType('x')
+      if (resolveVectorOutputKind([edgeType, xType]) === 'unknown') {
+        report('Type mismatch')
+      }
+      return
+    }
+    if (target.type === 'stepElement') {
+      const resolvePinType = (pin: string) => {
+        const linked = connectionMap.get(`${target.id}:${pin}`)
+        if (!linked) return 'number'
+        return inferType(
+          linked.from.nodeId,
+          linked.from.pin,
+          nodeMap,
+          connectionMap,
+          new Set(),
+        )
+      }
+      const edgeType = connection.to.pin === 'edge' ? actual : resolvePinType('edge')
+      const xType = connection.to.pin === 'x' ? actual : resolvePinType('x')
+      if (resolveVectorOutputKind([edgeType, xType]) === 'unknown') {
+        report('Type mismatch')
+      }
+      return
+    }
+    if (target.type === 'mix' && (connection.to.pin === 'a' || connection.to.pin === 'b')) {
+      const otherPin = connection.to.pin === 'a' ? 'b' : 'a'
+      const other = connectionMap.get(`${target.id}:${otherPin}`)
+      if (other) {
+        const otherType = inferType(
+          other.from.nodeId,
+          other.from.pin,
+          nodeMap,
+          connectionMap,
+          new Set(),
+        )
+        const combined = combineTypes(actual, otherType)
+        if (combined === 'unknown') {
+          report('Type mismatch')
+        }
+      }
+      return
+    }
+    if (target.type === 'ifElse') {
+      if (connection.to.pin === 'a' || connection.to.pin === 'b') {
+        const otherPin = connection.to.pin === 'a' ? 'b' : 'a'
+        const other = connectionMap.get(`${target.id}:${otherPin}`)
+        if (other) {
+          const otherType = inferType(
+            other.from.nodeId,
+            other.from.pin,
+            nodeMap,
+            connectionMap,
+            new Set(),
+          )
+          const combined = combineTypes(actual, otherType)
+          if (combined === 'unknown') {
+            report('Type mismatch')
+          }
+        }
+        return
+      }
+      if (connection.to.pin === 'cond') {
+        const inputA = connectionMap.get(`${target.id}:a`)
+        const inputB = connectionMap.get(`${target.id}:b`)
+        const typeA = inputA
+          ? inferType(inputA.from.nodeId, inputA.from.pin, nodeMap, connectionMap, new Set())
+          : 'number'
+        const typeB = inputB
+          ? inferType(inputB.from.nodeId, inputB.from.pin, nodeMap, connectionMap, new Set())
+          : 'number'
+        const outputKind = combineTypes(typeA, typeB)
+        if (outputKind === 'number' && actual !== 'number' && !isVectorKind(actual)) {
+          report('number expected')
+        } else if (
+          outputKind !== 'number' &&
+          isVectorKind(outputKind) &&
+          resolveVectorOutputKind([actual, outputKind]) === 'unknown' &&
+          actual !== 'number'
+        ) {
+          report('Type mismatch')
+        }
+        return
+      }
+    }
+    if (target.type === 'smoothstep') {
+      const resolvePinType = (pin: string) => {
+        const linked = connectionMap.get(`${target.id}:${pin}`)
+        if (!linked) return 'number'
+        return inferType(
+          linked.from.nodeId,
+          linked.from.pin,
+          nodeMap,
+          connectionMap,
+          new Set(),
+        )
+      }
+      const edge0 = connection.to.pin === 'edge0' ? actual : resolvePinType('edge0')
+      const edge1 = connection.to.pin === 'edge1' ? actual : resolvePinType('edge1')
+      const xType = connection.to.pin === 'x' ? actual : resolvePinType('x')
+      if (resolveVectorOutputKind([edge0, edge1, xType]) === 'unknown') {
+        report('Type mismatch')
+      }
+      return
+    }
+    if (target.type === 'smoothstepElement') {
+      const resolvePinType = (pin: string) => {
+        const linked = connectionMap.get(`${target.id}:${pin}`)
+        if (!linked) return 'number'
+        return inferType(
+          linked.from.nodeId,
+          linked.from.pin,
+          nodeMap,
+          connectionMap,
+          new Set(),
+        )
+      }
+      const lowType = connection.to.pin === 'low' ? actual : resolvePinType('low')
+      const highType = connection.to.pin === 'high' ? actual : resolvePinType('high')
+      const xType = connection.to.pin === 'x' ? actual : resolvePinType('x')
+      if (resolveVectorOutputKind([lowType, highType, xType]) === 'unknown') {
+        report('Type mismatch')
+      }
+      return
+    }
+    if (target.type === 'pow') {
+      const resolvePinType = (pin: string) => {
+        const linked = connectionMap.get(`${target.id}:${pin}`)
+        if (!linked) return 'number'
+        return inferType(
+          linked.from.nodeId,
+          linked.from.pin,
+          nodeMap,
+          connectionMap,
+          new Set(),
+        )
+      }
+      const baseType = connection.to.pin === 'base' ? actual : resolvePinType('base')
+      const expType = connection.to.pin === 'exp' ? actual : resolvePinType('exp')
+      if (resolveVectorOutputKind([baseType, expType]) === 'unknown') {
+        report('Type mismatch')
+      }
+      return
+    }
+    if (!isAssignableType(actual, expected)) {
+      report(`${expected} expected`)
+    }
+  })
+
+  return issues
+}
@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest'
+import { GRAPH_FILE_FORMAT, graphSchemaVersion } from './graphFile'
+import { createNode, link } from './graphTestUtils'
+import {
+  formatGraphProblem,
+  hasGraphErrors,
+  readGraphFile,
+  validateGraphDocument,
+} from './graphValidation'
+
+const createDocument = (overrides: Record<string, unknown> = {}) => ({
+  format: GRAPH_FILE_FORMAT,
+  graphSchemaVersion,
+  nodes: [createNode('color', 'color'), createNode('output', 'output', { x: 200 })],
+  connections: [link('color', 'color', 'output', 'baseColor')],
+  ...overrides,
+})
+
+describe('validateGraphDocument', () => {
+  it('accepts a valid graph', () => {
+    expect(validateGraphDocument(createDocument())).toEqual([])
+  })
+
+  it('rejects non-object documents and unknown formats', () => {
+    expect(validateGraphDocument([])).toEqual([
+      { severity: 'error', path: '$', message: 'Graph must be a JSON object' },
+    ])
+    expect(validateGraphDocument(createDocument({ format: 'other' }))).toContainEqual({
+      severity: 'error',
+      path: '$.format',
+      message: 'Unsupported graph format "other"',
+    })
+  })
+
+  it('rejects schema versions newer than the editor', () => {
+    const problems = validateGraphDocument(
+      createDocument({ graphSchemaVersion: graphSchemaVersion + 1 }),
+    )
+    expect(hasGraphErrors(problems)).toBe(true)
+    expect(problems[0].path).toBe('$.graphSchemaVersion')
+  })
+
+  it('reports malformed and duplicate nodes as errors', () => {
+    const [color] = createDocument().nodes
+    const problems = validateGraphDocument(
+      createDocument({ nodes: [color, { ...color, x: 'left' }, { type: 'number' }] }),
+    )
+    expect(problems).toContainEqual({
+      severity: 'error',
+      path: '$.nodes[1].id',
+      message: 'Duplicate node id "color"',
+      nodeId: 'color',
+    })
+    expect(problems).toContainEqual({
+      severity: 'error',
+      path: '$.nodes[2]',
+      message: 'Node must have a non-empty string "id"',
+    })
+  })
+
+  it('warns about unknown pins and missing nodes without failing', () => {
+    const problems = validateGraphDocument(
+      createDocument({
+        connections: [
+          {
+            id: 'bad-pin',
+            from: { nodeId: 'color', pin: 'rgb' },
+            to: { nodeId: 'output', pin: 'baseColor' },
+          },
+          {
+            id: 'missing',
+            from: { nodeId: 'ghost', pin: 'value' },
+            to: { nodeId: 'output', pin: 'roughness' },
+          },
+        ],
+      }),
+    )
+    expect(hasGraphErrors(problems)).toBe(false)
+    expect(problems.map(formatGraphProblem)).toEqual([
+      'warning: $.connections[0].from.pin (node "color"): Node type "color" has no output pin "rgb"',
+      'warning: $.connections[1].from (node "ghost"): Missing node "ghost"',
+    ])
+  })
+
+  it('checks function pins point at function input and output nodes', () => {
+    const problems = validateGraphDocument(
+      createDocument({
+        functions: {
+          fn: {
+            id: 'fn',
+            name: 'Fn',
+            nodes: [],
+            connections: [],
+            inputs: [{ name: 'value', nodeId: 'missing' }],
+            outputs: [],
+          },
+        },
+      }),
+    )
+    expect(problems).toContainEqual({
+      severity: 'error',
+      path: '$.functions.fn.inputs[0].nodeId',
+      message: 'Expected a functionInput node',
+      functionId: 'fn',
+      nodeId: 'missing',
+    })
+  })
+})
+
+describe('readGraphFile', () => {
+  it('returns no document for invalid JSON', () => {
+    expect(readGraphFile('{')).toEqual({
+      document: null,
+      problems: [{ severity: 'error', path: '$', message: 'Graph file is not valid JSON' }],
+    })
+  })
+
+  it('fills optional sections of a valid graph', () => {
+    const { document } = readGraphFile(JSON.stringify(createDocument()))
+    expect(document?.groups).toEqual([])
+    expect(document?.functions).toEqual({})
+    expect(document?.ui).toEqual({})
+  })
+})
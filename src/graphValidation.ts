@@ -0,0 +1,349 @@
+import type { FunctionDefinition, GraphConnection, GraphGroup, GraphNode } from './graph'
+import {
+  GRAPH_FILE_FORMAT,
+  graphSchemaVersion,
+  type GraphDocument,
+  type GraphFileBlob,
+} from './graphFile'
+import { BASE_PALETTE, type PaletteItem } from './palette'
+
+export type GraphProblemSeverity = 'error' | 'warning'
+
+export type GraphProblem = {
+  severity: GraphProblemSeverity
+  message: string
+  path: string
+  nodeId?: string
+  pin?: string
+  functionId?: string
+}
+
+export type GraphValidationResult = {
+  document: GraphDocument | null
+  problems: GraphProblem[]
+}
+
+type PinTemplate = { inputs: string[]; outputs: string[] }
+
+const FUNCTION_PIN_TEMPLATE: PinTemplate = { inputs: ['value'], outputs: ['value'] }
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((entry) => typeof entry === 'string')
+
+export const hasGraphErrors = (problems: GraphProblem[]) =>
+  problems.some((problem) => problem.severity === 'error')
+
+export const formatGraphProblem = (problem: GraphProblem) => {
+  const scope = [
+    problem.functionId ? `function "${problem.functionId}"` : null,
+    problem.nodeId ? `node "${problem.nodeId}"` : null,
+    problem.pin ? `pin "${problem.pin}"` : null,
+  ]
+    .filter(Boolean)
+    .join(', ')
+  return `${problem.severity}: ${problem.path}${scope ? ` (${scope})` : ''}: ${problem.message}`
+}
+
+export const validateGraphDocument = (
+  data: unknown,
+  templates: PaletteItem[] = BASE_PALETTE,
+): GraphProblem[] => {
+  const problems: GraphProblem[] = []
+  const report = (
+    severity: GraphProblemSeverity,
+    path: string,
+    message: string,
+    scope: { nodeId?: string; functionId?: string } = {},
+  ) => {
+    problems.push({ severity, message, path, ...scope })
+  }
+  if (!isRecord(data)) {
+    report('error', '$', 'Graph must be a JSON object')
+    return problems
+  }
+  if (data.format !== undefined && data.format !== GRAPH_FILE_FORMAT) {
+    report('error', '$.format', `Unsupported graph format "${String(data.format)}"`)
+  }
+  const version = data.graphSchemaVersion ?? data.version ?? 0
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 0) {
+    report('error', '$.graphSchemaVersion', 'Schema version must be a non-negative integer')
+  } else if (version > graphSchemaVersion) {
+    report(
+      'error',
+      '$.graphSchemaVersion',
+      `Schema version ${version} is newer than supported (${graphSchemaVersion})`,
+    )
+  }
+  if (data.ui !== undefined && !isRecord(data.ui)) {
+    report('error', '$.ui', 'Expected an object')
+  }
+
+  const templateMap = new Map(templates.map((item) => [item.type, item]))
+  const functions = isRecord(data.functions) ? data.functions : {}
+  if (data.functions !== undefined && !isRecord(data.functions)) {
+    report('error', '$.functions', 'Expected an object')
+  }
+
+  const getPinTemplate = (node: GraphNode): PinTemplate | null => {
+    if (node.type === 'functionInput' || node.type === 'functionOutput') {
+      return FUNCTION_PIN_TEMPLATE
+    }
+    if (node.type === 'function') {
+      const def = node.functionId ? functions[node.functionId] : undefined
+      if (!isRecord(def)) return null
+      const pins = (value: unknown) =>
+        Array.isArray(value)
+          ? value.filter(isRecord).map((pin) => String(pin.name))
+          : []
+      return { inputs: pins(def.inputs), outputs: pins(def.outputs) }
+    }
+    return templateMap.get(node.type) ?? null
+  }
+
+  const validateNodes = (value: unknown, path: string, functionId?: string) => {
+    const nodeMap = new Map<string, GraphNode>()
+    if (!Array.isArray(value)) {
+      report('error', path, 'Expected an array of nodes', { functionId })
+      return nodeMap
+    }
+    value.forEach((node, index) => {
+      const nodePath = `${path}[${index}]`
+      if (!isRecord(node) || typeof node.id !== 'string' || !node.id) {
+        report('error', nodePath, 'Node must have a non-empty string "id"', { functionId })
+        return
+      }
+      const scope = { nodeId: node.id, functionId }
+      if (nodeMap.has(node.id)) {
+        report('error', `${nodePath}.id`, `Duplicate node id "${node.id}"`, scope)
+        return
+      }
+      if (typeof node.type !== 'string') {
+        report('error', `${nodePath}.type`, 'Node must have a string "type"', scope)
+        return
+      }
+      if (typeof node.x !== 'number' || typeof node.y !== 'number') {
+        report('error', nodePath, 'Node position "x"/"y" must be numbers', scope)
+      }
+      if (node.label !== undefined && typeof node.label !== 'string') {
+        report('error', `${nodePath}.label`, 'Expected a string', scope)
+      }
+      if (!isStringArray(node.inputs) || !isStringArray(node.outputs)) {
+        report('error', nodePath, 'Node "inputs"/"outputs" must be string arrays', scope)
+      }
+      if (
+        node.value !== undefined &&
+        typeof node.value !== 'number' &&
+        typeof node.value !== 'string'
+      ) {
+        report('error', `${nodePath}.value`, 'Expected a number or string', scope)
+      }
+      const graphNode = node as GraphNode
+      nodeMap.set(node.id, graphNode)
+      if (node.type === 'function') {
+        if (typeof node.functionId !== 'string' || !isRecord(functions[node.functionId])) {
+          report(
+            'warning',
+            `${nodePath}.functionId`,
+            `Unknown function "${String(node.functionId)}"`,
+            scope,
+          )
+        }
+        return
+      }
+      if (!getPinTemplate(graphNode)) {
+        report('warning', `${nodePath}.type`, `Unknown node type "${node.type}"`, scope)
+      }
+    })
+    return nodeMap
+  }
+
+  const validateConnections = (
+    value: unknown,
+    path: string,
+    nodeMap: Map<string, GraphNode>,
+    functionId?: string,
+  ) => {
+    if (!Array.isArray(value)) {
+      report('error', path, 'Expected an array of connections', { functionId })
+      return
+    }
+    const targets = new Set<string>()
+    value.forEach((connection, index) => {
+      const linkPath = `${path}[${index}]`
+      const isEndpoint = (endpoint: unknown) =>
+        isRecord(endpoint) &&
+        typeof endpoint.nodeId === 'string' &&
+        typeof endpoint.pin === 'string'
+      if (
+        !isRecord(connection) ||
+        typeof connection.id !== 'string' ||
+        !isEndpoint(connection.from) ||
+        !isEndpoint(connection.to)
+      ) {
+        report('error', linkPath, 'Connection must have an "id" and "from"/"to" endpoints', {
+          functionId,
+        })
+        return
+      }
+      const { from, to } = connection as GraphConnection
+      const endpoints: Array<['from' | 'to', { nodeId: string; pin: string }]> = [
+        ['from', from],
+        ['to', to],
+      ]
+      endpoints.forEach(([side, endpoint]) => {
+        const node = nodeMap.get(endpoint.nodeId)
+        const scope = { nodeId: endpoint.nodeId, functionId }
+        if (!node) {
+          report('warning', `${linkPath}.${side}`, `Missing node "${endpoint.nodeId}"`, scope)
+          return
+        }
+        const template = getPinTemplate(node)
+        if (!template) return
+        const pins = side === 'from' ? template.outputs : template.inputs
+        if (!pins.includes(endpoint.pin)) {
+          report(
+            'warning',
+            `${linkPath}.${side}.pin`,
+            `Node type "${node.type}" has no ${side === 'from' ? 'output' : 'input'} pin "${endpoint.pin}"`,
+            scope,
+          )
+        }
+      })
+      const targetKey = `${to.nodeId}:${to.pin}`
+      if (targets.has(targetKey)) {
+        report('warning', `${linkPath}.to`, `Input pin "${to.pin}" is connected more than once`, {
+          nodeId: to.nodeId,
+          functionId,
+        })
+      }
+      targets.add(targetKey)
+    })
+  }
+
+  Object.entries(functions).forEach(([key, def]) => {
+    const path = `$.functions.${key}`
+    if (!isRecord(def)) {
+      report('error', path, 'Function definition must be an object', { functionId: key })
+      return
+    }
+    const scope = { functionId: key }
+    if (def.id !== key) {
+      report('error', `${path}.id`, `Function id must match its key "${key}"`, scope)
+    }
+    if (typeof def.name !== 'string') {
+      report('error', `${path}.name`, 'Expected a string', scope)
+    }
+    if (
+      def.library !== undefined &&
+      (!isRecord(def.library) ||
+        typeof def.library.id !== 'string' ||
+        typeof def.library.version !== 'number')
+    ) {
+      report('warning', `${path}.library`, 'Library link must have "id" and "version"', scope)
+    }
+    const nodeMap = validateNodes(def.nodes, `${path}.nodes`, key)
+    validateConnections(def.connections, `${path}.connections`, nodeMap, key)
+    const pinTypes = { inputs: 'functionInput', outputs: 'functionOutput' } as const
+    ;(['inputs', 'outputs'] as const).forEach((side) => {
+      const pins = def[side]
+      if (!Array.isArray(pins)) {
+        report('error', `${path}.${side}`, 'Expected an array of pins', scope)
+        return
+      }
+      pins.forEach((pin, index) => {
+        const pinPath = `${path}.${side}[${index}]`
+        if (!isRecord(pin) || typeof pin.name !== 'string' || typeof pin.nodeId !== 'string') {
+          report('error', pinPath, 'Pin must have string "name" and "nodeId"', scope)
+          return
+        }
+        if (nodeMap.get(pin.nodeId)?.type !== pinTypes[side]) {
+          report('error', `${pinPath}.nodeId`, `Expected a ${pinTypes[side]} node`, {
+            ...scope,
+            nodeId: pin.nodeId,
+          })
+        }
+      })
+    })
+  })
+
+  const nodeMap = validateNodes(data.nodes, '$.nodes')
+  validateConnections(data.connections, '$.connections', nodeMap)
+
+  if (data.groups !== undefined) {
+    if (!Array.isArray(data.groups)) {
+      report('error', '$.groups', 'Expected an array of groups')
+    } else {
+      data.groups.forEach((group, index) => {
+        const path = `$.groups[${index}]`
+        if (
+          !isRecord(group) ||
+          typeof group.id !== 'string' ||
+          typeof group.label !== 'string' ||
+          !isStringArray(group.nodeIds)
+        ) {
+          report('error', path, 'Group must have "id", "label" and "nodeIds"')
+          return
+        }
+        group.nodeIds.forEach((nodeId) => {
+          if (!nodeMap.has(nodeId)) {
+            report('warning', `${path}.nodeIds`, `Missing node "${nodeId}"`, { nodeId })
+          }
+        })
+      })
+    }
+  }
+
+  if (data.blobs !== undefined) {
+    if (!Array.isArray(data.blobs)) {
+      report('error', '$.blobs', 'Expected an array of blobs')
+    } else {
+      data.blobs.forEach((entry, index) => {
+        const valid =
+          isRecord(entry) &&
+          typeof entry.id === 'string' &&
+          (entry.store === 'textures' || entry.store === 'assets') &&
+          typeof entry.data === 'string'
+        if (!valid) {
+          report('error', `$.blobs[${index}]`, 'Blob must have "id", "store" and "data"')
+        }
+      })
+    }
+  }
+
+  return problems
+}
+
+export const parseGraphDocument = (data: unknown): GraphValidationResult => {
+  const problems = validateGraphDocument(data)
+  if (hasGraphErrors(problems)) return { document: null, problems }
+  const graph = data as Record<string, unknown>
+  return {
+    document: {
+      format: GRAPH_FILE_FORMAT,
+      graphSchemaVersion: (graph.graphSchemaVersion ?? graph.version ?? 0) as number,
+      nodes: graph.nodes as GraphNode[],
+      connections: graph.connections as GraphConnection[],
+      groups: (graph.groups ?? []) as GraphGroup[],
+      functions: (graph.functions ?? {}) as Record<string, FunctionDefinition>,
+      ui: (graph.ui ?? {}) as GraphDocument['ui'],
+      ...(graph.blobs ? { blobs: graph.blobs as GraphFileBlob[] } : {}),
+    },
+    problems,
+  }
+}
+
+export const readGraphFile = (text: string): GraphValidationResult => {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    return {
+      document: null,
+      problems: [{ severity: 'error', path: '$', message: 'Graph file is not valid JSON' }],
+    }
+  }
+  return parseGraphDocument(data)
+}
@@ -0,0 +1,55 @@
+import type { BufferGeometry, Mesh } from 'three'
+import { OBJLoader } from 'three/addons/loaders/OBJLoader.js'
+import { PLYLoader } from 'three/addons/loaders/PLYLoader.js'
+import { STLLoader } from 'three/addons/loaders/STLLoader.js'
+import { mergeGeometries } from 'three/addons/utils/BufferGeometryUtils.js'
+
+export type MeshFileFormat = 'obj' | 'ply' | 'stl'
+
+export type MeshFileEntry = {
+  src: string
+  geometry: BufferGeometry
+}
+
+export const MESH_FILE_ACCEPT = '.obj,.ply,.stl'
+
+// Output pins that are only kept when the loaded geometry carries the matching attribute.
+export const MESH_FILE_ATTRIBUTE_PINS = ['color', 'uv']
+
+// Blob URLs drop the extension, so the format is read from the stored asset name.
+export const getMeshFileFormat = (name: string | undefined): MeshFileFormat | null => {
+  const match = /\.(obj|ply|stl)$/i.exec(name ?? '')
+  return match ? (match[1].toLowerCase() as MeshFileFormat) : null
+}
+
+export const getMeshFileOutputs = (geometry: BufferGeometry) => [
+  'geometry',
+  ...MESH_FILE_ATTRIBUTE_PINS.filter((pin) => geometry.hasAttribute(pin)),
+]
+
+const parseObj = (buffer: ArrayBuffer) => {
+  const geometries: BufferGeometry[] = []
+  new OBJLoader().parse(new TextDecoder().decode(buffer)).traverse((child) => {
+    const mesh = child as Mesh
+    if (mesh.isMesh) geometries.push(mesh.geometry)
+  })
+  if (!geometries.length) throw new Error('no mesh geometry found')
+  // Groups with mismatched attributes cannot be merged; the first group still previews.
+  return geometries.length > 1 ? (mergeGeometries(geometries) ?? geometries[0]) : geometries[0]
+}
+
+export const parseMeshFile = (buffer: ArrayBuffer, format: MeshFileFormat) => {
+  const geometry =
+    format === 'obj'
+      ? parseObj(buffer)
+      : format === 'ply'
+        ? new PLYLoader().parse(buffer)
+        : new STLLoader().parse(buffer)
+  if (!geometry.hasAttribute('normal')) geometry.computeVertexNormals()
+  return geometry
+}
+
+export const loadMeshFile = async (src: string, format: MeshFileFormat) => {
+  const response = await fetch(src)
+  return parseMeshFile(await response.arrayBuffer(), format)
+}
@@ -0,0 +1,131 @@
+import {
+  NoToneMapping,
+  OrthographicCamera,
+  PlaneGeometry,
+  SRGBColorSpace,
+  type BufferGeometry,
+} from 'three'
+import { Mesh, MeshBasicNodeMaterial, Scene, WebGPURenderer, type Node } from 'three/webgpu'
+import { createPrimitiveGeometry } from './gltfExport'
+import type { PrimitiveGeometry } from './geometryPrimitives'
+import { MATERIAL_NODE_KINDS, type GraphNode } from './graph'
+
+export const NODE_PREVIEW_SIZE = 64
+export const NODE_PREVIEW_INTERVAL = 250
+
+const ATLAS_COLUMNS = 8
+const PREVIEW_BACKGROUND = 0x121821
+// Flat and round shapes read best head-on; the rest are tilted to show depth.
+const UNTILTED_SHAPES = new Set(['plane', 'subdividedPlane', 'ring', 'sphere', 'icosphere'])
+
+const NO_PREVIEW_TYPES = new Set([
+  'output',
+  'vertexOutput',
+  ...Object.keys(MATERIAL_NODE_KINDS),
+  'geometryPrimitive',
+  'gltf',
+  'meshFile',
+  'function',
+  'functionInput',
+  'functionOutput',
+])
+
+export const hasNodePreview = (node: GraphNode) =>
+  node.outputs.length > 0 && !NO_PREVIEW_TYPES.has(node.type)
+
+export type NodePreviewRenderer = {
+  setGeometry: (geometry: PrimitiveGeometry | null) => void
+  setNodes: (nodes: Map<string, Node>) => void
+  render: (canvases: Map<string, HTMLCanvasElement>) => void
+  dispose: () => void
+}
+
+// Previews share one offscreen renderer: each node is drawn into its own tile of an atlas,
+// then copied into the node's canvas.
+export const createNodePreviewRenderer = async (): Promise<NodePreviewRenderer> => {
+  const renderer = new WebGPURenderer({ antialias: true })
+  renderer.setPixelRatio(1)
+  renderer.outputColorSpace = SRGBColorSpace
+  renderer.toneMapping = NoToneMapping
+  renderer.autoClear = false
+  renderer.setClearColor(PREVIEW_BACKGROUND)
+  renderer.setScissorTest(true)
+  await renderer.init()
+
+  const scene = new Scene()
+  const camera = new OrthographicCamera(-1, 1, 1, -1, 0.1, 10)
+  camera.position.set(0, 0, 3)
+  const mesh = new Mesh<BufferGeometry, MeshBasicNodeMaterial>(new PlaneGeometry(2, 2))
+  scene.add(mesh)
+  let materials = new Map<string, MeshBasicNodeMaterial>()
+  let atlasSize = { width: 0, height: 0 }
+
+  const setGeometry = (geometry: PrimitiveGeometry | null) => {
+    mesh.geometry.dispose()
+    mesh.geometry = geometry
+      ? createPrimitiveGeometry(geometry.shape, geometry.params)
+      : new PlaneGeometry(2, 2)
+    const tilted = geometry !== null && !UNTILTED_SHAPES.has(geometry.shape)
+    mesh.rotation.set(tilted ? 0.5 : 0, tilted ? -0.6 : 0, 0)
+    camera.zoom = geometry ? 0.9 : 1
+    camera.updateProjectionMatrix()
+  }
+
+  const setNodes = (nodes: Map<string, Node>) => {
+    materials.forEach((material) => material.dispose())
+    materials = new Map(
+      [...nodes].map(([id, colorNode]) => {
+        const material = new MeshBasicNodeMaterial()
+        material.colorNode = colorNode
+        return [id, material]
+      }),
+    )
+  }
+
+  const render = (canvases: Map<string, HTMLCanvasElement>) => {
+    const entries = [...canvases].filter(([id]) => materials.has(id))
+    if (entries.length === 0) return
+    const columns = Math.min(entries.length, ATLAS_COLUMNS)
+    const width = columns * NODE_PREVIEW_SIZE
+    const height = Math.ceil(entries.length / ATLAS_COLUMNS) * NODE_PREVIEW_SIZE
+    if (width !== atlasSize.width || height !== atlasSize.height) {
+      renderer.setSize(width, height, false)
+      atlasSize = { width, height }
+    }
+    renderer.setScissor(0, 0, width, height)
+    renderer.clear()
+    const tiles = entries.map(([id, canvas], index) => {
+      const x = (index % ATLAS_COLUMNS) * NODE_PREVIEW_SIZE
+      const y = Math.floor(index / ATLAS_COLUMNS) * NODE_PREVIEW_SIZE
+      renderer.setViewport(x, y, NODE_PREVIEW_SIZE, NODE_PREVIEW_SIZE)
+      renderer.setScissor(x, y, NODE_PREVIEW_SIZE, NODE_PREVIEW_SIZE)
+      mesh.material = materials.get(id) as MeshBasicNodeMaterial
+      renderer.render(scene, camera)
+      return { canvas, x, y }
+    })
+    tiles.forEach(({ canvas, x, y }) => {
+      const context = canvas.getContext('2d')
+      context?.clearRect(0, 0, canvas.width, canvas.height)
+      context?.drawImage(
+        renderer.domElement,
+        x,
+        y,
+        NODE_PREVIEW_SIZE,
+        NODE_PREVIEW_SIZE,
+        0,
+        0,
+        canvas.width,
+        canvas.height,
+      )
+    })
+  }
+
+  const dispose = () => {
+    materials.forEach((material) => material.dispose())
+    materials.clear()
+    mesh.geometry.dispose()
+    renderer.dispose()
+  }
+
+  return { setGeometry, setNodes, render, dispose }
+}
@@ -0,0 +1,1021 @@
+import { DEFAULT_COLOR } from './graph'
+
+export type PaletteItem = {
+  type: string
+  label: string
+  inputs: string[]
+  outputs: string[]
+  defaultValue?: string
+}
+
+export const BASE_PALETTE: PaletteItem[] = [
+  {
+    type: 'number',
+    label: 'Number',
+    inputs: [],
+    outputs: ['value'],
+    defaultValue: '1',
+  },
+  {
+    type: 'time',
+    label: 'Time',
+    inputs: [],
+    outputs: ['value'],
+  },
+  {
+    type: 'color',
+    label: 'Color',
+    inputs: [],
+    outputs: ['color'],
+    defaultValue: DEFAULT_COLOR,
+  },
+  {
+    type: 'texture',
+    label: 'Texture',
+    inputs: [],
+    outputs: ['color'],
+    defaultValue: '',
+  },
+  {
+    type: 'luminance',
+    label: 'Luminance',
+    inputs: ['value'],
+    outputs: ['value'],
+  },
+  {
+    type: 'grayscale',
+    label: 'Grayscale',
+    inputs: ['value'],
+    outputs: ['value'],
+  },
+  {
+    type: 'saturation',
+    label: 'Saturation',
+    inputs: ['value', 'amount'],
+    outputs: ['value'],
+  },
+  {
+    type: 'posterize',
+    label: 'Posterize',
+    inputs: ['value', 'steps'],
+    outputs: ['value'],
+  },
+  {
+    type: 'sRGBTransferEOTF',
+    label: 'sRGB EOTF',
+    inputs: ['value'],
+    outputs: ['value'],
+  },
+  {
+    type: 'sRGBTransferOETF',
+    label: 'sRGB OETF',
+    inputs: ['value'],
+    outputs: ['value'],
+  },
+  {
+    type: 'linearToneMapping',
+    label: 'Linear Tone Mapping',
+    inputs: ['value'],
+    outputs: ['value'],
+  },
+  {
+    type: 'reinhardToneMapping',
+    label: 'Reinhard Tone Mapping',
+    inputs: ['value'],
+    outputs: ['value'],
+  },
+  {
+    type: 'cineonToneMapping',
+    label: 'Cineon Tone Mapping',
+    inputs: ['value'],
+    outputs: ['value'],
+  },
+  {
+    type: 'acesFilmicToneMapping',
+    label: 'ACES Filmic Tone Mapping',
+    inputs: ['value'],
+    outputs: ['value'],
+  },
+  {
+    type: 'agxToneMapping',
+    label: 'AgX Tone Mapping',
+    inputs: ['value'],
+    outputs: ['value'],
+  },
+  {
+    type: 'neutralToneMapping',
+    label: 'Neutral Tone Mapping',
+    inputs: ['value'],
+    outputs: ['value'],
+  },
+  {
+    type: 'position',
+    label: 'Position',
+    inputs: [],
+    outputs: ['value'],
+  },
+  {
+    type: 'normal',
+    label: 'Normal',
+    inputs: [],
+    outputs: ['value'],
+  },
+  {
+    type: 'tangent',
+    label: 'Tangent',
+    inputs: [],
+    outputs: ['value'],
+  },
+  {
+    type: 'bitangent',
+    label: 'Bitangent',
+    inputs: [],
+    outputs: ['value'],
+  },
+  {
+    type: 'uv',
+    label: 'UV',
+    inputs: [],
+    outputs: ['value'],
+  },
+  {
+    type: 'uv2',
+    label: 'UV2',
+    inputs: [],
+    outputs: ['value'],
+  },
+  {
+    type: 'attribute',
+    label: 'Attribute',
+    inputs: [],
+    outputs: ['value'],
+    defaultValue: 'position',
+  },
+  {
+    type: 'gltf',
+    label: 'GLTF Geometry',
+    inputs: [],
+    outputs: ['geometry'],
+    defaultValue: '',
+  },
+  {
+    type: 'meshFile',
+    label: 'Mesh File',
+    inputs: [],
+    outputs: ['geometry', 'color', 'uv'],
+    defaultValue: '',
+  },
+  {
+    type: 'gltfMaterial',
+    label: 'GLTF Material',
+    inputs: [],
+    outputs: [
+      'baseColor',
+      'baseColorTexture',
+      'roughness',
+      'metalness',
+      'roughnessMap',
+      'metalnessMap',
+      'emissive',
+      'emissiveMap',
+      'emissiveIntensity',
+      'normalMap',
+      'normalScale',
+      'aoMap',
+      'aoMapIntensity',
+      'envMap',
+      'envMapIntensity',
+      'opacity',
+      'alphaTest',
+      'alphaHash',
+    ],
+    defaultValue: '',
+  },
+  {
+    type: 'gltfTexture',
+    label: 'GLTF Texture',
+    inputs: [],
+    outputs: ['value'],
+    defaultValue: '',
+  },
+  { type: 'add', label: 'Add', inputs: ['a', 'b'], outputs: ['value'] },
+  {
+    type: 'multiply',
+    label: 'Multiply',
+    inputs: ['a', 'b'],
+    outputs: ['value'],
+  },
+  {
+    type: 'normalize',
+    label: 'Normalize',
+    inputs: ['value'],
+    outputs: ['value'],
+  },
+  {
+    type: 'dot',
+    label: 'Dot',
+    inputs: ['a', 'b'],
+    outputs: ['value'],
+  },
+  {
+    type: 'cross',
+    label: 'Cross',
+    inputs: ['a', 'b'],
+    outputs: ['value'],
+  },
+  {
+    type: 'checker',
+    label: 'Checker',
+    inputs: ['coord'],
+    outputs: ['value'],
+  },
+  {
+    type: 'distance',
+    label: 'Distance',
+    inputs: ['a', 'b'],
+    outputs: ['value'],
+  },
+  {
+    type: 'dFdx',
+    label: 'dFdx',
+    inputs: ['value'],
+    outputs: ['value'],
+  },
+  {
+    type: 'dFdy',
+    label: 'dFdy',
+    inputs: ['value'],
+    outputs: ['value'],
+  },
+  {
+    type: 'fwidth',
+    label: 'Fwidth',
+    inputs: ['value'],
+    outputs: ['value'],
+  },
+  {
+    type: 'triNoise3D',
+    label: 'TriNoise3D',
+    inputs: ['position', 'speed', 'time'],
+    outputs: ['value'],
+  },
+  {
+    type: 'mxNoiseFloat',
+    label: 'MX Noise Float',
+    inputs: ['texcoord', 'amplitude', 'pivot'],
+    outputs: ['value'],
+  },
+  {
+    type: 'mxNoiseVec3',
+    label: 'MX Noise Vec3',
+    inputs: ['texcoord', 'amplitude', 'pivot'],
+    outputs: ['value'],
+  },
+  {
+    type: 'mxNoiseVec4',
+    label: 'MX Noise Vec4',
+    inputs: ['texcoord', 'amplitude', 'pivot'],
+    outputs: ['value'],
+  },
+  {
+    type: 'mxFractalNoiseFloat',
+    label: 'MX Fractal Noise Float',
+    inputs: ['position', 'octaves', 'lacunarity', 'diminish', 'amplitude'],
+    outputs: ['value'],
+  },
+  {
+    type: 'mxFractalNoiseVec2',
+    label: 'MX Fractal Noise Vec2',
+    inputs: ['position', 'octaves', 'lacunarity', 'diminish', 'amplitude'],
+    outputs: ['value'],
+  },
+  {
+    type: 'mxFractalNoiseVec3',
+    label: 'MX Fractal Noise Vec3',
+    inputs: ['position', 'octaves', 'lacunarity', 'diminish', 'amplitude'],
+    outputs: ['value'],
+  },
+  {
+    type: 'mxFractalNoiseVec4',
+    label: 'MX Fractal Noise Vec4',
+    inputs: ['position', 'octaves', 'lacunarity', 'diminish', 'amplitude'],
+    outputs: ['value'],
+  },
+  {
+    type: 'mxWorleyNoiseFloat',
+    label: 'MX Worley Noise Float',
+    inputs: ['texcoord', 'jitter'],
+    outputs: ['value'],
+  },
+  {
+    type: 'mxWorleyNoiseVec2',
+    label: 'MX Worley Noise Vec2',
+    inputs: ['texcoord', 'jitter'],
+    outputs: ['value'],
+  },
+  {
+    type: 'mxWorleyNoiseVec3',
+    label: 'MX Worley Noise Vec3',
+    inputs: ['texcoord', 'jitter'],
+    outputs: ['value'],
+  },
+  {
+    type: 'rotateUV',
+    label: 'Rotate UV',
+    inputs: ['uv', 'rotation', 'center'],
+    outputs: ['value'],
+  },
+  {
+    type: 'scaleUV',
+    label: 'Scale UV',
+    inputs: ['uv', 'scale'],
+    outputs: ['value'],
+  },
+  {
+    type: 'offsetUV',
+    label: 'Offset UV',
+    inputs: ['uv', 'offset'],
+    outputs: ['value'],
+  },
+  {
+    type: 'spherizeUV',
+    label: 'Spherize UV',
+    inputs: ['uv', 'strength', 'center'],
+    outputs: ['value'],
+  },
+  {
+    type: 'spritesheetUV',
+    label: 'Spritesheet UV',
+    inputs: ['size', 'uv', 'time'],
+    outputs: ['value'],
+  },
+  {
+    type: 'reflect',
+    label: 'Reflect',
+    inputs: ['incident', 'normal'],
+    outputs: ['value'],
+  },
+  {
+    type: 'refract',
+    label: 'Refract',
+    inputs: ['incident', 'normal', 'eta'],
+    outputs: ['value'],
+  },
+  {
+    type: 'faceforward',
+    label: 'FaceForward',
+    inputs: ['n', 'i', 'nref'],
+    outputs: ['value'],
+  },
+  {
+    type: 'length',
+    label: 'Length',
+    inputs: ['value'],
+    outputs: ['value'],
+  },
+  {
+    type: 'smoothstep',
+    label: 'Smoothstep',
+    inputs: ['edge0', 'edge1', 'x'],
+    outputs: ['value'],
+  },
+  {
+    type: 'pow',
+    label: 'Pow',
+    inputs: ['base', 'exp'],
+    outputs: ['value'],
+  },
+  {
+    type: 'sine',
+    label: 'Sine',
+    inputs: ['value'],
+    outputs: ['value'],
+  },
+  {
+    type: 'vec3',
+    label: 'Vec3',
+    inputs: ['x', 'y', 'z'],
+    outputs: ['value'],
+  },
+  {
+    type: 'mat3',
+    label: 'Mat3',
+    inputs: ['c0', 'c1', 'c2'],
+    outputs: ['value'],
+  },
+  {
+    type: 'scale',
+    label: 'Scale',
+    inputs: ['value', 'scale'],
+    outputs: ['value'],
+  },
+  {
+    type: 'rotate',
+    label: 'Rotate',
+    inputs: ['value', 'rotation'],
+    outputs: ['value'],
+  },
+  {
+    type: 'splitVec3',
+    label: 'Split Vec3',
+    inputs: ['value'],
+    outputs: ['x', 'y', 'z'],
+  },
+  {
+    type: 'vec2',
+    label: 'Vec2',
+    inputs: ['x', 'y'],
+    outputs: ['value'],
+  },
+  {
+    type: 'mat2',
+    label: 'Mat2',
+    inputs: ['c0', 'c1'],
+    outputs: ['value'],
+  },
+  {
+    type: 'splitVec2',
+    label: 'Split Vec2',
+    inputs: ['value'],
+    outputs: ['x', 'y'],
+  },
+  {
+    type: 'vec4',
+    label: 'Vec4',
+    inputs: ['x', 'y', 'z', 'w'],
+    outputs: ['value'],
+  },
+  {
+    type: 'mat4',
+    label: 'Mat4',
+    inputs: ['c0', 'c1', 'c2', 'c3'],
+    outputs: ['value'],
+  },
+  {
+    type: 'modelMatrix',
+    label: 'Model Matrix',
+    inputs: [],
+    outputs: ['value'],
+  },
+  {
+    type: 'viewMatrix',
+    label: 'View Matrix',
+    inputs: [],
+    outputs: ['value'],
+  },
+  {
+    type: 'projectionMatrix',
+    label: 'Projection Matrix',
+    inputs: [],
+    outputs: ['value'],
+  },
+  {
+    type: 'modelViewMatrix',
+    label: 'ModelView Matrix',
+    inputs: [],
+    outputs: ['value'],
+  },
+  {
+    type: 'normalMatrix',
+    label: 'Normal Matrix',
+    inputs: [],
+    outputs: ['value'],
+  },
+  {
+    type: 'splitVec4',
+    label: 'Split Vec4',
+    inputs: ['value'],
+    outputs: ['x', 'y', 'z', 'w'],
+  },
+  {
+    type: 'transpose',
+    label: 'Transpose',
+    inputs: ['value'],
+    outputs: ['value'],
+  },
+  {
+    type: 'inverse',
+    label: 'Inverse',
+    inputs: ['value'],
+    outputs: ['value'],
+  },
+  {
+    type: 'cosine',
+    label: 'Cosine',
+    inputs: ['value'],
+    outputs: ['value'],
+  },
+  {
+    type: 'tan',
+    label: 'Tan',
+    inputs: ['value'],
+    outputs: ['value'],
+  },
+  {
+    type: 'asin',
+    label: 'Asin',
+    inputs: ['value'],
+    outputs: ['value'],
+  },
+  {
+    type: 'acos',
+    label: 'Acos',
+    inputs: ['value'],
+    outputs: ['value'],
+  },
+  {
+    type: 'atan',
+    label: 'Atan',
+    inputs: ['value'],
+    outputs: ['value'],
+  },
+  {
+    type: 'atan2',
+    label: 'Atan2',
+    inputs: ['y', 'x'],
+    outputs: ['value'],
+  },
+  {
+    type: 'radians',
+    label: 'Radians',
+    inputs: ['value'],
+    outputs: ['value'],
+  },
+  {
+    type: 'degrees',
+    label: 'Degrees',
+    inputs: ['value'],
+    outputs: ['value'],
+  },
+  {
+    type: 'abs',
+    label: 'Abs',
+    inputs: ['value'],
+    outputs: ['value'],
+  },
+  {
+    type: 'clamp',
+    label: 'Clamp',
+    inputs: ['value', 'min', 'max'],
+    outputs: ['value'],
+  },
+  {
+    type: 'min',
+    label: 'Min',
+    inputs: ['a', 'b'],
+    outputs: ['value'],
+  },
+  {
+    type: 'max',
+    label: 'Max',
+    inputs: ['a', 'b'],
+    outputs: ['value'],
+  },
+  {
+    type: 'step',
+    label: 'Step',
+    inputs: ['edge', 'x'],
+    outputs: ['value'],
+  },
+  {
+    type: 'fract',
+    label: 'Fract',
+    inputs: ['value'],
+    outputs: ['value'],
+  },
+  {
+    type: 'floor',
+    label: 'Floor',
+    inputs: ['value'],
+    outputs: ['value'],
+  },
+  {
+    type: 'ceil',
+    label: 'Ceil',
+    inputs: ['value'],
+    outputs: ['value'],
+  },
+  {
+    type: 'round',
+    label: 'Round',
+    inputs: ['value'],
+    outputs: ['value'],
+  },
+  {
+    type: 'trunc',
+    label: 'Trunc',
+    inputs: ['value'],
+    outputs: ['value'],
+  },
+  {
+    type: 'sqrt',
+    label: 'Sqrt',
+    inputs: ['value'],
+    outputs: ['value'],
+  },
+  {
+    type: 'mod',
+    label: 'Mod',
+    inputs: ['a', 'b'],
+    outputs: ['value'],
+  },
+  {
+    type: 'exp',
+    label: 'Exp',
+    inputs: ['value'],
+    outputs: ['value'],
+  },
+  {
+    type: 'exp2',
+    label: 'Exp2',
+    inputs: ['value'],
+    outputs: ['value'],
+  },
+  {
+    type: 'log',
+    label: 'Log',
+    inputs: ['value'],
+    outputs: ['value'],
+  },
+  {
+    type: 'log2',
+    label: 'Log2',
+    inputs: ['value'],
+    outputs: ['value'],
+  },
+  {
+    type: 'pow2',
+    label: 'Pow2',
+    inputs: ['value'],
+    outputs: ['value'],
+  },
+  {
+    type: 'pow3',
+    label: 'Pow3',
+    inputs: ['value'],
+    outputs: ['value'],
+  },
+  {
+    type: 'pow4',
+    label: 'Pow4',
+    inputs: ['value'],
+    outputs: ['value'],
+  },
+  {
+    type: 'sign',
+    label: 'Sign',
+    inputs: ['value'],
+    outputs: ['value'],
+  },
+  {
+    type: 'saturate',
+    label: 'Saturate',
+    inputs: ['value'],
+    outputs: ['value'],
+  },
+  {
+    type: 'remap',
+    label: 'Remap',
+    inputs: ['value', 'inLow', 'inHigh', 'outLow', 'outHigh'],
+    outputs: ['value'],
+  },
+  {
+    type: 'remapClamp',
+    label: 'Remap Clamp',
+    inputs: ['value', 'inLow', 'inHigh', 'outLow', 'outHigh'],
+    outputs: ['value'],
+  },
+  {
+    type: 'oneMinus',
+    label: 'OneMinus',
+    inputs: ['value'],
+    outputs: ['value'],
+  },
+  {
+    type: 'negate',
+    label: 'Negate',
+    inputs: ['value'],
+    outputs: ['value'],
+  },
+  {
+    type: 'mix',
+    label: 'Mix',
+    inputs: ['a', 'b', 't'],
+    outputs: ['value'],
+  },
+  {
+    type: 'ifElse',
+    label: 'If Else',
+    inputs: ['cond', 'a', 'b', 'threshold'],
+    outputs: ['value'],
+  },
+  {
+    type: 'smoothstepElement',
+    label: 'Smoothstep Element',
+    inputs: ['x', 'low', 'high'],
+    outputs: ['value'],
+  },
+  {
+    type: 'stepElement',
+    label: 'Step Element',
+    inputs: ['x', 'edge'],
+    outputs: ['value'],
+  },
+  {
+    type: 'lessThan',
+    label: 'Less Than',
+    inputs: ['a', 'b'],
+    outputs: ['value'],
+  },
+  {
+    type: 'lessThanEqual',
+    label: 'Less Than Equal',
+    inputs: ['a', 'b'],
+    outputs: ['value'],
+  },
+  {
+    type: 'greaterThan',
+    label: 'Greater Than',
+    inputs: ['a', 'b'],
+    outputs: ['value'],
+  },
+  {
+    type: 'greaterThanEqual',
+    label: 'Greater Than Equal',
+    inputs: ['a', 'b'],
+    outputs: ['value'],
+  },
+  {
+    type: 'equal',
+    label: 'Equal',
+    inputs: ['a', 'b'],
+    outputs: ['value'],
+  },
+  {
+    type: 'notEqual',
+    label: 'Not Equal',
+    inputs: ['a', 'b'],
+    outputs: ['value'],
+  },
+  {
+    type: 'and',
+    label: 'And',
+    inputs: ['a', 'b'],
+    outputs: ['value'],
+  },
+  {
+    type: 'or',
+    label: 'Or',
+    inputs: ['a', 'b'],
+    outputs: ['value'],
+  },
+  {
+    type: 'not',
+    label: 'Not',
+    inputs: ['value'],
+    outputs: ['value'],
+  },
+  {
+    type: 'geometryPrimitive',
+    label: 'PrimitiveGeometry',
+    inputs: [],
+    outputs: ['geometry'],
+    defaultValue: 'box',
+  },
+  {
+    type: 'geometryOutput',
+    label: 'Geometry Output',
+    inputs: ['geometry'],
+    outputs: [],
+  },
+  {
+    type: 'vertexOutput',
+    label: 'Vertex Output',
+    inputs: ['position', 'normal', 'color'],
+    outputs: [],
+  },
+  {
+    type: 'varyingSet',
+    label: 'Varying Set',
+    inputs: ['value'],
+    outputs: [],
+    defaultValue: 'vData',
+  },
+  {
+    type: 'varyingGet',
+    label: 'Varying Get',
+    inputs: [],
+    outputs: ['value'],
+    defaultValue: 'vData',
+  },
+  {
+    type: 'material',
+    label: 'StandardMaterial',
+    inputs: [
+      'baseColor',
+      'baseColorTexture',
+      'roughness',
+      'roughnessMap',
+      'metalness',
+      'metalnessMap',
+      'emissive',
+      'emissiveMap',
+      'emissiveIntensity',
+      'normalMap',
+      'normalScale',
+      'aoMap',
+      'aoMapIntensity',
+      'envMap',
+      'envMapIntensity',
+      'opacity',
+      'alphaTest',
+      'alphaHash',
+    ],
+    outputs: ['baseColor', 'roughness', 'metalness'],
+  },
+  {
+    type: 'physicalMaterial',
+    label: 'PhysicalMaterial',
+    inputs: [
+      'baseColor',
+      'baseColorTexture',
+      'roughness',
+      'roughnessMap',
+      'metalness',
+      'metalnessMap',
+      'emissive',
+      'emissiveMap',
+      'emissiveIntensity',
+      'normalMap',
+      'normalScale',
+      'clearcoat',
+      'clearcoatRoughness',
+      'clearcoatNormal',
+      'sheen',
+      'sheenColor',
+      'sheenRoughness',
+      'iridescence',
+      'iridescenceIOR',
+      'iridescenceThickness',
+      'transmission',
+      'thickness',
+      'attenuationColor',
+      'attenuationDistance',
+      'ior',
+      'dispersion',
+      'specularIntensity',
+      'specularColor',
+      'anisotropy',
+      'aoMap',
+      'aoMapIntensity',
+      'envMap',
+      'envMapIntensity',
+      'opacity',
+      'alphaTest',
+      'alphaHash',
+    ],
+    outputs: ['baseColor', 'roughness', 'metalness'],
+  },
+  {
+    type: 'basicMaterial',
+    label: 'BasicMaterial',
+    inputs: [
+      'baseColor',
+      'baseColorTexture',
+      'opacity',
+      'alphaTest',
+      'alphaHash',
+      'map',
+      'alphaMap',
+      'aoMap',
+      'envMap',
+      'envMapIntensity',
+      'reflectivity',
+    ],
+    outputs: ['baseColor'],
+  },
+  {
+    type: 'toonMaterial',
+    label: 'ToonMaterial',
+    inputs: [
+      'baseColor',
+      'baseColorTexture',
+      'gradientMap',
+      'emissive',
+      'emissiveMap',
+      'emissiveIntensity',
+      'normalMap',
+      'normalScale',
+      'aoMap',
+      'aoMapIntensity',
+      'opacity',
+      'alphaTest',
+      'alphaHash',
+    ],
+    outputs: ['baseColor'],
+  },
+  {
+    type: 'lambertMaterial',
+    label: 'LambertMaterial',
+    inputs: [
+      'baseColor',
+      'baseColorTexture',
+      'emissive',
+      'emissiveMap',
+      'emissiveIntensity',
+      'normalMap',
+      'normalScale',
+      'aoMap',
+      'aoMapIntensity',
+      'envMap',
+      'reflectivity',
+      'opacity',
+      'alphaTest',
+      'alphaHash',
+    ],
+    outputs: ['baseColor'],
+  },
+  {
+    type: 'phongMaterial',
+    label: 'PhongMaterial',
+    inputs: [
+      'baseColor',
+      'baseColorTexture',
+      'shininess',
+      'specular',
+      'specularMap',
+      'emissive',
+      'emissiveMap',
+      'emissiveIntensity',
+      'normalMap',
+      'normalScale',
+      'aoMap',
+      'aoMapIntensity',
+      'envMap',
+      'reflectivity',
+      'opacity',
+      'alphaTest',
+      'alphaHash',
+    ],
+    outputs: ['baseColor'],
+  },
+  {
+    type: 'pointsMaterial',
+    label: 'PointsMaterial',
+    inputs: [
+      'baseColor',
+      'baseColorTexture',
+      'size',
+      'sizeAttenuation',
+      'opacity',
+      'alphaTest',
+    ],
+    outputs: ['baseColor'],
+  },
+  {
+    type: 'lineMaterial',
+    label: 'LineMaterial',
+    inputs: [
+      'baseColor',
+      'baseColorTexture',
+      'opacity',
+      'alphaTest',
+    ],
+    outputs: ['baseColor'],
+  },
+  {
+    type: 'lineDashedMaterial',
+    label: 'LineDashedMaterial',
+    inputs: [
+      'baseColor',
+      'baseColorTexture',
+      'dashSize',
+      'gapSize',
+      'dashScale',
+      'dashOffset',
+      'opacity',
+      'alphaTest',
+    ],
+    outputs: ['baseColor'],
+  },
+  {
+    type: 'spriteMaterial',
+    label: 'SpriteMaterial',
+    inputs: [
+      'baseColor',
+      'baseColorTexture',
+      'rotation',
+      'scale',
+      'sizeAttenuation',
+      'opacity',
+      'alphaTest',
+    ],
+    outputs: ['baseColor'],
+  },
+  {
+    type: 'output',
+    label: 'Fragment Output',
+    inputs: ['baseColor', 'roughness', 'metalness'],
+    outputs: [],
+  },
+]
@@ -0,0 +1,210 @@
+export type PreviewLightType = 'ambient' | 'hemisphere' | 'directional' | 'point'
+
+export type PreviewLight = {
+  type: PreviewLightType
+  name?: string
+  color: string
+  groundColor?: string
+  intensity: number
+  position?: [number, number, number]
+}
+
+export type LightRig = 'studio' | 'outdoor' | 'threePoint' | 'none' | 'custom'
+
+export type PreviewToneMapping =
+  | 'none'
+  | 'linear'
+  | 'reinhard'
+  | 'cineon'
+  | 'acesFilmic'
+  | 'agx'
+  | 'neutral'
+
+export type PreviewBackground = 'color' | 'gradient' | 'environment'
+
+export type PreviewEnvironment = {
+  rig: LightRig
+  // Only used by the custom rig; presets keep their own lights.
+  lights: PreviewLight[]
+  background: PreviewBackground
+  backgroundColor: string
+  gradientColor: string
+  exposure: number
+  toneMapping: PreviewToneMapping
+}
+
+export const LIGHT_RIGS: Record<Exclude<LightRig, 'custom'>, PreviewLight[]> = {
+  studio: [
+    { type: 'ambient', name: 'ambient', color: '#ffffff', intensity: 0.6 },
+    {
+      type: 'directional',
+      name: 'keyLight',
+      color: '#ffffff',
+      intensity: 1.2,
+      position: [4, 6, 2],
+    },
+  ],
+  outdoor: [
+    {
+      type: 'hemisphere',
+      name: 'skyLight',
+      color: '#bcd7ff',
+      groundColor: '#4a3b2a',
+      intensity: 1,
+    },
+    {
+      type: 'directional',
+      name: 'sunLight',
+      color: '#fff1d6',
+      intensity: 2.2,
+      position: [6, 10, 4],
+    },
+  ],
+  threePoint: [
+    { type: 'ambient', name: 'ambient', color: '#ffffff', intensity: 0.15 },
+    {
+      type: 'directional',
+      name: 'keyLight',
+      color: '#ffffff',
+      intensity: 1.6,
+      position: [4, 5, 3],
+    },
+    {
+      type: 'directional',
+      name: 'fillLight',
+      color: '#dfe8ff',
+      intensity: 0.6,
+      position: [-5, 2, 3],
+    },
+    {
+      type: 'directional',
+      name: 'rimLight',
+      color: '#ffffff',
+      intensity: 1.2,
+      position: [0, 4, -6],
+    },
+  ],
+  none: [],
+}
+
+export const LIGHT_RIG_LABELS: Record<LightRig, string> = {
+  studio: 'Studio',
+  outdoor: 'Outdoor',
+  threePoint: 'Three-point',
+  none: 'None',
+  custom: 'Custom',
+}
+
+export const LIGHT_CLASSES: Record<PreviewLightType, string> = {
+  ambient: 'AmbientLight',
+  hemisphere: 'HemisphereLight',
+  directional: 'DirectionalLight',
+  point: 'PointLight',
+}
+
+export const TONE_MAPPING_CONSTANTS: Record<PreviewToneMapping, string> = {
+  none: 'NoToneMapping',
+  linear: 'LinearToneMapping',
+  reinhard: 'ReinhardToneMapping',
+  cineon: 'CineonToneMapping',
+  acesFilmic: 'ACESFilmicToneMapping',
+  agx: 'AgXToneMapping',
+  neutral: 'NeutralToneMapping',
+}
+
+export const TONE_MAPPING_LABELS: Record<PreviewToneMapping, string> = {
+  none: 'None',
+  linear: 'Linear',
+  reinhard: 'Reinhard',
+  cineon: 'Cineon',
+  acesFilmic: 'ACES Filmic',
+  agx: 'AgX',
+  neutral: 'Neutral',
+}
+
+export const DEFAULT_PREVIEW_ENVIRONMENT: PreviewEnvironment = {
+  rig: 'studio',
+  lights: [],
+  background: 'color',
+  backgroundColor: '#0e1013',
+  gradientColor: '#2a3140',
+  exposure: 1,
+  toneMapping: 'none',
+}
+
+export const getPreviewLights = (environment: PreviewEnvironment) =>
+  environment.rig === 'custom' ? environment.lights : LIGHT_RIGS[environment.rig]
+
+export const createPreviewLight = (type: PreviewLightType): PreviewLight => ({
+  type,
+  color: '#ffffff',
+  groundColor: type === 'hemisphere' ? '#444444' : undefined,
+  intensity: type === 'ambient' || type === 'hemisphere' ? 0.5 : 1,
+  position: type === 'directional' || type === 'point' ? [2, 3, 2] : undefined,
+})
+
+// Generated code declares one const per light, so names must stay valid identifiers.
+export const getPreviewLightNames = (lights: PreviewLight[]) =>
+  lights.map((light, index) => light.name ?? `light${index + 1}`)
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/
+
+const parseColor = (value: unknown, fallback: string) =>
+  typeof value === 'string' && HEX_COLOR.test(value) ? value : fallback
+
+const parseNumber = (value: unknown, fallback: number) =>
+  typeof value === 'number' && Number.isFinite(value) ? value : fallback
+
+const parseLight = (value: unknown): PreviewLight | null => {
+  if (!value || typeof value !== 'object') return null
+  const entry = value as Record<string, unknown>
+  if (typeof entry.type !== 'string' || !(entry.type in LIGHT_CLASSES)) return null
+  const light = createPreviewLight(entry.type as PreviewLightType)
+  const position = Array.isArray(entry.position) ? entry.position : []
+  return {
+    ...light,
+    name: typeof entry.name === 'string' && IDENTIFIER.test(entry.name) ? entry.name : undefined,
+    color: parseColor(entry.color, light.color),
+    groundColor: light.groundColor ? parseColor(entry.groundColor, light.groundColor) : undefined,
+    intensity: parseNumber(entry.intensity, light.intensity),
+    position: light.position
+      ? [
+          parseNumber(position[0], light.position[0]),
+          parseNumber(position[1], light.position[1]),
+          parseNumber(position[2], light.position[2]),
+        ]
+      : undefined,
+  }
+}
+
+export const parsePreviewEnvironment = (raw: string | null): PreviewEnvironment => {
+  if (!raw) return DEFAULT_PREVIEW_ENVIRONMENT
+  let value: Record<string, unknown>
+  try {
+    value = JSON.parse(raw) as Record<string, unknown>
+  } catch {
+    return DEFAULT_PREVIEW_ENVIRONMENT
+  }
+  if (!value || typeof value !== 'object') return DEFAULT_PREVIEW_ENVIRONMENT
+  const defaults = DEFAULT_PREVIEW_ENVIRONMENT
+  const pick = <T extends string>(entry: unknown, options: Record<T, unknown>, fallback: T) =>
+    typeof entry === 'string' && entry in options ? (entry as T) : fallback
+  return {
+    rig: pick(value.rig, LIGHT_RIG_LABELS, defaults.rig),
+    lights: Array.isArray(value.lights)
+      ? value.lights.map(parseLight).filter((light): light is PreviewLight => light !== null)
+      : [],
+    background: pick(
+      value.background,
+      { color: true, gradient: true, environment: true },
+      defaults.background,
+    ),
+    backgroundColor: parseColor(value.backgroundColor, defaults.backgroundColor),
+    gradientColor: parseColor(value.gradientColor, defaults.gradientColor),
+    exposure: Math.max(0, parseNumber(value.exposure, defaults.exposure)),
+    toneMapping: pick(value.toneMapping, TONE_MAPPING_CONSTANTS, defaults.toneMapping),
+  }
+}
+
+export const formatHexColor = (value: string) => `0x${value.slice(1).toLowerCase()}`
@@ -0,0 +1,71 @@
+import type { BufferGeometry, Material, SpriteMaterial } from 'three'
+import {
+  InstancedBufferAttribute,
+  LineSegments,
+  Mesh,
+  PlaneGeometry,
+  Sprite,
+  WireframeGeometry,
+} from 'three/webgpu'
+import { POINT_POSITION_ATTRIBUTE } from './graph'
+import type { MaterialKind } from './graphIR'
+
+export type PreviewPrimitive = 'mesh' | 'points' | 'line' | 'sprite'
+
+export type PreviewObject = Mesh | LineSegments | Sprite
+
+const PREVIEW_PRIMITIVES: Partial<Record<MaterialKind, PreviewPrimitive>> = {
+  points: 'points',
+  line: 'line',
+  lineDashed: 'line',
+  sprite: 'sprite',
+}
+
+export const getPreviewPrimitive = (kind: MaterialKind): PreviewPrimitive =>
+  PREVIEW_PRIMITIVES[kind] ?? 'mesh'
+
+// WebGPU only rasterizes 1px point primitives, so points draw one instanced quad per vertex.
+const createPointSprites = (geometry: BufferGeometry, material: Material) => {
+  const position = geometry.getAttribute('position')
+  const positions = new Float32Array(position.count * 3)
+  for (let index = 0; index < position.count; index += 1) {
+    positions[index * 3] = position.getX(index)
+    positions[index * 3 + 1] = position.getY(index)
+    positions[index * 3 + 2] = position.getZ(index)
+  }
+  const quad = new PlaneGeometry(1, 1)
+  quad.setAttribute(POINT_POSITION_ATTRIBUTE, new InstancedBufferAttribute(positions, 3))
+  const sprite = new Sprite(material as SpriteMaterial)
+  sprite.geometry = quad
+  sprite.count = position.count
+  return sprite
+}
+
+// Every object except meshes owns a geometry derived from the source, see disposePreviewObject.
+export const createPreviewObject = (
+  geometry: BufferGeometry,
+  material: Material,
+  primitive: PreviewPrimitive,
+): PreviewObject => {
+  switch (primitive) {
+    case 'points':
+      return createPointSprites(geometry, material)
+    case 'line': {
+      const line = new LineSegments(new WireframeGeometry(geometry), material)
+      // Dashed materials measure along the lineDistance attribute.
+      line.computeLineDistances()
+      return line
+    }
+    case 'sprite': {
+      const sprite = new Sprite(material as SpriteMaterial)
+      sprite.geometry = new PlaneGeometry(1, 1)
+      return sprite
+    }
+    default:
+      return new Mesh(geometry, material)
+  }
+}
+
+export const disposePreviewObject = (object: PreviewObject) => {
+  if (!(object as Mesh).isMesh) object.geometry.dispose()
+}
@@ -0,0 +1,122 @@
+import {
+  ACESFilmicToneMapping,
+  AgXToneMapping,
+  CineonToneMapping,
+  Color,
+  EquirectangularReflectionMapping,
+  LinearToneMapping,
+  NeutralToneMapping,
+  NoToneMapping,
+  ReinhardToneMapping,
+  type DataTexture,
+  type Group,
+  type Light,
+  type Scene,
+  type Texture,
+  type ToneMapping,
+} from 'three'
+import { EXRLoader } from 'three/addons/loaders/EXRLoader.js'
+import { HDRLoader } from 'three/addons/loaders/HDRLoader.js'
+import { color, mix, screenUV } from 'three/tsl'
+import {
+  AmbientLight,
+  DirectionalLight,
+  HemisphereLight,
+  PMREMGenerator,
+  PointLight,
+  type WebGPURenderer,
+} from 'three/webgpu'
+import {
+  getPreviewLights,
+  type PreviewEnvironment,
+  type PreviewLight,
+  type PreviewToneMapping,
+} from './previewEnvironment'
+
+const TONE_MAPPINGS: Record<PreviewToneMapping, ToneMapping> = {
+  none: NoToneMapping,
+  linear: LinearToneMapping,
+  reinhard: ReinhardToneMapping,
+  cineon: CineonToneMapping,
+  acesFilmic: ACESFilmicToneMapping,
+  agx: AgXToneMapping,
+  neutral: NeutralToneMapping,
+}
+
+export type EnvironmentMap = {
+  name: string
+  // PMREM-filtered copy for lighting; the source equirect is kept for a sharp background.
+  texture: Texture
+  background: Texture
+  dispose: () => void
+}
+
+const createLight = (light: PreviewLight): Light => {
+  const instance =
+    light.type === 'ambient'
+      ? new AmbientLight(light.color, light.intensity)
+      : light.type === 'hemisphere'
+        ? new HemisphereLight(light.color, light.groundColor, light.intensity)
+        : light.type === 'point'
+          ? new PointLight(light.color, light.intensity)
+          : new DirectionalLight(light.color, light.intensity)
+  if (light.position) instance.position.set(...light.position)
+  return instance
+}
+
+export const isEnvironmentFile = (name: string) => /\.(hdr|exr)$/i.test(name)
+
+export const applyPreviewEnvironment = (
+  renderer: WebGPURenderer,
+  scene: Scene,
+  lights: Group,
+  environment: PreviewEnvironment,
+  environmentMap: EnvironmentMap | null,
+) => {
+  renderer.toneMapping = TONE_MAPPINGS[environment.toneMapping]
+  renderer.toneMappingExposure = environment.exposure
+  lights.children.slice().forEach((light) => {
+    lights.remove(light)
+    ;(light as Light).dispose()
+  })
+  getPreviewLights(environment).forEach((light) => lights.add(createLight(light)))
+  scene.backgroundNode = null
+  scene.background = new Color(environment.backgroundColor)
+  if (environment.background === 'gradient') {
+    scene.backgroundNode = mix(
+      color(environment.backgroundColor),
+      color(environment.gradientColor),
+      screenUV.y,
+    )
+  } else if (environment.background === 'environment' && environmentMap) {
+    scene.background = environmentMap.background
+  }
+  scene.environment = environmentMap?.texture ?? null
+}
+
+export const loadEnvironmentMap = async (
+  file: File,
+  renderer: WebGPURenderer,
+): Promise<EnvironmentMap> => {
+  const url = URL.createObjectURL(file)
+  let source: DataTexture
+  try {
+    const loader = /\.exr$/i.test(file.name) ? new EXRLoader() : new HDRLoader()
+    source = await loader.loadAsync(url)
+  } finally {
+    URL.revokeObjectURL(url)
+  }
+  source.mapping = EquirectangularReflectionMapping
+  const generator = new PMREMGenerator(renderer)
+  const target = generator.fromEquirectangular(source)
+  generator.dispose()
+  return {
+    name: file.name,
+    texture: target.texture,
+    background: source,
+    dispose: () => {
+      target.dispose()
+      source.dispose()
+    },
+  }
+}
@@ -0,0 +1,113 @@
+import type { Camera, Object3D, Scene } from 'three'
+import type { WebGPURenderer } from 'three/webgpu'
+
+export type ShaderOutputKind = 'wgsl-vertex' | 'wgsl-fragment' | 'glsl'
+
+export type ShaderStats = {
+  backend: 'WGSL' | 'GLSL'
+  vertexLines: number
+  fragmentLines: number
+  vertexStatements: number
+  fragmentStatements: number
+}
+
+export const SHADER_OUTPUT_KINDS: ShaderOutputKind[] = ['wgsl-vertex', 'wgsl-fragment', 'glsl']
+
+const WGSL_BINDING =
+  /@binding\(\s*(\d+)\s*\)\s*@group\(\s*(\d+)\s*\)\s*var(?:<([^>]+)>)?\s+(\w+)\s*:\s*([^;]+);/g
+const GLSL_UNIFORM = /uniform\s+(?:(\w+)\s*\{|(?:(?:lowp|mediump|highp)\s+)?(\w+)\s+(\w+)\s*;)/g
+
+const getWgslBindings = (code: string) =>
+  [...code.matchAll(WGSL_BINDING)].map(
+    ([, binding, group, access, name, type]) =>
+      `group ${group} binding ${binding}: ${name} : ${type.trim()}${access ? ` (${access})` : ''}`,
+  )
+
+const getGlslBindings = (code: string) =>
+  [...code.matchAll(GLSL_UNIFORM)].map(([, block, type, name]) =>
+    block ? `uniform block ${block}` : `${type} ${name}`,
+  )
+
+const countLines = (code: string) => code.trim().split('\n').length
+
+// Statements stand in for instruction counts; the driver's real ISA is not observable here.
+const countStatements = (code: string) => code.split(';').length - 1
+
+const formatShader = (title: string, code: string, bindings: string[]) =>
+  [
+    `// ${title}: ${countLines(code)} lines, ~${countStatements(code)} statements`,
+    '// Binding layout:',
+    ...(bindings.length ? bindings.map((line) => `//   ${line}`) : ['//   (none)']),
+    '',
+    code.trim(),
+  ].join('\n')
+
+const isWebGPUBackend = (renderer: WebGPURenderer) =>
+  (renderer.backend as { isWebGPUBackend?: boolean }).isWebGPUBackend === true
+
+const readShaders = async (
+  renderer: WebGPURenderer,
+  scene: Scene,
+  camera: Camera,
+  object: Object3D,
+) => {
+  const shaders = await renderer.debug.getShaderAsync(scene, camera, object)
+  return {
+    vertexShader: shaders.vertexShader ?? '',
+    fragmentShader: shaders.fragmentShader ?? '',
+  }
+}
+
+export const isShaderOutputKind = (value: string): value is ShaderOutputKind =>
+  SHADER_OUTPUT_KINDS.includes(value as ShaderOutputKind)
+
+// Shader text is read back from the node builder, so it matches what the renderer compiled for
+// the object's current material.
+export const getGeneratedShader = async (
+  renderer: WebGPURenderer,
+  scene: Scene,
+  camera: Camera,
+  object: Object3D,
+  kind: ShaderOutputKind,
+) => {
+  const isWebGPU = isWebGPUBackend(renderer)
+  if (kind === 'glsl' && isWebGPU) {
+    return [
+      '// GLSL is only generated when the renderer falls back to WebGL.',
+      '// This session uses the WebGPU backend.',
+    ].join('\n')
+  }
+  if (kind !== 'glsl' && !isWebGPU) {
+    return [
+      '// WGSL is only generated by the WebGPU backend.',
+      '// This session uses the WebGL fallback; see the GLSL output.',
+    ].join('\n')
+  }
+  const { vertexShader, fragmentShader } = await readShaders(renderer, scene, camera, object)
+  if (kind === 'wgsl-vertex') {
+    return formatShader('WGSL vertex', vertexShader, getWgslBindings(vertexShader))
+  }
+  if (kind === 'wgsl-fragment') {
+    return formatShader('WGSL fragment', fragmentShader, getWgslBindings(fragmentShader))
+  }
+  return [
+    formatShader('GLSL vertex', vertexShader, getGlslBindings(vertexShader)),
+    formatShader('GLSL fragment', fragmentShader, getGlslBindings(fragmentShader)),
+  ].join('\n\n')
+}
+
+export const getShaderStats = async (
+  renderer: WebGPURenderer,
+  scene: Scene,
+  camera: Camera,
+  object: Object3D,
+): Promise<ShaderStats> => {
+  const { vertexShader, fragmentShader } = await readShaders(renderer, scene, camera, object)
+  return {
+    backend: isWebGPUBackend(renderer) ? 'WGSL' : 'GLSL',
+    vertexLines: countLines(vertexShader),
+    fragmentLines: countLines(fragmentShader),
+    vertexStatements: countStatements(vertexShader),
+    fragmentStatements: countStatements(fragmentShader),
+  }
+}
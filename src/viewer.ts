@@ -3,21 +3,45 @@ import {
   BoxGeometry,
   Color,
   DirectionalLight,
+  HemisphereLight,
+  PointLight,
   Mesh,
+  LineSegments,
+  Sprite,
+  InstancedBufferAttribute,
+  WireframeGeometry,
   PerspectiveCamera,
   PlaneGeometry,
   Scene,
   SphereGeometry,
   TorusGeometry,
   CylinderGeometry,
+  CapsuleGeometry,
+  ConeGeometry,
+  IcosahedronGeometry,
+  RingGeometry,
+  TorusKnotGeometry,
   WebGPURenderer,
   MeshBasicNodeMaterial,
   MeshStandardNodeMaterial,
   MeshPhysicalNodeMaterial,
+  MeshToonNodeMaterial,
+  MeshLambertNodeMaterial,
+  MeshPhongNodeMaterial,
+  PointsNodeMaterial,
+  LineBasicNodeMaterial,
+  LineDashedNodeMaterial,
+  SpriteNodeMaterial,
 } from 'three/webgpu'
 import {
+  ACESFilmicToneMapping,
+  AgXToneMapping,
+  CineonToneMapping,
   DataTexture,
+  LinearToneMapping,
+  NeutralToneMapping,
   NoToneMapping,
+  ReinhardToneMapping,
   RGBAFormat,
   SRGBColorSpace,
   Texture,
@@ -96,7 +120,7 @@ const textureFromNode = (id: string) => {
           placeholder.colorSpace = SRGBColorSpace
           placeholder.needsUpdate = true
           if (lastCode) {
-            applyCode(lastCode, lastTextures, lastGeometry)
+            applyCode(lastCode, lastTextures, lastGeometry, lastGeometryParams)
           }
         },
         undefined,
@@ -112,7 +136,7 @@ const textureFromNode = (id: string) => {
       placeholder.colorSpace = SRGBColorSpace
       placeholder.needsUpdate = true
       if (lastCode) {
-        applyCode(lastCode, lastTextures, lastGeometry)
+        applyCode(lastCode, lastTextures, lastGeometry, lastGeometryParams)
       }
     },
     undefined,
@@ -126,19 +150,43 @@ const runtime = {
   BoxGeometry,
   Color,
   DirectionalLight,
+  HemisphereLight,
+  PointLight,
   Mesh,
+  LineSegments,
+  Sprite,
+  InstancedBufferAttribute,
+  WireframeGeometry,
   PerspectiveCamera,
   PlaneGeometry,
   Scene,
   SphereGeometry,
   TorusGeometry,
   CylinderGeometry,
+  CapsuleGeometry,
+  ConeGeometry,
+  IcosahedronGeometry,
+  RingGeometry,
+  TorusKnotGeometry,
   WebGPURenderer,
   MeshBasicNodeMaterial,
   MeshStandardNodeMaterial,
   MeshPhysicalNodeMaterial,
+  MeshToonNodeMaterial,
+  MeshLambertNodeMaterial,
+  MeshPhongNodeMaterial,
+  PointsNodeMaterial,
+  LineBasicNodeMaterial,
+  LineDashedNodeMaterial,
+  SpriteNodeMaterial,
   SRGBColorSpace,
   NoToneMapping,
+  LinearToneMapping,
+  ReinhardToneMapping,
+  CineonToneMapping,
+  ACESFilmicToneMapping,
+  AgXToneMapping,
+  NeutralToneMapping,
   Vector2,
   OrbitControls,
   WebGPU,
@@ -148,16 +196,19 @@ const runtime = {
 let lastCode = ''
 let lastTextures: Record<string, { src: string; name?: string }> = {}
 let lastGeometry = 'box'
+let lastGeometryParams: Record<string, number> = {}
 let currentApp: { dispose?: () => void } | null = null
 
 const applyCode = (
   code: string,
   textures: Record<string, { src: string; name?: string }>,
   geometryType: string,
+  geometryParams: Record<string, number>,
 ) => {
   lastCode = code
   lastTextures = textures
   lastGeometry = geometryType
+  lastGeometryParams = geometryParams
   Object.keys(textureSources).forEach((key) => {
     if (!textures[key]) {
       textureSources[key] = { src: '' }
@@ -180,6 +231,7 @@ const applyCode = (
           textures?: Record<string, Texture>
           timeUniform?: ReturnType<typeof TSL.uniform>
           geometryType?: string
+          geometryParams?: Record<string, number>
         }) => { dispose?: () => void })
       | undefined
 
@@ -203,6 +255,7 @@ const applyCode = (
       textures: textureMap,
       timeUniform,
       geometryType,
+      geometryParams,
     })
   } catch (error) {
     const message =
@@ -218,10 +271,16 @@ window.addEventListener('message', (event) => {
         code?: string
         textures?: Record<string, { src: string; name?: string }>
         geometryType?: string
+        geometryParams?: Record<string, number>
       }
     | undefined
   if (data?.type === 'tsl-code' && typeof data.code === 'string') {
-    applyCode(data.code, data.textures ?? {}, data.geometryType ?? 'box')
+    applyCode(
+      data.code,
+      data.textures ?? {},
+      data.geometryType ?? 'box',
+      data.geometryParams ?? {},
+    )
   }
 })
 
@@ -0,0 +1,16 @@
+import { defineConfig } from 'vite'
+
+export default defineConfig({
+  publicDir: false,
+  build: {
+    ssr: 'cli/tsl-node-editor.ts',
+    outDir: 'dist-cli',
+    emptyOutDir: true,
+    rollupOptions: {
+      output: {
+        entryFileNames: 'tsl-node-editor.js',
+        banner: '#!/usr/bin/env node',
+      },
+    },
+  },
+})